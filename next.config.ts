@@ -23,6 +23,12 @@ const nextConfig: NextConfig = {
     "pdfjs-dist",
   ],
 
+  // PDF export reads the self-hosted font bundle from disk
+  // (src/lib/pdf/embedded-fonts.ts); serverless functions don't see public/.
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./public/fonts/**/*"],
+  },
+
   // Security headers
   headers: async () => [
     {
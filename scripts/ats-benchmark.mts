@@ -0,0 +1,146 @@
+/**
+ * ATS benchmark for cv-engine recipes.
+ *
+ * Usage:
+ *   npx tsx scripts/ats-benchmark.mts            # print scores
+ *   npx tsx scripts/ats-benchmark.mts --write    # also regenerate the scores module
+ *
+ * Renders a fixed two-job fixture CV through `generatePDF` (the production
+ * PDF path) for every registered recipe, runs the ATS parseability check on
+ * the result and prints the score per recipe. With --write the scores are
+ * written to src/lib/cv-engine/recipes/ats-scores.ts, which the style
+ * picker reads to warn about recipes that parse poorly.
+ *
+ * Re-run with --write after adding a recipe or changing a layout shape.
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { GeneratedCVContent } from '../src/types';
+import type { CVStyleTokensV2 } from '../src/lib/cv-engine/tokens';
+import type { CVDesignTokens } from '../src/types/design-tokens';
+import { generatePDF } from '../src/lib/pdf/generator';
+import { extractPdfText } from '../src/lib/pdf/pdf-text';
+import { analyzeATSParseability } from '../src/lib/cv/ats-check';
+import { getAllRecipeIds } from '../src/lib/cv-engine/recipes/registry';
+
+const write = process.argv.includes('--write');
+
+// ============ Fixture content ============
+
+const fixtureContent: GeneratedCVContent = {
+  headline: 'Senior Product Engineer',
+  summary:
+    'Engineer who turns vague product goals into measurable changes. Eight years across early-stage SaaS, fintech tooling and developer platforms.',
+  experience: [
+    {
+      title: 'Lead Engineer',
+      company: 'Adyen',
+      location: 'Amsterdam',
+      period: '2021 — heden',
+      highlights: [
+        'Grew daily active merchants of the dispute tooling by 38% in two quarters.',
+        'Led the migration from a server-rendered admin to a Next.js island architecture.',
+        'Shipped the design-system token migration that unblocked four product teams.',
+      ],
+    },
+    {
+      title: 'Engineer',
+      company: 'Booking.com',
+      location: 'Amsterdam',
+      period: '2017 — 2021',
+      highlights: [
+        'Shipped the property-photo pipeline that processed twelve million uploads a year.',
+        'Mentored four junior engineers through their first promotion.',
+      ],
+    },
+  ],
+  education: [
+    {
+      degree: 'BSc Computer Science',
+      institution: 'University of Amsterdam',
+      year: '2013 — 2017',
+      details: 'Thesis on graph-database query planners.',
+    },
+  ],
+  skills: {
+    technical: ['TypeScript', 'React', 'Next.js', 'Postgres', 'GCP'],
+    soft: ['Technical writing', 'Mentoring'],
+  },
+  languages: [
+    { language: 'Nederlands', level: 'Moedertaal' },
+    { language: 'English', level: 'C2' },
+  ],
+  certifications: ['Google Cloud Professional Architect'],
+  interests: ['Schaken — strategisch denken', 'Trail running'],
+};
+
+const fullName = 'Niels van der Werf';
+const contact = {
+  email: 'niels@example.com',
+  phone: '+31 6 1234 5678',
+  linkedinUrl: 'https://linkedin.com/in/niels-vdw',
+};
+const sectionOrder = ['summary', 'experience', 'education', 'skills', 'languages', 'certifications', 'interests'];
+
+// ============ Run ============
+
+const scores: Record<string, number> = {};
+
+for (const recipeId of getAllRecipeIds()) {
+  const tokens: CVStyleTokensV2 = {
+    engineVersion: 'v2',
+    recipeId,
+    emphasis: {},
+    sectionOrder,
+  };
+
+  const pdf = await generatePDF(
+    fixtureContent,
+    fullName,
+    tokens as unknown as CVDesignTokens,
+    null,
+    fixtureContent.headline,
+    null,
+    contact,
+    'multi-page',
+    'a4',
+    'nl',
+  );
+  const text = await extractPdfText(new Uint8Array(pdf));
+  const report = analyzeATSParseability(text, { fullName, contact, content: fixtureContent, recipeId });
+  scores[recipeId] = report.score;
+
+  console.log(`${recipeId.padEnd(28)} ${String(report.score).padStart(3)}`);
+  for (const check of report.checks.filter(c => c.status !== 'pass')) {
+    console.log(`  ${check.status.padEnd(4)} ${check.id}: ${check.detail}`);
+  }
+}
+
+if (write) {
+  const outPath = join(process.cwd(), 'src', 'lib', 'cv-engine', 'recipes', 'ats-scores.ts');
+  const entries = Object.entries(scores)
+    .map(([id, score]) => `  '${id}': ${score},`)
+    .join('\n');
+  await writeFile(
+    outPath,
+    `/**
+ * ATS parseability score (0–100) per recipe, measured on a fixture CV.
+ *
+ * GENERATED by scripts/ats-benchmark.mts --write — do not edit by hand.
+ * The style picker warns about recipes below ATS_WARNING_THRESHOLD
+ * (src/lib/cv/ats-check.ts).
+ */
+
+export const RECIPE_ATS_SCORES: Record<string, number> = {
+${entries}
+};
+
+export function getRecipeATSScore(recipeId: string): number | undefined {
+  return RECIPE_ATS_SCORES[recipeId];
+}
+`,
+    'utf-8',
+  );
+  console.log(`[ats-benchmark] wrote ${outPath.replace(process.cwd(), '.')}`);
+}
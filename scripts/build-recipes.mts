@@ -0,0 +1,134 @@
+/**
+ * Recipe registry generator.
+ *
+ * Usage:
+ *   npm run build:recipes                 # validate + regenerate
+ *   npm run build:recipes -- --check      # fail if anything is invalid or stale
+ *
+ * `npm run build` and `npm run lint` run the --check, so a SKILL.md edit
+ * without a regenerated registry fails the build.
+ *
+ * Scans src/lib/cv-engine/recipes/{route}/{name}/SKILL.md, validates every
+ * frontmatter against DesignSpecSchema (see recipes/parse.ts) and writes
+ * src/lib/cv-engine/recipes/generated.ts, the static map registry.ts
+ * re-exports. Folders with a spec.ts are imported from it; Markdown-only
+ * recipes are inlined from their frontmatter.
+ *
+ * A spec.ts must agree with its SKILL.md frontmatter: both modes import it
+ * and fail on any top-level field that differs, so the two copies cannot
+ * drift apart.
+ *
+ * Re-run after adding, renaming or editing a recipe. Unused vendored
+ * open-design skills are listed at the end as candidates for a `vendor:`
+ * recipe.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { isDeepStrictEqual } from 'node:util';
+import { RECIPES_DIR, discoverRecipes, type DiscoveredRecipe } from '../src/lib/cv-engine/recipes/discover';
+import type { DesignSpec } from '../src/lib/cv-engine/spec';
+
+const check = process.argv.includes('--check');
+const outPath = join(process.cwd(), 'src', 'lib', 'cv-engine', 'recipes', 'generated.ts');
+
+// ============ Discover ============
+
+const { recipes, vendored, errors } = await discoverRecipes();
+
+if (errors.length > 0) {
+  for (const error of errors) {
+    console.error(`✗ ${error.file}`);
+    for (const issue of error.issues) console.error(`    ${issue}`);
+  }
+  console.error(`[build-recipes] ${errors.length} invalid recipe(s) — fix the frontmatter above and re-run.`);
+  process.exit(1);
+}
+
+// ============ Drift ============
+
+const drifted: string[] = [];
+for (const recipe of recipes.filter(r => r.specModule)) {
+  const { spec } = (await import(pathToFileURL(join(RECIPES_DIR, recipe.id, 'spec.ts')).href)) as { spec: DesignSpec };
+  const keys = new Set([...Object.keys(recipe.spec), ...Object.keys(spec)]) as Set<keyof DesignSpec>;
+  const fields = [...keys].filter(key => !isDeepStrictEqual(recipe.spec[key], spec[key]));
+  if (fields.length > 0) {
+    console.error(`✗ ${recipe.file}`);
+    console.error(`    differs from spec.ts in: ${fields.join(', ')}`);
+    drifted.push(recipe.id);
+  }
+}
+
+if (drifted.length > 0) {
+  console.error(`[build-recipes] ${drifted.length} SKILL.md frontmatter(s) out of sync with spec.ts — make the two match and re-run.`);
+  process.exit(1);
+}
+
+// ============ Render ============
+
+/** 'creative/field-notes' → 'creativeFieldNotes' */
+function identifier(id: string): string {
+  return id
+    .split(/[/-]/)
+    .map((part, i) => (i === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join('');
+}
+
+function renderInline(recipe: DiscoveredRecipe): string {
+  const literal = JSON.stringify(recipe.spec, null, 2);
+  return `// ${recipe.file}${recipe.vendor ? ` (body: _vendor/${recipe.vendor})` : ''}\nconst ${identifier(recipe.id)}: DesignSpec = ${literal};`;
+}
+
+const imports = recipes
+  .filter(r => r.specModule)
+  .map(r => `import { spec as ${identifier(r.id)} } from '${r.specModule}';`);
+const inline = recipes.filter(r => !r.specModule).map(renderInline);
+const entries = recipes.map(r => `  '${r.id}': ${identifier(r.id)},`);
+
+const source = `/**
+ * Static recipe map, discovered from recipes/{route}/{name}/SKILL.md.
+ *
+ * GENERATED by scripts/build-recipes.mts — do not edit by hand.
+ * Recipes with a spec.ts are imported from it; Markdown-only recipes are
+ * inlined from their validated frontmatter.
+ */
+
+import type { DesignSpec } from '../spec';
+${imports.join('\n')}
+${inline.length > 0 ? `\n${inline.join('\n\n')}\n` : ''}
+export const GENERATED_RECIPES = {
+${entries.join('\n')}
+} as const satisfies Record<string, DesignSpec>;
+`;
+
+// ============ Write / check ============
+
+const current = await readFile(outPath, 'utf-8').catch(() => '');
+
+for (const recipe of recipes) {
+  const origin = recipe.specModule ? 'spec.ts' : recipe.vendor ? `SKILL.md + _vendor/${recipe.vendor}` : 'SKILL.md';
+  console.log(`✓ ${recipe.id.padEnd(28)} ${origin}`);
+}
+
+const used = new Set(recipes.map(r => r.vendor).filter(Boolean));
+const unused = vendored.filter(v => !used.has(v.name));
+if (unused.length > 0) {
+  console.log(`\nVendored skills without a recipe (add recipes/{route}/{name}/SKILL.md with \`vendor: <name>\`):`);
+  for (const skill of unused) {
+    console.log(`  ${skill.name.padEnd(40)} ${skill.description.split('\n')[0].slice(0, 60)}`);
+  }
+}
+
+if (check) {
+  if (current !== source) {
+    console.error(`\n[build-recipes] ${outPath.replace(process.cwd(), '.')} is stale — run npm run build:recipes`);
+    process.exit(1);
+  }
+  console.log(`\n[build-recipes] ${recipes.length} recipes, registry up to date`);
+} else if (current === source) {
+  console.log(`\n[build-recipes] ${recipes.length} recipes, registry unchanged`);
+} else {
+  await writeFile(outPath, source, 'utf-8');
+  console.log(`\n[build-recipes] wrote ${outPath.replace(process.cwd(), '.')} (${recipes.length} recipes)`);
+}
@@ -0,0 +1,48 @@
+/**
+ * Spend-recording check for AI routes.
+ *
+ * Usage:
+ *   npm run check:ai-usage
+ *
+ * `npm run lint` runs it. The daily spend ceilings and anomaly alerts only
+ * see what `recordOperationUsage` writes (see src/lib/ai/usage-tracker.ts),
+ * so an API route that resolves a provider or charges platform credits
+ * without recording its usage is spend the caps never count.
+ *
+ * This is a source scan, not a behaviour test: it flags every route.ts
+ * under src/app/api that mentions `resolveProvider` or
+ * `chargePlatformCredits` but never calls `recordOperationUsage(`.
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+
+const API_DIR = join(process.cwd(), 'src', 'app', 'api');
+
+async function routeFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) return routeFiles(path);
+      return Promise.resolve(entry.name === 'route.ts' ? [path] : []);
+    }),
+  );
+  return nested.flat();
+}
+
+const missing: string[] = [];
+for (const file of await routeFiles(API_DIR)) {
+  const source = await readFile(file, 'utf-8');
+  const usesPlatformAI = /\b(resolveProvider|chargePlatformCredits)\b/.test(source);
+  if (usesPlatformAI && !/\brecordOperationUsage\(/.test(source)) {
+    missing.push(relative(process.cwd(), file));
+  }
+}
+
+if (missing.length > 0) {
+  for (const file of missing) console.error(`✗ ${file}`);
+  console.error(`[check-ai-usage] ${missing.length} AI route(s) never call recordOperationUsage`);
+  process.exit(1);
+}
+console.log('[check-ai-usage] every AI route records its usage');
@@ -0,0 +1,180 @@
+/**
+ * Self-hosted PDF font bundle.
+ *
+ * Usage:
+ *   npm run fetch:fonts               # download + rewrite public/fonts
+ *   npm run fetch:fonts -- --check    # fail if a used family/weight is missing (no network)
+ *
+ * Collects every Google Fonts URL the renderers can emit (cv-engine font
+ * pairings plus the legacy themes), downloads the woff2 files per
+ * family/weight/unicode-range subset into public/fonts/<family>/ and writes
+ * public/fonts/manifest.json. PDF export inlines these through
+ * src/lib/pdf/embedded-fonts.ts instead of fetching from Google at render
+ * time.
+ *
+ * The bundle isn't committed: the Docker build runs this before
+ * `npm run build`, whose `--check` step fails the build when the bundle is
+ * missing or lacks a family/weight a renderer can emit.
+ */
+
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { getAllFontUrls } from '../src/lib/cv-engine/render/css/fonts';
+import { fontPairings } from '../src/lib/cv/templates/themes';
+import {
+  FONTS_DIR,
+  FONT_MANIFEST_PATH,
+  parseGoogleFontsUrl,
+  type EmbeddedFontFace,
+  type FontManifest,
+} from '../src/lib/pdf/embedded-fonts';
+
+const check = process.argv.includes('--check');
+
+// Google only serves woff2 with unicode-range subsets to modern browsers.
+const USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+/** Subsets worth bundling for CVs; math/symbols/emoji fall back to system fonts. */
+const SUBSETS = new Set(['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese']);
+
+// ============ Collect ============
+
+const urls = new Set(getAllFontUrls());
+for (const config of Object.values(fontPairings)) {
+  if (config.heading.googleUrl) urls.add(config.heading.googleUrl);
+  if (config.body.googleUrl) urls.add(config.body.googleUrl);
+}
+
+const families = new Map<string, Set<number>>();
+for (const url of urls) {
+  for (const { family, weights } of parseGoogleFontsUrl(url)) {
+    const set = families.get(family) ?? new Set<number>();
+    for (const weight of weights) set.add(weight);
+    families.set(family, set);
+  }
+}
+
+const wanted = [...families.entries()]
+  .map(([family, weights]) => ({ family, weights: [...weights].sort((a, b) => a - b) }))
+  .sort((a, b) => a.family.localeCompare(b.family));
+
+// ============ Check ============
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+if (check) {
+  const manifest: FontManifest | null = await readFile(FONT_MANIFEST_PATH, 'utf-8')
+    .then((raw) => JSON.parse(raw) as FontManifest)
+    .catch(() => null);
+  if (!manifest) {
+    console.error(`[fetch-fonts] no manifest at ${FONT_MANIFEST_PATH.replace(process.cwd(), '.')} — run npm run fetch:fonts`);
+    process.exit(1);
+  }
+
+  const problems: string[] = [];
+  for (const { family, weights } of wanted) {
+    for (const weight of weights) {
+      if (!manifest.faces.some((f) => f.family === family && f.weight === weight)) {
+        problems.push(`${family} ${weight} is not bundled`);
+      }
+    }
+  }
+  for (const file of new Set(manifest.faces.map((f) => f.file))) {
+    if (!(await exists(join(FONTS_DIR, file)))) problems.push(`${file} is listed but missing`);
+  }
+
+  if (problems.length > 0) {
+    for (const problem of problems) console.error(`✗ ${problem}`);
+    console.error(`[fetch-fonts] font bundle is stale — run npm run fetch:fonts`);
+    process.exit(1);
+  }
+  console.log(`[fetch-fonts] ${wanted.length} families, bundle up to date`);
+  process.exit(0);
+}
+
+// ============ Download ============
+
+const FACE_BLOCK = /\/\*\s*([\w-]+)\s*\*\/\s*@font-face\s*\{([^}]*)\}/g;
+
+function declaration(block: string, property: string): string | null {
+  const match = block.match(new RegExp(`${property}\\s*:\\s*([^;]+);`));
+  return match ? match[1].trim() : null;
+}
+
+/** 'Source Sans 3' → 'source-sans-3' */
+function slug(family: string): string {
+  return family.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+async function fetchOk(url: string): Promise<Response> {
+  const response = await fetch(url, { headers: { 'User-Agent': USER_AGENT } });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText} for ${url}`);
+  return response;
+}
+
+const faces: EmbeddedFontFace[] = [];
+const downloaded = new Map<string, string>();
+const files = new Map<string, Buffer>();
+
+for (const { family, weights } of wanted) {
+  const query = `family=${encodeURIComponent(family).replace(/%20/g, '+')}:wght@${weights.join(';')}`;
+  const css = await (await fetchOk(`https://fonts.googleapis.com/css2?${query}&display=swap`)).text();
+  const dir = slug(family);
+
+  let count = 0;
+  for (const [, subset, block] of css.matchAll(FACE_BLOCK)) {
+    if (!SUBSETS.has(subset)) continue;
+    const src = block.match(/url\((https:[^)]+\.woff2)\)/)?.[1];
+    const weight = Number(declaration(block, 'font-weight'));
+    const style = declaration(block, 'font-style') === 'italic' ? 'italic' : 'normal';
+    const unicodeRange = declaration(block, 'unicode-range');
+    if (!src || !weight || !unicodeRange) continue;
+
+    let file = downloaded.get(src);
+    if (!file) {
+      // Variable families serve one file for every weight of a subset.
+      file = `${dir}/${src.split('/').pop()}`;
+      files.set(file, Buffer.from(await (await fetchOk(src)).arrayBuffer()));
+      downloaded.set(src, file);
+    }
+    faces.push({ family, style, weight, subset, unicodeRange, file });
+    count++;
+  }
+
+  if (count === 0) throw new Error(`No woff2 faces returned for ${family}`);
+  console.log(`✓ ${family.padEnd(20)} ${weights.join(', ').padEnd(20)} ${count} faces`);
+}
+
+// ============ Write ============
+
+// Only replace the bundle once everything downloaded, starting from an empty
+// directory so dropped families and renamed files go away.
+for (const entry of await readdir(FONTS_DIR).catch(() => [] as string[])) {
+  await rm(join(FONTS_DIR, entry), { recursive: true, force: true });
+}
+let bytes = 0;
+for (const [file, data] of files) {
+  await mkdir(join(FONTS_DIR, file.split('/')[0]), { recursive: true });
+  await writeFile(join(FONTS_DIR, file), data);
+  bytes += data.length;
+}
+
+faces.sort(
+  (a, b) =>
+    a.family.localeCompare(b.family) || a.weight - b.weight || a.subset.localeCompare(b.subset),
+);
+const manifest: FontManifest = { faces };
+await writeFile(FONT_MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+
+console.log(
+  `\n[fetch-fonts] wrote ${FONT_MANIFEST_PATH.replace(process.cwd(), '.')} ` +
+    `(${wanted.length} families, ${files.size} files, ${(bytes / 1024 / 1024).toFixed(1)} MB)`,
+);
@@ -26,6 +26,7 @@ import type { GeneratedCVContent } from '../src/types';
 import type { CVStyleTokensV2 } from '../src/lib/cv-engine/tokens';
 import { composeCV } from '../src/lib/cv-engine/render/compose';
 import { getAllRecipeIds, getRecipeById } from '../src/lib/cv-engine/recipes/registry';
+import { embedFonts } from '../src/lib/pdf/embedded-fonts';
 
 const arg = process.argv[2];
 if (!arg) {
@@ -160,7 +161,7 @@ try {
       await writeFile(htmlPath, html, 'utf-8');
 
       const page = await browser.newPage();
-      await page.setContent(html, { waitUntil: 'networkidle0' });
+      await page.setContent(await embedFonts(html), { waitUntil: 'networkidle0' });
 
       if (mode === 'a4-paged') {
         await page.pdf({
@@ -1,4 +1,5 @@
 import { PlatformConfigSection } from '@/components/admin/platform-config-section';
+import { SpendLimitsSection } from '@/components/admin/spend-limits-section';
 import { PageHeader } from '@/components/brand/page-header';
 
 export default function AdminPlatformPage() {
@@ -7,9 +8,12 @@ export default function AdminPlatformPage() {
       <PageHeader
         eyebrow="§ Model-configuratie"
         title={<>Platform <em>AI</em></>}
-        subtitle="Configureer per AI-operatie welk Claude-model wordt gebruikt voor platform-users."
+        subtitle="Configureer per AI-operatie welk Claude-model wordt gebruikt voor platform-users, en bewaak het dagelijkse verbruik."
       />
-      <PlatformConfigSection />
+      <div className="space-y-6">
+        <PlatformConfigSection />
+        <SpendLimitsSection />
+      </div>
     </>
   );
 }
@@ -0,0 +1,15 @@
+import { JobCompaniesSection } from '@/components/admin/job-companies-section';
+import { PageHeader } from '@/components/brand/page-header';
+
+export default function AdminJobSourcesPage() {
+  return (
+    <>
+      <PageHeader
+        eyebrow="§ Vacaturebronnen"
+        title={<>Bedrijfs<em>borden</em></>}
+        subtitle="Beheer welke werkgevers de vacaturebank synchroniseert, test nieuwe borden en bekijk hun gezondheid."
+      />
+      <JobCompaniesSection />
+    </>
+  );
+}
@@ -7,22 +7,33 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
-import { Loader2, Building2, MapPin, ExternalLink, Trash2, Save, Briefcase } from 'lucide-react';
+import {
+  Loader2,
+  Building2,
+  MapPin,
+  ExternalLink,
+  Trash2,
+  Save,
+  Briefcase,
+  CalendarDays,
+  CalendarPlus,
+  Columns3,
+  List,
+  MessageSquareQuote,
+  Mic,
+} from 'lucide-react';
 import type { ApplicationRecord, ApplicationStatus } from '@/types/application';
 import { PageHeader } from '@/components/brand/page-header';
+import { JobAlertsCard } from '@/components/jobs/job-alerts-card';
+import { APPLICATION_STATUSES, getStatusMeta } from '@/components/applications/status-meta';
+import { ApplicationTimeline } from '@/components/applications/application-timeline';
+import { AddEventDialog } from '@/components/applications/add-event-dialog';
+import { MockInterviewDialog } from '@/components/applications/mock-interview-dialog';
+import { FollowUpCard } from '@/components/applications/follow-up-card';
+import { PipelineBoard } from '@/components/applications/pipeline-board';
+import { FOLLOW_UP_DAY_OPTIONS } from '@/lib/applications/timeline';
 
-const STATUSES: Array<{ value: ApplicationStatus; label: string; color: string }> = [
-  { value: 'applied', label: 'Verzonden', color: 'bg-blue-100 text-blue-800' },
-  { value: 'interview', label: 'Gesprek', color: 'bg-amber-100 text-amber-800' },
-  { value: 'offer', label: 'Aanbod', color: 'bg-purple-100 text-purple-800' },
-  { value: 'accepted', label: 'Aangenomen', color: 'bg-green-100 text-green-800' },
-  { value: 'rejected', label: 'Afgewezen', color: 'bg-red-100 text-red-800' },
-  { value: 'withdrawn', label: 'Ingetrokken', color: 'bg-gray-100 text-gray-800' },
-];
-
-function getStatusMeta(status: ApplicationStatus) {
-  return STATUSES.find((s) => s.value === status) ?? STATUSES[0];
-}
+type View = 'list' | 'board';
 
 export default function ApplicationsPage() {
   const t = useTranslations();
@@ -31,9 +42,13 @@ export default function ApplicationsPage() {
   const [error, setError] = useState<string | null>(null);
   const [openNotes, setOpenNotes] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState<string | null>(null);
+  const [view, setView] = useState<View>('list');
+  const [eventTarget, setEventTarget] = useState<ApplicationRecord | null>(null);
+  const [interviewTarget, setInterviewTarget] = useState<ApplicationRecord | null>(null);
 
-  const load = useCallback(async () => {
-    setLoading(true);
+  // `silent` refreshes in place, e.g. after a mock interview stored a transcript.
+  const load = useCallback(async (silent = false) => {
+    if (!silent) setLoading(true);
     setError(null);
     try {
       const res = await fetch('/api/applications');
@@ -43,7 +58,7 @@ export default function ApplicationsPage() {
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load');
     } finally {
-      setLoading(false);
+      if (!silent) setLoading(false);
     }
   }, []);
 
@@ -51,22 +66,52 @@ export default function ApplicationsPage() {
     void load();
   }, [load]);
 
-  const updateStatus = async (id: string, status: ApplicationStatus) => {
+  const replaceApplication = (updated: ApplicationRecord) => {
+    setApplications((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+  };
+
+  const patchApplication = async (
+    id: string,
+    patch: { status?: ApplicationStatus; followUpAfterDays?: number | null },
+  ) => {
+    // Optimistic — the board moves the card immediately; roll back on failure.
+    const previous = applications;
+    setApplications((prev) => prev.map((a) => (a.id === id ? { ...a, ...patch } : a)));
     setSaving(id);
     try {
-      await fetch(`/api/applications/${id}`, {
+      const res = await fetch(`/api/applications/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify(patch),
       });
-      setApplications((prev) =>
-        prev.map((a) => (a.id === id ? { ...a, status } : a)),
-      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed');
+      replaceApplication(data.application);
+    } catch {
+      setApplications(previous);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const updateStatus = (id: string, status: ApplicationStatus) => patchApplication(id, { status });
+
+  const deleteEvent = async (app: ApplicationRecord, eventId: string) => {
+    setSaving(app.id);
+    try {
+      const res = await fetch(`/api/applications/${app.id}/events/${eventId}`, {
+        method: 'DELETE',
+      });
+      if (res.ok) {
+        replaceApplication({ ...app, events: app.events.filter((e) => e.id !== eventId) });
+      }
     } finally {
       setSaving(null);
     }
   };
 
+  const hasInterviews = applications.some((a) => a.events.some((e) => e.type === 'interview'));
+
   const saveNotes = async (id: string) => {
     setSaving(id);
     try {
@@ -117,6 +162,41 @@ export default function ApplicationsPage() {
         </div>
       )}
 
+      <JobAlertsCard />
+
+      <FollowUpCard applications={applications} onUpdated={replaceApplication} />
+
+      {applications.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="inline-flex rounded-md border p-0.5">
+            <Button
+              size="sm"
+              variant={view === 'list' ? 'secondary' : 'ghost'}
+              onClick={() => setView('list')}
+            >
+              <List className="h-3 w-3 mr-1" />
+              Lijst
+            </Button>
+            <Button
+              size="sm"
+              variant={view === 'board' ? 'secondary' : 'ghost'}
+              onClick={() => setView('board')}
+            >
+              <Columns3 className="h-3 w-3 mr-1" />
+              Pipeline
+            </Button>
+          </div>
+          {hasInterviews && (
+            <Button size="sm" variant="outline" asChild>
+              <a href="/api/applications/calendar" download>
+                <CalendarDays className="h-3 w-3 mr-1" />
+                Gesprekken in agenda (.ics)
+              </a>
+            </Button>
+          )}
+        </div>
+      )}
+
       {applications.length === 0 ? (
         <Card>
           <CardContent className="py-10 flex flex-col items-center gap-3 text-center">
@@ -131,6 +211,12 @@ export default function ApplicationsPage() {
             </Button>
           </CardContent>
         </Card>
+      ) : view === 'board' ? (
+        <PipelineBoard
+          applications={applications}
+          onMove={updateStatus}
+          onAddEvent={setEventTarget}
+        />
       ) : (
         <div className="space-y-3">
           {applications.map((app) => {
@@ -180,7 +266,7 @@ export default function ApplicationsPage() {
                         className="rounded-md border bg-background px-2 py-1 text-xs"
                         disabled={saving === app.id}
                       >
-                        {STATUSES.map((s) => (
+                        {APPLICATION_STATUSES.map((s) => (
                           <option key={s.value} value={s.value}>
                             {s.label}
                           </option>
@@ -190,6 +276,11 @@ export default function ApplicationsPage() {
                   </div>
                 </CardHeader>
                 <CardContent className="pt-0 space-y-3">
+                  <ApplicationTimeline
+                    application={app}
+                    onDelete={(eventId) => deleteEvent(app, eventId)}
+                    disabled={saving === app.id}
+                  />
                   <Textarea
                     value={notesValue}
                     onChange={(e) =>
@@ -198,7 +289,7 @@ export default function ApplicationsPage() {
                     placeholder="Notities (gespreksdatum, contactpersoon, etc.)"
                     rows={2}
                   />
-                  <div className="flex items-center gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
                     <Button
                       size="sm"
                       variant="outline"
@@ -208,6 +299,33 @@ export default function ApplicationsPage() {
                       <Save className="h-3 w-3 mr-1" />
                       Notities opslaan
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setEventTarget(app)}
+                      disabled={saving === app.id}
+                    >
+                      <CalendarPlus className="h-3 w-3 mr-1" />
+                      Gebeurtenis
+                    </Button>
+                    {app.cvId && (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/cv/${app.cvId}?application=${app.id}#interview-prep`}>
+                          <MessageSquareQuote className="h-3 w-3 mr-1" />
+                          Gesprek voorbereiden
+                        </Link>
+                      </Button>
+                    )}
+                    {app.cvId && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setInterviewTarget(app)}
+                      >
+                        <Mic className="h-3 w-3 mr-1" />
+                        Proefgesprek
+                      </Button>
+                    )}
                     {app.jobUrl && (
                       <Button size="sm" variant="ghost" asChild>
                         <a href={app.jobUrl} target="_blank" rel="noopener noreferrer">
@@ -216,10 +334,28 @@ export default function ApplicationsPage() {
                         </a>
                       </Button>
                     )}
+                    <select
+                      value={app.followUpAfterDays ?? ''}
+                      onChange={(e) =>
+                        patchApplication(app.id, {
+                          followUpAfterDays: e.target.value ? Number(e.target.value) : null,
+                        })
+                      }
+                      className="ml-auto rounded-md border bg-background px-2 py-1 text-xs"
+                      disabled={saving === app.id}
+                      aria-label="Follow-up herinnering"
+                    >
+                      {FOLLOW_UP_DAY_OPTIONS.map((days) => (
+                        <option key={days} value={days}>
+                          Herinner na {days} dagen
+                        </option>
+                      ))}
+                      <option value="">Geen herinnering</option>
+                    </select>
                     <Button
                       size="sm"
                       variant="ghost"
-                      className="ml-auto text-destructive hover:text-destructive"
+                      className="text-destructive hover:text-destructive"
                       onClick={() => removeApplication(app.id)}
                       disabled={saving === app.id}
                     >
@@ -233,6 +369,25 @@ export default function ApplicationsPage() {
           })}
         </div>
       )}
+
+      <AddEventDialog
+        open={eventTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setEventTarget(null);
+        }}
+        application={eventTarget}
+        onAdded={replaceApplication}
+      />
+      <MockInterviewDialog
+        open={interviewTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setInterviewTarget(null);
+            void load(true);
+          }
+        }}
+        application={interviewTarget}
+      />
     </>
   );
 }
@@ -1,7 +1,7 @@
 'use client';
 
 import { useCallback, useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import {
   ArrowLeft,
@@ -20,6 +20,9 @@ import {
   Building2,
   MapPin,
   ExternalLink,
+  Share2,
+  Eye,
+  Languages,
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -27,12 +30,18 @@ import { Alert } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { CVPreview } from '@/components/cv/cv-preview';
+import { CVVersionHistory } from '@/components/cv/cv-version-history';
+import { CVShareDialog } from '@/components/cv/cv-share-dialog';
+import { CVTranslateDialog } from '@/components/cv/cv-translate-dialog';
+import { ATSReportCard } from '@/components/cv/ats-report-card';
+import { InterviewPrepCard } from '@/components/cv/interview-prep-card';
 import { useAuth } from '@/components/auth/auth-context';
 import { getCV, updateCV } from '@/lib/firebase/firestore';
 import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
 import { getDefaultTokens } from '@/lib/cv/html-generator';
 import type { CV, GeneratedCVContent, CVStyleConfig, CVElementOverrides, FitAnalysis, FitVerdict, FitWarningSeverity } from '@/types';
 import type { CVDesignTokens } from '@/types/design-tokens';
+import { LANGUAGE_LABELS } from '@/types/language';
 
 function getVerdictConfig(verdict: FitVerdict) {
   switch (verdict) {
@@ -338,12 +347,15 @@ function FitAnalysisSection({ fitAnalysis, jobVacancy }: { fitAnalysis: FitAnaly
 export default function CVDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { firebaseUser, effectiveUserId, credits, refreshCredits } = useAuth();
 
   const [cv, setCV] = useState<(CV & { tokens?: CVDesignTokens }) | null>(null);
   const [loading, setLoading] = useState(true);
   const [isDownloading, setIsDownloading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isTranslateOpen, setIsTranslateOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const cvId = params.id as string;
@@ -478,11 +490,64 @@ export default function CVDetailPage() {
               <span>{tokens.styleName}</span>
               <span>•</span>
               <Badge variant="outline">{cv.status}</Badge>
+              {!!cv.shareViewCount && (
+                <>
+                  <span>•</span>
+                  <span className="inline-flex items-center gap-1">
+                    <Eye className="h-3.5 w-3.5" />
+                    {cv.shareViewCount}× bekeken via deellink
+                  </span>
+                </>
+              )}
+              {cv.translatedFrom && (
+                <>
+                  <span>•</span>
+                  <Link href={`/cv/${cv.translatedFrom.cvId}`} className="inline-flex items-center gap-1 underline-offset-2 hover:underline">
+                    <Languages className="h-3.5 w-3.5" />
+                    Vertaling (origineel: {LANGUAGE_LABELS[cv.translatedFrom.language]})
+                  </Link>
+                </>
+              )}
             </div>
           </div>
         </div>
+        {cv.generatedContent && (
+          <div className="flex gap-2 sm:ml-auto">
+            <Button variant="outline" size="sm" onClick={() => setIsTranslateOpen(true)}>
+              <Languages className="mr-2 h-4 w-4" />
+              Vertalen
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsShareOpen(true)}>
+              <Share2 className="mr-2 h-4 w-4" />
+              Delen
+            </Button>
+          </div>
+        )}
       </div>
 
+      {cv.generatedContent && (
+        <CVShareDialog
+          cvId={cvId}
+          open={isShareOpen}
+          onOpenChange={(open) => {
+            setIsShareOpen(open);
+            // Pick up view counts that changed while the dialog was open.
+            if (!open) fetchCV();
+          }}
+        />
+      )}
+
+      {cv.generatedContent && (
+        <CVTranslateDialog
+          cvId={cvId}
+          language={cv.language || 'nl'}
+          translations={cv.translations}
+          hasMotivationLetter={!!cv.motivationLetter}
+          open={isTranslateOpen}
+          onOpenChange={setIsTranslateOpen}
+        />
+      )}
+
       {error && (
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
@@ -507,6 +572,26 @@ export default function CVDetailPage() {
         <FitAnalysisSection fitAnalysis={cv.fitAnalysis} jobVacancy={cv.jobVacancy} />
       )}
 
+      {/* ATS parseability of the rendered PDF */}
+      {cv.generatedContent && (
+        <ATSReportCard
+          cvId={cvId}
+          report={cv.atsReport}
+          recipeId={(tokens as { recipeId?: string }).recipeId ?? null}
+          onChecked={(atsReport) => setCV(prev => prev ? { ...prev, atsReport } : null)}
+        />
+      )}
+
+      {/* Interview questions + STAR outlines for this vacancy */}
+      {cv.generatedContent && cv.jobVacancy && (
+        <InterviewPrepCard
+          cvId={cvId}
+          pack={cv.interviewPrep}
+          applicationId={searchParams.get('application')}
+          onGenerated={(interviewPrep) => setCV(prev => prev ? { ...prev, interviewPrep } : null)}
+        />
+      )}
+
       {/* CV Content */}
       {cv.generatedContent ? (
         <CVPreview
@@ -571,6 +656,11 @@ export default function CVDetailPage() {
           </CardContent>
         </Card>
       )}
+
+      {/* Version history — rollback of edits, chat changes and regenerations */}
+      {cv.generatedContent && (
+        <CVVersionHistory cvId={cvId} refreshKey={cv.updatedAt} onRestored={fetchCV} />
+      )}
     </div>
   );
 }
@@ -7,6 +7,12 @@ import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   ArrowLeft,
   Loader2,
@@ -16,9 +22,11 @@ import {
   AlertCircle,
   User,
   Star,
+  Download,
 } from 'lucide-react';
 import { ProfileEditForm } from '@/components/profiles/profile-edit-form';
 import { ProfileEnrichDrawer } from '@/components/profiles/profile-enrich-drawer';
+import { PROFILE_INTERCHANGE_FORMATS } from '@/lib/linkedin/interchange';
 import type { SavedProfile, ParsedLinkedIn } from '@/types';
 
 export default function ProfileEditPage() {
@@ -219,6 +227,23 @@ export default function ProfileEditPage() {
                   <FileText className="h-4 w-4 mr-1" />
                   CV
                 </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" disabled={isDirty}>
+                      <Download className="h-4 w-4 mr-1" />
+                      {t('export')}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {PROFILE_INTERCHANGE_FORMATS.map((format) => (
+                      <DropdownMenuItem key={format} asChild>
+                        <a href={`/api/profiles/${profileId}?format=${format}`} download>
+                          {t(`exportFormats.${format}`)}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
 
@@ -1,8 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert } from '@/components/ui/alert';
@@ -20,8 +21,10 @@ import {
   Loader2,
   AlertCircle,
   Trash2,
+  Upload,
 } from 'lucide-react';
 import { useProfiles } from '@/hooks/use-profiles';
+import { importProfileDocument, ProfileImportError } from '@/lib/linkedin/interchange';
 import { ProfileCard } from '@/components/profiles/profile-card';
 import { PageHeader } from '@/components/brand/page-header';
 
@@ -31,6 +34,8 @@ export default function ProfilesPage() {
   const { profiles, isLoading, error, deleteProfile, setDefaultProfile } = useProfiles();
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleDelete = async (profileId: string) => {
     setIsDeleting(true);
@@ -41,6 +46,39 @@ export default function ProfilesPage() {
     setIsDeleting(false);
   };
 
+  // Import a JSON Resume / Europass file. Conversion runs client-side and
+  // is deterministic — no AI call, no credits. The result is saved through
+  // the regular create endpoint so it gets the same validation.
+  const handleImportFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const { parsedData } = importProfileDocument(await file.text());
+      const response = await fetch('/api/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: (parsedData.headline || parsedData.fullName).slice(0, 200),
+          description: file.name,
+          parsedData,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || t('import.error'));
+      }
+      toast.success(t('import.success'));
+      router.push(`/profiles/${data.profile.id}`);
+    } catch (err) {
+      const details = err instanceof ProfileImportError && err.issues.length
+        ? ` (${err.issues.map(i => i.path).join(', ')})`
+        : '';
+      toast.error(`${err instanceof Error ? err.message : t('import.error')}${details}`);
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
   const handleCreateCV = (profileId: string) => {
     router.push(`/cv/new?profile=${profileId}`);
   };
@@ -66,14 +104,40 @@ export default function ProfilesPage() {
         title={<>Mijn <em>profielen</em></>}
         subtitle={t('subtitle')}
         actions={
-          <button
-            type="button"
-            onClick={() => router.push('/cv/new')}
-            className="brand-btn brand-btn--primary"
-          >
-            <Plus className="h-4 w-4" />
-            {t('newProfile')}
-          </button>
+          <>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.xml,application/json,application/xml,text/xml"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+              title={t('import.hint')}
+              className="brand-btn brand-btn--outline"
+            >
+              {isImporting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              {isImporting ? t('import.importing') : t('import.button')}
+            </button>
+            <button
+              type="button"
+              onClick={() => router.push('/cv/new')}
+              className="brand-btn brand-btn--primary"
+            >
+              <Plus className="h-4 w-4" />
+              {t('newProfile')}
+            </button>
+          </>
         }
       />
 
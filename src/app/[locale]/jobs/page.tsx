@@ -3,6 +3,7 @@ import type { Metadata } from 'next';
 import { JobSearchBar } from '@/components/jobs/job-search-bar';
 import { JobCard } from '@/components/jobs/job-card';
 import { JobPagination } from '@/components/jobs/job-pagination';
+import { JobAlertButton } from '@/components/jobs/job-alert-button';
 import { searchJobs } from '@/lib/jobs/search';
 import type { JobSortOption } from '@/lib/jobs/providers/types';
 import { BreadcrumbStructuredData } from '@/components/seo/structured-data';
@@ -119,9 +120,21 @@ export default async function JobsListPage({ params, searchParams }: Props) {
 
       {!errorMessage && results && (
         <>
-          <p className="text-sm text-muted-foreground">
-            {t('resultCount', { count: results.totalResults })}
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {t('resultCount', { count: results.totalResults })}
+            </p>
+            <JobAlertButton
+              params={{
+                q,
+                location,
+                employmentType,
+                remote: remote || undefined,
+                inAppOnly: inAppOnly || undefined,
+                salaryMin: activeFilters.salaryMin,
+              }}
+            />
+          </div>
 
           {results.results.length === 0 ? (
             <div className="rounded-md border bg-muted/20 p-8 text-center text-muted-foreground">
@@ -0,0 +1,139 @@
+import { cookies } from 'next/headers';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getTranslations, setRequestLocale } from 'next-intl/server';
+import { Download, LinkIcon } from 'lucide-react';
+import { Link } from '@/i18n/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SharedCVFrame } from '@/components/share/shared-cv-frame';
+import { SharePasswordForm } from '@/components/share/share-password-form';
+import { getAdminAuth } from '@/lib/firebase/admin';
+import {
+  getSharedCVRenderInput,
+  hasShareAccess,
+  recordShareView,
+  renderSharedCVHtml,
+  resolveShareToken,
+  shareAccessCookieName,
+} from '@/lib/cv/share';
+import { loadRecipesForRender } from '@/lib/cv-engine/recipes/stored';
+
+// Share state (revocation, expiry, view counter) must be read per request.
+export const dynamic = 'force-dynamic';
+
+type Props = {
+  params: Promise<{ locale: string; token: string }>;
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { token } = await params;
+  const t = await getTranslations('share');
+  const resolution = await resolveShareToken(token).catch(() => null);
+
+  // Don't leak the owner's name through the <title> of a protected link.
+  const title = resolution?.status === 'ok' && !resolution.share.passwordHash
+    ? `${t('title', { name: resolution.cv.linkedInData.fullName })} | CVeetje`
+    : 'CVeetje';
+
+  return {
+    title,
+    robots: { index: false, follow: false },
+  };
+}
+
+/** True when the visitor is the CV owner — their own visits aren't counted. */
+async function isOwnerVisit(ownerUid: string): Promise<boolean> {
+  const idToken = (await cookies()).get('firebase-token')?.value;
+  if (!idToken) return false;
+  try {
+    return (await getAdminAuth().verifyIdToken(idToken)).uid === ownerUid;
+  } catch {
+    return false;
+  }
+}
+
+export default async function SharedCVPage({ params }: Props) {
+  const { locale, token } = await params;
+  setRequestLocale(locale);
+  const t = await getTranslations('share');
+
+  const resolution = await resolveShareToken(token);
+  if (resolution.status === 'not-found') notFound();
+
+  if (resolution.status !== 'ok') {
+    const expired = resolution.status === 'expired';
+    return (
+      <main className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>{expired ? t('expiredTitle') : t('revokedTitle')}</CardTitle>
+            <CardDescription>{expired ? t('expiredBody') : t('revokedBody')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full">
+              <Link href="/">{t('ctaButton')}</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  const { share, cv } = resolution;
+  const accessCookie = (await cookies()).get(shareAccessCookieName(share.id))?.value;
+
+  if (!hasShareAccess(share, accessCookie)) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-4 bg-muted/30">
+        <SharePasswordForm token={token} />
+      </main>
+    );
+  }
+
+  if (!(await isOwnerVisit(share.userId))) {
+    await recordShareView(resolution);
+  }
+
+  const input = getSharedCVRenderInput(cv);
+  const customRecipes = await loadRecipesForRender(input.tokens, share.userId);
+  const html = renderSharedCVHtml(input, customRecipes);
+  const title = t('title', { name: input.fullName });
+
+  return (
+    <main className="min-h-screen bg-muted/30">
+      <header className="sticky top-0 z-10 border-b bg-background/95 backdrop-blur">
+        <div className="max-w-5xl mx-auto flex items-center justify-between gap-4 px-4 py-3">
+          <div className="min-w-0">
+            <h1 className="font-semibold truncate">{title}</h1>
+            {input.headline && (
+              <p className="text-sm text-muted-foreground truncate">{input.headline}</p>
+            )}
+          </div>
+          {share.allowPdfDownload && (
+            <Button asChild size="sm">
+              <a href={`/api/share/${token}/pdf`} download>
+                <Download className="mr-2 h-4 w-4" />
+                {t('downloadPdf')}
+              </a>
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <div className="px-4 py-8">
+        <SharedCVFrame html={html} title={title} />
+      </div>
+
+      <footer className="pb-8 text-center text-sm text-muted-foreground">
+        <Link href="/" className="inline-flex items-center gap-1.5 hover:underline">
+          <LinkIcon className="h-3.5 w-3.5" />
+          {t('madeWith')}
+        </Link>
+        <span className="mx-2">·</span>
+        <span>{t('ctaText')}</span>{' '}
+        <Link href="/register" className="underline">{t('ctaButton')}</Link>
+      </footer>
+    </main>
+  );
+}
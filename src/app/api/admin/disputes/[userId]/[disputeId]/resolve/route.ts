@@ -5,9 +5,12 @@ import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { resolveProvider, ProviderError } from '@/lib/ai/platform-provider';
 import { generateDesignTokens, createLinkedInSummaryV2 } from '@/lib/ai/style-generator-v2';
 import { generateStyleTokensV2 } from '@/lib/cv-engine/ai/orchestrator';
+import { loadStoredRecipes } from '@/lib/cv-engine/recipes/stored';
 import type { CVStyleTokensV2 } from '@/lib/cv-engine/tokens';
 import { generateCV } from '@/lib/ai/cv-generator';
-import type { CV, StyleCreativityLevel } from '@/types';
+import { recordCVVersion } from '@/lib/cv/versions';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
+import type { CV, StyleCreativityLevel, TokenUsage } from '@/types';
 
 /**
  * POST /api/admin/disputes/[userId]/[disputeId]/resolve
@@ -133,6 +136,7 @@ export async function POST(
     }
 
     let regenTokens: import('@/types/design-tokens').CVDesignTokens | CVStyleTokensV2;
+    let styleUsage: TokenUsage;
 
     if (sourceIsV2) {
       const recipeUsageHistory = rawHistory
@@ -151,8 +155,10 @@ export async function POST(
         model: resolved.model,
         hasPhoto: !!cvData.avatarUrl,
         recipeUsageHistory,
+        customRecipes: await loadStoredRecipes(userId),
       });
       regenTokens = result.tokens;
+      styleUsage = result.usage;
     } else {
       const legacyHistory = rawHistory
         .filter((t): t is Record<string, unknown> => !!t && t.engineVersion !== 'v2')
@@ -174,6 +180,7 @@ export async function POST(
         styleHistory,
       );
       regenTokens = styleResult.tokens;
+      styleUsage = styleResult.usage;
     }
     const cvResult = await generateCV(
       cvData.linkedInData,
@@ -187,6 +194,18 @@ export async function POST(
       cvData.fitAnalysis || null,
     );
 
+    // Billed to the CV owner's spend, like the user-side dispute regeneration
+    void recordOperationUsage({
+      userId,
+      cvId,
+      operation: 'dispute-regenerate',
+      usage: {
+        inputTokens: styleUsage.promptTokens + cvResult.usage.promptTokens,
+        outputTokens: styleUsage.completionTokens + cvResult.usage.completionTokens,
+      },
+      modelId: resolved.model,
+    });
+
     await cvRef.update({
       generatedContent: cvResult.content,
       designTokens: regenTokens,
@@ -200,6 +219,17 @@ export async function POST(
       updatedAt: FieldValue.serverTimestamp(),
     });
 
+    await recordCVVersion({
+      cvRef,
+      operation: 'dispute-admin',
+      snapshot: {
+        generatedContent: cvResult.content,
+        designTokens: regenTokens as import('@/types/design-tokens').CVDesignTokens,
+      },
+      previous: cvData,
+      actorUid: adminUid,
+    });
+
     return NextResponse.json({ status: 'approved', disputeId, newLevel });
   } catch (error) {
     console.error('[Admin Disputes] resolve error:', error);
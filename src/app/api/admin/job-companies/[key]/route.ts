@@ -0,0 +1,89 @@
+/**
+ * PATCH  /api/admin/job-companies/[key] — rename or enable/disable a board
+ * DELETE /api/admin/job-companies/[key] — remove a board
+ *
+ * Disabling or removing closes the board's indexed postings immediately.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest, getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import {
+  removeRegistryCompany,
+  updateRegistryCompany,
+  CompanyRegistryError,
+  type UpdateCompanyInput,
+} from '@/lib/jobs/company-registry';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ key: string }>;
+}
+
+async function authorize(request: NextRequest): Promise<string | NextResponse> {
+  const token =
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+  return userId;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const userId = await authorize(request);
+  if (userId instanceof NextResponse) return userId;
+  const { key } = await params;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const input: UpdateCompanyInput = {};
+  if (typeof body.name === 'string') input.name = body.name;
+  if (typeof body.enabled === 'boolean') input.enabled = body.enabled;
+  if (Object.keys(input).length === 0) {
+    return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
+  }
+
+  try {
+    await updateRegistryCompany(key, input, userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof CompanyRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[admin/job-companies] update failed:', error);
+    return NextResponse.json({ error: 'Failed to update company' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const userId = await authorize(request);
+  if (userId instanceof NextResponse) return userId;
+  const { key } = await params;
+
+  try {
+    const closedJobs = await removeRegistryCompany(key, userId);
+    return NextResponse.json({ success: true, closedJobs });
+  } catch (error) {
+    if (error instanceof CompanyRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[admin/job-companies] delete failed:', error);
+    return NextResponse.json({ error: 'Failed to remove company' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * POST /api/admin/job-companies/[key]/sync
+ *
+ * Syncs one board into the job index now, so a newly added employer shows up
+ * in search without waiting for the scheduled run.
+ *
+ * Response: JobIndexSyncSummary
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest } from '@/lib/firebase/admin-utils';
+import { runJobIndexSync } from '@/lib/jobs/index-sync';
+import { getCompanyByKey } from '@/lib/jobs/providers/registry';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+interface RouteParams {
+  params: Promise<{ key: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const token =
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { key } = await params;
+  if (!(await getCompanyByKey(key))) {
+    return NextResponse.json({ error: 'Unknown or disabled company' }, { status: 404 });
+  }
+
+  try {
+    const summary = await runJobIndexSync({ companyKey: key });
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[admin/job-companies] sync failed:', error);
+    return NextResponse.json({ error: 'Failed to sync company' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * GET  /api/admin/job-companies — registry with per-board sync health
+ * POST /api/admin/job-companies — register a board; it is test-fetched first
+ *
+ * POST body: { provider, companyId, name, companyKey? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest, getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import {
+  addRegistryCompany,
+  listRegistryCompanies,
+  validateCompanyBoard,
+  CompanyRegistryError,
+  REGISTRY_PROVIDERS,
+} from '@/lib/jobs/company-registry';
+import type { JobSourceProvider } from '@/lib/jobs/providers/types';
+
+export const runtime = 'nodejs';
+
+function getToken(request: NextRequest): string | null {
+  return (
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '') ||
+    null
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const listing = await listRegistryCompanies();
+    return NextResponse.json(listing);
+  } catch (error) {
+    console.error('[admin/job-companies] list failed:', error);
+    return NextResponse.json({ error: 'Failed to load companies' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const provider = body.provider as JobSourceProvider;
+  const companyId = typeof body.companyId === 'string' ? body.companyId.trim() : '';
+  const name = typeof body.name === 'string' ? body.name : '';
+  if (!REGISTRY_PROVIDERS.includes(provider) || !companyId) {
+    return NextResponse.json({ error: 'provider and companyId are required' }, { status: 400 });
+  }
+
+  const validation = await validateCompanyBoard(provider, companyId);
+  if (!validation.ok) {
+    return NextResponse.json(
+      { error: `Board could not be fetched: ${validation.error}`, validation },
+      { status: 422 },
+    );
+  }
+
+  try {
+    const company = await addRegistryCompany(
+      {
+        provider,
+        companyId,
+        name,
+        companyKey: typeof body.companyKey === 'string' ? body.companyKey : undefined,
+      },
+      userId,
+    );
+    return NextResponse.json({ company, validation }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CompanyRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+    console.error('[admin/job-companies] add failed:', error);
+    return NextResponse.json({ error: 'Failed to add company' }, { status: 500 });
+  }
+}
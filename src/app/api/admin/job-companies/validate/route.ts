@@ -0,0 +1,43 @@
+/**
+ * POST /api/admin/job-companies/validate
+ *
+ * Test-fetches a board without saving it. Body: { provider, companyId }
+ * Response: BoardValidation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest } from '@/lib/firebase/admin-utils';
+import { validateCompanyBoard, REGISTRY_PROVIDERS } from '@/lib/jobs/company-registry';
+import type { JobSourceProvider } from '@/lib/jobs/providers/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  const token =
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const provider = body.provider as JobSourceProvider;
+  const companyId = typeof body.companyId === 'string' ? body.companyId.trim() : '';
+  if (!REGISTRY_PROVIDERS.includes(provider) || !companyId) {
+    return NextResponse.json({ error: 'provider and companyId are required' }, { status: 400 });
+  }
+
+  const validation = await validateCompanyBoard(provider, companyId);
+  return NextResponse.json(validation);
+}
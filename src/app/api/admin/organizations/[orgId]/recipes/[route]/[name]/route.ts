@@ -0,0 +1,100 @@
+/**
+ * PATCH  /api/admin/organizations/[orgId]/recipes/[route]/[name] — replace the spec
+ * DELETE /api/admin/organizations/[orgId]/recipes/[route]/[name] — remove it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest, getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import { logAdminAction, extractRequestContext } from '@/lib/admin/audit-log';
+import {
+  deleteStoredRecipe,
+  updateStoredRecipe,
+  StoredRecipeError,
+} from '@/lib/cv-engine/recipes/stored';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ orgId: string; route: string; name: string }>;
+}
+
+function getToken(request: NextRequest): string | null {
+  return (
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '') ||
+    null
+  );
+}
+
+async function requireAdmin(request: NextRequest): Promise<string | NextResponse> {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const adminUid = await getUserIdFromToken(token);
+  if (!adminUid) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+  return adminUid;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const adminUid = await requireAdmin(request);
+  if (adminUid instanceof NextResponse) return adminUid;
+
+  let body: { spec?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { orgId, route, name } = await params;
+  const recipeId = `${route}/${name}`;
+  try {
+    const recipe = await updateStoredRecipe('organization', orgId, recipeId, body.spec);
+    logAdminAction({
+      adminUid,
+      action: 'organization.recipe.update',
+      metadata: { organizationId: orgId, recipeId },
+      ...extractRequestContext(request),
+    });
+    return NextResponse.json({ success: true, recipe });
+  } catch (error) {
+    if (error instanceof StoredRecipeError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: error.statusCode });
+    }
+    console.error('[admin/organizations] update recipe failed:', error);
+    return NextResponse.json({ error: 'Failed to update recipe' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const adminUid = await requireAdmin(request);
+  if (adminUid instanceof NextResponse) return adminUid;
+
+  const { orgId, route, name } = await params;
+  const recipeId = `${route}/${name}`;
+  try {
+    const deleted = await deleteStoredRecipe('organization', orgId, recipeId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+    logAdminAction({
+      adminUid,
+      action: 'organization.recipe.delete',
+      metadata: { organizationId: orgId, recipeId },
+      ...extractRequestContext(request),
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[admin/organizations] delete recipe failed:', error);
+    return NextResponse.json({ error: 'Failed to delete recipe' }, { status: 500 });
+  }
+}
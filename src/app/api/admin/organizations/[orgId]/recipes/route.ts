@@ -0,0 +1,93 @@
+/**
+ * GET  /api/admin/organizations/[orgId]/recipes — an organisation's house styles
+ * POST /api/admin/organizations/[orgId]/recipes — add one
+ *
+ * POST body: { spec } — a DesignSpec without `id`. Users are linked to an
+ * organisation via PATCH /api/admin/users/[userId] { organizationId }.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest, getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import { logAdminAction, extractRequestContext } from '@/lib/admin/audit-log';
+import {
+  createStoredRecipe,
+  listOwnerRecipes,
+  StoredRecipeError,
+} from '@/lib/cv-engine/recipes/stored';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ orgId: string }>;
+}
+
+function getToken(request: NextRequest): string | null {
+  return (
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '') ||
+    null
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const { orgId } = await params;
+  try {
+    const recipes = await listOwnerRecipes('organization', orgId);
+    return NextResponse.json({ success: true, recipes });
+  } catch (error) {
+    console.error('[admin/organizations] list recipes failed:', error);
+    return NextResponse.json({ error: 'Failed to load recipes' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const adminUid = await getUserIdFromToken(token);
+  if (!adminUid) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  let body: { spec?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { orgId } = await params;
+  try {
+    const recipe = await createStoredRecipe('organization', orgId, body.spec);
+    logAdminAction({
+      adminUid,
+      action: 'organization.recipe.create',
+      metadata: { organizationId: orgId, recipeId: recipe.spec.id },
+      ...extractRequestContext(request),
+    });
+    return NextResponse.json({ success: true, recipe }, { status: 201 });
+  } catch (error) {
+    if (error instanceof StoredRecipeError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: error.statusCode });
+    }
+    console.error('[admin/organizations] create recipe failed:', error);
+    return NextResponse.json({ error: 'Failed to save recipe' }, { status: 500 });
+  }
+}
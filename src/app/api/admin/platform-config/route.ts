@@ -4,9 +4,10 @@ import {
   getPlatformConfig,
   updatePlatformConfig,
   PLATFORM_OPERATIONS,
+  SPEND_LIMIT_KEYS,
   type UpdatePlatformConfigInput,
 } from '@/lib/ai/platform-config-reader';
-import type { PlatformOperation } from '@/lib/ai/platform-config';
+import type { PlatformOperation, SpendLimits } from '@/lib/ai/platform-config';
 
 function getToken(request: NextRequest): string | null {
   return (
@@ -85,7 +86,38 @@ export async function PATCH(request: NextRequest) {
     input.models = models;
   }
 
-  if (!input.models || Object.keys(input.models).length === 0) {
+  if (
+    body &&
+    typeof body === 'object' &&
+    'spendLimits' in body &&
+    body.spendLimits &&
+    typeof body.spendLimits === 'object'
+  ) {
+    const submitted = body.spendLimits as Record<string, unknown>;
+    const spendLimits: Partial<SpendLimits> = {};
+
+    for (const [key, value] of Object.entries(submitted)) {
+      if (!SPEND_LIMIT_KEYS.includes(key as keyof SpendLimits)) {
+        return NextResponse.json(
+          { error: `Unknown spend limit: ${key}` },
+          { status: 400 },
+        );
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        return NextResponse.json(
+          { error: `Spend limit "${key}" must be a number ≥ 0` },
+          { status: 400 },
+        );
+      }
+      spendLimits[key as keyof SpendLimits] = value;
+    }
+
+    input.spendLimits = spendLimits;
+  }
+
+  const hasModels = !!input.models && Object.keys(input.models).length > 0;
+  const hasSpendLimits = !!input.spendLimits && Object.keys(input.spendLimits).length > 0;
+  if (!hasModels && !hasSpendLimits) {
     return NextResponse.json(
       { error: 'No valid fields to update' },
       { status: 400 },
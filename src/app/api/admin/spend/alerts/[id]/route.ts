@@ -0,0 +1,44 @@
+/**
+ * PATCH /api/admin/spend/alerts/[id] — mark a spend alert as handled
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest, getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import { acknowledgeSpendAlert } from '@/lib/ai/spend-guard';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const token =
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const found = await acknowledgeSpendAlert(id, userId);
+    if (!found) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[admin/spend] acknowledge failed:', error);
+    return NextResponse.json({ error: 'Failed to update alert' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/admin/spend
+ *
+ * Today's platform-AI spend (global + top users) against the configured
+ * ceilings, and the most recent spend alerts.
+ *
+ * Response: { overview: SpendOverview, alerts: SpendAlert[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAdminRequest } from '@/lib/firebase/admin-utils';
+import { getSpendOverview, listSpendAlerts } from '@/lib/ai/spend-guard';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const token =
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const isAdmin = await verifyAdminRequest(token);
+  if (!isAdmin) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const [overview, alerts] = await Promise.all([getSpendOverview(), listSpendAlerts()]);
+    return NextResponse.json({ overview, alerts });
+  } catch (error) {
+    console.error('[admin/spend] load failed:', error);
+    return NextResponse.json({ error: 'Failed to load spend overview' }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import {
   getUserById,
   getUserIdFromToken,
   setUserRole,
+  setUserOrganization,
   disableUser,
   enableUser,
   deleteUser,
@@ -11,6 +12,8 @@ import {
 import { logAdminAction, extractRequestContext } from '@/lib/admin/audit-log';
 import type { UserRole } from '@/types';
 
+const ORGANIZATION_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+
 interface RouteParams {
   params: Promise<{ userId: string }>;
 }
@@ -61,7 +64,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 /**
  * PATCH /api/admin/users/[userId]
- * Update user (role, disabled status) (admin only)
+ * Update user (role, disabled status, organisation) (admin only)
  */
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
   try {
@@ -85,10 +88,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { role, disabled, disabledReason } = body as {
+    const { role, disabled, disabledReason, organizationId } = body as {
       role?: UserRole;
       disabled?: boolean;
       disabledReason?: string;
+      organizationId?: string | null;
     };
 
     const adminUid = await getUserIdFromToken(token);
@@ -114,6 +118,26 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       }
     }
 
+    // Update organisation link if provided (null unlinks)
+    if (organizationId !== undefined) {
+      if (organizationId !== null && !ORGANIZATION_ID_PATTERN.test(organizationId)) {
+        return NextResponse.json(
+          { error: 'Invalid organizationId. Use lowercase letters, digits and dashes' },
+          { status: 400 }
+        );
+      }
+      await setUserOrganization(userId, organizationId);
+      if (adminUid) {
+        logAdminAction({
+          adminUid,
+          action: 'user.organization.update',
+          targetUid: userId,
+          metadata: { organizationId },
+          ...ctx,
+        });
+      }
+    }
+
     // Update disabled status if provided
     if (disabled !== undefined) {
       if (disabled) {
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { toApplicationRecord } from '@/lib/applications/records';
+
+export const runtime = 'nodejs';
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; eventId: string }> },
+) {
+  const { id, eventId } = await context.params;
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const ref = getAdminDb()
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection('applications')
+    .doc(id);
+
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const app = toApplicationRecord(snap.id, snap.data() ?? {});
+
+  // Status changes are the audit trail of the board; they can't be removed.
+  const target = app.events.find((e) => e.id === eventId);
+  if (!target) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  if (target.type === 'status_change') {
+    return NextResponse.json({ error: 'Status changes cannot be deleted' }, { status: 400 });
+  }
+
+  await ref.update({
+    events: app.events.filter((e) => e.id !== eventId),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return NextResponse.json({ ok: true });
+}
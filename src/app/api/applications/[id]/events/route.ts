@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { statusChangeEvent, toApplicationRecord } from '@/lib/applications/records';
+import { capEvents } from '@/lib/applications/timeline';
+import type {
+  ApplicationEvent,
+  ApplicationRecord,
+  ApplicationStatus,
+  InterviewType,
+} from '@/types/application';
+
+export const runtime = 'nodejs';
+
+const INTERVIEW_TYPES: InterviewType[] = ['phone', 'video', 'onsite', 'assessment'];
+const OFFER_PERIODS = ['yearly', 'monthly', 'hourly'] as const;
+const MAX_TEXT = 500;
+
+/**
+ * Logging an interview or offer moves the application forward when it is
+ * still behind — so the board follows the timeline without a second click.
+ */
+const AUTO_ADVANCE: Partial<Record<ApplicationEvent['type'], { to: ApplicationStatus; from: ApplicationStatus[] }>> = {
+  interview: { to: 'interview', from: ['applied'] },
+  offer: { to: 'offer', from: ['applied', 'interview'] },
+};
+
+function text(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim().slice(0, MAX_TEXT);
+  return trimmed || undefined;
+}
+
+/** Validates the client payload into a stored event, or returns an error message. */
+function parseEvent(
+  body: Record<string, unknown>,
+  app: ApplicationRecord,
+): ApplicationEvent | string {
+  const at = typeof body.at === 'string' ? new Date(body.at) : new Date();
+  if (Number.isNaN(at.getTime())) return 'Invalid date';
+
+  const event: ApplicationEvent = {
+    id: randomUUID(),
+    type: 'note',
+    at: at.toISOString(),
+  };
+  const note = text(body.note);
+  if (note) event.note = note;
+
+  switch (body.type) {
+    case 'note':
+      if (!note) return 'Note is required';
+      return event;
+
+    case 'email': {
+      const direction = body.direction === 'received' ? 'received' : 'sent';
+      return { ...event, type: 'email', direction, subject: text(body.subject) };
+    }
+
+    case 'interview': {
+      const raw = (body.interview ?? {}) as Record<string, unknown>;
+      const type = raw.type as InterviewType;
+      if (!INTERVIEW_TYPES.includes(type)) return 'Invalid interview type';
+      const duration = Number(raw.durationMinutes ?? 60);
+      if (!Number.isInteger(duration) || duration < 5 || duration > 8 * 60) {
+        return 'Invalid duration';
+      }
+      const previousRounds = app.events.filter((e) => e.type === 'interview').length;
+      const round = Number(raw.round ?? previousRounds + 1);
+      return {
+        ...event,
+        type: 'interview',
+        interview: {
+          round: Number.isInteger(round) && round > 0 ? round : previousRounds + 1,
+          type,
+          durationMinutes: duration,
+          ...(text(raw.interviewer) ? { interviewer: text(raw.interviewer) } : {}),
+          ...(text(raw.location) ? { location: text(raw.location) } : {}),
+        },
+      };
+    }
+
+    case 'offer': {
+      const raw = (body.offer ?? {}) as Record<string, unknown>;
+      const period = OFFER_PERIODS.find((p) => p === raw.period) ?? 'yearly';
+      const salary = raw.salary === undefined || raw.salary === null || raw.salary === ''
+        ? undefined
+        : Number(raw.salary);
+      if (salary !== undefined && (!Number.isFinite(salary) || salary < 0)) {
+        return 'Invalid salary';
+      }
+      const respondBy = typeof raw.respondBy === 'string' && raw.respondBy
+        ? new Date(raw.respondBy)
+        : null;
+      if (respondBy && Number.isNaN(respondBy.getTime())) return 'Invalid respondBy';
+      return {
+        ...event,
+        type: 'offer',
+        offer: {
+          currency: text(raw.currency)?.toUpperCase().slice(0, 3) ?? 'EUR',
+          period,
+          ...(salary !== undefined ? { salary } : {}),
+          ...(respondBy ? { respondBy: respondBy.toISOString() } : {}),
+        },
+      };
+    }
+
+    default:
+      return 'Invalid event type';
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id } = await context.params;
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid body' }, { status: 400 });
+  }
+
+  const ref = getAdminDb()
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection('applications')
+    .doc(id);
+
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const app = toApplicationRecord(snap.id, snap.data() ?? {});
+
+  const event = parseEvent(body as Record<string, unknown>, app);
+  if (typeof event === 'string') {
+    return NextResponse.json({ error: event }, { status: 400 });
+  }
+
+  const events = [...app.events, event];
+  let status = app.status;
+  const advance = AUTO_ADVANCE[event.type];
+  if (advance && advance.from.includes(app.status)) {
+    events.push(statusChangeEvent(app.status, advance.to));
+    status = advance.to;
+  }
+
+  const capped = capEvents(events);
+  await ref.update({
+    events: capped,
+    status,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  const application: ApplicationRecord = {
+    ...app,
+    events: capped,
+    status,
+    updatedAt: new Date().toISOString(),
+  };
+  return NextResponse.json({ application, event });
+}
@@ -0,0 +1,294 @@
+/**
+ * /api/applications/[id]/mock-interview — practice interview for an application.
+ *
+ * POST body: { messages: UIMessage[], transcriptId: string }
+ *
+ * Second conversational mode next to /api/cv/chat: the model plays the
+ * interviewer for the vacancy of the application's CV, asks one question at
+ * a time, scores every answer against the profile through `record_evaluation`
+ * and closes with `finish_interview`. Billed per character like the CV chat;
+ * the credits already charged live on the stored transcript, so the client
+ * cannot under-report them. The transcript is written back to the
+ * application after every turn.
+ */
+
+import { NextRequest } from 'next/server';
+import { cookies } from 'next/headers';
+import { streamText, tool, convertToModelMessages, stepCountIs } from 'ai';
+import type { UIMessage } from 'ai';
+import { z } from 'zod';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { getModelId } from '@/lib/ai/providers';
+import { resolveProvider, chargePlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
+import { countChatChars, requiredChatCredits } from '@/lib/ai/chat-billing';
+import { getCurrentDateContext } from '@/lib/ai/date-context';
+import { toApplicationRecord } from '@/lib/applications/records';
+import { INTERVIEW_TYPE_LABELS, sortEvents, upcomingInterviews } from '@/lib/applications/timeline';
+import {
+  MOCK_INTERVIEW_QUESTIONS,
+  parseMockInterview,
+  upsertTranscript,
+} from '@/lib/applications/mock-interview';
+import type { ApplicationEvent, ApplicationRecord, MockInterviewTranscript } from '@/types/application';
+import type { CV, OutputLanguage } from '@/types';
+
+export const runtime = 'nodejs';
+
+const TRANSCRIPT_ID = /^[A-Za-z0-9-]{8,64}$/;
+
+/** Language names as they read inside the (Dutch) system prompt. */
+const OUTPUT_LANGUAGE_NAMES_NL: Record<OutputLanguage, string> = {
+  nl: 'het Nederlands',
+  en: 'het Engels',
+  de: 'het Duits',
+  fr: 'het Frans',
+  es: 'het Spaans',
+};
+
+function jsonError(error: string, status: number): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/** The round to practise for: the next scheduled interview, else the latest one. */
+function practiceRound(app: ApplicationRecord): ApplicationEvent | undefined {
+  return upcomingInterviews(app)[0]
+    ?? sortEvents(app.events).filter(e => e.type === 'interview').pop();
+}
+
+function buildSystemPrompt(cv: CV, interview: ApplicationEvent | undefined): string {
+  const profile = cv.linkedInData;
+  const jobVacancy = cv.jobVacancy!;
+  const language = cv.language ?? 'nl';
+
+  const experience = profile.experience.map((exp, i) => {
+    const period = `${exp.startDate}${exp.endDate ? ` – ${exp.endDate}` : ''}`;
+    return `[${i}] ${exp.title} @ ${exp.company} (${period})${exp.description ? `\n    ${exp.description.substring(0, 400)}` : ''}`;
+  }).join('\n');
+
+  const projects = (profile.projects ?? [])
+    .map(p => `- ${p.title}${p.technologies.length ? ` [${p.technologies.join(', ')}]` : ''}`)
+    .join('\n');
+
+  const education = profile.education
+    .map(e => `- ${[e.degree, e.fieldOfStudy].filter(Boolean).join(' ')} — ${e.school}`)
+    .join('\n');
+
+  const gaps = (cv.fitAnalysis?.warnings ?? [])
+    .filter(w => w.severity !== 'info')
+    .map(w => `- [${w.severity}] ${w.message} — ${w.detail}`)
+    .join('\n');
+
+  const round = interview?.interview
+    ? `Dit is ronde ${interview.interview.round} (${INTERVIEW_TYPE_LABELS[interview.interview.type].toLowerCase()})${interview.interview.interviewer ? ` met ${interview.interview.interviewer}` : ''}. ${interview.interview.round > 1 ? 'De basis is al besproken — ga de diepte in met cases en teamfit.' : 'Begin met een korte kennismaking en motivatie.'}`
+    : 'Behandel dit als een eerste gesprek: korte kennismaking, motivatie en kerncompetenties.';
+
+  return `Je bent een ervaren interviewer van ${jobVacancy.company || 'de werkgever'} en voert een proefsollicitatiegesprek voor de functie ${jobVacancy.title}.
+Voer het gesprek volledig in ${OUTPUT_LANGUAGE_NAMES_NL[language]}.
+
+${getCurrentDateContext(language)}
+
+## GESPREKSREGELS
+1. **Eén vraag per beurt** - Stel steeds precies één vraag en wacht op het antwoord
+2. **Blijf in je rol** - Je bent de interviewer, geen coach. Geen tips of oordelen tijdens het gesprek
+3. **Vraag door** - Is een antwoord vaag, vraag dan één keer door (telt niet als nieuwe vraag)
+4. **Mix** - Gedragsvragen (STAR), vakinhoudelijke vragen, minstens één vraag over een aandachtspunt hieronder, en motivatie
+5. **Lengte** - Stel ${MOCK_INTERVIEW_QUESTIONS} hoofdvragen, of stop eerder als de kandidaat daarom vraagt
+
+## BEOORDELEN
+- Roep na ELK antwoord op een hoofdvraag \`record_evaluation\` aan, daarna pas je volgende vraag
+- Beoordeel alleen wat de kandidaat zegt, getoetst aan het profiel hieronder
+- Beweringen die het profiel niet ondersteunt (ervaring, tools, resultaten) zet je in \`unsupportedClaims\` — die kosten punten, een eerlijk "daar heb ik geen ervaring mee" niet
+- Score 1-5: 1 = geen bruikbaar antwoord, 3 = redelijk maar onvolledig, 5 = concreet, gestructureerd (STAR) en relevant voor de functie
+- Na de laatste beoordeling: roep \`finish_interview\` aan en sluit het gesprek in je tekst vriendelijk af met een korte samenvatting
+
+## GESPREK
+${round}
+
+## VACATURE
+Functie: ${jobVacancy.title}
+${jobVacancy.company ? `Bedrijf: ${jobVacancy.company}` : ''}
+Eisen:
+${jobVacancy.requirements.map(r => `- ${r}`).join('\n')}
+${jobVacancy.keywords.length ? `Kernwoorden: ${jobVacancy.keywords.slice(0, 12).join(', ')}` : ''}
+
+## AANDACHTSPUNTEN UIT DE FIT-ANALYSE
+${gaps || 'Geen — vraag wel naar de lastigste eis uit de vacature.'}
+
+## PROFIEL VAN DE KANDIDAAT (${profile.fullName})
+${profile.headline ? `Titel: ${profile.headline}` : ''}
+Ervaring:
+${experience || '- geen'}
+${projects ? `Projecten:\n${projects}` : ''}
+Opleiding:
+${education || '- geen'}
+Skills: ${profile.skills.map(s => s.name).join(', ') || 'geen'}
+${profile.certifications.length ? `Certificeringen: ${profile.certifications.map(c => c.name).join(', ')}` : ''}
+
+Open het gesprek zodra de kandidaat aangeeft klaar te zijn: stel jezelf kort voor en stel de eerste vraag.`;
+}
+
+const tools = {
+  record_evaluation: tool({
+    description: 'Leg de beoordeling van het antwoord op een hoofdvraag vast. Niet zichtbaar voor de kandidaat tijdens het gesprek.',
+    inputSchema: z.object({
+      question: z.string().describe('De gestelde vraag'),
+      category: z.enum(['behavioural', 'technical', 'gap', 'motivation']).describe('Soort vraag'),
+      score: z.number().int().min(1).max(5).describe('Score 1-5'),
+      starCovered: z.array(z.enum(['situation', 'task', 'action', 'result'])).describe('Welke STAR-onderdelen het antwoord bevatte'),
+      feedback: z.string().describe('1-2 zinnen: wat was sterk, wat ontbrak'),
+      unsupportedClaims: z.array(z.string()).describe('Beweringen die het profiel niet ondersteunt (leeg als er geen zijn)'),
+    }),
+    execute: async () => 'Beoordeling vastgelegd.',
+  }),
+
+  finish_interview: tool({
+    description: 'Rond het gesprek af met een eindoordeel. Eén keer aanroepen, na de laatste beoordeling.',
+    inputSchema: z.object({
+      overallScore: z.number().int().min(0).max(100).describe('Totaalscore 0-100'),
+      summary: z.string().describe('3-4 zinnen: hoe kwam de kandidaat over voor deze functie'),
+      strengths: z.array(z.string()).describe('2-4 sterke punten, concreet'),
+      improvements: z.array(z.string()).describe('2-4 verbeterpunten, elk met wat de kandidaat anders kan zeggen'),
+    }),
+    execute: async () => 'Gesprek afgerond.',
+  }),
+};
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await context.params;
+
+    // Get auth token from cookie or header
+    const cookieStore = await cookies();
+    const token = cookieStore.get('firebase-token')?.value ||
+      request.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) return jsonError('Unauthorized', 401);
+
+    let userId: string;
+    try {
+      const decodedToken = await getAdminAuth().verifyIdToken(token);
+      userId = decodedToken.uid;
+    } catch {
+      return jsonError('Invalid token', 401);
+    }
+
+    const body = await request.json().catch(() => null);
+    const { messages, transcriptId } = (body ?? {}) as {
+      messages?: UIMessage[];
+      transcriptId?: string;
+    };
+    if (!Array.isArray(messages) || messages.length === 0 || !transcriptId || !TRANSCRIPT_ID.test(transcriptId)) {
+      return jsonError('Onvolledige request data', 400);
+    }
+
+    const userRef = getAdminDb().collection('users').doc(userId);
+    const appRef = userRef.collection('applications').doc(id);
+    const appDoc = await appRef.get();
+    if (!appDoc.exists) return jsonError('Not found', 404);
+    const app = toApplicationRecord(appDoc.id, appDoc.data() ?? {});
+
+    if (!app.cvId) {
+      return jsonError('Koppel eerst een CV aan deze sollicitatie om te oefenen.', 400);
+    }
+    const cvDoc = await userRef.collection('cvs').doc(app.cvId).get();
+    if (!cvDoc.exists) return jsonError('CV not found', 404);
+    const cv = cvDoc.data() as CV;
+    if (!cv.generatedContent || !cv.jobVacancy) {
+      return jsonError('Het CV heeft geen vacature of gegenereerde inhoud.', 400);
+    }
+
+    const existing = app.mockInterviews.find(t => t.id === transcriptId);
+    if (existing?.debrief) {
+      return jsonError('Dit proefgesprek is al afgerond. Start een nieuw gesprek.', 409);
+    }
+
+    const modelMessages = (await convertToModelMessages(messages))
+      .filter(msg => !Array.isArray(msg.content) || msg.content.length > 0);
+
+    // mock-interview cost is 0 in config; we handle credits manually below
+    let resolved;
+    try {
+      resolved = await resolveProvider({ userId, operation: 'mock-interview' });
+    } catch (err) {
+      if (err instanceof ProviderError) return jsonError(err.message, err.statusCode);
+      throw err;
+    }
+
+    // Character-based credit billing for platform mode
+    let chargedCredits = existing?.chargedCredits ?? 0;
+    if (resolved.mode === 'platform') {
+      const requiredCredits = requiredChatCredits(countChatChars(messages));
+      const diff = requiredCredits - chargedCredits;
+      if (diff > 0) {
+        try {
+          await chargePlatformCredits(userId, diff, 'mock-interview');
+        } catch (err) {
+          if (err instanceof ProviderError) return jsonError(err.message, err.statusCode);
+          throw err;
+        }
+        chargedCredits = requiredCredits;
+      }
+    }
+
+    const interview = practiceRound(app);
+    const startedAt = existing?.startedAt ?? new Date().toISOString();
+
+    const result = streamText({
+      model: resolved.provider(getModelId(resolved.providerName, resolved.model)),
+      system: buildSystemPrompt(cv, interview),
+      messages: modelMessages,
+      tools,
+      // evaluate → next question, or evaluate → finish → closing words
+      stopWhen: stepCountIs(4),
+      // Same as cv-chat: character-billed, but token cost feeds the spend ceilings
+      onFinish: ({ totalUsage }) => {
+        void recordOperationUsage({
+          userId,
+          cvId: app.cvId,
+          operation: 'mock-interview',
+          usage: {
+            inputTokens: totalUsage.inputTokens ?? 0,
+            outputTokens: totalUsage.outputTokens ?? 0,
+          },
+          modelId: resolved.model,
+        });
+      },
+    });
+
+    return result.toUIMessageStreamResponse({
+      originalMessages: messages,
+      onFinish: async ({ messages: conversation }) => {
+        const parsed = parseMockInterview(conversation);
+        const transcript: MockInterviewTranscript = {
+          id: transcriptId,
+          cvId: app.cvId!,
+          language: cv.language ?? 'nl',
+          round: interview?.interview?.round ?? null,
+          ...parsed,
+          chargedCredits,
+          startedAt,
+          updatedAt: new Date().toISOString(),
+        };
+        try {
+          await appRef.update({
+            mockInterviews: upsertTranscript(app.mockInterviews, transcript),
+            updatedAt: FieldValue.serverTimestamp(),
+          });
+        } catch (err) {
+          console.error('[mock-interview] Failed to store transcript:', err);
+        }
+      },
+    });
+  } catch (error) {
+    console.error('Mock interview error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Er is een fout opgetreden';
+    return jsonError(errorMessage, 500);
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { FieldValue } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { statusChangeEvent, toApplicationRecord } from '@/lib/applications/records';
+import { capEvents, FOLLOW_UP_DAY_OPTIONS } from '@/lib/applications/timeline';
 import type { ApplicationStatus } from '@/types/application';
 
 export const runtime = 'nodejs';
@@ -49,6 +51,12 @@ export async function PATCH(
   if ('notes' in body) {
     update.notes = typeof body.notes === 'string' ? body.notes : '';
   }
+  if ('followUpAfterDays' in body) {
+    if (body.followUpAfterDays !== null && !FOLLOW_UP_DAY_OPTIONS.includes(body.followUpAfterDays)) {
+      return NextResponse.json({ error: 'Invalid followUpAfterDays' }, { status: 400 });
+    }
+    update.followUpAfterDays = body.followUpAfterDays;
+  }
 
   if (Object.keys(update).length === 0) {
     return NextResponse.json({ error: 'No updatable fields' }, { status: 400 });
@@ -68,8 +76,19 @@ export async function PATCH(
     return NextResponse.json({ error: 'Not found' }, { status: 404 });
   }
 
+  const current = toApplicationRecord(snap.id, snap.data() ?? {});
+  if (update.status && update.status !== current.status) {
+    update.events = capEvents([
+      ...current.events,
+      statusChangeEvent(current.status, update.status as ApplicationStatus),
+    ]);
+  }
+
   await ref.update(update);
-  return NextResponse.json({ ok: true });
+  return NextResponse.json({
+    ok: true,
+    application: { ...current, ...update, updatedAt: new Date().toISOString() },
+  });
 }
 
 export async function DELETE(
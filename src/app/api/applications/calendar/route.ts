@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { toApplicationRecord } from '@/lib/applications/records';
+import { buildInterviewCalendar } from '@/lib/applications/ics';
+
+export const runtime = 'nodejs';
+
+/** All interview rounds of the user as an .ics download. */
+export async function GET(request: NextRequest) {
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const snap = await getAdminDb()
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection('applications')
+    .get();
+
+  const applications = snap.docs.map((doc) => toApplicationRecord(doc.id, doc.data()));
+  return new NextResponse(buildInterviewCalendar(applications), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'attachment; filename="sollicitatiegesprekken.ics"',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
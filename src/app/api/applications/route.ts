@@ -1,42 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { FieldValue } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { getEffectiveUserId } from '@/lib/auth/impersonation';
 import { resolveJobBySlug } from '@/lib/jobs/resolve';
-import type { ApplicationRecord, ApplicationStatus } from '@/types/application';
+import { toApplicationRecord } from '@/lib/applications/records';
+import { DEFAULT_FOLLOW_UP_DAYS } from '@/lib/applications/timeline';
+import type { ApplicationRecord } from '@/types/application';
 
 export const runtime = 'nodejs';
 
-function serializeDate(value: unknown): string {
-  if (value instanceof Timestamp) return value.toDate().toISOString();
-  if (typeof value === 'string') return value;
-  if (value instanceof Date) return value.toISOString();
-  return new Date().toISOString();
-}
-
-function toApplicationRecord(
-  id: string,
-  data: Record<string, unknown>,
-): ApplicationRecord {
-  return {
-    id,
-    userId: String(data.userId ?? ''),
-    jobSlug: String(data.jobSlug ?? ''),
-    jobTitle: String(data.jobTitle ?? ''),
-    jobCompany: (data.jobCompany as string | null) ?? null,
-    jobLocation: (data.jobLocation as string | null) ?? null,
-    jobUrl: String(data.jobUrl ?? ''),
-    provider: (data.provider as ApplicationRecord['provider']) ?? 'recruitee',
-    providerCompanyId: (data.providerCompanyId as string | null) ?? null,
-    providerApplicationId: (data.providerApplicationId as string | null) ?? null,
-    cvId: (data.cvId as string | null) ?? null,
-    status: (data.status as ApplicationStatus) ?? 'applied',
-    notes: (data.notes as string | undefined) ?? undefined,
-    appliedAt: serializeDate(data.appliedAt),
-    updatedAt: serializeDate(data.updatedAt),
-  };
-}
-
 export async function GET(request: NextRequest) {
   let effectiveUserId: string;
   try {
@@ -129,6 +101,9 @@ export async function POST(request: NextRequest) {
     cvId,
     status: 'applied',
     ...(notes ? { notes } : {}),
+    events: [],
+    followUpAfterDays: DEFAULT_FOLLOW_UP_DAYS,
+    mockInterviews: [],
   };
 
   await appRef.set({
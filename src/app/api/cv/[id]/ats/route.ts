@@ -0,0 +1,136 @@
+/**
+ * POST /api/cv/[id]/ats — check how well the rendered PDF survives an
+ * applicant-tracking system's parser.
+ *
+ * Renders the CV exactly like the PDF download, extracts the text layer in
+ * parser reading order and compares it with the CV content (see
+ * src/lib/cv/ats-check.ts). The report is stored on the CV as `atsReport`
+ * and returned. Free — no AI call, no credits.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { generatePDF } from '@/lib/pdf/generator';
+import { loadRecipesForRender } from '@/lib/cv-engine/recipes/stored';
+import { extractPdfText } from '@/lib/pdf/pdf-text';
+import { analyzeATSParseability, sectionsWithContent } from '@/lib/cv/ats-check';
+import { isV2Tokens } from '@/lib/cv-engine/dispatch';
+import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
+import {
+  checkRateLimit,
+  RATE_LIMITS,
+  getRequestIdentifier,
+} from '@/lib/security/rate-limiter';
+import type { CV, CVContactInfo, CVStyleConfig } from '@/types';
+import type { CVDesignTokens } from '@/types/design-tokens';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: cvId } = await params;
+
+    const cookieStore = await cookies();
+    const token = cookieStore.get('firebase-token')?.value ||
+      request.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let userId: string;
+    try {
+      const decodedToken = await getAdminAuth().verifyIdToken(token);
+      userId = decodedToken.uid;
+    } catch {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    // Same budget as the PDF download — it renders the same PDF.
+    const rateLimitResult = await checkRateLimit(
+      getRequestIdentifier(userId),
+      'pdf-generation',
+      RATE_LIMITS.pdfGeneration
+    );
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many PDF requests. Please wait and try again.' },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(rateLimitResult.retryAfter || 60) },
+        }
+      );
+    }
+
+    const db = getAdminDb();
+    const cvRef = db.collection('users').doc(userId).collection('cvs').doc(cvId);
+    const cvDoc = await cvRef.get();
+
+    if (!cvDoc.exists) {
+      return NextResponse.json({ error: 'CV not found' }, { status: 404 });
+    }
+
+    const cvData = cvDoc.data() as CV & { tokens?: CVDesignTokens };
+    const content = cvData.generatedContent;
+    if (!content) {
+      return NextResponse.json({ error: 'CV content not generated yet' }, { status: 400 });
+    }
+
+    let tokens: CVDesignTokens | null = cvData.designTokens ?? cvData.tokens ?? null;
+    if (!tokens && cvData.styleConfig) {
+      tokens = styleConfigToTokens(cvData.styleConfig as CVStyleConfig);
+    }
+
+    const contactInfo: CVContactInfo = {
+      email: cvData.linkedInData.email || undefined,
+      phone: cvData.linkedInData.phone || undefined,
+      location: cvData.linkedInData.location || undefined,
+      linkedinUrl: cvData.linkedInData.linkedinUrl || undefined,
+      website: cvData.linkedInData.website || undefined,
+      github: cvData.linkedInData.github || undefined,
+      birthDate: cvData.linkedInData.birthDate || undefined,
+    };
+    const fullName = cvData.linkedInData.fullName;
+
+    const customRecipes = await loadRecipesForRender(tokens, userId);
+
+    // The avatar doesn't change the text layer; leave it out to keep the
+    // render free of external fetches.
+    const pdfBuffer = await generatePDF(
+      content,
+      fullName,
+      tokens,
+      null,
+      content.headline ?? cvData.linkedInData.headline,
+      cvData.elementOverrides ?? null,
+      contactInfo,
+      'multi-page',
+      tokens?.paperSize ?? null,
+      cvData.language ?? null,
+      customRecipes
+    );
+
+    const v2 = tokens && isV2Tokens(tokens) ? tokens : null;
+    // Sections the user hid in the design tweaks aren't expected on the page.
+    const hidden = new Set(v2?.hiddenSections ?? []);
+    const text = await extractPdfText(new Uint8Array(pdfBuffer));
+    const report = analyzeATSParseability(text, {
+      fullName,
+      contact: contactInfo,
+      content,
+      sections: sectionsWithContent(content).filter(key => !hidden.has(key)),
+      recipeId: v2?.recipeId ?? null,
+    });
+
+    await cvRef.update({ atsReport: report, updatedAt: new Date() });
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('ATS check error:', error);
+    return NextResponse.json({ error: 'Failed to check ATS parseability' }, { status: 500 });
+  }
+}
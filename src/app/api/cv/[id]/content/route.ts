@@ -6,7 +6,10 @@
  * calls so the live preview re-renders instantly while the network
  * round-trip happens in the background.
  *
- * Body: { generatedContent: GeneratedCVContent }
+ * Body: { generatedContent: GeneratedCVContent, source?: 'manual-edit' | 'chat' }
+ *
+ * `source` only labels the version-history entry; both paths persist the
+ * same way.
  *
  * The validation is shape-only — the editor only writes string fields
  * (titles, descriptions, bullets) and never touches the structural shape,
@@ -17,7 +20,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { FieldValue } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { getEffectiveUserId } from '@/lib/auth/impersonation';
-import type { GeneratedCVContent } from '@/types';
+import { recordCVVersion } from '@/lib/cv/versions';
+import type { CVVersionOperation, GeneratedCVContent } from '@/types';
 
 export const runtime = 'nodejs';
 
@@ -42,9 +46,11 @@ export async function PATCH(
   const { id: cvId } = await context.params;
 
   let effectiveUserId: string;
+  let adminUserId: string | undefined;
   try {
     const effective = await getEffectiveUserId(request);
     effectiveUserId = effective.userId;
+    adminUserId = effective.adminUserId;
   } catch {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
@@ -57,6 +63,7 @@ export async function PATCH(
   if (!validation.ok) {
     return NextResponse.json({ error: validation.error }, { status: 400 });
   }
+  const operation: CVVersionOperation = body.source === 'chat' ? 'chat' : 'manual-edit';
 
   const db = getAdminDb();
   const ref = db.collection('users').doc(effectiveUserId).collection('cvs').doc(cvId);
@@ -70,5 +77,14 @@ export async function PATCH(
     updatedAt: FieldValue.serverTimestamp(),
   });
 
+  const previous = snap.data();
+  await recordCVVersion({
+    cvRef: ref,
+    operation,
+    snapshot: { generatedContent: validation.content, designTokens: previous?.designTokens ?? null },
+    previous,
+    actorUid: adminUserId,
+  });
+
   return NextResponse.json({ ok: true });
 }
@@ -7,8 +7,12 @@ import { runDisputeGatekeeper } from '@/lib/ai/dispute-gatekeeper';
 import { generateDesignTokens } from '@/lib/ai/style-generator-v2';
 import { generateStyleTokensV2 } from '@/lib/cv-engine/ai/orchestrator';
 import type { CVStyleTokensV2 } from '@/lib/cv-engine/tokens';
+import type { DesignSpec } from '@/lib/cv-engine/spec';
+import { loadStoredRecipes } from '@/lib/cv-engine/recipes/stored';
 import { generateCV } from '@/lib/ai/cv-generator';
 import { createLinkedInSummaryV2 } from '@/lib/ai/style-generator-v2';
+import { recordCVVersion } from '@/lib/cv/versions';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
 import type {
   CV,
   StyleCreativityLevel,
@@ -16,6 +20,7 @@ import type {
   GeneratedCVContent,
   ParsedLinkedIn,
   JobVacancy,
+  TokenUsage,
 } from '@/types';
 
 // The CVDispute shape from types/index.ts uses the client Firestore Timestamp
@@ -166,6 +171,18 @@ export async function POST(
       resolved.model,
     );
 
+    // Disputes are free for the user but not for us — feed the spend ceilings
+    void recordOperationUsage({
+      userId,
+      cvId,
+      operation: 'dispute-regenerate',
+      usage: {
+        inputTokens: gatekeeper.usage.promptTokens,
+        outputTokens: gatekeeper.usage.completionTokens,
+      },
+      modelId: resolved.model,
+    });
+
     const disputeRef = disputesCol.doc();
 
     if (gatekeeper.verdict === 'rejected') {
@@ -226,8 +243,20 @@ export async function POST(
       resolved.apiKey,
       resolved.model,
       styleHistory,
+      await loadStoredRecipes(userId),
     );
 
+    void recordOperationUsage({
+      userId,
+      cvId,
+      operation: 'dispute-regenerate',
+      usage: {
+        inputTokens: regenResult.usage.promptTokens,
+        outputTokens: regenResult.usage.completionTokens,
+      },
+      modelId: resolved.model,
+    });
+
     const disputeDoc: DisputeWrite = {
       cvId,
       userId,
@@ -275,6 +304,16 @@ export async function POST(
       updatedAt: FieldValue.serverTimestamp(),
     });
 
+    await recordCVVersion({
+      cvRef,
+      operation: 'dispute-regenerate',
+      snapshot: {
+        generatedContent: regenResult.content,
+        designTokens: regenResult.tokens as import('@/types/design-tokens').CVDesignTokens,
+      },
+      previous: cvData,
+    });
+
     return NextResponse.json({
       status: 'approved' as DisputeStatus,
       disputeId: disputeRef.id,
@@ -300,6 +339,8 @@ type ResolvedProvider = Awaited<ReturnType<typeof resolveProvider>>['provider'];
 interface RegenResult {
   content: GeneratedCVContent;
   tokens: import('@/types/design-tokens').CVDesignTokens | CVStyleTokensV2;
+  /** Style + content passes combined. */
+  usage: TokenUsage;
 }
 
 async function regenerateCV(
@@ -310,6 +351,7 @@ async function regenerateCV(
   apiKey: string,
   modelName: string,
   styleHistory: import('@/types/design-tokens').CVDesignTokens[] = [],
+  customRecipes: DesignSpec[] = [],
 ): Promise<RegenResult> {
   const linkedIn = cv.linkedInData;
   const jobVacancy = cv.jobVacancy || null;
@@ -326,6 +368,7 @@ async function regenerateCV(
   const sourceIsV2 = sourceTokens?.engineVersion === 'v2';
 
   let regenTokens: RegenResult['tokens'];
+  let styleUsage: TokenUsage;
   if (sourceIsV2) {
     // Extract recipeIds from style history (only v2 docs contribute).
     const recipeUsageHistory = styleHistory
@@ -346,8 +389,10 @@ async function regenerateCV(
       model: modelName,
       hasPhoto: !!cv.avatarUrl,
       recipeUsageHistory,
+      customRecipes,
     });
     regenTokens = result.tokens;
+    styleUsage = result.usage;
   } else {
     const mergedHistory = styleHistory.length > 0
       ? styleHistory
@@ -364,6 +409,7 @@ async function regenerateCV(
       mergedHistory,
     );
     regenTokens = styleResult.tokens;
+    styleUsage = styleResult.usage;
   }
 
   // Regenerate CV content (same profile/job; engine-agnostic).
@@ -382,5 +428,9 @@ async function regenerateCV(
   return {
     content: cvResult.content,
     tokens: regenTokens,
+    usage: {
+      promptTokens: styleUsage.promptTokens + cvResult.usage.promptTokens,
+      completionTokens: styleUsage.completionTokens + cvResult.usage.completionTokens,
+    },
   };
 }
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { generateCVDOCX } from '@/lib/docx/cv-docx-generator';
+import { loadRecipesForRender } from '@/lib/cv-engine/recipes/stored';
+import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
+import { getDefaultTokens } from '@/lib/cv/html-generator';
+import type { AnyCVTokens } from '@/lib/cv-engine/dispatch';
+import {
+  checkRateLimit,
+  RATE_LIMITS,
+  getRequestIdentifier,
+} from '@/lib/security/rate-limiter';
+import type { CV, GeneratedCVContent, CVStyleConfig, CVContactInfo } from '@/types';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
+import { isPaperSize } from '@/lib/cv/paper-size';
+
+/**
+ * POST /api/cv/[id]/docx
+ *
+ * Native Word export of a generated CV. Same body contract as the PDF route
+ * (optional edited `content`, `tokens` and `header`) so the preview can send
+ * unsaved edits; falls back to the stored doc otherwise.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: cvId } = await params;
+
+    let editedContent: GeneratedCVContent | null = null;
+    let editedTokens: AnyCVTokens = null;
+    let editedHeader: {
+      fullName: string;
+      headline?: string | null;
+      contactInfo?: CVContactInfo | null;
+    } | null = null;
+    let paperSize: PaperSize | null = null;
+    try {
+      const body = await request.json();
+      if (body.content) {
+        editedContent = body.content as GeneratedCVContent;
+      }
+      if (body.tokens) {
+        editedTokens = body.tokens as AnyCVTokens;
+      }
+      if (body.header) {
+        editedHeader = body.header;
+      }
+      if (isPaperSize(body.paperSize)) {
+        paperSize = body.paperSize;
+      }
+    } catch {
+      // No body or invalid JSON - proceed with stored content
+    }
+
+    // Get auth token from cookie or header
+    const cookieStore = await cookies();
+    const token = cookieStore.get('firebase-token')?.value ||
+      request.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    let userId: string;
+    try {
+      const decodedToken = await getAdminAuth().verifyIdToken(token);
+      userId = decodedToken.uid;
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    // Shares the PDF budget — both are export endpoints hit from the same
+    // download menu.
+    const rateLimitResult = await checkRateLimit(
+      getRequestIdentifier(userId),
+      'docx-generation',
+      RATE_LIMITS.pdfGeneration
+    );
+
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many export requests. Please wait and try again.' },
+        {
+          status: 429,
+          headers: {
+            'Retry-After': String(rateLimitResult.retryAfter || 60),
+          },
+        }
+      );
+    }
+
+    const cvDoc = await getAdminDb()
+      .collection('users')
+      .doc(userId)
+      .collection('cvs')
+      .doc(cvId)
+      .get();
+
+    if (!cvDoc.exists) {
+      return NextResponse.json(
+        { error: 'CV not found' },
+        { status: 404 }
+      );
+    }
+
+    const cvData = cvDoc.data() as CV & { tokens?: CVDesignTokens };
+
+    if (!cvData.generatedContent) {
+      return NextResponse.json(
+        { error: 'CV content not generated yet' },
+        { status: 400 }
+      );
+    }
+
+    // Tokens - prefer edited tokens, then stored designTokens (v1 or v2),
+    // then very-legacy `tokens` / styleConfig, then v1 defaults.
+    let tokens: AnyCVTokens;
+    if (editedTokens) {
+      tokens = editedTokens;
+    } else if (cvData.designTokens) {
+      tokens = cvData.designTokens as AnyCVTokens;
+    } else if (cvData.tokens) {
+      tokens = cvData.tokens;
+    } else if (cvData.styleConfig) {
+      tokens = styleConfigToTokens(cvData.styleConfig as CVStyleConfig);
+    } else {
+      tokens = getDefaultTokens();
+    }
+
+    const contactInfo: CVContactInfo = editedHeader?.contactInfo ?? {
+      email: cvData.linkedInData.email || undefined,
+      phone: cvData.linkedInData.phone || undefined,
+      location: cvData.linkedInData.location || undefined,
+      linkedinUrl: cvData.linkedInData.linkedinUrl || undefined,
+      website: cvData.linkedInData.website || undefined,
+      github: cvData.linkedInData.github || undefined,
+    };
+
+    const contentToRender = editedContent || (cvData.generatedContent as GeneratedCVContent);
+    const fullName = editedHeader?.fullName ?? cvData.linkedInData.fullName;
+    const headline = editedHeader?.headline ?? contentToRender.headline ?? cvData.linkedInData.headline;
+
+    const customRecipes = await loadRecipesForRender(tokens, userId);
+    const docxBuffer = await generateCVDOCX(contentToRender, tokens, {
+      fullName,
+      headline: headline as string | null,
+      contactInfo,
+      overrides: cvData.elementOverrides ?? null,
+      locale: cvData.language ?? 'nl',
+      // Request body first, then the size stored on the tokens — as the PDF route.
+      paperSize,
+      customRecipes,
+    });
+
+    return new NextResponse(new Uint8Array(docxBuffer), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'Content-Disposition': `attachment; filename="cv-${fullName.toLowerCase().replace(/\s+/g, '-')}.docx"`,
+      },
+    });
+  } catch (error) {
+    console.error('DOCX generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate DOCX' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { generateInterviewPrepPDF } from '@/lib/pdf/interview-prep-generator';
+import { fontPairings } from '@/lib/cv/templates/themes';
+import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
+import { getDefaultTokens } from '@/lib/cv/html-generator';
+import type { CVDesignTokens } from '@/types/design-tokens';
+import type { CV, CVStyleConfig } from '@/types';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/** GET /api/cv/[id]/interview-prep/download — the stored prep pack as PDF. Free. */
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const { id: cvId } = await context.params;
+
+    const cookieStore = await cookies();
+    const token = cookieStore.get('firebase-token')?.value ||
+      request.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let userId: string;
+    try {
+      const decodedToken = await getAdminAuth().verifyIdToken(token);
+      userId = decodedToken.uid;
+    } catch {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const cvDoc = await getAdminDb()
+      .collection('users')
+      .doc(userId)
+      .collection('cvs')
+      .doc(cvId)
+      .get();
+
+    if (!cvDoc.exists) {
+      return NextResponse.json({ error: 'CV not found' }, { status: 404 });
+    }
+
+    const cvData = cvDoc.data() as CV;
+    if (!cvData.interviewPrep) {
+      return NextResponse.json({ error: 'No interview prep generated yet' }, { status: 404 });
+    }
+
+    // Same look as the CV when its tokens use a known font pairing (recipe
+    // CVs don't), else the legacy style config, else the defaults.
+    let tokens: CVDesignTokens;
+    if (cvData.designTokens && fontPairings[cvData.designTokens.fontPairing]) {
+      tokens = cvData.designTokens;
+    } else if (cvData.styleConfig) {
+      tokens = styleConfigToTokens(cvData.styleConfig as CVStyleConfig);
+    } else {
+      tokens = getDefaultTokens();
+    }
+
+    const pdfBuffer = await generateInterviewPrepPDF(
+      {
+        pack: cvData.interviewPrep,
+        candidateName: cvData.linkedInData?.fullName || 'Sollicitant',
+      },
+      tokens,
+    );
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="gespreksvoorbereiding-${new Date().toISOString().split('T')[0]}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating interview prep PDF:', error);
+    return NextResponse.json({ error: 'Failed to generate download' }, { status: 500 });
+  }
+}
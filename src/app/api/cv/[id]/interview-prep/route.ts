@@ -0,0 +1,212 @@
+/**
+ * /api/cv/[id]/interview-prep — interview preparation pack for a CV.
+ *
+ * POST body: { applicationId?: string }
+ *
+ * Generates likely questions, STAR outlines and questions to ask from the
+ * CV's vacancy, fit analysis, tailored content and motivation letter. When
+ * called for an application, its next (or latest) interview round shapes
+ * the questions. The pack is stored on the CV as `interviewPrep`; GET
+ * returns the stored pack.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { generateInterviewPrep, type InterviewContext } from '@/lib/ai/interview-prep-generator';
+import { resolveProvider, refundPlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
+import { toApplicationRecord } from '@/lib/applications/records';
+import { sortEvents, upcomingInterviews } from '@/lib/applications/timeline';
+import {
+  checkRateLimit,
+  RATE_LIMITS,
+  getRequestIdentifier,
+} from '@/lib/security/rate-limiter';
+import type { CV } from '@/types';
+
+export const runtime = 'nodejs';
+
+async function authenticate(request: NextRequest): Promise<string | NextResponse> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const decodedToken = await getAdminAuth().verifyIdToken(token);
+    return decodedToken.uid;
+  } catch {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: cvId } = await params;
+
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) return auth;
+    const userId = auth;
+
+    const rateLimitResult = await checkRateLimit(
+      getRequestIdentifier(userId),
+      'cv-generation',
+      RATE_LIMITS.aiGeneration
+    );
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const applicationId = typeof (body as { applicationId?: unknown }).applicationId === 'string'
+      ? (body as { applicationId: string }).applicationId
+      : null;
+
+    const db = getAdminDb();
+    const userRef = db.collection('users').doc(userId);
+    const cvRef = userRef.collection('cvs').doc(cvId);
+
+    // Validate before charging credits
+    const cvDoc = await cvRef.get();
+    if (!cvDoc.exists) {
+      return NextResponse.json({ error: 'CV not found' }, { status: 404 });
+    }
+
+    const cvData = cvDoc.data() as CV;
+
+    if (!cvData.generatedContent) {
+      return NextResponse.json(
+        { error: 'CV content not generated yet. Generate CV first.' },
+        { status: 400 }
+      );
+    }
+
+    if (!cvData.jobVacancy) {
+      return NextResponse.json(
+        { error: 'No job vacancy linked to this CV. Interview prep requires a target job.' },
+        { status: 400 }
+      );
+    }
+
+    let interview: InterviewContext | null = null;
+    if (applicationId) {
+      const appDoc = await userRef.collection('applications').doc(applicationId).get();
+      if (!appDoc.exists) {
+        return NextResponse.json({ error: 'Application not found' }, { status: 404 });
+      }
+      const application = toApplicationRecord(appDoc.id, appDoc.data() ?? {});
+      if (application.cvId !== cvId) {
+        return NextResponse.json({ error: 'Application was sent with another CV' }, { status: 400 });
+      }
+      // Prep for the next scheduled round, else the most recent one.
+      const event = upcomingInterviews(application)[0]
+        ?? sortEvents(application.events).filter(e => e.type === 'interview').pop();
+      if (event?.interview) {
+        interview = {
+          round: event.interview.round,
+          type: event.interview.type,
+          interviewer: event.interview.interviewer,
+        };
+      }
+    }
+
+    let resolved;
+    try {
+      resolved = await resolveProvider({ userId, operation: 'interview-prep' });
+    } catch (err) {
+      if (err instanceof ProviderError) {
+        return NextResponse.json({ error: err.message }, { status: err.statusCode });
+      }
+      throw err;
+    }
+
+    let result;
+    try {
+      result = await generateInterviewPrep({
+        profile: cvData.linkedInData,
+        jobVacancy: cvData.jobVacancy,
+        content: cvData.generatedContent,
+        fitAnalysis: cvData.fitAnalysis ?? null,
+        motivationLetter: cvData.motivationLetter ?? null,
+        language: cvData.language ?? 'nl',
+        applicationId,
+        interview,
+        provider: resolved.providerName,
+        apiKey: resolved.apiKey,
+        model: resolved.model,
+      });
+    } catch (err) {
+      if (resolved.mode === 'platform') {
+        await refundPlatformCredits(userId, 'interview-prep');
+      }
+      throw err;
+    }
+
+    await cvRef.update({
+      interviewPrep: result.pack,
+      updatedAt: new Date(),
+    });
+
+    void recordOperationUsage({
+      userId,
+      cvId,
+      operation: 'interview-prep',
+      usage: {
+        inputTokens: result.usage.promptTokens,
+        outputTokens: result.usage.completionTokens,
+      },
+      modelId: resolved.model,
+    });
+
+    return NextResponse.json({
+      success: true,
+      pack: result.pack,
+      usage: result.usage,
+    });
+  } catch (error) {
+    console.error('Interview prep generation error:', error);
+    const message = error instanceof Error && error.message
+      ? error.message
+      : 'Failed to generate interview prep';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: cvId } = await params;
+
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) return auth;
+
+    const cvDoc = await getAdminDb()
+      .collection('users')
+      .doc(auth)
+      .collection('cvs')
+      .doc(cvId)
+      .get();
+
+    if (!cvDoc.exists) {
+      return NextResponse.json({ error: 'CV not found' }, { status: 404 });
+    }
+
+    const cvData = cvDoc.data() as CV;
+    return NextResponse.json({ success: true, pack: cvData.interviewPrep ?? null });
+  } catch (error) {
+    console.error('Get interview prep error:', error);
+    return NextResponse.json({ error: 'Failed to get interview prep' }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { generateMotivationLetterPDF, generateMotivationLetterDOCX } from '@/lib/pdf/motivation-letter-generator';
+import { isPaperSize } from '@/lib/cv/paper-size';
+import { isOutputLanguage } from '@/types/language';
 import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
 import { getDefaultTokens } from '@/lib/cv/html-generator';
 import type { CVDesignTokens } from '@/types/design-tokens';
@@ -81,6 +83,8 @@ export async function POST(request: NextRequest, context: RouteParams) {
       senderPhone: cvData.linkedInData?.phone,
       senderLocation: cvData.linkedInData?.location || undefined,
       recipientCompany: cvData.jobVacancy?.company || undefined,
+      // Letter language from the client, else the CV's own output language.
+      language: isOutputLanguage(body.language) ? body.language : cvData.language,
     };
 
     // Generate file based on format
@@ -100,7 +104,12 @@ export async function POST(request: NextRequest, context: RouteParams) {
 
     if (format === 'pdf') {
       // PDF format with CV styling
-      const pdfBuffer = await generateMotivationLetterPDF(letterData, tokens);
+      const pdfBuffer = await generateMotivationLetterPDF(
+        letterData,
+        tokens,
+        // Request body first, else match the paper size of the CV itself.
+        isPaperSize(body.paperSize) ? body.paperSize : cvData.designTokens?.paperSize ?? null,
+      );
 
       return new NextResponse(new Uint8Array(pdfBuffer), {
         status: 200,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { generatePDF } from '@/lib/pdf/generator';
+import { loadRecipesForRender } from '@/lib/cv-engine/recipes/stored';
 import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
 import {
   checkRateLimit,
@@ -10,7 +11,8 @@ import {
 } from '@/lib/security/rate-limiter';
 import { validateAvatarURL } from '@/lib/security/url-validator';
 import type { CV, GeneratedCVContent, CVStyleConfig, CVContactInfo, CVElementOverrides, ElementOverride, EditableElementType } from '@/types';
-import type { CVDesignTokens } from '@/types/design-tokens';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
+import { isPaperSize } from '@/lib/cv/paper-size';
 
 export async function POST(
   request: NextRequest,
@@ -19,7 +21,7 @@ export async function POST(
   try {
     const { id: cvId } = await params;
 
-    // Parse request body for optional edited content, header, element colors, and page mode
+    // Parse request body for optional edited content, header, element colors, page mode and paper size
     let editedContent: GeneratedCVContent | null = null;
     let editedTokens: CVDesignTokens | null = null;
     let editedHeader: {
@@ -29,6 +31,7 @@ export async function POST(
     } | null = null;
     let elementColors: Record<string, string | undefined> | null = null;
     let pageMode: 'multi-page' | 'single-page' = 'multi-page';
+    let paperSize: PaperSize | null = null;
     try {
       const body = await request.json();
       if (body.content) {
@@ -46,6 +49,9 @@ export async function POST(
       if (body.pageMode === 'single-page') {
         pageMode = 'single-page';
       }
+      if (isPaperSize(body.paperSize)) {
+        paperSize = body.paperSize;
+      }
     } catch {
       // No body or invalid JSON - proceed with stored content
     }
@@ -75,7 +81,7 @@ export async function POST(
     }
 
     // Rate limiting for PDF generation (resource-intensive)
-    const rateLimitResult = checkRateLimit(
+    const rateLimitResult = await checkRateLimit(
       getRequestIdentifier(userId),
       'pdf-generation',
       RATE_LIMITS.pdfGeneration
@@ -186,6 +192,9 @@ export async function POST(
       };
     }
 
+    // Stored (user/organisation) recipes are read fresh from the owner's store
+    const customRecipes = await loadRecipesForRender(tokens, userId);
+
     // Generate PDF with validated avatar URL
     const pdfBuffer = await generatePDF(
       contentToRender,
@@ -195,7 +204,11 @@ export async function POST(
       headline as string | null,
       effectiveOverrides,
       contactInfo,
-      pageMode
+      pageMode,
+      // Request body first, then the size stored on the (edited) design tokens.
+      paperSize ?? editedTokens?.paperSize ?? cvData.designTokens?.paperSize ?? null,
+      cvData.language ?? null,
+      customRecipes
     );
 
     // Mark CV as pdf_ready on first download — analytics/UX only, no credit deduction.
@@ -0,0 +1,67 @@
+/**
+ * PATCH  /api/cv/[id]/shares/[shareId] — toggle PDF download on a live link
+ * DELETE /api/cv/[id]/shares/[shareId] — revoke the link
+ *
+ * Revoked links are kept (with `revokedAt`) so the owner still sees their
+ * view counts; the public page answers them with "link ingetrokken".
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { SHARE_COLLECTION, toShareSummary } from '@/lib/cv/share';
+
+export const runtime = 'nodejs';
+
+async function loadOwnedShare(request: NextRequest, cvId: string, shareId: string) {
+  let userId: string;
+  try {
+    userId = (await getEffectiveUserId(request)).userId;
+  } catch {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const ref = getAdminDb().collection(SHARE_COLLECTION).doc(shareId);
+  const snap = await ref.get();
+  const data = snap.data();
+  if (!snap.exists || data?.userId !== userId || data?.cvId !== cvId) {
+    return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) };
+  }
+  return { ref, data };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; shareId: string }> },
+) {
+  const { id: cvId, shareId } = await context.params;
+  const owned = await loadOwnedShare(request, cvId, shareId);
+  if ('error' in owned) return owned.error;
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.allowPdfDownload !== 'boolean') {
+    return NextResponse.json({ error: 'allowPdfDownload must be a boolean' }, { status: 400 });
+  }
+  if (owned.data.revokedAt) {
+    return NextResponse.json({ error: 'Link is al ingetrokken' }, { status: 400 });
+  }
+
+  await owned.ref.update({ allowPdfDownload: body.allowPdfDownload });
+  const locale = request.nextUrl.searchParams.get('locale') === 'en' ? 'en' : 'nl';
+  return NextResponse.json({ share: toShareSummary(await owned.ref.get(), locale) });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; shareId: string }> },
+) {
+  const { id: cvId, shareId } = await context.params;
+  const owned = await loadOwnedShare(request, cvId, shareId);
+  if ('error' in owned) return owned.error;
+
+  if (!owned.data.revokedAt) {
+    await owned.ref.update({ revokedAt: AdminTimestamp.now() });
+  }
+  return NextResponse.json({ ok: true });
+}
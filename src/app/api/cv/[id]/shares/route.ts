@@ -0,0 +1,129 @@
+/**
+ * GET  /api/cv/[id]/shares — list the CV's share links (newest first)
+ * POST /api/cv/[id]/shares — create a new public read-only link
+ *
+ * POST body: {
+ *   expiresInDays?: number | null,   // 1–365, omitted/null = never
+ *   password?: string | null,        // 4–128 chars, omitted/empty = none
+ *   allowPdfDownload?: boolean,      // default false
+ *   locale?: 'nl' | 'en'             // locale of the returned URL
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { hashSharePassword, MAX_SHARES_PER_CV, SHARE_COLLECTION, toShareSummary } from '@/lib/cv/share';
+
+export const runtime = 'nodejs';
+
+const MAX_EXPIRY_DAYS = 365;
+
+function localeParam(value: unknown): string {
+  return value === 'en' ? 'en' : 'nl';
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id: cvId } = await context.params;
+
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const db = getAdminDb();
+  const shares = await db.collection(SHARE_COLLECTION)
+    .where('userId', '==', effectiveUserId)
+    .where('cvId', '==', cvId)
+    .orderBy('createdAt', 'desc')
+    .get();
+
+  const locale = localeParam(request.nextUrl.searchParams.get('locale'));
+  return NextResponse.json({ shares: shares.docs.map(doc => toShareSummary(doc, locale)) });
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id: cvId } = await context.params;
+
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid body' }, { status: 400 });
+  }
+
+  const { expiresInDays, password, allowPdfDownload } = body as Record<string, unknown>;
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (typeof expiresInDays !== 'number' || !Number.isInteger(expiresInDays)
+      || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+      return NextResponse.json({ error: `expiresInDays must be 1-${MAX_EXPIRY_DAYS}` }, { status: 400 });
+    }
+  }
+  if (password !== undefined && password !== null && password !== '') {
+    if (typeof password !== 'string' || password.length < 4 || password.length > 128) {
+      return NextResponse.json({ error: 'Wachtwoord moet 4-128 tekens bevatten' }, { status: 400 });
+    }
+  }
+
+  const db = getAdminDb();
+  const cvSnap = await db.collection('users').doc(effectiveUserId).collection('cvs').doc(cvId).get();
+  if (!cvSnap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  if (!cvSnap.data()?.generatedContent) {
+    return NextResponse.json({ error: 'CV content not generated yet' }, { status: 400 });
+  }
+
+  // Expired links aren't revoked but no longer count as active. Firestore
+  // can't combine "expiresAt null or in the future" in one count query.
+  const unrevoked = await db.collection(SHARE_COLLECTION)
+    .where('userId', '==', effectiveUserId)
+    .where('cvId', '==', cvId)
+    .where('revokedAt', '==', null)
+    .select('expiresAt')
+    .get();
+  const now = Date.now();
+  const active = unrevoked.docs.filter(doc => {
+    const expiresAt = doc.data().expiresAt;
+    return !(expiresAt instanceof AdminTimestamp) || expiresAt.toMillis() > now;
+  });
+  if (active.length >= MAX_SHARES_PER_CV) {
+    return NextResponse.json(
+      { error: `Maximaal ${MAX_SHARES_PER_CV} actieve deellinks per CV — trek er eerst een in` },
+      { status: 400 },
+    );
+  }
+
+  const ref = await db.collection(SHARE_COLLECTION).add({
+    userId: effectiveUserId,
+    cvId,
+    expiresAt: typeof expiresInDays === 'number'
+      ? AdminTimestamp.fromMillis(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+      : null,
+    passwordHash: typeof password === 'string' && password ? hashSharePassword(password) : null,
+    allowPdfDownload: allowPdfDownload === true,
+    viewCount: 0,
+    lastViewedAt: null,
+    revokedAt: null,
+    createdAt: AdminTimestamp.now(),
+  });
+
+  const locale = localeParam((body as Record<string, unknown>).locale);
+  return NextResponse.json({ share: toShareSummary(await ref.get(), locale) }, { status: 201 });
+}
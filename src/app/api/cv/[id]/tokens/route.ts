@@ -18,6 +18,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { FieldValue } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
 import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { recordCVVersion } from '@/lib/cv/versions';
 import type { CVDesignTokens } from '@/types/design-tokens';
 import { CVStyleTokensV2Schema, type CVStyleTokensV2 } from '@/lib/cv-engine/tokens';
 
@@ -77,9 +78,11 @@ export async function PATCH(
   const { id: cvId } = await context.params;
 
   let effectiveUserId: string;
+  let adminUserId: string | undefined;
   try {
     const effective = await getEffectiveUserId(request);
     effectiveUserId = effective.userId;
+    adminUserId = effective.adminUserId;
   } catch {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
   }
@@ -113,5 +116,17 @@ export async function PATCH(
   }
   await ref.update(updates);
 
+  const previous = snap.data();
+  await recordCVVersion({
+    cvRef: ref,
+    operation: 'design-tweak',
+    snapshot: {
+      generatedContent: previous?.generatedContent ?? null,
+      designTokens: validation.tokens as CVDesignTokens,
+    },
+    previous,
+    actorUid: adminUserId,
+  });
+
   return NextResponse.json({ ok: true });
 }
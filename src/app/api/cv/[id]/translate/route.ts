@@ -0,0 +1,197 @@
+/**
+ * POST /api/cv/[id]/translate — translate a generated CV into another
+ * output language.
+ *
+ * Body: { language: OutputLanguage }
+ *
+ * The translation is saved as a new sibling CV (same profile, vacancy and
+ * design) linked to the source through `translatedFrom` / `translations`,
+ * so the original stays untouched and both can be edited independently.
+ * The motivation letter, when present, is translated along with it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { translateCV } from '@/lib/ai/cv-translator';
+import { resolveProvider, refundPlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
+import { recordCVVersion } from '@/lib/cv/versions';
+import {
+  checkRateLimit,
+  RATE_LIMITS,
+  getRequestIdentifier,
+} from '@/lib/security/rate-limiter';
+import { isOutputLanguage } from '@/types/language';
+import type { CV } from '@/types';
+
+export const runtime = 'nodejs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: cvId } = await params;
+
+    const cookieStore = await cookies();
+    const token = cookieStore.get('firebase-token')?.value ||
+      request.headers.get('Authorization')?.replace('Bearer ', '');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let userId: string;
+    try {
+      const decodedToken = await getAdminAuth().verifyIdToken(token);
+      userId = decodedToken.uid;
+    } catch {
+      return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+    }
+
+    const rateLimitResult = await checkRateLimit(
+      getRequestIdentifier(userId),
+      'cv-generation',
+      RATE_LIMITS.aiGeneration
+    );
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const target = (body as { language?: unknown }).language;
+    if (!isOutputLanguage(target)) {
+      return NextResponse.json({ error: 'Invalid language' }, { status: 400 });
+    }
+
+    const db = getAdminDb();
+    const cvsRef = db.collection('users').doc(userId).collection('cvs');
+    const sourceRef = cvsRef.doc(cvId);
+
+    // Validate before charging credits
+    const sourceDoc = await sourceRef.get();
+    if (!sourceDoc.exists) {
+      return NextResponse.json({ error: 'CV not found' }, { status: 404 });
+    }
+
+    const cvData = sourceDoc.data() as CV;
+    const sourceLanguage = cvData.language ?? 'nl';
+
+    if (!cvData.generatedContent) {
+      return NextResponse.json(
+        { error: 'CV content not generated yet. Generate CV first.' },
+        { status: 400 }
+      );
+    }
+
+    if (target === sourceLanguage) {
+      return NextResponse.json(
+        { error: 'CV is already in this language' },
+        { status: 400 }
+      );
+    }
+
+    let resolved;
+    try {
+      resolved = await resolveProvider({ userId, operation: 'cv-translate' });
+    } catch (err) {
+      if (err instanceof ProviderError) {
+        return NextResponse.json({ error: err.message }, { status: err.statusCode });
+      }
+      throw err;
+    }
+
+    let result;
+    try {
+      result = await translateCV({
+        content: cvData.generatedContent,
+        motivationLetter: cvData.motivationLetter ?? null,
+        from: sourceLanguage,
+        to: target,
+        fullName: cvData.linkedInData.fullName,
+        jobTitle: cvData.jobVacancy?.title ?? null,
+        companyName: cvData.jobVacancy?.company ?? null,
+        provider: resolved.providerName,
+        apiKey: resolved.apiKey,
+        model: resolved.model,
+      });
+    } catch (err) {
+      if (resolved.mode === 'platform') {
+        await refundPlatformCredits(userId, 'cv-translate');
+      }
+      throw err;
+    }
+
+    // Sibling CV: everything but the language-bound fields is copied from
+    // the source. Usage telemetry and dispute state start fresh.
+    const translationRef = await cvsRef.add({
+      linkedInData: cvData.linkedInData,
+      jobVacancy: cvData.jobVacancy ?? null,
+      template: cvData.template,
+      colorScheme: cvData.colorScheme ?? null,
+      brandStyle: cvData.brandStyle ?? null,
+      styleConfig: cvData.styleConfig ?? null,
+      designTokens: cvData.designTokens ?? null,
+      originalDesignTokens: cvData.originalDesignTokens ?? null,
+      avatarUrl: cvData.avatarUrl ?? null,
+      generatedContent: result.content,
+      // Item order is unchanged, so hide/colour overrides keyed by index still apply.
+      elementOverrides: cvData.elementOverrides ?? null,
+      pdfUrl: null,
+      status: 'generated',
+      llmProvider: resolved.providerName,
+      llmModel: resolved.model,
+      fitAnalysis: cvData.fitAnalysis ?? null,
+      motivationLetter: result.motivationLetter,
+      language: target,
+      translatedFrom: { cvId, language: sourceLanguage },
+      creativityLevel: cvData.creativityLevel ?? 'balanced',
+      creativityLevelHistory: cvData.creativityLevelHistory ?? [cvData.creativityLevel ?? 'balanced'],
+      disputeCount: 0,
+      aiUsage: [],
+      aiUsageTotals: { inputTokens: 0, outputTokens: 0, costUsd: 0 },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    await recordCVVersion({
+      cvRef: translationRef,
+      operation: 'translate',
+      snapshot: { generatedContent: result.content, designTokens: cvData.designTokens ?? null },
+    });
+
+    // Re-translating into the same language points the source at the newest copy.
+    await sourceRef.update({
+      [`translations.${target}`]: translationRef.id,
+      updatedAt: new Date(),
+    });
+
+    void recordOperationUsage({
+      userId,
+      cvId: translationRef.id,
+      operation: 'cv-translate',
+      usage: {
+        inputTokens: result.usage.promptTokens,
+        outputTokens: result.usage.completionTokens,
+      },
+      modelId: resolved.model,
+    });
+
+    return NextResponse.json({
+      success: true,
+      cvId: translationRef.id,
+      content: result.content,
+      usage: result.usage,
+    });
+  } catch (error) {
+    console.error('CV translation error:', error);
+    const message = error instanceof Error && error.message
+      ? error.message
+      : 'Failed to translate CV';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * POST /api/cv/[id]/versions/[versionId]/restore
+ *
+ * Roll a CV back to an earlier version, either entirely or field by field.
+ * No AI, no credits. The restore itself is recorded as a new version so it
+ * can be undone from the same timeline.
+ *
+ * Body: { fields?: CVVersionField[] } — omitted or empty restores everything.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { recordCVVersion } from '@/lib/cv/versions';
+import { CV_VERSION_FIELDS, isCVVersionField, mergeCVSnapshot, type CVSnapshot } from '@/lib/cv/version-diff';
+import type { CVVersionField } from '@/types';
+
+export const runtime = 'nodejs';
+
+function toSnapshot(data: FirebaseFirestore.DocumentData | undefined): CVSnapshot {
+  return {
+    generatedContent: data?.generatedContent ?? null,
+    designTokens: data?.designTokens ?? null,
+  };
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; versionId: string }> },
+) {
+  const { id: cvId, versionId } = await context.params;
+
+  let effectiveUserId: string;
+  let adminUserId: string | undefined;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+    adminUserId = effective.adminUserId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const rawFields: unknown = body?.fields;
+  if (rawFields !== undefined && (!Array.isArray(rawFields) || !rawFields.every(isCVVersionField))) {
+    return NextResponse.json({ error: 'fields must be a list of CV version fields' }, { status: 400 });
+  }
+  const fields: CVVersionField[] = (rawFields as CVVersionField[] | undefined)?.length
+    ? (rawFields as CVVersionField[])
+    : CV_VERSION_FIELDS;
+
+  const db = getAdminDb();
+  const ref = db.collection('users').doc(effectiveUserId).collection('cvs').doc(cvId);
+  const [snap, versionSnap] = await Promise.all([
+    ref.get(),
+    ref.collection('versions').doc(versionId).get(),
+  ]);
+  if (!snap.exists || !versionSnap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const current = toSnapshot(snap.data());
+  const source = toSnapshot(versionSnap.data());
+  const restored = mergeCVSnapshot(current, source, fields);
+
+  const updates: Record<string, unknown> = {
+    generatedContent: restored.generatedContent,
+    designTokens: restored.designTokens,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+  // Keep the legacy colorScheme mirror in step with v1 tokens, same as the
+  // tweaks-panel PATCH does.
+  const tokens = restored.designTokens as (typeof restored.designTokens & { engineVersion?: string }) | null;
+  if (fields.includes('designTokens') && tokens && tokens.engineVersion !== 'v2' && tokens.colors) {
+    updates['colorScheme.primary'] = tokens.colors.primary;
+    updates['colorScheme.secondary'] = tokens.colors.secondary;
+    updates['colorScheme.accent'] = tokens.colors.accent;
+  }
+  await ref.update(updates);
+
+  await recordCVVersion({
+    cvRef: ref,
+    operation: 'restore',
+    snapshot: restored,
+    previous: current,
+    restoredFrom: versionId,
+    actorUid: adminUserId,
+  });
+
+  return NextResponse.json({
+    ok: true,
+    generatedContent: restored.generatedContent,
+    designTokens: restored.designTokens,
+  });
+}
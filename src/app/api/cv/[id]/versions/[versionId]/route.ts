@@ -0,0 +1,68 @@
+/**
+ * GET /api/cv/[id]/versions/[versionId]?against=current|<versionId>
+ *
+ * One version's snapshot plus a field-level diff. `against` picks the
+ * other side of the comparison: the CV as it is now (default, i.e. "what
+ * would a restore change") or another version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { diffCVSnapshots, type CVSnapshot } from '@/lib/cv/version-diff';
+
+export const runtime = 'nodejs';
+
+function toSnapshot(data: FirebaseFirestore.DocumentData | undefined): CVSnapshot {
+  return {
+    generatedContent: data?.generatedContent ?? null,
+    designTokens: data?.designTokens ?? null,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; versionId: string }> },
+) {
+  const { id: cvId, versionId } = await context.params;
+
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const db = getAdminDb();
+  const ref = db.collection('users').doc(effectiveUserId).collection('cvs').doc(cvId);
+  const versionSnap = await ref.collection('versions').doc(versionId).get();
+  if (!versionSnap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const against = request.nextUrl.searchParams.get('against') || 'current';
+  const otherSnap = against === 'current'
+    ? await ref.get()
+    : await ref.collection('versions').doc(against).get();
+  if (!otherSnap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const data = versionSnap.data()!;
+  const version = toSnapshot(data);
+
+  return NextResponse.json({
+    version: {
+      id: versionSnap.id,
+      operation: data.operation,
+      changedFields: data.changedFields ?? [],
+      restoredFrom: data.restoredFrom ?? null,
+      createdAt: data.createdAt?.toDate?.()?.toISOString() ?? null,
+      ...version,
+    },
+    against,
+    // before = the comparison target, after = this version
+    diff: diffCVSnapshots(toSnapshot(otherSnap.data()), version),
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/cv/[id]/versions
+ *
+ * Version timeline for a CV, newest first. Returns summaries only
+ * (operation, changed fields, timestamps) — the content + tokens snapshot
+ * of a single version comes from /api/cv/[id]/versions/[versionId].
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { MAX_CV_VERSIONS } from '@/lib/cv/versions';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id: cvId } = await context.params;
+
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const db = getAdminDb();
+  const ref = db.collection('users').doc(effectiveUserId).collection('cvs').doc(cvId);
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const versions = await ref.collection('versions')
+    .orderBy('createdAt', 'desc')
+    .limit(MAX_CV_VERSIONS)
+    .select('operation', 'changedFields', 'restoredFrom', 'actorUid', 'createdAt', 'updatedAt')
+    .get();
+
+  return NextResponse.json({
+    versions: versions.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        operation: data.operation,
+        changedFields: data.changedFields ?? [],
+        restoredFrom: data.restoredFrom ?? null,
+        actorUid: data.actorUid ?? null,
+        createdAt: data.createdAt?.toDate?.()?.toISOString() ?? null,
+        updatedAt: data.updatedAt?.toDate?.()?.toISOString() ?? null,
+      };
+    }),
+  });
+}
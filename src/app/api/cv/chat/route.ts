@@ -5,17 +5,34 @@ import { z } from 'zod';
 import { getAdminAuth } from '@/lib/firebase/admin';
 import { getModelId } from '@/lib/ai/providers';
 import { resolveProvider, chargePlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
-import { CHAT_CHAR_LIMIT } from '@/lib/ai/platform-config';
+import { countChatChars, requiredChatCredits } from '@/lib/ai/chat-billing';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
 import type { CVChatContext } from '@/types/chat';
+import type { OutputLanguage } from '@/types';
 import type { UIMessage } from 'ai';
 
+/** Language names as they read inside the (Dutch) system prompt. */
+const OUTPUT_LANGUAGE_NAMES_NL: Record<OutputLanguage, string> = {
+  nl: 'het Nederlands',
+  en: 'English',
+  de: 'het Duits',
+  fr: 'het Frans',
+  es: 'het Spaans',
+};
+
+const CHAT_LANGUAGE_INSTRUCTIONS: Record<OutputLanguage, string> = {
+  nl: 'Je bent een Nederlandse CV-assistent. Beantwoord in het Nederlands tenzij de gebruiker Engels spreekt.',
+  en: 'You are a CV assistant. Respond in English.',
+  de: 'You are a CV assistant. Reply in the language the user writes in, but write all CV content in German.',
+  fr: 'You are a CV assistant. Reply in the language the user writes in, but write all CV content in French.',
+  es: 'You are a CV assistant. Reply in the language the user writes in, but write all CV content in Spanish.',
+};
+
 // Build the system prompt with full context
 function buildSystemPrompt(context: CVChatContext): string {
   const { linkedInData, jobVacancy, fitAnalysis, currentContent, currentTokens, language } = context;
 
-  const langInstructions = language === 'nl'
-    ? 'Je bent een Nederlandse CV-assistent. Beantwoord in het Nederlands tenzij de gebruiker Engels spreekt.'
-    : 'You are a CV assistant. Respond in English.';
+  const langInstructions = CHAT_LANGUAGE_INSTRUCTIONS[language];
 
   const jobSection = jobVacancy
     ? `
@@ -49,6 +66,7 @@ ${jobVacancy.industry ? `- **Industry:** ${jobVacancy.industry}` : ''}
     recipeId: string;
     fontOverride?: string;
     pageMode?: string;
+    paperSize?: string;
     emphasis?: Record<string, unknown>;
   }) : null;
 
@@ -58,6 +76,7 @@ ${jobVacancy.industry ? `- **Industry:** ${jobVacancy.industry}` : ''}
 - **Recipe:** ${v2.recipeId}
 - **Font override:** ${v2.fontOverride ?? 'recipe-default'}
 - **Page mode:** ${v2.pageMode ?? 'a4-paged'}
+- **Paper size:** ${v2.paperSize ?? 'a4'}
 - **Style tools (update_header_variant, update_colors, etc.) zijn voor v2-CVs niet beschikbaar — verwijs de gebruiker naar de Stijl-tweaks-knop in de preview voor visuele aanpassingen.**
 `
     : currentTokens
@@ -109,7 +128,7 @@ Je hebt toegang tot tools om directe wijzigingen in de CV aan te brengen.${curre
 
 ## BELANGRIJKE REGELS
 1. **Wees eerlijk** - Verzin NOOIT ervaring, skills of kwalificaties die de kandidaat niet heeft
-2. **Behoud de taal** - Schrijf content in ${language === 'nl' ? 'het Nederlands' : 'English'}
+2. **Behoud de taal** - Schrijf content in ${OUTPUT_LANGUAGE_NAMES_NL[language]}
 3. **Focus op relevantie** - Help de CV af te stemmen op de doelvacature indien beschikbaar
 4. **Leg uit** - Vertel wat je wijzigt en waarom
 5. **Vraag bevestiging** - Bij grote of onzekere wijzigingen, vraag eerst of de gebruiker dit wil
@@ -214,14 +233,7 @@ export async function POST(request: NextRequest) {
 
     // Character-based credit billing for platform mode
     if (resolved.mode === 'platform') {
-      const totalChars = messages.reduce((sum: number, msg: UIMessage) => {
-        const text = (msg.parts ?? [])
-          .filter((p: { type: string }) => p.type === 'text')
-          .map((p: { type: string; text?: string }) => (p as { text: string }).text)
-          .join('');
-        return sum + text.length;
-      }, 0);
-      const requiredCredits = Math.max(1, Math.ceil(totalChars / CHAT_CHAR_LIMIT));
+      const requiredCredits = requiredChatCredits(countChatChars(messages));
       const diff = requiredCredits - chargedCredits;
       if (diff > 0) {
         try {
@@ -492,6 +504,20 @@ export async function POST(request: NextRequest) {
       messages: modelMessages,
       tools,
       stopWhen: stepCountIs(5),
+      // Credits are billed by characters above; the token cost of every turn
+      // still feeds the usage log and the daily spend ceilings.
+      onFinish: ({ totalUsage }) => {
+        void recordOperationUsage({
+          userId,
+          cvId: null,
+          operation: 'cv-chat',
+          usage: {
+            inputTokens: totalUsage.inputTokens ?? 0,
+            outputTokens: totalUsage.outputTokens ?? 0,
+          },
+          modelId: resolved.model,
+        });
+      },
     });
 
     // Return UI message stream response (required for useChat with tool calls)
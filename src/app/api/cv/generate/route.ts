@@ -9,6 +9,7 @@ import {
 } from '@/lib/security/rate-limiter';
 import { resolveProvider, refundPlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
 import { recordOperationUsage } from '@/lib/ai/usage-tracker';
+import { recordCVVersion } from '@/lib/cv/versions';
 import type {
   ParsedLinkedIn,
   JobVacancy,
@@ -45,7 +46,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting for AI generation (expensive operation)
-    const rateLimitResult = checkRateLimit(
+    const rateLimitResult = await checkRateLimit(
       getRequestIdentifier(userId),
       'cv-generation',
       RATE_LIMITS.aiGeneration
@@ -192,6 +193,14 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date(),
     });
 
+    // First entry in the CV's version history — the AI baseline every later
+    // edit, tweak or dispute regeneration can be compared against.
+    await recordCVVersion({
+      cvRef,
+      operation: 'generate',
+      snapshot: { generatedContent: content, designTokens },
+    });
+
     // Record this generation against the new CV. Fire-and-forget telemetry —
     // failures here must not block the response.
     void recordOperationUsage({
@@ -5,6 +5,7 @@ import { parseJobVacancy } from '@/lib/ai/job-parser';
 import { resolveProvider, refundPlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
 import { recordOperationUsage } from '@/lib/ai/usage-tracker';
 import { crawlVacancy } from '@/lib/jobs/crawl';
+import type { StructuredField, StructuredJobData } from '@/lib/jobs/crawl/structured';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
@@ -53,9 +54,13 @@ export async function POST(request: NextRequest) {
     // failures are silent — we fall back to the rawText we already have.
     let effectiveRawText = rawText;
     let crawlMethod: string | null = null;
+    // schema.org JobPosting facts from the page markup — used even when the
+    // pasted text is longer than the crawled text.
+    let structured: StructuredJobData | null = null;
     if (typeof sourceUrl === 'string' && sourceUrl.trim().length > 0) {
       try {
         const crawl = await crawlVacancy(sourceUrl.trim());
+        structured = crawl.structured;
         if (
           crawl.ok &&
           crawl.fullText.length > rawText.trim().length * 1.5 &&
@@ -83,6 +88,7 @@ export async function POST(request: NextRequest) {
     // Parse job vacancy using AI
     let vacancy;
     let usage;
+    let structuredFields: StructuredField[] = [];
     try {
       const result = await parseJobVacancy(
         effectiveRawText,
@@ -90,9 +96,11 @@ export async function POST(request: NextRequest) {
         resolved.apiKey,
         resolved.model,
         typeof sourceUrl === 'string' ? sourceUrl.trim() || null : null,
+        structured,
       );
       vacancy = result.vacancy;
       usage = result.usage;
+      structuredFields = result.structuredFields;
     } catch (err) {
       if (resolved.mode === 'platform') {
         await refundPlatformCredits(userId, 'job-parse');
@@ -118,6 +126,9 @@ export async function POST(request: NextRequest) {
       crawl: crawlMethod
         ? { method: crawlMethod, originalLength: rawText.length, fullLength: effectiveRawText.length }
         : null,
+      structured: structured
+        ? { fields: structuredFields, sources: structured.fieldSources }
+        : null,
     });
   } catch (error) {
     console.error('Job parsing error:', error);
@@ -41,7 +41,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting for AI generation (expensive operation)
-    const rateLimitResult = checkRateLimit(
+    const rateLimitResult = await checkRateLimit(
       getRequestIdentifier(userId),
       'template-style',
       RATE_LIMITS.aiGeneration
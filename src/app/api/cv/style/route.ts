@@ -3,6 +3,8 @@ import { cookies } from 'next/headers';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { createLinkedInSummaryV2 } from '@/lib/ai/style-generator-v2';
 import { generateStyleTokensV2 } from '@/lib/cv-engine/ai/orchestrator';
+import { getRecipeById, isCustomRecipeId } from '@/lib/cv-engine/recipes/registry';
+import { loadStoredRecipes } from '@/lib/cv-engine/recipes/stored';
 import { resolveProvider, refundPlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
 import { recordOperationUsage } from '@/lib/ai/usage-tracker';
 import type {
@@ -51,12 +53,15 @@ export async function POST(request: NextRequest) {
       userPreferences,
       creativityLevel = 'balanced',
       avatarUrl,
+      recipeId,
     } = body as {
       linkedInData: ParsedLinkedIn;
       jobVacancy: JobVacancy | null;
       userPreferences?: string;
       creativityLevel?: StyleCreativityLevel;
       avatarUrl?: string | null;
+      /** Explicit recipe pick (static or stored) — skips AI recipe selection */
+      recipeId?: string;
     };
 
     // Check if user has uploaded a photo
@@ -70,6 +75,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Stored user/organisation recipes join the candidates for their route.
+    // Checked before charging so a stale pick doesn't cost a credit; a stored
+    // id must be one of this user's own or their organisation's.
+    const customRecipes = await loadStoredRecipes(userId);
+    const knownRecipe = recipeId && (isCustomRecipeId(recipeId)
+      ? customRecipes.some(r => r.id === recipeId)
+      : getRecipeById(recipeId) !== undefined);
+    if (recipeId && !knownRecipe) {
+      return NextResponse.json(
+        { error: 'Unknown recipe' },
+        { status: 400 }
+      );
+    }
+
     // Resolve AI provider (handles own-key vs platform mode + credit deduction)
     let resolved;
     try {
@@ -139,6 +158,8 @@ export async function POST(request: NextRequest) {
               userPreferences,
               hasPhoto,
               recipeUsageHistory,
+              customRecipes,
+              recipeId,
             });
             console.log(`[cv-engine] complete: recipe=${pickedRecipe.id}, font=${tokens.fontOverride ?? pickedRecipe.allowedFontPairings[0]}`);
 
@@ -203,6 +224,8 @@ export async function POST(request: NextRequest) {
         userPreferences,
         hasPhoto,
         recipeUsageHistory,
+        customRecipes,
+        recipeId,
       });
       tokens = result.tokens;
       usage = result.usage;
@@ -5,6 +5,7 @@ import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { resolveJobBySlug } from '@/lib/jobs/resolve';
 import { getProvider } from '@/lib/jobs/providers/registry';
 import type { ApplyCandidate } from '@/lib/jobs/providers/types';
+import { DEFAULT_FOLLOW_UP_DAYS } from '@/lib/applications/timeline';
 import type { ApplicationRecord } from '@/types/application';
 
 export const runtime = 'nodejs';
@@ -168,6 +169,9 @@ export async function POST(
     providerApplicationId: providerResult.providerApplicationId ?? null,
     cvId,
     status: 'applied',
+    events: [],
+    followUpAfterDays: DEFAULT_FOLLOW_UP_DAYS,
+    mockInterviews: [],
     appliedAt: now,
     updatedAt: now,
   };
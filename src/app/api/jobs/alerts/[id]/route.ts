@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import { JOB_ALERT_COLLECTION, JOB_ALERT_FREQUENCIES } from '@/lib/jobs/alerts';
+
+export const runtime = 'nodejs';
+
+async function effectiveId(request: NextRequest): Promise<string | null> {
+  try {
+    const effective = await getEffectiveUserId(request);
+    return effective.userId;
+  } catch {
+    return null;
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id } = await context.params;
+  const effectiveUserId = await effectiveId(request);
+  if (!effectiveUserId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid body' }, { status: 400 });
+  }
+
+  const update: Record<string, unknown> = {};
+  if ('active' in body) {
+    update.active = Boolean(body.active);
+  }
+  if ('frequency' in body) {
+    if (!JOB_ALERT_FREQUENCIES.includes(body.frequency)) {
+      return NextResponse.json({ error: 'Invalid frequency' }, { status: 400 });
+    }
+    update.frequency = body.frequency;
+  }
+  if ('name' in body) {
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, 80) : '';
+    if (!name) {
+      return NextResponse.json({ error: 'Invalid name' }, { status: 400 });
+    }
+    update.name = name;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return NextResponse.json({ error: 'No updatable fields' }, { status: 400 });
+  }
+
+  update.updatedAt = FieldValue.serverTimestamp();
+
+  const db = getAdminDb();
+  const ref = db
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection(JOB_ALERT_COLLECTION)
+    .doc(id);
+
+  const snap = await ref.get();
+  if (!snap.exists) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  await ref.update(update);
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> },
+) {
+  const { id } = await context.params;
+  const effectiveUserId = await effectiveId(request);
+  if (!effectiveUserId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const db = getAdminDb();
+  await db
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection(JOB_ALERT_COLLECTION)
+    .doc(id)
+    .delete();
+
+  return NextResponse.json({ ok: true });
+}
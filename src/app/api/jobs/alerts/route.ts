@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { getEffectiveUserId } from '@/lib/auth/impersonation';
+import {
+  JOB_ALERT_COLLECTION,
+  JOB_ALERT_FREQUENCIES,
+  MAX_JOB_ALERTS_PER_USER,
+  buildJobAlertDoc,
+  describeJobAlertParams,
+  sanitizeJobAlertParams,
+  toJobAlertRecord,
+} from '@/lib/jobs/alerts';
+import type { JobAlertFrequency } from '@/types/job-alert';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const db = getAdminDb();
+  const snap = await db
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection(JOB_ALERT_COLLECTION)
+    .orderBy('createdAt', 'desc')
+    .get();
+
+  const alerts = snap.docs.map((doc) =>
+    toJobAlertRecord(doc.id, doc.data() as Record<string, unknown>),
+  );
+
+  return NextResponse.json({ alerts });
+}
+
+/**
+ * Save the current job search as an alert. Body: `{ params, name?, frequency? }`
+ * where `params` mirrors the /jobs search (q, location, employmentType,
+ * remote, inAppOnly, salaryMin).
+ */
+export async function POST(request: NextRequest) {
+  let effectiveUserId: string;
+  try {
+    const effective = await getEffectiveUserId(request);
+    effectiveUserId = effective.userId;
+  } catch {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid body' }, { status: 400 });
+  }
+
+  const params = sanitizeJobAlertParams(body.params);
+  if (!params) {
+    return NextResponse.json(
+      { error: 'Een alert heeft een zoekterm of locatie nodig' },
+      { status: 400 },
+    );
+  }
+
+  const frequency: JobAlertFrequency = JOB_ALERT_FREQUENCIES.includes(body.frequency)
+    ? body.frequency
+    : 'daily';
+  const name =
+    (typeof body.name === 'string' && body.name.trim().slice(0, 80)) ||
+    describeJobAlertParams(params);
+
+  const db = getAdminDb();
+  const alertsCol = db
+    .collection('users')
+    .doc(effectiveUserId)
+    .collection(JOB_ALERT_COLLECTION);
+
+  const existing = await alertsCol.get();
+  if (existing.size >= MAX_JOB_ALERTS_PER_USER) {
+    return NextResponse.json(
+      { error: `Je kunt maximaal ${MAX_JOB_ALERTS_PER_USER} vacature-alerts hebben` },
+      { status: 400 },
+    );
+  }
+  const duplicate = existing.docs.find(
+    (doc) => JSON.stringify(doc.data().params) === JSON.stringify(params),
+  );
+  if (duplicate) {
+    return NextResponse.json({ ok: true, alertId: duplicate.id, duplicate: true });
+  }
+
+  const ref = alertsCol.doc();
+  await ref.set(await buildJobAlertDoc({ userId: effectiveUserId, name, params, frequency }));
+
+  return NextResponse.json({ ok: true, alertId: ref.id });
+}
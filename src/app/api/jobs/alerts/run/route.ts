@@ -0,0 +1,52 @@
+/**
+ * POST /api/jobs/alerts/run
+ *
+ * Scheduled job-alert runner. Re-runs every active alert that is due (daily
+ * or weekly), skips vacancies the user was already mailed and queues one
+ * digest email per user (see src/lib/jobs/alerts.ts).
+ *
+ * Auth: `Authorization: Bearer <JOB_ALERTS_CRON_SECRET>`. Triggered by Cloud
+ * Scheduler — hourly is fine, alerts that aren't due are skipped.
+ *
+ * Response: JobAlertRunSummary
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueJobAlerts } from '@/lib/jobs/alerts';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+function isAuthorized(header: string | null, secret: string): boolean {
+  const provided = Buffer.from(header?.replace('Bearer ', '') ?? '');
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOB_ALERTS_CRON_SECRET;
+  if (!secret) {
+    console.error('[jobs/alerts/run] JOB_ALERTS_CRON_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Job alerts not configured on the server' },
+      { status: 500 },
+    );
+  }
+
+  if (!isAuthorized(request.headers.get('Authorization'), secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const started = Date.now();
+    const summary = await runDueJobAlerts();
+    console.log(
+      `[jobs/alerts/run] checked=${summary.alertsChecked} run=${summary.alertsRun} digests=${summary.digestsQueued} new=${summary.newJobs} errors=${summary.errors} ms=${Date.now() - started}`,
+    );
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[jobs/alerts/run]', error);
+    return NextResponse.json({ error: 'Failed to run job alerts' }, { status: 500 });
+  }
+}
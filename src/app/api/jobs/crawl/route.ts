@@ -10,7 +10,8 @@
  * No rate limit — the cache + auth are the natural rate-limiters.
  *
  * Request:  { url: string }
- * Response: { ok, fullText, finalUrl, method, cached, bytes, title, error? }
+ * Response: { ok, fullText, finalUrl, method, cached, bytes, title, error?,
+ *             structured: StructuredJobData | null }
  */
 
 import { NextResponse } from 'next/server';
@@ -73,7 +74,7 @@ export async function POST(request: Request): Promise<Response> {
 
   // Telemetry without leaking the body.
   console.log(
-    `[crawl] uid=${uid} url=${url.slice(0, 120)} method=${result.method} ok=${result.ok} bytes=${result.bytes} cached=${result.cached} ms=${elapsedMs}${result.error ? ' err=' + result.error : ''}`,
+    `[crawl] uid=${uid} url=${url.slice(0, 120)} method=${result.method} ok=${result.ok} bytes=${result.bytes} cached=${result.cached} structured=${result.structured ? Object.keys(result.structured.fieldSources).length : 0} ms=${elapsedMs}${result.error ? ' err=' + result.error : ''}`,
   );
 
   return NextResponse.json({
@@ -86,5 +87,6 @@ export async function POST(request: Request): Promise<Response> {
     bytes: result.bytes,
     cached: result.cached,
     error: result.error,
+    structured: result.structured,
   });
 }
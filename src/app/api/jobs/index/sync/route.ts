@@ -0,0 +1,61 @@
+/**
+ * POST /api/jobs/index/sync
+ *
+ * Scheduled job-index sync. Lists every seeded company board, records new,
+ * changed and closed postings in the `jobs` collection and expires postings
+ * that weren't seen within the TTL (see src/lib/jobs/index-sync.ts).
+ *
+ * Auth: `Authorization: Bearer <JOB_INDEX_CRON_SECRET>`. Triggered by Cloud
+ * Scheduler — hourly keeps the index fresh; boards that don't fit in one run
+ * are picked up first by the next.
+ *
+ * Optional `?company=<companyKey>` syncs a single board (manual refresh).
+ *
+ * Response: JobIndexSyncSummary
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runJobIndexSync } from '@/lib/jobs/index-sync';
+import { getCompanyByKey } from '@/lib/jobs/providers/registry';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+function isAuthorized(header: string | null, secret: string): boolean {
+  const provided = Buffer.from(header?.replace('Bearer ', '') ?? '');
+  const expected = Buffer.from(secret);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOB_INDEX_CRON_SECRET;
+  if (!secret) {
+    console.error('[jobs/index/sync] JOB_INDEX_CRON_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Job index sync not configured on the server' },
+      { status: 500 },
+    );
+  }
+
+  if (!isAuthorized(request.headers.get('Authorization'), secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const companyKey = request.nextUrl.searchParams.get('company') ?? undefined;
+  if (companyKey && !(await getCompanyByKey(companyKey))) {
+    return NextResponse.json({ error: 'Unknown company' }, { status: 404 });
+  }
+
+  try {
+    const started = Date.now();
+    const summary = await runJobIndexSync({ companyKey });
+    console.log(
+      `[jobs/index/sync] synced=${summary.companiesSynced} failed=${summary.companiesFailed} deferred=${summary.companiesDeferred} added=${summary.added} updated=${summary.updated} closed=${summary.closed} expired=${summary.expired} ms=${Date.now() - started}`,
+    );
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('[jobs/index/sync]', error);
+    return NextResponse.json({ error: 'Failed to sync job index' }, { status: 500 });
+  }
+}
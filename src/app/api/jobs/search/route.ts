@@ -1,45 +1,214 @@
 import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
 import { searchJobs } from '@/lib/jobs/search';
-import type { JobSortOption } from '@/lib/jobs/providers/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
+import { rerankJobsForProfile } from '@/lib/ai/job-reranker';
+import { resolveProvider, refundPlatformCredits, ProviderError } from '@/lib/ai/platform-provider';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
+import { checkRateLimit, RATE_LIMITS, getRequestIdentifier } from '@/lib/security/rate-limiter';
+import type { JobSearchResult, JobSortOption } from '@/lib/jobs/providers/types';
+import type { ParsedLinkedIn } from '@/types';
 
 export const runtime = 'nodejs';
 export const revalidate = 300;
 
-const VALID_SORTS: JobSortOption[] = ['recent', 'salary', 'relevance'];
+const VALID_SORTS: JobSortOption[] = ['recent', 'salary', 'relevance', 'match'];
+
+/**
+ * GET: `?profileId=` scores every result against that saved profile and
+ * defaults the sort to `match`. Profile searches are per-user, so they skip
+ * the shared cache.
+ *
+ * POST: the same search, read from a JSON body with the same keys
+ * (`profileId` required), plus an AI re-rank of the top of page 1. Costs a
+ * credit, so it is rate-limited and never triggered by a plain GET.
+ */
+async function loadProfile(
+  request: Request,
+  profileId: string,
+): Promise<{ userId: string; profile: ParsedLinkedIn } | NextResponse> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let userId: string;
+  try {
+    userId = (await getAdminAuth().verifyIdToken(token)).uid;
+  } catch {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  const doc = await getAdminDb()
+    .collection('users')
+    .doc(userId)
+    .collection('profiles')
+    .doc(profileId)
+    .get();
+  const parsedData = doc.exists ? doc.data()?.parsedData : null;
+  if (!parsedData) {
+    return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
+  }
+  return { userId, profile: parsedData as ParsedLinkedIn };
+}
+
+/** Reorders the top of page 1 in place; on any failure the deterministic order stands. */
+async function applyAiRerank(
+  result: JobSearchResult,
+  userId: string,
+  profile: ParsedLinkedIn,
+): Promise<boolean> {
+  if (!result.matches || result.results.length < 2) return false;
+
+  let resolved;
+  try {
+    resolved = await resolveProvider({ userId, operation: 'job-rerank' });
+  } catch (err) {
+    if (err instanceof ProviderError) return false;
+    throw err;
+  }
+
+  try {
+    const { ranking, usage } = await rerankJobsForProfile({
+      profile,
+      jobs: result.results,
+      matches: result.matches,
+      provider: resolved.providerName,
+      apiKey: resolved.apiKey,
+      model: resolved.model,
+    });
+
+    const bySlug = new Map(result.results.map((job) => [job.slug, job]));
+    const reranked = ranking.map((r) => bySlug.get(r.slug)).filter((job) => job !== undefined);
+    const rest = result.results.filter((job) => !ranking.some((r) => r.slug === job.slug));
+    result.results = [...reranked, ...rest];
+    for (const r of ranking) {
+      const match = result.matches[r.slug];
+      if (match) result.matches[r.slug] = { ...match, aiScore: r.score, aiReason: r.reason || undefined };
+    }
+
+    void recordOperationUsage({
+      userId,
+      cvId: null,
+      operation: 'job-rerank',
+      usage: { inputTokens: usage.promptTokens, outputTokens: usage.completionTokens },
+      modelId: resolved.model,
+    });
+    return true;
+  } catch (err) {
+    console.warn('[/api/jobs/search] AI rerank failed', err instanceof Error ? err.message : err);
+    if (resolved.mode === 'platform') {
+      await refundPlatformCredits(userId, 'job-rerank');
+    }
+    return false;
+  }
+}
+
+/** Search filters from query params (GET) or a JSON body of strings (POST). */
+function readSearchParams(params: URLSearchParams) {
+  const pageStr = params.get('page');
+  const salaryMinStr = params.get('salaryMin');
+  const salaryMin = salaryMinStr ? parseInt(salaryMinStr, 10) : undefined;
+  const sortParam = params.get('sort');
+  return {
+    q: params.get('q') ?? undefined,
+    location: params.get('location') ?? undefined,
+    page: pageStr ? Math.max(1, parseInt(pageStr, 10) || 1) : 1,
+    employmentType: params.get('type') ?? undefined,
+    remote: params.get('remote') === '1',
+    inAppOnly: params.get('inApp') === '1',
+    salaryMin: salaryMin && !Number.isNaN(salaryMin) ? salaryMin : undefined,
+    sort: VALID_SORTS.includes(sortParam as JobSortOption) ? (sortParam as JobSortOption) : undefined,
+    profileId: params.get('profileId'),
+    // `?cursor=` (empty for the first page) switches to keyset paging over the job index
+    cursor: params.has('cursor') ? params.get('cursor') ?? '' : undefined,
+  };
+}
 
 export async function GET(request: Request) {
   try {
-    const url = new URL(request.url);
-    const q = url.searchParams.get('q') ?? undefined;
-    const location = url.searchParams.get('location') ?? undefined;
-    const pageStr = url.searchParams.get('page');
-    const employmentType = url.searchParams.get('type') ?? undefined;
-    const remote = url.searchParams.get('remote') === '1';
-    const inAppOnly = url.searchParams.get('inApp') === '1';
-    const salaryMinStr = url.searchParams.get('salaryMin');
-    const salaryMin = salaryMinStr ? parseInt(salaryMinStr, 10) : undefined;
-    const sortParam = url.searchParams.get('sort');
-    const sort = VALID_SORTS.includes(sortParam as JobSortOption)
-      ? (sortParam as JobSortOption)
-      : undefined;
-
-    const page = pageStr ? Math.max(1, parseInt(pageStr, 10) || 1) : 1;
+    const { profileId, cursor, ...filters } = readSearchParams(new URL(request.url).searchParams);
+    let sort = filters.sort;
+
+    let owner: { userId: string; profile: ParsedLinkedIn } | null = null;
+    if (profileId) {
+      const loaded = await loadProfile(request, profileId);
+      if (loaded instanceof NextResponse) return loaded;
+      owner = loaded;
+      sort = sort ?? 'match';
+    } else if (sort === 'match') {
+      return NextResponse.json({ error: 'sort=match requires profileId' }, { status: 400 });
+    }
 
     const result = await searchJobs({
-      q,
-      location,
-      page,
-      employmentType,
-      remote,
-      inAppOnly,
-      salaryMin: salaryMin && !Number.isNaN(salaryMin) ? salaryMin : undefined,
+      ...filters,
       sort,
+      profile: owner?.profile,
+      cursor,
     });
-    return NextResponse.json(result, {
-      headers: {
-        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
-      },
+
+    if (!owner) {
+      return NextResponse.json(result, {
+        headers: {
+          'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+        },
+      });
+    }
+
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'private, no-store' } });
+  } catch (err) {
+    console.error('[/api/jobs/search]', err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Invalid body' }, { status: 400 });
+    }
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+      if (typeof value === 'string' || typeof value === 'number') params.set(key, String(value));
+      else if (typeof value === 'boolean') params.set(key, value ? '1' : '0');
+    }
+    // The re-rank only reorders the first page of the match-sorted list
+    const { profileId, ...filters } = readSearchParams(params);
+    if (!profileId) {
+      return NextResponse.json({ error: 'profileId is required' }, { status: 400 });
+    }
+
+    const loaded = await loadProfile(request, profileId);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const rateLimitResult = await checkRateLimit(
+      getRequestIdentifier(loaded.userId),
+      'job-rerank',
+      RATE_LIMITS.aiGeneration
+    );
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const result = await searchJobs({
+      ...filters,
+      page: 1,
+      cursor: undefined,
+      sort: 'match',
+      profile: loaded.profile,
     });
+    const reranked = await applyAiRerank(result, loaded.userId, loaded.profile);
+    return NextResponse.json(
+      { ...result, reranked },
+      { headers: { 'Cache-Control': 'private, no-store' } },
+    );
   } catch (err) {
     console.error('[/api/jobs/search]', err);
     const message = err instanceof Error ? err.message : 'Unknown error';
@@ -18,7 +18,7 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limiting
     const clientIP = getClientIP(request.headers);
-    const rateLimitResult = checkRateLimit(
+    const rateLimitResult = await checkRateLimit(
       clientIP || 'unknown',
       'mollie-webhook',
       RATE_LIMITS.webhook
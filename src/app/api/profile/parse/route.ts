@@ -75,6 +75,43 @@ const profileSchema = z.object({
       role: z.string().describe('Role in the project, empty string if not specified'),
     })
   ).describe('Projects (personal, open source, academic, portfolio)'),
+  publications: z.array(
+    z.object({
+      title: z.string().describe('Title of the publication or talk'),
+      publisher: z.string().describe('Journal, publisher, conference or event, empty string if not specified'),
+      date: z.string().describe('Publication or talk date, empty string if not specified'),
+      url: z.string().describe('Link (DOI, article, recording), empty string if not found'),
+      description: z.string().describe('Short description, empty string if not available'),
+    })
+  ).describe('Publications, papers, articles, books, talks and presentations'),
+  volunteering: z.array(
+    z.object({
+      role: z.string().describe('Volunteer role'),
+      organization: z.string().describe('Organization name'),
+      cause: z.string().describe('Cause, e.g. "Education" or "Environment", empty string if not specified'),
+      startDate: z.string().describe('Start date, empty string if not specified'),
+      endDate: z.string().describe('End date, empty string if ongoing or not specified'),
+      description: z.string().describe('Description, empty string if not available'),
+    })
+  ).describe('Volunteer work, board memberships and other unpaid roles'),
+  awards: z.array(
+    z.object({
+      title: z.string().describe('Award, honor or grant'),
+      issuer: z.string().describe('Awarding organization, empty string if not specified'),
+      date: z.string().describe('Date received, empty string if not specified'),
+      description: z.string().describe('Description, empty string if not available'),
+    })
+  ).describe('Awards, honors, prizes, scholarships and grants'),
+  references: z.object({
+    onRequest: z.boolean().describe('True when the source says references are available on request'),
+    contacts: z.array(
+      z.object({
+        name: z.string().describe('Name of the referee'),
+        relationship: z.string().describe('Relationship or position, e.g. "Former manager at Acme", empty string if not specified'),
+        contact: z.string().describe('Email or phone of the referee, empty string if not given'),
+      })
+    ).describe('Named referees'),
+  }).describe('References section of the source'),
   interests: z.array(z.string()).describe('Personal interests/hobbies — only items literally listed under a "Hobbies", "Interests", "Interesses", or similar heading. Empty array if no such section is present in the source.'),
 });
 
@@ -188,7 +225,7 @@ EXTRACTION ONLY — NEVER INVENT. This is a pure extraction task. You are readin
 
 - If you don't see it in the source, it doesn't exist. Use empty string / null / empty array.
 - NEVER invent: emails ("firstname@example.com"), phone numbers, websites, LinkedIn URLs, GitHub URLs, dates of birth.
-- NEVER invent skills, certifications, languages, or projects that aren't explicitly listed.
+- NEVER invent skills, certifications, languages, projects, publications, volunteer roles, awards or references that aren't explicitly listed.
 - NEVER fabricate job descriptions. If the source shows a title and company but no description, return an empty description — don't write a generic one based on the title.
 - NEVER infer education from "looks like he/she would have studied X". If the source doesn't show an education entry, return an empty education array.
 - NEVER invent dates. If the source shows "2020-present" return that. Don't guess at start months.
@@ -221,6 +258,10 @@ Fields to extract (only when visible in source):
 - Skills — only skills literally listed in source (don't infer from job titles)
 - Languages and proficiency levels — only languages actually mentioned
 - Certifications — only certifications actually listed
+- Publications and talks — papers, articles, books, conference talks and presentations actually listed
+- Volunteering — volunteer work, board and committee roles actually listed (not paid jobs; those are experience)
+- Awards — awards, honors, prizes, scholarships and grants actually listed
+- References — named referees exactly as listed, and whether the source says "references available on request" ("referenties op aanvraag", "Referenzen auf Anfrage", ...). NEVER invent a referee or their contact details.
 - **Interests/hobbies** — only items listed under a dedicated section heading like "Hobbies", "Interests", "Interesses", "Hobby's". Return them verbatim (e.g. "photography", "mountain biking"). Empty array if no such section exists. NEVER derive hobbies from job descriptions, about-text, or general atmosphere.
 
 Be thorough about extracting what IS there. Be empty/null about what ISN'T there.`;
@@ -294,6 +335,8 @@ Be thorough about extracting what IS there. Be empty/null about what ISN'T there
         'experience', 'werkervaring', 'education', 'opleiding', 'skills',
         'vaardigheden', 'languages', 'talen', 'certifications',
         'licenties en certificaten', 'projects', 'projecten',
+        'publications', 'publicaties', 'volunteering', 'vrijwilligerswerk',
+        'awards', 'prijzen', 'references', 'referenties',
         'curriculum vitae', 'cv', 'resume', 'over mij', 'samenvatting',
         'personalia', 'personal information',
       ]);
@@ -356,6 +399,33 @@ Be thorough about extracting what IS there. Be empty/null about what ISN'T there
           endDate: emptyToNull(proj.endDate),
           role: emptyToNull(proj.role),
         })),
+        publications: (object.publications || []).map(pub => ({
+          title: pub.title,
+          publisher: emptyToNull(pub.publisher),
+          date: emptyToNull(pub.date),
+          url: emptyToNull(pub.url),
+          description: emptyToNull(pub.description),
+        })),
+        volunteering: (object.volunteering || []).map(vol => ({
+          role: vol.role,
+          organization: vol.organization,
+          cause: emptyToNull(vol.cause),
+          startDate: emptyToNull(vol.startDate),
+          endDate: emptyToNull(vol.endDate),
+          description: emptyToNull(vol.description),
+        })),
+        awards: (object.awards || []).map(award => ({
+          title: award.title,
+          issuer: emptyToNull(award.issuer),
+          date: emptyToNull(award.date),
+          description: emptyToNull(award.description),
+        })),
+        references: (object.references?.contacts || []).map(ref => ({
+          name: ref.name,
+          relationship: emptyToNull(ref.relationship),
+          contact: emptyToNull(ref.contact),
+        })),
+        referencesOnRequest: object.references?.onRequest || undefined,
         // Contact info extracted from source (convert empty strings to undefined)
         email: object.contactInfo.email || undefined,
         phone: object.contactInfo.phone || undefined,
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { FieldValue } from 'firebase-admin/firestore';
 import { resolveProvider, ProviderError } from '@/lib/ai/platform-provider';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
 import type { ParsedLinkedIn, TokenUsage, OutputLanguage } from '@/types';
 
 // Schema for LinkedIn-optimized content
@@ -254,6 +255,17 @@ INSTRUCTIES VOOR LINKEDIN OPTIMALISATIE:
         completionTokens: usage.outputTokens ?? 0,
       } : undefined;
 
+      void recordOperationUsage({
+        userId,
+        cvId: null,
+        operation: 'linkedin-export',
+        usage: {
+          inputTokens: tokenUsage?.promptTokens ?? 0,
+          outputTokens: tokenUsage?.completionTokens ?? 0,
+        },
+        modelId: userModel,
+      });
+
       return NextResponse.json({
         success: true,
         linkedInContent: object,
@@ -2,15 +2,23 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { profileSaveRequestSchema, validateRequestBody, isValidationError } from '@/lib/validation/schemas';
+import { exportProfileDocument, isProfileInterchangeFormat } from '@/lib/linkedin/interchange';
 import type { SavedProfile, ParsedLinkedIn } from '@/types';
 
 // GET - Get a specific profile
+// `?format=json-resume|europass-xml|europass-json` downloads it in that
+// interchange format instead (deterministic conversion, no AI/credits).
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format');
+
+    if (format !== null && !isProfileInterchangeFormat(format)) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 });
+    }
 
     // Get auth token
     const cookieStore = await cookies();
@@ -58,6 +66,21 @@ export async function GET(
       updatedAt: data.updatedAt instanceof Date ? data.updatedAt : data.updatedAt?.toDate?.() || new Date(),
     };
 
+    if (format) {
+      const locale = request.nextUrl.searchParams.get('locale') || 'en';
+      const exported = exportProfileDocument(profile, format, locale);
+      const slug = (profile.name || profile.parsedData.fullName || 'profile')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+      return new NextResponse(exported.body, {
+        headers: {
+          'Content-Type': exported.contentType,
+          'Content-Disposition': `attachment; filename="${slug || 'profile'}-${format}.${exported.extension}"`,
+        },
+      });
+    }
+
     return NextResponse.json({
       success: true,
       profile,
@@ -0,0 +1,82 @@
+/**
+ * PATCH  /api/recipes/[route]/[name] — replace a personal recipe's spec
+ * DELETE /api/recipes/[route]/[name] — delete a personal recipe
+ *
+ * Organisation recipes are managed by admins under
+ * /api/admin/organizations/[orgId]/recipes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import {
+  deleteStoredRecipe,
+  updateStoredRecipe,
+  StoredRecipeError,
+} from '@/lib/cv-engine/recipes/stored';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ route: string; name: string }>;
+}
+
+function getToken(request: NextRequest): string | null {
+  return (
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '') ||
+    null
+  );
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  let body: { spec?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { route, name } = await params;
+  try {
+    const recipe = await updateStoredRecipe('user', userId, `${route}/${name}`, body.spec);
+    return NextResponse.json({ success: true, recipe });
+  } catch (error) {
+    if (error instanceof StoredRecipeError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: error.statusCode });
+    }
+    console.error('[recipes] update failed:', error);
+    return NextResponse.json({ error: 'Failed to update recipe' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  const { route, name } = await params;
+  try {
+    const deleted = await deleteStoredRecipe('user', userId, `${route}/${name}`);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[recipes] delete failed:', error);
+    return NextResponse.json({ error: 'Failed to delete recipe' }, { status: 500 });
+  }
+}
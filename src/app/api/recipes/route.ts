@@ -0,0 +1,72 @@
+/**
+ * GET  /api/recipes — stored recipes the user may pick (own + organisation)
+ * POST /api/recipes — save a personal recipe
+ *
+ * POST body: { spec } — a DesignSpec without `id`; the id is assigned here.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromToken } from '@/lib/firebase/admin-utils';
+import {
+  createStoredRecipe,
+  listStoredRecipes,
+  StoredRecipeError,
+} from '@/lib/cv-engine/recipes/stored';
+
+export const runtime = 'nodejs';
+
+function getToken(request: NextRequest): string | null {
+  return (
+    request.cookies.get('firebase-token')?.value ||
+    request.headers.get('Authorization')?.replace('Bearer ', '') ||
+    null
+  );
+}
+
+export async function GET(request: NextRequest) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  try {
+    const recipes = await listStoredRecipes(userId);
+    return NextResponse.json({ success: true, recipes });
+  } catch (error) {
+    console.error('[recipes] list failed:', error);
+    return NextResponse.json({ error: 'Failed to load recipes' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const token = getToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = await getUserIdFromToken(token);
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
+  }
+
+  let body: { spec?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const recipe = await createStoredRecipe('user', userId, body.spec);
+    return NextResponse.json({ success: true, recipe }, { status: 201 });
+  } catch (error) {
+    if (error instanceof StoredRecipeError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: error.statusCode });
+    }
+    console.error('[recipes] create failed:', error);
+    return NextResponse.json({ error: 'Failed to save recipe' }, { status: 500 });
+  }
+}
@@ -50,12 +50,40 @@ export async function DELETE() {
       batch.delete(doc.ref);
     });
 
+    // 1b. Delete CV version history (full content snapshots). One batch per
+    // CV — a CV holds at most MAX_CV_VERSIONS, well under the batch limit.
+    await Promise.all(cvsSnapshot.docs.map(async (doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+      const versions = await doc.ref.collection('versions').select().get();
+      if (versions.empty) return;
+      const versionBatch = adminDb.batch();
+      versions.docs.forEach(v => versionBatch.delete(v.ref));
+      await versionBatch.commit();
+    }));
+
+    // 1c. Delete public share links pointing at those CVs
+    const sharesSnapshot = await adminDb.collection('cvShares').where('userId', '==', userId).get();
+    sharesSnapshot.docs.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+      batch.delete(doc.ref);
+    });
+
     // 2. Delete all profiles
     const profilesSnapshot = await adminDb.collection('users').doc(userId).collection('profiles').get();
     profilesSnapshot.docs.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
       batch.delete(doc.ref);
     });
 
+    // 2b. Delete stored design recipes
+    const recipesSnapshot = await adminDb.collection('users').doc(userId).collection('recipes').get();
+    recipesSnapshot.docs.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+      batch.delete(doc.ref);
+    });
+
+    // 2c. Delete saved job alerts, so the alert cron stops picking them up
+    const jobAlertsSnapshot = await adminDb.collection('users').doc(userId).collection('jobAlerts').get();
+    jobAlertsSnapshot.docs.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
+      batch.delete(doc.ref);
+    });
+
     // 3. Delete all transactions
     const transactionsSnapshot = await adminDb.collection('users').doc(userId).collection('transactions').get();
     transactionsSnapshot.docs.forEach((doc: FirebaseFirestore.QueryDocumentSnapshot) => {
@@ -40,13 +40,14 @@ export async function GET() {
   }
 
   const userRef = adminDb.collection('users').doc(userId);
-  const [userSnap, profilesSnap, cvsSnap, transactionsSnap, applicationsSnap, feedbackSnap] = await Promise.all([
+  const [userSnap, profilesSnap, cvsSnap, transactionsSnap, applicationsSnap, feedbackSnap, recipesSnap] = await Promise.all([
     userRef.get(),
     userRef.collection('profiles').get(),
     userRef.collection('cvs').get(),
     userRef.collection('transactions').get(),
     userRef.collection('applications').get().catch(() => null),
     userRef.collection('feedback').get().catch(() => null),
+    userRef.collection('recipes').get().catch(() => null),
   ]);
 
   const account = userSnap.exists ? userSnap.data() ?? {} : {};
@@ -72,6 +73,7 @@ export async function GET() {
     transactions: serializeDocs(transactionsSnap),
     applications: serializeDocs(applicationsSnap),
     feedback: serializeDocs(feedbackSnap),
+    recipes: serializeDocs(recipesSnap),
     notes: {
       portability: 'AVG art. 20 — gestructureerd, gangbaar en machineleesbaar formaat (JSON).',
       excludedFields: ['encryptedApiKey', 'apiKeyIv', 'apiKeyTag'],
@@ -0,0 +1,87 @@
+/**
+ * GET /api/share/[token]/pdf
+ *
+ * PDF download from a public share link — only when the owner enabled
+ * "allow PDF download" and, for protected links, the access cookie is
+ * present. Renders the stored CV exactly like the owner's download.
+ * Public — rate-limited per IP.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { generatePDF } from '@/lib/pdf/generator';
+import { loadRecipesForRender } from '@/lib/cv-engine/recipes/stored';
+import {
+  checkRateLimit,
+  RATE_LIMITS,
+  getRequestIdentifier,
+  getClientIP,
+} from '@/lib/security/rate-limiter';
+import {
+  getSharedCVRenderInput,
+  hasShareAccess,
+  resolveShareToken,
+  shareAccessCookieName,
+} from '@/lib/cv/share';
+import type { CVDesignTokens } from '@/types/design-tokens';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> },
+) {
+  try {
+    const { token } = await context.params;
+
+    const rateLimitResult = await checkRateLimit(
+      getRequestIdentifier(undefined, getClientIP(request.headers)),
+      'share-pdf',
+      RATE_LIMITS.pdfGeneration,
+    );
+    if (!rateLimitResult.allowed) {
+      return NextResponse.json(
+        { error: 'Too many PDF requests. Please wait and try again.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimitResult.retryAfter || 60) } },
+      );
+    }
+
+    const resolution = await resolveShareToken(token);
+    if (resolution.status !== 'ok') {
+      return NextResponse.json({ error: 'Link is niet (meer) geldig' }, { status: 404 });
+    }
+    const { share, cv } = resolution;
+    if (!hasShareAccess(share, request.cookies.get(shareAccessCookieName(share.id))?.value)) {
+      return NextResponse.json({ error: 'Wachtwoord vereist' }, { status: 403 });
+    }
+    if (!share.allowPdfDownload) {
+      return NextResponse.json({ error: 'PDF-download is niet toegestaan voor deze link' }, { status: 403 });
+    }
+
+    const input = getSharedCVRenderInput(cv);
+    const customRecipes = await loadRecipesForRender(input.tokens, share.userId);
+    const pdfBuffer = await generatePDF(
+      input.content,
+      input.fullName,
+      input.tokens as CVDesignTokens,
+      input.avatarUrl,
+      input.headline,
+      input.overrides,
+      input.contactInfo,
+      undefined,
+      undefined,
+      input.locale,
+      customRecipes,
+    );
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="cv-${input.fullName.toLowerCase().replace(/\s+/g, '-')}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Shared PDF generation error:', error);
+    return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * POST /api/share/[token]/unlock
+ *
+ * Password gate for protected share links. On a correct password, sets an
+ * httpOnly access cookie scoped to this share and the /s/[token] page
+ * renders the CV. Public — rate-limited per IP like the auth endpoints.
+ *
+ * Body: { password: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  checkRateLimit,
+  RATE_LIMITS,
+  getRequestIdentifier,
+  getClientIP,
+} from '@/lib/security/rate-limiter';
+import {
+  resolveShareToken,
+  shareAccessCookieName,
+  shareAccessCookieValue,
+  verifySharePassword,
+} from '@/lib/cv/share';
+
+export const runtime = 'nodejs';
+
+const ACCESS_COOKIE_MAX_AGE = 12 * 60 * 60; // 12 hours
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> },
+) {
+  const { token } = await context.params;
+
+  const rateLimitResult = await checkRateLimit(
+    getRequestIdentifier(undefined, getClientIP(request.headers)),
+    'share-unlock',
+    RATE_LIMITS.auth,
+  );
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: 'Te veel pogingen. Probeer het later opnieuw.' },
+      { status: 429, headers: { 'Retry-After': String(rateLimitResult.retryAfter || 60) } },
+    );
+  }
+
+  const resolution = await resolveShareToken(token);
+  if (resolution.status !== 'ok') {
+    return NextResponse.json({ error: 'Link is niet (meer) geldig' }, { status: 404 });
+  }
+  const { share } = resolution;
+  if (!share.passwordHash) {
+    return NextResponse.json({ ok: true });
+  }
+
+  const body = await request.json().catch(() => null);
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!password || !verifySharePassword(password, share.passwordHash)) {
+    return NextResponse.json({ error: 'Onjuist wachtwoord' }, { status: 403 });
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(shareAccessCookieName(share.id), shareAccessCookieValue(share.id, share.passwordHash), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: ACCESS_COOKIE_MAX_AGE,
+  });
+  return response;
+}
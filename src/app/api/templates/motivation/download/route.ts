@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getAdminAuth } from '@/lib/firebase/admin';
 import { generateMotivationLetterPDF, generateMotivationLetterDOCX } from '@/lib/pdf/motivation-letter-generator';
+import { isPaperSize } from '@/lib/cv/paper-size';
+import { isOutputLanguage } from '@/types/language';
 import { getDefaultTokens } from '@/lib/cv/html-generator';
 import type { GeneratedMotivationLetter, ParsedLinkedIn, JobVacancy } from '@/types';
 
@@ -62,6 +64,7 @@ export async function POST(request: NextRequest) {
       senderPhone: linkedInData?.phone,
       senderLocation: linkedInData?.location || undefined,
       recipientCompany: jobVacancy?.company || undefined,
+      language: isOutputLanguage(body.language) ? body.language : undefined,
     };
 
     // Generate file based on format
@@ -81,7 +84,7 @@ export async function POST(request: NextRequest) {
 
     if (format === 'pdf') {
       // PDF format with default styling
-      const pdfBuffer = await generateMotivationLetterPDF(letterData, tokens);
+      const pdfBuffer = await generateMotivationLetterPDF(letterData, tokens, isPaperSize(body.paperSize) ? body.paperSize : null);
 
       return new NextResponse(new Uint8Array(pdfBuffer), {
         status: 200,
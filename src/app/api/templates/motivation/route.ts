@@ -4,6 +4,7 @@ import { getAdminAuth, getAdminDb } from '@/lib/firebase/admin';
 import { generateMotivationLetter } from '@/lib/ai/motivation-generator';
 import { FieldValue } from 'firebase-admin/firestore';
 import { resolveProvider, ProviderError } from '@/lib/ai/platform-provider';
+import { recordOperationUsage } from '@/lib/ai/usage-tracker';
 import type {
   GeneratedCVContent,
   ParsedLinkedIn,
@@ -154,6 +155,17 @@ export async function POST(request: NextRequest) {
       createdAt: new Date(),
     });
 
+    void recordOperationUsage({
+      userId,
+      cvId: null,
+      operation: 'motivation-letter',
+      usage: {
+        inputTokens: usage?.promptTokens ?? 0,
+        outputTokens: usage?.completionTokens ?? 0,
+      },
+      modelId: resolved.model,
+    });
+
     return NextResponse.json({
       success: true,
       letter,
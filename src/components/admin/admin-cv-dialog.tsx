@@ -15,6 +15,7 @@ import { generateCVHTML, getDefaultTokens } from '@/lib/cv/html-generator';
 import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
 import type { GeneratedCVContent, CVStyleConfig } from '@/types';
 import type { CVDesignTokens } from '@/types/design-tokens';
+import { LANGUAGE_LABELS, isOutputLanguage } from '@/types/language';
 import type { AdminCV } from '@/lib/firebase/admin-utils';
 import { useAuth } from '@/components/auth/auth-context';
 
@@ -297,7 +298,7 @@ export function AdminCVDialog({ cv, open, onOpenChange }: AdminCVDialogProps) {
                 {cvData.language ? (
                   <>
                     <span className="text-muted-foreground">Taal</span>
-                    <span>{String(cvData.language) === 'nl' ? 'Nederlands' : 'Engels'}</span>
+                    <span>{isOutputLanguage(cvData.language) ? LANGUAGE_LABELS[cvData.language] : String(cvData.language)}</span>
                   </>
                 ) : null}
               </div>
@@ -0,0 +1,364 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CheckCircle2, Loader2, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import type {
+  AdminJobCompany,
+  BoardValidation,
+  CompanyRegistryListing,
+} from '@/lib/jobs/company-registry';
+import type { JobSourceProvider } from '@/lib/jobs/providers/types';
+
+const PROVIDERS: Array<{ key: JobSourceProvider; label: string; hint: string }> = [
+  { key: 'greenhouse', label: 'Greenhouse', hint: 'boards.greenhouse.io/<token>' },
+  { key: 'lever', label: 'Lever', hint: 'jobs.lever.co/<site>' },
+  { key: 'recruitee', label: 'Recruitee', hint: '<subdomein>.recruitee.com' },
+  { key: 'workable', label: 'Workable', hint: 'apply.workable.com/<account>' },
+  { key: 'ashby', label: 'Ashby', hint: 'jobs.ashbyhq.com/<bord>' },
+  { key: 'smartrecruiters', label: 'SmartRecruiters', hint: 'jobs.smartrecruiters.com/<Bedrijf>' },
+  { key: 'personio', label: 'Personio', hint: '<subdomein>.jobs.personio.de' },
+  { key: 'teamtailor', label: 'Teamtailor', hint: '<subdomein>.teamtailor.com' },
+];
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString('nl-NL', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function HealthBadge({ company }: { company: AdminJobCompany }) {
+  const { errorRate, lastError } = company.health;
+  if (!company.enabled) return <Badge variant="outline">uitgeschakeld</Badge>;
+  if (errorRate === null) return <Badge variant="secondary">nog niet gesynct</Badge>;
+  const pct = `${Math.round(errorRate * 100)}% fouten`;
+  if (errorRate >= 0.5) return <Badge variant="destructive" title={lastError ?? undefined}>{pct}</Badge>;
+  if (errorRate > 0) return <Badge variant="secondary" title={lastError ?? undefined}>{pct}</Badge>;
+  return <Badge variant="default">gezond</Badge>;
+}
+
+export function JobCompaniesSection() {
+  const [listing, setListing] = useState<CompanyRegistryListing | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const [provider, setProvider] = useState<JobSourceProvider>('greenhouse');
+  const [companyId, setCompanyId] = useState('');
+  const [name, setName] = useState('');
+  const [validation, setValidation] = useState<BoardValidation | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [adding, setAdding] = useState(false);
+
+  const fetchCompanies = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/admin/job-companies');
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Laden mislukt: ${text || response.statusText}`);
+      }
+      setListing((await response.json()) as CompanyRegistryListing);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Laden mislukt');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCompanies();
+  }, [fetchCompanies]);
+
+  const readError = async (response: Response, fallback: string) => {
+    const data = await response.json().catch(() => null);
+    return (data?.error as string | undefined) ?? fallback;
+  };
+
+  const handleValidate = async () => {
+    if (!companyId.trim()) return;
+    try {
+      setValidating(true);
+      setValidation(null);
+      const response = await fetch('/api/admin/job-companies/validate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, companyId }),
+      });
+      if (!response.ok) throw new Error(await readError(response, 'Testen mislukt'));
+      setValidation((await response.json()) as BoardValidation);
+    } catch (err) {
+      setValidation({ ok: false, jobCount: 0, sampleTitles: [], error: err instanceof Error ? err.message : 'Testen mislukt' });
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!companyId.trim() || !name.trim()) return;
+    try {
+      setAdding(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/admin/job-companies', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, companyId, name }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        if (data?.validation) setValidation(data.validation as BoardValidation);
+        throw new Error((data?.error as string | undefined) ?? 'Toevoegen mislukt');
+      }
+      const data = (await response.json()) as { validation: BoardValidation };
+      setMessage(`${name.trim()} toegevoegd (${data.validation.jobCount} vacatures). Synchroniseer om ze direct te tonen.`);
+      setCompanyId('');
+      setName('');
+      setValidation(null);
+      await fetchCompanies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Toevoegen mislukt');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const runAction = async (company: AdminJobCompany, action: 'toggle' | 'sync' | 'delete') => {
+    if (action === 'delete' && !confirm(`${company.name} verwijderen? Open vacatures worden gesloten.`)) return;
+    try {
+      setBusyKey(company.companyKey);
+      setError(null);
+      setMessage(null);
+      const base = `/api/admin/job-companies/${encodeURIComponent(company.companyKey)}`;
+      const response = action === 'sync'
+        ? await fetch(`${base}/sync`, { method: 'POST' })
+        : action === 'delete'
+          ? await fetch(base, { method: 'DELETE' })
+          : await fetch(base, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ enabled: !company.enabled }),
+            });
+      if (!response.ok) throw new Error(await readError(response, 'Actie mislukt'));
+      if (action === 'sync') {
+        const summary = await response.json();
+        setMessage(
+          summary.companiesFailed > 0
+            ? `${company.name}: synchronisatie mislukt, zie de foutmelding in de tabel.`
+            : `${company.name}: ${summary.added} nieuw, ${summary.updated} gewijzigd, ${summary.closed} gesloten.`,
+        );
+      }
+      await fetchCompanies();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Actie mislukt');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const hint = PROVIDERS.find((p) => p.key === provider)?.hint;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Bron toevoegen</CardTitle>
+          <CardDescription>
+            Het bord wordt eerst opgehaald via de provider; alleen een werkend bord wordt opgeslagen.
+            Nieuwe bronnen verschijnen na de volgende sync in de vacaturebank.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-1.5">
+              <Label>Provider</Label>
+              <Select
+                value={provider}
+                onValueChange={(value) => {
+                  setProvider(value as JobSourceProvider);
+                  setValidation(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROVIDERS.map((p) => (
+                    <SelectItem key={p.key} value={p.key}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="company-board">Bord-id</Label>
+              <Input
+                id="company-board"
+                value={companyId}
+                onChange={(e) => {
+                  setCompanyId(e.target.value);
+                  setValidation(null);
+                }}
+                placeholder={hint}
+                className="font-mono text-sm"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="company-name">Bedrijfsnaam</Label>
+              <Input
+                id="company-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Adyen"
+              />
+            </div>
+          </div>
+
+          {validation && (
+            <div className={`flex items-start gap-2 text-sm ${validation.ok ? 'text-emerald-600 dark:text-emerald-400' : 'text-destructive'}`}>
+              {validation.ok ? <CheckCircle2 className="mt-0.5 h-4 w-4" /> : <XCircle className="mt-0.5 h-4 w-4" />}
+              <span>
+                {validation.ok
+                  ? `${validation.jobCount} vacatures gevonden${validation.sampleTitles.length > 0 ? ` — o.a. ${validation.sampleTitles.join(', ')}` : ''}`
+                  : validation.error}
+              </span>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleValidate}
+              disabled={validating || !companyId.trim()}
+            >
+              {validating ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-1 h-4 w-4" />}
+              Testen
+            </Button>
+            <Button
+              type="button"
+              onClick={handleAdd}
+              disabled={adding || !companyId.trim() || !name.trim()}
+            >
+              {adding ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Plus className="mr-1 h-4 w-4" />}
+              Toevoegen
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Geregistreerde bronnen</CardTitle>
+          <CardDescription>
+            {listing?.source === 'seed'
+              ? 'Nog geen eigen lijst: dit is de ingebouwde standaardlijst. De eerste wijziging neemt hem over in Firestore.'
+              : 'Foutpercentage over de laatste 20 syncs. Uitschakelen of verwijderen sluit de vacatures van het bord direct.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {(error || message) && (
+            <p className={`mb-4 text-sm ${error ? 'text-destructive' : 'text-emerald-600 dark:text-emerald-400'}`}>
+              {error ?? message}
+            </p>
+          )}
+          {loading && !listing ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Laden…
+            </div>
+          ) : listing && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bedrijf</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Vacatures</TableHead>
+                  <TableHead>Laatste succes</TableHead>
+                  <TableHead>Actief</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {listing.companies.map((company) => {
+                  const busy = busyKey === company.companyKey;
+                  return (
+                    <TableRow key={company.companyKey}>
+                      <TableCell>
+                        <div className="font-medium">{company.name}</div>
+                        <div className="font-mono text-xs text-muted-foreground">{company.companyId}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{company.provider}</TableCell>
+                      <TableCell>
+                        <HealthBadge company={company} />
+                        {company.health.lastError && (
+                          <div className="mt-1 max-w-[240px] truncate text-xs text-muted-foreground" title={company.health.lastError}>
+                            {company.health.lastError}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{company.health.openJobs ?? '—'}</TableCell>
+                      <TableCell className="text-sm">{formatDate(company.health.lastSuccessAt)}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={company.enabled}
+                          disabled={busy}
+                          onCheckedChange={() => runAction(company, 'toggle')}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            title="Nu synchroniseren"
+                            disabled={busy || !company.enabled}
+                            onClick={() => runAction(company, 'sync')}
+                          >
+                            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            title="Verwijderen"
+                            disabled={busy}
+                            onClick={() => runAction(company, 'delete')}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
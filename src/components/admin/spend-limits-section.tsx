@@ -0,0 +1,328 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Check, Loader2, RefreshCw, Save } from 'lucide-react';
+import type { SpendLimits } from '@/lib/ai/platform-config';
+import type { SpendAlert, SpendOverview } from '@/lib/ai/spend-guard';
+
+const LIMIT_FIELDS: Array<{ key: keyof SpendLimits; label: string; description: string; step: string }> = [
+  { key: 'userDailyUsd', label: 'Daglimiet per gebruiker (USD)', description: 'Daarna wordt platform AI voor die gebruiker gepauzeerd tot middernacht (UTC). 0 = uit.', step: '0.5' },
+  { key: 'globalDailyUsd', label: 'Daglimiet platform (USD)', description: 'Totaal over alle gebruikers. Daarna wordt platform AI voor iedereen gepauzeerd. 0 = uit.', step: '5' },
+  { key: 'anomalyMultiplier', label: 'Afwijkingsfactor', description: 'Melding als een dag zoveel keer boven de normale actieve dag van de gebruiker ligt. 0 = uit.', step: '0.5' },
+  { key: 'anomalyMinUsd', label: 'Minimum voor melding (USD)', description: 'Onder dit dagbedrag nooit een afwijkingsmelding, ook zonder historie.', step: '0.5' },
+];
+
+const ALERT_LABELS: Record<SpendAlert['type'], string> = {
+  'user-cap': 'daglimiet gebruiker',
+  'global-cap': 'daglimiet platform',
+  anomaly: 'afwijkend verbruik',
+};
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString('nl-NL', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function SpendLimitsSection() {
+  const [overview, setOverview] = useState<SpendOverview | null>(null);
+  const [alerts, setAlerts] = useState<SpendAlert[]>([]);
+  const [draft, setDraft] = useState<Record<keyof SpendLimits, string> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [acknowledging, setAcknowledging] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSpend = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/admin/spend');
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Laden mislukt: ${text || response.statusText}`);
+      }
+      const data = (await response.json()) as { overview: SpendOverview; alerts: SpendAlert[] };
+      setOverview(data.overview);
+      setAlerts(data.alerts);
+      setDraft(
+        Object.fromEntries(
+          LIMIT_FIELDS.map(({ key }) => [key, String(data.overview.limits[key])]),
+        ) as Record<keyof SpendLimits, string>,
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Laden mislukt');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSpend();
+  }, [fetchSpend]);
+
+  const dirtyFields = overview && draft
+    ? LIMIT_FIELDS.map((f) => f.key).filter((key) => Number(draft[key]) !== overview.limits[key])
+    : [];
+
+  const handleSave = async () => {
+    if (!draft || dirtyFields.length === 0) return;
+
+    const payload: Partial<SpendLimits> = {};
+    for (const key of dirtyFields) {
+      const value = Number(draft[key]);
+      if (draft[key].trim() === '' || !Number.isFinite(value) || value < 0) {
+        setError('Limieten moeten getallen van 0 of hoger zijn.');
+        return;
+      }
+      payload[key] = value;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/admin/platform-config', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ spendLimits: payload }),
+      });
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Opslaan mislukt: ${text || response.statusText}`);
+      }
+      const data = (await response.json()) as { config: { spendLimits: SpendLimits } };
+      setOverview((prev) => (prev ? { ...prev, limits: data.config.spendLimits } : prev));
+      setMessage('Limieten bijgewerkt.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Opslaan mislukt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAcknowledge = async (id: string) => {
+    try {
+      setAcknowledging(id);
+      const response = await fetch(`/api/admin/spend/alerts/${encodeURIComponent(id)}`, { method: 'PATCH' });
+      if (!response.ok) throw new Error('Bijwerken mislukt');
+      setAlerts((prev) =>
+        prev.map((a) => (a.id === id ? { ...a, acknowledgedAt: new Date().toISOString() } : a)),
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bijwerken mislukt');
+    } finally {
+      setAcknowledging(null);
+    }
+  };
+
+  const globalCap = overview?.limits.globalDailyUsd ?? 0;
+  const globalPct = overview && globalCap > 0 ? Math.min(100, (overview.global.costUsd / globalCap) * 100) : 0;
+  const openAlerts = alerts.filter((a) => !a.acknowledgedAt).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>Dagelijkse uitgavelimieten</CardTitle>
+              <CardDescription>
+                Plafonds op het werkelijke tokenverbruik van platform-users, los van hun credits.
+                Dagen lopen in UTC; de server cached de limieten 5 minuten.
+              </CardDescription>
+            </div>
+            <Button type="button" variant="outline" size="sm" onClick={fetchSpend} disabled={loading}>
+              <RefreshCw className={`mr-1 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              Vernieuwen
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading && !overview ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Laden…
+            </div>
+          ) : !overview || !draft ? (
+            <div className="text-destructive">{error ?? 'Verbruik niet beschikbaar.'}</div>
+          ) : (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <div className="flex items-baseline justify-between text-sm">
+                  <span>
+                    Vandaag ({overview.date}): <strong>{usd(overview.global.costUsd)}</strong> over{' '}
+                    {overview.global.calls} aanroep{overview.global.calls === 1 ? '' : 'en'}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {globalCap > 0 ? `limiet ${usd(globalCap)}` : 'geen platformlimiet'}
+                  </span>
+                </div>
+                {globalCap > 0 && <Progress value={globalPct} />}
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                {LIMIT_FIELDS.map(({ key, label, description, step }) => (
+                  <div key={key} className="grid gap-1.5">
+                    <Label htmlFor={`spend-${key}`}>{label}</Label>
+                    <p className="text-xs text-muted-foreground">{description}</p>
+                    <Input
+                      id={`spend-${key}`}
+                      type="number"
+                      min="0"
+                      step={step}
+                      value={draft[key]}
+                      onChange={(e) => {
+                        setDraft((prev) => (prev ? { ...prev, [key]: e.target.value } : prev));
+                        setMessage(null);
+                      }}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  {error && <span className="text-destructive">{error}</span>}
+                  {message && !error && <span className="text-emerald-600 dark:text-emerald-400">{message}</span>}
+                </div>
+                <Button type="button" onClick={handleSave} disabled={saving || dirtyFields.length === 0}>
+                  {saving ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Save className="mr-1 h-4 w-4" />}
+                  Opslaan
+                </Button>
+              </div>
+
+              {overview.topUsers.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium">Grootste verbruikers vandaag</h3>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Gebruiker</TableHead>
+                        <TableHead className="text-right">Aanroepen</TableHead>
+                        <TableHead className="text-right">Verbruik</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {overview.topUsers.map((u) => {
+                        const overCap = overview.limits.userDailyUsd > 0 && u.costUsd >= overview.limits.userDailyUsd;
+                        return (
+                          <TableRow key={u.userId}>
+                            <TableCell>
+                              <div className="text-sm">{u.email ?? '—'}</div>
+                              <div className="font-mono text-xs text-muted-foreground">{u.userId}</div>
+                            </TableCell>
+                            <TableCell className="text-right">{u.calls}</TableCell>
+                            <TableCell className="text-right">
+                              {overCap ? <Badge variant="destructive">{usd(u.costUsd)}</Badge> : usd(u.costUsd)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Verbruiksmeldingen{openAlerts > 0 ? ` (${openAlerts} open)` : ''}</CardTitle>
+          <CardDescription>
+            Bereikte limieten en afwijkend verbruik ten opzichte van de eigen baseline van een gebruiker.
+            Meldingen gaan ook per mail naar ADMIN_ALERT_EMAIL.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Geen meldingen.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Gebruiker</TableHead>
+                  <TableHead className="text-right">Verbruik</TableHead>
+                  <TableHead className="text-right">Drempel</TableHead>
+                  <TableHead>Moment</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => (
+                  <TableRow key={alert.id} className={alert.acknowledgedAt ? 'opacity-60' : undefined}>
+                    <TableCell>
+                      <Badge variant={alert.type === 'anomaly' ? 'secondary' : 'destructive'}>
+                        {ALERT_LABELS[alert.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {alert.userId ? (
+                        <>
+                          <div className="text-sm">{alert.userEmail ?? '—'}</div>
+                          <div className="font-mono text-xs text-muted-foreground">{alert.userId}</div>
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">platform</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{usd(alert.costUsd)}</TableCell>
+                    <TableCell className="text-right">
+                      {usd(alert.thresholdUsd)}
+                      {alert.baselineUsd !== null && (
+                        <div className="text-xs text-muted-foreground">normaal {usd(alert.baselineUsd)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(alert.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {alert.acknowledgedAt ? (
+                        <span className="text-xs text-muted-foreground">afgehandeld</span>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleAcknowledge(alert.id)}
+                          disabled={acknowledging === alert.id}
+                        >
+                          {acknowledging === alert.id ? (
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Check className="mr-1 h-4 w-4" />
+                          )}
+                          Afhandelen
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
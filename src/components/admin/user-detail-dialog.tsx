@@ -40,6 +40,7 @@ import {
   CreditCard,
   FileText,
   Eye,
+  Building2,
 } from 'lucide-react';
 import { useAuth } from '@/components/auth/auth-context';
 import type { AdminUser } from '@/lib/firebase/admin-utils';
@@ -70,6 +71,9 @@ export function UserDetailDialog({
   const [assignedTemplateIds, setAssignedTemplateIds] = useState<string[]>([]);
   const [templatesSaving, setTemplatesSaving] = useState(false);
   const [templatesLoaded, setTemplatesLoaded] = useState(false);
+  // Unsaved organisation edit, tied to the user it was typed for
+  const [organizationDraft, setOrganizationDraft] = useState<{ uid: string; value: string } | null>(null);
+  const [organizationSaving, setOrganizationSaving] = useState(false);
 
   // Fetch global templates and user assignments when dialog opens
   useEffect(() => {
@@ -195,6 +199,30 @@ export function UserDetailDialog({
     }
   };
 
+  const organizationValue =
+    organizationDraft?.uid === user.uid ? organizationDraft.value : user.organizationId ?? '';
+
+  const handleSaveOrganization = async () => {
+    setOrganizationSaving(true);
+    try {
+      const value = organizationValue.trim().toLowerCase();
+      const response = await fetch(`/api/admin/users/${user.uid}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: value || null }),
+      });
+
+      if (!response.ok) throw new Error('Failed to update organization');
+
+      setOrganizationDraft(null);
+      onUserUpdated();
+    } catch (error) {
+      console.error('Failed to update organization:', error);
+    } finally {
+      setOrganizationSaving(false);
+    }
+  };
+
   const handleToggleTemplate = (templateId: string) => {
     setAssignedTemplateIds(prev =>
       prev.includes(templateId)
@@ -375,6 +403,39 @@ export function UserDetailDialog({
 
           <Separator />
 
+          {/* Organisation Section */}
+          <div className="space-y-4">
+            <h3 className="font-semibold flex items-center gap-2">
+              <Building2 className="h-4 w-4" />
+              {t('userDialog.organization')}
+            </h3>
+            <p className="text-sm text-muted-foreground">{t('userDialog.organizationDesc')}</p>
+            <div className="flex gap-2">
+              <Input
+                placeholder={t('userDialog.organizationPlaceholder')}
+                value={organizationValue}
+                onChange={(e) => setOrganizationDraft({ uid: user.uid, value: e.target.value })}
+                className="max-w-[240px]"
+              />
+              <Button
+                onClick={handleSaveOrganization}
+                disabled={organizationSaving || organizationValue === (user.organizationId ?? '')}
+                size="sm"
+              >
+                {organizationSaving ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <>
+                    <Save className="h-4 w-4 mr-1" />
+                    {t('userDialog.templatesSave')}
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
           {/* Templates Section */}
           <div className="space-y-4">
             <h3 className="font-semibold flex items-center gap-2">
@@ -0,0 +1,323 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { INTERVIEW_TYPE_LABELS } from '@/lib/applications/timeline';
+import type {
+  ApplicationEventType,
+  ApplicationOffer,
+  ApplicationRecord,
+  InterviewType,
+} from '@/types/application';
+
+type LoggableType = Exclude<ApplicationEventType, 'status_change'>;
+
+const EVENT_TYPES: Array<{ value: LoggableType; label: string }> = [
+  { value: 'interview', label: 'Gesprek inplannen' },
+  { value: 'email', label: 'E-mail' },
+  { value: 'offer', label: 'Aanbod' },
+  { value: 'note', label: 'Notitie' },
+];
+
+const DURATIONS = [30, 45, 60, 90, 120, 180];
+
+/** `<input type="datetime-local">` value for a date, in local time. */
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+const selectClass = 'w-full rounded-md border bg-background px-3 py-2 text-sm';
+
+interface AddEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  application: ApplicationRecord | null;
+  onAdded: (application: ApplicationRecord) => void;
+}
+
+export function AddEventDialog({ open, onOpenChange, application, onAdded }: AddEventDialogProps) {
+  const [type, setType] = useState<LoggableType>('interview');
+  const [at, setAt] = useState('');
+  const [note, setNote] = useState('');
+  const [interviewType, setInterviewType] = useState<InterviewType>('video');
+  const [duration, setDuration] = useState(60);
+  const [interviewer, setInterviewer] = useState('');
+  const [location, setLocation] = useState('');
+  const [direction, setDirection] = useState<'sent' | 'received'>('sent');
+  const [subject, setSubject] = useState('');
+  const [salary, setSalary] = useState('');
+  const [period, setPeriod] = useState<ApplicationOffer['period']>('yearly');
+  const [respondBy, setRespondBy] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    // Interviews are usually planned a few days out; everything else is logged "now".
+    const start = new Date();
+    start.setDate(start.getDate() + 2);
+    start.setHours(10, 0, 0, 0);
+    setType('interview');
+    setAt(toLocalInput(start));
+    setNote('');
+    setInterviewType('video');
+    setDuration(60);
+    setInterviewer('');
+    setLocation('');
+    setDirection('sent');
+    setSubject('');
+    setSalary('');
+    setPeriod('yearly');
+    setRespondBy('');
+    setError(null);
+  }, [open]);
+
+  const changeType = (next: LoggableType) => {
+    setType(next);
+    if (next !== 'interview') setAt(toLocalInput(new Date()));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!application) return;
+    if (type === 'note' && !note.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/applications/${application.id}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          at: at ? new Date(at).toISOString() : undefined,
+          note: note.trim() || undefined,
+          ...(type === 'interview'
+            ? {
+                interview: {
+                  type: interviewType,
+                  durationMinutes: duration,
+                  interviewer: interviewer.trim() || undefined,
+                  location: location.trim() || undefined,
+                },
+              }
+            : {}),
+          ...(type === 'email' ? { direction, subject: subject.trim() || undefined } : {}),
+          ...(type === 'offer'
+            ? {
+                offer: {
+                  salary: salary ? Number(salary) : undefined,
+                  currency: 'EUR',
+                  period,
+                  respondBy: respondBy || undefined,
+                },
+              }
+            : {}),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Opslaan mislukt');
+      onAdded(data.application);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Opslaan mislukt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Toevoegen aan tijdlijn</DialogTitle>
+          {application && (
+            <DialogDescription>
+              {application.jobTitle}
+              {application.jobCompany ? ` bij ${application.jobCompany}` : ''}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="event-type">Soort</Label>
+              <select
+                id="event-type"
+                value={type}
+                onChange={(e) => changeType(e.target.value as LoggableType)}
+                className={selectClass}
+              >
+                {EVENT_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-at">{type === 'interview' ? 'Datum en tijd' : 'Datum'}</Label>
+              <Input
+                id="event-at"
+                type="datetime-local"
+                value={at}
+                onChange={(e) => setAt(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {type === 'interview' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="interview-type">Vorm</Label>
+                  <select
+                    id="interview-type"
+                    value={interviewType}
+                    onChange={(e) => setInterviewType(e.target.value as InterviewType)}
+                    className={selectClass}
+                  >
+                    {(Object.keys(INTERVIEW_TYPE_LABELS) as InterviewType[]).map((t) => (
+                      <option key={t} value={t}>
+                        {INTERVIEW_TYPE_LABELS[t]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="interview-duration">Duur</Label>
+                  <select
+                    id="interview-duration"
+                    value={duration}
+                    onChange={(e) => setDuration(Number(e.target.value))}
+                    className={selectClass}
+                  >
+                    {DURATIONS.map((d) => (
+                      <option key={d} value={d}>
+                        {d} minuten
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="interview-interviewer">Met wie</Label>
+                <Input
+                  id="interview-interviewer"
+                  value={interviewer}
+                  onChange={(e) => setInterviewer(e.target.value)}
+                  placeholder="Bijv. Sanne de Vries (recruiter)"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="interview-location">Locatie of link</Label>
+                <Input
+                  id="interview-location"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  placeholder="Adres of Teams/Meet-link"
+                />
+              </div>
+            </>
+          )}
+
+          {type === 'email' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="email-direction">Richting</Label>
+                <select
+                  id="email-direction"
+                  value={direction}
+                  onChange={(e) => setDirection(e.target.value as 'sent' | 'received')}
+                  className={selectClass}
+                >
+                  <option value="sent">Verstuurd</option>
+                  <option value="received">Ontvangen</option>
+                </select>
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="email-subject">Onderwerp</Label>
+                <Input
+                  id="email-subject"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === 'offer' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="offer-salary">Salaris (€)</Label>
+                <Input
+                  id="offer-salary"
+                  type="number"
+                  min={0}
+                  value={salary}
+                  onChange={(e) => setSalary(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-period">Per</Label>
+                <select
+                  id="offer-period"
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value as ApplicationOffer['period'])}
+                  className={selectClass}
+                >
+                  <option value="yearly">Jaar</option>
+                  <option value="monthly">Maand</option>
+                  <option value="hourly">Uur</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offer-respond">Reageren vóór</Label>
+                <Input
+                  id="offer-respond"
+                  type="date"
+                  value={respondBy}
+                  onChange={(e) => setRespondBy(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="event-note">{type === 'note' ? 'Notitie' : 'Notitie (optioneel)'}</Label>
+            <Textarea
+              id="event-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              required={type === 'note'}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Annuleren
+            </Button>
+            <Button type="submit" disabled={saving || (type === 'note' && !note.trim())}>
+              {saving ? '...' : 'Opslaan'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowRight, CalendarClock, Gift, Mail, StickyNote, Trash2 } from 'lucide-react';
+import type { ApplicationEvent, ApplicationOffer, ApplicationRecord } from '@/types/application';
+import { INTERVIEW_TYPE_LABELS, sortEvents } from '@/lib/applications/timeline';
+import { getStatusMeta } from './status-meta';
+
+const PERIOD_LABELS: Record<ApplicationOffer['period'], string> = {
+  yearly: 'per jaar',
+  monthly: 'per maand',
+  hourly: 'per uur',
+};
+
+function formatDateTime(iso: string, withTime: boolean): string {
+  const date = new Date(iso);
+  return withTime
+    ? date.toLocaleString('nl-NL', { dateStyle: 'medium', timeStyle: 'short' })
+    : date.toLocaleDateString('nl-NL', { dateStyle: 'medium' });
+}
+
+function formatSalary(offer: ApplicationOffer): string | null {
+  if (offer.salary === undefined) return null;
+  const amount = offer.salary.toLocaleString('nl-NL', {
+    style: 'currency',
+    currency: offer.currency,
+    maximumFractionDigits: offer.period === 'hourly' ? 2 : 0,
+  });
+  return `${amount} ${PERIOD_LABELS[offer.period]}`;
+}
+
+function EventIcon({ type }: { type: ApplicationEvent['type'] }) {
+  const className = 'h-3.5 w-3.5';
+  switch (type) {
+    case 'status_change':
+      return <ArrowRight className={className} />;
+    case 'email':
+      return <Mail className={className} />;
+    case 'interview':
+      return <CalendarClock className={className} />;
+    case 'offer':
+      return <Gift className={className} />;
+    default:
+      return <StickyNote className={className} />;
+  }
+}
+
+function describe(event: ApplicationEvent): { title: string; detail: string | null } {
+  switch (event.type) {
+    case 'status_change':
+      return {
+        title: `${getStatusMeta(event.fromStatus ?? 'applied').label} → ${getStatusMeta(event.toStatus ?? 'applied').label}`,
+        detail: null,
+      };
+    case 'email':
+      return {
+        title: event.direction === 'received' ? 'E-mail ontvangen' : 'E-mail verstuurd',
+        detail: event.subject ?? null,
+      };
+    case 'interview': {
+      const interview = event.interview;
+      if (!interview) return { title: 'Gesprek', detail: null };
+      return {
+        title: `Gesprek ronde ${interview.round} · ${INTERVIEW_TYPE_LABELS[interview.type]}`,
+        detail: [
+          `${interview.durationMinutes} min`,
+          interview.interviewer ? `met ${interview.interviewer}` : null,
+          interview.location,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      };
+    }
+    case 'offer': {
+      const offer = event.offer;
+      return {
+        title: 'Aanbod ontvangen',
+        detail: offer
+          ? [
+              formatSalary(offer),
+              offer.respondBy ? `reageren vóór ${formatDateTime(offer.respondBy, false)}` : null,
+            ]
+              .filter(Boolean)
+              .join(' · ') || null
+          : null,
+      };
+    }
+    default:
+      return { title: 'Notitie', detail: null };
+  }
+}
+
+interface ApplicationTimelineProps {
+  application: ApplicationRecord;
+  onDelete?: (eventId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Vertical timeline of one application: the (implicit) send date followed
+ * by every logged event. Future interviews are highlighted.
+ */
+export function ApplicationTimeline({ application, onDelete, disabled }: ApplicationTimelineProps) {
+  const [now] = useState(() => Date.now());
+  const events = sortEvents(application.events);
+
+  return (
+    <ol className="relative space-y-3 border-l pl-4 text-sm">
+      <li className="relative">
+        <span className="absolute -left-[21px] top-0.5 flex h-2.5 w-2.5 rounded-full bg-blue-500" />
+        <p className="font-medium">Sollicitatie verzonden</p>
+        <p className="text-xs text-muted-foreground">{formatDateTime(application.appliedAt, false)}</p>
+      </li>
+      {events.map((event) => {
+        const { title, detail } = describe(event);
+        const upcoming = event.type === 'interview' && Date.parse(event.at) > now;
+        return (
+          <li key={event.id} className="group relative">
+            <span
+              className={`absolute -left-[25px] top-0 flex h-4 w-4 items-center justify-center rounded-full border bg-background ${
+                upcoming ? 'border-amber-500 text-amber-600' : 'text-muted-foreground'
+              }`}
+            >
+              <EventIcon type={event.type} />
+            </span>
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className={`font-medium ${upcoming ? 'text-amber-700' : ''}`}>{title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDateTime(event.at, event.type === 'interview')}
+                  {upcoming && ' · gepland'}
+                </p>
+                {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+                {event.note && <p className="mt-0.5 text-xs whitespace-pre-line">{event.note}</p>}
+              </div>
+              {onDelete && event.type !== 'status_change' && (
+                <button
+                  onClick={() => onDelete(event.id)}
+                  disabled={disabled}
+                  className="rounded p-1 text-muted-foreground opacity-0 transition-opacity hover:text-destructive group-hover:opacity-100"
+                  aria-label="Verwijderen"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
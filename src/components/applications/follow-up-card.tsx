@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { BellRing, Loader2, MailCheck } from 'lucide-react';
+import { Link } from '@/i18n/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { daysSinceActivity, isFollowUpDue } from '@/lib/applications/timeline';
+import type { ApplicationRecord } from '@/types/application';
+
+interface FollowUpCardProps {
+  applications: ApplicationRecord[];
+  onUpdated: (application: ApplicationRecord) => void;
+}
+
+/**
+ * Applications that have been quiet for longer than their follow-up
+ * window. Logging the follow-up mail resets the clock; reminders can also
+ * be switched off per application.
+ */
+export function FollowUpCard({ applications, onUpdated }: FollowUpCardProps) {
+  const [saving, setSaving] = useState<string | null>(null);
+  const now = new Date();
+  const due = applications
+    .filter((app) => isFollowUpDue(app, now))
+    .sort((a, b) => daysSinceActivity(b, now) - daysSinceActivity(a, now));
+
+  if (due.length === 0) return null;
+
+  const logFollowUp = async (app: ApplicationRecord) => {
+    setSaving(app.id);
+    try {
+      const res = await fetch(`/api/applications/${app.id}/events`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'email', direction: 'sent', subject: 'Follow-up' }),
+      });
+      const data = await res.json();
+      if (res.ok) onUpdated(data.application);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const mute = async (app: ApplicationRecord) => {
+    setSaving(app.id);
+    try {
+      const res = await fetch(`/api/applications/${app.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ followUpAfterDays: null }),
+      });
+      const data = await res.json();
+      if (res.ok) onUpdated(data.application);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card className="border-amber-300 bg-amber-50/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <BellRing className="h-4 w-4 text-amber-600" />
+          Tijd om op te volgen
+        </CardTitle>
+        <CardDescription>
+          Bij deze sollicitaties heb je al een tijd niets gehoord. Een korte, vriendelijke mail
+          laat zien dat je nog steeds interesse hebt.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2 pt-0">
+        {due.map((app) => (
+          <div
+            key={app.id}
+            className="flex flex-col gap-2 rounded-md border bg-background p-3 sm:flex-row sm:items-center sm:justify-between"
+          >
+            <div className="min-w-0">
+              <Link href={`/jobs/${app.jobSlug}`} className="font-medium hover:underline">
+                {app.jobTitle}
+              </Link>
+              <p className="text-xs text-muted-foreground">
+                {app.jobCompany ? `${app.jobCompany} · ` : ''}
+                al {daysSinceActivity(app, now)} dagen niets gehoord
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <Button size="sm" onClick={() => logFollowUp(app)} disabled={saving === app.id}>
+                {saving === app.id ? (
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                ) : (
+                  <MailCheck className="h-3 w-3 mr-1" />
+                )}
+                Follow-up verstuurd
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => mute(app)}
+                disabled={saving === app.id}
+              >
+                Niet meer herinneren
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
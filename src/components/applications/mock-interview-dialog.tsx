@@ -0,0 +1,374 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  AlertCircle,
+  Bot,
+  ChevronDown,
+  ChevronUp,
+  Coins,
+  Loader2,
+  Mic,
+  RotateCw,
+  Send,
+  TriangleAlert,
+  User,
+} from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/components/auth/auth-context';
+import { useMockInterview } from '@/hooks/use-mock-interview';
+import { averageAnswerScore, MOCK_INTERVIEW_QUESTIONS } from '@/lib/applications/mock-interview';
+import type {
+  ApplicationRecord,
+  MockInterviewDebrief,
+  MockInterviewEvaluation,
+  MockInterviewTranscript,
+  StarElement,
+} from '@/types/application';
+
+const STAR_LABELS: Record<StarElement, string> = {
+  situation: 'S',
+  task: 'T',
+  action: 'A',
+  result: 'R',
+};
+
+function scoreClass(score: number, max: number): string {
+  const ratio = score / max;
+  if (ratio >= 0.75) return 'text-emerald-700';
+  if (ratio >= 0.5) return 'text-amber-700';
+  return 'text-destructive';
+}
+
+function getMessageText(message: { parts: Array<{ type: string; text?: string }> }): string {
+  return message.parts
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('');
+}
+
+function EvaluationItem({ evaluation }: { evaluation: MockInterviewEvaluation }) {
+  return (
+    <li className="rounded-md border p-3 text-sm space-y-1">
+      <div className="flex items-start justify-between gap-2">
+        <span className="font-medium">{evaluation.question}</span>
+        <span className={`shrink-0 font-semibold ${scoreClass(evaluation.score, 5)}`}>
+          {evaluation.score}/5
+        </span>
+      </div>
+      <div className="flex gap-1">
+        {(Object.keys(STAR_LABELS) as StarElement[]).map((el) => (
+          <Badge
+            key={el}
+            variant={evaluation.starCovered.includes(el) ? 'default' : 'outline'}
+            className="h-5 w-5 justify-center p-0 text-[10px]"
+          >
+            {STAR_LABELS[el]}
+          </Badge>
+        ))}
+      </div>
+      {evaluation.feedback && <p className="text-muted-foreground">{evaluation.feedback}</p>}
+      {evaluation.unsupportedClaims.length > 0 && (
+        <p className="text-xs text-amber-700">
+          Niet terug te vinden in je profiel: {evaluation.unsupportedClaims.join('; ')}
+        </p>
+      )}
+    </li>
+  );
+}
+
+function DebriefView({
+  debrief,
+  evaluations,
+}: {
+  debrief: MockInterviewDebrief | null;
+  evaluations: MockInterviewEvaluation[];
+}) {
+  return (
+    <div className="space-y-4">
+      {debrief && (
+        <div className="space-y-3 rounded-lg border bg-muted/30 p-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Nabespreking</h3>
+            <span className={`text-2xl font-bold ${scoreClass(debrief.overallScore, 100)}`}>
+              {debrief.overallScore}
+              <span className="text-sm font-normal text-muted-foreground">/100</span>
+            </span>
+          </div>
+          <p className="text-sm">{debrief.summary}</p>
+          <div className="grid gap-3 sm:grid-cols-2 text-sm">
+            <div>
+              <p className="font-medium text-emerald-700">Sterk</p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {debrief.strengths.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </div>
+            <div>
+              <p className="font-medium text-amber-700">Beter kan</p>
+              <ul className="list-disc pl-5 space-y-0.5">
+                {debrief.improvements.map((s, i) => <li key={i}>{s}</li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+      {evaluations.length > 0 && (
+        <ul className="space-y-2">
+          {evaluations.map((evaluation, i) => (
+            <EvaluationItem key={i} evaluation={evaluation} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function PastSession({ transcript }: { transcript: MockInterviewTranscript }) {
+  const [open, setOpen] = useState(false);
+  const average = averageAnswerScore(transcript.evaluations);
+
+  return (
+    <li className="rounded-md border">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between gap-2 p-3 text-left text-sm"
+      >
+        <span>
+          {new Date(transcript.startedAt).toLocaleDateString('nl-NL', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+          {transcript.round && <span className="text-muted-foreground"> · ronde {transcript.round}</span>}
+        </span>
+        <span className="flex items-center gap-2">
+          {transcript.debrief ? (
+            <span className={`font-semibold ${scoreClass(transcript.debrief.overallScore, 100)}`}>
+              {transcript.debrief.overallScore}/100
+            </span>
+          ) : (
+            <span className="text-xs text-muted-foreground">
+              Niet afgerond{average !== null ? ` · gem. ${average}/5` : ''}
+            </span>
+          )}
+          {open ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </span>
+      </button>
+      {open && (
+        <div className="border-t p-3">
+          <DebriefView debrief={transcript.debrief} evaluations={transcript.evaluations} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+function MockInterviewSession({ application }: { application: ApplicationRecord }) {
+  const { llmMode, refreshCredits } = useAuth();
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    start,
+    restart,
+    isLoading,
+    error,
+    evaluations,
+    debrief,
+    creditWarning,
+    totalChars,
+  } = useMockInterview({
+    applicationId: application.id,
+    // Credits are deducted server-side per turn
+    onTurnFinished: () => {
+      if (llmMode === 'platform') void refreshCredits();
+    },
+  });
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, debrief]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      if (input.trim() && !isLoading) {
+        handleSubmit(e as unknown as React.FormEvent<HTMLFormElement>);
+      }
+    }
+  };
+
+  if (messages.length === 0) {
+    return (
+      <div className="flex-1 overflow-y-auto space-y-4">
+        <p className="text-sm text-muted-foreground">
+          De interviewer stelt {MOCK_INTERVIEW_QUESTIONS} vragen op basis van de vacature en de
+          aandachtspunten uit je fit-analyse, één voor één. Elk antwoord wordt getoetst aan je
+          profiel; aan het eind krijg je een nabespreking met score.
+        </p>
+        <Button onClick={start} disabled={isLoading}>
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mic className="mr-2 h-4 w-4" />}
+          Start proefgesprek
+        </Button>
+        {error && (
+          <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-lg">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <p>{error.message || 'Er is een fout opgetreden. Probeer het opnieuw.'}</p>
+          </div>
+        )}
+        {application.mockInterviews.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Eerdere proefgesprekken</h4>
+            <ul className="space-y-2">
+              {application.mockInterviews.map((transcript) => (
+                <PastSession key={transcript.id} transcript={transcript} />
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const average = averageAnswerScore(evaluations);
+  // Skip the scripted opener so the conversation starts with the interviewer
+  const visibleMessages = messages.slice(1);
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          Vraag {Math.min(evaluations.length + (debrief ? 0 : 1), MOCK_INTERVIEW_QUESTIONS)} van {MOCK_INTERVIEW_QUESTIONS}
+          {average !== null && <> · gemiddeld <span className={scoreClass(average, 5)}>{average}/5</span></>}
+        </span>
+        <Button variant="ghost" size="sm" onClick={restart} className="h-7 text-xs">
+          <RotateCw className="mr-1 h-3 w-3" />
+          Nieuw gesprek
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+        {visibleMessages.map((message) => {
+          const textContent = getMessageText(message as { parts: Array<{ type: string; text?: string }> });
+          if (!textContent) return null;
+          return (
+            <div
+              key={message.id}
+              className={`flex gap-3 ${message.role === 'user' ? 'flex-row-reverse' : ''}`}
+            >
+              <div
+                className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+                  message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                }`}
+              >
+                {message.role === 'user' ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+              </div>
+              <div
+                className={`text-sm rounded-lg p-3 max-w-[85%] ${
+                  message.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{textContent}</p>
+              </div>
+            </div>
+          );
+        })}
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>De interviewer denkt na...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 text-sm text-destructive bg-destructive/10 rounded-lg">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <p>{error.message || 'Er is een fout opgetreden. Probeer het opnieuw.'}</p>
+          </div>
+        )}
+
+        {debrief && <DebriefView debrief={debrief} evaluations={evaluations} />}
+
+        <div ref={messagesEndRef} />
+      </div>
+
+      {llmMode === 'platform' && creditWarning && (
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-950/30 rounded-md">
+          <TriangleAlert className="h-3.5 w-3.5 flex-shrink-0" />
+          <span>Je volgende antwoord kost waarschijnlijk 1 extra credit.</span>
+        </div>
+      )}
+
+      {!debrief && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Textarea
+            value={input}
+            onChange={handleInputChange}
+            onKeyDown={handleKeyDown}
+            placeholder="Jouw antwoord..."
+            className="min-h-[44px] max-h-[160px] resize-none"
+            disabled={isLoading}
+            rows={2}
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!input.trim() || isLoading}
+            className="h-[44px] w-[44px] flex-shrink-0"
+          >
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </form>
+      )}
+      {llmMode === 'platform' && (
+        <p className="text-xs text-muted-foreground text-center inline-flex items-center justify-center">
+          <Coins className="h-3 w-3 mr-1" />
+          {(totalChars / 1000).toFixed(1)}k tekens · 1 credit per 8k
+        </p>
+      )}
+    </>
+  );
+}
+
+interface MockInterviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  application: ApplicationRecord | null;
+}
+
+/**
+ * Practice interview with an AI interviewer for an application's vacancy.
+ * Transcripts are stored on the application server-side; the page reloads
+ * the list on close so the history is current.
+ */
+export function MockInterviewDialog({ open, onOpenChange, application }: MockInterviewDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl h-[85vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle>Proefgesprek</DialogTitle>
+          <DialogDescription>
+            {application
+              ? `${application.jobTitle}${application.jobCompany ? ` bij ${application.jobCompany}` : ''}`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+        {application && <MockInterviewSession key={application.id} application={application} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
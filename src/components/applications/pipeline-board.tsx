@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  closestCorners,
+  PointerSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+  type DragStartEvent,
+  type DragOverEvent,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { PipelineColumn } from './pipeline-column';
+import { PipelineCard } from './pipeline-card';
+import { APPLICATION_STATUSES } from './status-meta';
+import type { ApplicationRecord, ApplicationStatus } from '@/types/application';
+
+interface PipelineBoardProps {
+  applications: ApplicationRecord[];
+  /** Persists the move; the page rolls back its own state on failure. */
+  onMove: (id: string, status: ApplicationStatus) => void;
+  onAddEvent: (application: ApplicationRecord) => void;
+}
+
+/**
+ * Kanban view of the application pipeline — one column per status, cards
+ * dragged between columns change the status. Same interaction model as the
+ * admin kanban (desktop grid, tabs on mobile).
+ */
+export function PipelineBoard({ applications, onMove, onAddEvent }: PipelineBoardProps) {
+  // Local copy so cards can hop columns while dragging, before the drop is saved.
+  const [cards, setCards] = useState<ApplicationRecord[]>(applications);
+  const [activeCard, setActiveCard] = useState<ApplicationRecord | null>(null);
+  const [activeTab, setActiveTab] = useState<string>(APPLICATION_STATUSES[0].value);
+
+  useEffect(() => {
+    setCards(applications);
+  }, [applications]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } })
+  );
+
+  const getCardsByStatus = (status: ApplicationStatus) =>
+    cards
+      .filter((c) => c.status === status)
+      .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+
+  const statusFromOver = (overId: string): ApplicationStatus | null => {
+    if (overId.startsWith('column-')) return overId.replace('column-', '') as ApplicationStatus;
+    return cards.find((c) => c.id === overId)?.status ?? null;
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const card = cards.find((c) => c.id === event.active.id);
+    if (card) setActiveCard(card);
+  };
+
+  const handleDragOver = (event: DragOverEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+    const overStatus = statusFromOver(over.id as string);
+    if (!overStatus) return;
+    setCards((prev) =>
+      prev.map((c) => (c.id === active.id && c.status !== overStatus ? { ...c, status: overStatus } : c))
+    );
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveCard(null);
+    const { active, over } = event;
+    const original = applications.find((a) => a.id === active.id);
+    if (!original) return;
+
+    const targetStatus = over ? statusFromOver(over.id as string) : null;
+    if (!targetStatus || targetStatus === original.status) {
+      setCards(applications);
+      return;
+    }
+    onMove(original.id, targetStatus);
+  };
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={closestCorners}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragEnd={handleDragEnd}
+      onDragCancel={() => {
+        setActiveCard(null);
+        setCards(applications);
+      }}
+    >
+      {/* Desktop grid */}
+      <div
+        className="hidden md:grid gap-3 overflow-x-auto pb-4"
+        style={{
+          gridTemplateColumns: `repeat(${APPLICATION_STATUSES.length}, minmax(220px, 1fr))`,
+        }}
+      >
+        {APPLICATION_STATUSES.map((status) => (
+          <PipelineColumn
+            key={status.value}
+            status={status}
+            applications={getCardsByStatus(status.value)}
+            onAddEvent={onAddEvent}
+          />
+        ))}
+      </div>
+
+      {/* Mobile tabs */}
+      <div className="md:hidden">
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="w-full justify-start overflow-x-auto">
+            {APPLICATION_STATUSES.map((status) => (
+              <TabsTrigger key={status.value} value={status.value} className="text-xs">
+                <span
+                  className="mr-1.5 inline-block size-2 rounded-full"
+                  style={{ backgroundColor: status.accent }}
+                />
+                {status.label}
+                <span className="ml-1 text-muted-foreground">
+                  ({getCardsByStatus(status.value).length})
+                </span>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {APPLICATION_STATUSES.map((status) => (
+            <TabsContent key={status.value} value={status.value}>
+              <PipelineColumn
+                status={status}
+                applications={getCardsByStatus(status.value)}
+                onAddEvent={onAddEvent}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+
+      <DragOverlay>
+        {activeCard ? (
+          <PipelineCard application={activeCard} onAddEvent={() => {}} isOverlay />
+        ) : null}
+      </DragOverlay>
+    </DndContext>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { BellRing, Building2, CalendarClock, GripVertical, Plus } from 'lucide-react';
+import { Link } from '@/i18n/navigation';
+import { isFollowUpDue, upcomingInterviews } from '@/lib/applications/timeline';
+import type { ApplicationRecord } from '@/types/application';
+
+interface PipelineCardProps {
+  application: ApplicationRecord;
+  onAddEvent: (application: ApplicationRecord) => void;
+  isOverlay?: boolean;
+}
+
+export function PipelineCard({ application, onAddEvent, isOverlay }: PipelineCardProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({
+    id: application.id,
+    data: { type: 'application', application },
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+
+  const nextInterview = upcomingInterviews(application)[0];
+  const followUpDue = isFollowUpDue(application);
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`group relative rounded-lg border bg-card p-3 shadow-sm hover:shadow-md transition-shadow ${
+        isOverlay ? 'rotate-2 opacity-90 shadow-lg' : ''
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        <button
+          className="mt-0.5 cursor-grab touch-none text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+          aria-label="Verslepen"
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="size-4" />
+        </button>
+        <div className="flex-1 min-w-0">
+          <Link
+            href={`/jobs/${application.jobSlug}`}
+            className="text-sm font-medium line-clamp-2 hover:underline"
+          >
+            {application.jobTitle}
+          </Link>
+          {application.jobCompany && (
+            <p className="mt-1 inline-flex items-center gap-1 text-xs text-muted-foreground">
+              <Building2 className="size-3" />
+              {application.jobCompany}
+            </p>
+          )}
+          {(nextInterview || followUpDue) && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {nextInterview && (
+                <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-medium text-amber-800">
+                  <CalendarClock className="size-3" />
+                  {new Date(nextInterview.at).toLocaleString('nl-NL', {
+                    dateStyle: 'short',
+                    timeStyle: 'short',
+                  })}
+                </span>
+              )}
+              {followUpDue && (
+                <span className="inline-flex items-center gap-1 rounded-full bg-orange-100 px-2 py-0.5 text-[10px] font-medium text-orange-800">
+                  <BellRing className="size-3" />
+                  Opvolgen
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={() => onAddEvent(application)}
+          className="rounded p-1 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground hover:bg-accent transition-opacity"
+          aria-label="Toevoegen aan tijdlijn"
+        >
+          <Plus className="size-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { PipelineCard } from './pipeline-card';
+import type { APPLICATION_STATUSES } from './status-meta';
+import type { ApplicationRecord } from '@/types/application';
+
+interface PipelineColumnProps {
+  status: (typeof APPLICATION_STATUSES)[number];
+  applications: ApplicationRecord[];
+  onAddEvent: (application: ApplicationRecord) => void;
+}
+
+export function PipelineColumn({ status, applications, onAddEvent }: PipelineColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `column-${status.value}`,
+    data: { type: 'column', status: status.value },
+  });
+
+  return (
+    <div className="flex flex-col min-w-[220px] w-full">
+      <div
+        className="rounded-t-lg border-t-[3px] px-3 py-2 flex items-center gap-2"
+        style={{ borderTopColor: status.accent }}
+      >
+        <h3 className="text-sm font-semibold">{status.label}</h3>
+        <span className="inline-flex items-center justify-center rounded-full bg-muted px-2 py-0.5 text-xs font-medium text-muted-foreground">
+          {applications.length}
+        </span>
+      </div>
+      <SortableContext items={applications.map((a) => a.id)} strategy={verticalListSortingStrategy}>
+        <div
+          ref={setNodeRef}
+          className={`flex-1 space-y-2 rounded-b-lg border border-t-0 p-2 min-h-[100px] transition-colors ${
+            isOver ? 'bg-accent/50' : 'bg-muted/30'
+          }`}
+        >
+          {applications.length === 0 ? (
+            <p className="py-8 text-center text-xs text-muted-foreground">Sleep hier een sollicitatie heen</p>
+          ) : (
+            applications.map((app) => (
+              <PipelineCard key={app.id} application={app} onAddEvent={onAddEvent} />
+            ))
+          )}
+        </div>
+      </SortableContext>
+    </div>
+  );
+}
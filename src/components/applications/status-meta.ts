@@ -0,0 +1,20 @@
+import type { ApplicationStatus } from '@/types/application';
+
+export const APPLICATION_STATUSES: Array<{
+  value: ApplicationStatus;
+  label: string;
+  color: string;
+  /** Column accent on the pipeline board. */
+  accent: string;
+}> = [
+  { value: 'applied', label: 'Verzonden', color: 'bg-blue-100 text-blue-800', accent: '#3b82f6' },
+  { value: 'interview', label: 'Gesprek', color: 'bg-amber-100 text-amber-800', accent: '#f59e0b' },
+  { value: 'offer', label: 'Aanbod', color: 'bg-purple-100 text-purple-800', accent: '#a855f7' },
+  { value: 'accepted', label: 'Aangenomen', color: 'bg-green-100 text-green-800', accent: '#22c55e' },
+  { value: 'rejected', label: 'Afgewezen', color: 'bg-red-100 text-red-800', accent: '#ef4444' },
+  { value: 'withdrawn', label: 'Ingetrokken', color: 'bg-gray-100 text-gray-800', accent: '#9ca3af' },
+];
+
+export function getStatusMeta(status: ApplicationStatus) {
+  return APPLICATION_STATUSES.find((s) => s.value === status) ?? APPLICATION_STATUSES[0];
+}
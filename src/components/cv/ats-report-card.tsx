@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  RotateCw,
+  ScanText,
+  XCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useAuth } from '@/components/auth/auth-context';
+import { ATS_WARNING_THRESHOLD } from '@/lib/cv/ats-check';
+import { getRecipeATSScore } from '@/lib/cv-engine/recipes/ats-scores';
+import type { ATSCheckId, ATSCheckStatus, ATSReport } from '@/types';
+
+interface ATSReportCardProps {
+  cvId: string;
+  report: ATSReport | null | undefined;
+  /** Recipe of the current style, for the benchmark score before a first check. */
+  recipeId?: string | null;
+  onChecked: (report: ATSReport) => void;
+}
+
+const CHECK_LABELS: Record<ATSCheckId, string> = {
+  'text-layer': 'Leesbare tekst',
+  name: 'Naam',
+  contact: 'Contactgegevens',
+  headings: 'Sectiekoppen',
+  dates: 'Periodes',
+  'reading-order': 'Leesvolgorde',
+};
+
+const STATUS_ICONS: Record<ATSCheckStatus, React.ReactNode> = {
+  pass: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  warn: <AlertCircle className="h-4 w-4 text-amber-600" />,
+  fail: <XCircle className="h-4 w-4 text-red-600" />,
+};
+
+function scoreColor(score: number): string {
+  if (score >= 85) return 'text-green-600';
+  if (score >= ATS_WARNING_THRESHOLD) return 'text-amber-600';
+  return 'text-red-600';
+}
+
+export function ATSReportCard({ cvId, report, recipeId, onChecked }: ATSReportCardProps) {
+  const { refreshToken } = useAuth();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const benchmark = recipeId ? getRecipeATSScore(recipeId) : undefined;
+
+  const runCheck = async () => {
+    setIsChecking(true);
+    try {
+      const token = await refreshToken();
+      const response = await fetch(`/api/cv/${cvId}/ats`, {
+        method: 'POST',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'ATS-controle mislukt');
+      onChecked(data.report);
+      setIsExpanded(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex flex-1 items-center justify-between text-left"
+            disabled={!report}
+          >
+            <CardTitle className="flex items-center gap-2 text-base">
+              <ScanText className="h-5 w-5" />
+              ATS-leesbaarheid
+            </CardTitle>
+            {report && (
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={scoreColor(report.score)}>
+                  {report.score}/100
+                </Badge>
+                {isExpanded ? (
+                  <ChevronUp className="h-4 w-4 text-muted-foreground" />
+                ) : (
+                  <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                )}
+              </div>
+            )}
+          </button>
+          <Button variant="outline" size="sm" onClick={runCheck} disabled={isChecking}>
+            {isChecking ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCw className="mr-2 h-4 w-4" />
+            )}
+            {report ? 'Opnieuw controleren' : 'Controleren'}
+          </Button>
+        </div>
+        {!report && (
+          <p className="text-sm text-muted-foreground">
+            Controleer of een sollicitatiesysteem (Workday, Greenhouse, …) je naam, contactgegevens,
+            periodes en secties correct uit de PDF haalt.
+            {benchmark !== undefined && benchmark < ATS_WARNING_THRESHOLD && (
+              <> Deze stijl scoort in onze test {benchmark}/100.</>
+            )}
+          </p>
+        )}
+      </CardHeader>
+
+      {report && isExpanded && (
+        <CardContent className="space-y-4 pt-0">
+          <div className="space-y-2">
+            <Progress value={report.score} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              Gecontroleerd op{' '}
+              {new Date(report.checkedAt).toLocaleString('nl-NL', {
+                day: 'numeric',
+                month: 'short',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+              {' · '}
+              {report.pageCount} {report.pageCount === 1 ? 'pagina' : "pagina's"}
+              {report.score < ATS_WARNING_THRESHOLD && ' · kies een rustiger stijl voor online sollicitaties'}
+            </p>
+          </div>
+
+          <ul className="space-y-2">
+            {report.checks.map(check => (
+              <li key={check.id} className="flex items-start gap-2 text-sm">
+                <span className="mt-0.5">{STATUS_ICONS[check.status]}</span>
+                <div>
+                  <p className="font-medium">{CHECK_LABELS[check.id]}</p>
+                  <p className="text-muted-foreground">{check.detail}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {report.parsed.fullName && (
+            <div className="rounded-lg border p-3 text-xs text-muted-foreground space-y-1">
+              <p className="font-medium text-foreground">Zo leest een ATS je CV</p>
+              <p>Naam: {report.parsed.fullName}</p>
+              {report.parsed.email && <p>E-mail: {report.parsed.email}</p>}
+              {report.parsed.phone && <p>Telefoon: {report.parsed.phone}</p>}
+              {report.parsed.headings.length > 0 && <p>Secties: {report.parsed.headings.join(' · ')}</p>}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default ATSReportCard;
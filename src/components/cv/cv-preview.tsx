@@ -16,11 +16,13 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import type { GeneratedCVContent, CVElementOverrides, ElementOverride, EditableElementType, CVContactInfo, JobVacancy, ParsedLinkedIn, FitAnalysis } from '@/types';
 import type { CVDesignTokens } from '@/types/design-tokens';
 import { useAuth } from '@/components/auth/auth-context';
+import { useCustomRecipes } from '@/hooks/use-custom-recipes';
 import { renderCV, isV2Tokens } from '@/lib/cv-engine/dispatch';
 import { getRecipeById } from '@/lib/cv-engine/recipes/registry';
 import { oklchToCSS } from '@/lib/cv-engine/render/css/oklch';
@@ -32,6 +34,7 @@ import { CVDisputeDialog } from './cv-dispute-dialog';
 import { MotivationLetterSection } from './motivation-letter-section';
 import { DesignTweaksSheet } from './design-tweaks/design-tweaks-sheet';
 import { isCVContentEditMessage } from '@/lib/cv/edit-bridge';
+import { PAPER_SIZES } from '@/lib/cv/paper-size';
 import type { OutputLanguage, TokenUsage } from '@/types';
 
 interface HeaderInfo {
@@ -119,6 +122,7 @@ function debouncedSaveContent(
   cvId: string | null | undefined,
   content: GeneratedCVContent,
   getToken: () => Promise<string | null>,
+  source: 'manual-edit' | 'chat' = 'manual-edit',
 ) {
   if (!cvId) return;
   const existing = contentSaveTimers.get(cvId);
@@ -133,7 +137,7 @@ function debouncedSaveContent(
           'Content-Type': 'application/json',
           ...(token ? { Authorization: `Bearer ${token}` } : {}),
         },
-        body: JSON.stringify({ generatedContent: content }),
+        body: JSON.stringify({ generatedContent: content, source }),
       });
     } catch (err) {
       console.error('[cv-preview] content save failed', err);
@@ -243,7 +247,10 @@ export function CVPreview({
   // editing target. Old color-only path still works via `editedTokens.colors`.
   const [editedTokens, setEditedTokens] = useState<CVDesignTokens>(tokens);
   const [elementColors, setElementColors] = useState<ElementColorOverrides>({});
+  // Registers the user's stored recipes; re-renders once they resolve.
+  const { recipes: customRecipes } = useCustomRecipes();
   const [isTweaksOpen, setIsTweaksOpen] = useState(false);
+  const [isDownloadingDocx, setIsDownloadingDocx] = useState(false);
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
   // Update local overrides when prop changes
@@ -315,12 +322,53 @@ export function CVPreview({
     return () => window.removeEventListener('message', handler);
   }, [cvId, onContentChange, onHeaderChange, refreshToken]);
 
+  // Word export — sends the same unsaved edits as the PDF download so the
+  // .docx matches what's on screen.
+  const handleDownloadDocx = async () => {
+    if (!cvId) return;
+    setIsDownloadingDocx(true);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/docx`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          content: editedContent,
+          tokens: editedTokens,
+          header: editedHeader,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error('Download failed');
+      }
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `cv-${editedHeader.fullName.toLowerCase().replace(/\s+/g, '-') || 'download'}.docx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('[cv-preview] DOCX download failed', err);
+    } finally {
+      setIsDownloadingDocx(false);
+    }
+  };
+
   // Handle content changes
   const handleContentChange = useCallback((newContent: GeneratedCVContent) => {
     setEditedContent(newContent);
     onContentChange?.(newContent);
   }, [onContentChange]);
 
+  // Chat tool calls — same as above, but persisted so the edit lands in the
+  // CV's version history and can be rolled back.
+  const handleChatContentChange = useCallback((newContent: GeneratedCVContent) => {
+    handleContentChange(newContent);
+    debouncedSaveContent(cvId, newContent, refreshToken, 'chat');
+  }, [cvId, handleContentChange, refreshToken]);
+
   // Handle header changes
   const handleHeaderChange = useCallback((newHeader: HeaderInfo) => {
     setEditedHeader(newHeader);
@@ -401,13 +449,16 @@ export function CVPreview({
           overrides: effectiveOverrides,
           contactInfo: editedHeader.contactInfo,
           legacyOptions: { previewProtection: true, watermarkText: 'CVeetje PREVIEW' },
+          locale: language,
         },
       );
     } catch (err) {
       console.error('[cv-preview] renderCV failed:', err);
       return `<!doctype html><html><body style="font-family:system-ui;padding:40px;color:#a00"><h2>Preview render error</h2><pre>${err instanceof Error ? err.message : String(err)}</pre></body></html>`;
     }
-  }, [editedContent, effectiveTokens, editedHeader, avatarUrl, effectiveOverrides]);
+    // customRecipes: re-render once stored recipes are registered
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editedContent, effectiveTokens, editedHeader, avatarUrl, effectiveOverrides, language, customRecipes]);
 
   // Check if content, header, tokens, or element colors have been edited
   const hasEdits = useMemo(() => {
@@ -1008,6 +1059,10 @@ export function CVPreview({
                             <span className="text-sm">Page mode</span>
                             <Badge variant="outline">{v2.pageMode ?? 'a4-paged'}</Badge>
                           </div>
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm">Papier</span>
+                            <Badge variant="outline">{PAPER_SIZES[v2.paperSize ?? 'a4'].format}</Badge>
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -1034,13 +1089,13 @@ export function CVPreview({
 
           {/* Action buttons */}
           <div className="flex flex-col sm:flex-row gap-3 mt-6 pt-4 border-t">
-            {isDownloading ? (
+            {isDownloading || isDownloadingDocx ? (
               <Button
                 disabled
                 className="flex-1"
               >
                 <Download className="mr-2 h-4 w-4 animate-bounce" />
-                PDF Genereren...
+                {isDownloadingDocx ? 'DOCX Genereren...' : 'PDF Genereren...'}
               </Button>
             ) : (
               <DropdownMenu>
@@ -1076,6 +1131,19 @@ export function CVPreview({
                       </span>
                     </div>
                   </DropdownMenuItem>
+                  {cvId && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={handleDownloadDocx}>
+                        <div className="flex flex-col">
+                          <span className="font-medium">Word (.docx)</span>
+                          <span className="text-xs text-muted-foreground">
+                            Bewerkbaar Word document
+                          </span>
+                        </div>
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
@@ -1150,7 +1218,7 @@ export function CVPreview({
           currentContent={editedContent}
           currentTokens={effectiveTokens}
           language={language}
-          onContentChange={handleContentChange}
+          onContentChange={handleChatContentChange}
           onTokensChange={onTokensChange}
         />
       )}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useLocale } from 'next-intl';
+import {
+  Check,
+  Copy,
+  Eye,
+  FileDown,
+  Link2,
+  Loader2,
+  Lock,
+  Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/components/auth/auth-context';
+import type { CVShareLinkSummary } from '@/types';
+
+interface CVShareDialogProps {
+  cvId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Nooit' },
+  { value: '7', label: 'Na 7 dagen' },
+  { value: '30', label: 'Na 30 dagen' },
+  { value: '90', label: 'Na 90 dagen' },
+];
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleString('nl-NL', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function isExpired(share: CVShareLinkSummary): boolean {
+  return !!share.expiresAt && new Date(share.expiresAt).getTime() <= Date.now();
+}
+
+export function CVShareDialog({ cvId, open, onOpenChange }: CVShareDialogProps) {
+  const { refreshToken } = useAuth();
+  const locale = useLocale();
+  const [shares, setShares] = useState<CVShareLinkSummary[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const [expiry, setExpiry] = useState('never');
+  const [password, setPassword] = useState('');
+  const [allowPdfDownload, setAllowPdfDownload] = useState(false);
+
+  const authHeaders = useCallback(async (): Promise<HeadersInit> => {
+    const token = await refreshToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }, [refreshToken]);
+
+  const loadShares = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/shares?locale=${locale}`, { headers: await authHeaders() });
+      if (!response.ok) throw new Error('Kon deellinks niet laden');
+      const data = await response.json();
+      setShares(data.shares);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cvId, locale, authHeaders]);
+
+  useEffect(() => {
+    if (open) loadShares();
+  }, [open, loadShares]);
+
+  const copyLink = async (share: CVShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(share.url);
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(current => (current === share.id ? null : current)), 2000);
+    } catch {
+      toast.error('Kopiëren mislukt');
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({
+          expiresInDays: expiry === 'never' ? null : Number(expiry),
+          password: password || null,
+          allowPdfDownload,
+          locale,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Link aanmaken mislukt');
+
+      setShares(prev => [data.share, ...(prev ?? [])]);
+      setPassword('');
+      await copyLink(data.share);
+      toast.success('Deellink aangemaakt en gekopieerd');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleTogglePdf = async (share: CVShareLinkSummary, allow: boolean) => {
+    setShares(prev => prev?.map(s => (s.id === share.id ? { ...s, allowPdfDownload: allow } : s)) ?? null);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/shares/${share.id}?locale=${locale}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ allowPdfDownload: allow }),
+      });
+      if (!response.ok) throw new Error('Wijzigen mislukt');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+      setShares(prev => prev?.map(s => (s.id === share.id ? { ...s, allowPdfDownload: !allow } : s)) ?? null);
+    }
+  };
+
+  const handleRevoke = async (share: CVShareLinkSummary) => {
+    try {
+      const response = await fetch(`/api/cv/${cvId}/shares/${share.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders(),
+      });
+      if (!response.ok) throw new Error('Intrekken mislukt');
+      setShares(prev => prev?.map(s => (s.id === share.id ? { ...s, revoked: true } : s)) ?? null);
+      toast.success('Link ingetrokken');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            CV delen
+          </DialogTitle>
+          <DialogDescription>
+            Maak een alleen-lezen link naar deze CV, bijvoorbeeld voor in een sollicitatiemail.
+            Je ziet hier wanneer de link is geopend.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New link */}
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="share-expiry">Verloopt</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry" className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(opt => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="share-password">Wachtwoord (optioneel)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                className="h-9"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-allow-pdf">Ontvanger mag PDF downloaden</Label>
+            <Switch id="share-allow-pdf" checked={allowPdfDownload} onCheckedChange={setAllowPdfDownload} />
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating || (password.length > 0 && password.length < 4)}
+            className="w-full"
+          >
+            {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Link aanmaken
+          </Button>
+          {password.length > 0 && password.length < 4 && (
+            <p className="text-xs text-muted-foreground">Wachtwoord moet minstens 4 tekens bevatten</p>
+          )}
+        </div>
+
+        {/* Existing links */}
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {isLoading && !shares ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !shares?.length ? (
+            <p className="text-sm text-muted-foreground text-center py-2">Nog geen deellinks</p>
+          ) : (
+            shares.map(share => {
+              const inactive = share.revoked || isExpired(share);
+              return (
+                <div key={share.id} className={`rounded-md border p-3 space-y-2 ${inactive ? 'opacity-60' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 truncate text-xs">{share.url}</code>
+                    {!inactive && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyLink(share)}>
+                        {copiedId === share.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                    <span className="inline-flex items-center gap-1">
+                      <Eye className="h-3.5 w-3.5" />
+                      {share.viewCount}× bekeken
+                      {share.lastViewedAt && ` · laatst ${formatDate(share.lastViewedAt)}`}
+                    </span>
+                    {share.hasPassword && (
+                      <Badge variant="secondary" className="text-xs font-normal">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Wachtwoord
+                      </Badge>
+                    )}
+                    {share.revoked ? (
+                      <Badge variant="outline" className="text-xs font-normal">Ingetrokken</Badge>
+                    ) : isExpired(share) ? (
+                      <Badge variant="outline" className="text-xs font-normal">Verlopen</Badge>
+                    ) : share.expiresAt ? (
+                      <Badge variant="outline" className="text-xs font-normal">
+                        Tot {formatDate(share.expiresAt)}
+                      </Badge>
+                    ) : null}
+                  </div>
+                  {!inactive && (
+                    <div className="flex items-center justify-between">
+                      <label className="flex items-center gap-2 text-xs">
+                        <Switch
+                          checked={share.allowPdfDownload}
+                          onCheckedChange={checked => handleTogglePdf(share, checked)}
+                        />
+                        <FileDown className="h-3.5 w-3.5" />
+                        PDF-download
+                      </label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-destructive hover:text-destructive"
+                        onClick={() => handleRevoke(share)}
+                      >
+                        <Trash2 className="h-3.5 w-3.5 mr-1" />
+                        Intrekken
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CVShareDialog;
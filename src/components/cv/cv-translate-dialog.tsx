@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Coins, Languages, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/components/auth/auth-context';
+import { PLATFORM_CREDIT_COSTS } from '@/lib/ai/platform-config';
+import { LANGUAGE_LABELS, OUTPUT_LANGUAGES, type OutputLanguage } from '@/types/language';
+
+interface CVTranslateDialogProps {
+  cvId: string;
+  /** Language the CV is written in now. */
+  language: OutputLanguage;
+  /** Existing translations of this CV, by language. */
+  translations?: Partial<Record<OutputLanguage, string>>;
+  hasMotivationLetter: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TRANSLATE_COST = PLATFORM_CREDIT_COSTS['cv-translate'];
+
+export function CVTranslateDialog({
+  cvId,
+  language,
+  translations,
+  hasMotivationLetter,
+  open,
+  onOpenChange,
+}: CVTranslateDialogProps) {
+  const router = useRouter();
+  const { refreshToken, refreshCredits, credits } = useAuth();
+  const targets = OUTPUT_LANGUAGES.filter(lang => lang !== language);
+  const [target, setTarget] = useState<OutputLanguage>(targets[0]);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  const existingId = translations?.[target];
+
+  const handleTranslate = async () => {
+    setIsTranslating(true);
+    try {
+      const token = await refreshToken();
+      const response = await fetch(`/api/cv/${cvId}/translate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ language: target }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Vertalen mislukt');
+
+      await refreshCredits();
+      toast.success(`CV vertaald (${LANGUAGE_LABELS[target]})`);
+      onOpenChange(false);
+      router.push(`/cv/${data.cvId}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5 text-primary" />
+            CV vertalen
+          </DialogTitle>
+          <DialogDescription>
+            De vertaling wordt als nieuwe CV opgeslagen, gekoppeld aan dit origineel.
+            Inhoud, volgorde en stijl blijven gelijk{hasMotivationLetter ? '; de motivatiebrief wordt meevertaald' : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="translate-language">Vertalen naar</Label>
+          <Select value={target} onValueChange={value => setTarget(value as OutputLanguage)}>
+            <SelectTrigger id="translate-language" className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {targets.map(lang => (
+                <SelectItem key={lang} value={lang}>
+                  {LANGUAGE_LABELS[lang]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {existingId && (
+            <p className="text-xs text-muted-foreground">
+              Er bestaat al een vertaling ({LANGUAGE_LABELS[target]}).{' '}
+              <button
+                type="button"
+                className="underline"
+                onClick={() => {
+                  onOpenChange(false);
+                  router.push(`/cv/${existingId}`);
+                }}
+              >
+                Bekijken
+              </button>
+            </p>
+          )}
+        </div>
+
+        <Button
+          onClick={handleTranslate}
+          disabled={isTranslating || credits < TRANSLATE_COST}
+          className="w-full"
+        >
+          {isTranslating ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Languages className="mr-2 h-4 w-4" />
+          )}
+          {isTranslating ? 'Bezig met vertalen...' : existingId ? 'Opnieuw vertalen' : 'Vertalen'}
+          <span className="ml-2 inline-flex items-center text-xs opacity-80">
+            <Coins className="h-3 w-3 mr-1" />
+            {TRANSLATE_COST} credits
+          </span>
+        </Button>
+        {credits < TRANSLATE_COST && (
+          <p className="text-xs text-muted-foreground text-center">Je hebt niet genoeg credits.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CVTranslateDialog;
@@ -0,0 +1,320 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  History,
+  Loader2,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp,
+  Sparkles,
+  Pencil,
+  MessageSquare,
+  Palette,
+  Scale,
+  ShieldCheck,
+  Flag,
+  Languages,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/components/auth/auth-context';
+import type { CVVersionField, CVVersionFieldDiff, CVVersionOperation } from '@/types';
+
+interface CVVersionHistoryProps {
+  cvId: string;
+  /** Bumped by the parent whenever the CV changed, so the timeline refetches. */
+  refreshKey?: unknown;
+  /** Called after a successful restore — parent should reload the CV. */
+  onRestored?: () => void;
+}
+
+interface VersionListItem {
+  id: string;
+  operation: CVVersionOperation;
+  changedFields: CVVersionField[];
+  restoredFrom: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+const OPERATION_CONFIG: Record<CVVersionOperation, { label: string; icon: React.ReactNode }> = {
+  baseline: { label: 'Beginstand', icon: <Flag className="h-3.5 w-3.5" /> },
+  generate: { label: 'Gegenereerd', icon: <Sparkles className="h-3.5 w-3.5" /> },
+  'manual-edit': { label: 'Handmatig bewerkt', icon: <Pencil className="h-3.5 w-3.5" /> },
+  chat: { label: 'Chat-bewerking', icon: <MessageSquare className="h-3.5 w-3.5" /> },
+  'design-tweak': { label: 'Stijl aangepast', icon: <Palette className="h-3.5 w-3.5" /> },
+  'dispute-regenerate': { label: 'Opnieuw gegenereerd (bezwaar)', icon: <Scale className="h-3.5 w-3.5" /> },
+  'dispute-admin': { label: 'Opnieuw gegenereerd (beoordeling)', icon: <ShieldCheck className="h-3.5 w-3.5" /> },
+  restore: { label: 'Hersteld', icon: <RotateCcw className="h-3.5 w-3.5" /> },
+  translate: { label: 'Vertaald', icon: <Languages className="h-3.5 w-3.5" /> },
+};
+
+const FIELD_LABELS: Record<CVVersionField, string> = {
+  headline: 'Headline',
+  summary: 'Profiel',
+  experience: 'Werkervaring',
+  education: 'Opleiding',
+  skills: 'Vaardigheden',
+  languages: 'Talen',
+  certifications: 'Certificaten',
+  projects: 'Projecten',
+  interests: 'Interesses',
+  publications: 'Publicaties',
+  volunteering: 'Vrijwilligerswerk',
+  awards: 'Prijzen',
+  references: 'Referenties',
+  designTokens: 'Stijl',
+};
+
+function formatTimestamp(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleString('nl-NL', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/** Short human-readable rendering of one side of a field diff. */
+function describeValue(field: CVVersionField, value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value || '—';
+  if (field === 'designTokens') {
+    const tokens = value as { styleName?: string; recipeId?: string; engineVersion?: string };
+    return tokens.styleName || tokens.recipeId || 'Aangepaste stijl';
+  }
+  if (field === 'skills' && typeof value === 'object') {
+    const groups = value as Record<string, unknown>;
+    const count = Object.values(groups).reduce<number>((n, list) => n + (Array.isArray(list) ? list.length : 0), 0);
+    return `${count} vaardigheden`;
+  }
+  if (Array.isArray(value)) {
+    const titles = value
+      .map(item => (typeof item === 'string'
+        ? item
+        : (item as { title?: string; degree?: string; language?: string }).title
+          ?? (item as { degree?: string }).degree
+          ?? (item as { language?: string }).language
+          ?? ''))
+      .filter(Boolean);
+    return titles.length ? titles.join(', ') : `${value.length} items`;
+  }
+  return '—';
+}
+
+export function CVVersionHistory({ cvId, refreshKey, onRestored }: CVVersionHistoryProps) {
+  const { refreshToken } = useAuth();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [versions, setVersions] = useState<VersionListItem[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<CVVersionFieldDiff[] | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [selectedFields, setSelectedFields] = useState<Set<CVVersionField>>(new Set());
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const authHeaders = useCallback(async (): Promise<HeadersInit> => {
+    const token = await refreshToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }, [refreshToken]);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/versions`, { headers: await authHeaders() });
+      if (!response.ok) throw new Error('Kon versiegeschiedenis niet laden');
+      const data = await response.json();
+      setVersions(data.versions);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cvId, authHeaders]);
+
+  useEffect(() => {
+    if (isExpanded) loadVersions();
+  }, [isExpanded, loadVersions, refreshKey]);
+
+  const selectVersion = async (versionId: string) => {
+    if (selectedId === versionId) {
+      setSelectedId(null);
+      setDiff(null);
+      return;
+    }
+    setSelectedId(versionId);
+    setDiff(null);
+    setIsDiffLoading(true);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/versions/${versionId}`, { headers: await authHeaders() });
+      if (!response.ok) throw new Error('Kon versie niet laden');
+      const data = await response.json();
+      setDiff(data.diff);
+      setSelectedFields(new Set((data.diff as CVVersionFieldDiff[]).map(d => d.field)));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+      setSelectedId(null);
+    } finally {
+      setIsDiffLoading(false);
+    }
+  };
+
+  const toggleField = (field: CVVersionField) => {
+    setSelectedFields(prev => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId || selectedFields.size === 0) return;
+    setIsRestoring(true);
+    try {
+      const response = await fetch(`/api/cv/${cvId}/versions/${selectedId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ fields: [...selectedFields] }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Herstellen mislukt');
+
+      toast.success(
+        selectedFields.size === diff?.length
+          ? 'Versie hersteld'
+          : `${selectedFields.size} ${selectedFields.size === 1 ? 'onderdeel' : 'onderdelen'} hersteld`,
+      );
+      setSelectedId(null);
+      setDiff(null);
+      onRestored?.();
+      await loadVersions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="cursor-pointer" onClick={() => setIsExpanded(!isExpanded)}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Versiegeschiedenis</CardTitle>
+          </div>
+          <Button variant="ghost" size="sm">
+            {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+        <CardDescription>
+          Bekijk eerdere versies en zet bewerkingen per onderdeel terug
+        </CardDescription>
+      </CardHeader>
+
+      {isExpanded && (
+        <CardContent>
+          {isLoading && !versions ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : !versions?.length ? (
+            <p className="text-sm text-muted-foreground">
+              Nog geen versies. Elke bewerking, chat-wijziging of nieuwe generatie wordt hier vastgelegd.
+            </p>
+          ) : (
+            <ol className="relative border-l pl-4 space-y-3">
+              {versions.map((version, index) => {
+                const config = OPERATION_CONFIG[version.operation] ?? OPERATION_CONFIG['manual-edit'];
+                const isSelected = selectedId === version.id;
+                return (
+                  <li key={version.id} className="relative">
+                    <span className="absolute -left-[1.45rem] top-1.5 flex h-4 w-4 items-center justify-center rounded-full border bg-background text-muted-foreground">
+                      {config.icon}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => selectVersion(version.id)}
+                      className={`w-full text-left rounded-md px-2 py-1.5 hover:bg-muted/50 ${isSelected ? 'bg-muted' : ''}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">{config.label}</span>
+                        {index === 0 && <Badge variant="outline">Huidig</Badge>}
+                        <span className="text-xs text-muted-foreground">
+                          {formatTimestamp(version.updatedAt ?? version.createdAt)}
+                        </span>
+                      </div>
+                      {version.changedFields.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {version.changedFields.map(field => (
+                            <Badge key={field} variant="secondary" className="text-xs font-normal">
+                              {FIELD_LABELS[field] ?? field}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </button>
+
+                    {isSelected && (
+                      <div className="mt-2 ml-2 rounded-md border p-3 space-y-3">
+                        {isDiffLoading ? (
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        ) : !diff?.length ? (
+                          <p className="text-sm text-muted-foreground">
+                            Deze versie is gelijk aan de huidige CV.
+                          </p>
+                        ) : (
+                          <>
+                            <p className="text-xs text-muted-foreground">
+                              Verschillen met de huidige CV — kies wat je terug wilt zetten:
+                            </p>
+                            {diff.map(d => (
+                              <label key={d.field} className="flex items-start gap-2 text-sm cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  className="mt-1"
+                                  checked={selectedFields.has(d.field)}
+                                  onChange={() => toggleField(d.field)}
+                                />
+                                <div className="min-w-0 flex-1">
+                                  <p className="font-medium">{FIELD_LABELS[d.field] ?? d.field}</p>
+                                  <p className="text-muted-foreground line-through truncate">
+                                    {describeValue(d.field, d.before)}
+                                  </p>
+                                  <p className="truncate">{describeValue(d.field, d.after)}</p>
+                                </div>
+                              </label>
+                            ))}
+                            <Button
+                              size="sm"
+                              onClick={handleRestore}
+                              disabled={isRestoring || selectedFields.size === 0}
+                            >
+                              {isRestoring ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                              )}
+                              Herstel geselecteerde onderdelen
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default CVVersionHistory;
@@ -33,7 +33,7 @@ import type {
   StyleCreativityLevel,
 } from '@/types';
 import type { CVDesignTokens } from '@/types/design-tokens';
-import type { ApplyQuestion } from '@/lib/jobs/providers/types';
+import type { ApplyQuestion, JobSourceProvider } from '@/lib/jobs/providers/types';
 import { ApplyForm } from '@/components/jobs/apply-form';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import type { ModelInfo, ProviderInfo } from '@/lib/ai/models-registry';
@@ -115,7 +115,7 @@ export function CVWizard() {
     slug: string;
     supportsInAppApply: boolean;
     applyQuestions: ApplyQuestion[];
-    sourceProvider: 'adzuna' | 'greenhouse' | 'lever' | 'recruitee';
+    sourceProvider: JobSourceProvider;
     externalUrl: string;
   } | null>(null);
   const [applyDialogOpen, setApplyDialogOpen] = useState(false);
@@ -198,11 +198,7 @@ export function CVWizard() {
           applyQuestions: Array.isArray(cached.applyQuestions)
             ? (cached.applyQuestions as ApplyQuestion[])
             : [],
-          sourceProvider: (cached.sourceProvider ?? 'adzuna') as
-            | 'adzuna'
-            | 'greenhouse'
-            | 'lever'
-            | 'recruitee',
+          sourceProvider: (cached.sourceProvider ?? 'adzuna') as JobSourceProvider,
           externalUrl: typeof cached.url === 'string' ? cached.url : '',
         });
       } catch (err) {
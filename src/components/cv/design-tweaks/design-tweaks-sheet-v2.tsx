@@ -4,7 +4,7 @@
  * v2 design-tweaks sheet — for CVs generated by the new cv-engine.
  *
  * Three tabs:
- *   - Visual    — recipe (visual direction) picker + font + pageMode
+ *   - Visual    — recipe (visual direction) picker + font + pageMode + paper size
  *   - Kleur     — OKLch L/C/H sliders per role, bounded by recipe.palette.{role}.range
  *   - Inhoud    — emphasis fields (only those the recipe enables)
  *
@@ -13,7 +13,7 @@
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { RotateCcw } from 'lucide-react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
 import {
   Sheet,
   SheetContent,
@@ -36,10 +36,14 @@ import {
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { useAuth } from '@/components/auth/auth-context';
-import type { CVStyleTokensV2, PageMode } from '@/lib/cv-engine/tokens';
+import type { CVStyleTokensV2, PageMode, PaperSize } from '@/lib/cv-engine/tokens';
 import type { DesignSpec, PaletteRole, FontPairingId, OklchValue } from '@/lib/cv-engine/spec';
 import { getRecipeById, listRecipesByRoute } from '@/lib/cv-engine/recipes/registry';
+import { useCustomRecipes } from '@/hooks/use-custom-recipes';
 import { clampOklch } from '@/lib/cv-engine/render/css/oklch';
+import { PAPER_SIZES } from '@/lib/cv/paper-size';
+import { getRecipeATSScore } from '@/lib/cv-engine/recipes/ats-scores';
+import { ATS_WARNING_THRESHOLD } from '@/lib/cv/ats-check';
 
 const ROLES: PaletteRole[] = ['ink', 'paper', 'accent', 'muted', 'surface'];
 
@@ -71,10 +75,22 @@ export function DesignTweaksSheetV2({
   onTokensChange,
 }: DesignTweaksSheetV2Props) {
   const { refreshToken } = useAuth();
-  const recipe = useMemo(() => getRecipeById(tokens.recipeId), [tokens.recipeId]);
+  const { recipes: customRecipes } = useCustomRecipes();
+  const recipe = useMemo(
+    () => getRecipeById(tokens.recipeId),
+    // customRecipes: a stored recipe only resolves once it's registered
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [tokens.recipeId, customRecipes],
+  );
   const candidates = useMemo(
-    () => (recipe ? listRecipesByRoute(recipe.route) : []),
-    [recipe],
+    () =>
+      recipe
+        ? [
+            ...listRecipesByRoute(recipe.route),
+            ...customRecipes.map(r => r.spec).filter(spec => spec.route === recipe.route),
+          ]
+        : [],
+    [recipe, customRecipes],
   );
 
   const [saveState, setSaveState] = useState<SaveState>('idle');
@@ -162,6 +178,11 @@ export function DesignTweaksSheetV2({
     update({ ...tokens, pageMode: mode });
   };
 
+  const setPaperSize = (size: PaperSize) => {
+    // A4 is the default — store it as absent, like the other optional fields.
+    update({ ...tokens, paperSize: size === 'a4' ? undefined : size });
+  };
+
   const setEmphasis = (key: keyof CVStyleTokensV2['emphasis'], value: string | string[] | undefined) => {
     update({ ...tokens, emphasis: { ...tokens.emphasis, [key]: value } });
   };
@@ -261,7 +282,29 @@ export function DesignTweaksSheetV2({
                 />
               </div>
               <p className="text-xs text-muted-foreground">
-                Aan: één lange pagina, geen page-breaks. Uit: standaard A4-paging.
+                Aan: één lange pagina, geen page-breaks. Uit: losse pagina&apos;s op het gekozen papierformaat.
+              </p>
+            </section>
+
+            <section className="space-y-2">
+              <Label>Papierformaat</Label>
+              <Select
+                value={tokens.paperSize ?? 'a4'}
+                onValueChange={v => setPaperSize(v as PaperSize)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                    <SelectItem key={size} value={size}>
+                      {PAPER_SIZES[size].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Letter of Legal voor sollicitaties in de VS en Canada.
               </p>
             </section>
 
@@ -399,6 +442,7 @@ function RecipeOption({
   onSelect: () => void;
 }) {
   const accent = recipe.palette.accent.anchor;
+  const atsScore = getRecipeATSScore(recipe.id);
   return (
     <button
       type="button"
@@ -418,6 +462,12 @@ function RecipeOption({
           <div className="text-[10px] uppercase tracking-wider text-muted-foreground mt-1">
             {recipe.layoutShape} · {recipe.density}
           </div>
+          {atsScore !== undefined && atsScore < ATS_WARNING_THRESHOLD && (
+            <div className="flex items-center gap-1 text-xs text-amber-600 mt-1">
+              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+              ATS-score {atsScore}/100 — minder geschikt voor online sollicitatiesystemen
+            </div>
+          )}
         </div>
         <div
           className="w-6 h-6 rounded-full flex-shrink-0 border border-border"
@@ -14,6 +14,7 @@
 import type { CVDesignTokens, FontPairing } from '@/types/design-tokens';
 import type { StyleCreativityLevel } from '@/types';
 import { creativityConstraints } from '@/lib/cv/templates/themes';
+import { PAPER_SIZES } from '@/lib/cv/paper-size';
 
 export type TweakTab = 'colors' | 'typography' | 'layout' | 'content';
 
@@ -159,6 +160,7 @@ const editorialBodyDensityOptions = [
   { value: 'normal', label: 'Normaal' },
   { value: 'airy', label: 'Airy (Kinfolk)' },
 ];
+const paperSizeOptions = Object.entries(PAPER_SIZES).map(([value, paper]) => ({ value, label: paper.label }));
 const editorialAsymmetryOptions = [
   { value: 'none', label: 'Geen' },
   { value: 'subtle', label: 'Subtiel' },
@@ -187,6 +189,7 @@ function commonFields(level: StyleCreativityLevel): TweakField[] {
     { tab: 'layout', key: 'accentStyle',   label: 'Accent-stijl', path: 'accentStyle',  control: { kind: 'select', options: accentStyleOptions } },
     { tab: 'layout', key: 'borderRadius',  label: 'Hoekafronding', path: 'borderRadius', control: { kind: 'select', options: borderRadiusOptions } },
     { tab: 'layout', key: 'decorations',   label: 'Decoraties',   path: 'decorations',  control: { kind: 'select', options: decorationsOptions } },
+    { tab: 'layout', key: 'paperSize',     label: 'Papierformaat', description: 'Letter of Legal voor sollicitaties in de VS en Canada', path: 'paperSize', control: { kind: 'select', options: paperSizeOptions } },
   ];
 }
 
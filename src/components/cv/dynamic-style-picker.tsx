@@ -23,9 +23,12 @@ import {
   Coins,
 } from 'lucide-react';
 import { useAuth } from '@/components/auth/auth-context';
+import { useCustomRecipes } from '@/hooks/use-custom-recipes';
 import { cn } from '@/lib/utils';
 import { renderCV, isV2Tokens } from '@/lib/cv-engine/dispatch';
 import { getRecipeById } from '@/lib/cv-engine/recipes/registry';
+import { getRecipeATSScore } from '@/lib/cv-engine/recipes/ats-scores';
+import { ATS_WARNING_THRESHOLD } from '@/lib/cv/ats-check';
 import type { CVStyleTokensV2 } from '@/lib/cv-engine/tokens';
 import { oklchToCSS } from '@/lib/cv-engine/render/css/oklch';
 import { typeScales } from '@/lib/cv/templates/themes';
@@ -155,6 +158,9 @@ export function DynamicStylePicker({
   const [isGenerating, setIsGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [generationMessage, setGenerationMessage] = useState('');
+  // null = let the AI pick a recipe for the creativity level
+  const [houseRecipeId, setHouseRecipeId] = useState<string | null>(null);
+  const { recipes: customRecipes } = useCustomRecipes();
 
   // Reset tokens when initialTokens changes from a value to null (new vacancy)
   const prevInitialTokensRef = useRef<CVDesignTokens | null | undefined>(initialTokens);
@@ -216,6 +222,7 @@ export function DynamicStylePicker({
           avatarUrl,
           userPreferences: userPreferences.trim() || undefined,
           creativityLevel,
+          recipeId: houseRecipeId ?? undefined,
         }),
       });
 
@@ -316,7 +323,7 @@ export function DynamicStylePicker({
       setIsGenerating(false);
       setGenerationMessage('');
     }
-  }, [linkedInData, jobVacancy, avatarUrl, userPreferences, creativityLevel, onTokenUsage, onCreditsRefresh]);
+  }, [linkedInData, jobVacancy, avatarUrl, userPreferences, creativityLevel, houseRecipeId, onTokenUsage, onCreditsRefresh]);
 
   const handleContinue = () => {
     if (tokens) {
@@ -383,6 +390,58 @@ export function DynamicStylePicker({
           </div>
         </div>
 
+        {/* House styles — stored user/organisation recipes */}
+        {customRecipes.length > 0 && (
+          <div className="space-y-3">
+            <Label>Huisstijl</Label>
+            <div className="space-y-1.5">
+              <button
+                type="button"
+                onClick={() => setHouseRecipeId(null)}
+                className={cn(
+                  "w-full flex items-center justify-between p-3 rounded-lg border-2 transition-all text-left",
+                  houseRecipeId === null
+                    ? "border-primary bg-primary/5"
+                    : "border-muted hover:border-primary/50"
+                )}
+              >
+                <div>
+                  <div className="text-sm font-medium">AI kiest</div>
+                  <div className="text-xs text-muted-foreground">Een recept passend bij het creativiteitsniveau</div>
+                </div>
+                {houseRecipeId === null && <Check className="h-4 w-4 text-primary" />}
+              </button>
+              {customRecipes.map(({ spec, scope }) => (
+                <button
+                  key={spec.id}
+                  type="button"
+                  onClick={() => setHouseRecipeId(spec.id)}
+                  className={cn(
+                    "w-full flex items-center justify-between gap-2 p-3 rounded-lg border-2 transition-all text-left",
+                    houseRecipeId === spec.id
+                      ? "border-primary bg-primary/5"
+                      : "border-muted hover:border-primary/50"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium truncate">{spec.displayName}</div>
+                    <div className="text-xs text-muted-foreground truncate">{spec.description}</div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline">{scope === 'organization' ? 'Organisatie' : 'Eigen'}</Badge>
+                    {houseRecipeId === spec.id && <Check className="h-4 w-4 text-primary" />}
+                  </div>
+                </button>
+              ))}
+            </div>
+            {houseRecipeId && (
+              <p className="text-xs text-muted-foreground">
+                De AI vult alleen de accenten in; het creativiteitsniveau volgt de huisstijl.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Preferences Input */}
         <div className="space-y-3">
           <Label htmlFor="preferences">Style Preferences (optional)</Label>
@@ -450,6 +509,7 @@ export function DynamicStylePicker({
               const v2 = tokens as unknown as CVStyleTokensV2;
               const recipe = getRecipeById(v2.recipeId);
               if (!recipe) return null;
+              const atsScore = getRecipeATSScore(recipe.id);
               return (
                 <div className="rounded-lg border p-4 space-y-3">
                   <div className="flex items-center justify-between gap-2">
@@ -463,6 +523,16 @@ export function DynamicStylePicker({
                     </div>
                   </div>
                   <p className="text-sm text-muted-foreground">{recipe.description}</p>
+                  {atsScore !== undefined && atsScore < ATS_WARNING_THRESHOLD && (
+                    <Alert className="py-2">
+                      <AlertTriangle className="h-4 w-4 text-amber-600" />
+                      <span className="ml-2 text-xs">
+                        Deze stijl scoort {atsScore}/100 op ATS-leesbaarheid: sollicitatiesystemen halen
+                        naam, koppen of kolommen er niet altijd goed uit. Kies voor online sollicitaties
+                        liever een rustiger stijl.
+                      </span>
+                    </Alert>
+                  )}
                   <div className="flex gap-1.5 pt-1">
                     {(['ink', 'paper', 'accent', 'muted', 'surface'] as const).map(role => {
                       const oklch = v2.paletteOverride?.[role] ?? recipe.palette[role].anchor;
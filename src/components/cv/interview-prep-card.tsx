@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronUp,
+  Coins,
+  Download,
+  Loader2,
+  MessageSquareQuote,
+  RotateCw,
+  Sparkles,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/components/auth/auth-context';
+import { PLATFORM_CREDIT_COSTS } from '@/lib/ai/platform-config';
+import type { InterviewPrepPack, InterviewQuestion, InterviewQuestionCategory } from '@/types';
+
+interface InterviewPrepCardProps {
+  cvId: string;
+  pack: InterviewPrepPack | null | undefined;
+  /** Prep for this application's interview round (from /applications). */
+  applicationId?: string | null;
+  onGenerated: (pack: InterviewPrepPack) => void;
+}
+
+const PREP_COST = PLATFORM_CREDIT_COSTS['interview-prep'];
+
+const CATEGORY_LABELS: Record<InterviewQuestionCategory, string> = {
+  behavioural: 'Gedragsvragen',
+  technical: 'Vakinhoudelijk',
+  gap: 'Aandachtspunten',
+  motivation: 'Motivatie',
+};
+
+const CATEGORY_ORDER: InterviewQuestionCategory[] = ['behavioural', 'technical', 'gap', 'motivation'];
+
+function QuestionItem({ question }: { question: InterviewQuestion }) {
+  const [open, setOpen] = useState(false);
+  const answer = question.answer;
+
+  return (
+    <li className="rounded-md border p-3">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-start justify-between gap-2 text-left"
+      >
+        <span className="text-sm font-medium">{question.question}</span>
+        {open ? (
+          <ChevronUp className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+        )}
+      </button>
+      {question.relatedWarning && (
+        <p className="mt-1 text-xs text-amber-700">Raakt aan: {question.relatedWarning}</p>
+      )}
+      {open && (
+        <div className="mt-2 space-y-2 text-sm">
+          {question.why && (
+            <p className="text-muted-foreground">
+              <span className="font-medium text-foreground">Waarom ze dit vragen:</span> {question.why}
+            </p>
+          )}
+          {answer && (
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-3 gap-y-1">
+              <dt className="font-medium text-primary">Situatie</dt>
+              <dd>{answer.situation}</dd>
+              {answer.task && (
+                <>
+                  <dt className="font-medium text-primary">Taak</dt>
+                  <dd>{answer.task}</dd>
+                </>
+              )}
+              <dt className="font-medium text-primary">Actie</dt>
+              <dd>{answer.action}</dd>
+              {answer.result && (
+                <>
+                  <dt className="font-medium text-primary">Resultaat</dt>
+                  <dd>{answer.result}</dd>
+                </>
+              )}
+            </dl>
+          )}
+          {answer && (
+            <div className="flex flex-wrap gap-1">
+              {answer.evidence.map((item) => (
+                <Badge key={item.id} variant="outline" className="text-[10px] font-normal">
+                  {item.label}
+                </Badge>
+              ))}
+              {answer.skills.map((skill) => (
+                <Badge key={skill} variant="secondary" className="text-[10px] font-normal">
+                  {skill}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {question.tip && (
+            <p>
+              <span className="font-medium">Aanpak:</span> {question.tip}
+            </p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Interview preparation for the CV's vacancy: likely questions with STAR
+ * outlines built only from the profile, plus questions to ask. Stored on
+ * the CV; the PDF download is free.
+ */
+export function InterviewPrepCard({ cvId, pack, applicationId, onGenerated }: InterviewPrepCardProps) {
+  const { refreshToken, refreshCredits, credits } = useAuth();
+  const [isExpanded, setIsExpanded] = useState(!!applicationId);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const generate = async () => {
+    setIsGenerating(true);
+    try {
+      const token = await refreshToken();
+      const response = await fetch(`/api/cv/${cvId}/interview-prep`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ applicationId: applicationId ?? undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Voorbereiding genereren mislukt');
+      onGenerated(data.pack);
+      setIsExpanded(true);
+      await refreshCredits();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Onbekende fout');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const download = async () => {
+    setIsDownloading(true);
+    try {
+      const token = await refreshToken();
+      const response = await fetch(`/api/cv/${cvId}/interview-prep/download`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+      if (!response.ok) throw new Error('Download mislukt');
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `gespreksvoorbereiding-${new Date().toISOString().split('T')[0]}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Download mislukt');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <Card id="interview-prep">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            type="button"
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex flex-1 items-center justify-between text-left"
+            disabled={!pack}
+          >
+            <CardTitle className="flex items-center gap-2 text-base">
+              <MessageSquareQuote className="h-5 w-5" />
+              Gespreksvoorbereiding
+              {pack?.round && <Badge variant="outline">Ronde {pack.round}</Badge>}
+            </CardTitle>
+            {pack && (isExpanded ? (
+              <ChevronUp className="h-4 w-4 text-muted-foreground" />
+            ) : (
+              <ChevronDown className="h-4 w-4 text-muted-foreground" />
+            ))}
+          </button>
+          {pack && (
+            <Button variant="outline" size="sm" onClick={download} disabled={isDownloading}>
+              {isDownloading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              PDF
+            </Button>
+          )}
+          <Button
+            variant={pack ? 'outline' : 'default'}
+            size="sm"
+            onClick={generate}
+            disabled={isGenerating || credits < PREP_COST}
+          >
+            {isGenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : pack ? (
+              <RotateCw className="mr-2 h-4 w-4" />
+            ) : (
+              <Sparkles className="mr-2 h-4 w-4" />
+            )}
+            {pack ? 'Opnieuw' : 'Voorbereiden'}
+            <span className="ml-2 inline-flex items-center text-xs opacity-80">
+              <Coins className="h-3 w-3 mr-1" />
+              {PREP_COST}
+            </span>
+          </Button>
+        </div>
+        {!pack && (
+          <p className="text-sm text-muted-foreground">
+            Waarschijnlijke gespreksvragen voor deze vacature — inclusief vragen over de
+            aandachtspunten uit je fit-analyse — met STAR-opzetjes op basis van je eigen ervaring,
+            en goede vragen om zelf te stellen.
+            {credits < PREP_COST && ' Je hebt niet genoeg credits.'}
+          </p>
+        )}
+      </CardHeader>
+
+      {pack && isExpanded && (
+        <CardContent className="space-y-5 pt-0">
+          {CATEGORY_ORDER.map((category) => {
+            const questions = pack.questions.filter((q) => q.category === category);
+            if (questions.length === 0) return null;
+            return (
+              <div key={category} className="space-y-2">
+                <h4 className="text-sm font-semibold">{CATEGORY_LABELS[category]}</h4>
+                <ul className="space-y-2">
+                  {questions.map((question, i) => (
+                    <QuestionItem key={`${category}-${i}`} question={question} />
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Vragen om zelf te stellen</h4>
+            <ul className="list-disc space-y-1 pl-5 text-sm">
+              {pack.questionsToAsk.map((q, i) => (
+                <li key={i}>
+                  <span className="font-medium">{q.question}</span>
+                  {q.why && <span className="block text-xs text-muted-foreground">{q.why}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
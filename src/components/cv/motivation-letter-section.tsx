@@ -23,6 +23,7 @@ import {
   FileType,
   File,
 } from 'lucide-react';
+import { getSignOffPhrases } from '@/lib/ai/letter-conventions';
 import type { GeneratedMotivationLetter, OutputLanguage, TokenUsage } from '@/types';
 
 interface MotivationLetterSectionProps {
@@ -34,7 +35,7 @@ interface MotivationLetterSectionProps {
 }
 
 // Placeholder suggestions for personal motivation
-const MOTIVATION_PLACEHOLDERS = {
+const MOTIVATION_PLACEHOLDERS: Record<OutputLanguage, string[]> = {
   nl: [
     'Ik ben al jaren fan van jullie producten/diensten...',
     'De bedrijfscultuur spreekt mij aan omdat...',
@@ -49,6 +50,27 @@ const MOTIVATION_PLACEHOLDERS = {
     'This role aligns perfectly with my ambition to...',
     'After years of experience in [field], I want to...',
   ],
+  de: [
+    'Ich verfolge Ihre Produkte/Dienstleistungen schon seit Jahren...',
+    'Ihre Unternehmenskultur spricht mich an, weil...',
+    'Ich möchte zu Ihrer Mission beitragen, ...',
+    'Diese Rolle passt genau zu meinem Ziel, ...',
+    'Nach Jahren in [Fachgebiet] möchte ich jetzt...',
+  ],
+  fr: [
+    'Je suis depuis longtemps vos produits/services...',
+    "Votre culture d'entreprise me parle parce que...",
+    'Je souhaite contribuer à votre mission de...',
+    'Ce poste correspond parfaitement à mon ambition de...',
+    'Après plusieurs années dans [domaine], je souhaite...',
+  ],
+  es: [
+    'Sigo sus productos/servicios desde hace años...',
+    'Su cultura de empresa me atrae porque...',
+    'Me gustaría contribuir a su misión de...',
+    'Este puesto encaja perfectamente con mi ambición de...',
+    'Tras años de experiencia en [sector], quiero...',
+  ],
 };
 
 /**
@@ -61,27 +83,28 @@ const MOTIVATION_PLACEHOLDERS = {
  * the very end.
  */
 function deduplicateSignOff(text: string): string {
-  const signOffPatterns = [
-    'Met vriendelijke groet',
-    'Met hartelijke groet',
-    'Hoogachtend',
-    'Kind regards',
-    'Best regards',
-    'Sincerely',
-  ];
-
-  // Find ALL positions where a sign-off phrase starts.
-  const positions: number[] = [];
+  // Every phrase of every language — the model may sign off in the
+  // language of the CV rather than the requested one.
+  const signOffPatterns = getSignOffPhrases('nl');
+
+  // Find where each sign-off block starts. Several phrases can hit the
+  // same block ("met vriendelijke groet" also contains "vriendelijke
+  // groet"; French formulas combine "veuillez agréer" and "salutations
+  // distinguées"), so keep only the earliest hit per paragraph.
+  const blockStarts = new Map<number, number>();
   const lower = text.toLowerCase();
   for (const phrase of signOffPatterns) {
     let idx = 0;
     while (idx < lower.length) {
-      const found = lower.indexOf(phrase.toLowerCase(), idx);
+      const found = lower.indexOf(phrase, idx);
       if (found === -1) break;
-      positions.push(found);
+      const paragraph = lower.lastIndexOf('\n\n', found);
+      const current = blockStarts.get(paragraph);
+      if (current === undefined || found < current) blockStarts.set(paragraph, found);
       idx = found + 1;
     }
   }
+  const positions = [...blockStarts.values()];
 
   if (positions.length <= 1) return text; // 0 or 1 sign-off → no duplicate
 
@@ -180,7 +203,7 @@ export function MotivationLetterSection({
       const response = await fetch(`/api/cv/${cvId}/motivation/download`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ format, letter }),
+        body: JSON.stringify({ format, letter, language }),
       });
 
       if (!response.ok) {
@@ -43,7 +43,7 @@ interface TemplateMotivationLetterSectionProps {
 }
 
 // Placeholder suggestions for personal motivation
-const MOTIVATION_PLACEHOLDERS = {
+const MOTIVATION_PLACEHOLDERS: Record<OutputLanguage, string[]> = {
   nl: [
     'Ik ben al jaren fan van jullie producten/diensten...',
     'De bedrijfscultuur spreekt mij aan omdat...',
@@ -58,6 +58,27 @@ const MOTIVATION_PLACEHOLDERS = {
     'This role aligns perfectly with my ambition to...',
     'After years of experience in [field], I want to...',
   ],
+  de: [
+    'Ich verfolge Ihre Produkte/Dienstleistungen schon seit Jahren...',
+    'Ihre Unternehmenskultur spricht mich an, weil...',
+    'Ich möchte zu Ihrer Mission beitragen, ...',
+    'Diese Rolle passt genau zu meinem Ziel, ...',
+    'Nach Jahren in [Fachgebiet] möchte ich jetzt...',
+  ],
+  fr: [
+    'Je suis depuis longtemps vos produits/services...',
+    "Votre culture d'entreprise me parle parce que...",
+    'Je souhaite contribuer à votre mission de...',
+    'Ce poste correspond parfaitement à mon ambition de...',
+    'Après plusieurs années dans [domaine], je souhaite...',
+  ],
+  es: [
+    'Sigo sus productos/servicios desde hace años...',
+    'Su cultura de empresa me atrae porque...',
+    'Me gustaría contribuir a su misión de...',
+    'Este puesto encaja perfectamente con mi ambición de...',
+    'Tras años de experiencia en [sector], quiero...',
+  ],
 };
 
 export function TemplateMotivationLetterSection({
@@ -130,6 +151,7 @@ export function TemplateMotivationLetterSection({
           letter,
           linkedInData,
           jobVacancy,
+          language,
         }),
       });
 
@@ -1,13 +1,21 @@
 'use client';
 
 import { useTranslations } from 'next-intl';
-import type { OutputLanguage } from '@/types';
+import { OUTPUT_LANGUAGES, type OutputLanguage } from '@/types';
 
 interface LanguageSelectorProps {
   value: OutputLanguage;
   onChange: (lang: OutputLanguage) => void;
 }
 
+const LANGUAGE_OPTIONS: Record<OutputLanguage, { flag: string; labelKey: string }> = {
+  nl: { flag: '🇳🇱', labelKey: 'dutch' },
+  en: { flag: '🇬🇧', labelKey: 'english' },
+  de: { flag: '🇩🇪', labelKey: 'german' },
+  fr: { flag: '🇫🇷', labelKey: 'french' },
+  es: { flag: '🇪🇸', labelKey: 'spanish' },
+};
+
 export function LanguageSelector({ value, onChange }: LanguageSelectorProps) {
   const t = useTranslations('cvWizard.languageSelection');
 
@@ -18,27 +26,20 @@ export function LanguageSelector({ value, onChange }: LanguageSelectorProps) {
           <p className="font-medium text-sm">{t('title')}</p>
           <p className="text-xs text-muted-foreground">{t('description')}</p>
         </div>
-        <div className="flex gap-2">
-          <button
-            onClick={() => onChange('nl')}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-              value === 'nl'
-                ? 'bg-primary text-primary-foreground'
-                : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
-            }`}
-          >
-            🇳🇱 {t('dutch')}
-          </button>
-          <button
-            onClick={() => onChange('en')}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-              value === 'en'
-                ? 'bg-primary text-primary-foreground'
-                : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
-            }`}
-          >
-            🇬🇧 {t('english')}
-          </button>
+        <div className="flex flex-wrap gap-2">
+          {OUTPUT_LANGUAGES.map(lang => (
+            <button
+              key={lang}
+              onClick={() => onChange(lang)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                value === lang
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'
+              }`}
+            >
+              {LANGUAGE_OPTIONS[lang].flag} {t(LANGUAGE_OPTIONS[lang].labelKey)}
+            </button>
+          ))}
         </div>
       </div>
     </div>
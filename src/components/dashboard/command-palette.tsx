@@ -20,6 +20,7 @@ import {
   MessageSquarePlus,
   Send,
   Cpu,
+  Building2,
   Scale,
 } from 'lucide-react';
 
@@ -69,6 +70,7 @@ const ADMIN_NAV: PaletteEntry[] = [
   { group: 'Admin', key: 'adm-cvs',       label: 'Admin · CVs',       icon: FileText,          href: '/admin/cvs' },
   { group: 'Admin', key: 'adm-disputes',  label: 'Admin · Disputes',  icon: Scale,             href: '/admin/disputes' },
   { group: 'Admin', key: 'adm-platform',  label: 'Admin · Platform',  icon: Cpu,               href: '/admin/platform' },
+  { group: 'Admin', key: 'adm-jobsources', label: 'Admin · Vacaturebronnen', icon: Building2,   href: '/admin/vacaturebronnen' },
   { group: 'Admin', key: 'adm-feedback',  label: 'Admin · Feedback',  icon: MessageSquarePlus, href: '/admin/feedback' },
 ];
 
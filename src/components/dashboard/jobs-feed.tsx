@@ -5,6 +5,8 @@ import { useTranslations } from 'next-intl';
 import { Link } from '@/i18n/navigation';
 import { Briefcase, Plus } from 'lucide-react';
 import type { NormalizedJob } from '@/lib/jobs/providers/types';
+import type { JobProfileMatch } from '@/lib/jobs/profile-match';
+import type { SavedProfileSummary } from '@/types';
 import { trackJobView } from '@/lib/recent-jobs';
 
 const PALETTE = [
@@ -26,38 +28,80 @@ function initialsFor(name: string): string {
   return (parts[0][0] + parts[1][0]).toUpperCase();
 }
 
+type FeedMode = 'matches' | 'latest';
+
+const FEED_SIZE = 5;
+
 export function JobsFeed() {
   const t = useTranslations('dashboard.jobsFeed');
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [mode, setMode] = useState<FeedMode>('latest');
   const [jobs, setJobs] = useState<NormalizedJob[]>([]);
+  const [matches, setMatches] = useState<Record<string, JobProfileMatch>>({});
   const [loaded, setLoaded] = useState(false);
 
+  // The default profile (else the most recent one) drives "best matches"
   useEffect(() => {
     let cancelled = false;
     void (async () => {
       try {
-        const res = await fetch('/api/jobs/search?location=Netherlands&limit=5');
-        if (!res.ok) { setLoaded(true); return; }
+        const res = await fetch('/api/profiles');
+        if (!res.ok) return;
+        const data = await res.json();
+        const profiles: SavedProfileSummary[] = Array.isArray(data?.profiles) ? data.profiles : [];
+        const profile = profiles.find((p) => p.isDefault) ?? profiles[0];
+        if (!cancelled && profile) {
+          setProfileId(profile.id);
+          setMode('matches');
+        }
+      } catch { /* ignore */ }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(false);
+    void (async () => {
+      try {
+        const params = new URLSearchParams({ location: 'Netherlands' });
+        if (mode === 'matches' && profileId) params.set('profileId', profileId);
+        const res = await fetch(`/api/jobs/search?${params}`);
+        if (!res.ok) return;
         const data = await res.json();
         if (cancelled) return;
-        const list: NormalizedJob[] = Array.isArray(data?.jobs) ? data.jobs.slice(0, 5) : [];
-        setJobs(list);
+        setJobs(Array.isArray(data?.results) ? data.results.slice(0, FEED_SIZE) : []);
+        setMatches(data?.matches ?? {});
       } catch { /* ignore */ } finally {
         if (!cancelled) setLoaded(true);
       }
     })();
     return () => { cancelled = true; };
-  }, []);
+  }, [mode, profileId]);
 
   return (
     <section className="dash-section">
       <div className="dash-section__head">
         <div className="dash-section__head-left">
           <h3 className="dash-section__title">{t('title')}</h3>
-          <span className="dash-section__sub">{t('subtitle')}</span>
+          <span className="dash-section__sub">
+            {mode === 'matches' ? t('subtitle') : t('latestSubtitle')}
+          </span>
+        </div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {profileId && (
+            <button
+              type="button"
+              className={`brand-btn brand-btn--sm ${mode === 'matches' ? 'brand-btn--outline' : 'brand-btn--ghost'}`}
+              onClick={() => setMode(mode === 'matches' ? 'latest' : 'matches')}
+            >
+              {mode === 'matches' ? t('latest') : t('bestMatches')}
+            </button>
+          )}
+          <Link href="/jobs" className="brand-btn brand-btn--outline brand-btn--sm">
+            {t('viewAll')}
+          </Link>
         </div>
-        <Link href="/jobs" className="brand-btn brand-btn--outline brand-btn--sm">
-          {t('viewAll')}
-        </Link>
       </div>
       <div className="dash-section__body dash-section__body--p0">
         <div className="jobs-feed">
@@ -73,6 +117,7 @@ export function JobsFeed() {
           )}
           {jobs.map((j) => {
             const co = j.company ?? '—';
+            const match = mode === 'matches' ? matches[j.slug] : undefined;
             const handleView = () => trackJobView(j.slug, j.title, j.company);
             return (
               <div key={j.slug} className="jobs-feed__row">
@@ -98,8 +143,20 @@ export function JobsFeed() {
                           <span>{j.employmentType}</span>
                         </>
                       )}
+                      {match && match.matchedSkills.length > 0 && (
+                        <>
+                          <span style={{ opacity: 0.4 }}>·</span>
+                          <span>{match.matchedSkills.slice(0, 3).join(', ')}</span>
+                        </>
+                      )}
                     </div>
                   </div>
+                  {match && (
+                    <div className="jobs-feed__score" title={t('matchTitle')}>
+                      {match.score}
+                      <span>{t('match')}</span>
+                    </div>
+                  )}
                 </Link>
                 <Link
                   href={`/cv/new?jobId=${encodeURIComponent(j.slug)}`}
@@ -21,6 +21,7 @@ import {
   Send,
   Scale,
   Cpu,
+  Building2,
   ChevronRight,
   ArrowRight,
 } from 'lucide-react';
@@ -58,6 +59,7 @@ const ADMIN_NAV: NavItem[] = [
   { key: 'adminKanban', href: '/admin/kanban', icon: Columns3 },
   { key: 'adminFeedback', href: '/admin/feedback', icon: MessageSquarePlus },
   { key: 'adminPlatform', href: '/admin/platform', icon: Cpu },
+  { key: 'adminJobSources', href: '/admin/vacaturebronnen', icon: Building2 },
 ];
 
 const COLLAPSE_KEY = 'cveetje-sidebar-collapsed';
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { useLocale } from 'next-intl';
+import { Bell, BellRing, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Link } from '@/i18n/navigation';
+import { useAuth } from '@/components/auth/auth-context';
+import type { JobAlertParams } from '@/types/job-alert';
+
+interface JobAlertButtonProps {
+  params: JobAlertParams;
+}
+
+/**
+ * "Save this search as an alert" — shown above the job results. New
+ * vacancies for the search are mailed as a daily digest; alerts are managed
+ * on the applications page.
+ */
+export function JobAlertButton({ params }: JobAlertButtonProps) {
+  const { firebaseUser } = useAuth();
+  const activeLocale = useLocale();
+  const locale: 'nl' | 'en' = activeLocale === 'en' ? 'en' : 'nl';
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!params.q && !params.location) return null;
+
+  if (!firebaseUser) {
+    return (
+      <Button asChild variant="outline" size="sm">
+        <Link href="/login">
+          <Bell className="h-4 w-4 mr-1" />
+          {locale === 'nl' ? 'Log in voor een vacature-alert' : 'Sign in to get job alerts'}
+        </Link>
+      </Button>
+    );
+  }
+
+  if (saved) {
+    return (
+      <Button asChild variant="outline" size="sm">
+        <Link href="/applications">
+          <BellRing className="h-4 w-4 mr-1" />
+          {locale === 'nl' ? 'Alert opgeslagen — beheren' : 'Alert saved — manage'}
+        </Link>
+      </Button>
+    );
+  }
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/jobs/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ params, frequency: 'daily' }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? 'Failed');
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-destructive">{error}</span>}
+      <Button type="button" variant="outline" size="sm" onClick={save} disabled={saving}>
+        {saving ? (
+          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+        ) : (
+          <Bell className="h-4 w-4 mr-1" />
+        )}
+        {locale === 'nl' ? 'Mail me nieuwe vacatures' : 'Email me new jobs'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, BellOff, Loader2, Trash2 } from 'lucide-react';
+import { Link } from '@/i18n/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { JobAlertFrequency, JobAlertParams, JobAlertRecord } from '@/types/job-alert';
+
+const FREQUENCIES: Array<{ value: JobAlertFrequency; label: string }> = [
+  { value: 'daily', label: 'Dagelijks' },
+  { value: 'weekly', label: 'Wekelijks' },
+];
+
+function searchHref(params: JobAlertParams): string {
+  const search = new URLSearchParams();
+  if (params.q) search.set('q', params.q);
+  if (params.location) search.set('location', params.location);
+  if (params.employmentType) search.set('type', params.employmentType);
+  if (params.remote) search.set('remote', '1');
+  if (params.inAppOnly) search.set('inApp', '1');
+  if (params.salaryMin) search.set('salaryMin', String(params.salaryMin));
+  return `/jobs?${search.toString()}`;
+}
+
+function filterLabels(params: JobAlertParams): string[] {
+  return [
+    params.remote ? 'remote/hybride' : null,
+    params.inAppOnly ? '1-klik solliciteren' : null,
+    params.salaryMin ? `vanaf €${params.salaryMin.toLocaleString('nl-NL')}` : null,
+  ].filter((l): l is string => Boolean(l));
+}
+
+/**
+ * Saved job searches that are mailed as a digest. Alerts are created from
+ * the /jobs results page; here they can be paused, re-timed or removed.
+ */
+export function JobAlertsCard() {
+  const [alerts, setAlerts] = useState<JobAlertRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/jobs/alerts');
+      const data = await res.json();
+      if (res.ok) setAlerts(data.alerts ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const update = async (id: string, patch: Partial<Pick<JobAlertRecord, 'active' | 'frequency'>>) => {
+    setSaving(id);
+    try {
+      const res = await fetch(`/api/jobs/alerts/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      });
+      if (res.ok) {
+        setAlerts((prev) => prev.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+      }
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (!confirm('Vacature-alert verwijderen?')) return;
+    setSaving(id);
+    try {
+      await fetch(`/api/jobs/alerts/${id}`, { method: 'DELETE' });
+      setAlerts((prev) => prev.filter((a) => a.id !== id));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (loading || alerts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Bell className="h-5 w-5" />
+          Vacature-alerts
+        </CardTitle>
+        <CardDescription>
+          Nieuwe vacatures voor deze zoekopdrachten krijg je per mail, gesorteerd op hoe goed
+          ze bij je standaardprofiel passen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 divide-y">
+        {alerts.map((alert) => {
+          const filters = filterLabels(alert.params);
+          return (
+            <div
+              key={alert.id}
+              className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 py-3"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Link href={searchHref(alert.params)} className="font-medium hover:underline">
+                    {alert.name}
+                  </Link>
+                  {!alert.active && <Badge variant="outline">Gepauzeerd</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {filters.length > 0 && `${filters.join(' · ')} · `}
+                  {alert.lastSentAt
+                    ? `Laatste mail ${new Date(alert.lastSentAt).toLocaleDateString('nl-NL')}`
+                    : 'Nog geen mail verstuurd'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {saving === alert.id && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                <select
+                  value={alert.frequency}
+                  onChange={(e) => update(alert.id, { frequency: e.target.value as JobAlertFrequency })}
+                  className="rounded-md border bg-background px-2 py-1 text-xs"
+                  disabled={saving === alert.id}
+                >
+                  {FREQUENCIES.map((f) => (
+                    <option key={f.value} value={f.value}>
+                      {f.label}
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update(alert.id, { active: !alert.active })}
+                  disabled={saving === alert.id}
+                  title={alert.active ? 'Pauzeren' : 'Hervatten'}
+                >
+                  {alert.active ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(alert.id)}
+                  disabled={saving === alert.id}
+                  title="Verwijderen"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface SharePasswordFormProps {
+  token: string;
+}
+
+export function SharePasswordForm({ token }: SharePasswordFormProps) {
+  const t = useTranslations('share');
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/share/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      if (!response.ok) {
+        setError(response.status === 403 ? t('wrongPassword') : t('genericError'));
+        return;
+      }
+      // Access cookie is set — re-render the server page with the CV.
+      router.refresh();
+    } catch {
+      setError(t('genericError'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-sm mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Lock className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">{t('passwordTitle')}</CardTitle>
+        </div>
+        <CardDescription>{t('passwordDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-password">{t('passwordLabel')}</Label>
+            <Input
+              id="share-password"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <Button type="submit" className="w-full" disabled={isSubmitting || !password}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {t('unlocking')}
+              </>
+            ) : (
+              t('unlock')
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+
+interface SharedCVFrameProps {
+  html: string;
+  title: string;
+}
+
+/**
+ * Read-only CV viewer for public share links. The rendered CV is a full
+ * HTML document, so it goes into a sandboxed iframe (no scripts) and the
+ * frame is grown to the document height once it has laid out.
+ */
+export function SharedCVFrame({ html, title }: SharedCVFrameProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [height, setHeight] = useState(1123); // one A4 page at 96dpi
+
+  const fitToContent = useCallback(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc) return;
+    setHeight(Math.max(doc.documentElement.scrollHeight, doc.body?.scrollHeight ?? 0));
+  }, []);
+
+  return (
+    <iframe
+      ref={iframeRef}
+      title={title}
+      srcDoc={html}
+      sandbox="allow-same-origin"
+      onLoad={() => {
+        fitToContent();
+        // Web fonts can reflow the page after load.
+        iframeRef.current?.contentDocument?.fonts?.ready.then(fitToContent);
+      }}
+      className="w-full max-w-[210mm] mx-auto block bg-white shadow-lg border-0"
+      style={{ height }}
+    />
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { registerStoredRecipes } from '@/lib/cv-engine/recipes/registry';
+import type { StoredRecipe } from '@/lib/cv-engine/recipes/stored';
+
+interface UseCustomRecipesResult {
+  /** The user's own recipes, then their organisation's */
+  recipes: StoredRecipe[];
+  isLoading: boolean;
+}
+
+// One request per page load, shared by every component that renders CVs.
+let pending: Promise<StoredRecipe[]> | null = null;
+
+function fetchCustomRecipes(): Promise<StoredRecipe[]> {
+  pending ??= fetch('/api/recipes')
+    .then(async (response) => {
+      if (!response.ok) throw new Error('Failed to fetch recipes');
+      const data = await response.json();
+      const recipes: StoredRecipe[] = data.recipes ?? [];
+      // Registered before anyone renders with them, so composeCV resolves
+      // stored recipe ids through the registry like static ones.
+      registerStoredRecipes(recipes.map(r => r.spec));
+      return recipes;
+    })
+    .catch((err) => {
+      console.error('Failed to fetch custom recipes:', err);
+      pending = null;
+      return [];
+    });
+  return pending;
+}
+
+export function useCustomRecipes(): UseCustomRecipesResult {
+  const [recipes, setRecipes] = useState<StoredRecipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    fetchCustomRecipes().then((result) => {
+      if (!active) return;
+      setRecipes(result);
+      setIsLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return { recipes, isLoading };
+}
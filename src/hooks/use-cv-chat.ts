@@ -4,6 +4,7 @@ import { useChat } from '@ai-sdk/react';
 import { DefaultChatTransport, lastAssistantMessageIsCompleteWithToolCalls } from 'ai';
 import { useCallback, useRef, useState, useMemo, useEffect } from 'react';
 import { CHAT_CHAR_LIMIT } from '@/lib/ai/platform-config';
+import { countChatChars } from '@/lib/ai/chat-billing';
 import type { CVChatContext, CVChatToolName } from '@/types/chat';
 import type { GeneratedCVContent, GeneratedCVExperience, GeneratedCVEducation, GeneratedCVProject } from '@/types';
 import type { CVDesignTokens, HeaderVariant, FontPairing, SpacingScale, SectionStyle, CVLayout, ContactLayout, SkillsDisplay, AccentStyle, NameStyle, SkillTagStyle, TypeScale } from '@/types/design-tokens';
@@ -562,15 +563,7 @@ export function useCVChat({ context, onContentChange, onTokensChange }: UseCVCha
   }, [setMessages]);
 
   // Compute total chars across all messages for the UI counter
-  const totalChars = useMemo(() => {
-    return messages.reduce((sum, msg) => {
-      const text = (msg.parts ?? [])
-        .filter((p) => p.type === 'text')
-        .map((p) => ('text' in p ? (p as { text: string }).text : ''))
-        .join('');
-      return sum + text.length;
-    }, 0);
-  }, [messages]);
+  const totalChars = useMemo(() => countChatChars(messages), [messages]);
 
   // When AI responds we may have crossed a credit boundary — update chargedCredits
   // so the next request sends the correct value
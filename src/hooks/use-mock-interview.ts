@@ -0,0 +1,107 @@
+'use client';
+
+import { useChat } from '@ai-sdk/react';
+import { DefaultChatTransport } from 'ai';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { CHAT_CHAR_LIMIT } from '@/lib/ai/platform-config';
+import { countChatChars } from '@/lib/ai/chat-billing';
+import { parseMockInterview } from '@/lib/applications/mock-interview';
+
+interface UseMockInterviewOptions {
+  applicationId: string;
+  /** Called after each interviewer turn — credits may have been charged. */
+  onTurnFinished?: () => void;
+}
+
+/** First message; the interviewer opens once the candidate says they are ready. */
+const START_MESSAGE = 'Ik ben er klaar voor, we kunnen beginnen.';
+
+function newTranscriptId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Mock interview conversation for an application. The interviewer's tools run
+ * on the server, so unlike useCVChat there is nothing to apply here — scores
+ * and the debrief are read back out of the message parts.
+ */
+export function useMockInterview({ applicationId, onTurnFinished }: UseMockInterviewOptions) {
+  const [input, setInput] = useState('');
+  const [transcriptId, setTranscriptId] = useState(newTranscriptId);
+
+  // Use a ref to avoid a stale closure in onFinish
+  const onTurnFinishedRef = useRef(onTurnFinished);
+  useEffect(() => {
+    onTurnFinishedRef.current = onTurnFinished;
+  }, [onTurnFinished]);
+
+  // The server tracks charged credits on the stored transcript; the id is all it needs.
+  const transport = useMemo(() => new DefaultChatTransport({
+    api: `/api/applications/${applicationId}/mock-interview`,
+    body: { transcriptId },
+  }), [applicationId, transcriptId]);
+
+  const {
+    messages,
+    setMessages,
+    error,
+    status,
+    sendMessage,
+    stop,
+  } = useChat({
+    id: transcriptId,
+    transport,
+    onFinish: () => onTurnFinishedRef.current?.(),
+  });
+
+  const { evaluations, debrief } = useMemo(() => parseMockInterview(messages), [messages]);
+
+  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+  }, []);
+
+  const handleSubmit = useCallback(async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!input.trim() || status === 'streaming' || debrief) return;
+
+    const message = input.trim();
+    setInput('');
+    await sendMessage({ text: message });
+  }, [input, sendMessage, status, debrief]);
+
+  const start = useCallback(async () => {
+    await sendMessage({ text: START_MESSAGE });
+  }, [sendMessage]);
+
+  // A fresh transcript id makes the next conversation a new stored session
+  const restart = useCallback(() => {
+    stop();
+    setMessages([]);
+    setInput('');
+    setTranscriptId(newTranscriptId());
+  }, [setMessages, stop]);
+
+  const totalChars = useMemo(() => countChatChars(messages), [messages]);
+
+  // Warning: next message will cost another credit
+  const creditWarning = messages.length > 0 && !debrief &&
+    totalChars > 0 && totalChars % CHAT_CHAR_LIMIT > CHAT_CHAR_LIMIT * 0.8;
+
+  const isLoading = status === 'streaming' || status === 'submitted';
+
+  return {
+    transcriptId,
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    start,
+    restart,
+    isLoading,
+    error,
+    evaluations,
+    debrief,
+    creditWarning,
+    totalChars,
+  };
+}
@@ -31,6 +31,10 @@ export type AdminAction =
   | 'user.delete'
   | 'user.disable'
   | 'user.enable'
+  | 'user.organization.update'
+  | 'organization.recipe.create'
+  | 'organization.recipe.update'
+  | 'organization.recipe.delete'
   | 'kanban.card.create'
   | 'kanban.card.update'
   | 'kanban.card.delete'
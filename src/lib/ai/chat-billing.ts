@@ -0,0 +1,24 @@
+import type { UIMessage } from 'ai';
+import { CHAT_CHAR_LIMIT } from './platform-config';
+
+/**
+ * Character-based billing shared by the conversational endpoints (CV chat,
+ * mock interview). Client-safe: the hooks use the same count to show the
+ * running total and warn before the next credit.
+ */
+
+/** Visible text across the whole conversation; tool calls are not counted. */
+export function countChatChars(messages: UIMessage[]): number {
+  return messages.reduce((sum, msg) => {
+    const text = (msg.parts ?? [])
+      .filter((p) => p.type === 'text')
+      .map((p) => ('text' in p ? (p as { text: string }).text : ''))
+      .join('');
+    return sum + text.length;
+  }, 0);
+}
+
+/** Credits a conversation of this length costs in total (minimum one). */
+export function requiredChatCredits(totalChars: number): number {
+  return Math.max(1, Math.ceil(totalChars / CHAT_CHAR_LIMIT));
+}
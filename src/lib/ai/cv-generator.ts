@@ -64,6 +64,30 @@ const cvContentSchema = z.object({
       highlights: z.array(z.string()).describe('1-3 key achievements from the project'),
     })
   ).optional().describe('Projects ordered by relevance. Include personal projects, open source, academic work.'),
+  publications: z.array(
+    z.object({
+      title: z.string().describe('Title verbatim from the profile'),
+      publisher: z.string().nullable().describe('Journal, publisher, conference or event from the profile'),
+      date: z.string().nullable(),
+      url: z.string().nullable().describe('Link from the profile, if any'),
+    })
+  ).optional().describe('Publications and talks from profile.publications, most relevant to the target job first. Empty array if the profile has none.'),
+  volunteering: z.array(
+    z.object({
+      role: z.string().describe('Volunteer role from the profile'),
+      organization: z.string().describe('Organization name verbatim from the profile'),
+      period: z.string().describe('Format: "Month Year - Month Year" or "Month Year - Present"'),
+      description: z.string().nullable().describe('1-2 sentences on what they did, framed toward the target job'),
+    })
+  ).optional().describe('Volunteer work from profile.volunteering, most relevant first. Empty array if the profile has none.'),
+  awards: z.array(
+    z.object({
+      title: z.string().describe('Award title verbatim from the profile'),
+      issuer: z.string().nullable(),
+      date: z.string().nullable(),
+      description: z.string().nullable().describe('Optional short context from the profile'),
+    })
+  ).optional().describe('Awards, honors and grants from profile.awards. Empty array if the profile has none.'),
   interests: z.array(z.string()).optional().describe('Personal interests/hobbies tailored to the target vacancy. Each item is either "Hobby" (bare name from profile.interests) or "Hobby — short framing" where framing is 2-5 words tying the hobby to the role. Order by relevance to the vacancy. Names MUST come from profile.interests — never invent hobbies. Empty array if profile has none or interests should be omitted.'),
 });
 
@@ -197,6 +221,33 @@ const languageInstructions: Record<OutputLanguage, { intro: string; outputNote:
 
 **Schrijf zoals een ervaren Nederlandse recruiter zou willen lezen:** concreet, feitelijk, zonder opsmuk.`,
   },
+  de: {
+    intro: 'You are an expert CV writer for the German-speaking job market. Create a professional, tailored Lebenslauf based on the following profile data.',
+    outputNote: `Write ALL output in natural, professional German. No literal translations from English or Dutch.
+- Präteritum/Perfekt for past roles, present tense for the current role; no "ich" — start bullets with the verb or a noun phrase
+- Concrete verbs: "Leitete", "Entwickelte", "Verantwortete", "Koordinierte", "Führte ein", "Optimierte", "Betreute"
+- Nominal style is fine where German CVs use it ("Einführung eines CRM-Systems"), but stay consistent within a role
+- Standard German terms over anglicisms unless the sector uses the English term (e.g. "Stakeholder-Management", "Scrum Master")
+- Avoid AI tells: "ergebnisorientierter Profi mit Leidenschaft für", "nachweisliche Erfolgsbilanz", "dynamisch, proaktiv und motiviert"`,
+  },
+  fr: {
+    intro: 'You are an expert CV writer for the French-speaking job market. Create a professional, tailored CV based on the following profile data.',
+    outputNote: `Write ALL output in natural, professional French. No literal translations from English or Dutch.
+- Past roles in the passé composé or as infinitive/noun phrases, current role in the present; no "je" at the start of bullets
+- Concrete verbs: "Piloté", "Développé", "Géré", "Coordonné", "Mis en place", "Optimisé", "Encadré"
+- Keep accents and French typography (espace avant « : », « ; », « ? »)
+- Prefer French terms over anglicisms unless the sector uses the English term (e.g. "product owner", "data engineer")
+- Avoid AI tells: "professionnel passionné et orienté résultats", "force de proposition" as filler, "dynamique, proactif et motivé"`,
+  },
+  es: {
+    intro: 'You are an expert CV writer for the Spanish-speaking job market. Create a professional, tailored CV based on the following profile data.',
+    outputNote: `Write ALL output in natural, professional Spanish (neutral, Spain-friendly). No literal translations from English or Dutch.
+- Past tense (pretérito indefinido) for past roles, present tense for the current role; no "yo" at the start of bullets
+- Concrete verbs: "Dirigí", "Desarrollé", "Gestioné", "Coordiné", "Implanté", "Optimicé", "Supervisé" — or the impersonal noun form, consistently per role
+- Keep accents and Spanish punctuation (¿…?, ¡…!)
+- Prefer Spanish terms over anglicisms unless the sector uses the English term (e.g. "scrum master", "front-end")
+- Avoid AI tells: "profesional apasionado orientado a resultados", "sinergias", "dinámico, proactivo y motivado"`,
+  },
 };
 
 /**
@@ -323,21 +374,27 @@ function parseExperienceDate(dateStr: string | null | undefined): Date | null {
   return null;
 }
 
+const DURATION_UNITS: Record<OutputLanguage, { year: string; years: string; month: string; months: string }> = {
+  nl: { year: 'jaar', years: 'jaar', month: 'maand', months: 'maanden' },
+  en: { year: 'year', years: 'years', month: 'month', months: 'months' },
+  de: { year: 'Jahr', years: 'Jahre', month: 'Monat', months: 'Monate' },
+  fr: { year: 'an', years: 'ans', month: 'mois', months: 'mois' },
+  es: { year: 'año', years: 'años', month: 'mes', months: 'meses' },
+};
+
 /**
  * Format a duration in months as "X years, Y months" or "X years" etc.
  */
 function formatDuration(totalMonths: number, language: OutputLanguage = 'nl'): string {
   const years = Math.floor(totalMonths / 12);
   const months = totalMonths % 12;
+  const units = DURATION_UNITS[language];
+  const yearPart = `${years} ${years === 1 ? units.year : units.years}`;
+  const monthPart = `${months} ${months === 1 ? units.month : units.months}`;
 
-  if (language === 'nl') {
-    if (years === 0) return `${months} maand${months !== 1 ? 'en' : ''}`;
-    if (months === 0) return `${years} jaar`;
-    return `${years} jaar, ${months} maand${months !== 1 ? 'en' : ''}`;
-  }
-  if (years === 0) return `${months} month${months !== 1 ? 's' : ''}`;
-  if (months === 0) return `${years} year${years !== 1 ? 's' : ''}`;
-  return `${years} year${years !== 1 ? 's' : ''}, ${months} month${months !== 1 ? 's' : ''}`;
+  if (years === 0) return monthPart;
+  if (months === 0) return yearPart;
+  return `${yearPart}, ${monthPart}`;
 }
 
 /**
@@ -557,6 +614,34 @@ ${linkedIn.projects && linkedIn.projects.length > 0
     }).join('\n')
   : 'No projects listed'}
 
+### Publications & Talks:
+${linkedIn.publications && linkedIn.publications.length > 0
+  ? linkedIn.publications.map((p) => {
+      const parts = [`- **${p.title}**`];
+      if (p.publisher) parts.push(`Published in / presented at: ${p.publisher}`);
+      if (p.date) parts.push(`Date: ${p.date}`);
+      if (p.description) parts.push(p.description);
+      if (p.url) parts.push(`URL: ${p.url}`);
+      return parts.join('\n  ');
+    }).join('\n')
+  : 'No publications listed'}
+
+### Volunteering:
+${linkedIn.volunteering && linkedIn.volunteering.length > 0
+  ? linkedIn.volunteering.map((v) => {
+      const parts = [`- **${v.role}** at ${v.organization}`];
+      if (v.cause) parts.push(`Cause: ${v.cause}`);
+      if (v.startDate || v.endDate) parts.push(`Period: ${v.startDate || '?'} - ${v.endDate || 'Present'}`);
+      if (v.description) parts.push(v.description);
+      return parts.join('\n  ');
+    }).join('\n')
+  : 'No volunteering listed'}
+
+### Awards & Honors:
+${linkedIn.awards && linkedIn.awards.length > 0
+  ? linkedIn.awards.map((a) => `- **${a.title}**${a.issuer ? ` - ${a.issuer}` : ''}${a.date ? ` (${a.date})` : ''}${a.description ? `\n  ${a.description}` : ''}`).join('\n')
+  : 'No awards listed'}
+
 ### Interests/Hobbies:
 ${linkedIn.interests && linkedIn.interests.length > 0 ? linkedIn.interests.join(', ') : 'None listed in profile'}
 
@@ -898,6 +983,7 @@ Scan everything you've generated and verify:
 - [ ] Every technology in \`skills.technical\` is mentioned somewhere in the profile (skills, experience descriptions, projects, or certifications). No invented tools.
 - [ ] Every certification in \`certifications\` exists in the profile's certifications list. If the profile has none — return an empty array, do not invent one.
 - [ ] Every project in \`projects\` exists in the profile's projects list. If the profile has no projects — return an empty array.
+- [ ] Every item in \`publications\`, \`volunteering\` and \`awards\` exists in the matching profile list, with its title or organization unchanged. If the profile has none — return an empty array.
 - [ ] The summary doesn't claim more years of experience than the pre-computed unique career duration above.
 - [ ] No fabricated achievement (e.g. "winner of...", "speaker at...", "published in...") unless explicitly in the profile.
 
@@ -1101,6 +1187,13 @@ function normalizeCVContent(
     certifications: raw.certifications ?? [],
     projects: raw.projects ?? [],
     interests,
+    publications: raw.publications ?? [],
+    volunteering: raw.volunteering ?? [],
+    awards: raw.awards ?? [],
+    // References are third-party contact details — copied from the profile
+    // as-is instead of going through the model.
+    references: linkedIn.references ?? [],
+    referencesOnRequest: linkedIn.referencesOnRequest ?? false,
   } as GeneratedCVContent;
 
   // Deterministic claim validation — strip anything the model fabricated
@@ -0,0 +1,415 @@
+/**
+ * CV Translator
+ *
+ * Translates an already generated CV (and its motivation letter) into another
+ * output language without regenerating it. The wording, ordering and
+ * tailoring the user already reviewed stay as they are; only the language
+ * changes.
+ *
+ * The model only sees — and only returns — the translatable text. Everything
+ * else is merged back deterministically from the source CV:
+ * - item counts and order are fixed (a response with a different number of
+ *   jobs, degrees, skills, ... is rejected and retried)
+ * - proper nouns are copied verbatim: companies, institutions, project
+ *   titles, certifications, technologies, URLs, publication and award
+ *   titles, volunteering organizations, references
+ * - `relevanceScore` and the bullets/paragraph choice per job are kept
+ * - interests keep the "Naam — framing" shape from interest-format.ts, and
+ *   only carry a framing when the source item had one
+ *
+ * That merge is what keeps the claim-validator guarantee intact: every item
+ * on the translated CV is the translation of an item that already passed
+ * validateCVContent on the source CV, so a translation can never add a skill,
+ * language or interest the profile doesn't back up.
+ */
+
+import { z } from 'zod';
+import { resolveTemperature } from './temperature';
+import { generateObjectResilient } from './generate-resilient';
+import { LANGUAGE_NAMES_EN } from './output-language';
+import { formatFullLetter } from './motivation-generator';
+import { splitInterest, INTEREST_FRAMING_SEPARATOR } from '@/lib/cv/interest-format';
+import type {
+  GeneratedCVContent,
+  GeneratedMotivationLetter,
+  LLMProvider,
+  TokenUsage,
+  OutputLanguage,
+} from '@/types';
+
+// ============ Schemas ============
+//
+// Arrays are optional at the schema level for the same reason as in the
+// generators (Opus 4.7 structured-output quirks); the normalizers enforce
+// the shape and throw so the resilient helper retries.
+
+const translatedContentSchema = z.object({
+  headline: z.string().optional(),
+  summary: z.string().optional(),
+  experience: z.array(z.object({
+    title: z.string(),
+    location: z.string().nullable(),
+    period: z.string(),
+    highlights: z.array(z.string()),
+    description: z.string().nullable(),
+  })).optional(),
+  education: z.array(z.object({
+    degree: z.string(),
+    year: z.string(),
+    details: z.string().nullable(),
+  })).optional(),
+  skills: z.object({
+    technical: z.array(z.string()),
+    soft: z.array(z.string()),
+  }).optional(),
+  languages: z.array(z.object({
+    language: z.string(),
+    level: z.string(),
+  })).optional(),
+  projects: z.array(z.object({
+    description: z.string(),
+    period: z.string(),
+    highlights: z.array(z.string()),
+  })).optional(),
+  interests: z.array(z.string()).optional(),
+  volunteering: z.array(z.object({
+    role: z.string(),
+    period: z.string(),
+    description: z.string().nullable(),
+  })).optional(),
+  awards: z.array(z.object({
+    description: z.string().nullable(),
+  })).optional(),
+});
+
+const translatedLetterSchema = z.object({
+  opening: z.string().optional(),
+  whyCompany: z.string().optional(),
+  whyMe: z.string().optional(),
+  motivation: z.string().optional(),
+  closing: z.string().optional(),
+});
+
+type TranslatedContent = z.infer<typeof translatedContentSchema>;
+type LetterSections = Omit<GeneratedMotivationLetter, 'fullText'>;
+
+const LETTER_SECTIONS = ['opening', 'whyCompany', 'whyMe', 'motivation', 'closing'] as const;
+
+// ============ Source payloads ============
+
+/** The translatable part of the CV, in the same shape the model returns. */
+function buildContentPayload(content: GeneratedCVContent): TranslatedContent {
+  return {
+    headline: content.headline,
+    summary: content.summary,
+    experience: content.experience.map(exp => ({
+      title: exp.title,
+      location: exp.location,
+      period: exp.period,
+      highlights: exp.highlights,
+      description: exp.description ?? null,
+    })),
+    education: content.education.map(edu => ({
+      degree: edu.degree,
+      year: edu.year,
+      details: edu.details,
+    })),
+    skills: content.skills,
+    languages: content.languages,
+    projects: (content.projects ?? []).map(project => ({
+      description: project.description,
+      period: project.period,
+      highlights: project.highlights,
+    })),
+    interests: content.interests ?? [],
+    volunteering: (content.volunteering ?? []).map(vol => ({
+      role: vol.role,
+      period: vol.period,
+      description: vol.description,
+    })),
+    awards: (content.awards ?? []).map(award => ({ description: award.description })),
+  };
+}
+
+// ============ Merge helpers ============
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Dates and periods may change their words ("heden" → "present") but never
+ * their numbers. Falls back to the source when the model touched a digit.
+ */
+function keepDigits(source: string, translated: string | null | undefined): string {
+  if (!translated?.trim()) return source;
+  return digitsOf(source) === digitsOf(translated) ? translated.trim() : source;
+}
+
+function textOr(source: string, translated: string | null | undefined): string {
+  return translated?.trim() ? translated.trim() : source;
+}
+
+function nullableTextOr(source: string | null, translated: string | null | undefined): string | null {
+  if (source === null) return null;
+  return textOr(source, translated);
+}
+
+/**
+ * Nested lists (highlights, skills) are merged per index. A nested list
+ * with the wrong length keeps the source wording rather than failing the
+ * whole translation.
+ */
+function listOr(source: string[], translated: string[] | undefined): string[] {
+  if (!translated || translated.length !== source.length) return source;
+  return source.map((item, i) => textOr(item, translated[i]));
+}
+
+function requireSameLength(section: string, source: unknown[], translated: unknown[] | undefined): void {
+  if ((translated?.length ?? 0) !== source.length) {
+    throw new Error(
+      `Het AI-model gaf een onvolledige vertaling terug (${section}: ${translated?.length ?? 0} van ${source.length} items). Probeer het opnieuw.`,
+    );
+  }
+}
+
+function mergeInterest(source: string, translated: string | undefined): string {
+  if (!translated?.trim()) return source;
+  const original = splitInterest(source);
+  const result = splitInterest(translated);
+  if (!original.framing) return result.name;
+  return result.framing
+    ? `${result.name}${INTEREST_FRAMING_SEPARATOR}${result.framing}`
+    : `${result.name}${INTEREST_FRAMING_SEPARATOR}${original.framing}`;
+}
+
+function normalizeTranslatedContent(
+  rawInput: unknown,
+  source: GeneratedCVContent,
+): GeneratedCVContent {
+  type RawShape = TranslatedContent & { data?: TranslatedContent };
+  let raw = (rawInput ?? {}) as RawShape;
+  if (raw.data && typeof raw.data === 'object' && !raw.summary && !raw.experience) {
+    raw = raw.data;
+  }
+
+  if (!raw.summary?.trim() && !raw.headline?.trim()) {
+    throw new Error('Het AI-model gaf een leeg antwoord terug voor de vertaling. Probeer het opnieuw.');
+  }
+
+  const sourceProjects = source.projects ?? [];
+  const sourceInterests = source.interests ?? [];
+  requireSameLength('werkervaring', source.experience, raw.experience);
+  requireSameLength('opleiding', source.education, raw.education);
+  requireSameLength('talen', source.languages, raw.languages);
+  requireSameLength('projecten', sourceProjects, raw.projects);
+  requireSameLength('interesses', sourceInterests, raw.interests);
+  requireSameLength('vrijwilligerswerk', source.volunteering ?? [], raw.volunteering);
+  requireSameLength('prijzen', source.awards ?? [], raw.awards);
+
+  const translated: GeneratedCVContent = {
+    headline: textOr(source.headline, raw.headline),
+    summary: textOr(source.summary, raw.summary),
+    experience: source.experience.map((exp, i) => {
+      const t = raw.experience![i];
+      return {
+        ...exp,
+        title: textOr(exp.title, t.title),
+        location: nullableTextOr(exp.location, t.location),
+        period: keepDigits(exp.period, t.period),
+        highlights: listOr(exp.highlights, t.highlights),
+        ...(exp.description !== undefined && {
+          description: textOr(exp.description, t.description),
+        }),
+      };
+    }),
+    education: source.education.map((edu, i) => {
+      const t = raw.education![i];
+      return {
+        ...edu,
+        degree: textOr(edu.degree, t.degree),
+        year: keepDigits(edu.year, t.year),
+        details: nullableTextOr(edu.details, t.details),
+      };
+    }),
+    skills: {
+      technical: listOr(source.skills.technical, raw.skills?.technical),
+      soft: listOr(source.skills.soft, raw.skills?.soft),
+    },
+    languages: source.languages.map((lang, i) => ({
+      language: textOr(lang.language, raw.languages![i].language),
+      level: textOr(lang.level, raw.languages![i].level),
+    })),
+    // Certification names are proper nouns — never translated.
+    certifications: source.certifications,
+  };
+
+  if (source.projects) {
+    translated.projects = source.projects.map((project, i) => {
+      const t = raw.projects![i];
+      return {
+        ...project,
+        description: textOr(project.description, t.description),
+        period: keepDigits(project.period, t.period),
+        highlights: listOr(project.highlights, t.highlights),
+      };
+    });
+  }
+
+  if (source.interests) {
+    translated.interests = source.interests.map((item, i) => mergeInterest(item, raw.interests![i]));
+  }
+
+  // Publication titles, referees and their contact details are never translated.
+  if (source.publications) translated.publications = source.publications;
+
+  if (source.volunteering) {
+    translated.volunteering = source.volunteering.map((vol, i) => {
+      const t = raw.volunteering![i];
+      return {
+        ...vol,
+        role: textOr(vol.role, t.role),
+        period: keepDigits(vol.period, t.period),
+        description: nullableTextOr(vol.description, t.description),
+      };
+    });
+  }
+
+  if (source.awards) {
+    translated.awards = source.awards.map((award, i) => ({
+      ...award,
+      description: nullableTextOr(award.description, raw.awards![i].description),
+    }));
+  }
+
+  if (source.references) translated.references = source.references;
+  if (source.referencesOnRequest !== undefined) translated.referencesOnRequest = source.referencesOnRequest;
+
+  return translated;
+}
+
+function normalizeTranslatedLetter(rawInput: unknown, source: LetterSections): LetterSections {
+  type RawShape = Partial<LetterSections> & { data?: Partial<LetterSections> };
+  let raw = (rawInput ?? {}) as RawShape;
+  if (raw.data && typeof raw.data === 'object' && !raw.opening && !raw.whyMe) {
+    raw = raw.data;
+  }
+
+  const missing = LETTER_SECTIONS.filter(key => source[key].trim() && !raw[key]?.trim());
+  if (missing.length > 0) {
+    throw new Error(
+      'Het AI-model gaf een onvolledige vertaling van de motivatiebrief terug. Probeer het opnieuw.',
+    );
+  }
+
+  return {
+    opening: raw.opening?.trim() ?? '',
+    whyCompany: raw.whyCompany?.trim() ?? '',
+    whyMe: raw.whyMe?.trim() ?? '',
+    motivation: raw.motivation?.trim() ?? '',
+    closing: raw.closing?.trim() ?? '',
+  };
+}
+
+// ============ Prompts ============
+
+function buildSystemPrompt(from: OutputLanguage, to: OutputLanguage): string {
+  return `You are a professional translator for CVs and cover letters. Translate from ${LANGUAGE_NAMES_EN[from]} into ${LANGUAGE_NAMES_EN[to]}.
+
+## RULES
+
+1. **Translate, don't rewrite.** Keep every sentence's meaning, claims, numbers and emphasis. Do not add, drop, merge or reorder anything. No new achievements, no stronger verbs than the source.
+2. **Same shape.** Return exactly the same fields and exactly the same number of items in every list, in the same order. Item N of your output is the translation of item N of the input.
+3. **Keep proper nouns and tool names.** Product names, frameworks, programming languages, certifications and brand names stay as they are ("Kubernetes", "Salesforce", "Scrum").
+4. **Dates keep their numbers.** Translate only the words around them ("heden" → "present", "jan" → "Jan").
+5. **Interests** are either a bare name ("Schaken") or a name plus a short framing separated by " — " ("Schaken — strategisch denken"). Keep that separator and shape.
+6. **Native register.** Write the way a native recruiter in the target language would read it: natural CV conventions and job-title wording, not a word-for-word rendering.
+7. Leave empty or null values empty or null.`;
+}
+
+// ============ Public API ============
+
+export interface TranslateCVOptions {
+  content: GeneratedCVContent;
+  motivationLetter?: GeneratedMotivationLetter | null;
+  from: OutputLanguage;
+  to: OutputLanguage;
+  /** Candidate name and target job for the letter's sign-off and subject line. */
+  fullName: string;
+  jobTitle?: string | null;
+  companyName?: string | null;
+  provider: LLMProvider;
+  apiKey: string;
+  model: string;
+}
+
+export interface TranslateCVResult {
+  content: GeneratedCVContent;
+  motivationLetter: GeneratedMotivationLetter | null;
+  usage: TokenUsage;
+}
+
+export async function translateCV(options: TranslateCVOptions): Promise<TranslateCVResult> {
+  const { content, motivationLetter, from, to, provider, apiKey, model } = options;
+  const system = buildSystemPrompt(from, to);
+  const temperature = resolveTemperature(provider, model, 0.2);
+
+  console.log(`[CV Translate] Translating CV ${from} → ${to}${motivationLetter ? ' (incl. letter)' : ''}`);
+
+  const contentResult = await generateObjectResilient({
+    provider,
+    apiKey,
+    model,
+    schema: translatedContentSchema,
+    system,
+    prompt: `Translate this CV content. Return the same JSON structure.\n\n${JSON.stringify(buildContentPayload(content), null, 2)}`,
+    temperature,
+    normalize: raw => normalizeTranslatedContent(raw, content),
+    logTag: 'CV Translate',
+  });
+
+  const usage: TokenUsage = { ...contentResult.usage };
+  let translatedLetter: GeneratedMotivationLetter | null = null;
+
+  if (motivationLetter) {
+    const sourceSections: LetterSections = {
+      opening: motivationLetter.opening,
+      whyCompany: motivationLetter.whyCompany,
+      whyMe: motivationLetter.whyMe,
+      motivation: motivationLetter.motivation,
+      closing: motivationLetter.closing,
+    };
+
+    const letterResult = await generateObjectResilient({
+      provider,
+      apiKey,
+      model,
+      schema: translatedLetterSchema,
+      system,
+      prompt: `Translate these cover letter sections. Keep the paragraph boundaries. Do not add a greeting or sign-off — those are added automatically.\n\n${JSON.stringify(sourceSections, null, 2)}`,
+      temperature,
+      normalize: raw => normalizeTranslatedLetter(raw, sourceSections),
+      logTag: 'CV Translate',
+    });
+
+    const sections = letterResult.value;
+    translatedLetter = {
+      ...sections,
+      fullText: formatFullLetter(
+        sections,
+        options.fullName,
+        options.jobTitle ?? '',
+        options.companyName ?? null,
+        to,
+      ),
+    };
+    usage.promptTokens += letterResult.usage.promptTokens;
+    usage.completionTokens += letterResult.usage.completionTokens;
+  }
+
+  console.log(
+    `[CV Translate] Done: ${usage.promptTokens} input, ${usage.completionTokens} output tokens total`,
+  );
+
+  return { content: contentResult.value, motivationLetter: translatedLetter, usage };
+}
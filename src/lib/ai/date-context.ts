@@ -16,7 +16,19 @@
  * "heden", "Present", "Current", "starting next month".
  */
 
-type DateContextLanguage = 'nl' | 'en';
+import { LANGUAGE_LOCALES, type OutputLanguage } from '@/types/language';
+
+/**
+ * Words for "until now" per output language. The Dutch block lists its own
+ * inline; the English block is shared by de/fr/es, so it names the words the
+ * model will meet in those profiles and vacancies too.
+ */
+const PRESENT_TERMS: Record<Exclude<OutputLanguage, 'nl'>, string> = {
+  en: '"Present", "Current", "heden"',
+  de: '"heute", "bis heute", "aktuell", "Present"',
+  fr: '"aujourd\'hui", "à ce jour", "actuel", "Present"',
+  es: '"actualidad", "presente", "actual", "Present"',
+};
 
 /**
  * Build a date-context block to prepend to AI prompts.
@@ -24,12 +36,11 @@ type DateContextLanguage = 'nl' | 'en';
  * @param language  The output language of the caller. Defaults to 'nl'
  *                  since that's the app default.
  */
-export function getCurrentDateContext(language: DateContextLanguage = 'nl'): string {
+export function getCurrentDateContext(language: OutputLanguage = 'nl'): string {
   const now = new Date();
   const iso = now.toISOString().split('T')[0]; // YYYY-MM-DD
   const year = now.getFullYear();
-  const locale = language === 'nl' ? 'nl-NL' : 'en-US';
-  const monthName = now.toLocaleDateString(locale, { month: 'long' });
+  const monthName = now.toLocaleDateString(LANGUAGE_LOCALES[language], { month: 'long' });
 
   if (language === 'nl') {
     return `## Huidige datum (CRITICAL — anchor voor alle tijdberekeningen)
@@ -60,7 +71,7 @@ Use this date as the sole reference for ALL time calculations. Your own
 training cutoff is NOT "now" — always use the date above.
 
 Specifically:
-- When a profile experience runs to "Present", "Current", "heden", or
+- When a profile experience runs to ${PRESENT_TERMS[language]}, or
   has an empty end date, it means the role runs until **${iso}**.
   Calculate years of experience by subtracting the start date from
   **${iso}**, not from an earlier date.
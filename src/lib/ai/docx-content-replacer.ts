@@ -14,6 +14,7 @@ import { z } from 'zod';
 import { createAIProvider, type LLMProvider } from './providers';
 import { resolveTemperature } from './temperature';
 import { withRetry } from './retry';
+import { getOutputLanguageNote, usesEnglishPrompts } from './output-language';
 import type { ParsedLinkedIn, JobVacancy, OutputLanguage, FitAnalysis } from '@/types';
 import type { ExperienceDescriptionFormat } from '@/types/design-tokens';
 import type { TemplateBlueprint } from './template-analyzer';
@@ -56,7 +57,7 @@ export async function fillStructuredSegments(
   customValues?: Record<string, string>,
 ): Promise<SegmentFillResult> {
   const aiProvider = createAIProvider(provider, apiKey);
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
 
   const profileSummary = buildProfileSummary(profileData, language, customValues);
   const jobSummary = jobVacancy ? buildJobSummary(jobVacancy, language) : null;
@@ -97,7 +98,7 @@ ${templateMap}
 ${blueprintContext}
 ${isEn ? 'PROFILE DATA' : 'PROFIELDATA'}:
 ${profileSummary}
-${jobSummary ? `\n${isEn ? 'TARGET JOB' : 'DOELVACATURE'}:\n${jobSummary}` : ''}${fitSummary}${formatInstruction}${customSection}
+${jobSummary ? `\n${isEn ? 'TARGET JOB' : 'DOELVACATURE'}:\n${jobSummary}` : ''}${fitSummary}${formatInstruction}${getOutputLanguageNote(language)}${customSection}
 
 ${isEn ? 'Fill all segments with the correct profile data. Return fills as { segmentId, value } objects.'
   : 'Vul alle segmenten in met de juiste profieldata. Retourneer fills als { segmentId, value } objecten.'}`;
@@ -270,7 +271,7 @@ BELANGRIJK: Wijzig GEEN sectie header segmenten. Laat ze ongewijzigd.`;
 
 export function buildProfileSummary(profile: ParsedLinkedIn, language: OutputLanguage = 'nl', customValues?: Record<string, string>): string {
   const parts: string[] = [];
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
 
   parts.push(`${isEn ? 'Name' : 'Naam'}: ${profile.fullName || (isEn ? 'Not specified' : 'Niet opgegeven')}`);
 
@@ -357,7 +358,7 @@ export function buildProfileSummary(profile: ParsedLinkedIn, language: OutputLan
 
 export function buildJobSummary(job: JobVacancy, language: OutputLanguage = 'nl'): string {
   const parts: string[] = [];
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
 
   parts.push(`${isEn ? 'Job title' : 'Functietitel'}: ${job.title}`);
   if (job.company) parts.push(`${isEn ? 'Company' : 'Bedrijf'}: ${job.company}`);
@@ -373,7 +374,7 @@ export function buildFitAnalysisSummary(
 ): string {
   if (!fitAnalysis) return '';
 
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
   const parts: string[] = [];
 
   parts.push(isEn
@@ -55,6 +55,14 @@ export interface HumanizerResult {
   usage: TokenUsage;
 }
 
+const HUMANIZER_LANGUAGE_INSTRUCTIONS: Record<OutputLanguage, string> = {
+  nl: `KRITIEK — Schrijf de output in formeel Nederlands. Behoud de "u"-vorm. Hou de toon professioneel maar warm, zoals een goede sollicitatiebrief hoort.`,
+  en: `CRITICAL — Write the output in professional English. Keep the tone professional but personable, as a good cover letter should be.`,
+  de: `CRITICAL — Write the output in formal German. Keep the "Sie" form. Keep the tone professional but personable, as a good Anschreiben should be.`,
+  fr: `CRITICAL — Write the output in formal French. Keep the "vous" form. Keep the tone professional but personable, as a good lettre de motivation should be.`,
+  es: `CRITICAL — Write the output in formal Spanish. Keep the "usted" form. Keep the tone professional but personable, as a good carta de presentación should be.`,
+};
+
 /**
  * The humanizer system prompt — a condensed, letter-focused version of
  * blader/humanizer's SKILL.md. We dropped the Wikipedia-specific
@@ -65,10 +73,7 @@ export interface HumanizerResult {
  * notice in a sollicitatiebrief.
  */
 function buildHumanizerSystemPrompt(language: OutputLanguage): string {
-  const langInstructions =
-    language === 'nl'
-      ? `KRITIEK — Schrijf de output in formeel Nederlands. Behoud de "u"-vorm. Hou de toon professioneel maar warm, zoals een goede sollicitatiebrief hoort.`
-      : `CRITICAL — Write the output in professional English. Keep the tone professional but personable, as a good cover letter should be.`;
+  const langInstructions = HUMANIZER_LANGUAGE_INSTRUCTIONS[language];
 
   return `You are an expert editor that rewrites motivation letters to remove the standard AI writing tells. The input is a structurally correct letter generated by an LLM, but its prose has the patterns that recruiters recognize instantly as machine output. Your job is to rewrite it so it sounds like it was written by a thoughtful human candidate.
 
@@ -88,8 +93,8 @@ HARD RULES — NEVER VIOLATE
    When in doubt, REMOVE specificity rather than ADD it. Going from a fake-precise sentence to an honestly vague one is an improvement. Going from a vague sentence to an invented-precise one is a regression.
 
 2. **Preserve the structure.** Output the same five sections (opening / whyCompany / whyMe / motivation / closing) with roughly the same length each.
-3. **Preserve language and register.** Dutch stays Dutch with "u"-vorm. English stays English. Formal business letter register.
-4. **The closing never contains a sign-off.** No "Met vriendelijke groet", no "Hoogachtend", no "Kind regards", no candidate name. The sign-off is appended automatically afterwards.
+3. **Preserve language and register.** Dutch stays Dutch with "u"-vorm, German stays German with "Sie", French stays French with "vous", Spanish stays Spanish with "usted". English stays English. Formal business letter register.
+4. **The closing never contains a sign-off.** No "Met vriendelijke groet", no "Hoogachtend", no "Kind regards", no "Mit freundlichen Grüßen", no "Cordialement", no "Atentamente", no candidate name. The sign-off is appended automatically afterwards.
 5. **Output the same JSON structure** with the same keys.
 
 ═══════════════════════════════════════════════
@@ -0,0 +1,391 @@
+/**
+ * Interview Prep Generator
+ *
+ * Builds an interview preparation pack from what a CV already holds: the
+ * parsed vacancy, the fit analysis, the tailored CV content and (when
+ * present) the motivation letter. One structured pass produces:
+ * - likely questions — behavioural, technical, motivation, plus one "gap"
+ *   question per significant FitWarning
+ * - STAR answer outlines for those questions
+ * - questions the candidate can ask the employer
+ *
+ * Same philosophy as the claim validator: the prompt asks the model to stay
+ * within the profile, the normalizer enforces it. Every STAR outline has to
+ * cite profile items by id from a numbered evidence list; ids that don't
+ * exist are dropped, and an outline left without evidence is removed so the
+ * question falls back to an honest-approach tip. Skills named in an answer
+ * go through validateSkills, so an answer can never coach the candidate to
+ * claim a tool the profile doesn't mention.
+ */
+
+import { z } from 'zod';
+import { resolveTemperature } from './temperature';
+import { generateObjectResilient } from './generate-resilient';
+import { LANGUAGE_NAMES_EN } from './output-language';
+import { getCurrentDateContext } from './date-context';
+import { buildProfileEvidence, validateSkills } from './validators/claim-validator';
+import type {
+  ParsedLinkedIn,
+  JobVacancy,
+  FitAnalysis,
+  FitWarning,
+  GeneratedCVContent,
+  GeneratedMotivationLetter,
+  LLMProvider,
+  TokenUsage,
+  OutputLanguage,
+  InterviewEvidence,
+  InterviewPrepPack,
+  InterviewQuestion,
+  InterviewQuestionCategory,
+  EmployerQuestion,
+} from '@/types';
+import type { InterviewType } from '@/types/application';
+
+// ============ Schema ============
+//
+// Optional at the schema level (Opus 4.7 structured-output quirks); the
+// normalizer enforces the minimum and throws so the resilient helper retries.
+
+const QUESTION_CATEGORIES = ['behavioural', 'technical', 'gap', 'motivation'] as const;
+
+const interviewPrepSchema = z.object({
+  questions: z.array(z.object({
+    category: z.enum(QUESTION_CATEGORIES),
+    question: z.string(),
+    why: z.string().describe('What the interviewer wants to learn from this question. 1 sentence.'),
+    relatedWarningIndex: z.number().nullable().describe('gap questions: index of the FIT WARNING this probes. null otherwise.'),
+    evidenceIds: z.array(z.string()).describe('Ids from the EVIDENCE list the answer is built on (e.g. "exp-0"). Empty when the profile has no evidence.'),
+    situation: z.string().nullable(),
+    task: z.string().nullable(),
+    action: z.string().nullable(),
+    result: z.string().nullable(),
+    skills: z.array(z.string()).describe('Skills from the profile worth naming in the answer.'),
+    tip: z.string().nullable().describe('How to approach the question. Required when there is no evidence for a STAR answer.'),
+  })).optional(),
+  questionsToAsk: z.array(z.object({
+    question: z.string(),
+    why: z.string(),
+  })).optional(),
+});
+
+type RawPrep = z.infer<typeof interviewPrepSchema>;
+
+const MIN_QUESTIONS = 6;
+const MIN_EMPLOYER_QUESTIONS = 3;
+/** Gap questions are only worth it for real concerns; info-level warnings are skipped. */
+const MAX_GAP_QUESTIONS = 4;
+
+const INTERVIEW_TYPE_NAMES_EN: Record<InterviewType, string> = {
+  phone: 'phone screening',
+  video: 'video interview',
+  onsite: 'on-site interview',
+  assessment: 'assessment / case interview',
+};
+
+/** Fallback tip for questions the profile can't back with a STAR example. */
+const NO_EVIDENCE_TIP: Record<OutputLanguage, string> = {
+  nl: 'Je profiel bevat hier geen direct voorbeeld van. Wees eerlijk, noem de ervaring die er het dichtst bij komt en laat zien hoe je je dit eigen maakt.',
+  en: "Your profile has no direct example of this. Be honest, name the closest experience you do have and show how you would get up to speed.",
+  de: 'Ihr Profil enthält dafür kein direktes Beispiel. Bleiben Sie ehrlich, nennen Sie die nächstliegende Erfahrung und zeigen Sie, wie Sie sich einarbeiten würden.',
+  fr: "Votre profil ne contient pas d'exemple direct. Restez honnête, citez l'expérience la plus proche et montrez comment vous comptez monter en compétence.",
+  es: 'Tu perfil no tiene un ejemplo directo de esto. Sé honesto, menciona la experiencia más cercana y muestra cómo te pondrías al día.',
+};
+
+// ============ Evidence catalog ============
+
+function buildEvidenceCatalog(profile: ParsedLinkedIn): InterviewEvidence[] {
+  const catalog: InterviewEvidence[] = [];
+  profile.experience.forEach((exp, i) => {
+    const period = `${exp.startDate}${exp.endDate ? ` – ${exp.endDate}` : ''}`;
+    catalog.push({ id: `exp-${i}`, label: `${exp.title} — ${exp.company} (${period})` });
+  });
+  (profile.projects ?? []).forEach((project, i) => {
+    catalog.push({ id: `proj-${i}`, label: project.title });
+  });
+  profile.education.forEach((edu, i) => {
+    const degree = [edu.degree, edu.fieldOfStudy].filter(Boolean).join(' ');
+    catalog.push({ id: `edu-${i}`, label: degree ? `${degree} — ${edu.school}` : edu.school });
+  });
+  profile.certifications.forEach((cert, i) => {
+    catalog.push({ id: `cert-${i}`, label: cert.name });
+  });
+  return catalog;
+}
+
+/** Warnings worth a gap question, most severe first. Index = position in this list. */
+function gapWarnings(fitAnalysis: FitAnalysis | null): FitWarning[] {
+  if (!fitAnalysis) return [];
+  const rank = { critical: 0, warning: 1, info: 2 } as const;
+  return fitAnalysis.warnings
+    .filter(w => w.severity !== 'info')
+    .sort((a, b) => rank[a.severity] - rank[b.severity])
+    .slice(0, MAX_GAP_QUESTIONS);
+}
+
+// ============ Prompts ============
+
+function buildSystemPrompt(language: OutputLanguage): string {
+  return `You are an experienced interview coach preparing a candidate for a job interview. Write every value in ${LANGUAGE_NAMES_EN[language]}.
+
+## RULES
+
+1. **Only the candidate's real history.** STAR outlines may only use experience, projects, education and certifications from the EVIDENCE list. Cite the ids you used in \`evidenceIds\`. Never invent employers, numbers, results, team sizes or tools. When a result isn't in the profile, describe the kind of outcome to mention ("noem het concrete effect, bijv. doorlooptijd") instead of making one up.
+2. **No evidence, no STAR.** If nothing in the EVIDENCE list supports an answer, leave evidenceIds empty and the STAR fields null, and give an honest \`tip\` instead (how to bridge, what adjacent experience to name, how to show willingness to learn).
+3. **Questions this interviewer would really ask.** Ground them in the vacancy text: its responsibilities, must-haves, stack and culture. No generic filler like "What is your greatest weakness?" unless tied to the role.
+4. **Gap questions** probe one FIT WARNING each — phrase them the way a sceptical interviewer would, and set relatedWarningIndex.
+5. **STAR fields are outlines, not scripts.** 1-2 short sentences each, written to the candidate ("Beschrijf…", "Leg uit…" or first-person notes), easy to scan before the interview.
+6. **Questions to ask the employer** must be specific to this vacancy and company, and show the candidate read it. Avoid salary and holiday questions.`;
+}
+
+interface PromptInput {
+  profile: ParsedLinkedIn;
+  jobVacancy: JobVacancy;
+  content: GeneratedCVContent;
+  fitAnalysis: FitAnalysis | null;
+  motivationLetter: GeneratedMotivationLetter | null;
+  catalog: InterviewEvidence[];
+  warnings: FitWarning[];
+  interview: InterviewContext | null;
+  language: OutputLanguage;
+}
+
+function buildUserPrompt(input: PromptInput): string {
+  const { profile, jobVacancy, content, fitAnalysis, motivationLetter, catalog, warnings, interview } = input;
+
+  const evidenceLines = catalog.map(item => {
+    const [kind, index] = item.id.split('-');
+    const i = Number(index);
+    let detail = '';
+    if (kind === 'exp') detail = profile.experience[i]?.description ?? '';
+    if (kind === 'proj') {
+      const project = profile.projects?.[i];
+      detail = [project?.description, project?.technologies.length ? `[${project.technologies.join(', ')}]` : '']
+        .filter(Boolean)
+        .join(' ');
+    }
+    return `- ${item.id}: ${item.label}${detail ? `\n  ${detail}` : ''}`;
+  }).join('\n');
+
+  // The tailored CV shows how the candidate already framed each role for this vacancy.
+  const cvLines = content.experience.slice(0, 6).map(exp => {
+    const highlights = exp.highlights.map(h => `    • ${h}`).join('\n');
+    return `- ${exp.title} at ${exp.company} (${exp.period})${highlights ? `\n${highlights}` : ''}`;
+  }).join('\n');
+
+  const warningLines = warnings.length > 0
+    ? warnings.map((w, i) => `${i}. [${w.severity}] ${w.message} — ${w.detail}`).join('\n')
+    : 'None — skip gap questions.';
+
+  const strengthLines = fitAnalysis?.strengths.length
+    ? fitAnalysis.strengths.map(s => `- ${s.message} — ${s.detail}`).join('\n')
+    : 'Not analysed';
+
+  const interviewLine = interview
+    ? `This prep is for interview round ${interview.round} (${INTERVIEW_TYPE_NAMES_EN[interview.type]})${interview.interviewer ? ` with ${interview.interviewer}` : ''}. ${interview.round > 1 ? 'Earlier rounds covered the basics — lean towards depth, cases and team fit.' : 'Expect a mix of introduction, motivation and core competences.'}`
+    : 'Round unknown — prepare for a first interview.';
+
+  return `Prepare this candidate for an interview.
+
+${getCurrentDateContext(input.language)}
+
+## INTERVIEW
+${interviewLine}
+
+## TARGET VACANCY
+Position: ${jobVacancy.title}
+${jobVacancy.company ? `Company: ${jobVacancy.company}` : ''}
+${jobVacancy.industry ? `Industry: ${jobVacancy.industry}` : ''}
+
+### Description
+${jobVacancy.description}
+
+### Requirements
+${jobVacancy.requirements.map(r => `- ${r}`).join('\n')}
+${jobVacancy.mustHaveSkills?.length ? `\nMust-have: ${jobVacancy.mustHaveSkills.join(', ')}` : ''}
+${jobVacancy.niceToHaveSkills?.length ? `Nice-to-have: ${jobVacancy.niceToHaveSkills.join(', ')}` : ''}
+
+## EVIDENCE (the only material STAR outlines may use — cite by id)
+${evidenceLines || 'No experience, projects or education listed.'}
+
+Skills on profile: ${profile.skills.map(s => s.name).join(', ') || 'none listed'}
+
+## TAILORED CV (how the candidate presents these roles)
+${content.summary}
+${cvLines}
+
+## FIT STRENGTHS
+${strengthLines}
+
+## FIT WARNINGS (one gap question each, use the index)
+${warningLines}
+${motivationLetter ? `\n## MOTIVATION LETTER (they will be asked about this)\n${motivationLetter.fullText}` : ''}
+
+## OUTPUT
+- 4-5 behavioural questions with STAR outlines
+- 3-4 technical / role questions (STAR outline where a past example answers it best)
+- ${warnings.length > 0 ? `${warnings.length} gap question(s), one per warning` : 'no gap questions'}
+- 2 motivation questions (why this company, why this role)
+- 5 questions the candidate can ask the employer`;
+}
+
+// ============ Normalization ============
+
+function text(value: string | null | undefined): string {
+  return value?.trim() ?? '';
+}
+
+interface NormalizeContext {
+  catalog: InterviewEvidence[];
+  warnings: FitWarning[];
+  profile: ParsedLinkedIn;
+  language: OutputLanguage;
+}
+
+function normalizeInterviewPrep(
+  rawInput: unknown,
+  ctx: NormalizeContext,
+): { questions: InterviewQuestion[]; questionsToAsk: EmployerQuestion[] } {
+  type RawShape = RawPrep & { data?: RawPrep };
+  let raw = (rawInput ?? {}) as RawShape;
+  if (raw.data && typeof raw.data === 'object' && !raw.questions) {
+    raw = raw.data;
+  }
+
+  const catalogById = new Map(ctx.catalog.map(item => [item.id, item]));
+  const evidence = buildProfileEvidence(ctx.profile);
+
+  const questions: InterviewQuestion[] = [];
+  let strippedOutlines = 0;
+
+  for (const q of raw.questions ?? []) {
+    const question = text(q.question);
+    if (!question) continue;
+    const category: InterviewQuestionCategory = QUESTION_CATEGORIES.includes(q.category)
+      ? q.category
+      : 'behavioural';
+
+    const cited = [...new Set(q.evidenceIds ?? [])]
+      .map(id => catalogById.get(id.trim()))
+      .filter((item): item is InterviewEvidence => item !== undefined);
+    const star = {
+      situation: text(q.situation),
+      task: text(q.task),
+      action: text(q.action),
+      result: text(q.result),
+    };
+    const hasStar = Boolean(star.situation && star.action);
+    const hasOutline = hasStar && cited.length > 0;
+    if (hasStar && !hasOutline) strippedOutlines++;
+
+    const warning = q.relatedWarningIndex !== null && q.relatedWarningIndex !== undefined
+      ? ctx.warnings[q.relatedWarningIndex]
+      : undefined;
+
+    const tip = text(q.tip) || null;
+    questions.push({
+      category,
+      question,
+      why: text(q.why),
+      answer: hasOutline
+        ? { ...star, evidence: cited, skills: validateSkills(q.skills ?? [], evidence).kept }
+        : null,
+      // Without an outline the tip is the guidance — never leave the user empty-handed.
+      tip: tip ?? (hasOutline ? null : NO_EVIDENCE_TIP[ctx.language]),
+      relatedWarning: category === 'gap' && warning ? warning.message : null,
+    });
+  }
+
+  const questionsToAsk = (raw.questionsToAsk ?? [])
+    .map(q => ({ question: text(q.question), why: text(q.why) }))
+    .filter(q => q.question);
+
+  if (questions.length < MIN_QUESTIONS || questionsToAsk.length < MIN_EMPLOYER_QUESTIONS) {
+    throw new Error(
+      'Het AI-model gaf een onvolledige gespreksvoorbereiding terug. Probeer het opnieuw.',
+    );
+  }
+
+  if (strippedOutlines > 0) {
+    console.log(`[Interview Prep] Dropped ${strippedOutlines} STAR outline(s) without profile evidence`);
+  }
+
+  return { questions, questionsToAsk };
+}
+
+// ============ Public API ============
+
+/** Round details from the application timeline, when prep is for a scheduled interview. */
+export interface InterviewContext {
+  round: number;
+  type: InterviewType;
+  interviewer?: string;
+}
+
+export interface GenerateInterviewPrepOptions {
+  profile: ParsedLinkedIn;
+  jobVacancy: JobVacancy;
+  content: GeneratedCVContent;
+  fitAnalysis?: FitAnalysis | null;
+  motivationLetter?: GeneratedMotivationLetter | null;
+  language: OutputLanguage;
+  applicationId?: string | null;
+  interview?: InterviewContext | null;
+  provider: LLMProvider;
+  apiKey: string;
+  model: string;
+}
+
+export interface GenerateInterviewPrepResult {
+  pack: InterviewPrepPack;
+  usage: TokenUsage;
+}
+
+export async function generateInterviewPrep(
+  options: GenerateInterviewPrepOptions,
+): Promise<GenerateInterviewPrepResult> {
+  const { profile, jobVacancy, content, language, provider, apiKey, model } = options;
+  const catalog = buildEvidenceCatalog(profile);
+  const warnings = gapWarnings(options.fitAnalysis ?? null);
+  const interview = options.interview ?? null;
+
+  console.log(
+    `[Interview Prep] Generating prep in ${language} for ${jobVacancy.title}${interview ? ` (round ${interview.round})` : ''}`,
+  );
+
+  const { value, usage } = await generateObjectResilient({
+    provider,
+    apiKey,
+    model,
+    schema: interviewPrepSchema,
+    system: buildSystemPrompt(language),
+    prompt: buildUserPrompt({
+      profile,
+      jobVacancy,
+      content,
+      fitAnalysis: options.fitAnalysis ?? null,
+      motivationLetter: options.motivationLetter ?? null,
+      catalog,
+      warnings,
+      interview,
+      language,
+    }),
+    temperature: resolveTemperature(provider, model, 0.5),
+    normalize: raw => normalizeInterviewPrep(raw, { catalog, warnings, profile, language }),
+    logTag: 'Interview Prep',
+  });
+
+  return {
+    pack: {
+      language,
+      jobTitle: jobVacancy.title,
+      company: jobVacancy.company,
+      applicationId: options.applicationId ?? null,
+      round: interview?.round ?? null,
+      questions: value.questions,
+      questionsToAsk: value.questionsToAsk,
+      generatedAt: new Date().toISOString(),
+    },
+    usage,
+  };
+}
@@ -2,6 +2,11 @@ import { z } from 'zod';
 import { resolveTemperature } from './temperature';
 import { generateObjectResilient } from './generate-resilient';
 import { getCurrentDateContext } from './date-context';
+import {
+  applyStructuredJobData,
+  type StructuredField,
+  type StructuredJobData,
+} from '@/lib/jobs/crawl/structured';
 import type {
   ConfidenceLevel,
   ExperienceLevel,
@@ -106,7 +111,34 @@ function asSalaryPeriod(v: unknown): JobCompensation['salaryPeriod'] {
   return (VALID_SALARY_PERIODS as readonly string[]).includes(v) ? (v as JobCompensation['salaryPeriod']) : undefined;
 }
 
-function buildParsePrompt(rawText: string): string {
+// Facts the crawler already read from schema.org markup. The model is told
+// to leave them out; applyStructuredJobData puts them back afterwards, so
+// whatever it returns for them anyway is overwritten.
+function buildKnownFieldsSection(structured: StructuredJobData | null): string {
+  if (!structured) return '';
+  const { title, company, location, employmentType, industry, compensation } = structured.vacancy;
+  const lines: string[] = [];
+  if (title) lines.push(`- title: ${title}`);
+  if (company) lines.push(`- company: ${company}`);
+  if (location) lines.push(`- location: ${location}`);
+  if (employmentType) lines.push(`- employmentType: ${employmentType}`);
+  if (industry) lines.push(`- industry: ${industry}`);
+  if (compensation?.salaryMin || compensation?.salaryMax) {
+    lines.push(
+      `- salaris: ${compensation.salaryMin ?? '?'}–${compensation.salaryMax ?? '?'} ${compensation.salaryCurrency ?? 'EUR'} (${compensation.salaryPeriod ?? 'yearly'})`,
+    );
+  }
+  if (lines.length === 0) return '';
+  return `
+## Al bekend uit de gestructureerde gegevens van de pagina
+
+Deze waarden zijn betrouwbaar en worden automatisch overgenomen. Geef voor de verplichte velden \`title\` en \`industry\` dezelfde waarde terug; laat de overige genoemde velden (en bij een bekend salaris \`salaryMin\`/\`salaryMax\`) weg. Gebruik ze wél als context voor salaryEstimate en experienceRequired.
+
+${lines.join('\n')}
+`;
+}
+
+function buildParsePrompt(rawText: string, structured: StructuredJobData | null = null): string {
   return `Je bent een expert in het analyseren van vacatureteksten. Extraheer wat letterlijk in de tekst staat — niets meer.
 
 ${getCurrentDateContext('nl')}
@@ -151,7 +183,7 @@ Extraheer ALLEEN wat de vacaturetekst expliciet noemt. Leid niets af uit functie
 - **requiredEducation**, **requiredCertifications**: alleen als EXPLICIET vereist, niet bij "bij voorkeur".
 
 Bij twijfel: lege string/array bij verplichte velden, helemaal weglaten bij optionele.
-
+${buildKnownFieldsSection(structured)}
 ## Vacaturetekst
 
 ${rawText}
@@ -161,6 +193,8 @@ ${rawText}
 export interface ParseJobResult {
   vacancy: JobVacancy;
   usage: TokenUsage;
+  /** Fields taken from schema.org markup instead of the model's answer. */
+  structuredFields: StructuredField[];
 }
 
 export async function parseJobVacancy(
@@ -169,8 +203,10 @@ export async function parseJobVacancy(
   apiKey: string,
   model: string,
   sourceUrl?: string | null,
+  structured?: StructuredJobData | null,
 ): Promise<ParseJobResult> {
-  const prompt = buildParsePrompt(rawText);
+  const prompt = buildParsePrompt(rawText, structured ?? null);
+  let structuredFields: StructuredField[] = [];
 
   try {
     const { value, usage } = await generateObjectResilient({
@@ -180,11 +216,17 @@ export async function parseJobVacancy(
       schema: jobVacancySchema,
       prompt,
       temperature: resolveTemperature(provider, model, 0.3),
-      normalize: (raw) => normalizeJobVacancy(raw, rawText, sourceUrl ?? null),
+      normalize: (raw) => {
+        const vacancy = normalizeJobVacancy(raw, rawText, sourceUrl ?? null);
+        if (!structured) return vacancy;
+        const applied = applyStructuredJobData(vacancy, structured);
+        structuredFields = applied.fields;
+        return applied.vacancy;
+      },
       logTag: 'Job Parser',
     });
 
-    return { vacancy: value, usage };
+    return { vacancy: value, usage, structuredFields };
   } catch (error) {
     console.error('[Job Parser] Failed after all attempts:', error);
     throw error;
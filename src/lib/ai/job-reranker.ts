@@ -0,0 +1,118 @@
+/**
+ * Job Re-ranker
+ *
+ * Optional AI pass on top of the deterministic profile ranking
+ * (lib/jobs/profile-match). The keyword score can't tell a "Java" backend
+ * role from a "JavaScript" one, or see that a product owner has transferable
+ * experience for a scrum master vacancy; the model can. It only reorders the
+ * top of the list and adds a one-line reason per job — every job that goes
+ * in comes back out, so a sloppy answer can never hide results.
+ */
+
+import { z } from 'zod';
+import { resolveTemperature } from './temperature';
+import { generateObjectResilient } from './generate-resilient';
+import type { LLMProvider, ParsedLinkedIn, TokenUsage } from '@/types';
+import type { NormalizedJob } from '@/lib/jobs/providers/types';
+import type { JobProfileMatch } from '@/lib/jobs/profile-match';
+
+/** Jobs sent to the model; the rest keep their deterministic order. */
+export const RERANK_TOP_N = 10;
+
+const DESCRIPTION_CHARS = 600;
+
+const rerankSchema = z.object({
+  ranking: z.array(z.object({
+    index: z.number().describe('Index of the job in the list'),
+    score: z.number().describe('Fit 0-100 for this candidate'),
+    reason: z.string().describe('One short sentence: why this job does or does not fit'),
+  })).optional(),
+});
+
+export interface RerankedJob {
+  slug: string;
+  score: number;
+  reason: string;
+}
+
+function buildPrompt(profile: ParsedLinkedIn, jobs: NormalizedJob[], matches: Record<string, JobProfileMatch>): string {
+  const experience = profile.experience.slice(0, 5)
+    .map(exp => `- ${exp.title} @ ${exp.company} (${exp.startDate} – ${exp.endDate ?? 'present'})`)
+    .join('\n');
+
+  const jobLines = jobs.map((job, i) => {
+    const match = matches[job.slug];
+    const description = job.description.replace(/\s+/g, ' ').slice(0, DESCRIPTION_CHARS);
+    return `[${i}] ${job.title} — ${job.company ?? 'unknown company'}${job.location ? `, ${job.location}` : ''}
+    keyword score ${match?.score ?? 0}/100, level ${match?.jobLevel ?? 'unknown'}
+    ${description}`;
+  }).join('\n\n');
+
+  return `Rank these vacancies for the candidate, best fit first.
+
+## CANDIDATE
+${profile.headline ?? ''}
+${profile.location ? `Location: ${profile.location}` : ''}
+Experience:
+${experience || '- none listed'}
+Skills: ${profile.skills.map(s => s.name).join(', ') || 'none listed'}
+
+## VACANCIES
+${jobLines}
+
+Return every index exactly once.`;
+}
+
+export interface RerankJobsOptions {
+  profile: ParsedLinkedIn;
+  jobs: NormalizedJob[];
+  matches: Record<string, JobProfileMatch>;
+  provider: LLMProvider;
+  apiKey: string;
+  model: string;
+}
+
+export async function rerankJobsForProfile(
+  options: RerankJobsOptions,
+): Promise<{ ranking: RerankedJob[]; usage: TokenUsage }> {
+  const { profile, provider, apiKey, model } = options;
+  const jobs = options.jobs.slice(0, RERANK_TOP_N);
+
+  const { value, usage } = await generateObjectResilient({
+    provider,
+    apiKey,
+    model,
+    schema: rerankSchema,
+    system: 'You are an experienced recruiter. Judge fit on what the candidate has actually done — transferable experience counts, matching buzzwords alone do not. Be strict about seniority and hard requirements.',
+    prompt: buildPrompt(profile, jobs, options.matches),
+    temperature: resolveTemperature(provider, model, 0.2),
+    normalize: raw => {
+      const seen = new Set<number>();
+      const ranking: RerankedJob[] = [];
+      for (const item of (raw as z.infer<typeof rerankSchema>).ranking ?? []) {
+        const index = Math.round(Number(item?.index));
+        if (!(index >= 0 && index < jobs.length) || seen.has(index)) continue;
+        seen.add(index);
+        const score = Number(item.score);
+        ranking.push({
+          slug: jobs[index].slug,
+          score: Number.isFinite(score) ? Math.min(100, Math.max(0, Math.round(score))) : 0,
+          reason: typeof item.reason === 'string' ? item.reason.trim() : '',
+        });
+      }
+      if (ranking.length < Math.ceil(jobs.length / 2)) {
+        throw new Error('Rangschikking onvolledig');
+      }
+      // Anything the model skipped keeps its place after the ranked jobs
+      jobs.forEach((job, i) => {
+        if (!seen.has(i)) {
+          ranking.push({ slug: job.slug, score: options.matches[job.slug]?.score ?? 0, reason: '' });
+        }
+      });
+      return ranking;
+    },
+    logTag: 'Job Rerank',
+  });
+
+  return { ranking: value, usage };
+}
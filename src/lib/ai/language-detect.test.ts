@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { OutputLanguage } from '@/types';
+import { detectLanguageFromText } from './language-detect';
+
+// One realistic vacancy excerpt per supported output language. The wizard
+// only switches language on medium or high confidence, so 'low' is a failure.
+const FIXTURES: Record<OutputLanguage, string> = {
+  nl: `Wij zoeken een ervaren Data Engineer die ons team in Utrecht komt versterken.
+    Je werkt aan de data-infrastructuur van de organisatie en bouwt pipelines die
+    door het hele bedrijf worden gebruikt. Je hebt minimaal drie jaar ervaring met
+    Python en SQL, en je vindt het leuk om collega's te helpen. Wat wij bieden: een
+    goed salaris, een leaseauto en de ruimte om jezelf te ontwikkelen binnen een
+    groeiende organisatie.`,
+  en: `We are looking for an experienced Data Engineer to join our team in London.
+    You will own the data platform of the company and build pipelines that are used
+    across the business. Requirements: at least three years of experience with Python
+    and SQL, and a passion for mentoring. We offer a competitive salary, private health
+    insurance and room to grow within a scaling company.`,
+  de: `Wir suchen einen erfahrenen Data Engineer für unser Team in Berlin. Sie sind
+    verantwortlich für die Datenplattform des Unternehmens und bauen Pipelines, die
+    im ganzen Haus genutzt werden. Ihre Aufgaben: Sie entwickeln und betreiben unsere
+    Infrastruktur mit Python und SQL. Ihr Profil: mindestens drei Jahre Erfahrung und
+    gute Kenntnisse in Cloud-Technologien. Wir freuen uns auf Ihre Bewerbung.`,
+  fr: `Nous recherchons un Data Engineer expérimenté pour rejoindre notre équipe à Paris.
+    Vous serez responsable de la plateforme de données de l'entreprise et vous
+    construirez des pipelines utilisés dans toute la société. Votre profil : au moins
+    trois ans d'expérience avec Python et SQL, et le goût du travail en équipe. Nous
+    offrons un salaire attractif et des perspectives d'évolution.`,
+  es: `Importante empresa del sector de la logística en Valencia busca incorporar a un
+    Técnico de Operaciones que se encargue de la planificación de las rutas de transporte
+    y de la gestión de incidencias con los clientes. Se requiere formación en ingeniería
+    o similar, dominio de Excel y experiencia mínima de dos años en un puesto similar.
+    Valoraremos que el candidato tenga conocimientos de SAP y nivel alto de inglés.
+    Ofrecemos contrato indefinido, salario según valía y horario de lunes a viernes.`,
+};
+
+for (const [expected, text] of Object.entries(FIXTURES) as Array<[OutputLanguage, string]>) {
+  test(`detects ${expected} vacancy text with usable confidence`, () => {
+    const result = detectLanguageFromText(text);
+    assert.equal(result.language, expected);
+    assert.notEqual(result.confidence, 'low');
+    assert.equal(result.source, 'heuristic');
+  });
+}
+
+test('short text falls back to nl with low confidence', () => {
+  assert.deepEqual(detectLanguageFromText('Data Engineer gezocht'), {
+    language: 'nl',
+    confidence: 'low',
+    source: 'unsupported-fallback',
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * Lightweight language detection voor vacaturetekst.
  *
- * Doel: bepaal de output-taal voor template-fill (`nl` / `en`) zodat de
+ * Doel: bepaal de output-taal (`nl` / `en` / `de` / `fr` / `es`) zodat de
  * gebruiker niet handmatig de juiste taal hoeft te kiezen.
  *
  * Strategy: heuristic-first (stopwoord-frequentie) — alleen als die geen
@@ -11,7 +11,10 @@
 
 import type { OutputLanguage } from '@/types';
 
-// High-signal stopwoorden / function words die zelden in de andere taal voorkomen
+// High-signal stopwoorden / function words per taal. Woorden die in meer dan
+// één set staan (`de`, `en`, `la`, `die`, …) tellen naar rato mee — zie
+// MARKER_WEIGHTS — zodat de meest voorkomende Spaanse en Franse woorden niet
+// als Nederlands worden geteld.
 const NL_MARKERS = new Set([
   'de', 'het', 'een', 'en', 'van', 'om', 'voor', 'met', 'naar', 'zijn',
   'wij', 'jouw', 'onze', 'binnen', 'jaar', 'jaren', 'werken', 'werkzaam',
@@ -26,6 +29,52 @@ const EN_MARKERS = new Set([
   'candidate', 'responsibilities', 'qualifications',
 ]);
 
+const DE_MARKERS = new Set([
+  'der', 'die', 'das', 'und', 'mit', 'für', 'wir', 'sie', 'ihre', 'ihr',
+  'unser', 'unsere', 'ist', 'sind', 'eine', 'einen', 'oder', 'auf', 'bei',
+  'erfahrung', 'jahre', 'kenntnisse', 'stelle', 'aufgaben', 'unternehmen',
+  'bewerbung', 'gehalt', 'nicht', 'auch',
+]);
+
+const FR_MARKERS = new Set([
+  'le', 'la', 'les', 'des', 'et', 'du', 'pour', 'avec', 'nous', 'vous',
+  'votre', 'vos', 'notre', 'nos', 'est', 'sont', 'une', 'dans', 'sur',
+  'expérience', 'ans', 'poste', 'missions', 'profil', 'entreprise',
+  'candidat', 'salaire', 'compétences', 'au', 'de', 'en', 'un', 'qui',
+]);
+
+const ES_MARKERS = new Set([
+  'el', 'los', 'las', 'del', 'y', 'para', 'con', 'nosotros', 'tu', 'tus',
+  'su', 'sus', 'nuestro', 'nuestra', 'es', 'son', 'una', 'por', 'como',
+  'experiencia', 'años', 'puesto', 'empresa', 'requisitos', 'candidato',
+  'salario', 'conocimientos', 'funciones', 'se', 'de', 'la', 'en', 'que',
+  'al', 'lo', 'un', 'más', 'equipo', 'trabajo', 'buscamos', 'ofrecemos',
+]);
+
+const MARKERS: Record<OutputLanguage, Set<string>> = {
+  nl: NL_MARKERS,
+  en: EN_MARKERS,
+  de: DE_MARKERS,
+  fr: FR_MARKERS,
+  es: ES_MARKERS,
+};
+
+/**
+ * Weight per marker word: 1 / number of languages that list it. A word
+ * unique to one language scores a full point; `de` (nl/fr/es) a third to each.
+ */
+const MARKER_WEIGHTS: Map<string, Array<{ lang: OutputLanguage; weight: number }>> = (() => {
+  const langsByWord = new Map<string, OutputLanguage[]>();
+  for (const lang of Object.keys(MARKERS) as OutputLanguage[]) {
+    for (const word of MARKERS[lang]) {
+      langsByWord.set(word, [...(langsByWord.get(word) ?? []), lang]);
+    }
+  }
+  return new Map(
+    [...langsByWord].map(([word, langs]) => [word, langs.map(lang => ({ lang, weight: 1 / langs.length }))]),
+  );
+})();
+
 const TOKEN_RE = /[a-zà-öø-ÿ']+/giu;
 const MIN_TOKENS = 20;
 const CONFIDENCE_MARGIN = 0.15;
@@ -50,23 +99,28 @@ export function detectLanguageFromText(input: string | null | undefined): Langua
     return { language: 'nl', confidence: 'low', source: 'unsupported-fallback' };
   }
 
-  let nl = 0;
-  let en = 0;
+  const counts = Object.fromEntries(
+    (Object.keys(MARKERS) as OutputLanguage[]).map(lang => [lang, 0]),
+  ) as Record<OutputLanguage, number>;
   for (const tok of tokens) {
-    if (NL_MARKERS.has(tok)) nl++;
-    if (EN_MARKERS.has(tok)) en++;
+    for (const { lang, weight } of MARKER_WEIGHTS.get(tok) ?? []) {
+      counts[lang] += weight;
+    }
   }
 
-  const total = nl + en;
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
   if (total === 0) {
     return { language: 'nl', confidence: 'low', source: 'unsupported-fallback' };
   }
 
-  const nlRatio = nl / total;
-  const enRatio = en / total;
-  const margin = Math.abs(nlRatio - enRatio);
+  // Winner vs runner-up. Ties go to the earlier language in MARKERS order,
+  // so an ambiguous text still lands on the project default ('nl').
+  const ranked = (Object.keys(counts) as OutputLanguage[])
+    .map(lang => ({ lang, ratio: counts[lang] / total }))
+    .sort((a, b) => b.ratio - a.ratio);
+  const margin = ranked[0].ratio - ranked[1].ratio;
 
-  const language: OutputLanguage = nlRatio >= enRatio ? 'nl' : 'en';
+  const language: OutputLanguage = ranked[0].lang;
   const confidence: 'high' | 'medium' | 'low' =
     margin >= 0.5 ? 'high' : margin >= CONFIDENCE_MARGIN ? 'medium' : 'low';
 
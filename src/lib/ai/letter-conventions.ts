@@ -0,0 +1,121 @@
+/**
+ * Letter chrome per output language — salutation, sign-off, subject line
+ * and the phrases we strip when the model writes its own sign-off anyway.
+ *
+ * Shared by the motivation generator (plain-text letter) and the PDF/DOCX
+ * letter renderer, so both end the letter the same way.
+ */
+
+import type { OutputLanguage } from '@/types/language';
+
+export interface LetterConventions {
+  greeting: string;
+  /** Closing formula placed above the candidate's name. */
+  signOff: string;
+  /** "Betreft" / "Re" — label in front of the subject line. */
+  subjectLabel: string;
+  /** Lead-in for the job title in the subject line. */
+  applicationLabel: string;
+  /** Heading of the rendered PDF/DOCX letter. */
+  documentTitle: string;
+  /** Lower-case sign-off phrases, longest first. */
+  signOffPhrases: string[];
+}
+
+export const LETTER_CONVENTIONS: Record<OutputLanguage, LetterConventions> = {
+  nl: {
+    greeting: 'Geachte heer/mevrouw,',
+    signOff: 'Met vriendelijke groet,',
+    subjectLabel: 'Betreft',
+    applicationLabel: 'Sollicitatie',
+    documentTitle: 'Motivatiebrief',
+    signOffPhrases: [
+      'met vriendelijke groeten',
+      'met vriendelijke groet',
+      'met hartelijke groeten',
+      'met hartelijke groet',
+      'vriendelijke groeten',
+      'vriendelijke groet',
+      'hartelijke groeten',
+      'hartelijke groet',
+      'hoogachtend',
+    ],
+  },
+  en: {
+    greeting: 'Dear Hiring Manager,',
+    signOff: 'Kind regards,',
+    subjectLabel: 'Re',
+    applicationLabel: 'Application',
+    documentTitle: 'Cover Letter',
+    signOffPhrases: [
+      'yours sincerely',
+      'yours faithfully',
+      'yours truly',
+      'kind regards',
+      'best regards',
+      'warm regards',
+      'sincerely',
+      'regards',
+    ],
+  },
+  de: {
+    greeting: 'Sehr geehrte Damen und Herren,',
+    // German sign-offs take no trailing comma.
+    signOff: 'Mit freundlichen Grüßen',
+    subjectLabel: 'Betreff',
+    applicationLabel: 'Bewerbung als',
+    documentTitle: 'Anschreiben',
+    signOffPhrases: [
+      'mit freundlichen grüßen',
+      'mit freundlichen grüssen',
+      'freundliche grüße',
+      'freundliche grüsse',
+      'beste grüße',
+      'viele grüße',
+      'hochachtungsvoll',
+    ],
+  },
+  fr: {
+    greeting: 'Madame, Monsieur,',
+    signOff: "Veuillez agréer, Madame, Monsieur, l'expression de mes salutations distinguées.",
+    subjectLabel: 'Objet',
+    applicationLabel: 'Candidature au poste de',
+    documentTitle: 'Lettre de motivation',
+    signOffPhrases: [
+      "je vous prie d'agréer",
+      "je vous prie d’agréer",
+      'veuillez agréer',
+      'salutations distinguées',
+      'sincères salutations',
+      'bien cordialement',
+      'cordialement',
+    ],
+  },
+  es: {
+    greeting: 'Estimados señores:',
+    signOff: 'Atentamente,',
+    subjectLabel: 'Asunto',
+    applicationLabel: 'Candidatura al puesto de',
+    documentTitle: 'Carta de presentación',
+    signOffPhrases: [
+      'reciba un cordial saludo',
+      'un cordial saludo',
+      'saludos cordiales',
+      'atentamente',
+      'cordialmente',
+      'un saludo',
+    ],
+  },
+};
+
+/**
+ * Sign-off phrases of every language, the given one first. The model
+ * sometimes signs off in the language of the CV it mirrors rather than the
+ * requested one, so stripping always checks all of them.
+ */
+export function getSignOffPhrases(language: OutputLanguage): string[] {
+  const others = (Object.keys(LETTER_CONVENTIONS) as OutputLanguage[])
+    .filter(lang => lang !== language)
+    .flatMap(lang => LETTER_CONVENTIONS[lang].signOffPhrases);
+  return [...LETTER_CONVENTIONS[language].signOffPhrases, ...others];
+}
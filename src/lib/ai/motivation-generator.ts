@@ -13,6 +13,7 @@ import { z } from 'zod';
 import { resolveTemperature } from './temperature';
 import { generateObjectResilient } from './generate-resilient';
 import { humanizeMotivationLetter } from './humanizer';
+import { LETTER_CONVENTIONS, getSignOffPhrases } from './letter-conventions';
 import type {
   ParsedLinkedIn,
   JobVacancy,
@@ -22,6 +23,7 @@ import type {
   TokenUsage,
   OutputLanguage,
 } from '@/types';
+import { LANGUAGE_LOCALES } from '@/types/language';
 
 // Schema for structured motivation letter output.
 //
@@ -51,7 +53,7 @@ const motivationLetterSchema = z.object({
   ),
 });
 
-type MotivationSections = Required<{
+export type MotivationSections = Required<{
   opening: string;
   whyCompany: string;
   whyMe: string;
@@ -99,12 +101,17 @@ function normalizeMotivationSections(rawInput: unknown): MotivationSections {
   };
 }
 
+const MOTIVATION_LANGUAGE_INSTRUCTIONS: Record<OutputLanguage, string> = {
+  nl: `Schrijf in natuurlijk, professioneel Nederlands met de "u"-vorm. Geen letterlijke vertalingen uit het Engels, geen anglicismen, geen opgesomde adjectieven. Concrete werkwoorden (leidde, ontwikkelde, beheerde). Korte zinnen waar dat helderheid geeft.`,
+  en: `Write in natural, professional English. Confident and personable, not stiff. Short sentences where they aid clarity.`,
+  de: `Write in natural, professional German using the formal "Sie" form. No literal translations from English, no stacked adjectives, no Konjunktiv-heavy hedging ("ich würde mich freuen, wenn ich eventuell…"). Concrete verbs, short sentences where they aid clarity.`,
+  fr: `Write in natural, professional French using "vous". No literal translations from English, no anglicisms, no stacked adjectives. Concrete verbs (j'ai piloté, j'ai développé, j'ai géré), short sentences where they aid clarity. Keep French typography (space before ":", ";", "?").`,
+  es: `Write in natural, professional Spanish using the formal "usted" form. No literal translations from English, no anglicisms, no stacked adjectives. Concrete verbs (dirigí, desarrollé, gestioné), short sentences where they aid clarity.`,
+};
+
 // Build the system prompt for motivation letter generation
 function buildSystemPrompt(language: OutputLanguage): string {
-  const languageInstructions =
-    language === 'nl'
-      ? `Schrijf in natuurlijk, professioneel Nederlands met de "u"-vorm. Geen letterlijke vertalingen uit het Engels, geen anglicismen, geen opgesomde adjectieven. Concrete werkwoorden (leidde, ontwikkelde, beheerde). Korte zinnen waar dat helderheid geeft.`
-      : `Write in natural, professional English. Confident and personable, not stiff. Short sentences where they aid clarity.`;
+  const languageInstructions = MOTIVATION_LANGUAGE_INSTRUCTIONS[language];
 
   return `You are an expert cover letter writer. Generate a motivation letter that reads like a thoughtful human candidate wrote it — not an LLM.
 
@@ -354,34 +361,9 @@ function stripSignOff(closing: string, language: OutputLanguage): string {
 
   // Phrases that mark the start of a sign-off block. Everything from
   // the match position to the end of the string is stripped.
-  // Ordered longest-first so shorter substrings don't eat part of a
-  // longer phrase. Case-insensitive.
-  const dutchPhrases = [
-    'met vriendelijke groeten',
-    'met vriendelijke groet',
-    'met hartelijke groeten',
-    'met hartelijke groet',
-    'vriendelijke groeten',
-    'vriendelijke groet',
-    'hartelijke groeten',
-    'hartelijke groet',
-    'hoogachtend',
-  ];
-
-  const englishPhrases = [
-    'yours sincerely',
-    'yours faithfully',
-    'yours truly',
-    'kind regards',
-    'best regards',
-    'warm regards',
-    'sincerely',
-    'regards',
-  ];
-
-  const phrases = language === 'nl'
-    ? [...dutchPhrases, ...englishPhrases]
-    : [...englishPhrases, ...dutchPhrases];
+  // Longest-first per language so shorter substrings don't eat part of
+  // a longer phrase. Case-insensitive.
+  const phrases = getSignOffPhrases(language);
 
   let cleaned = closing.trim();
 
@@ -408,26 +390,52 @@ function stripSignOff(closing: string, language: OutputLanguage): string {
 // when the `language` flag passed in disagrees with what the model actually
 // wrote — e.g. user picked NL but the CV was already English so the model
 // mirrored that, or older CVs that never stored a `language` field.
-function detectLetterLanguage(text: string): OutputLanguage {
-  const lower = ` ${text.toLowerCase()} `;
-  // Tokens chosen for low collision: function words and common openers.
-  const dutchMarkers = [
+// Tokens chosen for low collision: function words and common openers.
+const LETTER_LANGUAGE_MARKERS: Record<OutputLanguage, string[]> = {
+  nl: [
     ' ik ', ' het ', ' uw ', ' mijn ', ' graag ', ' bij ', ' om ', ' van ',
     ' deze ', ' niet ', ' goed ', ' werk', ' ervaring', ' jaar ', ' zou ',
-  ];
-  const englishMarkers = [
+  ],
+  en: [
     ' i ', ' the ', ' your ', ' my ', ' glad ', ' would ', ' have ', ' with ',
     ' this ', ' not ', ' good ', ' work', ' experience', ' years ', ' team ',
-  ];
-  let nl = 0;
-  let en = 0;
-  for (const m of dutchMarkers) if (lower.includes(m)) nl += 1;
-  for (const m of englishMarkers) if (lower.includes(m)) en += 1;
-  return en > nl ? 'en' : 'nl';
+  ],
+  de: [
+    ' ich ', ' und ', ' ihr', ' mein', ' gerne ', ' bei ', ' der ', ' die ',
+    ' nicht ', ' für ', ' mit ', ' erfahrung', ' jahre', ' würde ', ' sehr ',
+  ],
+  fr: [
+    ' je ', ' et ', ' votre ', ' mon ', ' mes ', ' les ', ' des ', ' pour ',
+    ' avec ', ' pas ', ' dans ', ' expérience', ' ans ', ' serait ', ' est ',
+  ],
+  es: [
+    ' yo ', ' y ', ' su ', ' mi ', ' mis ', ' los ', ' las ', ' para ',
+    ' con ', ' del ', ' por ', ' una ', ' experiencia', ' años ', ' sería ',
+  ],
+};
+
+function detectLetterLanguage(text: string, requested: OutputLanguage): OutputLanguage {
+  const lower = ` ${text.toLowerCase()} `;
+  const score = (lang: OutputLanguage) =>
+    LETTER_LANGUAGE_MARKERS[lang].filter(m => lower.includes(m)).length;
+
+  // Only override the requested language when another one clearly scores
+  // higher; a tie keeps what the user asked for.
+  let best = requested;
+  let bestScore = score(requested);
+  for (const lang of Object.keys(LETTER_LANGUAGE_MARKERS) as OutputLanguage[]) {
+    const langScore = score(lang);
+    if (langScore > bestScore) {
+      best = lang;
+      bestScore = langScore;
+    }
+  }
+  return best;
 }
 
-// Generate complete formatted letter
-function formatFullLetter(
+// Generate complete formatted letter. Exported for the CV translator, which
+// rebuilds the letter chrome in the target language around translated sections.
+export function formatFullLetter(
   sections: MotivationSections,
   fullName: string,
   jobTitle: string,
@@ -441,29 +449,25 @@ function formatFullLetter(
     sections.opening, sections.whyCompany, sections.whyMe,
     sections.motivation, sections.closing,
   ].filter(Boolean).join(' ');
-  const detected = detectLetterLanguage(bodySample);
-  const effectiveLanguage: OutputLanguage = detected !== language ? detected : language;
+  const effectiveLanguage = detectLetterLanguage(bodySample, language);
+  const conventions = LETTER_CONVENTIONS[effectiveLanguage];
 
-  const date = new Date().toLocaleDateString(effectiveLanguage === 'nl' ? 'nl-NL' : 'en-US', {
+  const date = new Date().toLocaleDateString(LANGUAGE_LOCALES[effectiveLanguage], {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
   });
 
-  const greeting = effectiveLanguage === 'nl' ? 'Geachte heer/mevrouw,' : 'Dear Hiring Manager,';
-
-  const signOff = effectiveLanguage === 'nl' ? 'Met vriendelijke groet,' : 'Kind regards,';
-
   // Defensive strip of any sign-off the model included despite the
-  // prompt telling it not to. Use the detected language so we strip both
-  // NL and EN signoffs regardless of the original flag.
+  // prompt telling it not to. Use the detected language so we strip
+  // sign-offs in every language regardless of the original flag.
   const cleanedClosing = stripSignOff(sections.closing, effectiveLanguage);
 
   return `${date}
 
-${effectiveLanguage === 'nl' ? 'Betreft' : 'Re'}: ${effectiveLanguage === 'nl' ? 'Sollicitatie' : 'Application'} ${jobTitle}${companyName ? ` - ${companyName}` : ''}
+${conventions.subjectLabel}: ${conventions.applicationLabel} ${jobTitle}${companyName ? ` - ${companyName}` : ''}
 
-${greeting}
+${conventions.greeting}
 
 ${sections.opening}
 
@@ -475,7 +479,7 @@ ${sections.motivation}
 
 ${cleanedClosing}
 
-${signOff}
+${conventions.signOff}
 
 ${fullName}`;
 }
@@ -0,0 +1,34 @@
+/**
+ * Output-language helpers for prompts.
+ *
+ * The template fillers (DOCX segments, PDF fields, HTML reconstruction)
+ * keep two hand-tuned prompt sets: Dutch and English. German, French and
+ * Spanish run on the English set plus an explicit output-language note,
+ * rather than a third, fourth and fifth copy of every prompt.
+ */
+
+import type { OutputLanguage } from '@/types/language';
+
+/** Language names as they read inside an English prompt. */
+export const LANGUAGE_NAMES_EN: Record<OutputLanguage, string> = {
+  nl: 'Dutch',
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+};
+
+/** True when the English prompt set should be used for this language. */
+export function usesEnglishPrompts(language: OutputLanguage): boolean {
+  return language !== 'nl';
+}
+
+/**
+ * Extra prompt block for languages without their own prompt set. Empty for
+ * NL and EN, whose prompts already say which language to write in.
+ */
+export function getOutputLanguageNote(language: OutputLanguage): string {
+  if (language === 'nl' || language === 'en') return '';
+  const name = LANGUAGE_NAMES_EN[language];
+  return `\n--- OUTPUT LANGUAGE: ${name.toUpperCase()} ---\nWrite every value you fill in ${name}, including section labels and date words (e.g. "present"). Keep names, companies, schools and product names as they are.\n`;
+}
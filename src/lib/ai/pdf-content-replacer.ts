@@ -15,6 +15,7 @@ import { z } from 'zod';
 import { createAIProvider, type LLMProvider } from './providers';
 import { resolveTemperature } from './temperature';
 import { withRetry } from './retry';
+import { getOutputLanguageNote, usesEnglishPrompts } from './output-language';
 import {
   buildProfileSummary,
   buildJobSummary,
@@ -69,7 +70,7 @@ export async function fillPDFFields(opts: FillPDFFieldsOptions): Promise<PDFFill
   } = opts;
 
   const aiProvider = createAIProvider(provider, apiKey);
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
 
   const profileSummary = buildProfileSummary(profileData, language, customValues);
   const jobSummary = jobVacancy ? buildJobSummary(jobVacancy, language) : null;
@@ -84,7 +85,7 @@ ${fieldList}
 
 ${isEn ? 'PROFILE DATA' : 'PROFIELDATA'}:
 ${profileSummary}
-${jobSummary ? `\n${isEn ? 'TARGET JOB' : 'DOELVACATURE'}:\n${jobSummary}` : ''}${fitSummary}
+${jobSummary ? `\n${isEn ? 'TARGET JOB' : 'DOELVACATURE'}:\n${jobSummary}` : ''}${fitSummary}${getOutputLanguageNote(language)}
 ${customInstructions ? `\n--- ${isEn ? 'USER INSTRUCTIONS (IMPORTANT)' : 'GEBRUIKER INSTRUCTIES (BELANGRIJK)'} ---\n${customInstructions}\n` : ''}
 
 ${isEn
@@ -17,6 +17,7 @@ import puppeteer from 'puppeteer';
 import chromium from '@sparticuz/chromium';
 import { createAIProvider, type LLMProvider } from './providers';
 import { withRetry } from './retry';
+import { LANGUAGE_NAMES_EN } from './output-language';
 import type { RenderedPage } from '@/lib/pdf/pdf-to-image';
 import type { PDFBlueprint } from './pdf-template-analyzer';
 import type { ParsedLinkedIn, JobVacancy, OutputLanguage } from '@/types';
@@ -82,7 +83,6 @@ async function generateHTML(opts: ReconstructPDFOptions): Promise<string> {
     .filter(Boolean)
     .join('\n');
 
-  const isEn = language === 'en';
   const systemPrompt = `You are a CV/resume HTML reconstructor. You see the rendered page images of the
 original template AND a list of filled values per detected field. Recreate the template as a single
 self-contained HTML document with Tailwind utility classes that visually approximates the original.
@@ -96,7 +96,7 @@ REQUIREMENTS:
   If profile has more entries than the template originally showed, render them all.
 - Keep fonts neutral (system-ui / sans-serif). Use color classes that match the template (bg-slate-900 for dark accents, etc.).
 - For dates / sidebars / two-column layouts, use Tailwind grid/flex.
-- The output MUST be in the target job language (${isEn ? 'English' : 'Dutch'}). Translate any visible labels that come from the template (e.g. "Werkervaring" → "Work experience" when target is English).
+- The output MUST be in the target job language (${LANGUAGE_NAMES_EN[language]}). Translate any visible labels that come from the template (e.g. "Werkervaring" → "Work experience" when target is English).
 - Photo: if avatar is provided by caller, leave a <div data-photo-slot></div> placeholder where the photo should go and size it appropriately. The caller will insert the <img>.
 - Honesty: only render values present in the fill list — never invent.
 
@@ -155,7 +155,7 @@ function wrapInDocument(mainHtml: string, avatarUrl: string | null, language: Ou
     : '';
 
   return `<!DOCTYPE html>
-<html lang="${language === 'en' ? 'en' : 'nl'}">
+<html lang="${language}">
 <head>
 <meta charset="utf-8" />
 <title>CV</title>
@@ -1,8 +1,8 @@
 /**
  * Runtime platform-AI configuration stored in Firestore (`config/platform`).
  *
- * Lets admins pick which Claude model drives each platform AI operation
- * without a redeploy. Reads are cached in-process for 5 minutes to keep
+ * Lets admins pick which Claude model drives each platform AI operation, and
+ * set the daily spend ceilings (see spend-guard.ts), without a redeploy. Reads are cached in-process for 5 minutes to keep
  * per-request latency low; writes from the admin API invalidate the cache.
  *
  * Defaults are pulled from PLATFORM_MODEL.modelId, so a missing doc or
@@ -13,7 +13,9 @@ import { getAdminDb } from '@/lib/firebase/admin';
 import { FieldValue } from 'firebase-admin/firestore';
 import {
   PLATFORM_MODEL,
+  DEFAULT_SPEND_LIMITS,
   type PlatformOperation,
+  type SpendLimits,
 } from './platform-config';
 
 const CONFIG_COLLECTION = 'config';
@@ -29,12 +31,16 @@ export const PLATFORM_OPERATIONS: PlatformOperation[] = [
   'cv-chat',
 ];
 
+export const SPEND_LIMIT_KEYS = Object.keys(DEFAULT_SPEND_LIMITS) as Array<keyof SpendLimits>;
+
 export interface PlatformConfig {
   models: Record<PlatformOperation, string>;
+  spendLimits: SpendLimits;
 }
 
 interface StoredPlatformConfig {
   models?: Partial<Record<PlatformOperation, string>>;
+  spendLimits?: Partial<SpendLimits>;
   updatedAt?: unknown;
   updatedBy?: string;
 }
@@ -45,18 +51,23 @@ function defaultConfig(): PlatformConfig {
   const models = Object.fromEntries(
     PLATFORM_OPERATIONS.map((op) => [op, PLATFORM_MODEL.modelId]),
   ) as Record<PlatformOperation, string>;
-  return { models };
+  return { models, spendLimits: { ...DEFAULT_SPEND_LIMITS } };
 }
 
 function mergeWithDefaults(stored: StoredPlatformConfig | null): PlatformConfig {
   const base = defaultConfig();
-  if (!stored?.models) return base;
   for (const op of PLATFORM_OPERATIONS) {
-    const value = stored.models[op];
+    const value = stored?.models?.[op];
     if (typeof value === 'string' && value.trim().length > 0) {
       base.models[op] = value.trim();
     }
   }
+  for (const key of SPEND_LIMIT_KEYS) {
+    const value = stored?.spendLimits?.[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      base.spendLimits[key] = value;
+    }
+  }
   return base;
 }
 
@@ -81,8 +92,14 @@ export async function getPlatformModelFor(
   return config.models[operation] ?? PLATFORM_MODEL.modelId;
 }
 
+export async function getSpendLimits(): Promise<SpendLimits> {
+  const config = await getPlatformConfig();
+  return config.spendLimits;
+}
+
 export interface UpdatePlatformConfigInput {
   models?: Partial<Record<PlatformOperation, string>>;
+  spendLimits?: Partial<SpendLimits>;
 }
 
 export async function updatePlatformConfig(
@@ -105,6 +122,14 @@ export async function updatePlatformConfig(
     }
   }
 
+  if (input.spendLimits) {
+    for (const [key, value] of Object.entries(input.spendLimits)) {
+      if (!SPEND_LIMIT_KEYS.includes(key as keyof SpendLimits)) continue;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) continue;
+      update[`spendLimits.${key}`] = value;
+    }
+  }
+
   await docRef.set(update, { merge: true });
 
   cached = null;
@@ -32,7 +32,11 @@ export type PlatformOperation =
   | 'motivation-letter'
   | 'template-fill'
   | 'dispute-regenerate'
-  | 'cv-chat';
+  | 'cv-chat'
+  | 'cv-translate'
+  | 'interview-prep'
+  | 'mock-interview'
+  | 'job-rerank';
 
 export const PLATFORM_CREDIT_COSTS: Record<PlatformOperation, number> = {
   'profile-parse': 2,       // ~$0.30 cost (5K in + 3K out, full structured profile)
@@ -44,10 +48,14 @@ export const PLATFORM_CREDIT_COSTS: Record<PlatformOperation, number> = {
   'template-fill': 3,       // ~$0.21 cost (8K in + 1.25K out) — DOCX flow
   'dispute-regenerate': 0,  // Free when gatekeeper approves the dispute
   'cv-chat': 0,             // Handled manually in chat route (character-based billing)
+  'cv-translate': 2,        // ~$0.20 cost (4K in + 3K out) — content + letter, no humanizer pass
+  'interview-prep': 2,      // ~$0.20 cost (8K in + 4K out) — one pass, validation is deterministic
+  'mock-interview': 0,      // Handled manually in mock-interview route (same character-based billing as chat)
+  'job-rerank': 1,          // ~$0.06 cost (4K in + 0.6K out) — top 10 of a profile-ranked search
 };
 
 /**
- * Characters per credit in CV chat.
+ * Characters per credit in CV chat (and mock interviews).
  *
  * Chat is billed by cumulative conversation length (`messages` array). Each
  * turn re-sends the full conversation context to the model — cost grows
@@ -95,3 +103,26 @@ export const INTERNAL_COST_PER_CREDIT_EUR = 0.05;
 
 /** USD → EUR conversion used in admin views. Update when FX drifts > 5%. */
 export const USD_TO_EUR = 0.93;
+
+/**
+ * Daily platform-AI spend ceilings (USD, measured from recorded token usage)
+ * and anomaly thresholds. Admins override these in `config/platform`; 0
+ * disables a ceiling. Days are UTC.
+ */
+export interface SpendLimits {
+  /** Max spend per user per day before platform AI is paused for them */
+  userDailyUsd: number;
+  /** Max spend across all users per day before platform AI is paused */
+  globalDailyUsd: number;
+  /** Alert when a user's day exceeds this multiple of their usual active day */
+  anomalyMultiplier: number;
+  /** Never alert below this daily spend (USD), whatever the baseline */
+  anomalyMinUsd: number;
+}
+
+export const DEFAULT_SPEND_LIMITS: SpendLimits = {
+  userDailyUsd: 5,        // ~15 full CV flows — far beyond normal use
+  globalDailyUsd: 150,
+  anomalyMultiplier: 4,
+  anomalyMinUsd: 3,       // ~2.5 full CV flows — below this a spike is just a busy day
+};
@@ -20,6 +20,7 @@ import {
   type PlatformOperation,
 } from '@/lib/ai/platform-config';
 import { getPlatformModelFor } from '@/lib/ai/platform-config-reader';
+import { checkSpendCaps } from '@/lib/ai/spend-guard';
 import type { LLMMode } from '@/types';
 import { queueEmail } from '@/lib/email/send';
 import { renderCreditsLowEmail } from '@/lib/email/templates/credits-low';
@@ -55,7 +56,8 @@ interface ResolveOptions {
  * Resolve the AI provider for a user.
  *
  * - In 'own-key' mode: decrypts user's API key and creates provider
- * - In 'platform' mode: uses platform API key, deducts credits
+ * - In 'platform' mode: uses platform API key, enforces the daily spend
+ *   ceilings, deducts credits
  *
  * @throws ProviderError with appropriate HTTP status codes
  */
@@ -122,6 +124,8 @@ async function resolvePlatformProvider(
     );
   }
 
+  await assertWithinSpendCaps(userId);
+
   // Deduct credits if needed
   if (!skipCreditDeduction && operation) {
     const cost = PLATFORM_CREDIT_COSTS[operation] ?? 1;
@@ -151,6 +155,14 @@ async function resolvePlatformProvider(
 // Credit management helpers
 // ---------------------------------------------------------------------------
 
+/** Daily USD ceilings (see spend-guard.ts) — checked before any credits move. */
+async function assertWithinSpendCaps(userId: string): Promise<void> {
+  const verdict = await checkSpendCaps(userId);
+  if (verdict) {
+    throw new ProviderError(verdict.message, verdict.statusCode);
+  }
+}
+
 async function deductPlatformCredits(
   userId: string,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -219,7 +231,8 @@ async function deductPlatformCredits(
  * Charge platform credits for a given cost.
  * Used by routes that manage their own credit logic (e.g. character-based chat billing).
  *
- * @throws ProviderError with 402 if insufficient credits
+ * @throws ProviderError with 402 if insufficient credits, 429/503 when a daily
+ *   spend ceiling is reached
  */
 export async function chargePlatformCredits(
   userId: string,
@@ -232,6 +245,7 @@ export async function chargePlatformCredits(
     throw new ProviderError('User not found', 404);
   }
   const userData = userDoc.data()!;
+  await assertWithinSpendCaps(userId);
   await deductPlatformCredits(userId, userData, cost, operation);
 }
 
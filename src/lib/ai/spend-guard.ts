@@ -0,0 +1,330 @@
+/**
+ * Daily spend ceilings and anomaly alerts for platform-mode AI.
+ *
+ * Credits bound what a user can *buy*, not what a single account can cost us
+ * in a day — chat and repeated parses can burn far more tokens than their
+ * credit price suggests. This module keeps a USD rollup per user and for the
+ * whole platform per UTC day, fed by recordOperationUsage:
+ *
+ *   users/{uid}/aiSpendDaily/{YYYY-MM-DD}
+ *   platformSpendDaily/{YYYY-MM-DD}
+ *
+ * - checkSpendCaps() runs before every platform call (resolveProvider,
+ *   chargePlatformCredits). The check is against spend already recorded, so
+ *   concurrent in-flight calls can overshoot a ceiling by a call or two.
+ * - recordDailySpend() updates the rollups and raises admin alerts when a
+ *   ceiling is reached or a user's day is far above their own baseline.
+ *
+ * Alerts go to `adminAlerts` (one per type/user/day) and to the email queue
+ * for ADMIN_ALERT_EMAIL (falls back to ADMIN_EMAIL). Limits live in
+ * `config/platform` — see platform-config-reader.ts.
+ *
+ * Everything here fails open: a broken rollup must never block a paying user.
+ */
+
+import { getAdminDb } from '@/lib/firebase/admin';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getSpendLimits } from '@/lib/ai/platform-config-reader';
+import type { SpendLimits } from '@/lib/ai/platform-config';
+import { queueEmail } from '@/lib/email/send';
+import { renderSpendAlertEmail, type SpendAlertKind } from '@/lib/email/templates/spend-alert';
+
+const USER_SPEND_COLLECTION = 'aiSpendDaily';
+const GLOBAL_SPEND_COLLECTION = 'platformSpendDaily';
+const ADMIN_ALERTS_COLLECTION = 'adminAlerts';
+
+/** Days of history the anomaly baseline looks at. */
+const BASELINE_DAYS = 14;
+/** Fewer active days than this and there is no personal baseline yet. */
+const MIN_BASELINE_DAYS = 3;
+
+export type SpendAlertType = SpendAlertKind;
+
+export interface SpendAlert {
+  id: string;
+  type: SpendAlertType;
+  /** null for the global ceiling */
+  userId: string | null;
+  userEmail: string | null;
+  date: string;
+  costUsd: number;
+  thresholdUsd: number;
+  baselineUsd: number | null;
+  createdAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+export interface SpendCapVerdict {
+  scope: 'user' | 'global';
+  message: string;
+  statusCode: number;
+}
+
+/** UTC day key, e.g. "2026-03-14". */
+export function spendDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toIso(value: unknown): string | null {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : null;
+}
+
+function userDayRef(userId: string, date: string) {
+  return getAdminDb().collection('users').doc(userId).collection(USER_SPEND_COLLECTION).doc(date);
+}
+
+function globalDayRef(date: string) {
+  return getAdminDb().collection(GLOBAL_SPEND_COLLECTION).doc(date);
+}
+
+// ============ Enforcement ============
+
+/**
+ * Returns why a platform call must be refused, or null when it may proceed.
+ * Callers turn the verdict into their own error type.
+ */
+export async function checkSpendCaps(userId: string): Promise<SpendCapVerdict | null> {
+  try {
+    const limits = await getSpendLimits();
+    if (limits.userDailyUsd <= 0 && limits.globalDailyUsd <= 0) return null;
+
+    const date = spendDay();
+    const [userDay, globalDay] = await getAdminDb().getAll(userDayRef(userId, date), globalDayRef(date));
+
+    const globalCost = Number(globalDay.data()?.costUsd ?? 0);
+    if (limits.globalDailyUsd > 0 && globalCost >= limits.globalDailyUsd) {
+      return {
+        scope: 'global',
+        message:
+          'Platform AI is vandaag tijdelijk gepauzeerd. Probeer het morgen opnieuw of gebruik je eigen API key.',
+        statusCode: 503,
+      };
+    }
+
+    const userCost = Number(userDay.data()?.costUsd ?? 0);
+    if (limits.userDailyUsd > 0 && userCost >= limits.userDailyUsd) {
+      return {
+        scope: 'user',
+        message:
+          'Je hebt de daglimiet voor platform AI bereikt. Morgen kun je weer verder, of gebruik je eigen API key.',
+        statusCode: 429,
+      };
+    }
+    return null;
+  } catch (err) {
+    console.error('[spend-guard] checkSpendCaps failed, allowing call:', err);
+    return null;
+  }
+}
+
+// ============ Recording + alerts ============
+
+/**
+ * Add one platform call to today's rollups, then raise any alerts it
+ * triggers. Called from recordOperationUsage for platform-mode users only.
+ */
+export async function recordDailySpend(args: {
+  userId: string;
+  operation: string;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+}): Promise<void> {
+  const { userId, operation, costUsd, inputTokens, outputTokens } = args;
+  if (costUsd <= 0) return;
+
+  const date = spendDay();
+  const increments = {
+    date,
+    costUsd: FieldValue.increment(costUsd),
+    calls: FieldValue.increment(1),
+    inputTokens: FieldValue.increment(inputTokens),
+    outputTokens: FieldValue.increment(outputTokens),
+    operations: { [operation]: FieldValue.increment(costUsd) },
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  const batch = getAdminDb().batch();
+  batch.set(userDayRef(userId, date), { ...increments, userId }, { merge: true });
+  batch.set(globalDayRef(date), increments, { merge: true });
+  await batch.commit();
+
+  const limits = await getSpendLimits();
+  const [userDay, globalDay] = await getAdminDb().getAll(userDayRef(userId, date), globalDayRef(date));
+  const userCost = Number(userDay.data()?.costUsd ?? 0);
+  const globalCost = Number(globalDay.data()?.costUsd ?? 0);
+
+  if (limits.globalDailyUsd > 0 && globalCost >= limits.globalDailyUsd) {
+    await raiseSpendAlert({ type: 'global-cap', userId: null, date, costUsd: globalCost, thresholdUsd: limits.globalDailyUsd, baselineUsd: null });
+  }
+  if (limits.userDailyUsd > 0 && userCost >= limits.userDailyUsd) {
+    await raiseSpendAlert({ type: 'user-cap', userId, date, costUsd: userCost, thresholdUsd: limits.userDailyUsd, baselineUsd: null });
+  }
+  await detectSpendAnomaly(userId, date, userCost, limits);
+}
+
+/** Median spend of the user's active days in the baseline window, before today. */
+async function userBaseline(userId: string, date: string): Promise<number | null> {
+  const from = spendDay(new Date(Date.parse(date) - BASELINE_DAYS * 24 * 60 * 60 * 1000));
+  const snap = await getAdminDb()
+    .collection('users')
+    .doc(userId)
+    .collection(USER_SPEND_COLLECTION)
+    .where('date', '>=', from)
+    .where('date', '<', date)
+    .get();
+
+  const costs = snap.docs
+    .map((d) => Number(d.data().costUsd ?? 0))
+    .filter((c) => c > 0)
+    .sort((a, b) => a - b);
+  if (costs.length < MIN_BASELINE_DAYS) return null;
+  const mid = Math.floor(costs.length / 2);
+  return costs.length % 2 === 0 ? (costs[mid - 1] + costs[mid]) / 2 : costs[mid];
+}
+
+async function detectSpendAnomaly(
+  userId: string,
+  date: string,
+  todayCost: number,
+  limits: SpendLimits,
+): Promise<void> {
+  if (limits.anomalyMultiplier <= 0 || todayCost < limits.anomalyMinUsd) return;
+
+  const alertRef = getAdminDb().collection(ADMIN_ALERTS_COLLECTION).doc(alertId('anomaly', userId, date));
+  if ((await alertRef.get()).exists) return;
+
+  const baselineUsd = await userBaseline(userId, date);
+  const thresholdUsd = Math.max(limits.anomalyMinUsd, (baselineUsd ?? 0) * limits.anomalyMultiplier);
+  if (todayCost < thresholdUsd) return;
+
+  await raiseSpendAlert({ type: 'anomaly', userId, date, costUsd: todayCost, thresholdUsd, baselineUsd });
+}
+
+function alertId(type: SpendAlertType, userId: string | null, date: string): string {
+  return `${date}_${type}_${userId ?? 'global'}`;
+}
+
+function alertRecipients(): string[] {
+  const raw = process.env.ADMIN_ALERT_EMAIL || process.env.ADMIN_EMAIL || '';
+  return raw.split(',').map((e) => e.trim()).filter(Boolean);
+}
+
+/** Store the alert and email admins — at most once per type, user and day. */
+async function raiseSpendAlert(alert: {
+  type: SpendAlertType;
+  userId: string | null;
+  date: string;
+  costUsd: number;
+  thresholdUsd: number;
+  baselineUsd: number | null;
+}): Promise<void> {
+  const db = getAdminDb();
+  const userEmail = alert.userId
+    ? ((await db.collection('users').doc(alert.userId).get()).data()?.email as string | undefined) ?? null
+    : null;
+
+  try {
+    await db.collection(ADMIN_ALERTS_COLLECTION).doc(alertId(alert.type, alert.userId, alert.date)).create({
+      ...alert,
+      userEmail,
+      createdAt: FieldValue.serverTimestamp(),
+      acknowledgedAt: null,
+      acknowledgedBy: null,
+    });
+  } catch (err) {
+    // ALREADY_EXISTS — this alert was raised earlier today
+    if ((err as { code?: number }).code === 6) return;
+    throw err;
+  }
+
+  console.warn(
+    `[spend-guard] ${alert.type} user=${alert.userId ?? 'global'} cost=$${alert.costUsd.toFixed(2)} threshold=$${alert.thresholdUsd.toFixed(2)}`,
+  );
+
+  const { subject, html } = renderSpendAlertEmail({ ...alert, userEmail });
+  for (const to of alertRecipients()) {
+    queueEmail(to, subject, html);
+  }
+}
+
+// ============ Admin views ============
+
+export interface SpendOverview {
+  date: string;
+  limits: SpendLimits;
+  global: { costUsd: number; calls: number };
+  topUsers: Array<{ userId: string; email: string | null; costUsd: number; calls: number }>;
+}
+
+export async function getSpendOverview(topN = 10): Promise<SpendOverview> {
+  const db = getAdminDb();
+  const date = spendDay();
+  const [limits, globalDay, top] = await Promise.all([
+    getSpendLimits(),
+    globalDayRef(date).get(),
+    db.collectionGroup(USER_SPEND_COLLECTION)
+      .where('date', '==', date)
+      .orderBy('costUsd', 'desc')
+      .limit(topN)
+      .get(),
+  ]);
+
+  const userRefs = top.docs.map((d) => db.collection('users').doc(String(d.data().userId)));
+  const users = userRefs.length > 0 ? await db.getAll(...userRefs) : [];
+  const emails = new Map(users.map((u) => [u.id, (u.data()?.email as string | undefined) ?? null]));
+
+  return {
+    date,
+    limits,
+    global: {
+      costUsd: Number(globalDay.data()?.costUsd ?? 0),
+      calls: Number(globalDay.data()?.calls ?? 0),
+    },
+    topUsers: top.docs.map((d) => {
+      const data = d.data();
+      return {
+        userId: String(data.userId),
+        email: emails.get(String(data.userId)) ?? null,
+        costUsd: Number(data.costUsd ?? 0),
+        calls: Number(data.calls ?? 0),
+      };
+    }),
+  };
+}
+
+export async function listSpendAlerts(limit = 50): Promise<SpendAlert[]> {
+  const snap = await getAdminDb()
+    .collection(ADMIN_ALERTS_COLLECTION)
+    .orderBy('createdAt', 'desc')
+    .limit(limit)
+    .get();
+
+  return snap.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      type: data.type as SpendAlertType,
+      userId: (data.userId as string | null) ?? null,
+      userEmail: (data.userEmail as string | null) ?? null,
+      date: String(data.date ?? ''),
+      costUsd: Number(data.costUsd ?? 0),
+      thresholdUsd: Number(data.thresholdUsd ?? 0),
+      baselineUsd: typeof data.baselineUsd === 'number' ? data.baselineUsd : null,
+      createdAt: toIso(data.createdAt) ?? '',
+      acknowledgedAt: toIso(data.acknowledgedAt),
+      acknowledgedBy: (data.acknowledgedBy as string | null) ?? null,
+    };
+  });
+}
+
+/** Returns false when the alert doesn't exist. */
+export async function acknowledgeSpendAlert(id: string, adminUid: string): Promise<boolean> {
+  const ref = getAdminDb().collection(ADMIN_ALERTS_COLLECTION).doc(id);
+  if (!(await ref.get()).exists) return false;
+  await ref.update({ acknowledgedAt: FieldValue.serverTimestamp(), acknowledgedBy: adminUid });
+  return true;
+}
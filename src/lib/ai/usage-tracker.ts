@@ -10,12 +10,14 @@
  *      real generations?"
  *   - "Which user is consuming most tokens per credit?"
  *
- * Two write paths per call:
+ * Write paths per call:
  *
  *   1. Audit log entry on `users/{uid}/transactions` with type='usage_log'
  *      (amount=0, paired with the credit-deduction transaction)
  *   2. CV-level rollup on `users/{uid}/cvs/{cvId}` — appends to `aiUsage[]`
  *      and increments `aiUsageTotals.*` (when cvId is known)
+ *   3. Daily spend rollups for platform-mode users, which drive the spend
+ *      ceilings and anomaly alerts (see spend-guard.ts)
  *
  * Failures are swallowed and logged — telemetry must never break the user
  * flow.
@@ -28,6 +30,7 @@ import {
   DEFAULT_MODEL_PRICING,
   type PlatformOperation,
 } from '@/lib/ai/platform-config';
+import { recordDailySpend } from '@/lib/ai/spend-guard';
 
 export interface OperationUsage {
   inputTokens: number;
@@ -105,6 +108,18 @@ export async function recordOperationUsage(args: {
         updatedAt: new Date(),
       });
     }
+
+    // 3. Daily spend rollup — only platform calls cost us money
+    const userDoc = await db.collection('users').doc(userId).get();
+    if (userDoc.data()?.llmMode === 'platform') {
+      await recordDailySpend({
+        userId,
+        operation,
+        costUsd,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+      });
+    }
   } catch (err) {
     // Telemetry must never break the user flow.
     console.error('[usage-tracker] recordOperationUsage failed:', err);
@@ -57,6 +57,14 @@ export interface ProfileEvidence {
   languageSet: Set<string>;
   /** Normalized interest/hobby strings — for exact-match lookup. */
   interestSet: Set<string>;
+  /** Normalized publication and talk titles — for exact-match lookup. */
+  publicationTitleSet: Set<string>;
+  /** Normalized volunteering organization names — for exact-match lookup. */
+  volunteeringOrganizationSet: Set<string>;
+  /** Normalized award titles — for exact-match lookup. */
+  awardTitleSet: Set<string>;
+  /** Normalized referee names — for exact-match lookup. */
+  referenceNameSet: Set<string>;
 }
 
 /**
@@ -99,6 +107,24 @@ export function buildProfileEvidence(profile: ParsedLinkedIn): ProfileEvidence {
 
   for (const interest of profile.interests || []) parts.push(interest);
 
+  for (const pub of profile.publications || []) {
+    parts.push(pub.title);
+    parts.push(pub.publisher || '');
+    parts.push(pub.description || '');
+  }
+  for (const vol of profile.volunteering || []) {
+    parts.push(vol.role);
+    parts.push(vol.organization);
+    parts.push(vol.cause || '');
+    parts.push(vol.description || '');
+  }
+  for (const award of profile.awards || []) {
+    parts.push(award.title);
+    parts.push(award.issuer || '');
+    parts.push(award.description || '');
+  }
+  for (const ref of profile.references || []) parts.push(ref.name);
+
   const evidenceText = parts.map(normalizeText).filter(Boolean).join(' ');
 
   return {
@@ -110,6 +136,10 @@ export function buildProfileEvidence(profile: ParsedLinkedIn): ProfileEvidence {
     projectTitleSet: new Set((profile.projects || []).map(p => normalizeText(p.title)).filter(Boolean)),
     languageSet: new Set(profile.languages.map(l => normalizeText(l.language)).filter(Boolean)),
     interestSet: new Set((profile.interests || []).map(i => normalizeText(i)).filter(Boolean)),
+    publicationTitleSet: new Set((profile.publications || []).map(p => normalizeText(p.title)).filter(Boolean)),
+    volunteeringOrganizationSet: new Set((profile.volunteering || []).map(v => normalizeText(v.organization)).filter(Boolean)),
+    awardTitleSet: new Set((profile.awards || []).map(a => normalizeText(a.title)).filter(Boolean)),
+    referenceNameSet: new Set((profile.references || []).map(r => normalizeText(r.name)).filter(Boolean)),
   };
 }
 
@@ -221,6 +251,42 @@ export function validateInterests(interests: string[], evidence: ProfileEvidence
   });
 }
 
+export function validatePublications<T extends { title: string }>(
+  publications: T[],
+  evidence: ProfileEvidence,
+): ValidationResult<T> {
+  return partition(publications, p => hasEvidence(p.title, evidence.publicationTitleSet, evidence.evidenceText));
+}
+
+/**
+ * Volunteering is validated by organization, like experience by company —
+ * the role may be reframed.
+ */
+export function validateVolunteering<T extends { organization: string }>(
+  volunteering: T[],
+  evidence: ProfileEvidence,
+): ValidationResult<T> {
+  return partition(volunteering, v => hasEvidence(v.organization, evidence.volunteeringOrganizationSet, evidence.evidenceText));
+}
+
+export function validateAwards<T extends { title: string }>(
+  awards: T[],
+  evidence: ProfileEvidence,
+): ValidationResult<T> {
+  return partition(awards, a => hasEvidence(a.title, evidence.awardTitleSet, evidence.evidenceText));
+}
+
+/**
+ * References name real people, so only an exact name match counts — a
+ * referee whose name merely shares words with the profile is stripped.
+ */
+export function validateReferences<T extends { name: string }>(
+  references: T[],
+  evidence: ProfileEvidence,
+): ValidationResult<T> {
+  return partition(references, r => evidence.referenceNameSet.has(normalizeText(r.name)));
+}
+
 // ============ Top-level: validate a whole GeneratedCVContent ============
 
 export interface CVContentValidationLog {
@@ -232,6 +298,10 @@ export interface CVContentValidationLog {
   strippedEducation: Array<{ degree: string; institution: string }>;
   strippedLanguages: Array<{ language: string; level: string }>;
   strippedInterests: string[];
+  strippedPublications: string[];
+  strippedVolunteering: Array<{ role: string; organization: string }>;
+  strippedAwards: string[];
+  strippedReferences: string[];
 }
 
 export interface CVContentValidationResult {
@@ -261,6 +331,10 @@ export function validateCVContent(
   const education = validateEducation(content.education || [], evidence);
   const languages = validateLanguages(content.languages || [], evidence);
   const interests = validateInterests(content.interests || [], evidence);
+  const publications = validatePublications(content.publications || [], evidence);
+  const volunteering = validateVolunteering(content.volunteering || [], evidence);
+  const awards = validateAwards(content.awards || [], evidence);
+  const references = validateReferences(content.references || [], evidence);
 
   const log: CVContentValidationLog = {
     strippedSkillsTechnical: technical.stripped,
@@ -271,6 +345,10 @@ export function validateCVContent(
     strippedEducation: education.stripped.map(e => ({ degree: e.degree, institution: e.institution })),
     strippedLanguages: languages.stripped.map(l => ({ language: l.language, level: l.level })),
     strippedInterests: interests.stripped,
+    strippedPublications: publications.stripped.map(p => p.title),
+    strippedVolunteering: volunteering.stripped.map(v => ({ role: v.role, organization: v.organization })),
+    strippedAwards: awards.stripped.map(a => a.title),
+    strippedReferences: references.stripped.map(r => r.name),
   };
 
   const cleaned: GeneratedCVContent = {
@@ -282,6 +360,10 @@ export function validateCVContent(
     education: education.kept,
     languages: languages.kept,
     interests: interests.kept,
+    publications: publications.kept,
+    volunteering: volunteering.kept,
+    awards: awards.kept,
+    references: references.kept,
   };
 
   const hasAnyStripped =
@@ -292,7 +374,11 @@ export function validateCVContent(
     experience.stripped.length > 0 ||
     education.stripped.length > 0 ||
     languages.stripped.length > 0 ||
-    interests.stripped.length > 0;
+    interests.stripped.length > 0 ||
+    publications.stripped.length > 0 ||
+    volunteering.stripped.length > 0 ||
+    awards.stripped.length > 0 ||
+    references.stripped.length > 0;
 
   return { cleaned, log, hasAnyStripped };
 }
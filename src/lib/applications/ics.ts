@@ -0,0 +1,99 @@
+import type { ApplicationRecord } from '@/types/application';
+import { INTERVIEW_TYPE_LABELS } from './timeline';
+
+/**
+ * iCalendar (RFC 5545) export of interview rounds. Each interview keeps a
+ * stable UID, so re-importing the file updates events instead of
+ * duplicating them.
+ */
+
+const PRODID = '-//CVeetje//Sollicitaties//NL';
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Fold content lines at 75 octets (continuation lines start with a space). */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function buildInterviewCalendar(
+  applications: ApplicationRecord[],
+  now = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Sollicitatiegesprekken',
+  ];
+
+  for (const app of applications) {
+    for (const event of app.events) {
+      if (event.type !== 'interview' || !event.interview) continue;
+      const start = new Date(event.at);
+      if (Number.isNaN(start.getTime())) continue;
+      const end = new Date(start.getTime() + event.interview.durationMinutes * 60 * 1000);
+      const interview = event.interview;
+
+      const employer = app.jobCompany ? ` bij ${app.jobCompany}` : '';
+      const summary = `Gesprek ronde ${interview.round}: ${app.jobTitle}${employer}`;
+      const description = [
+        INTERVIEW_TYPE_LABELS[interview.type],
+        interview.interviewer ? `Met: ${interview.interviewer}` : null,
+        event.note || null,
+        app.jobUrl ? `Vacature: ${app.jobUrl}` : null,
+      ]
+        .filter(Boolean)
+        .join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${app.id}-${event.id}@cveetje.nl`,
+        `DTSTAMP:${formatUtc(now)}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DTEND:${formatUtc(end)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        ...(interview.location ? [`LOCATION:${escapeText(interview.location)}`] : []),
+        'BEGIN:VALARM',
+        'TRIGGER:-PT1H',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(summary)}`,
+        'END:VALARM',
+        'END:VEVENT',
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
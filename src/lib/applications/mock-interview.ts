@@ -0,0 +1,141 @@
+import type { UIMessage } from 'ai';
+import type {
+  MockInterviewDebrief,
+  MockInterviewEvaluation,
+  MockInterviewTranscript,
+  MockInterviewTurn,
+  StarElement,
+} from '@/types/application';
+import type { InterviewQuestionCategory } from '@/types/interview-prep';
+
+/**
+ * Mock interview transcripts, derived from the chat messages. Client-safe:
+ * the dialog shows scores live from the same parsing the server stores.
+ *
+ * The interviewer records its verdicts through two tools — `record_evaluation`
+ * after every answer and `finish_interview` once — so scores travel inside
+ * the message parts instead of being scraped from prose.
+ */
+
+export type MockInterviewToolName = 'record_evaluation' | 'finish_interview';
+
+/** Main questions per session before the interviewer wraps up. */
+export const MOCK_INTERVIEW_QUESTIONS = 6;
+
+/** Transcripts kept per application; older ones are dropped. */
+export const MAX_MOCK_INTERVIEWS = 5;
+
+const CATEGORIES: InterviewQuestionCategory[] = ['behavioural', 'technical', 'gap', 'motivation'];
+const STAR_ELEMENTS: StarElement[] = ['situation', 'task', 'action', 'result'];
+const MAX_TURN_CHARS = 4_000;
+
+function text(value: unknown, max = 1_000): string {
+  return typeof value === 'string' ? value.trim().slice(0, max) : '';
+}
+
+function textList(value: unknown, max = 6): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((item) => text(item, 300)).filter(Boolean).slice(0, max);
+}
+
+function clampScore(value: unknown, min: number, max: number): number {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n)) return min;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function normalizeEvaluation(input: unknown): MockInterviewEvaluation | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+  const question = text(raw.question);
+  if (!question) return null;
+  const category = CATEGORIES.find((c) => c === raw.category) ?? 'behavioural';
+  const starCovered = Array.isArray(raw.starCovered)
+    ? STAR_ELEMENTS.filter((el) => (raw.starCovered as unknown[]).includes(el))
+    : [];
+  return {
+    question,
+    category,
+    score: clampScore(raw.score, 1, 5),
+    starCovered,
+    feedback: text(raw.feedback),
+    unsupportedClaims: textList(raw.unsupportedClaims),
+  };
+}
+
+export function normalizeDebrief(input: unknown): MockInterviewDebrief | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+  const summary = text(raw.summary, 2_000);
+  if (!summary) return null;
+  return {
+    overallScore: clampScore(raw.overallScore, 0, 100),
+    summary,
+    strengths: textList(raw.strengths),
+    improvements: textList(raw.improvements),
+  };
+}
+
+/** Tool calls whose arguments have fully streamed in. */
+function toolInputs(message: UIMessage, toolName: MockInterviewToolName): unknown[] {
+  return message.parts
+    .filter((part) => part.type === `tool-${toolName}`)
+    .filter((part) => {
+      const state = (part as { state?: string }).state;
+      return state === 'input-available' || state === 'output-available';
+    })
+    .map((part) => (part as { input?: unknown }).input);
+}
+
+export interface ParsedMockInterview {
+  turns: MockInterviewTurn[];
+  evaluations: MockInterviewEvaluation[];
+  debrief: MockInterviewDebrief | null;
+}
+
+export function parseMockInterview(messages: UIMessage[]): ParsedMockInterview {
+  const turns: MockInterviewTurn[] = [];
+  const evaluations: MockInterviewEvaluation[] = [];
+  let debrief: MockInterviewDebrief | null = null;
+
+  for (const message of messages) {
+    const body = message.parts
+      .filter((part) => part.type === 'text')
+      .map((part) => (part as { text: string }).text)
+      .join('')
+      .trim();
+    if (body) {
+      turns.push({
+        role: message.role === 'user' ? 'candidate' : 'interviewer',
+        text: body.slice(0, MAX_TURN_CHARS),
+      });
+    }
+    if (message.role !== 'assistant') continue;
+    for (const input of toolInputs(message, 'record_evaluation')) {
+      const evaluation = normalizeEvaluation(input);
+      if (evaluation) evaluations.push(evaluation);
+    }
+    for (const input of toolInputs(message, 'finish_interview')) {
+      debrief = normalizeDebrief(input) ?? debrief;
+    }
+  }
+
+  return { turns, evaluations, debrief };
+}
+
+/** Average answer score (1–5), or null before the first evaluation. */
+export function averageAnswerScore(evaluations: MockInterviewEvaluation[]): number | null {
+  if (evaluations.length === 0) return null;
+  const total = evaluations.reduce((sum, e) => sum + e.score, 0);
+  return Math.round((total / evaluations.length) * 10) / 10;
+}
+
+/** Replace or add `transcript`, newest first, capped at MAX_MOCK_INTERVIEWS. */
+export function upsertTranscript(
+  transcripts: MockInterviewTranscript[],
+  transcript: MockInterviewTranscript,
+): MockInterviewTranscript[] {
+  return [transcript, ...transcripts.filter((t) => t.id !== transcript.id)]
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, MAX_MOCK_INTERVIEWS);
+}
@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import type {
+  ApplicationEvent,
+  ApplicationRecord,
+  ApplicationStatus,
+  MockInterviewTranscript,
+} from '@/types/application';
+import { DEFAULT_FOLLOW_UP_DAYS, sortEvents } from './timeline';
+
+/** Firestore doc → ApplicationRecord. Server-only (admin Timestamp). */
+
+function serializeDate(value: unknown): string {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  return new Date().toISOString();
+}
+
+export function toApplicationRecord(
+  id: string,
+  data: Record<string, unknown>,
+): ApplicationRecord {
+  return {
+    id,
+    userId: String(data.userId ?? ''),
+    jobSlug: String(data.jobSlug ?? ''),
+    jobTitle: String(data.jobTitle ?? ''),
+    jobCompany: (data.jobCompany as string | null) ?? null,
+    jobLocation: (data.jobLocation as string | null) ?? null,
+    jobUrl: String(data.jobUrl ?? ''),
+    provider: (data.provider as ApplicationRecord['provider']) ?? 'recruitee',
+    providerCompanyId: (data.providerCompanyId as string | null) ?? null,
+    providerApplicationId: (data.providerApplicationId as string | null) ?? null,
+    cvId: (data.cvId as string | null) ?? null,
+    status: (data.status as ApplicationStatus) ?? 'applied',
+    notes: (data.notes as string | undefined) ?? undefined,
+    events: sortEvents(Array.isArray(data.events) ? (data.events as ApplicationEvent[]) : []),
+    // Applications from before follow-ups existed get the default window.
+    followUpAfterDays:
+      data.followUpAfterDays === undefined
+        ? DEFAULT_FOLLOW_UP_DAYS
+        : ((data.followUpAfterDays as number | null) ?? null),
+    mockInterviews: Array.isArray(data.mockInterviews)
+      ? (data.mockInterviews as MockInterviewTranscript[])
+      : [],
+    appliedAt: serializeDate(data.appliedAt),
+    updatedAt: serializeDate(data.updatedAt),
+  };
+}
+
+export function statusChangeEvent(
+  fromStatus: ApplicationStatus,
+  toStatus: ApplicationStatus,
+  at = new Date().toISOString(),
+): ApplicationEvent {
+  return { id: randomUUID(), type: 'status_change', at, fromStatus, toStatus };
+}
@@ -0,0 +1,88 @@
+import type {
+  ApplicationEvent,
+  ApplicationRecord,
+  ApplicationStatus,
+  InterviewType,
+} from '@/types/application';
+
+/**
+ * Pure helpers over an application's event timeline — shared by the API
+ * routes, the applications page and the ICS export. Client-safe.
+ */
+
+/** "No response after N days" window for new applications. */
+export const DEFAULT_FOLLOW_UP_DAYS = 7;
+export const FOLLOW_UP_DAY_OPTIONS = [3, 7, 14, 21];
+/** Cap on stored events per application; the oldest non-status events go first. */
+export const MAX_APPLICATION_EVENTS = 200;
+
+export const INTERVIEW_TYPE_LABELS: Record<InterviewType, string> = {
+  phone: 'Telefonisch',
+  video: 'Videogesprek',
+  onsite: 'Op locatie',
+  assessment: 'Assessment',
+};
+
+/** Only these statuses are waiting on the employer. */
+const FOLLOW_UP_STATUSES: ApplicationStatus[] = ['applied', 'interview'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function sortEvents(events: ApplicationEvent[]): ApplicationEvent[] {
+  return [...events].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
+
+/** Most recent moment something happened (scheduled interviews in the future don't count). */
+export function lastActivityAt(app: ApplicationRecord, now = new Date()): Date {
+  let last = Date.parse(app.appliedAt);
+  for (const event of app.events) {
+    const at = Date.parse(event.at);
+    if (at <= now.getTime() && at > last) last = at;
+  }
+  return new Date(last);
+}
+
+export function upcomingInterviews(
+  app: ApplicationRecord,
+  now = new Date(),
+): ApplicationEvent[] {
+  return sortEvents(app.events).filter(
+    (e) => e.type === 'interview' && Date.parse(e.at) > now.getTime(),
+  );
+}
+
+/**
+ * When the user should chase the employer: `followUpAfterDays` after the
+ * last activity. Null when reminders are off, the application is closed, or
+ * an interview is already on the calendar.
+ */
+export function followUpDueAt(app: ApplicationRecord, now = new Date()): Date | null {
+  if (!app.followUpAfterDays) return null;
+  if (!FOLLOW_UP_STATUSES.includes(app.status)) return null;
+  if (upcomingInterviews(app, now).length > 0) return null;
+  return new Date(lastActivityAt(app, now).getTime() + app.followUpAfterDays * DAY_MS);
+}
+
+export function isFollowUpDue(app: ApplicationRecord, now = new Date()): boolean {
+  const due = followUpDueAt(app, now);
+  return due !== null && due.getTime() <= now.getTime();
+}
+
+/** Whole days since the last activity, for "al 9 dagen niets gehoord". */
+export function daysSinceActivity(app: ApplicationRecord, now = new Date()): number {
+  return Math.floor((now.getTime() - lastActivityAt(app, now).getTime()) / DAY_MS);
+}
+
+/** Drop the oldest events beyond the cap, keeping status changes (the audit trail). */
+export function capEvents(events: ApplicationEvent[]): ApplicationEvent[] {
+  const sorted = sortEvents(events);
+  let excess = sorted.length - MAX_APPLICATION_EVENTS;
+  if (excess <= 0) return sorted;
+  return sorted.filter((e) => {
+    if (excess > 0 && e.type !== 'status_change') {
+      excess -= 1;
+      return false;
+    }
+    return true;
+  });
+}
@@ -6,25 +6,34 @@
  * SKILL.md content is fed into the AI prompt stack via composeSystemPrompt
  * — the body is the "brand voice" the AI reads to understand what the
  * recipe is asking for. Frontmatter is already parsed into the typed
- * DesignSpec elsewhere.
+ * DesignSpec elsewhere. A recipe that sets `vendor: <skill>` and leaves its
+ * own body empty borrows the body of recipes/_vendor/<skill>/SKILL.md.
  */
 
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
+import { parseFrontmatter } from '../recipes/parse';
 
 const cache = new Map<string, string>();
 
-/** Strip YAML frontmatter (between leading `---` lines) and return the body. */
-function stripFrontmatter(content: string): string {
-  const match = content.match(/^---\n[\s\S]*?\n---\n([\s\S]*)$/);
-  return (match ? match[1] : content).trim();
+const RECIPES_DIR = join(process.cwd(), 'src', 'lib', 'cv-engine', 'recipes');
+
+/** Split a SKILL.md, tolerating frontmatter the YAML reader rejects. */
+function splitSkill(content: string): { vendor: string | null; body: string } {
+  try {
+    const { frontmatter, body } = parseFrontmatter(content);
+    return { vendor: typeof frontmatter.vendor === 'string' ? frontmatter.vendor : null, body };
+  } catch {
+    const match = content.match(/^---\n[\s\S]*?\n---\n([\s\S]*)$/);
+    return { vendor: null, body: (match ? match[1] : content).trim() };
+  }
 }
 
 export async function loadSkillBody(recipeId: string): Promise<string> {
   if (cache.has(recipeId)) return cache.get(recipeId)!;
   const [route, name] = recipeId.split('/');
   if (!route || !name) throw new Error(`Invalid recipeId "${recipeId}"`);
-  const path = join(process.cwd(), 'src', 'lib', 'cv-engine', 'recipes', route, name, 'SKILL.md');
+  const path = join(RECIPES_DIR, route, name, 'SKILL.md');
   let raw: string;
   try {
     raw = await readFile(path, 'utf-8');
@@ -33,7 +42,16 @@ export async function loadSkillBody(recipeId: string): Promise<string> {
     cache.set(recipeId, '');
     return '';
   }
-  const body = stripFrontmatter(raw);
+  const { vendor, body: ownBody } = splitSkill(raw);
+  let body = ownBody;
+  if (!body && vendor) {
+    const vendorPath = join(RECIPES_DIR, '_vendor', vendor, 'SKILL.md');
+    try {
+      body = splitSkill(await readFile(vendorPath, 'utf-8')).body;
+    } catch {
+      console.warn(`[cv-engine] vendored SKILL.md not found for ${recipeId} at ${vendorPath}; using empty body.`);
+    }
+  }
   cache.set(recipeId, body);
   return body;
 }
@@ -7,22 +7,11 @@
  */
 
 import type { DesignSpec, FontPairingId, OklchValue, PaletteRole } from '../spec';
-import type { CVStyleTokensV2, Emphasis, PaletteOverride } from '../tokens';
+import { DEFAULT_SECTION_ORDER, type CVStyleTokensV2, type Emphasis, type PaletteOverride } from '../tokens';
 import { clampOklch } from '../render/css/oklch';
 
 const ROLES: PaletteRole[] = ['ink', 'paper', 'accent', 'muted', 'surface'];
 
-const DEFAULT_SECTION_ORDER = [
-  'summary',
-  'experience',
-  'education',
-  'skills',
-  'languages',
-  'certifications',
-  'projects',
-  'interests',
-];
-
 /** Permissive AI emphasis shape — strings without length limits. Same field
  *  names as the strict `Emphasis` but we don't reject overflow at the AI-SDK
  *  schema layer; we truncate to the canonical limits here instead. */
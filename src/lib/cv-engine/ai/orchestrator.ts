@@ -18,7 +18,7 @@ import type { JobVacancy, LLMProvider, StyleCreativityLevel, TokenUsage } from '
 import type { CVStyleTokensV2 } from '../tokens';
 import { PaletteOverrideSchema } from '../tokens';
 import { FontPairingIdSchema, type DesignSpec } from '../spec';
-import { listRecipesByRoute, getRecipeById } from '../recipes/registry';
+import { listRecipesByRoute, getRecipeById, isCustomRecipeId } from '../recipes/registry';
 import { creativityLevelToRoute } from './level-map';
 import { normalizeTokens } from './normalize';
 import { loadSkillBody } from './load-skill-body';
@@ -42,6 +42,12 @@ export interface OrchestratorInput {
   hasPhoto: boolean;
   /** Recently-used recipeIds (from user's last N CVs). Drives rotation. */
   recipeUsageHistory?: string[];
+  /** Stored (user/organisation) recipes this user may use — those on the
+   *  level's route join the static candidates. */
+  customRecipes?: DesignSpec[];
+  /** Explicit pick from the style picker: skip the selection and let the AI
+   *  only fill in emphasis and overrides. Static id or one of customRecipes. */
+  recipeId?: string;
 }
 
 export interface OrchestratorResult {
@@ -120,7 +126,8 @@ async function buildRecipeCandidatesLayer(ranked: RankedCandidate[]): Promise<st
   const lines: string[] = ['## Available recipes (pick exactly one)'];
   for (const c of ranked) {
     const r = c.recipe;
-    const skillBody = await loadSkillBody(r.id);
+    // Stored recipes have no SKILL.md; their description is the whole brief.
+    const skillBody = isCustomRecipeId(r.id) ? '' : await loadSkillBody(r.id);
     // Compact preview: first non-blank line after the first heading, or the
     // description if SKILL.md is sparse. Helps the AI grok the recipe's
     // character without paying for the whole body in every call.
@@ -128,6 +135,7 @@ async function buildRecipeCandidatesLayer(ranked: RankedCandidate[]): Promise<st
     const preview = previewLines.slice(0, 4).join(' ').slice(0, 320);
 
     const tags: string[] = [];
+    if (isCustomRecipeId(r.id)) tags.push('house style');
     if (c.industryFit) tags.push('industry-fit');
     if (c.useCount > 0) tags.push(`recent (${c.useCount}×)`);
     const tagsStr = tags.length ? ` [${tags.join(', ')}]` : '';
@@ -176,8 +184,20 @@ Pick exactly one recipeId from the candidates above. Fill in \`emphasis\` with c
 // ============ Main ============
 
 export async function generateStyleTokensV2(input: OrchestratorInput): Promise<OrchestratorResult> {
-  const route = creativityLevelToRoute(input.creativityLevel);
-  const candidates = listRecipesByRoute(route);
+  const customRecipes = input.customRecipes ?? [];
+  // A stored recipe only resolves from the caller's own customRecipes
+  const pinned = !input.recipeId
+    ? undefined
+    : isCustomRecipeId(input.recipeId)
+      ? customRecipes.find(r => r.id === input.recipeId)
+      : getRecipeById(input.recipeId);
+  if (input.recipeId && !pinned) {
+    throw new Error(`cv-engine: unknown recipeId "${input.recipeId}"`);
+  }
+  const route = pinned?.route ?? creativityLevelToRoute(input.creativityLevel);
+  const candidates = pinned
+    ? [pinned]
+    : [...listRecipesByRoute(route), ...customRecipes.filter(r => r.route === route)];
   if (candidates.length === 0) {
     throw new Error(`cv-engine: no recipes registered for route "${route}"`);
   }
@@ -237,8 +257,8 @@ export async function generateStyleTokensV2(input: OrchestratorInput): Promise<O
 
   // Validate recipeId against candidates; fall back to the highest-ranked
   // candidate if the AI invented one.
-  let recipe = getRecipeById(value.recipeId);
-  if (!recipe || recipe.route !== route) {
+  let recipe = candidates.find(r => r.id === value.recipeId);
+  if (!recipe) {
     console.warn(`[cv-engine] AI returned invalid recipeId "${value.recipeId}"; falling back to ${ranked[0].recipe.id}`);
     recipe = ranked[0].recipe;
   }
@@ -11,12 +11,14 @@
  */
 
 import type { GeneratedCVContent, CVContactInfo, CVElementOverrides } from '@/types';
-import type { CVDesignTokens } from '@/types/design-tokens';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
 import { generateCVHTML } from '@/lib/cv/html-generator';
 import type { CVStyleTokensV2 } from './tokens';
+import type { DesignSpec } from './spec';
 import { composeCV } from './render/compose';
 import type { ContactInfo } from './render/primitives/header';
 import type { PageMode } from './render/css/reset.css';
+import type { Locale } from './render/labels';
 
 export type AnyCVTokens = CVDesignTokens | CVStyleTokensV2 | null | undefined;
 
@@ -46,7 +48,11 @@ export interface RenderCVOptions {
   /** v2 page-output mode. Defaults to 'a4-paged'. */
   pageMode?: PageMode;
   /** v2 locale. Defaults to 'nl'. */
-  locale?: 'nl' | 'en';
+  locale?: Locale;
+  /** Output sheet for both engines. Beats the token-stored paperSize; default 'a4'. */
+  paperSize?: PaperSize;
+  /** v2: the CV owner's stored recipes, for `custom-` recipe ids (server renders). */
+  customRecipes?: readonly DesignSpec[];
 }
 
 export function renderCV(
@@ -62,6 +68,8 @@ export function renderCV(
       locale: opts.locale ?? 'nl',
       // Per-render override beats token-stored pageMode; default 'a4-paged'.
       pageMode: opts.pageMode ?? tokens.pageMode ?? 'a4-paged',
+      paperSize: opts.paperSize ?? tokens.paperSize ?? 'a4',
+      customRecipes: opts.customRecipes,
     });
     return html;
   }
@@ -75,6 +83,6 @@ export function renderCV(
     opts.headline,
     opts.overrides,
     opts.contactInfo,
-    opts.legacyOptions,
+    opts.paperSize ? { ...opts.legacyOptions, paperSize: opts.paperSize } : opts.legacyOptions,
   );
 }
@@ -0,0 +1,28 @@
+/**
+ * ATS parseability score (0–100) per recipe, measured on a fixture CV.
+ *
+ * GENERATED by scripts/ats-benchmark.mts --write — do not edit by hand.
+ * The style picker warns about recipes below ATS_WARNING_THRESHOLD
+ * (src/lib/cv/ats-check.ts).
+ */
+
+export const RECIPE_ATS_SCORES: Record<string, number> = {
+  'safe/clerk': 90,
+  'safe/monolith': 90,
+  'safe/plate': 90,
+  'balanced/almanac': 90,
+  'balanced/grid': 50,
+  'balanced/press': 90,
+  'balanced/studio': 90,
+  'creative/chronicle': 90,
+  'creative/gentlewoman': 63,
+  'creative/kinfolk': 63,
+  'creative/wallpaper': 63,
+  'experimental/broadcast': 50,
+  'experimental/gallery': 70,
+  'experimental/manifesto': 48,
+};
+
+export function getRecipeATSScore(recipeId: string): number | undefined {
+  return RECIPE_ATS_SCORES[recipeId];
+}
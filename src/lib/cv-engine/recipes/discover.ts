@@ -0,0 +1,138 @@
+/**
+ * Recipe folder discovery (Node only — used by scripts/build-recipes.mts and
+ * the server-side SKILL.md body loader, never by the browser registry).
+ *
+ * Every `recipes/{route}/{name}/SKILL.md` is a recipe. A sibling `spec.ts`
+ * is optional: when present it stays the typed source the registry imports,
+ * and scripts/build-recipes.mts fails if the SKILL.md frontmatter differs
+ * from it; without one the frontmatter *is* the spec. `recipes/_vendor/*` holds verbatim open-design
+ * skills, which only become recipes through a `vendor:` reference.
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import type { DesignSpec } from '../spec';
+import {
+  RECIPE_ROUTES,
+  RecipeParseError,
+  isOpenDesignSkill,
+  parseFrontmatter,
+  parseRecipeSkill,
+} from './parse';
+
+export const RECIPES_DIR = join(process.cwd(), 'src', 'lib', 'cv-engine', 'recipes');
+export const VENDOR_DIR_NAME = '_vendor';
+
+export interface DiscoveredRecipe {
+  id: string;
+  spec: DesignSpec;
+  /** Relative import path of a hand-written spec.ts, when the folder has one */
+  specModule: string | null;
+  vendor: string | null;
+  file: string;
+}
+
+export interface VendoredSkill {
+  name: string;
+  description: string;
+  file: string;
+}
+
+export interface RecipeDiscovery {
+  recipes: DiscoveredRecipe[];
+  vendored: VendoredSkill[];
+  errors: RecipeParseError[];
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function subdirectories(dir: string): Promise<string[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.filter((e) => e.isDirectory()).map((e) => e.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+export async function listVendoredSkills(root = RECIPES_DIR): Promise<VendoredSkill[]> {
+  const out: VendoredSkill[] = [];
+  for (const name of await subdirectories(join(root, VENDOR_DIR_NAME))) {
+    const file = join(root, VENDOR_DIR_NAME, name, 'SKILL.md');
+    if (!(await exists(file))) continue;
+    try {
+      const { frontmatter } = parseFrontmatter(await readFile(file, 'utf-8'));
+      const description = typeof frontmatter.description === 'string' ? frontmatter.description.trim() : '';
+      out.push({ name, description, file });
+    } catch {
+      out.push({ name, description: '', file });
+    }
+  }
+  return out;
+}
+
+/**
+ * Parse every recipe folder. Problems are collected, not thrown, so one
+ * broken recipe reports alongside all the others.
+ */
+export async function discoverRecipes(root = RECIPES_DIR): Promise<RecipeDiscovery> {
+  const recipes: DiscoveredRecipe[] = [];
+  const errors: RecipeParseError[] = [];
+  const vendored = await listVendoredSkills(root);
+  const vendorNames = new Set(vendored.map((v) => v.name));
+
+  for (const route of RECIPE_ROUTES) {
+    for (const name of await subdirectories(join(root, route))) {
+      const dir = join(root, route, name);
+      const file = join(dir, 'SKILL.md');
+      const display = relative(process.cwd(), file);
+      const id = `${route}/${name}`;
+      const hasSpecModule = await exists(join(dir, 'spec.ts'));
+
+      if (name.startsWith('custom-')) {
+        errors.push(new RecipeParseError(display, ['the custom- prefix is reserved for stored recipes — rename the folder']));
+        continue;
+      }
+      if (!(await exists(file))) {
+        if (hasSpecModule) errors.push(new RecipeParseError(display, ['spec.ts without a SKILL.md']));
+        continue;
+      }
+
+      try {
+        const markdown = await readFile(file, 'utf-8');
+        const { frontmatter } = parseFrontmatter(markdown);
+        if (isOpenDesignSkill(frontmatter)) {
+          throw new RecipeParseError(display, [
+            `looks like an open-design skill — move it to recipes/${VENDOR_DIR_NAME}/ and reference it with \`vendor:\``,
+          ]);
+        }
+        const parsed = parseRecipeSkill(markdown, { file: display, expectedId: id });
+        if (parsed.vendor && !vendorNames.has(parsed.vendor)) {
+          throw new RecipeParseError(display, [`vendor — no recipes/${VENDOR_DIR_NAME}/${parsed.vendor}/SKILL.md`]);
+        }
+        recipes.push({
+          id,
+          spec: parsed.spec,
+          specModule: hasSpecModule ? `./${route}/${name}/spec` : null,
+          vendor: parsed.vendor,
+          file: display,
+        });
+      } catch (err) {
+        errors.push(
+          err instanceof RecipeParseError
+            ? err
+            : new RecipeParseError(display, [err instanceof Error ? err.message : String(err)]),
+        );
+      }
+    }
+  }
+
+  return { recipes, vendored, errors };
+}
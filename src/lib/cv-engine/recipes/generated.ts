@@ -0,0 +1,336 @@
+/**
+ * Static recipe map, discovered from recipes/{route}/{name}/SKILL.md.
+ *
+ * GENERATED by scripts/build-recipes.mts — do not edit by hand.
+ * Recipes with a spec.ts are imported from it; Markdown-only recipes are
+ * inlined from their validated frontmatter.
+ */
+
+import type { DesignSpec } from '../spec';
+import { spec as safeClerk } from './safe/clerk/spec';
+import { spec as safeMonolith } from './safe/monolith/spec';
+import { spec as safePlate } from './safe/plate/spec';
+import { spec as balancedGrid } from './balanced/grid/spec';
+import { spec as balancedPress } from './balanced/press/spec';
+import { spec as balancedStudio } from './balanced/studio/spec';
+import { spec as creativeGentlewoman } from './creative/gentlewoman/spec';
+import { spec as creativeKinfolk } from './creative/kinfolk/spec';
+import { spec as creativeWallpaper } from './creative/wallpaper/spec';
+import { spec as experimentalBroadcast } from './experimental/broadcast/spec';
+import { spec as experimentalGallery } from './experimental/gallery/spec';
+import { spec as experimentalManifesto } from './experimental/manifesto/spec';
+
+// src/lib/cv-engine/recipes/balanced/almanac/SKILL.md
+const balancedAlmanac: DesignSpec = {
+  "id": "balanced/almanac",
+  "route": "balanced",
+  "displayName": "Almanac",
+  "description": "Compact infographic CV for data and design roles. Key-figure strip, skill radar and years-per-role chart above dense Inter sections.",
+  "source": {
+    "type": "original",
+    "modifications": "Original recipe written in the open-design SKILL.md format for the infographic layout shape. Palette baseline is a cool near-white paper with a saturated indigo accent for the charts."
+  },
+  "industryAffinity": [
+    "data",
+    "analytics",
+    "data-science",
+    "engineering",
+    "product",
+    "design",
+    "research",
+    "consulting"
+  ],
+  "layoutShape": "infographic",
+  "palette": {
+    "ink": {
+      "anchor": {
+        "l": 18,
+        "c": 0.02,
+        "h": 270
+      },
+      "range": {
+        "l": [
+          12,
+          25
+        ],
+        "c": [
+          0.01,
+          0.035
+        ],
+        "h": [
+          250,
+          290
+        ]
+      }
+    },
+    "paper": {
+      "anchor": {
+        "l": 99,
+        "c": 0.002,
+        "h": 270
+      },
+      "range": {
+        "l": [
+          97,
+          100
+        ],
+        "c": [
+          0,
+          0.01
+        ],
+        "h": [
+          250,
+          290
+        ]
+      }
+    },
+    "accent": {
+      "anchor": {
+        "l": 48,
+        "c": 0.17,
+        "h": 275
+      },
+      "range": {
+        "l": [
+          40,
+          58
+        ],
+        "c": [
+          0.1,
+          0.22
+        ],
+        "h": [
+          240,
+          300
+        ]
+      }
+    },
+    "muted": {
+      "anchor": {
+        "l": 50,
+        "c": 0.015,
+        "h": 270
+      },
+      "range": {
+        "l": [
+          42,
+          56
+        ],
+        "c": [
+          0.005,
+          0.03
+        ],
+        "h": [
+          250,
+          290
+        ]
+      }
+    },
+    "surface": {
+      "anchor": {
+        "l": 96,
+        "c": 0.012,
+        "h": 275
+      },
+      "range": {
+        "l": [
+          93,
+          98
+        ],
+        "c": [
+          0.005,
+          0.025
+        ],
+        "h": [
+          250,
+          300
+        ]
+      }
+    }
+  },
+  "allowedFontPairings": [
+    "inter-inter",
+    "space-grotesk-work-sans",
+    "roboto-roboto"
+  ],
+  "primitives": {
+    "header": "stacked",
+    "section": "clean",
+    "skillList": "tags",
+    "experienceItem": "bullets"
+  },
+  "decorators": {
+    "pullQuote": false,
+    "dropCap": false,
+    "marginalia": false,
+    "heroNumeral": false,
+    "posterLine": false
+  },
+  "density": "compact"
+};
+
+// src/lib/cv-engine/recipes/creative/chronicle/SKILL.md
+const creativeChronicle: DesignSpec = {
+  "id": "creative/chronicle",
+  "route": "creative",
+  "displayName": "Chronicle",
+  "description": "Career told as a vertical timeline. Dates on a centre spine, roles alternating left and right, Space Grotesk headings over Work Sans body.",
+  "source": {
+    "type": "original",
+    "modifications": "Original recipe written in the open-design SKILL.md format for the timeline layout shape. Palette is a cool graphite with a single teal accent carried by the spine and its dates."
+  },
+  "industryAffinity": [
+    "design",
+    "product",
+    "ux",
+    "creative",
+    "marketing",
+    "communications",
+    "architecture",
+    "media"
+  ],
+  "layoutShape": "timeline",
+  "palette": {
+    "ink": {
+      "anchor": {
+        "l": 20,
+        "c": 0.015,
+        "h": 240
+      },
+      "range": {
+        "l": [
+          14,
+          26
+        ],
+        "c": [
+          0.005,
+          0.03
+        ],
+        "h": [
+          220,
+          260
+        ]
+      }
+    },
+    "paper": {
+      "anchor": {
+        "l": 99,
+        "c": 0.003,
+        "h": 220
+      },
+      "range": {
+        "l": [
+          96,
+          100
+        ],
+        "c": [
+          0,
+          0.012
+        ],
+        "h": [
+          200,
+          240
+        ]
+      }
+    },
+    "accent": {
+      "anchor": {
+        "l": 55,
+        "c": 0.11,
+        "h": 190
+      },
+      "range": {
+        "l": [
+          45,
+          62
+        ],
+        "c": [
+          0.07,
+          0.15
+        ],
+        "h": [
+          160,
+          220
+        ]
+      }
+    },
+    "muted": {
+      "anchor": {
+        "l": 50,
+        "c": 0.015,
+        "h": 230
+      },
+      "range": {
+        "l": [
+          42,
+          56
+        ],
+        "c": [
+          0.005,
+          0.03
+        ],
+        "h": [
+          210,
+          250
+        ]
+      }
+    },
+    "surface": {
+      "anchor": {
+        "l": 95,
+        "c": 0.012,
+        "h": 200
+      },
+      "range": {
+        "l": [
+          92,
+          98
+        ],
+        "c": [
+          0.005,
+          0.025
+        ],
+        "h": [
+          180,
+          230
+        ]
+      }
+    }
+  },
+  "allowedFontPairings": [
+    "space-grotesk-work-sans",
+    "inter-inter",
+    "montserrat-open-sans"
+  ],
+  "primitives": {
+    "header": "stacked",
+    "section": "kicker-rule",
+    "skillList": "tags",
+    "experienceItem": "bullets"
+  },
+  "decorators": {
+    "pullQuote": false,
+    "dropCap": false,
+    "marginalia": false,
+    "heroNumeral": false,
+    "posterLine": false
+  },
+  "density": "comfortable"
+};
+
+export const GENERATED_RECIPES = {
+  'safe/clerk': safeClerk,
+  'safe/monolith': safeMonolith,
+  'safe/plate': safePlate,
+  'balanced/almanac': balancedAlmanac,
+  'balanced/grid': balancedGrid,
+  'balanced/press': balancedPress,
+  'balanced/studio': balancedStudio,
+  'creative/chronicle': creativeChronicle,
+  'creative/gentlewoman': creativeGentlewoman,
+  'creative/kinfolk': creativeKinfolk,
+  'creative/wallpaper': creativeWallpaper,
+  'experimental/broadcast': experimentalBroadcast,
+  'experimental/gallery': experimentalGallery,
+  'experimental/manifesto': experimentalManifesto,
+} as const satisfies Record<string, DesignSpec>;
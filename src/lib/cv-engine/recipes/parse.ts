@@ -0,0 +1,381 @@
+/**
+ * SKILL.md → DesignSpec parser.
+ *
+ * A recipe is a Markdown file whose YAML frontmatter is the DesignSpec (see
+ * ../spec.ts) and whose body is the prompt material the orchestrator feeds
+ * the AI. This module turns that file into a validated spec with errors a
+ * designer can act on:
+ *
+ *   recipes/creative/atlas/SKILL.md: palette.accent.anchor.c — Number must be less than or equal to 0.4
+ *
+ * One extra frontmatter key is understood on top of DesignSpec:
+ *
+ *   vendor: resume-modern   # use recipes/_vendor/resume-modern/SKILL.md as the body
+ *
+ * which is how a vendored open-design skill becomes a CVeetje recipe: write
+ * the DesignSpec tokens, point at the vendored file, leave the body empty.
+ *
+ * Pure (no fs) and dependency-free — the YAML reader covers the subset
+ * recipes use: nested maps, block and flow sequences, flow maps, quoted and
+ * plain scalars, `|` / `>` block scalars and comments. File discovery lives
+ * in ./discover.ts; scripts/build-recipes.mts turns the result into the
+ * static registry.
+ */
+
+import type { z } from 'zod';
+import { DesignSpecSchema, RouteSchema, type DesignSpec } from '../spec';
+
+export const RECIPE_ROUTES = RouteSchema.options;
+
+export class RecipeParseError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: string[],
+  ) {
+    super(`${file}: ${issues.join('; ')}`);
+    this.name = 'RecipeParseError';
+  }
+}
+
+// ============ Frontmatter ============
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+type YamlMap = { [key: string]: YamlValue };
+
+class YamlError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`line ${line}: ${message}`);
+  }
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  /** 1-based line number in the SKILL.md file (frontmatter starts at 2) */
+  no: number;
+}
+
+/** Remove a trailing ` # comment` that isn't inside quotes. */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+}
+
+function parseScalar(raw: string, line: number): YamlValue {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    if (!text.endsWith('"') || text.length < 2) throw new YamlError('unterminated string', line);
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new YamlError(`invalid string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new YamlError('unterminated string', line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+/** Flow collections (`{ l: 22, c: 0.04 }`, `[a, b]`) on a single line. */
+function parseFlow(text: string, line: number): YamlValue {
+  let pos = 0;
+
+  const skip = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const plain = (stops: string): string => {
+    const start = pos;
+    if (text[pos] === '"' || text[pos] === "'") {
+      const quote = text[pos++];
+      while (pos < text.length && text[pos] !== quote) pos += text[pos] === '\\' && quote === '"' ? 2 : 1;
+      pos++;
+    } else {
+      while (pos < text.length && !stops.includes(text[pos])) pos++;
+    }
+    return text.slice(start, pos);
+  };
+
+  const value = (): YamlValue => {
+    skip();
+    if (text[pos] === '{') {
+      pos++;
+      const out: YamlMap = {};
+      skip();
+      while (text[pos] !== '}') {
+        if (pos >= text.length) throw new YamlError('unterminated flow map', line);
+        const key = parseScalar(plain(':,}'), line);
+        skip();
+        if (text[pos] !== ':') throw new YamlError(`expected ":" after "${key}"`, line);
+        pos++;
+        out[String(key)] = value();
+        skip();
+        if (text[pos] === ',') pos++;
+        skip();
+      }
+      pos++;
+      return out;
+    }
+    if (text[pos] === '[') {
+      pos++;
+      const out: YamlValue[] = [];
+      skip();
+      while (text[pos] !== ']') {
+        if (pos >= text.length) throw new YamlError('unterminated flow sequence', line);
+        out.push(value());
+        skip();
+        if (text[pos] === ',') pos++;
+        skip();
+      }
+      pos++;
+      return out;
+    }
+    return parseScalar(plain(',]}'), line);
+  };
+
+  const result = value();
+  skip();
+  if (pos < text.length) throw new YamlError(`unexpected "${text.slice(pos)}"`, line);
+  return result;
+}
+
+function parseInline(raw: string, line: number): YamlValue {
+  const text = stripComment(raw).trim();
+  return text.startsWith('{') || text.startsWith('[') ? parseFlow(text, line) : parseScalar(text, line);
+}
+
+/** Split `key: rest` at the first unquoted colon followed by space or end. */
+function splitKey(text: string): [string, string] | null {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '{' || ch === '[') {
+      return null;
+    } else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return [String(parseScalar(text.slice(0, i), 0)), text.slice(i + 1).trim()];
+    }
+  }
+  return null;
+}
+
+class FrontmatterReader {
+  private pos = 0;
+
+  constructor(private readonly lines: Line[], private readonly raw: string[]) {}
+
+  read(): YamlMap {
+    if (this.lines.length === 0) return {};
+    const value = this.block(this.lines[0].indent);
+    if (this.pos < this.lines.length) {
+      throw new YamlError('unexpected indentation', this.lines[this.pos].no);
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      throw new YamlError('frontmatter must be a map of keys', this.lines[0].no);
+    }
+    return value;
+  }
+
+  private peek(): Line | undefined {
+    return this.lines[this.pos];
+  }
+
+  private block(indent: number): YamlValue {
+    const first = this.peek();
+    if (!first) return null;
+    return first.text === '-' || first.text.startsWith('- ') ? this.sequence(indent) : this.map(indent);
+  }
+
+  private map(indent: number): YamlMap {
+    const out: YamlMap = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (line.text === '-' || line.text.startsWith('- ')) break;
+      const pair = splitKey(line.text);
+      if (!pair) throw new YamlError(`expected "key: value", got "${line.text}"`, line.no);
+      const [key, rest] = pair;
+      if (key in out) throw new YamlError(`duplicate key "${key}"`, line.no);
+      this.pos++;
+      out[key] = this.valueAfterKey(indent, rest, line);
+    }
+    return out;
+  }
+
+  private valueAfterKey(indent: number, rest: string, line: Line): YamlValue {
+    if (/^[|>][+-]?$/.test(stripComment(rest))) return this.blockScalar(indent, stripComment(rest), line);
+    if (rest !== '') return parseInline(rest, line.no);
+
+    const next = this.peek();
+    if (!next) return null;
+    if (next.indent > indent) return this.block(next.indent);
+    // A sequence may sit at the same indent as its key
+    if (next.indent === indent && (next.text === '-' || next.text.startsWith('- '))) {
+      return this.sequence(indent);
+    }
+    return null;
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const out: YamlValue[] = [];
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (line.text !== '-' && !line.text.startsWith('- ')) break;
+      const item = line.text.slice(1).trim();
+      if (item === '') {
+        this.pos++;
+        const next = this.peek();
+        out.push(next && next.indent > indent ? this.block(next.indent) : null);
+      } else if (splitKey(item)) {
+        // `- key: value` starts a map indented past the dash
+        const itemIndent = indent + line.text.indexOf(item);
+        this.lines[this.pos] = { ...line, indent: itemIndent, text: item };
+        out.push(this.map(itemIndent));
+      } else {
+        this.pos++;
+        out.push(parseInline(item, line.no));
+      }
+    }
+    return out;
+  }
+
+  /** `|` keeps line breaks, `>` folds them into spaces. Trailing newlines are dropped. */
+  private blockScalar(indent: number, header: string, line: Line): string {
+    // Skip the scalar's own lines, then take them verbatim from the raw text
+    // (blank lines and `#` inside a block scalar are content, not comments).
+    // raw[n] is file line n + 1, so raw[line.no] is the line after the key.
+    for (let next = this.peek(); next && next.indent > indent; next = this.peek()) this.pos++;
+    const end = (this.peek()?.no ?? this.raw.length + 1) - 1;
+    const body = this.raw.slice(line.no, end);
+
+    const nonEmpty = body.filter((l) => l.trim().length > 0);
+    const common = Math.min(...nonEmpty.map((l) => l.length - l.trimStart().length));
+    const lines = body.map((l) => l.slice(Number.isFinite(common) ? common : 0).trimEnd());
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+    if (header.startsWith('|')) return lines.join('\n');
+    return lines
+      .join('\n')
+      .split(/\n{2,}/)
+      .map((para) => para.replace(/\n/g, ' '))
+      .join('\n');
+  }
+}
+
+/**
+ * Split a SKILL.md into its frontmatter map and Markdown body. A file
+ * without frontmatter yields `{}` and the whole text as body.
+ */
+export function parseFrontmatter(markdown: string): { frontmatter: Record<string, unknown>; body: string } {
+  const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  const match = text.match(/^---\n([\s\S]*?)\n---(?:\n|$)([\s\S]*)$/);
+  if (!match) return { frontmatter: {}, body: text.trim() };
+
+  // raw[n] is file line n + 1, so line numbers in errors match the file
+  const raw = ['---', ...match[1].split('\n')];
+  const lines: Line[] = [];
+  raw.forEach((content, i) => {
+    if (i === 0) return;
+    const trimmed = content.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+    if (/^\s*\t/.test(content)) throw new YamlError('tabs are not allowed for indentation', i + 1);
+    lines.push({ indent: content.length - content.trimStart().length, text: stripComment(trimmed), no: i + 1 });
+  });
+
+  const frontmatter = new FrontmatterReader(lines, raw).read();
+  return { frontmatter, body: match[2].trim() };
+}
+
+// ============ Recipes ============
+
+export interface ParsedRecipe {
+  spec: DesignSpec;
+  /** `_vendor/<name>` skill whose body this recipe borrows, if any */
+  vendor: string | null;
+  body: string;
+}
+
+/** Vendored open-design skills use `name` + `od:` frontmatter instead of a DesignSpec. */
+export function isOpenDesignSkill(frontmatter: Record<string, unknown>): boolean {
+  return !('id' in frontmatter) && ('od' in frontmatter || 'name' in frontmatter);
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${String(part)}` : String(part)),
+    '',
+  );
+}
+
+/** `palette.accent.anchor.c — Too big: …` lines for a failed DesignSpec parse. */
+export function formatSpecIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${formatPath(issue.path) || '(root)'} — ${issue.message}`);
+}
+
+/**
+ * Parse and validate one recipe's SKILL.md.
+ *
+ * @param file     path used in error messages
+ * @param expectedId the id implied by the folder (`{route}/{name}`) — the
+ *                   frontmatter must match it so the registry key and
+ *                   `spec.id` can't drift apart
+ * @throws RecipeParseError listing every problem found
+ */
+export function parseRecipeSkill(
+  markdown: string,
+  opts: { file: string; expectedId?: string },
+): ParsedRecipe {
+  let parsed: ReturnType<typeof parseFrontmatter>;
+  try {
+    parsed = parseFrontmatter(markdown);
+  } catch (err) {
+    throw new RecipeParseError(opts.file, [`invalid frontmatter — ${err instanceof Error ? err.message : String(err)}`]);
+  }
+
+  const { frontmatter, body } = parsed;
+  if (Object.keys(frontmatter).length === 0) {
+    throw new RecipeParseError(opts.file, ['missing frontmatter (--- block with the DesignSpec fields)']);
+  }
+  if (isOpenDesignSkill(frontmatter)) {
+    throw new RecipeParseError(opts.file, [
+      `open-design skill frontmatter, not a DesignSpec — register it with a recipes/{route}/{name}/SKILL.md that sets \`vendor: ${String(frontmatter.name ?? '<name>')}\``,
+    ]);
+  }
+
+  const { vendor, ...fields } = frontmatter;
+  const issues: string[] = [];
+  if (vendor !== undefined && (typeof vendor !== 'string' || !/^[a-z0-9-]+$/.test(vendor))) {
+    issues.push('vendor — must be the folder name of a recipes/_vendor skill');
+  }
+
+  const result = DesignSpecSchema.safeParse(fields);
+  if (!result.success) {
+    issues.push(...formatSpecIssues(result.error));
+  } else {
+    if (opts.expectedId && result.data.id !== opts.expectedId) {
+      issues.push(`id — "${result.data.id}" doesn't match its folder "${opts.expectedId}"`);
+    }
+    if (!result.data.id.startsWith(`${result.data.route}/`)) {
+      issues.push(`route — "${result.data.route}" doesn't match id "${result.data.id}"`);
+    }
+  }
+
+  if (issues.length > 0 || !result.success) throw new RecipeParseError(opts.file, issues);
+  return { spec: result.data, vendor: typeof vendor === 'string' ? vendor : null, body };
+}
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAllRecipes, listRecipesByRoute, resolveRecipe } from './registry';
+
+// Stored recipes are private to their owner: the server resolves them only
+// from the customRecipes a render path loaded for the CV's owner.
+const base = getAllRecipes()[0];
+const stored = { ...base, id: `${base.route}/custom-owned` };
+
+test('a stored recipe resolves from the customRecipes passed in', () => {
+  assert.equal(resolveRecipe(stored.id, [stored]), stored);
+});
+
+test('a stored recipe that was not passed in falls back to its route', () => {
+  assert.equal(resolveRecipe(stored.id), listRecipesByRoute(base.route)[0]);
+  assert.equal(resolveRecipe(stored.id, [{ ...stored, id: `${base.route}/custom-other` }]), listRecipesByRoute(base.route)[0]);
+});
+
+test('static recipes resolve without customRecipes', () => {
+  assert.equal(resolveRecipe(base.id), base);
+});
@@ -2,66 +2,88 @@
  * Recipe registry — static imports, typed, browser-safe.
  *
  * Each recipe lives in its own folder under recipes/{route}/{name}/ with:
- *   - SKILL.md      — canonical Markdown source (used by the AI orchestrator
- *                     server-side for prompt-body content; vendored from
- *                     nexu-io/open-design where applicable, see /NOTICE)
- *   - spec.ts       — typed DesignSpec export, statically imported here so
- *                     the renderer + tweak UI can read it in the browser
+ *   - SKILL.md      — canonical Markdown source: DesignSpec frontmatter
+ *                     (validated by ./parse.ts) plus the prompt body the AI
+ *                     orchestrator reads server-side
+ *   - spec.ts?      — optional typed DesignSpec override; when present the
+ *                     registry imports it instead of the frontmatter
  *   - DESIGN.md?    — optional palette/typography token reference (Phase 1+)
  *   - assets/?      — optional template fixtures
  *
- * Adding a recipe: create the folder + spec.ts + SKILL.md, then add the
- * import line below. The registry's typed map gives compile-time errors if
- * you forget either step.
+ * Adding a recipe: drop the folder with its SKILL.md and run
+ * `npm run build:recipes`, which validates every recipe and
+ * regenerates ./generated.ts. To ship a vendored open-design skill
+ * (recipes/_vendor/, see /NOTICE), give the new SKILL.md the DesignSpec
+ * tokens plus `vendor: <skill-name>` and leave its body empty — the vendored
+ * body is used as prompt material.
+ *
+ * Stored recipes — user- or organisation-defined DesignSpecs kept in
+ * Firestore (see ./stored.ts) — can't be compiled in, and are private to
+ * their owner. The server never caches them in this module: render paths
+ * load the owner's recipes per request and pass them to `resolveRecipe`
+ * (via the renderers' `customRecipes` option). Only the browser, which only
+ * ever sees its own user's recipes, registers them with
+ * `registerStoredRecipes` so `getRecipeById` can fall back to that set.
+ * Their ids use a `custom-` name so they never shadow a static recipe.
  */
 
 import type { DesignSpec, Route } from '../spec';
-import { spec as safeMonolith } from './safe/monolith/spec';
-import { spec as safeClerk } from './safe/clerk/spec';
-import { spec as safePlate } from './safe/plate/spec';
-import { spec as balancedStudio } from './balanced/studio/spec';
-import { spec as balancedPress } from './balanced/press/spec';
-import { spec as balancedGrid } from './balanced/grid/spec';
-import { spec as creativeKinfolk } from './creative/kinfolk/spec';
-import { spec as creativeGentlewoman } from './creative/gentlewoman/spec';
-import { spec as creativeWallpaper } from './creative/wallpaper/spec';
-import { spec as experimentalManifesto } from './experimental/manifesto/spec';
-import { spec as experimentalGallery } from './experimental/gallery/spec';
-import { spec as experimentalBroadcast } from './experimental/broadcast/spec';
+import { GENERATED_RECIPES } from './generated';
 
 // ============ Static recipe map ============
 //
-// Map keys = DesignSpec.id (e.g. 'balanced/studio'). The const assertion +
-// satisfies clause give us autocomplete on `getRecipeById('balanced/...')`
-// at call sites without locking the type to the literal union.
+// Map keys = DesignSpec.id (e.g. 'balanced/studio'). The generated map's
+// const assertion + satisfies clause give us autocomplete on
+// `getRecipeById('balanced/...')` at call sites without locking the type to
+// the literal union.
 
-const RECIPES = {
-  'safe/monolith': safeMonolith,
-  'safe/clerk': safeClerk,
-  'safe/plate': safePlate,
-  'balanced/studio': balancedStudio,
-  'balanced/press': balancedPress,
-  'balanced/grid': balancedGrid,
-  'creative/kinfolk': creativeKinfolk,
-  'creative/gentlewoman': creativeGentlewoman,
-  'creative/wallpaper': creativeWallpaper,
-  'experimental/manifesto': experimentalManifesto,
-  'experimental/gallery': experimentalGallery,
-  'experimental/broadcast': experimentalBroadcast,
-} as const satisfies Record<string, DesignSpec>;
+const RECIPES = GENERATED_RECIPES;
 
 export type RecipeId = keyof typeof RECIPES;
 
+/** Name prefix reserved for stored recipes: 'balanced/custom-k3x9…'. */
+export const CUSTOM_RECIPE_PREFIX = 'custom-';
+
+const storedRecipes = new Map<string, DesignSpec>();
+
 // ============ Public API ============
 
 export function getRecipeById(id: string): DesignSpec | undefined {
-  return RECIPES[id as RecipeId];
+  return RECIPES[id as RecipeId] ?? storedRecipes.get(id);
 }
 
+export function isCustomRecipeId(id: string): boolean {
+  return id.split('/')[1]?.startsWith(CUSTOM_RECIPE_PREFIX) ?? false;
+}
+
+/** Browser only: make the signed-in user's stored recipes resolvable by
+ *  `getRecipeById`. Server code passes `customRecipes` explicitly instead. */
+export function registerStoredRecipes(specs: readonly DesignSpec[]): void {
+  for (const spec of specs) {
+    if (isCustomRecipeId(spec.id)) storedRecipes.set(spec.id, spec);
+  }
+}
+
+/** Static recipes only — stored ones are scoped to their owner, so callers
+ *  add the ones the current user may use themselves. */
 export function listRecipesByRoute(route: Route): DesignSpec[] {
   return Object.values(RECIPES).filter(r => r.route === route);
 }
 
+/**
+ * Recipe lookup for renderers. Stored ids resolve against `customRecipes`
+ * (the CV owner's recipes) first. One that isn't there — deleted, not
+ * loaded, or someone else's — falls back to the first static recipe on its
+ * route, so a CV still renders after its house style is removed.
+ */
+export function resolveRecipe(id: string, customRecipes: readonly DesignSpec[] = []): DesignSpec | undefined {
+  const recipe = customRecipes.find(r => r.id === id) ?? getRecipeById(id);
+  if (recipe || !isCustomRecipeId(id)) return recipe;
+  const fallback = listRecipesByRoute(id.split('/')[0] as Route)[0];
+  if (fallback) console.warn(`[cv-engine] stored recipe "${id}" not available; rendering with ${fallback.id}`);
+  return fallback;
+}
+
 export function getAllRecipes(): DesignSpec[] {
   return Object.values(RECIPES);
 }
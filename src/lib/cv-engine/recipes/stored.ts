@@ -0,0 +1,234 @@
+/**
+ * Stored recipes — DesignSpecs defined by a user or an organisation and
+ * kept in Firestore instead of compiled into the static registry:
+ *
+ *   users/{uid}/recipes/{name}
+ *   organizations/{orgId}/recipes/{name}
+ *
+ * A user sees their own recipes plus those of the organisation on their user
+ * doc (`organizationId`, set by an admin). `name` is a generated
+ * `custom-…` slug, so the recipe id is `{route}/{name}` and never collides
+ * with a static recipe. The route is fixed at creation — CVs reference the
+ * full id, so changing it would orphan them.
+ *
+ * Server-only (firebase-admin). Nothing here is cached: render paths call
+ * `loadRecipesForRender` with the CV owner's uid on every request and pass
+ * the result as `customRecipes`, so an edit or delete shows up on the next
+ * render and one user's recipe never resolves for another.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { DesignSpecSchema, type DesignSpec } from '../spec';
+import { isV2Tokens, type AnyCVTokens } from '../dispatch';
+import { formatSpecIssues } from './parse';
+import { CUSTOM_RECIPE_PREFIX, isCustomRecipeId } from './registry';
+
+const RECIPES_SUBCOLLECTION = 'recipes';
+
+/** Per-owner cap, same spirit as MAX_TEMPLATES_PER_USER for DOCX templates. */
+export const MAX_STORED_RECIPES = 20;
+
+export type StoredRecipeScope = 'user' | 'organization';
+
+export interface StoredRecipe {
+  spec: DesignSpec;
+  scope: StoredRecipeScope;
+  ownerId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class StoredRecipeError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = 'StoredRecipeError';
+  }
+}
+
+function recipesCollection(scope: StoredRecipeScope, ownerId: string) {
+  return getAdminDb()
+    .collection(scope === 'user' ? 'users' : 'organizations')
+    .doc(ownerId)
+    .collection(RECIPES_SUBCOLLECTION);
+}
+
+function toIso(value: unknown): string {
+  return value instanceof Timestamp ? value.toDate().toISOString() : new Date(0).toISOString();
+}
+
+function fromDoc(
+  scope: StoredRecipeScope,
+  ownerId: string,
+  data: FirebaseFirestore.DocumentData,
+): StoredRecipe | null {
+  // Re-validate on read: a spec written before a schema change must not
+  // reach the renderer half-valid.
+  const parsed = DesignSpecSchema.safeParse(data.spec);
+  if (!parsed.success) {
+    console.warn(`[recipes] stored recipe ${String(data.spec?.id)} (${scope}:${ownerId}) no longer validates; skipped`);
+    return null;
+  }
+  return {
+    spec: parsed.data,
+    scope,
+    ownerId,
+    createdAt: toIso(data.createdAt),
+    updatedAt: toIso(data.updatedAt),
+  };
+}
+
+function newRecipeName(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return CUSTOM_RECIPE_PREFIX + Array.from(randomBytes(10), (b) => alphabet[b % alphabet.length]).join('');
+}
+
+/**
+ * Validate a client-supplied spec. `id` is assigned here, so callers may
+ * omit it; `source` defaults to an original design.
+ */
+function validateSpec(input: unknown, id: string): DesignSpec {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new StoredRecipeError('spec must be an object', 400);
+  }
+  const result = DesignSpecSchema.safeParse({
+    source: { type: 'original' },
+    ...(input as Record<string, unknown>),
+    id,
+  });
+  if (!result.success) {
+    throw new StoredRecipeError('Invalid DesignSpec', 400, formatSpecIssues(result.error));
+  }
+  return result.data;
+}
+
+// ============ Reading ============
+
+export async function getUserOrganizationId(userId: string): Promise<string | null> {
+  const snap = await getAdminDb().collection('users').doc(userId).get();
+  const orgId = snap.data()?.organizationId;
+  return typeof orgId === 'string' && orgId ? orgId : null;
+}
+
+export async function listOwnerRecipes(scope: StoredRecipeScope, ownerId: string): Promise<StoredRecipe[]> {
+  const snap = await recipesCollection(scope, ownerId).orderBy('createdAt', 'asc').get();
+  return snap.docs
+    .map((doc) => fromDoc(scope, ownerId, doc.data()))
+    .filter((r): r is StoredRecipe => r !== null);
+}
+
+/** Everything a user may pick: their own recipes, then their organisation's. */
+export async function listStoredRecipes(userId: string): Promise<StoredRecipe[]> {
+  const orgId = await getUserOrganizationId(userId);
+  const [own, org] = await Promise.all([
+    listOwnerRecipes('user', userId),
+    orgId ? listOwnerRecipes('organization', orgId) : Promise.resolve([]),
+  ]);
+  return [...own, ...org];
+}
+
+/**
+ * A user's stored recipe specs, for the style orchestrator's `customRecipes`.
+ * Fails soft — an unreadable store leaves the static recipes usable.
+ */
+export async function loadStoredRecipes(userId: string): Promise<DesignSpec[]> {
+  try {
+    return (await listStoredRecipes(userId)).map((r) => r.spec);
+  } catch (err) {
+    console.error('[recipes] loading stored recipes failed:', err);
+    return [];
+  }
+}
+
+/**
+ * The `customRecipes` to render a CV with: its stored recipe, read fresh
+ * from the owner's (and their organisation's) recipes. Empty for legacy
+ * tokens and static recipes, and when the recipe was deleted or isn't the
+ * owner's — the renderer then falls back to the route's static recipe.
+ */
+export async function loadRecipesForRender(tokens: AnyCVTokens, ownerUserId: string): Promise<DesignSpec[]> {
+  if (!isV2Tokens(tokens) || !isCustomRecipeId(tokens.recipeId)) return [];
+  const recipeId = tokens.recipeId;
+  return (await loadStoredRecipes(ownerUserId)).filter((spec) => spec.id === recipeId);
+}
+
+// ============ Writing ============
+
+export async function createStoredRecipe(
+  scope: StoredRecipeScope,
+  ownerId: string,
+  input: unknown,
+): Promise<StoredRecipe> {
+  const route = (input as { route?: unknown } | null)?.route;
+  const id = `${typeof route === 'string' ? route : ''}/${newRecipeName()}`;
+  const spec = validateSpec(input, id);
+
+  const collection = recipesCollection(scope, ownerId);
+  const existing = await collection.count().get();
+  if (existing.data().count >= MAX_STORED_RECIPES) {
+    throw new StoredRecipeError(`Maximum of ${MAX_STORED_RECIPES} recipes reached`, 400);
+  }
+
+  const name = spec.id.split('/')[1];
+  await collection.doc(name).set({
+    spec,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  const now = new Date().toISOString();
+  return { spec, scope, ownerId, createdAt: now, updatedAt: now };
+}
+
+/** Replace a recipe's spec. The id and route can't change. */
+export async function updateStoredRecipe(
+  scope: StoredRecipeScope,
+  ownerId: string,
+  recipeId: string,
+  input: unknown,
+): Promise<StoredRecipe> {
+  const [route, name] = recipeId.split('/');
+  if (!isCustomRecipeId(recipeId)) throw new StoredRecipeError('Recipe not found', 404);
+
+  const ref = recipesCollection(scope, ownerId).doc(name);
+  const snap = await ref.get();
+  if (!snap.exists || snap.data()?.spec?.id !== recipeId) throw new StoredRecipeError('Recipe not found', 404);
+
+  const inputRoute = (input as { route?: unknown } | null)?.route;
+  if (inputRoute !== undefined && inputRoute !== route) {
+    throw new StoredRecipeError('route cannot change — create a new recipe instead', 400);
+  }
+  const spec = validateSpec({ ...(input as object), route }, recipeId);
+
+  await ref.update({ spec, updatedAt: FieldValue.serverTimestamp() });
+
+  return {
+    spec,
+    scope,
+    ownerId,
+    createdAt: toIso(snap.data()?.createdAt),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Delete a recipe. CVs that use it keep their tokens and render with the
+ * route's first static recipe (see composeCV) until they pick another.
+ */
+export async function deleteStoredRecipe(
+  scope: StoredRecipeScope,
+  ownerId: string,
+  recipeId: string,
+): Promise<boolean> {
+  if (!isCustomRecipeId(recipeId)) return false;
+  const ref = recipesCollection(scope, ownerId).doc(recipeId.split('/')[1]);
+  const snap = await ref.get();
+  if (!snap.exists || snap.data()?.spec?.id !== recipeId) return false;
+  await ref.delete();
+  return true;
+}
@@ -9,14 +9,18 @@
  */
 
 import type { GeneratedCVContent } from '@/types';
+import type { PaperSize } from '@/types/design-tokens';
 import type { CVStyleTokensV2 } from '../tokens';
-import { getRecipeById } from '../recipes/registry';
+import type { DesignSpec } from '../spec';
+import { resolveRecipe } from '../recipes/registry';
 import { resolve } from './resolve';
 import type { ContactInfo } from './primitives/header';
 import { renderSingleColumn } from './shapes/single-column';
 import { renderSidebarShape } from './shapes/sidebar';
 import { renderEditorialGrid } from './shapes/editorial-grid';
 import { renderPoster } from './shapes/poster';
+import { renderTimeline } from './shapes/timeline';
+import { renderInfographic } from './shapes/infographic';
 import { resetCSS, type PageMode } from './css/reset.css';
 import { tokensCSS } from './css/tokens.css';
 import { primitivesCSS } from './css/primitives.css';
@@ -29,9 +33,15 @@ export interface ComposeOptions {
   contact: ContactInfo;
   avatarUrl?: string | null;
   locale?: Locale;
-  /** 'a4-paged' (default) paginates as standard A4; 'single-long' renders
+  /** 'a4-paged' (default) paginates on `paperSize` sheets; 'single-long' renders
    *  one continuous tall page (no page breaks) — see project memory. */
   pageMode?: PageMode;
+  /** Output sheet — 'a4' (default), 'letter' or 'legal'. Widths, heights
+   *  and the print `@page` size all follow it. */
+  paperSize?: PaperSize;
+  /** Stored recipes of the CV's owner — how server renders resolve a
+   *  `custom-` recipeId (see recipes/registry.ts). */
+  customRecipes?: readonly DesignSpec[];
 }
 
 export type { PageMode } from './css/reset.css';
@@ -50,7 +60,7 @@ export function composeCV(
   tokens: CVStyleTokensV2,
   opts: ComposeOptions,
 ): ComposeResult {
-  const recipe = getRecipeById(tokens.recipeId);
+  const recipe = resolveRecipe(tokens.recipeId, opts.customRecipes);
   if (!recipe) {
     throw new Error(`cv-engine: unknown recipeId "${tokens.recipeId}". Registered: see recipes/registry.ts`);
   }
@@ -59,11 +69,11 @@ export function composeCV(
   const locale: Locale = opts.locale ?? 'nl';
   const pageMode: PageMode = opts.pageMode ?? 'a4-paged';
 
-  // CSS: tokens (CSS vars) + reset (page-mode aware) + primitive variants
+  // CSS: tokens (CSS vars) + reset (page-mode + paper-size aware) + primitive variants
   // + decorator-specific CSS only for the decorators this recipe enables.
   const css = [
     tokensCSS(rs),
-    resetCSS(pageMode),
+    resetCSS(pageMode, opts.paperSize ?? 'a4'),
     primitivesCSS(rs),
     decoratorCSS(rs.spec.decorators),
   ].join('\n');
@@ -107,6 +117,24 @@ export function composeCV(
         locale,
       });
       break;
+    case 'timeline':
+      body = renderTimeline(rs, {
+        content,
+        fullName: opts.fullName,
+        contact: opts.contact,
+        avatarUrl: opts.avatarUrl,
+        locale,
+      });
+      break;
+    case 'infographic':
+      body = renderInfographic(rs, {
+        content,
+        fullName: opts.fullName,
+        contact: opts.contact,
+        avatarUrl: opts.avatarUrl,
+        locale,
+      });
+      break;
   }
 
   const fontLinks = getFontLinkTags(rs.fontPairing);
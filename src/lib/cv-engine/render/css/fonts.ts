@@ -3,8 +3,10 @@
  *
  * IDs match `FontPairingIdSchema` in spec.ts. Each entry declares the
  * Google Fonts `<link>` URL plus the `font-family` strings for heading/body.
- * Phase 0 implements the three IDs used by `balanced/studio`; Phase 1
- * fills in the remaining nine.
+ *
+ * The link tags are for the live preview. PDF export swaps them for the
+ * self-hosted copies in public/fonts (see lib/pdf/embedded-fonts.ts), so
+ * every family here must also be fetched by scripts/fetch-fonts.mts.
  */
 
 import type { FontPairingId } from '../../spec';
@@ -15,7 +17,7 @@ export interface FontPairingConfig {
   googleUrls: string[]; // Multiple `<link>` URLs to inject
 }
 
-const C: Record<FontPairingId, FontPairingConfig | null> = {
+const C: Record<FontPairingId, FontPairingConfig> = {
   'inter-inter': {
     heading: { family: `'Inter', system-ui, sans-serif`, weights: '400;500;600;700' },
     body: { family: `'Inter', system-ui, sans-serif`, weights: '400;500;600;700' },
@@ -70,24 +72,54 @@ const C: Record<FontPairingId, FontPairingConfig | null> = {
       'https://fonts.googleapis.com/css2?family=Work+Sans:wght@400;500&display=swap',
     ],
   },
-  // Phase 2 fills these in:
-  'montserrat-open-sans': null,
-  'raleway-lato': null,
-  'poppins-nunito': null,
-  'roboto-roboto': null,
-  'merriweather-source-sans': null,
+  'montserrat-open-sans': {
+    heading: { family: `'Montserrat', system-ui, sans-serif`, weights: '500;600;700' },
+    body: { family: `'Open Sans', system-ui, sans-serif`, weights: '400;600' },
+    googleUrls: [
+      'https://fonts.googleapis.com/css2?family=Montserrat:wght@500;600;700&display=swap',
+      'https://fonts.googleapis.com/css2?family=Open+Sans:wght@400;600&display=swap',
+    ],
+  },
+  'raleway-lato': {
+    heading: { family: `'Raleway', system-ui, sans-serif`, weights: '500;600;700' },
+    body: { family: `'Lato', system-ui, sans-serif`, weights: '400;700' },
+    googleUrls: [
+      'https://fonts.googleapis.com/css2?family=Raleway:wght@500;600;700&display=swap',
+      'https://fonts.googleapis.com/css2?family=Lato:wght@400;700&display=swap',
+    ],
+  },
+  'poppins-nunito': {
+    heading: { family: `'Poppins', system-ui, sans-serif`, weights: '500;600;700' },
+    body: { family: `'Nunito', system-ui, sans-serif`, weights: '400;600' },
+    googleUrls: [
+      'https://fonts.googleapis.com/css2?family=Poppins:wght@500;600;700&display=swap',
+      'https://fonts.googleapis.com/css2?family=Nunito:wght@400;600&display=swap',
+    ],
+  },
+  'roboto-roboto': {
+    heading: { family: `'Roboto', system-ui, sans-serif`, weights: '400;500;700' },
+    body: { family: `'Roboto', system-ui, sans-serif`, weights: '400;500;700' },
+    googleUrls: [
+      'https://fonts.googleapis.com/css2?family=Roboto:wght@400;500;700&display=swap',
+    ],
+  },
+  'merriweather-source-sans': {
+    heading: { family: `'Merriweather', Georgia, serif`, weights: '400;700' },
+    body: { family: `'Source Sans 3', system-ui, sans-serif`, weights: '400;600' },
+    googleUrls: [
+      'https://fonts.googleapis.com/css2?family=Merriweather:wght@400;700&display=swap',
+      'https://fonts.googleapis.com/css2?family=Source+Sans+3:wght@400;600&display=swap',
+    ],
+  },
 };
 
 export function getFontPairing(id: FontPairingId): FontPairingConfig {
-  const cfg = C[id];
-  if (!cfg) {
-    // Phase 0: fall back to inter-inter for unimplemented pairings rather
-    // than crash. Phase 1 fills the table and removes this fallback.
-    const fallback = C['inter-inter'];
-    if (!fallback) throw new Error('inter-inter must be defined');
-    return fallback;
-  }
-  return cfg;
+  return C[id] ?? C['inter-inter'];
+}
+
+/** Every stylesheet URL across all pairings — the set scripts/fetch-fonts.mts bundles. */
+export function getAllFontUrls(): string[] {
+  return [...new Set(Object.values(C).flatMap(cfg => cfg.googleUrls))];
 }
 
 export function getFontLinkTags(id: FontPairingId): string {
@@ -23,3 +23,36 @@ export function clampOklch(
     h: clamp(v.h, range.h[0], range.h[1]),
   };
 }
+
+/** Convert an OklchValue to a `#rrggbb` hex string (sRGB, gamut-clipped).
+ *  Used by non-CSS outputs (e.g. the DOCX exporter) that cannot consume
+ *  `oklch(...)` directly. */
+export function oklchToHex(v: OklchValue): string {
+  const L = v.l / 100;
+  const hRad = (v.h * Math.PI) / 180;
+  const a = v.c * Math.cos(hRad);
+  const b = v.c * Math.sin(hRad);
+
+  // OKLab → LMS (cubed) → linear sRGB
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  const linear = [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+
+  return (
+    '#' +
+    linear
+      .map(x => {
+        const srgb = x <= 0.0031308 ? 12.92 * x : 1.055 * Math.pow(x, 1 / 2.4) - 0.055;
+        return Math.round(clamp(srgb, 0, 1) * 255)
+          .toString(16)
+          .padStart(2, '0');
+      })
+      .join('')
+  );
+}
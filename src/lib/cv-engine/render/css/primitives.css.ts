@@ -385,6 +385,11 @@ function sidebarShapeBaseCSS(): string {
 .cv-shape-sidebar .cv-main {
   padding: 18mm 16mm 18mm 14mm;
 }
+/* Running footer sits under the main column, clear of the sidebar fill. */
+.cv-shape-sidebar .cv-page-footer {
+  left: calc(35% + 14mm);
+  right: 16mm;
+}
 
 .cv-shape-sidebar .cv-main-header {
   margin-bottom: var(--density-section-gap);
@@ -528,6 +533,10 @@ function editorialGridShapeCSS(): string {
   gap: 14mm;
   padding: 18mm;
 }
+.cv-shape-editorial-grid .cv-page-footer {
+  left: 18mm;
+  right: 18mm;
+}
 .cv-shape-editorial-grid .cv-editorial-header {
   display: flex;
   flex-direction: row;
@@ -749,6 +758,209 @@ function posterShapeCSS(): string {
 }
 /* The hero accent stripe at the page top doesn't fit this shape — hide it. */
 .cv-shape-poster.cv-page::before { display: none; }
+/* Paginated: the dark small-print body fills every sheet to the bottom,
+   and the running footer reads light on it. */
+.cv-shape-poster.cv-page--sheet .cv-poster-body { flex: 1; }
+.cv-shape-poster .cv-page-footer {
+  left: 14mm;
+  right: 14mm;
+  color: color-mix(in oklch, var(--color-paper) 70%, var(--color-ink));
+}
+`;
+}
+
+// ============ Timeline shape ============
+
+function timelineShapeCSS(): string {
+  return `
+/* The spine is drawn per entry, so no gap may break it. */
+.cv-shape-timeline .cv-section-body:has(> .cv-timeline-entry) {
+  gap: 0;
+}
+.cv-shape-timeline .cv-timeline-entry {
+  display: grid;
+  grid-template-columns: 1fr 22pt 1fr;
+  position: relative;
+  padding-bottom: 16pt;
+  break-inside: avoid;
+}
+.cv-shape-timeline .cv-timeline-entry::before {
+  content: "";
+  position: absolute;
+  top: 0;
+  bottom: 0;
+  left: 50%;
+  width: 1.5pt;
+  margin-left: -0.75pt;
+  background: color-mix(in oklch, var(--color-accent) 45%, transparent);
+}
+.cv-shape-timeline .cv-timeline-entry:last-child::before {
+  bottom: 16pt;
+}
+.cv-shape-timeline .cv-timeline-entry > * {
+  grid-row: 1;
+}
+.cv-shape-timeline .cv-timeline-dot {
+  grid-column: 2;
+  justify-self: center;
+  position: relative;
+  width: 10pt;
+  height: 10pt;
+  margin-top: 3pt;
+  border-radius: 50%;
+  background: var(--color-paper);
+  border: 2pt solid var(--color-accent);
+}
+.cv-shape-timeline .cv-timeline-date {
+  padding-top: 3pt;
+  font-size: 9pt;
+  font-weight: 700;
+  text-transform: uppercase;
+  letter-spacing: 0.06em;
+  color: var(--color-accent);
+  font-variant-numeric: tabular-nums;
+}
+.cv-shape-timeline .cv-timeline-entry[data-side="left"] .cv-timeline-card {
+  grid-column: 1;
+  padding-right: 4pt;
+}
+.cv-shape-timeline .cv-timeline-entry[data-side="left"] .cv-timeline-date {
+  grid-column: 3;
+  padding-left: 4pt;
+}
+.cv-shape-timeline .cv-timeline-entry[data-side="right"] .cv-timeline-card {
+  grid-column: 3;
+  padding-left: 4pt;
+}
+.cv-shape-timeline .cv-timeline-entry[data-side="right"] .cv-timeline-date {
+  grid-column: 1;
+  padding-right: 4pt;
+  text-align: right;
+}
+/* The period sits on the spine; the card only needs title + employer. */
+.cv-shape-timeline .cv-timeline-card .cv-role-period {
+  display: none;
+}
+.cv-shape-timeline .cv-timeline-card .cv-role-line {
+  flex-direction: column;
+  align-items: flex-start;
+  gap: 1pt;
+}
+`;
+}
+
+// ============ Infographic shape ============
+
+function infographicShapeCSS(): string {
+  return `
+.cv-shape-infographic .cv-header .cv-name {
+  font-size: 30pt;
+}
+.cv-shape-infographic .cv-header .cv-header-photo img {
+  width: 72pt;
+  height: 72pt;
+}
+.cv-shape-infographic .cv-summary {
+  font-size: 10.5pt;
+}
+.cv-shape-infographic .cv-section .cv-section-body {
+  gap: 10pt;
+}
+
+/* Dashboard: key figures + charts */
+.cv-shape-infographic .cv-infographic-dashboard {
+  margin-bottom: var(--density-section-gap);
+  break-inside: avoid;
+}
+.cv-shape-infographic .cv-infographic-figures {
+  display: flex;
+  gap: 8pt;
+  margin-bottom: 10pt;
+}
+.cv-shape-infographic .cv-infographic-figure {
+  flex: 1;
+  display: flex;
+  flex-direction: column;
+  gap: 3pt;
+  padding: 8pt 10pt;
+  background: var(--color-surface);
+  border-top: 2pt solid var(--color-accent);
+}
+.cv-shape-infographic .cv-infographic-figure-value {
+  font-family: var(--font-heading);
+  font-size: 20pt;
+  font-weight: 700;
+  line-height: 1;
+  color: var(--color-ink);
+  font-variant-numeric: tabular-nums;
+}
+.cv-shape-infographic .cv-infographic-figure-label {
+  font-size: 7.5pt;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.12em;
+  color: var(--color-muted);
+}
+.cv-shape-infographic .cv-infographic-charts {
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 10pt;
+}
+.cv-shape-infographic .cv-infographic-charts[data-panels="1"] {
+  grid-template-columns: 1fr;
+}
+.cv-shape-infographic .cv-infographic-panel {
+  padding: 10pt 12pt;
+  border: 1px solid color-mix(in oklch, var(--color-muted) 25%, transparent);
+  border-radius: 4pt;
+}
+.cv-shape-infographic .cv-infographic-panel-title {
+  font-size: 8pt;
+  font-weight: 700;
+  text-transform: uppercase;
+  letter-spacing: 0.16em;
+  color: var(--color-ink);
+  margin-bottom: 8pt;
+}
+
+/* Inline SVG charts (primitives/charts.ts) */
+.cv-shape-infographic .cv-chart {
+  display: block;
+  width: 100%;
+  height: auto;
+  overflow: visible;
+}
+.cv-shape-infographic .cv-chart-radar {
+  max-height: 150pt;
+}
+.cv-shape-infographic .cv-chart-grid {
+  fill: none;
+  stroke: color-mix(in oklch, var(--color-muted) 35%, transparent);
+  stroke-width: 0.75;
+}
+.cv-shape-infographic .cv-chart-area {
+  fill: color-mix(in oklch, var(--color-accent) 28%, transparent);
+  stroke: var(--color-accent);
+  stroke-width: 1.5;
+}
+.cv-shape-infographic .cv-chart-label {
+  font-family: var(--font-body);
+  font-size: 11px;
+  fill: var(--color-ink);
+}
+.cv-shape-infographic .cv-chart-value {
+  font-family: var(--font-body);
+  font-size: 11px;
+  font-weight: 700;
+  fill: var(--color-accent);
+  font-variant-numeric: tabular-nums;
+}
+.cv-shape-infographic .cv-chart-track {
+  fill: var(--color-surface);
+}
+.cv-shape-infographic .cv-chart-bar {
+  fill: var(--color-accent);
+}
 `;
 }
 
@@ -780,6 +992,10 @@ function shapeCSS(shape: ResolvedSpec['spec']['layoutShape']): string {
       return editorialGridShapeCSS();
     case 'poster':
       return posterShapeCSS();
+    case 'timeline':
+      return timelineShapeCSS();
+    case 'infographic':
+      return infographicShapeCSS();
     case 'sidebar':
     case 'single-column':
       return ''; // sidebar emits via sidebarCSS(); single-column inherits .cv-page only.
@@ -1,21 +1,29 @@
 /** Minimal print-safe reset. No transforms, no clip-path, no hover. */
 
+import type { PaperSize } from '@/types/design-tokens';
+import { getPaperDimensions } from '@/lib/cv/paper-size';
+
+/** 'a4-paged' predates paper sizes — it means "paged", on whatever sheet. */
 export type PageMode = 'a4-paged' | 'single-long';
 
-export function resetCSS(pageMode: PageMode = 'a4-paged'): string {
+export function resetCSS(pageMode: PageMode = 'a4-paged', paperSize: PaperSize = 'a4'): string {
+  const paper = getPaperDimensions(paperSize);
+  const width = `${paper.widthMm}mm`;
+  const height = `${paper.heightMm}mm`;
+
   const pageHeight = pageMode === 'a4-paged'
-    ? 'min-height: 297mm;'
+    ? `min-height: ${height};`
     : '/* single-long: body grows to content height */';
 
   const printBlock = pageMode === 'a4-paged'
     ? `@media print {
-  html, body { width: 210mm; }
-  @page { size: A4; margin: 0; }
+  html, body { width: ${width}; }
+  @page { size: ${paper.cssSize}; margin: 0; }
   .cv-page { box-shadow: none; margin: 0; }
 }`
     : `@media print {
-  html, body { width: 210mm; }
-  @page { size: 210mm auto; margin: 0; }
+  html, body { width: ${width}; }
+  @page { size: ${width} auto; margin: 0; }
   .cv-page { box-shadow: none; margin: 0; }
 }`;
 
@@ -37,9 +45,9 @@ ul, ol { list-style: none; }
 a { color: inherit; text-decoration: none; }
 img { max-width: 100%; display: block; }
 
-/* Page surface — single A4 sheet (a4-paged) or single tall page (single-long) */
+/* Page surface — single sheet (a4-paged) or single tall page (single-long) */
 .cv-page {
-  width: 210mm;
+  width: ${width};
   ${pageHeight}
   margin: 0 auto;
   padding: var(--page-margin);
@@ -47,6 +55,30 @@ img { max-width: 100%; display: block; }
   position: relative;
 }
 
+/* Fixed sheets produced by the pagination pass (render/paginate.ts).
+   Each sheet repeats the page chrome; the running footer carries the
+   candidate's name and the page number. */
+.cv-page--sheet {
+  height: ${height};
+  min-height: 0;
+  overflow: hidden;
+  break-after: page;
+}
+.cv-page--sheet:last-child { break-after: auto; }
+.cv-page-footer {
+  position: absolute;
+  left: var(--page-margin);
+  right: var(--page-margin);
+  bottom: 7mm;
+  display: flex;
+  justify-content: space-between;
+  gap: 12pt;
+  font-size: 7.5pt;
+  letter-spacing: 0.04em;
+  color: var(--color-muted);
+  font-variant-numeric: tabular-nums;
+}
+
 /* Signature top rule — a thin accent stripe at the very top of the page */
 .cv-page::before {
   content: "";
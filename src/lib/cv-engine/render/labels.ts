@@ -1,6 +1,8 @@
-/** Section-title labels for NL/EN. Mirrors the legacy renderer's titles. */
+/** Section-title labels per output language. Mirrors the legacy renderer's titles. */
 
-export type Locale = 'nl' | 'en';
+import type { OutputLanguage } from '@/types/language';
+
+export type Locale = OutputLanguage;
 
 export const SECTION_LABELS: Record<Locale, Record<string, string>> = {
   nl: {
@@ -12,6 +14,11 @@ export const SECTION_LABELS: Record<Locale, Record<string, string>> = {
     certifications: 'Certificaten',
     projects: 'Projecten',
     interests: 'Interesses',
+    publications: 'Publicaties & lezingen',
+    volunteering: 'Vrijwilligerswerk',
+    awards: 'Prijzen & onderscheidingen',
+    references: 'Referenties',
+    contact: 'Contact',
   },
   en: {
     summary: 'Profile',
@@ -22,9 +29,84 @@ export const SECTION_LABELS: Record<Locale, Record<string, string>> = {
     certifications: 'Certifications',
     projects: 'Projects',
     interests: 'Interests',
+    publications: 'Publications & talks',
+    volunteering: 'Volunteering',
+    awards: 'Awards & honors',
+    references: 'References',
+    contact: 'Contact',
+  },
+  de: {
+    summary: 'Profil',
+    experience: 'Berufserfahrung',
+    education: 'Ausbildung',
+    skills: 'Kenntnisse',
+    languages: 'Sprachen',
+    certifications: 'Zertifikate',
+    projects: 'Projekte',
+    interests: 'Interessen',
+    publications: 'Publikationen & Vorträge',
+    volunteering: 'Ehrenamt',
+    awards: 'Auszeichnungen',
+    references: 'Referenzen',
+    contact: 'Kontakt',
+  },
+  fr: {
+    summary: 'Profil',
+    experience: 'Expérience professionnelle',
+    education: 'Formation',
+    skills: 'Compétences',
+    languages: 'Langues',
+    certifications: 'Certifications',
+    projects: 'Projets',
+    interests: "Centres d'intérêt",
+    publications: 'Publications & conférences',
+    volunteering: 'Bénévolat',
+    awards: 'Prix & distinctions',
+    references: 'Références',
+    contact: 'Contact',
+  },
+  es: {
+    summary: 'Perfil',
+    experience: 'Experiencia profesional',
+    education: 'Formación',
+    skills: 'Habilidades',
+    languages: 'Idiomas',
+    certifications: 'Certificaciones',
+    projects: 'Proyectos',
+    interests: 'Intereses',
+    publications: 'Publicaciones y ponencias',
+    volunteering: 'Voluntariado',
+    awards: 'Premios y reconocimientos',
+    references: 'Referencias',
+    contact: 'Contacto',
   },
 };
 
 export function labelFor(locale: Locale, section: string): string {
   return SECTION_LABELS[locale]?.[section] ?? section;
 }
+
+/**
+ * Chart captions for the infographic shape. Kept apart from SECTION_LABELS,
+ * which the ATS check reads as the set of section headings.
+ */
+export const CHART_LABELS: Record<Locale, Record<'yearsPerRole' | 'yearsOfExperience' | 'roles' | 'yearsShort', string>> = {
+  nl: { yearsPerRole: 'Jaren per rol', yearsOfExperience: 'Jaar ervaring', roles: 'Functies', yearsShort: 'jr' },
+  en: { yearsPerRole: 'Years per role', yearsOfExperience: 'Years of experience', roles: 'Roles', yearsShort: 'yrs' },
+  de: { yearsPerRole: 'Jahre pro Position', yearsOfExperience: 'Jahre Erfahrung', roles: 'Positionen', yearsShort: 'J.' },
+  fr: { yearsPerRole: 'Années par poste', yearsOfExperience: "Années d'expérience", roles: 'Postes', yearsShort: 'ans' },
+  es: { yearsPerRole: 'Años por puesto', yearsOfExperience: 'Años de experiencia', roles: 'Puestos', yearsShort: 'años' },
+};
+
+export function chartLabelFor(locale: Locale, key: keyof (typeof CHART_LABELS)['nl']): string {
+  return (CHART_LABELS[locale] ?? CHART_LABELS.nl)[key];
+}
+
+/** Line under the references heading when no referees are named. Not a heading. */
+export const REFERENCES_ON_REQUEST: Record<Locale, string> = {
+  nl: 'Referenties op aanvraag beschikbaar.',
+  en: 'References available on request.',
+  de: 'Referenzen auf Anfrage.',
+  fr: 'Références disponibles sur demande.',
+  es: 'Referencias disponibles a petición.',
+};
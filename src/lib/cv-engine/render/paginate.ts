@@ -0,0 +1,196 @@
+/**
+ * Pagination pass — splits the single `.cv-page` a shape renders into
+ * fixed-height sheets, measured in the live browser (puppeteer).
+ *
+ * Shapes opt in through markup, not code:
+ *   - `data-cv-flow="<name>"` marks a container whose children flow from
+ *     sheet to sheet (single-column, timeline, infographic: the page
+ *     itself; sidebar: the main column *and* the sidebar; editorial-grid:
+ *     main + marginalia list; poster: the small-print body). Each flow is
+ *     filled independently, so a long sidebar continues on page 2 next to
+ *     the main column.
+ *   - `data-cv-first-page-only` marks chrome that must not repeat (the
+ *     poster hero). Everything else outside a flow — sidebar background,
+ *     accent stripe, grid skeleton — is cloned onto every sheet.
+ *
+ * A flow child that doesn't fit is moved whole to the next sheet, except
+ * `.cv-section`s, which split between their body entries (e.g. at
+ * `.cv-experience-item` boundaries) and repeat their title on the next
+ * sheet as `.cv-section--continued`. When more than one sheet results,
+ * every sheet gets a running footer with the candidate's name and
+ * "n / total".
+ *
+ * `paginateCVDocument` is passed to `page.evaluate`, which serialises it —
+ * it must stay self-contained (no imports, no module-level references).
+ */
+
+export interface PaginateOptions {
+  /** Running footer text, normally the candidate's full name. */
+  footerName: string;
+}
+
+/**
+ * Runs in the browser. Rewrites the document into `.cv-page--sheet`
+ * elements and returns the resulting sheet count.
+ */
+export function paginateCVDocument(options: PaginateOptions): number {
+  // Safety valve against runaway layouts (e.g. a flow nested in
+  // first-page-only chrome never finding a home).
+  const MAX_SHEETS = 20;
+  const root = document.querySelector<HTMLElement>('.cv-page');
+  if (!root || !root.parentElement || (!root.hasAttribute('data-cv-flow') && !root.querySelector('[data-cv-flow]'))) {
+    return 1;
+  }
+  const host = root.parentElement;
+
+  const flowsOf = (page: HTMLElement): HTMLElement[] => {
+    const nested = Array.from(page.querySelectorAll<HTMLElement>('[data-cv-flow]'));
+    return page.hasAttribute('data-cv-flow') ? [page, ...nested] : nested;
+  };
+
+  // Padding + border between a flow's content box and the sheet edge.
+  const bottomInset = (container: HTMLElement, page: HTMLElement): number => {
+    let inset = 0;
+    let el: HTMLElement | null = container;
+    while (el) {
+      const style = getComputedStyle(el);
+      inset += (parseFloat(style.paddingBottom) || 0) + (parseFloat(style.borderBottomWidth) || 0);
+      if (el === page) break;
+      el = el.parentElement;
+    }
+    return inset;
+  };
+
+  // Multi-column flows (poster) lay children side by side, so take the
+  // deepest child rather than the last one.
+  const overflows = (page: HTMLElement, container: HTMLElement, footerReserve: number): boolean => {
+    const children = Array.from(container.children).filter(c => !c.classList.contains('cv-page-footer'));
+    if (!children.length) return false;
+    const pageBottom = page.getBoundingClientRect().bottom;
+    const limit = pageBottom - Math.max(bottomInset(container, page), footerReserve);
+    return children.some(c => c.getBoundingClientRect().bottom > limit + 0.5);
+  };
+
+  // Fixed sheet height from here on — the CSS carries the paper size.
+  root.classList.add('cv-page--sheet');
+  const rootFlows = flowsOf(root);
+  if (!rootFlows.some(flow => overflows(root, flow, 0))) return 1;
+
+  const makeFooter = (): HTMLElement => {
+    const footer = document.createElement('div');
+    footer.className = 'cv-page-footer';
+    const name = document.createElement('span');
+    name.className = 'cv-page-footer-name';
+    name.textContent = options.footerName;
+    const number = document.createElement('span');
+    number.className = 'cv-page-footer-number';
+    footer.append(name, number);
+    return footer;
+  };
+
+  // Measure how much of the sheet bottom the footer claims.
+  const probe = makeFooter();
+  root.appendChild(probe);
+  const footerReserve = root.getBoundingClientRect().bottom - probe.getBoundingClientRect().top;
+  probe.remove();
+
+  // Pull every flow's children out into queues, leaving empty shells.
+  const queues = rootFlows.map(flow => ({
+    name: flow.getAttribute('data-cv-flow') ?? '',
+    items: Array.from(flow.children) as HTMLElement[],
+  }));
+  for (const flow of rootFlows) flow.replaceChildren();
+
+  const template = root.cloneNode(true) as HTMLElement;
+  template.querySelectorAll('[data-cv-first-page-only]').forEach(el => el.remove());
+  template.classList.add('cv-page--continued');
+
+  // Place the section's title plus as many body entries as fit; what's left
+  // stays in the original element, which becomes the continuation.
+  const splitSection = (
+    section: HTMLElement,
+    container: HTMLElement,
+    page: HTMLElement,
+  ): HTMLElement | null => {
+    if (!section.classList.contains('cv-section')) return null;
+    const body = section.querySelector<HTMLElement>(':scope > .cv-section-body');
+    if (!body || body.children.length < 2) return null;
+
+    const head = section.cloneNode(true) as HTMLElement;
+    const headBody = head.querySelector<HTMLElement>(':scope > .cv-section-body');
+    if (!headBody) return null;
+    headBody.replaceChildren();
+    container.appendChild(head);
+
+    let placed = 0;
+    while (body.firstElementChild && body.children.length > 1) {
+      const entry = body.firstElementChild;
+      headBody.appendChild(entry);
+      if (overflows(page, container, footerReserve)) {
+        body.insertBefore(entry, body.firstChild);
+        break;
+      }
+      placed++;
+    }
+
+    if (!placed) {
+      head.remove();
+      return null;
+    }
+    section.classList.add('cv-section--continued');
+    return section;
+  };
+
+  const fill = (container: HTMLElement, items: HTMLElement[], page: HTMLElement): void => {
+    while (items.length) {
+      const item = items[0];
+      container.appendChild(item);
+      if (!overflows(page, container, footerReserve)) {
+        items.shift();
+        continue;
+      }
+      item.remove();
+
+      const rest = splitSection(item, container, page);
+      if (rest) {
+        items[0] = rest;
+        return;
+      }
+      // Taller than a whole sheet on its own — place it anyway rather than
+      // pushing it forward forever.
+      if (!container.children.length) {
+        container.appendChild(item);
+        items.shift();
+      }
+      return;
+    }
+  };
+
+  const sheets: HTMLElement[] = [];
+  while (queues.some(q => q.items.length) && sheets.length < MAX_SHEETS) {
+    const page: HTMLElement = sheets.length === 0 ? root : (template.cloneNode(true) as HTMLElement);
+    if (page !== root) host.insertBefore(page, sheets[sheets.length - 1].nextSibling);
+
+    let placedAny = false;
+    for (const queue of queues) {
+      const container = page.getAttribute('data-cv-flow') === queue.name
+        ? page
+        : page.querySelector<HTMLElement>(`[data-cv-flow="${queue.name}"]`);
+      if (!container) continue;
+      const before = queue.items.length;
+      fill(container, queue.items, page);
+      if (queue.items.length !== before || container.children.length) placedAny = true;
+    }
+    sheets.push(page);
+    if (!placedAny) break;
+  }
+
+  sheets.forEach((sheet, index) => {
+    const footer = makeFooter();
+    const number = footer.querySelector('.cv-page-footer-number');
+    if (number) number.textContent = `${index + 1} / ${sheets.length}`;
+    sheet.appendChild(footer);
+  });
+
+  return sheets.length;
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePeriod, totalYears } from './period';
+
+const now = new Date(2026, 6, 1); // July 2026 → 2026.5
+
+function span(period: string): [number, number] | null {
+  const parsed = parsePeriod(period, now);
+  return parsed && [Number(parsed.start.toFixed(2)), Number(parsed.end.toFixed(2))];
+}
+
+test('reads month-name and numeric ranges across languages', () => {
+  assert.deepEqual(span('Mar 2019 - Jun 2021'), [2019.17, 2021.42]);
+  assert.deepEqual(span('jan. 2020 – dec. 2022'), [2020, 2022.92]);
+  assert.deepEqual(span('03/2018 - 06/2020'), [2018.17, 2020.42]);
+  assert.deepEqual(span('juil. 2017 – juin 2018'), [2017.5, 2018.42]);
+  assert.deepEqual(span('2015–2017'), [2015, 2017]);
+});
+
+test('open ends run until now', () => {
+  for (const period of [
+    'Mar 2019 - Present',
+    'maart 2019 – heden',
+    'März 2019 – heute',
+    'mars 2019 – à ce jour',
+    'Mar 2019 - today',
+    'Mar 2019 –',
+  ]) {
+    assert.deepEqual(span(period), [2019.17, 2026.5], period);
+  }
+});
+
+test('a leading "since" opens the period', () => {
+  for (const period of ['Sinds 2019', 'since March 2019', 'seit 2019', 'depuis 2019', 'desde 2019']) {
+    assert.equal(parsePeriod(period, now)?.end, 2026.5, period);
+  }
+  assert.deepEqual(span('since March 2019'), [2019.17, 2026.5]);
+});
+
+test('single dates count as one year, or one month when the month is given', () => {
+  assert.deepEqual(span('2021'), [2021, 2022]);
+  assert.deepEqual(span('Sep 2021'), [2021.67, 2021.75]);
+  assert.deepEqual(span('2019 - 2019'), [2019, 2020]);
+});
+
+test('periods without a year or ending before they start are left out', () => {
+  assert.equal(parsePeriod('Present', now), null);
+  assert.equal(parsePeriod('06/2020 - 03/2018', now), null);
+});
+
+test('totalYears counts overlapping roles once', () => {
+  const periods = ['2015 - 2018', '2017 - 2020', '2022 - 2023'].map(p => parsePeriod(p, now)!);
+  assert.equal(totalYears(periods), 6);
+});
@@ -0,0 +1,96 @@
+/**
+ * Period parsing for charts — turns the free-text `experience[].period`
+ * ("Mar 2019 - Present", "jan. 2020 – heden", "03/2018 - 06/2020",
+ * "2015–2017") into a numeric span. Browser-safe.
+ *
+ * Periods are AI-written in any output language, so this is deliberately
+ * lenient: month names are matched on their first letters, and an open end
+ * ("present", "heden", "à ce jour", a trailing dash, a leading "since 2019",
+ * …) runs until `now`.
+ * Anything without a recognisable year yields null and is left out of the
+ * chart rather than guessed.
+ */
+
+export interface ParsedPeriod {
+  /** Fractional years, e.g. 2019.17 for March 2019 */
+  start: number;
+  end: number;
+  years: number;
+}
+
+// Month-name prefixes across nl/en/de/fr/es. Longer prefixes first where
+// two months share a stem (juin/juil).
+const MONTH_PREFIXES: Array<[string, number]> = [
+  ['juil', 7], ['juin', 6],
+  ['jan', 1], ['ene', 1],
+  ['feb', 2], ['fév', 2], ['fev', 2],
+  ['maa', 3], ['mar', 3], ['mrt', 3], ['mär', 3],
+  ['apr', 4], ['avr', 4], ['abr', 4],
+  ['may', 5], ['mei', 5], ['mai', 5],
+  ['jun', 6],
+  ['jul', 7],
+  ['aug', 8], ['aoû', 8], ['aou', 8], ['ago', 8],
+  ['sep', 9], ['set', 9],
+  ['oct', 10], ['okt', 10],
+  ['nov', 11],
+  ['dec', 12], ['dez', 12], ['déc', 12], ['dic', 12],
+];
+
+const OPEN_END = /\b(present|current|now|today|heden|nu|huidig|heute|jetzt|aktuell|actuel|aujourd|pr\u00e9sent|presente|actualidad|actual|hoy)\b|\u00e0 ce jour/i;
+
+// "Sinds 2019", "since March 2019", "seit 2019", "depuis 2019", "desde 2019"
+const OPEN_START = /^\s*(sinds|since|seit|depuis|desde)\b/i;
+
+// [month name or MM/] YYYY
+const DATE_TOKEN = /(?:([A-Za-z\u00C0-\u00FF]{3,})\.?\s+|(\d{1,2})\s*[/.-]\s*)?((?:19|20)\d{2})/g;
+
+function monthOf(word: string | undefined, numeric: string | undefined): number | null {
+  if (numeric) {
+    const n = Number(numeric);
+    return n >= 1 && n <= 12 ? n : null;
+  }
+  if (!word) return null;
+  const lower = word.toLowerCase();
+  return MONTH_PREFIXES.find(([prefix]) => lower.startsWith(prefix))?.[1] ?? null;
+}
+
+export function parsePeriod(period: string, now: Date = new Date()): ParsedPeriod | null {
+  const dates = [...period.matchAll(DATE_TOKEN)].map(([, word, numeric, year]) => ({
+    year: Number(year),
+    month: monthOf(word, numeric),
+  }));
+  if (dates.length === 0) return null;
+
+  const first = dates[0];
+  const start = first.year + ((first.month ?? 1) - 1) / 12;
+
+  let end: number;
+  const last = dates.length > 1 ? dates[dates.length - 1] : null;
+  if (last) {
+    end = last.year + ((last.month ?? 1) - 1) / 12;
+    // "2019 - 2019": a year-only span within one calendar year.
+    if (end <= start && last.month === null) end = start + 1;
+  } else if (OPEN_END.test(period) || OPEN_START.test(period) || /[-\u2013\u2014]\s*$/.test(period.trim())) {
+    end = now.getFullYear() + now.getMonth() / 12;
+  } else {
+    // A single date ("2021") — count it as one year, or one month when the
+    // month is given.
+    end = start + (first.month === null ? 1 : 1 / 12);
+  }
+
+  if (end < start) return null;
+  return { start, end, years: Math.max(end - start, 1 / 12) };
+}
+
+/** Total years covered by a set of periods, overlapping roles counted once. */
+export function totalYears(periods: ParsedPeriod[]): number {
+  const sorted = [...periods].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let cursor = -Infinity;
+  for (const { start, end } of sorted) {
+    if (end <= cursor) continue;
+    total += end - Math.max(start, cursor);
+    cursor = end;
+  }
+  return total;
+}
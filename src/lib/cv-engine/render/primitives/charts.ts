@@ -0,0 +1,111 @@
+/**
+ * Chart primitives — inline SVG for the infographic shape.
+ *
+ * Print-safe by construction: absolute coordinates only (no `transform`),
+ * colours through `.cv-chart-*` classes so the palette's CSS variables
+ * apply. Labels are real SVG `<text>`, which Chromium keeps in the PDF text
+ * layer; the shape still lists every skill and role as plain HTML too.
+ */
+
+import type { GeneratedCVContent } from '@/types';
+import { escHtml } from '../html';
+
+export interface ChartDatum {
+  label: string;
+  /** 0..1, relative to the strongest datum */
+  value: number;
+  /** Optional caption at the end of a bar, e.g. "4,5 jr" */
+  display?: string;
+}
+
+function truncate(s: string, max: number): string {
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+function round(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Relative weight per skill: how often the CV's own experience, projects
+ * and summary mention it. Skills are plain strings with no levels, so the
+ * chart shows emphasis in this CV rather than an invented proficiency.
+ * Every listed skill keeps a visible floor.
+ */
+export function skillEmphasis(skills: string[], content: GeneratedCVContent): ChartDatum[] {
+  const corpus = [
+    content.summary,
+    ...(content.experience ?? []).flatMap(e => [e.title, e.description ?? '', ...e.highlights]),
+    ...(content.projects ?? []).flatMap(p => [p.description, ...p.technologies, ...p.highlights]),
+  ]
+    .join('\n')
+    .toLowerCase();
+
+  // Whole-word matches only, so "R" or "Go" don't count every r and go.
+  const counts = skills.map(skill => {
+    const needle = skill.trim().toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (!needle) return 0;
+    return corpus.match(new RegExp(`(?<![\\p{L}\\p{N}])${needle}(?![\\p{L}\\p{N}])`, 'gu'))?.length ?? 0;
+  });
+  const max = Math.max(1, ...counts);
+  return skills.map((label, i) => ({ label, value: 0.35 + 0.65 * (counts[i] / max) }));
+}
+
+/** Radar ("spider") chart — reads best with 3–8 axes. */
+export function renderRadarChart(data: ChartDatum[], title: string): string {
+  const cx = 150;
+  const cy = 115;
+  const r = 78;
+  const n = data.length;
+  const point = (i: number, scale: number): [number, number] => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / n;
+    return [round(cx + Math.cos(angle) * r * scale), round(cy + Math.sin(angle) * r * scale)];
+  };
+  const polygon = (scale: (i: number) => number) =>
+    data.map((_, i) => point(i, scale(i)).join(',')).join(' ');
+
+  const rings = [0.25, 0.5, 0.75, 1]
+    .map(s => `<polygon class="cv-chart-grid" points="${polygon(() => s)}"/>`)
+    .join('');
+  const spokes = data
+    .map((_, i) => {
+      const [x, y] = point(i, 1);
+      return `<line class="cv-chart-grid" x1="${cx}" y1="${cy}" x2="${x}" y2="${y}"/>`;
+    })
+    .join('');
+  const labels = data
+    .map((d, i) => {
+      const [x, y] = point(i, 1.14);
+      const dx = x - cx;
+      const anchor = Math.abs(dx) < 8 ? 'middle' : dx > 0 ? 'start' : 'end';
+      const dy = y < cy - r * 0.9 ? -2 : y > cy + r * 0.9 ? 9 : 3.5;
+      return `<text class="cv-chart-label" x="${x}" y="${round(y + dy)}" text-anchor="${anchor}">${escHtml(truncate(d.label, 22))}</text>`;
+    })
+    .join('');
+
+  return `<svg class="cv-chart cv-chart-radar" viewBox="0 0 300 230" role="img" aria-label="${escHtml(title)}">
+  ${rings}${spokes}
+  <polygon class="cv-chart-area" points="${polygon(i => data[i].value)}"/>
+  ${labels}
+</svg>`;
+}
+
+/** Horizontal bars, label above each bar and an optional caption at its end. */
+export function renderBarChart(data: ChartDatum[], title: string): string {
+  const width = 300;
+  const row = 24;
+  const rows = data
+    .map((d, i) => {
+      const y = i * row;
+      const barWidth = round(Math.max(d.value, 0.02) * width);
+      return `<text class="cv-chart-label" x="0" y="${y + 10}">${escHtml(truncate(d.label, d.display ? 44 : 52))}</text>
+  ${d.display ? `<text class="cv-chart-value" x="${width}" y="${y + 10}" text-anchor="end">${escHtml(d.display)}</text>` : ''}
+  <rect class="cv-chart-track" x="0" y="${y + 14}" width="${width}" height="5" rx="2.5"/>
+  <rect class="cv-chart-bar" x="0" y="${y + 14}" width="${barWidth}" height="5" rx="2.5"/>`;
+    })
+    .join('\n  ');
+
+  return `<svg class="cv-chart cv-chart-bars" viewBox="0 0 ${width} ${data.length * row}" role="img" aria-label="${escHtml(title)}">
+  ${rows}
+</svg>`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Extra sections — publications & talks, volunteering, awards and
+ * references. Shared by every shape that walks sectionOrder: the entries
+ * reuse the experience-item markup, so each recipe's existing CSS styles
+ * them without per-shape rules.
+ *
+ * References render their named referees, or a single "available on
+ * request" line when the profile only says so.
+ */
+
+import type { GeneratedCVContent } from '@/types';
+import type { ResolvedSpec } from '../resolve';
+import { escHtml } from '../html';
+import { labelFor, REFERENCES_ON_REQUEST, type Locale } from '../labels';
+import { renderSection } from './section';
+import { renderExperienceItem } from './experience-item';
+
+export const EXTRA_SECTION_KEYS = ['publications', 'volunteering', 'awards', 'references'] as const;
+export type ExtraSectionKey = (typeof EXTRA_SECTION_KEYS)[number];
+
+export function isExtraSection(key: string): key is ExtraSectionKey {
+  return (EXTRA_SECTION_KEYS as readonly string[]).includes(key);
+}
+
+function renderEntry(title: string, meta: string | null, period: string | null, desc: string | null): string {
+  return `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(title)}</span>
+    ${meta ? `<span class="cv-role-meta">${escHtml(meta)}</span>` : ''}
+    ${period ? `<span class="cv-role-period">${escHtml(period)}</span>` : ''}
+  </div>
+  ${desc ? `<p class="cv-experience-desc">${escHtml(desc)}</p>` : ''}
+</article>`;
+}
+
+export function renderPublications(items: NonNullable<GeneratedCVContent['publications']>): string {
+  return items.map(p => renderEntry(p.title, p.publisher, p.date, p.url)).join('');
+}
+
+export function renderVolunteering(rs: ResolvedSpec, items: NonNullable<GeneratedCVContent['volunteering']>): string {
+  return items
+    .map(v =>
+      renderExperienceItem(
+        rs.spec.primitives.experienceItem,
+        {
+          title: v.role,
+          company: v.organization,
+          location: null,
+          period: v.period,
+          highlights: [],
+          description: v.description ?? undefined,
+        },
+        rs.emphasis.accentKeywords,
+      ),
+    )
+    .join('');
+}
+
+export function renderAwards(items: NonNullable<GeneratedCVContent['awards']>): string {
+  return items.map(a => renderEntry(a.title, a.issuer, a.date, a.description)).join('');
+}
+
+export function renderReferences(content: GeneratedCVContent, locale: Locale): string {
+  if (content.references?.length) {
+    return content.references.map(r => renderEntry(r.name, r.relationship, null, r.contact)).join('');
+  }
+  return content.referencesOnRequest
+    ? `<p class="cv-experience-desc">${escHtml(REFERENCES_ON_REQUEST[locale] ?? REFERENCES_ON_REQUEST.nl)}</p>`
+    : '';
+}
+
+/** The whole section for `key`, or '' when the CV has nothing to show there. */
+export function renderExtraSection(rs: ResolvedSpec, key: ExtraSectionKey, content: GeneratedCVContent, locale: Locale): string {
+  let body = '';
+  switch (key) {
+    case 'publications':
+      if (content.publications?.length) body = renderPublications(content.publications);
+      break;
+    case 'volunteering':
+      if (content.volunteering?.length) body = renderVolunteering(rs, content.volunteering);
+      break;
+    case 'awards':
+      if (content.awards?.length) body = renderAwards(content.awards);
+      break;
+    case 'references':
+      body = renderReferences(content, locale);
+      break;
+  }
+  return body ? renderSection(rs.spec.primitives.section, labelFor(locale, key), body) : '';
+}
@@ -37,7 +37,7 @@ function renderContactBlock(contact: ContactInfo, locale: Locale): string {
   if (contact.github) lines.push(`<li>${escHtml(contact.github)}</li>`);
   if (contact.website) lines.push(`<li>${escHtml(contact.website)}</li>`);
   if (!lines.length) return '';
-  const title = locale === 'en' ? 'Contact' : 'Contact';
+  const title = labelFor(locale, 'contact');
   return `<section class="cv-sidebar-section">
   <h3 class="cv-sidebar-title">${escHtml(title)}</h3>
   <ul class="cv-contact-block">${lines.join('')}</ul>
@@ -87,5 +87,5 @@ export function renderSidebar(
 </section>`);
   }
 
-  return `<aside class="cv-sidebar">${sections.join('\n')}</aside>`;
+  return `<aside class="cv-sidebar" data-cv-flow="side">${sections.join('\n')}</aside>`;
 }
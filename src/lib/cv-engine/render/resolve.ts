@@ -1,11 +1,11 @@
 /**
  * Resolve — merge tokens into a recipe spec to produce a ResolvedSpec
  * that's ready to render. Clamps palette overrides to recipe-declared
- * ranges and picks the active font pairing.
+ * ranges, picks the active font pairing and completes the section order.
  */
 
 import type { DesignSpec, FontPairingId, OklchValue, PaletteRole } from '../spec';
-import type { CVStyleTokensV2 } from '../tokens';
+import { completeSectionOrder, type CVStyleTokensV2 } from '../tokens';
 import { clampOklch } from './css/oklch';
 
 export interface ResolvedSpec {
@@ -45,7 +45,7 @@ export function resolve(spec: DesignSpec, tokens: CVStyleTokensV2): ResolvedSpec
     palette,
     fontPairing,
     emphasis: tokens.emphasis,
-    sectionOrder: tokens.sectionOrder,
+    sectionOrder: completeSectionOrder(tokens.sectionOrder),
     hiddenSections: new Set(tokens.hiddenSections ?? []),
   };
 }
@@ -2,11 +2,15 @@
  * editorial-grid shape — asymmetric 65/35 layout with a marginalia column.
  *
  * Main column (65%) carries the editorial body: name + headline, summary,
- * experience as paragraph or bullets, education. Margin column (35%) carries
- * a column of small callouts — by default the experience periods + company
- * names, optionally overridden by the AI's marginNoteCopy (Phase 2).
+ * experience as paragraph or bullets, education, skills, projects and the
+ * extra sections (publications, volunteering, awards, references). Margin
+ * column (35%) carries a column of small callouts — by default the
+ * experience periods + company names, optionally overridden by the AI's
+ * marginNoteCopy (Phase 2).
  *
  * Used by creative/wallpaper and experimental/gallery.
+ *
+ * Main column and marginalia list paginate as separate flows (../paginate.ts).
  */
 
 import type { GeneratedCVContent } from '@/types';
@@ -15,6 +19,7 @@ import { applyAccentHighlights, escHtml } from '../html';
 import { labelFor, type Locale } from '../labels';
 import { renderSection } from '../primitives/section';
 import { renderExperienceItem } from '../primitives/experience-item';
+import { renderExtraSection } from '../primitives/extra-sections';
 import { renderSkillList } from '../primitives/skill-list';
 import { applyDropCap, renderPullQuote } from '../primitives/decorators';
 import type { ContactInfo } from '../primitives/header';
@@ -57,7 +62,7 @@ function renderMarginalia(content: GeneratedCVContent): string {
   <div class="cv-margin-where">${escHtml(e.company)}${e.location ? ` · ${escHtml(e.location)}` : ''}</div>
 </li>`;
   }).join('');
-  return `<aside class="cv-margin"><ul class="cv-margin-list">${items}</ul></aside>`;
+  return `<aside class="cv-margin"><ul class="cv-margin-list" data-cv-flow="margin">${items}</ul></aside>`;
 }
 
 function renderEducation(items: GeneratedCVContent['education']): string {
@@ -81,6 +86,20 @@ function renderInterests(items: string[]): string {
     .join('')}</div>`;
 }
 
+function renderProjects(items: NonNullable<GeneratedCVContent['projects']>): string {
+  return items
+    .map(
+      p => `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(p.title)}</span>
+    <span class="cv-role-period">${escHtml(p.period)}</span>
+  </div>
+  <p class="cv-experience-desc">${escHtml(p.description)}</p>
+</article>`,
+    )
+    .join('');
+}
+
 function deriveDefaultPullQuote(content: GeneratedCVContent): { text: string; attribution?: string } | null {
   const first = content.experience?.[0];
   const firstHighlight = first?.highlights?.[0];
@@ -138,15 +157,24 @@ export function renderEditorialGrid(rs: ResolvedSpec, input: EditorialGridInput)
         if (!content.interests?.length) break;
         mainSections.push(renderSection(rs.spec.primitives.section, labelFor(locale, 'interests'), renderInterests(content.interests)));
         break;
+      case 'projects':
+        if (!content.projects?.length) break;
+        mainSections.push(renderSection(rs.spec.primitives.section, labelFor(locale, 'projects'), renderProjects(content.projects)));
+        break;
+      case 'publications':
+      case 'volunteering':
+      case 'awards':
+      case 'references':
+        mainSections.push(renderExtraSection(rs, section, content, locale));
+        break;
       case 'languages':
       case 'certifications':
-      case 'projects':
         // Editorial grid puts these in the margin column / out-of-scope for Phase 1.
         break;
     }
   }
 
-  const mainHtml = `<main class="cv-main">${mainSections.join('\n')}</main>`;
+  const mainHtml = `<main class="cv-main" data-cv-flow="main">${mainSections.join('\n')}</main>`;
   const marginHtml = rs.spec.decorators.marginalia ? renderMarginalia(content) : '';
 
   return `<div class="cv-page cv-shape-editorial-grid">
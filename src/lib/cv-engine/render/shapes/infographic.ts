@@ -0,0 +1,223 @@
+/**
+ * infographic shape — compact, data-forward layout for design and data
+ * roles. Under the header sits a dashboard: a strip of key figures (years
+ * of experience, roles, skills, languages) and two inline-SVG charts — a
+ * skill radar (bars when there are too few or too many skills for a
+ * radar) and years per role, derived from `experience[].period` (see
+ * ../period.ts). Sections follow in sectionOrder, dense, with the full
+ * skill list kept as text so ATS parsing doesn't depend on the charts.
+ *
+ * Used by balanced/almanac.
+ *
+ * The page is the pagination flow (see ../paginate.ts); the dashboard is
+ * one flow item and stays on the first sheet.
+ */
+
+import type { GeneratedCVContent } from '@/types';
+import { LANGUAGE_LOCALES } from '@/types/language';
+import type { ResolvedSpec } from '../resolve';
+import { applyAccentHighlights, escHtml } from '../html';
+import { chartLabelFor, labelFor, type Locale } from '../labels';
+import { parsePeriod, totalYears } from '../period';
+import { renderHeader, type ContactInfo } from '../primitives/header';
+import { renderSection } from '../primitives/section';
+import { renderExperienceItem } from '../primitives/experience-item';
+import { renderSkillList } from '../primitives/skill-list';
+import { renderExtraSection } from '../primitives/extra-sections';
+import { renderBarChart, renderRadarChart, skillEmphasis, type ChartDatum } from '../primitives/charts';
+
+export interface InfographicInput {
+  content: GeneratedCVContent;
+  fullName: string;
+  contact: ContactInfo;
+  avatarUrl?: string | null;
+  locale: Locale;
+}
+
+/** A radar needs at least three axes and stops being legible past eight. */
+const RADAR_MIN = 3;
+const RADAR_MAX = 8;
+/** Skills and roles beyond these counts are left out of the charts (still listed as text). */
+const MAX_CHARTED_SKILLS = 8;
+const MAX_CHARTED_ROLES = 6;
+
+function renderKeyFigures(figures: Array<{ value: string; label: string }>): string {
+  if (!figures.length) return '';
+  return `<div class="cv-infographic-figures">${figures
+    .map(
+      f => `<div class="cv-infographic-figure">
+  <span class="cv-infographic-figure-value">${escHtml(f.value)}</span>
+  <span class="cv-infographic-figure-label">${escHtml(f.label)}</span>
+</div>`,
+    )
+    .join('')}</div>`;
+}
+
+function renderPanel(title: string, chart: string): string {
+  return `<div class="cv-infographic-panel">
+  <h3 class="cv-infographic-panel-title">${escHtml(title)}</h3>
+  ${chart}
+</div>`;
+}
+
+function renderDashboard(rs: ResolvedSpec, content: GeneratedCVContent, locale: Locale): string {
+  const format = new Intl.NumberFormat(LANGUAGE_LOCALES[locale], { maximumFractionDigits: 1 });
+  const showExperience = !rs.hiddenSections.has('experience');
+  const showSkills = !rs.hiddenSections.has('skills');
+  const showLanguages = !rs.hiddenSections.has('languages');
+
+  const roles = showExperience
+    ? (content.experience ?? []).map(e => ({ e, period: parsePeriod(e.period) }))
+    : [];
+  const dated = roles.filter((r): r is typeof r & { period: NonNullable<typeof r.period> } => r.period !== null);
+  const technical = showSkills ? (content.skills?.technical ?? []) : [];
+  const skillCount = showSkills ? technical.length + (content.skills?.soft.length ?? 0) : 0;
+  const languageCount = showLanguages ? (content.languages?.length ?? 0) : 0;
+
+  const figures: Array<{ value: string; label: string }> = [];
+  if (dated.length) {
+    figures.push({
+      value: format.format(Math.round(totalYears(dated.map(r => r.period)) * 2) / 2),
+      label: chartLabelFor(locale, 'yearsOfExperience'),
+    });
+  }
+  if (roles.length) figures.push({ value: String(roles.length), label: chartLabelFor(locale, 'roles') });
+  if (skillCount) figures.push({ value: String(skillCount), label: labelFor(locale, 'skills') });
+  if (languageCount) figures.push({ value: String(languageCount), label: labelFor(locale, 'languages') });
+
+  const panels: string[] = [];
+  if (technical.length) {
+    const data = skillEmphasis(technical.slice(0, MAX_CHARTED_SKILLS), content);
+    const title = labelFor(locale, 'skills');
+    panels.push(
+      renderPanel(title, data.length >= RADAR_MIN && data.length <= RADAR_MAX ? renderRadarChart(data, title) : renderBarChart(data, title)),
+    );
+  }
+  if (dated.length) {
+    const charted = dated.slice(0, MAX_CHARTED_ROLES);
+    const longest = Math.max(...charted.map(r => r.period.years));
+    const unit = chartLabelFor(locale, 'yearsShort');
+    const data: ChartDatum[] = charted.map(({ e, period }) => ({
+      label: [e.title, e.company].filter(Boolean).join(' · '),
+      value: period.years / longest,
+      display: `${format.format(Math.round(period.years * 2) / 2)} ${unit}`,
+    }));
+    const title = chartLabelFor(locale, 'yearsPerRole');
+    panels.push(renderPanel(title, renderBarChart(data, title)));
+  }
+
+  if (!figures.length && !panels.length) return '';
+  return `<div class="cv-infographic-dashboard">
+${renderKeyFigures(figures)}
+${panels.length ? `<div class="cv-infographic-charts" data-panels="${panels.length}">${panels.join('')}</div>` : ''}
+</div>`;
+}
+
+function renderSummary(summary: string, accentKeywords?: string[]): string {
+  return `<p class="cv-summary">${applyAccentHighlights(escHtml(summary), accentKeywords)}</p>`;
+}
+
+function renderEducation(items: GeneratedCVContent['education']): string {
+  return items
+    .map(
+      e => `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(e.degree)}</span>
+    <span class="cv-role-meta">${escHtml(e.institution)}</span>
+    <span class="cv-role-period">${escHtml(e.year)}</span>
+  </div>
+  ${e.details ? `<p class="cv-experience-desc">${escHtml(e.details)}</p>` : ''}
+</article>`,
+    )
+    .join('');
+}
+
+function renderProjects(items: NonNullable<GeneratedCVContent['projects']>): string {
+  return items
+    .map(
+      p => `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(p.title)}</span>
+    <span class="cv-role-period">${escHtml(p.period)}</span>
+  </div>
+  <p class="cv-experience-desc">${escHtml(p.description)}</p>
+</article>`,
+    )
+    .join('');
+}
+
+function renderTags(items: string[]): string {
+  return `<div class="cv-skill-list">${items
+    .map(i => `<span class="cv-skill">${escHtml(i)}</span>`)
+    .join('')}</div>`;
+}
+
+export function renderInfographic(rs: ResolvedSpec, input: InfographicInput): string {
+  const { content, fullName, contact, locale } = input;
+  const accentKeywords = rs.emphasis.accentKeywords;
+  const section = rs.spec.primitives.section;
+
+  const headerHtml = renderHeader(rs.spec.primitives.header, {
+    fullName,
+    headline: content.headline,
+    nameTagline: rs.emphasis.nameTagline,
+    contact,
+    avatarUrl: input.avatarUrl,
+  });
+
+  const sectionsHtml = rs.sectionOrder
+    .filter(s => !rs.hiddenSections.has(s))
+    .map(key => {
+      switch (key) {
+        case 'summary':
+          return renderSummary(content.summary, accentKeywords);
+        case 'experience':
+          if (!content.experience?.length) return '';
+          return renderSection(
+            section,
+            labelFor(locale, 'experience'),
+            content.experience.map(e => renderExperienceItem(rs.spec.primitives.experienceItem, e, accentKeywords)).join(''),
+          );
+        case 'education':
+          if (!content.education?.length) return '';
+          return renderSection(section, labelFor(locale, 'education'), renderEducation(content.education));
+        case 'skills':
+          if (!content.skills) return '';
+          return renderSection(
+            section,
+            labelFor(locale, 'skills'),
+            renderSkillList(rs.spec.primitives.skillList, content.skills, accentKeywords),
+          );
+        case 'languages':
+          if (!content.languages?.length) return '';
+          return renderSection(
+            section,
+            labelFor(locale, 'languages'),
+            renderTags(content.languages.map(l => (l.level ? `${l.language} (${l.level})` : l.language))),
+          );
+        case 'certifications':
+          if (!content.certifications?.length) return '';
+          return renderSection(section, labelFor(locale, 'certifications'), renderTags(content.certifications));
+        case 'projects':
+          if (!content.projects?.length) return '';
+          return renderSection(section, labelFor(locale, 'projects'), renderProjects(content.projects));
+        case 'interests':
+          if (!content.interests?.length) return '';
+          return renderSection(section, labelFor(locale, 'interests'), renderTags(content.interests));
+        case 'publications':
+        case 'volunteering':
+        case 'awards':
+        case 'references':
+          return renderExtraSection(rs, key, content, locale);
+        default:
+          return '';
+      }
+    })
+    .join('\n');
+
+  return `<div class="cv-page cv-shape-infographic" data-cv-flow="main">
+${headerHtml}
+${renderDashboard(rs, content, locale)}
+${sectionsHtml}
+</div>`;
+}
@@ -4,15 +4,19 @@
  * Upper zone (≈45% of the page): the candidate's name fills the area,
  * optionally with a poster-line statement below (from emphasis.posterLine
  * or content.headline as fallback). Lower zone: dense 2-column small
- * print carrying summary + experience + skills + languages credits.
+ * print carrying summary + experience + skills + languages credits, then
+ * projects, publications, volunteering, awards and references when present.
  *
  * Used by experimental/manifesto.
+ *
+ * When paginated (../paginate.ts) the hero stays on the first sheet; the
+ * small-print body flows onto the following ones.
  */
 
 import type { GeneratedCVContent } from '@/types';
 import type { ResolvedSpec } from '../resolve';
 import { applyAccentHighlights, escHtml } from '../html';
-import { labelFor, type Locale } from '../labels';
+import { labelFor, REFERENCES_ON_REQUEST, type Locale } from '../labels';
 import type { ContactInfo } from '../primitives/header';
 
 export interface PosterInput {
@@ -29,7 +33,7 @@ function renderHeroBlock(fullName: string, posterLine: string | undefined, tagli
   const photo = avatarUrl
     ? `<div class="cv-poster-photo"><img src="${escHtml(avatarUrl)}" alt=""></div>`
     : '';
-  return `<header class="cv-poster-hero${avatarUrl ? ' has-photo' : ''}">
+  return `<header class="cv-poster-hero${avatarUrl ? ' has-photo' : ''}" data-cv-first-page-only>
   ${photo}
   ${tag}
   <h1 class="cv-poster-name">${escHtml(fullName)}</h1>
@@ -37,6 +41,17 @@ function renderHeroBlock(fullName: string, posterLine: string | undefined, tagli
 </header>`;
 }
 
+/** One credits row: period, then the title, then where / who. */
+function credit(period: string | null, role: string, where: string | null): string {
+  return [
+    period ? `<span class="cv-credit-period">${escHtml(period)}</span>` : '',
+    `<span class="cv-credit-role">${escHtml(role)}</span>`,
+    where ? `<span class="cv-credit-where">${escHtml(where)}</span>` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
 function renderCreditsBlock(title: string, items: string[]): string {
   if (!items.length) return '';
   return `<section class="cv-poster-credits">
@@ -67,6 +82,15 @@ export function renderPoster(rs: ResolvedSpec, input: PosterInput): string {
   const languagesCredits = (content.languages ?? []).map(
     l => `${escHtml(l.language)}${l.level ? ` <span style="opacity:0.6">(${escHtml(l.level)})</span>` : ''}`,
   );
+  const projectCredits = (content.projects ?? []).map(p => credit(p.period, p.title, null));
+  const publicationCredits = (content.publications ?? []).map(p => credit(p.date, p.title, p.publisher));
+  const volunteeringCredits = (content.volunteering ?? []).map(v => credit(v.period, v.role, v.organization));
+  const awardCredits = (content.awards ?? []).map(a => credit(a.date, a.title, a.issuer));
+  const referenceCredits = content.references?.length
+    ? content.references.map(r => credit(null, r.name, [r.relationship, r.contact].filter(Boolean).join(', ')))
+    : content.referencesOnRequest
+      ? [escHtml(REFERENCES_ON_REQUEST[locale] ?? REFERENCES_ON_REQUEST.nl)]
+      : [];
   const contactCredits = [contact.email, contact.phone, contact.city, contact.linkedin, contact.github, contact.website]
     .filter(Boolean)
     .map(s => escHtml(String(s)));
@@ -77,11 +101,16 @@ export function renderPoster(rs: ResolvedSpec, input: PosterInput): string {
     renderCreditsBlock(labelFor(locale, 'education'), educationCredits),
     renderCreditsBlock(labelFor(locale, 'skills'), skillsCredits),
     renderCreditsBlock(labelFor(locale, 'languages'), languagesCredits),
-    renderCreditsBlock(locale === 'en' ? 'Contact' : 'Contact', contactCredits),
+    renderCreditsBlock(labelFor(locale, 'projects'), projectCredits),
+    renderCreditsBlock(labelFor(locale, 'publications'), publicationCredits),
+    renderCreditsBlock(labelFor(locale, 'volunteering'), volunteeringCredits),
+    renderCreditsBlock(labelFor(locale, 'awards'), awardCredits),
+    renderCreditsBlock(labelFor(locale, 'references'), referenceCredits),
+    renderCreditsBlock(labelFor(locale, 'contact'), contactCredits),
   ].join('\n');
 
   return `<div class="cv-page cv-shape-poster">
 ${renderHeroBlock(fullName, posterLine, rs.emphasis.nameTagline, input.avatarUrl)}
-<div class="cv-poster-body">${sections}</div>
+<div class="cv-poster-body" data-cv-flow="main">${sections}</div>
 </div>`;
 }
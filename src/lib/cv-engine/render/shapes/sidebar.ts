@@ -3,10 +3,14 @@
  *
  * Sidebar (auto-filled by `renderSidebar`): contact + skills + languages +
  * certifications + optional photo. Main column: name+headline header,
- * summary, experience, education, projects, interests.
+ * summary, experience, education, projects, interests, publications,
+ * volunteering, awards, references.
  *
  * The recipe controls sidebar styling via `primitives.sidebar`
  * (solid / transparent / gradient / photo-hero).
+ *
+ * Both columns are pagination flows (see ../paginate.ts): on long CVs the
+ * sidebar fill repeats on every sheet and its sections continue there.
  */
 
 import type { GeneratedCVContent } from '@/types';
@@ -15,6 +19,7 @@ import { applyAccentHighlights, escHtml } from '../html';
 import { labelFor, type Locale } from '../labels';
 import { renderSection } from '../primitives/section';
 import { renderExperienceItem } from '../primitives/experience-item';
+import { renderExtraSection } from '../primitives/extra-sections';
 import { renderSidebar } from '../primitives/sidebar';
 import { applyDropCap, renderPullQuote } from '../primitives/decorators';
 import type { ContactInfo } from '../primitives/header';
@@ -70,6 +75,20 @@ function renderInterests(items: string[]): string {
     .join('')}</div>`;
 }
 
+function renderProjects(items: NonNullable<GeneratedCVContent['projects']>): string {
+  return items
+    .map(
+      p => `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(p.title)}</span>
+    <span class="cv-role-period">${escHtml(p.period)}</span>
+  </div>
+  <p class="cv-experience-desc">${escHtml(p.description)}</p>
+</article>`,
+    )
+    .join('');
+}
+
 function deriveDefaultPullQuote(content: GeneratedCVContent): { text: string; attribution?: string } | null {
   const first = content.experience?.[0];
   const firstHighlight = first?.highlights?.[0];
@@ -128,22 +147,31 @@ export function renderSidebarShape(rs: ResolvedSpec, input: SidebarShapeInput):
         if (!content.education?.length) break;
         mainSections.push(renderSection(rs.spec.primitives.section, labelFor(locale, 'education'), renderEducation(content.education)));
         break;
+      case 'projects':
+        if (!content.projects?.length) break;
+        mainSections.push(renderSection(rs.spec.primitives.section, labelFor(locale, 'projects'), renderProjects(content.projects)));
+        break;
       case 'interests':
         if (!content.interests?.length) break;
         mainSections.push(renderSection(rs.spec.primitives.section, labelFor(locale, 'interests'), renderInterests(content.interests)));
         break;
+      case 'publications':
+      case 'volunteering':
+      case 'awards':
+      case 'references':
+        mainSections.push(renderExtraSection(rs, section, content, locale));
+        break;
       // skills, languages, certifications live in the sidebar — skip here.
       case 'skills':
       case 'languages':
       case 'certifications':
-      case 'projects': // Projects → main if Phase 2 wants it
         break;
       default:
         break;
     }
   }
 
-  const mainHtml = `<main class="cv-main">${mainSections.join('\n')}</main>`;
+  const mainHtml = `<main class="cv-main" data-cv-flow="main">${mainSections.join('\n')}</main>`;
 
   return `<div class="cv-page cv-shape-sidebar" data-sidebar-variant="${sidebarVariant}">
 ${sidebarHtml}
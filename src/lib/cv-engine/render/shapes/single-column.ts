@@ -1,6 +1,8 @@
 /**
  * single-column shape — renders the header at top, then all sections
  * stacked vertically. Used by `safe/*` and most `balanced/*` recipes.
+ *
+ * The page itself is the pagination flow (see ../paginate.ts).
  */
 
 import type { GeneratedCVContent } from '@/types';
@@ -11,6 +13,7 @@ import { renderHeader, type ContactInfo } from '../primitives/header';
 import { renderSection } from '../primitives/section';
 import { renderExperienceItem } from '../primitives/experience-item';
 import { renderSkillList } from '../primitives/skill-list';
+import { renderExtraSection } from '../primitives/extra-sections';
 import { applyDropCap, renderPullQuote } from '../primitives/decorators';
 
 export interface SingleColumnInput {
@@ -169,13 +172,18 @@ export function renderSingleColumn(rs: ResolvedSpec, input: SingleColumnInput):
         case 'interests':
           if (!content.interests?.length) return '';
           return renderSection(rs.spec.primitives.section, labelFor(locale, 'interests'), renderInterests(content.interests));
+        case 'publications':
+        case 'volunteering':
+        case 'awards':
+        case 'references':
+          return renderExtraSection(rs, section, content, locale);
         default:
           return '';
       }
     })
     .join('\n');
 
-  return `<div class="cv-page cv-shape-single-column">
+  return `<div class="cv-page cv-shape-single-column" data-cv-flow="main">
 ${headerHtml}
 ${sectionsHtml}
 </div>`;
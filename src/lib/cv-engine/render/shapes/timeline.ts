@@ -0,0 +1,174 @@
+/**
+ * timeline shape — header on top, then a vertical career timeline: a spine
+ * down the middle of the page with each role's period on it and the roles
+ * alternating left and right. The other sections stack full-width below
+ * (or above, following sectionOrder), as in single-column.
+ *
+ * Used by creative/chronicle.
+ *
+ * The page is the pagination flow (see ../paginate.ts). Every timeline
+ * entry draws its own stretch of the spine, so the experience section can
+ * split between entries and carry on on the next sheet.
+ */
+
+import type { GeneratedCVContent } from '@/types';
+import type { ResolvedSpec } from '../resolve';
+import { applyAccentHighlights, escHtml } from '../html';
+import { labelFor, type Locale } from '../labels';
+import { renderHeader, type ContactInfo } from '../primitives/header';
+import { renderSection } from '../primitives/section';
+import { renderExperienceItem } from '../primitives/experience-item';
+import { renderSkillList } from '../primitives/skill-list';
+import { renderExtraSection } from '../primitives/extra-sections';
+import { applyDropCap, renderPullQuote } from '../primitives/decorators';
+
+export interface TimelineInput {
+  content: GeneratedCVContent;
+  fullName: string;
+  contact: ContactInfo;
+  avatarUrl?: string | null;
+  locale: Locale;
+}
+
+function renderSummary(
+  summary: string,
+  accentKeywords?: string[],
+  decorators?: { dropCap: boolean },
+  dropCapLetter?: string,
+): string {
+  let body = applyAccentHighlights(escHtml(summary), accentKeywords);
+  if (decorators?.dropCap) body = applyDropCap(body, dropCapLetter);
+  return `<p class="cv-summary">${body}</p>`;
+}
+
+/** One role on the spine. The first role sits left, then they alternate. */
+function renderTimelineEntry(rs: ResolvedSpec, exp: GeneratedCVContent['experience'][number], index: number): string {
+  const side = index % 2 === 0 ? 'left' : 'right';
+  return `<div class="cv-timeline-entry" data-side="${side}">
+  <div class="cv-timeline-date">${escHtml(exp.period)}</div>
+  <div class="cv-timeline-dot" aria-hidden="true"></div>
+  <div class="cv-timeline-card">${renderExperienceItem(rs.spec.primitives.experienceItem, exp, rs.emphasis.accentKeywords)}</div>
+</div>`;
+}
+
+function renderEducation(items: GeneratedCVContent['education']): string {
+  return items
+    .map(
+      e => `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(e.degree)}</span>
+    <span class="cv-role-meta">${escHtml(e.institution)}</span>
+    <span class="cv-role-period">${escHtml(e.year)}</span>
+  </div>
+  ${e.details ? `<p class="cv-experience-desc">${escHtml(e.details)}</p>` : ''}
+</article>`,
+    )
+    .join('');
+}
+
+function renderProjects(items: NonNullable<GeneratedCVContent['projects']>): string {
+  return items
+    .map(
+      p => `<article class="cv-experience-item">
+  <div class="cv-role-line">
+    <span class="cv-role-title">${escHtml(p.title)}</span>
+    <span class="cv-role-period">${escHtml(p.period)}</span>
+  </div>
+  <p class="cv-experience-desc">${escHtml(p.description)}</p>
+</article>`,
+    )
+    .join('');
+}
+
+function renderTags(items: string[]): string {
+  return `<div class="cv-skill-list">${items
+    .map(i => `<span class="cv-skill">${escHtml(i)}</span>`)
+    .join('')}</div>`;
+}
+
+function deriveDefaultPullQuote(content: GeneratedCVContent): { text: string; attribution?: string } | null {
+  const first = content.experience?.[0];
+  const firstHighlight = first?.highlights?.[0];
+  if (!firstHighlight) return null;
+  return { text: firstHighlight, attribution: first ? `— ${first.title}, ${first.company}` : undefined };
+}
+
+export function renderTimeline(rs: ResolvedSpec, input: TimelineInput): string {
+  const { content, fullName, contact, locale } = input;
+  const accentKeywords = rs.emphasis.accentKeywords;
+  const section = rs.spec.primitives.section;
+
+  const headerHtml = renderHeader(rs.spec.primitives.header, {
+    fullName,
+    headline: content.headline,
+    nameTagline: rs.emphasis.nameTagline,
+    contact,
+    avatarUrl: input.avatarUrl,
+  });
+
+  let pullQuoteHtml = '';
+  if (rs.spec.decorators.pullQuote) {
+    const aiText = rs.emphasis.pullQuoteText;
+    if (aiText) {
+      pullQuoteHtml = renderPullQuote(aiText, rs.emphasis.pullQuoteAttribution, accentKeywords);
+    } else {
+      const derived = deriveDefaultPullQuote(content);
+      if (derived) pullQuoteHtml = renderPullQuote(derived.text, derived.attribution, accentKeywords);
+    }
+  }
+
+  const sectionsHtml = rs.sectionOrder
+    .filter(s => !rs.hiddenSections.has(s))
+    .map(key => {
+      switch (key) {
+        case 'summary':
+          return renderSummary(content.summary, accentKeywords, rs.spec.decorators, rs.emphasis.dropCapLetter);
+        case 'experience':
+          if (!content.experience?.length) return '';
+          return renderSection(
+            section,
+            labelFor(locale, 'experience'),
+            content.experience.map((e, i) => renderTimelineEntry(rs, e, i)).join(''),
+          ) + pullQuoteHtml;
+        case 'education':
+          if (!content.education?.length) return '';
+          return renderSection(section, labelFor(locale, 'education'), renderEducation(content.education));
+        case 'skills':
+          if (!content.skills) return '';
+          return renderSection(
+            section,
+            labelFor(locale, 'skills'),
+            renderSkillList(rs.spec.primitives.skillList, content.skills, accentKeywords),
+          );
+        case 'languages':
+          if (!content.languages?.length) return '';
+          return renderSection(
+            section,
+            labelFor(locale, 'languages'),
+            renderTags(content.languages.map(l => (l.level ? `${l.language} (${l.level})` : l.language))),
+          );
+        case 'certifications':
+          if (!content.certifications?.length) return '';
+          return renderSection(section, labelFor(locale, 'certifications'), renderTags(content.certifications));
+        case 'projects':
+          if (!content.projects?.length) return '';
+          return renderSection(section, labelFor(locale, 'projects'), renderProjects(content.projects));
+        case 'interests':
+          if (!content.interests?.length) return '';
+          return renderSection(section, labelFor(locale, 'interests'), renderTags(content.interests));
+        case 'publications':
+        case 'volunteering':
+        case 'awards':
+        case 'references':
+          return renderExtraSection(rs, key, content, locale);
+        default:
+          return '';
+      }
+    })
+    .join('\n');
+
+  return `<div class="cv-page cv-shape-timeline" data-cv-flow="main">
+${headerHtml}
+${sectionsHtml}
+</div>`;
+}
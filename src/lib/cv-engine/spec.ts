@@ -1,9 +1,10 @@
 /**
  * DesignSpec — The single source of truth for a recipe.
  *
- * Build-time parser (recipes/parse.ts) reads SKILL.md frontmatter + optional
- * DESIGN.md content and emits a typed DesignSpec that the renderer and the
- * tweak UI consume. Validation via Zod, type inference via z.infer.
+ * Build-time parser (recipes/parse.ts) reads SKILL.md frontmatter and emits a
+ * typed DesignSpec that the renderer and the tweak UI consume;
+ * scripts/build-recipes.mts bakes the result into recipes/generated.ts.
+ * Validation via Zod, type inference via z.infer.
  *
  * Recipes themselves live as Markdown files (open-design SKILL.md format)
  * under recipes/{route}/{name}/. Verbatim copies from nexu-io/open-design
@@ -79,7 +80,7 @@ export type FontPairingId = z.infer<typeof FontPairingIdSchema>;
 
 // ============ Layout shape + primitives ============
 
-export const LayoutShapeSchema = z.enum(['single-column', 'sidebar', 'editorial-grid', 'poster']);
+export const LayoutShapeSchema = z.enum(['single-column', 'sidebar', 'editorial-grid', 'poster', 'timeline', 'infographic']);
 export type LayoutShape = z.infer<typeof LayoutShapeSchema>;
 
 export const HeaderVariantSchema = z.enum(['stacked', 'banded', 'split', 'hero']);
@@ -55,6 +55,40 @@ export type PaletteOverride = z.infer<typeof PaletteOverrideSchema>;
 export const PageModeSchema = z.enum(['a4-paged', 'single-long']);
 export type PageMode = z.infer<typeof PageModeSchema>;
 
+export const PaperSizeSchema = z.enum(['a4', 'letter', 'legal']);
+export type PaperSize = z.infer<typeof PaperSizeSchema>;
+
+/** Every section key the shapes know, in the default reading order. */
+export const DEFAULT_SECTION_ORDER = [
+  'summary',
+  'experience',
+  'education',
+  'skills',
+  'languages',
+  'certifications',
+  'projects',
+  'publications',
+  'volunteering',
+  'awards',
+  'interests',
+  'references',
+];
+
+/**
+ * Add the keys missing from a stored or AI-picked order, each right after
+ * the key it follows in DEFAULT_SECTION_ORDER — tokens written before a
+ * section existed still render it, in a sensible place. Unknown keys stay.
+ */
+export function completeSectionOrder(order: string[]): string[] {
+  const out = [...order];
+  DEFAULT_SECTION_ORDER.forEach((key, i) => {
+    if (out.includes(key)) return;
+    const before = DEFAULT_SECTION_ORDER.slice(0, i).reverse().find(k => out.includes(k));
+    out.splice(before ? out.indexOf(before) + 1 : 0, 0, key);
+  });
+  return out;
+}
+
 export const CVStyleTokensV2Schema = z.object({
   engineVersion: z.literal('v2'),
   /** Fully-qualified recipe id, e.g. 'creative/kinfolk'. */
@@ -63,6 +97,8 @@ export const CVStyleTokensV2Schema = z.object({
   fontOverride: FontPairingIdSchema.optional(),
   /** Optional — UI/AI may pick 'single-long' for continuous-page output. */
   pageMode: PageModeSchema.optional(),
+  /** Optional — output sheet; missing means A4. Letter/Legal for US/CA applications. */
+  paperSize: PaperSizeSchema.optional(),
   emphasis: EmphasisSchema,
   sectionOrder: z.array(z.string()).min(1),
   hiddenSections: z.array(z.string()).optional(),
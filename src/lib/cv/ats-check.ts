@@ -0,0 +1,451 @@
+/**
+ * ATS parseability check.
+ *
+ * Re-parses the text layer of a rendered CV the way a résumé parser does —
+ * deterministically, no LLM — and compares the result with what we know the
+ * CV contains. Reports what got lost or scrambled: the name, contact
+ * details, section headings, experience dates and paragraphs that columns
+ * interleaved.
+ *
+ * Input lines come from extractPdfText() (src/lib/pdf/pdf-text.ts), which
+ * reads the page top to bottom across the full width, exactly like the
+ * parsers we're predicting. A two-column layout that looks fine to a human
+ * shows up here as lines mixing both columns.
+ */
+
+import type { PdfTextLine } from '@/lib/pdf/pdf-text';
+import { SECTION_LABELS } from '@/lib/cv-engine/render/labels';
+import type { GeneratedCVContent } from '@/types';
+import type {
+  ATSCheck,
+  ATSCheckId,
+  ATSCheckStatus,
+  ATSParsedResume,
+  ATSReport,
+} from '@/types/ats';
+
+// Share of the score per check. Checks that don't apply (no contact details
+// on the CV, no dated experience) drop out and the rest is rescaled.
+const CHECK_WEIGHTS: Record<ATSCheckId, number> = {
+  'text-layer': 10,
+  name: 15,
+  contact: 15,
+  headings: 20,
+  dates: 15,
+  'reading-order': 25,
+};
+
+const STATUS_FACTOR: Record<ATSCheckStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+/** Sections that render under their own heading when they have content. */
+export const ATS_HEADING_SECTIONS = [
+  'experience',
+  'education',
+  'skills',
+  'languages',
+  'certifications',
+  'projects',
+  'interests',
+  'publications',
+  'volunteering',
+  'awards',
+  'references',
+] as const;
+
+export interface ATSExpected {
+  fullName: string;
+  contact: { email?: string | null; phone?: string | null; linkedinUrl?: string | null };
+  content: GeneratedCVContent;
+  /**
+   * Section keys expected to have a heading. Defaults to
+   * sectionsWithContent(content).
+   */
+  sections?: string[];
+  recipeId?: string | null;
+}
+
+// ============ Text helpers ============
+
+function normalize(s: string): string {
+  return s
+    .toLowerCase()
+    .normalize('NFD').replace(/[̀-ͯ]/g, '')
+    .replace(/[^a-z0-9@+]+/g, ' ')
+    .trim();
+}
+
+function words(s: string): string[] {
+  return normalize(s).split(' ').filter(Boolean);
+}
+
+/** "E X P E R I E N C E" → "EXPERIENCE"; anything else unchanged. */
+function collapseLetterSpacing(line: string): string {
+  return /^(\S )+\S$/.test(line) ? line.replace(/ /g, '') : line;
+}
+
+function isLetterSpaced(line: string): boolean {
+  return /^(\S ){3,}\S$/.test(line);
+}
+
+function yearsOf(s: string): string[] {
+  return s.match(/\b(19|20)\d{2}\b/g) ?? [];
+}
+
+function truncate(s: string, max = 60): string {
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+/** Section key → every normalized label we render for it, in any language. */
+function headingLabels(): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const perLocale of Object.values(SECTION_LABELS)) {
+    for (const [key, label] of Object.entries(perLocale)) {
+      labels.set(normalize(label), key);
+    }
+  }
+  // Titles of the legacy renderer (English only).
+  for (const [label, key] of [
+    ['professional summary', 'summary'],
+    ['work experience', 'experience'],
+    ['profile', 'summary'],
+    ['publications', 'publications'],
+    ['awards', 'awards'],
+  ]) {
+    labels.set(label, key);
+  }
+  return labels;
+}
+
+const HEADING_LABELS = headingLabels();
+
+/** Section key when the whole line is a heading ("02 — Werkervaring" counts). */
+function headingKeyOf(line: string): string | null {
+  const text = normalize(collapseLetterSpacing(line)).replace(/^\d+\s*/, '');
+  return HEADING_LABELS.get(text) ?? null;
+}
+
+// ============ Parse ============
+
+const EMAIL_RE = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+// Spaces only, not \s: a number never continues on the next line.
+const PHONE_RE = /\+?\d[\d ().-]{7,}\d/g;
+const LINKEDIN_RE = /linkedin\.com\/in\/[\w%-]+/i;
+const PERIOD_RE = /\b(19|20)\d{2}\b.*?(\b(19|20)\d{2}\b|heden|present|now|heute|aujourd|actualidad|jetzt|current)/i;
+
+function phonesIn(lines: PdfTextLine[]): string[] {
+  return lines.flatMap(l => l.text.match(PHONE_RE) ?? []).map(p => p.trim());
+}
+
+/**
+ * Parse reading-order lines into the fields a résumé parser would fill.
+ */
+export function parseATSLines(lines: PdfTextLine[]): ATSParsedResume {
+  const fullText = lines.map(l => l.text).join('\n');
+
+  // Parsers take the most prominent line on the first page as the name.
+  const firstPage = lines.filter(l => l.page === 1 && !headingKeyOf(l.text));
+  const nameLine = firstPage.reduce<PdfTextLine | null>(
+    (best, line) => (!best || line.fontSize > best.fontSize ? line : best),
+    null,
+  );
+
+  const headings: string[] = [];
+  const experience: ATSParsedResume['experience'] = [];
+  let section: string | null = null;
+  for (const line of lines) {
+    const key = headingKeyOf(line.text);
+    if (key) {
+      section = key;
+      headings.push(collapseLetterSpacing(line.text));
+      continue;
+    }
+    if (section === 'experience') {
+      const period = line.text.match(PERIOD_RE);
+      if (period) experience.push({ period: period[0], line: line.text });
+    }
+  }
+
+  return {
+    fullName: nameLine?.text ?? null,
+    email: fullText.match(EMAIL_RE)?.[0] ?? null,
+    phone: phonesIn(lines)[0] ?? null,
+    linkedinUrl: fullText.match(LINKEDIN_RE)?.[0] ?? null,
+    headings,
+    experience,
+  };
+}
+
+// ============ Checks ============
+
+/** Sections from ATS_HEADING_SECTIONS that have content on this CV. */
+export function sectionsWithContent(c: GeneratedCVContent): string[] {
+  const hasContent: Record<(typeof ATS_HEADING_SECTIONS)[number], boolean> = {
+    experience: c.experience.length > 0,
+    education: c.education.length > 0,
+    skills: c.skills.technical.length + c.skills.soft.length > 0,
+    languages: c.languages.length > 0,
+    certifications: c.certifications.length > 0,
+    projects: (c.projects?.length ?? 0) > 0,
+    interests: (c.interests?.length ?? 0) > 0,
+    publications: (c.publications?.length ?? 0) > 0,
+    volunteering: (c.volunteering?.length ?? 0) > 0,
+    awards: (c.awards?.length ?? 0) > 0,
+    references: (c.references?.length ?? 0) > 0 || !!c.referencesOnRequest,
+  };
+  return ATS_HEADING_SECTIONS.filter(key => hasContent[key]);
+}
+
+function expectedSections(expected: ATSExpected): string[] {
+  return expected.sections ?? sectionsWithContent(expected.content);
+}
+
+/** Running text a reader expects to find in one piece. */
+function paragraphsOf(content: GeneratedCVContent): string[] {
+  return [
+    content.summary,
+    ...content.experience.flatMap(exp => [...exp.highlights, exp.description ?? '']),
+    ...content.education.map(edu => edu.details ?? ''),
+    ...(content.projects ?? []).flatMap(p => [p.description, ...p.highlights]),
+    ...(content.volunteering ?? []).map(v => v.description ?? ''),
+  ].filter(text => words(text).length >= 4);
+}
+
+function allContentText(content: GeneratedCVContent): string {
+  return [
+    content.headline,
+    content.summary,
+    ...content.experience.flatMap(e => [e.title, e.company, e.period, ...e.highlights, e.description ?? '']),
+    ...content.education.flatMap(e => [e.degree, e.institution, e.year, e.details ?? '']),
+    ...content.skills.technical,
+    ...content.skills.soft,
+    ...content.languages.flatMap(l => [l.language, l.level]),
+    ...content.certifications,
+    ...(content.interests ?? []),
+    ...(content.publications ?? []).flatMap(p => [p.title, p.publisher ?? '']),
+    ...(content.volunteering ?? []).flatMap(v => [v.role, v.organization, v.period, v.description ?? '']),
+    ...(content.awards ?? []).flatMap(a => [a.title, a.issuer ?? '']),
+    ...(content.references ?? []).map(r => r.name),
+  ].join(' ');
+}
+
+function checkTextLayer(lines: PdfTextLine[], expected: ATSExpected): ATSCheck {
+  const found = new Set(words(lines.map(l => l.text).join(' ')));
+  const wanted = [...new Set(words(allContentText(expected.content)))];
+  if (wanted.length === 0) return { id: 'text-layer', status: 'pass', detail: 'Geen inhoud om te controleren.' };
+  const coverage = wanted.filter(w => found.has(w)).length / wanted.length;
+  const pct = Math.round(coverage * 100);
+  if (coverage >= 0.9) return { id: 'text-layer', status: 'pass', detail: `${pct}% van de tekst is uitleesbaar.` };
+  if (coverage >= 0.6) {
+    return { id: 'text-layer', status: 'warn', detail: `Slechts ${pct}% van de tekst is uitleesbaar; een deel staat in afbeeldingen of wordt niet getoond.` };
+  }
+  return { id: 'text-layer', status: 'fail', detail: `Maar ${pct}% van de tekst is uitleesbaar. Een ATS ziet deze CV grotendeels als leeg.` };
+}
+
+function checkName(parsed: ATSParsedResume, lines: PdfTextLine[], expected: ATSExpected): ATSCheck {
+  const name = normalize(expected.fullName);
+  const parsedName = parsed.fullName ? normalize(collapseLetterSpacing(parsed.fullName)) : '';
+  if (parsedName === name) {
+    return { id: 'name', status: 'pass', detail: `Naam herkend: "${expected.fullName}".` };
+  }
+  if (parsedName.includes(name)) {
+    return {
+      id: 'name',
+      status: 'warn',
+      detail: `De naam staat op één regel met andere tekst en wordt gelezen als "${truncate(parsed.fullName!)}".`,
+    };
+  }
+  const anywhere = lines.some(l => normalize(collapseLetterSpacing(l.text)).includes(name));
+  if (anywhere) {
+    return {
+      id: 'name',
+      status: 'warn',
+      detail: `De naam staat in de tekst, maar een ATS neemt waarschijnlijk "${truncate(parsed.fullName ?? '')}" als naam.`,
+    };
+  }
+  // Name wrapped over several lines, possibly with other text in between.
+  const firstPageWords = new Set(words(lines.filter(l => l.page === 1).map(l => l.text).join(' ')));
+  if (words(expected.fullName).every(w => firstPageWords.has(w))) {
+    return {
+      id: 'name',
+      status: 'warn',
+      detail: `De naam valt uiteen over meerdere regels; een ATS leest "${truncate(parsed.fullName ?? '')}" als naam.`,
+    };
+  }
+  return { id: 'name', status: 'fail', detail: 'De naam is niet uit de PDF te lezen.' };
+}
+
+function checkContact(parsed: ATSParsedResume, lines: PdfTextLine[], expected: ATSExpected): ATSCheck | null {
+  const text = lines.map(l => l.text).join('\n');
+  const digits = (s: string) => s.replace(/\D/g, '');
+  const fields: Array<{ label: string; found: boolean }> = [];
+
+  if (expected.contact.email) {
+    fields.push({ label: 'e-mailadres', found: text.toLowerCase().includes(expected.contact.email.toLowerCase()) });
+  }
+  if (expected.contact.phone) {
+    // Compare the last nine digits: +31 6 … and 06 … are the same number.
+    const wanted = digits(expected.contact.phone).slice(-9);
+    fields.push({ label: 'telefoonnummer', found: phonesIn(lines).some(p => digits(p).endsWith(wanted)) });
+  }
+  if (expected.contact.linkedinUrl) {
+    const handle = expected.contact.linkedinUrl.match(/linkedin\.com\/in\/([\w%-]+)/i)?.[1]?.toLowerCase();
+    fields.push({
+      label: 'LinkedIn-profiel',
+      found: handle ? text.toLowerCase().includes(`linkedin.com/in/${handle}`) : !!parsed.linkedinUrl,
+    });
+  }
+  if (fields.length === 0) return null;
+
+  const missing = fields.filter(f => !f.found).map(f => f.label);
+  if (missing.length === 0) return { id: 'contact', status: 'pass', detail: 'Alle contactgegevens zijn uitleesbaar.' };
+  return {
+    id: 'contact',
+    status: missing.length === fields.length ? 'fail' : 'warn',
+    detail: `Niet in één stuk uitleesbaar: ${missing.join(', ')}. Iconen, afgebroken links of links zonder zichtbare tekst gaan verloren.`,
+  };
+}
+
+function checkHeadings(lines: PdfTextLine[], expected: ATSExpected): ATSCheck {
+  const sections = expectedSections(expected);
+  const clean = new Set<string>();
+  const spaced = new Set<string>();
+  for (const line of lines) {
+    const key = headingKeyOf(line.text);
+    if (!key) continue;
+    (isLetterSpaced(line.text) ? spaced : clean).add(key);
+  }
+
+  const missing: string[] = [];
+  const merged: string[] = [];
+  const letterSpaced: string[] = [];
+  for (const key of sections) {
+    if (clean.has(key)) continue;
+    if (spaced.has(key)) {
+      letterSpaced.push(key);
+      continue;
+    }
+    // Heading text present, but on a line with text from another column.
+    const labels = [...HEADING_LABELS].filter(([, k]) => k === key).map(([label]) => label);
+    const inLine = lines.some(l => {
+      const text = ` ${normalize(collapseLetterSpacing(l.text))} `;
+      return labels.some(label => text.includes(` ${label} `));
+    });
+    (inLine ? merged : missing).push(key);
+  }
+
+  const nameOf = (key: string) => SECTION_LABELS.nl[key] ?? key;
+  if (missing.length === 0 && merged.length === 0 && letterSpaced.length === 0) {
+    return { id: 'headings', status: 'pass', detail: `Alle ${sections.length} sectiekoppen herkend.` };
+  }
+
+  const findings: string[] = [];
+  if (missing.length) findings.push(`ontbreekt: ${missing.map(nameOf).join(', ')}`);
+  if (merged.length) findings.push(`vermengd met andere tekst: ${merged.map(nameOf).join(', ')}`);
+  if (letterSpaced.length) findings.push(`gespatieerd (losse letters): ${letterSpaced.map(nameOf).join(', ')}`);
+
+  const status: ATSCheckStatus = missing.length > sections.length / 2 ? 'fail' : 'warn';
+  return { id: 'headings', status, detail: `Sectiekoppen ${findings.join('; ')}.` };
+}
+
+function checkDates(lines: PdfTextLine[], expected: ATSExpected): ATSCheck | null {
+  const jobs = expected.content.experience.filter(exp => yearsOf(exp.period).length > 0);
+  if (jobs.length === 0) return null;
+
+  const missing: string[] = [];
+  const merged: string[] = [];
+  for (const exp of jobs) {
+    const years = yearsOf(exp.period);
+    const line = lines.find(l => years.every(y => l.text.includes(y)));
+    if (!line) {
+      missing.push(exp.company);
+      continue;
+    }
+    // Words on the date line that belong to neither this job nor the date
+    // came from a neighbouring column — a parser glues them onto the job.
+    const own = new Set(words([exp.title, exp.company, exp.location ?? '', exp.period, ...exp.highlights, exp.description ?? ''].join(' ')));
+    const foreign = words(line.text).filter(w => !own.has(w) && !/^\d+$/.test(w));
+    if (foreign.length > 2) merged.push(exp.company);
+  }
+
+  if (missing.length === 0 && merged.length === 0) {
+    return { id: 'dates', status: 'pass', detail: `Periodes van alle ${jobs.length} functies zijn uitleesbaar.` };
+  }
+  const findings: string[] = [];
+  if (missing.length) findings.push(`geen leesbare periode bij ${missing.join(', ')}`);
+  if (merged.length) findings.push(`periode staat op één regel met tekst uit een andere kolom bij ${merged.join(', ')}`);
+  return {
+    id: 'dates',
+    status: missing.length > jobs.length / 2 ? 'fail' : 'warn',
+    detail: `${findings.join('; ')}.`.replace(/^./, c => c.toUpperCase()),
+  };
+}
+
+function checkReadingOrder(lines: PdfTextLine[], expected: ATSExpected): ATSCheck | null {
+  const paragraphs = paragraphsOf(expected.content);
+  if (paragraphs.length === 0) return null;
+
+  const joined = lines.map(l => l.text).join(' ');
+  // Words split over two lines by hyphenation ("migra- tion") read as one.
+  const haystack = ` ${normalize(joined.replace(/(\p{L})[-­]\s+(\p{L})/gu, '$1$2'))} `;
+  const scrambled = paragraphs.filter(p => !haystack.includes(` ${normalize(p)} `));
+  const intact = 1 - scrambled.length / paragraphs.length;
+  const pct = Math.round(intact * 100);
+
+  if (intact >= 0.9) {
+    return { id: 'reading-order', status: 'pass', detail: `${pct}% van de alinea's en bullets blijft in één stuk leesbaar.` };
+  }
+  const example = `Bijvoorbeeld: "${truncate(scrambled[0])}".`;
+  if (intact >= 0.6) {
+    return {
+      id: 'reading-order',
+      status: 'warn',
+      detail: `${scrambled.length} van ${paragraphs.length} alinea's of bullets raken vermengd met tekst uit een andere kolom. ${example}`,
+    };
+  }
+  return {
+    id: 'reading-order',
+    status: 'fail',
+    detail: `${scrambled.length} van ${paragraphs.length} alinea's of bullets raken door elkaar; kolommen worden regel voor regel door elkaar gelezen. ${example}`,
+  };
+}
+
+// ============ Report ============
+
+export function scoreATSChecks(checks: ATSCheck[]): number {
+  const total = checks.reduce((sum, c) => sum + CHECK_WEIGHTS[c.id], 0);
+  if (total === 0) return 100;
+  const earned = checks.reduce((sum, c) => sum + CHECK_WEIGHTS[c.id] * STATUS_FACTOR[c.status], 0);
+  return Math.round((earned / total) * 100);
+}
+
+/**
+ * Analyse extracted PDF lines against the CV they were rendered from.
+ */
+export function analyzeATSParseability(
+  text: { pageCount: number; lines: PdfTextLine[] },
+  expected: ATSExpected,
+): ATSReport {
+  const { lines } = text;
+  const parsed = parseATSLines(lines);
+
+  const checks = [
+    checkTextLayer(lines, expected),
+    checkName(parsed, lines, expected),
+    checkContact(parsed, lines, expected),
+    checkHeadings(lines, expected),
+    checkDates(lines, expected),
+    checkReadingOrder(lines, expected),
+  ].filter((c): c is ATSCheck => c !== null);
+
+  return {
+    score: scoreATSChecks(checks),
+    checks,
+    parsed,
+    pageCount: text.pageCount,
+    recipeId: expected.recipeId ?? null,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/** Scores below this get a warning in the UI and the style picker. */
+export const ATS_WARNING_THRESHOLD = 70;
@@ -11,7 +11,7 @@
  */
 
 import type { GeneratedCVContent, CVElementOverrides, ElementOverride, CVContactInfo } from '@/types';
-import type { CVDesignTokens, ContactLayout } from '@/types/design-tokens';
+import type { CVDesignTokens, ContactLayout, PaperSize } from '@/types/design-tokens';
 import {
   getBaseCSS,
   getHeaderVariantCSS,
@@ -22,6 +22,7 @@ import {
   getSkillTagStyleCSS,
   getSidebarLayoutCSS,
   fullBleedPageCSS,
+  getPaperSizeCSS,
 } from './templates/base.css';
 import {
   getFontUrls,
@@ -36,6 +37,7 @@ import { contactIcons, contactIconsCSS } from './templates/icons';
 import { generateEditorialHTML } from './renderers/editorial';
 import { generateBoldHTML } from './renderers/bold';
 import { splitInterest } from './interest-format';
+import { completeSectionOrder } from '@/lib/cv-engine/tokens';
 import { buildEditBridgeMarkup } from './edit-bridge';
 
 // ============ Helper Functions ============
@@ -165,6 +167,8 @@ export interface CVHTMLOptions {
    * PDF doesn't show editor affordances.
    */
   forPdf?: boolean;
+  /** Output sheet; overrides `tokens.paperSize`. Defaults to A4. */
+  paperSize?: PaperSize;
 }
 
 export function generateCVHTML(
@@ -361,8 +365,9 @@ export function generateCVHTML(
   // Generate content based on layout
   let bodyContent: string;
   if (isSidebar) {
-    const mainSections = tokens.sectionOrder.filter(s => !sidebarSections.includes(s));
-    const sidebarSectionNames = tokens.sectionOrder.filter(s => sidebarSections.includes(s));
+    const sectionOrder = completeSectionOrder(tokens.sectionOrder);
+    const mainSections = sectionOrder.filter(s => !sidebarSections.includes(s));
+    const sidebarSectionNames = sectionOrder.filter(s => sidebarSections.includes(s));
 
     const mainHTML = generateSectionsFromList(mainSections, content, tokens, overrides, false);
     const sidebarHTML = generateSectionsFromList(sidebarSectionNames, content, tokens, overrides, true);
@@ -386,6 +391,7 @@ export function generateCVHTML(
   ${fontUrls.map(url => `<link rel="stylesheet" href="${url}">`).join('\n  ')}
   <style>
     ${generateCSS(tokens)}
+    ${getPaperSizeCSS(options?.paperSize ?? tokens.paperSize)}
     ${protectionCSS}
   </style>
 </head>
@@ -653,9 +659,13 @@ function generateSections(
     certifications: () => generateCertifications(content.certifications, overrides),
     projects: () => generateProjects(content.projects, overrides),
     interests: () => generateInterests(content.interests, overrides),
+    publications: () => generatePublications(content.publications, overrides),
+    volunteering: () => generateVolunteering(content.volunteering, overrides),
+    awards: () => generateAwards(content.awards, overrides),
+    references: () => generateReferences(content, overrides),
   };
 
-  return tokens.sectionOrder
+  return completeSectionOrder(tokens.sectionOrder)
     .map(sectionName => {
       const generator = sectionGenerators[sectionName];
       return generator ? generator() : '';
@@ -683,6 +693,10 @@ function generateSectionsFromList(
     certifications: () => generateCertifications(content.certifications, overrides),
     projects: () => generateProjects(content.projects, overrides),
     interests: () => generateInterests(content.interests, overrides),
+    publications: () => generatePublications(content.publications, overrides),
+    volunteering: () => generateVolunteering(content.volunteering, overrides),
+    awards: () => generateAwards(content.awards, overrides),
+    references: () => generateReferences(content, overrides),
   };
 
   return sectionNames
@@ -1151,6 +1165,116 @@ function generateProjects(
   </section>`;
 }
 
+// ============ Publications, Volunteering, Awards, References ============
+
+interface EntryItem {
+  title: string;
+  subtitle: string | null;
+  period: string | null;
+  description: string | null;
+}
+
+/** Shared markup for the entry-style sections below; mirrors education. */
+function generateEntrySection(
+  section: string,
+  title: string,
+  itemPrefix: string,
+  entries: EntryItem[],
+  overrides?: CVElementOverrides | null
+): string {
+  if (entries.length === 0) return '';
+
+  const sectionOverride = getOverride(overrides, `section-${section}`);
+  if (sectionOverride?.hidden) return '';
+
+  const items = entries.map((entry, index) => {
+    const itemOverride = getOverride(overrides, `${itemPrefix}-${index}`);
+    if (itemOverride?.hidden) return '';
+
+    return `
+      <div class="item" data-id="${itemPrefix}-${index}" style="${getOverrideStyle(itemOverride)}">
+        <div class="item-header">
+          <div>
+            <div class="item-title">${escapeHtml(entry.title)}</div>
+            ${entry.subtitle ? `<div class="item-subtitle">${escapeHtml(entry.subtitle)}</div>` : ''}
+          </div>
+          <div class="item-meta">
+            ${entry.period ? `<span class="period">${escapeHtml(entry.period)}</span>` : ''}
+          </div>
+        </div>
+        ${entry.description ? `<p class="item-description">${escapeHtml(entry.description)}</p>` : ''}
+      </div>`;
+  }).filter(Boolean).join('');
+
+  return `
+  <section class="section" data-section="${section}">
+    <h2 class="section-title">${title}</h2>
+    <div class="section-content">
+      ${items}
+    </div>
+  </section>`;
+}
+
+function generatePublications(
+  publications: GeneratedCVContent['publications'],
+  overrides?: CVElementOverrides | null
+): string {
+  return generateEntrySection('publications', 'Publications', 'publication', (publications ?? []).map(p => ({
+    title: p.title,
+    subtitle: p.publisher,
+    period: p.date,
+    description: p.url,
+  })), overrides);
+}
+
+function generateVolunteering(
+  volunteering: GeneratedCVContent['volunteering'],
+  overrides?: CVElementOverrides | null
+): string {
+  return generateEntrySection('volunteering', 'Volunteering', 'volunteering', (volunteering ?? []).map(v => ({
+    title: v.role,
+    subtitle: v.organization,
+    period: v.period,
+    description: v.description,
+  })), overrides);
+}
+
+function generateAwards(
+  awards: GeneratedCVContent['awards'],
+  overrides?: CVElementOverrides | null
+): string {
+  return generateEntrySection('awards', 'Awards', 'award', (awards ?? []).map(a => ({
+    title: a.title,
+    subtitle: a.issuer,
+    period: a.date,
+    description: a.description,
+  })), overrides);
+}
+
+function generateReferences(
+  content: GeneratedCVContent,
+  overrides?: CVElementOverrides | null
+): string {
+  if (content.references?.length) {
+    return generateEntrySection('references', 'References', 'reference', content.references.map(r => ({
+      title: r.name,
+      subtitle: r.relationship,
+      period: null,
+      description: r.contact,
+    })), overrides);
+  }
+  if (!content.referencesOnRequest) return '';
+  if (getOverride(overrides, 'section-references')?.hidden) return '';
+
+  return `
+  <section class="section" data-section="references">
+    <h2 class="section-title">References</h2>
+    <div class="section-content">
+      <p class="item-description">References available on request.</p>
+    </div>
+  </section>`;
+}
+
 // ============ Override Helpers ============
 
 function getOverride(
@@ -1223,6 +1347,6 @@ export function getDefaultTokens(): CVDesignTokens {
     roundedCorners: true,
     headerFullBleed: false,
     decorations: 'none',
-    sectionOrder: ['summary', 'experience', 'education', 'skills', 'projects', 'languages', 'certifications', 'interests'],
+    sectionOrder: ['summary', 'experience', 'education', 'skills', 'projects', 'publications', 'volunteering', 'awards', 'languages', 'certifications', 'interests', 'references'],
   };
 }
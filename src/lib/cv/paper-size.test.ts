@@ -0,0 +1,14 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPaperDimensions, isPaperSize, PAPER_SIZES } from './paper-size';
+
+test('accepts the supported paper sizes', () => {
+  for (const size of ['a4', 'letter', 'legal']) assert.equal(isPaperSize(size), true);
+});
+
+test('rejects inherited object keys from request bodies', () => {
+  for (const key of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+    assert.equal(isPaperSize(key), false);
+    assert.equal(getPaperDimensions(key), PAPER_SIZES.a4);
+  }
+});
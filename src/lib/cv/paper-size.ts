@@ -0,0 +1,37 @@
+/**
+ * Paper sizes shared by both CV renderers, the PDF generators and the
+ * motivation letter. A4 is the default everywhere; Letter and Legal are
+ * for applications to US and Canadian employers.
+ *
+ * Browser-safe — imported by the legacy renderer and the cv-engine CSS.
+ */
+
+import type { PaperSize } from '@/types/design-tokens';
+
+export interface PaperDimensions {
+  widthMm: number;
+  heightMm: number;
+  /** Keyword for CSS `@page { size }`. */
+  cssSize: 'A4' | 'letter' | 'legal';
+  /** Puppeteer `page.pdf({ format })` value. */
+  format: 'A4' | 'Letter' | 'Legal';
+  /** Dutch UI label for pickers. */
+  label: string;
+}
+
+export const PAPER_SIZES: Record<PaperSize, PaperDimensions> = {
+  a4: { widthMm: 210, heightMm: 297, cssSize: 'A4', format: 'A4', label: 'A4 (210 × 297 mm)' },
+  letter: { widthMm: 215.9, heightMm: 279.4, cssSize: 'letter', format: 'Letter', label: 'US Letter (8,5 × 11 inch)' },
+  legal: { widthMm: 215.9, heightMm: 355.6, cssSize: 'legal', format: 'Legal', label: 'US Legal (8,5 × 14 inch)' },
+};
+
+export const DEFAULT_PAPER_SIZE: PaperSize = 'a4';
+
+export function isPaperSize(value: unknown): value is PaperSize {
+  return typeof value === 'string' && Object.hasOwn(PAPER_SIZES, value);
+}
+
+/** Dimensions for a stored/requested size; unknown or missing falls back to A4. */
+export function getPaperDimensions(size?: string | null): PaperDimensions {
+  return isPaperSize(size) ? PAPER_SIZES[size] : PAPER_SIZES[DEFAULT_PAPER_SIZE];
+}
@@ -42,10 +42,13 @@ import type {
   BoldNameTreatment,
   BoldBodyDensity,
   BoldAsymmetryStrength,
+  PaperSize,
 } from '@/types/design-tokens';
 import { getFontUrls, fontPairings } from '../templates/themes';
+import { getPaperDimensions, type PaperDimensions } from '../paper-size';
 import { splitInterest } from '../interest-format';
 import { buildEditBridgeMarkup } from '../edit-bridge';
+import { completeSectionOrder } from '@/lib/cv-engine/tokens';
 
 // ============ Public API ============
 
@@ -54,6 +57,8 @@ export interface BoldHTMLOptions {
   watermarkText?: string;
   /** PDF mode — skip click-to-edit bridge (contenteditable + hover outlines). */
   forPdf?: boolean;
+  /** Output sheet; overrides `tokens.paperSize`. Defaults to A4. */
+  paperSize?: PaperSize;
 }
 
 export function generateBoldHTML(
@@ -76,7 +81,7 @@ export function generateBoldHTML(
   const protection = buildProtection(previewProtection, watermarkText);
 
   // Generate base CSS shared by all archetypes, plus archetype-specific CSS.
-  const baseCss = generateBoldCSS(tokens, bold, fontConfig);
+  const baseCss = generateBoldCSS(tokens, bold, fontConfig, getPaperDimensions(options?.paperSize ?? tokens.paperSize));
   const archetypeCss = generateArchetypeCSS(bold, tokens);
 
   // Dispatch on archetype — each archetype owns its own DOM skeleton.
@@ -248,6 +253,7 @@ function generateBoldCSS(
   tokens: CVDesignTokens,
   b: BoldTokens,
   fontConfig: typeof fontPairings[keyof typeof fontPairings],
+  paper: PaperDimensions,
 ): string {
   const colors = tokens.colors;
   const pageBg = tokens.pageBackground || '#ffffff';
@@ -556,22 +562,22 @@ function generateBoldCSS(
     ${getIconTreatmentCSS(b.iconTreatment, colors)}
 
     /* ================= Print =================
-       Same fix as editorial.ts — only declare size A4 inside @media print so
-       single-page PDF mode (which uses dynamic options.width/height) is not
-       paginated at A4 boundaries by Chromium. */
+       Same fix as editorial.ts — only declare the paper size inside @media
+       print so single-page PDF mode (which uses dynamic options.width/height)
+       is not paginated at sheet boundaries by Chromium. */
     @page {
       margin: 0;
     }
     @media print {
       @page {
-        size: A4;
+        size: ${paper.cssSize};
       }
       html, body {
         background: var(--b-page-bg);
       }
       .bold-cv {
-        width: 210mm;
-        max-width: 210mm;
+        width: ${paper.widthMm}mm;
+        max-width: ${paper.widthMm}mm;
         margin: 0;
         min-height: auto;
         overflow: visible;
@@ -1126,12 +1132,13 @@ function generateBoldMain(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
 
   // Main column never includes sidebar sections
   const sidebarSectionNames = new Set(['skills', 'languages', 'certifications', 'interests']);
   let sectionIndex = 0;
-  const sections = tokens.sectionOrder
+  const sections = completeSectionOrder(tokens.sectionOrder)
     .filter((name) => !sidebarSectionNames.has(name))
     .map((name) => {
       const render = sectionRenderers[name];
@@ -1288,6 +1295,95 @@ function renderProjects(
   return `${sectionTitle('Projects')}${items}`;
 }
 
+// ============ Publications, volunteering, awards, references ============
+
+/** Renderers for the entry-style sections, shared by every archetype. */
+function extraSectionRenderers(
+  content: GeneratedCVContent,
+  overrides: CVElementOverrides | null | undefined,
+): Record<string, () => string> {
+  return {
+    publications: () => renderEntries('publications', 'Publications', 'publication', (content.publications ?? []).map(p => ({
+      title: p.title,
+      subtitle: p.publisher,
+      period: p.date,
+      description: null,
+      url: p.url,
+    })), overrides),
+    volunteering: () => renderEntries('volunteering', 'Volunteering', 'volunteering', (content.volunteering ?? []).map(v => ({
+      title: v.role,
+      subtitle: v.organization,
+      period: v.period,
+      description: v.description,
+    })), overrides),
+    awards: () => renderEntries('awards', 'Awards', 'award', (content.awards ?? []).map(a => ({
+      title: a.title,
+      subtitle: a.issuer,
+      period: a.date,
+      description: a.description,
+    })), overrides),
+    references: () => renderReferences(content, overrides),
+  };
+}
+
+interface EntryItem {
+  title: string;
+  subtitle: string | null;
+  period: string | null;
+  description: string | null;
+  url?: string | null;
+}
+
+function renderEntries(
+  section: string,
+  label: string,
+  itemPrefix: string,
+  entries: EntryItem[],
+  overrides: CVElementOverrides | null | undefined,
+): string {
+  if (entries.length === 0) return '';
+  if (getOverride(overrides, `section-${section}`)?.hidden) return '';
+  const items = entries.map((entry, i) => {
+    if (getOverride(overrides, `${itemPrefix}-${i}`)?.hidden) return '';
+    const url = entry.url
+      ? `<p class="bold-item-period"><a href="${escapeHtml(entry.url)}">${escapeHtml(entry.url)}</a></p>`
+      : '';
+    const body = entry.description || url
+      ? `<div class="bold-item-body">${entry.description ? `<p>${escapeHtml(entry.description)}</p>` : ''}${url}</div>`
+      : '';
+    return `
+      <div class="bold-item" data-id="${itemPrefix}-${i}">
+        <div class="bold-item-header">
+          <div>
+            <h3 class="bold-item-title">${escapeHtml(entry.title)}</h3>
+            ${entry.subtitle ? `<p class="bold-item-subtitle">${escapeHtml(entry.subtitle)}</p>` : ''}
+          </div>
+          ${entry.period ? `<span class="bold-item-period">${escapeHtml(entry.period)}</span>` : ''}
+        </div>
+        ${body}
+      </div>
+    `;
+  }).filter(Boolean).join('');
+  return `${sectionTitle(label)}${items}`;
+}
+
+function renderReferences(
+  content: GeneratedCVContent,
+  overrides: CVElementOverrides | null | undefined,
+): string {
+  if (content.references?.length) {
+    return renderEntries('references', 'References', 'reference', content.references.map(r => ({
+      title: r.name,
+      subtitle: r.relationship,
+      period: null,
+      description: r.contact,
+    })), overrides);
+  }
+  if (!content.referencesOnRequest) return '';
+  if (getOverride(overrides, 'section-references')?.hidden) return '';
+  return `${sectionTitle('References')}<div class="bold-item-body"><p>References available on request.</p></div>`;
+}
+
 // ============ Skills variants ============
 
 function renderSkills(
@@ -3049,6 +3145,7 @@ function renderManifesto(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
   // When the manifestoOpener is on, summary lives in the top statement, not the grid.
   const useStatement = b.manifestoOpener && !!content.summary;
@@ -3076,7 +3173,7 @@ function renderManifesto(
   // First pass: build sections, tag long ones as span-full
   const builtSections: Array<{ name: string; html: string; longByContent: boolean }> = [];
   let idx = 0;
-  for (const n of tokens.sectionOrder) {
+  for (const n of completeSectionOrder(tokens.sectionOrder)) {
     if (skipInGrid.has(n) || !sectionRenderers[n]) continue;
     const html = sectionRenderers[n]();
     if (!html) continue;
@@ -3194,8 +3291,9 @@ function renderMagazineCover(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
-  const body = tokens.sectionOrder
+  const body = completeSectionOrder(tokens.sectionOrder)
     .filter((n) => sectionRenderers[n] && !['languages', 'certifications', 'interests'].includes(n))
     .map((n) => {
       const html = sectionRenderers[n]();
@@ -3252,8 +3350,9 @@ function renderEditorialInversion(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
-  const body = tokens.sectionOrder
+  const body = completeSectionOrder(tokens.sectionOrder)
     .filter((n) => sectionRenderers[n])
     .map((n) => {
       const html = sectionRenderers[n]();
@@ -3327,6 +3426,7 @@ function renderBrutalistGrid(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
   let idx = 0;
   // Content-aware span: Projects with 3+ entries gets span-full so it
@@ -3334,7 +3434,7 @@ function renderBrutalistGrid(
   // 3 cols. With <3 projects, single-column treatment is fine. Same
   // logic protects Experience (always span-full) and Summary (span-2).
   const projectsCount = content.projects?.length ?? 0;
-  const sections = tokens.sectionOrder
+  const sections = completeSectionOrder(tokens.sectionOrder)
     .filter((n) => sectionRenderers[n] && !['languages', 'certifications', 'interests'].includes(n))
     .map((n) => {
       const html = sectionRenderers[n]();
@@ -3407,9 +3507,10 @@ function renderVerticalRail(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
   let idx = 0;
-  const body = tokens.sectionOrder
+  const body = completeSectionOrder(tokens.sectionOrder)
     .filter((n) => sectionRenderers[n] && !['languages', 'certifications', 'interests'].includes(n))
     .map((n) => {
       const html = sectionRenderers[n]();
@@ -3471,6 +3572,7 @@ function renderMosaic(
     experience: () => renderExperience(content.experience, tokens, overrides, b.accentKeywords),
     education: () => renderEducation(content.education, overrides),
     projects: () => renderProjects(content.projects, overrides),
+    ...extraSectionRenderers(content, overrides),
   };
 
   // Layout pattern: a name-tile (top-left wide), a portrait tile (top-right),
@@ -3498,7 +3600,7 @@ function renderMosaic(
 
   // The other sections
   let idx = 0;
-  tokens.sectionOrder
+  completeSectionOrder(tokens.sectionOrder)
     .filter((n) => n !== 'summary' && sectionRenderers[n] && !['languages', 'certifications', 'interests'].includes(n))
     .forEach((n) => {
       const html = sectionRenderers[n]();
@@ -3769,8 +3871,14 @@ function renderTypographicPoster(
         })), overrides, b.accentKeywords)
       : '',
   };
+  for (const [name, render] of Object.entries(extraSectionRenderers(content, overrides))) {
+    sectionRenderers[name] = () => {
+      const html = render();
+      return html ? `<section class="bold-section" data-section="${name}">${html}</section>` : '';
+    };
+  }
 
-  const credits = tokens.sectionOrder
+  const credits = completeSectionOrder(tokens.sectionOrder)
     .filter(n => sectionRenderers[n])
     .map(n => sectionRenderers[n]())
     .filter(Boolean)
@@ -4030,8 +4138,14 @@ function renderPhotoMontage(
       return `<div class="pm-card">${sectionTitle('Languages')}${items}</div>`;
     },
   };
+  for (const [name, render] of Object.entries(extraSectionRenderers(content, overrides))) {
+    sectionToCard[name] = () => {
+      const html = render();
+      return html ? `<div class="pm-card">${html}</div>` : '';
+    };
+  }
 
-  const cards = tokens.sectionOrder
+  const cards = completeSectionOrder(tokens.sectionOrder)
     .filter(n => sectionToCard[n])
     .map(n => sectionToCard[n]())
     .filter(Boolean)
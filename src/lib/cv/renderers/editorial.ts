@@ -31,11 +31,14 @@ import type {
   EditorialTokens,
   EditorialDecorElement,
   EditorialLayoutArchetype,
+  PaperSize,
 } from '@/types/design-tokens';
 import { getFontUrls } from '../templates/themes';
 import { fontPairings } from '../templates/themes';
+import { getPaperDimensions, type PaperDimensions } from '../paper-size';
 import { splitInterest } from '../interest-format';
 import { buildEditBridgeMarkup } from '../edit-bridge';
+import { completeSectionOrder } from '@/lib/cv-engine/tokens';
 
 // ============ Public API ============
 
@@ -44,6 +47,8 @@ export interface EditorialHTMLOptions {
   watermarkText?: string;
   /** PDF mode — skip click-to-edit bridge (contenteditable + hover outlines). */
   forPdf?: boolean;
+  /** Output sheet; overrides `tokens.paperSize`. Defaults to A4. */
+  paperSize?: PaperSize;
 }
 
 export function generateEditorialHTML(
@@ -63,7 +68,7 @@ export function generateEditorialHTML(
   const previewProtection = options?.previewProtection ?? false;
   const watermarkText = options?.watermarkText ?? 'PREVIEW';
 
-  const css = generateEditorialCSS(tokens, editorial, fontConfig);
+  const css = generateEditorialCSS(tokens, editorial, fontConfig, getPaperDimensions(options?.paperSize ?? tokens.paperSize));
   const header = generateEditorialHeader(
     fullName,
     headline,
@@ -227,6 +232,7 @@ function generateEditorialCSS(
   tokens: CVDesignTokens,
   e: EditorialTokens,
   fontConfig: typeof fontPairings[keyof typeof fontPairings],
+  paper: PaperDimensions,
 ): string {
   const colors = tokens.colors;
   const scaleVars = getScaleVars(e.typographyScale);
@@ -695,20 +701,21 @@ function generateEditorialCSS(
        mode (dynamic options.height, e.g. 1273mm) hit a Chromium conflict:
        paper was 1273mm but pages broke every 297mm, producing 4+ pages
        with massive empty bands. Letting options dictate size avoids this.
-       The size A4 lives inside @media print so multi-page mode still uses A4. */
+       The paper size lives inside @media print so multi-page mode still
+       gets real A4/Letter/Legal sheets. */
     @page {
       margin: 0;
     }
     @media print {
       @page {
-        size: A4;
+        size: ${paper.cssSize};
       }
       html, body {
         background: var(--e-page-bg);
       }
       .editorial-cv {
-        width: 210mm;
-        max-width: 210mm;
+        width: ${paper.widthMm}mm;
+        max-width: ${paper.widthMm}mm;
         margin: 0;
         padding: 32px 40px 40px;
         min-height: auto;
@@ -936,7 +943,13 @@ function generateEditorialBody(
     certifications: () => renderCertifications(content.certifications, overrides),
     projects: () => renderProjects(content.projects, e, overrides),
     interests: () => renderInterests(content.interests, overrides),
+    publications: () => renderPublications(content.publications, overrides),
+    volunteering: () => renderVolunteering(content.volunteering, overrides),
+    awards: () => renderAwards(content.awards, overrides),
+    references: () => renderReferences(content, overrides),
   };
+  // Tokens from before a section existed still render it
+  const sectionOrder = completeSectionOrder(tokens.sectionOrder);
 
   // Sidebar archetypes: feature-sidebar
   const supportsRail =
@@ -952,11 +965,11 @@ function generateEditorialBody(
   const isSpread = archetype === 'editorial-spread' && hasDecor(e, 'marginalia');
 
   const railSections = (supportsRail && !isSpread)
-    ? requestedRailSections.filter(name => tokens.sectionOrder.includes(name))
+    ? requestedRailSections.filter(name => sectionOrder.includes(name))
     : [];
   const mainSections = (supportsRail && !isSpread)
-    ? tokens.sectionOrder.filter(name => !railSections.includes(name))
-    : tokens.sectionOrder;
+    ? sectionOrder.filter(name => !railSections.includes(name))
+    : sectionOrder;
 
   let sectionIndex = 0;
   const renderSections = (sectionNames: string[]) => sectionNames
@@ -1323,6 +1336,105 @@ function renderProjects(
   return `${sectionTitle('Projects')}${items}`;
 }
 
+interface EntryItem {
+  title: string;
+  subtitle: string | null;
+  period: string | null;
+  description: string | null;
+  url?: string | null;
+}
+
+/** Shared markup for publications, volunteering, awards and references. */
+function renderEntries(
+  section: string,
+  label: string,
+  itemPrefix: string,
+  entries: EntryItem[],
+  overrides?: CVElementOverrides | null,
+): string {
+  if (entries.length === 0) return '';
+  if (getOverride(overrides, `section-${section}`)?.hidden) return '';
+
+  const items = entries
+    .map((entry, i) => {
+      if (getOverride(overrides, `${itemPrefix}-${i}`)?.hidden) return '';
+      const body = entry.description || entry.url
+        ? `<div class="item-body">
+            ${entry.description ? `<p>${escapeHtml(entry.description)}</p>` : ''}
+            ${entry.url ? `<p class="item-meta"><a href="${escapeHtml(entry.url)}">${escapeHtml(entry.url)}</a></p>` : ''}
+          </div>`
+        : '';
+
+      return `
+        <div class="item" data-id="${itemPrefix}-${i}">
+          <h3 class="item-title">${escapeHtml(entry.title)}</h3>
+          ${entry.subtitle ? `<p class="item-subtitle">${escapeHtml(entry.subtitle)}</p>` : ''}
+          ${entry.period ? `<p class="item-meta">${escapeHtml(entry.period)}</p>` : ''}
+          ${body}
+        </div>
+      `;
+    })
+    .filter(Boolean)
+    .join('');
+
+  return `${sectionTitle(label)}${items}`;
+}
+
+function renderPublications(
+  publications: GeneratedCVContent['publications'],
+  overrides?: CVElementOverrides | null,
+): string {
+  return renderEntries('publications', 'Publications', 'publication', (publications ?? []).map(p => ({
+    title: p.title,
+    subtitle: p.publisher,
+    period: p.date,
+    description: null,
+    url: p.url,
+  })), overrides);
+}
+
+function renderVolunteering(
+  volunteering: GeneratedCVContent['volunteering'],
+  overrides?: CVElementOverrides | null,
+): string {
+  return renderEntries('volunteering', 'Volunteering', 'volunteering', (volunteering ?? []).map(v => ({
+    title: v.role,
+    subtitle: v.organization,
+    period: v.period,
+    description: v.description,
+  })), overrides);
+}
+
+function renderAwards(
+  awards: GeneratedCVContent['awards'],
+  overrides?: CVElementOverrides | null,
+): string {
+  return renderEntries('awards', 'Awards', 'award', (awards ?? []).map(a => ({
+    title: a.title,
+    subtitle: a.issuer,
+    period: a.date,
+    description: a.description,
+  })), overrides);
+}
+
+function renderReferences(
+  content: GeneratedCVContent,
+  overrides?: CVElementOverrides | null,
+): string {
+  if (content.references?.length) {
+    return renderEntries('references', 'References', 'reference', content.references.map(r => ({
+      title: r.name,
+      subtitle: r.relationship,
+      period: null,
+      description: r.contact,
+    })), overrides);
+  }
+  if (!content.referencesOnRequest) return '';
+  if (getOverride(overrides, 'section-references')?.hidden) return '';
+
+  return `${sectionTitle('References')}<div class="item-body"><p>References available on request.</p></div>`;
+}
+
 function buildThreeColumnIntro(content: GeneratedCVContent, tokens: CVDesignTokens): string {
   const summary = content.summary ? content.summary.split('\n')[0] : '';
   const topSkills = (content.skills?.technical || []).slice(0, 4).join(' · ');
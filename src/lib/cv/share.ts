@@ -0,0 +1,246 @@
+/**
+ * Public read-only CV share links.
+ *
+ * A share is a doc in the top-level `cvShares` collection pointing at
+ * `users/{uid}/cvs/{cvId}`. The public URL carries `{shareId}.{signature}`
+ * — an HMAC over the id — so guessed or tampered tokens are rejected before
+ * touching Firestore, and revoking is just setting `revokedAt` on the doc.
+ *
+ * Password-protected shares hand out an httpOnly access cookie after a
+ * correct password (see /api/share/[token]/unlock). The cookie value is an
+ * HMAC over the id + password hash, so changing the password or revoking
+ * the link invalidates every cookie already issued.
+ *
+ * Server-only (node:crypto + Admin SDK).
+ */
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { FieldValue, Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
+import type { DocumentReference, DocumentSnapshot } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { renderCV, type AnyCVTokens } from '@/lib/cv-engine/dispatch';
+import type { DesignSpec } from '@/lib/cv-engine/spec';
+import { styleConfigToTokens } from '@/lib/cv/templates/adapter';
+import { getDefaultTokens } from '@/lib/cv/html-generator';
+import { validateAvatarURL } from '@/lib/security/url-validator';
+import type {
+  CV,
+  CVContactInfo,
+  CVElementOverrides,
+  CVShareLink,
+  CVShareLinkSummary,
+  CVStyleConfig,
+  GeneratedCVContent,
+} from '@/types';
+import type { CVDesignTokens } from '@/types/design-tokens';
+import type { OutputLanguage } from '@/types/language';
+
+export const SHARE_COLLECTION = 'cvShares';
+
+/** Upper bound on active links per CV — keeps the owner dialog manageable. */
+export const MAX_SHARES_PER_CV = 10;
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://maakcveetje.nl';
+
+// ============ Tokens ============
+
+function getShareSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET (or ENCRYPTION_KEY) environment variable is not set');
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getShareSecret()).update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+export function buildShareToken(shareId: string): string {
+  return `${shareId}.${sign(`share:${shareId}`).slice(0, 22)}`;
+}
+
+/** Returns the share id for a well-formed, correctly signed token, else null. */
+export function parseShareToken(token: string): string | null {
+  const [shareId, signature, ...rest] = token.split('.');
+  if (!shareId || !signature || rest.length || !/^[A-Za-z0-9]{10,40}$/.test(shareId)) return null;
+  return safeEqual(buildShareToken(shareId), token) ? shareId : null;
+}
+
+export function buildShareUrl(token: string, locale = 'nl'): string {
+  return `${APP_URL}/${locale}/s/${token}`;
+}
+
+// ============ Passwords ============
+
+export function hashSharePassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 32);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+export function verifySharePassword(password: string, stored: string): boolean {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+export function shareAccessCookieName(shareId: string): string {
+  return `cv-share-${shareId}`;
+}
+
+export function shareAccessCookieValue(shareId: string, passwordHash: string): string {
+  return sign(`access:${shareId}:${passwordHash}`);
+}
+
+/** True when the share needs no password or the cookie proves it was entered. */
+export function hasShareAccess(share: CVShareLink & { id: string }, cookieValue: string | undefined): boolean {
+  if (!share.passwordHash) return true;
+  if (!cookieValue) return false;
+  return safeEqual(cookieValue, shareAccessCookieValue(share.id, share.passwordHash));
+}
+
+// ============ Resolution ============
+
+export type ShareResolution =
+  | {
+      status: 'ok';
+      share: CVShareLink & { id: string };
+      shareRef: DocumentReference;
+      cv: CV & { tokens?: CVDesignTokens };
+      cvRef: DocumentReference;
+    }
+  | { status: 'not-found' | 'revoked' | 'expired' };
+
+/** Look up a public token and check it's still live and its CV still exists. */
+export async function resolveShareToken(token: string): Promise<ShareResolution> {
+  const shareId = parseShareToken(token);
+  if (!shareId) return { status: 'not-found' };
+
+  const db = getAdminDb();
+  const shareRef = db.collection(SHARE_COLLECTION).doc(shareId);
+  const shareSnap = await shareRef.get();
+  if (!shareSnap.exists) return { status: 'not-found' };
+
+  const share = { id: shareSnap.id, ...shareSnap.data() } as CVShareLink & { id: string };
+  if (share.revokedAt) return { status: 'revoked' };
+  if (share.expiresAt && share.expiresAt.toMillis() <= Date.now()) return { status: 'expired' };
+
+  const cvRef = db.collection('users').doc(share.userId).collection('cvs').doc(share.cvId);
+  const cvSnap = await cvRef.get();
+  if (!cvSnap.exists) return { status: 'not-found' };
+  const cv = cvSnap.data() as CV & { tokens?: CVDesignTokens };
+  if (!cv.generatedContent) return { status: 'not-found' };
+
+  return { status: 'ok', share, shareRef, cv, cvRef };
+}
+
+/**
+ * Count a view on both the share and the CV doc. Fire-and-forget — a
+ * failed counter must never break the public page.
+ */
+export async function recordShareView(resolution: Extract<ShareResolution, { status: 'ok' }>): Promise<void> {
+  const now = AdminTimestamp.now();
+  try {
+    await Promise.all([
+      resolution.shareRef.update({ viewCount: FieldValue.increment(1), lastViewedAt: now }),
+      resolution.cvRef.update({ shareViewCount: FieldValue.increment(1), shareLastViewedAt: now }),
+    ]);
+  } catch (err) {
+    console.error('[cv-share] recordShareView failed:', err);
+  }
+}
+
+// ============ Rendering ============
+
+export interface SharedCVRenderInput {
+  content: GeneratedCVContent;
+  tokens: AnyCVTokens;
+  fullName: string;
+  headline: string | null;
+  avatarUrl: string | null;
+  contactInfo: CVContactInfo;
+  overrides: CVElementOverrides | null;
+  locale: OutputLanguage;
+}
+
+/** Same field precedence as the CV detail page and the PDF route. */
+export function getSharedCVRenderInput(cv: CV & { tokens?: CVDesignTokens }): SharedCVRenderInput {
+  const content = cv.generatedContent as GeneratedCVContent;
+
+  let tokens: AnyCVTokens;
+  if (cv.designTokens) tokens = cv.designTokens;
+  else if (cv.tokens) tokens = cv.tokens;
+  else if (cv.styleConfig) tokens = styleConfigToTokens(cv.styleConfig as CVStyleConfig);
+  else tokens = getDefaultTokens();
+
+  let avatarUrl: string | null = null;
+  if (cv.avatarUrl) {
+    const check = validateAvatarURL(cv.avatarUrl);
+    if (check.valid) avatarUrl = check.sanitizedUrl || null;
+  }
+
+  return {
+    content,
+    tokens,
+    fullName: cv.linkedInData.fullName,
+    headline: content.headline ?? cv.linkedInData.headline ?? null,
+    avatarUrl,
+    contactInfo: {
+      email: cv.linkedInData.email || undefined,
+      phone: cv.linkedInData.phone || undefined,
+      location: cv.linkedInData.location || undefined,
+      linkedinUrl: cv.linkedInData.linkedinUrl || undefined,
+      website: cv.linkedInData.website || undefined,
+      github: cv.linkedInData.github || undefined,
+      birthDate: cv.linkedInData.birthDate || undefined,
+    },
+    overrides: cv.elementOverrides ?? null,
+    locale: cv.language ?? 'nl',
+  };
+}
+
+/** Read-only HTML: rendered like the PDF, so without the click-to-edit bridge. */
+export function renderSharedCVHtml(input: SharedCVRenderInput, customRecipes?: readonly DesignSpec[]): string {
+  return renderCV(input.content, input.tokens, {
+    fullName: input.fullName,
+    avatarUrl: input.avatarUrl,
+    headline: input.headline,
+    overrides: input.overrides,
+    contactInfo: input.contactInfo,
+    legacyOptions: { forPdf: true },
+    locale: input.locale,
+    customRecipes,
+  });
+}
+
+// ============ Owner view ============
+
+function isoOrNull(value: unknown): string | null {
+  return value instanceof AdminTimestamp ? value.toDate().toISOString() : null;
+}
+
+export function toShareSummary(snap: DocumentSnapshot, locale = 'nl'): CVShareLinkSummary {
+  const data = snap.data() ?? {};
+  const token = buildShareToken(snap.id);
+  return {
+    id: snap.id,
+    token,
+    url: buildShareUrl(token, locale),
+    expiresAt: isoOrNull(data.expiresAt),
+    hasPassword: !!data.passwordHash,
+    allowPdfDownload: !!data.allowPdfDownload,
+    viewCount: data.viewCount ?? 0,
+    lastViewedAt: isoOrNull(data.lastViewedAt),
+    revoked: !!data.revokedAt,
+    createdAt: isoOrNull(data.createdAt),
+  };
+}
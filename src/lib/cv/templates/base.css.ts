@@ -7,6 +7,8 @@
  * Uses CSS Custom Properties (variables) that get filled in by design tokens.
  */
 
+import { getPaperDimensions } from '@/lib/cv/paper-size';
+
 // ============ CSS Custom Property Declarations ============
 
 export const cssVariables = `
@@ -999,6 +1001,32 @@ export const projectStyles = `
 
 // ============ Combine All Base Styles ============
 
+/**
+ * Sheet width for non-A4 paper. The base styles above assume A4; this is
+ * emitted after them so Letter/Legal CVs reflow to the wider sheet instead
+ * of leaving a blank strip. Empty for A4 so existing output is unchanged.
+ */
+export function getPaperSizeCSS(paperSize?: string | null): string {
+  const paper = getPaperDimensions(paperSize);
+  if (paper.format === 'A4') return '';
+  return `
+  .cv-container {
+    max-width: ${paper.widthMm}mm;
+  }
+
+  @media print {
+    @page {
+      size: ${paper.cssSize};
+    }
+
+    .cv-container {
+      max-width: ${paper.widthMm}mm;
+      width: ${paper.widthMm}mm;
+    }
+  }
+`;
+}
+
 export function getBaseCSS(): string {
   // NOTE: Do NOT include cssVariables here - they are provided by the
   // token-based CSS variables from html-generator.ts. Including defaults
@@ -0,0 +1,87 @@
+/**
+ * Field-level diff + merge for CV version snapshots.
+ *
+ * Pure and client-safe: the versions API uses it to compute `changedFields`
+ * and to build a partial restore, the timeline UI uses the field list for
+ * its checkboxes. Comparison is structural (JSON), which is enough for
+ * Firestore-sourced plain objects.
+ */
+
+import type { CVVersionField, CVVersionFieldDiff, GeneratedCVContent } from '@/types';
+import type { CVDesignTokens } from '@/types/design-tokens';
+
+export const CV_VERSION_FIELDS: CVVersionField[] = [
+  'headline',
+  'summary',
+  'experience',
+  'education',
+  'skills',
+  'languages',
+  'certifications',
+  'projects',
+  'interests',
+  'publications',
+  'volunteering',
+  'awards',
+  'references',
+  'designTokens',
+];
+
+export interface CVSnapshot {
+  generatedContent: GeneratedCVContent | null;
+  designTokens: CVDesignTokens | null;
+}
+
+type ContentField = Exclude<CVVersionField, 'designTokens'>;
+
+function readField(snapshot: CVSnapshot, field: CVVersionField): unknown {
+  if (field === 'designTokens') return snapshot.designTokens ?? null;
+  return snapshot.generatedContent?.[field as ContentField] ?? null;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function isCVVersionField(value: unknown): value is CVVersionField {
+  return CV_VERSION_FIELDS.includes(value as CVVersionField);
+}
+
+/** Fields whose value differs between two snapshots, with both sides. */
+export function diffCVSnapshots(before: CVSnapshot, after: CVSnapshot): CVVersionFieldDiff[] {
+  return CV_VERSION_FIELDS
+    .map(field => ({ field, before: readField(before, field), after: readField(after, field) }))
+    .filter(d => !isEqual(d.before, d.after));
+}
+
+/**
+ * Take `fields` from `source` and everything else from `current`. Used for
+ * a field-by-field rollback: restoring only `experience` keeps the current
+ * summary, skills and styling intact.
+ */
+export function mergeCVSnapshot(
+  current: CVSnapshot,
+  source: CVSnapshot,
+  fields: CVVersionField[],
+): CVSnapshot {
+  const content = current.generatedContent
+    ? { ...current.generatedContent }
+    : source.generatedContent
+      ? { ...source.generatedContent }
+      : null;
+
+  if (content && source.generatedContent) {
+    const target = content as unknown as Record<string, unknown>;
+    for (const field of fields) {
+      if (field === 'designTokens') continue;
+      const value = source.generatedContent[field];
+      if (value === undefined) delete target[field];
+      else target[field] = value;
+    }
+  }
+
+  return {
+    generatedContent: content,
+    designTokens: fields.includes('designTokens') ? source.designTokens : current.designTokens,
+  };
+}
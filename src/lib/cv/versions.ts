@@ -0,0 +1,124 @@
+/**
+ * Per-CV version history — `users/{uid}/cvs/{cvId}/versions/{versionId}`.
+ *
+ * Every server-side write that replaces `generatedContent` or `designTokens`
+ * (generation, inline edits, chat edits, design tweaks, dispute regenerations,
+ * restores) calls `recordCVVersion` with the state it just wrote. The first
+ * time a CV without history is written to, the state it had before the write
+ * is stored as a 'baseline' so older CVs can still be rolled back.
+ *
+ * Edits arrive debounced (one PATCH per blur / slider move), so consecutive
+ * versions of the same editing operation within COALESCE_WINDOW_MS are folded
+ * into one instead of flooding the timeline.
+ *
+ * Failures are swallowed and logged — history must never break a save.
+ */
+
+import { Timestamp as AdminTimestamp } from 'firebase-admin/firestore';
+import type { DocumentReference } from 'firebase-admin/firestore';
+import type { CVVersionField, CVVersionOperation } from '@/types';
+import { diffCVSnapshots, type CVSnapshot } from './version-diff';
+
+export const MAX_CV_VERSIONS = 50;
+
+const COALESCE_WINDOW_MS = 10 * 60 * 1000;
+
+const COALESCING_OPERATIONS: CVVersionOperation[] = ['manual-edit', 'chat', 'design-tweak'];
+
+export function versionsCollection(cvRef: DocumentReference) {
+  return cvRef.collection('versions');
+}
+
+function toSnapshot(data: Partial<CVSnapshot> | null | undefined): CVSnapshot {
+  return {
+    generatedContent: data?.generatedContent ?? null,
+    designTokens: data?.designTokens ?? null,
+  };
+}
+
+function changedFieldsBetween(before: CVSnapshot, after: CVSnapshot): CVVersionField[] {
+  return diffCVSnapshots(before, after).map(d => d.field);
+}
+
+export async function recordCVVersion(args: {
+  cvRef: DocumentReference;
+  operation: CVVersionOperation;
+  /** State of the CV after the write. */
+  snapshot: CVSnapshot;
+  /** State of the CV before the write, when the caller has it at hand. */
+  previous?: Partial<CVSnapshot> | null;
+  restoredFrom?: string;
+  actorUid?: string;
+}): Promise<void> {
+  const { cvRef, operation, restoredFrom, actorUid } = args;
+  const snapshot = toSnapshot(args.snapshot);
+  const versions = versionsCollection(cvRef);
+
+  try {
+    const latestSnap = await versions.orderBy('createdAt', 'desc').limit(1).get();
+    const latest = latestSnap.docs[0];
+
+    let base: CVSnapshot | null = latest ? toSnapshot(latest.data()) : null;
+
+    if (!latest && args.previous?.generatedContent) {
+      base = toSnapshot(args.previous);
+      await versions.add({
+        operation: 'baseline' satisfies CVVersionOperation,
+        ...base,
+        changedFields: [],
+        createdAt: AdminTimestamp.now(),
+      });
+    }
+
+    const changedFields = base ? changedFieldsBetween(base, snapshot) : [];
+    // Nothing to record: a debounced save that re-sent identical content.
+    if (base && changedFields.length === 0 && operation !== 'restore') return;
+
+    const latestData = latest?.data();
+    const lastTouched = (latestData?.updatedAt ?? latestData?.createdAt) as AdminTimestamp | undefined;
+    const canCoalesce = latest
+      && latestData?.operation === operation
+      && COALESCING_OPERATIONS.includes(operation)
+      && lastTouched
+      && Date.now() - lastTouched.toMillis() < COALESCE_WINDOW_MS;
+
+    if (canCoalesce) {
+      // Union with what the folded version already listed, so the timeline
+      // still shows everything this editing session touched.
+      const merged = new Set<CVVersionField>([...(latestData?.changedFields ?? []), ...changedFields]);
+      await latest.ref.update({
+        ...snapshot,
+        changedFields: [...merged],
+        updatedAt: AdminTimestamp.now(),
+      });
+      return;
+    }
+
+    await versions.add({
+      operation,
+      ...snapshot,
+      changedFields,
+      ...(restoredFrom ? { restoredFrom } : {}),
+      ...(actorUid ? { actorUid } : {}),
+      createdAt: AdminTimestamp.now(),
+    });
+
+    await pruneCVVersions(cvRef);
+  } catch (err) {
+    console.error('[cv-versions] recordCVVersion failed:', err);
+  }
+}
+
+/** Keep the newest MAX_CV_VERSIONS snapshots; older ones are deleted. */
+async function pruneCVVersions(cvRef: DocumentReference): Promise<void> {
+  const stale = await versionsCollection(cvRef)
+    .orderBy('createdAt', 'desc')
+    .offset(MAX_CV_VERSIONS)
+    .select()
+    .get();
+  if (stale.empty) return;
+
+  const batch = cvRef.firestore.batch();
+  stale.docs.forEach(doc => batch.delete(doc.ref));
+  await batch.commit();
+}
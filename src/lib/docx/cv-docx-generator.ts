@@ -0,0 +1,496 @@
+/**
+ * CV DOCX Generator — native Word export of a generated CV.
+ *
+ * Builds a real Word document (named styles, Heading 1 sections, tables for
+ * role/period lines, native bullets) from `GeneratedCVContent` instead of
+ * rasterising the HTML preview. Recruiters and agencies can edit the result
+ * directly.
+ *
+ * Styling follows the same tokens the HTML renderers use:
+ *   - v2 (`engineVersion: 'v2'`): recipe palette (OKLch → hex), resolved
+ *     font pairing, `sectionOrder` and `hiddenSections`.
+ *   - v1 (legacy `CVDesignTokens`): hex colors, `fontPairings` config,
+ *     `sectionOrder` and hidden `section-*` element overrides.
+ *
+ * Decorative primitives (pull quotes, drop caps, poster lines, sidebars) are
+ * intentionally not reproduced — Word output stays single-column so ATS
+ * parsers and manual edits both behave.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { GeneratedCVContent, CVContactInfo, CVElementOverrides } from '@/types';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
+import { isV2Tokens, type AnyCVTokens } from '@/lib/cv-engine/dispatch';
+import { resolveRecipe } from '@/lib/cv-engine/recipes/registry';
+import type { DesignSpec } from '@/lib/cv-engine/spec';
+import { resolve } from '@/lib/cv-engine/render/resolve';
+import { getFontPairing } from '@/lib/cv-engine/render/css/fonts';
+import { oklchToHex } from '@/lib/cv-engine/render/css/oklch';
+import { labelFor, REFERENCES_ON_REQUEST, type Locale } from '@/lib/cv-engine/render/labels';
+import { DEFAULT_SECTION_ORDER, completeSectionOrder } from '@/lib/cv-engine/tokens';
+import { fontPairings } from '@/lib/cv/templates/themes';
+import { splitInterest } from '@/lib/cv/interest-format';
+import { getPaperDimensions } from '@/lib/cv/paper-size';
+
+// Word measures the page in twentieths of a point (twips); 1440 per inch.
+const TWIPS_PER_MM = 1440 / 25.4;
+const PAGE_MARGIN_TWIPS = 1134; // 20mm
+
+export interface CVDocxOptions {
+  fullName: string;
+  headline?: string | null;
+  contactInfo?: CVContactInfo | null;
+  /** Legacy element overrides — hidden `section-*` entries are respected. */
+  overrides?: CVElementOverrides | null;
+  /** Section-label locale. Defaults to 'nl'. */
+  locale?: Locale;
+  /** Output sheet. Beats the token-stored paperSize; default 'a4' — same rule as the PDF. */
+  paperSize?: PaperSize | null;
+  /** The CV owner's stored recipes, for `custom-` recipe ids. */
+  customRecipes?: readonly DesignSpec[];
+}
+
+interface DocxStyle {
+  headingFont: string;
+  bodyFont: string;
+  /** Hex colors without the leading '#', as the docx package expects. */
+  ink: string;
+  accent: string;
+  muted: string;
+  sectionOrder: string[];
+  hiddenSections: Set<string>;
+  /** Page width minus both margins, in twips — tables span exactly this. */
+  contentWidth: number;
+}
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+/** Page size in twips for the requested or token-stored paper size. */
+function resolvePageSize(tokens: AnyCVTokens, paperSize?: PaperSize | null): PageSize {
+  const paper = getPaperDimensions(paperSize ?? tokens?.paperSize);
+  return {
+    width: Math.round(paper.widthMm * TWIPS_PER_MM),
+    height: Math.round(paper.heightMm * TWIPS_PER_MM),
+  };
+}
+
+/**
+ * Extract clean font name from CSS font-family string
+ * e.g., "'Inter', sans-serif" -> "Inter"
+ */
+function extractFontName(fontFamily: string): string {
+  const match = fontFamily.match(/['"]?([^'",]+)['"]?/);
+  return match ? match[1].trim() : 'Arial';
+}
+
+function toDocxColor(hex: string | undefined, fallback: string): string {
+  const clean = (hex ?? '').replace(/^#/, '');
+  return /^[0-9a-fA-F]{6}$/.test(clean) ? clean.toUpperCase() : fallback;
+}
+
+/**
+ * Map either token shape onto the small set of style decisions Word can
+ * express: two fonts, three colors, section order and visibility.
+ */
+function resolveDocxStyle(
+  tokens: AnyCVTokens,
+  page: PageSize,
+  opts: Pick<CVDocxOptions, 'overrides' | 'customRecipes'>,
+): DocxStyle {
+  const contentWidth = page.width - 2 * PAGE_MARGIN_TWIPS;
+  if (isV2Tokens(tokens)) {
+    const recipe = resolveRecipe(tokens.recipeId, opts.customRecipes);
+    if (!recipe) {
+      throw new Error(`cv-engine: unknown recipeId "${tokens.recipeId}". Registered: see recipes/registry.ts`);
+    }
+    const rs = resolve(recipe, tokens);
+    const fonts = getFontPairing(rs.fontPairing);
+    return {
+      headingFont: extractFontName(fonts.heading.family),
+      bodyFont: extractFontName(fonts.body.family),
+      ink: toDocxColor(oklchToHex(rs.palette.ink), '1A1A1A'),
+      accent: toDocxColor(oklchToHex(rs.palette.accent), '1A1A1A'),
+      muted: toDocxColor(oklchToHex(rs.palette.muted), '666666'),
+      sectionOrder: rs.sectionOrder,
+      hiddenSections: rs.hiddenSections,
+      contentWidth,
+    };
+  }
+
+  const legacy = tokens as CVDesignTokens | null | undefined;
+  const fontConfig = legacy ? fontPairings[legacy.fontPairing] : undefined;
+  const hiddenSections = new Set(
+    (opts.overrides?.overrides ?? [])
+      .filter(o => o.hidden && o.elementId.startsWith('section-'))
+      .map(o => o.elementId.slice('section-'.length)),
+  );
+
+  return {
+    headingFont: fontConfig ? extractFontName(fontConfig.heading.family) : 'Arial',
+    bodyFont: fontConfig ? extractFontName(fontConfig.body.family) : 'Arial',
+    ink: toDocxColor(legacy?.colors?.text, '1A1A1A'),
+    accent: toDocxColor(legacy?.colors?.primary, '1A1A1A'),
+    muted: toDocxColor(legacy?.colors?.muted, '666666'),
+    sectionOrder: legacy?.sectionOrder?.length ? legacy.sectionOrder : DEFAULT_SECTION_ORDER,
+    hiddenSections,
+    contentWidth,
+  };
+}
+
+// ============ Building blocks ============
+
+const NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+const NO_BORDERS = {
+  top: NO_BORDER,
+  bottom: NO_BORDER,
+  left: NO_BORDER,
+  right: NO_BORDER,
+  insideHorizontal: NO_BORDER,
+  insideVertical: NO_BORDER,
+};
+
+function sectionHeading(label: string): Paragraph {
+  return new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(label)] });
+}
+
+function bullet(text: string): Paragraph {
+  return new Paragraph({ bullet: { level: 0 }, spacing: { after: 40 }, children: [new TextRun(text)] });
+}
+
+/**
+ * Two-column borderless table: title + meta on the left, period on the
+ * right. Tables (rather than tab stops) keep long titles from pushing the
+ * period onto the next line in Word and LibreOffice alike.
+ */
+function roleTable(style: DocxStyle, title: string, meta: string, period: string): Table {
+  const leftWidth = Math.round(style.contentWidth * 0.75);
+  const rightWidth = style.contentWidth - leftWidth;
+
+  const left: Paragraph[] = [
+    new Paragraph({ children: [new TextRun({ text: title, bold: true, font: style.headingFont })] }),
+  ];
+  if (meta) {
+    left.push(new Paragraph({ children: [new TextRun({ text: meta, color: style.muted })] }));
+  }
+
+  return new Table({
+    width: { size: style.contentWidth, type: WidthType.DXA },
+    columnWidths: [leftWidth, rightWidth],
+    borders: NO_BORDERS,
+    rows: [
+      new TableRow({
+        cantSplit: true,
+        children: [
+          new TableCell({ width: { size: leftWidth, type: WidthType.DXA }, borders: NO_BORDERS, children: left }),
+          new TableCell({
+            width: { size: rightWidth, type: WidthType.DXA },
+            borders: NO_BORDERS,
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [new TextRun({ text: period, color: style.muted })],
+              }),
+            ],
+          }),
+        ],
+      }),
+    ],
+  });
+}
+
+function spacer(): Paragraph {
+  return new Paragraph({ spacing: { after: 120 }, children: [] });
+}
+
+// ============ Sections ============
+
+type Block = Paragraph | Table;
+
+function renderExperience(style: DocxStyle, items: GeneratedCVContent['experience']): Block[] {
+  return items.flatMap(exp => {
+    const meta = [exp.company, exp.location].filter(Boolean).join(' · ');
+    const blocks: Block[] = [roleTable(style, exp.title, meta, exp.period)];
+    if (exp.description) {
+      blocks.push(new Paragraph({ spacing: { before: 60, after: 60 }, children: [new TextRun(exp.description)] }));
+    }
+    blocks.push(...(exp.highlights ?? []).map(bullet), spacer());
+    return blocks;
+  });
+}
+
+function renderEducation(style: DocxStyle, items: GeneratedCVContent['education']): Block[] {
+  return items.flatMap(edu => {
+    const blocks: Block[] = [roleTable(style, edu.degree, edu.institution, edu.year)];
+    if (edu.details) {
+      blocks.push(new Paragraph({ spacing: { before: 60 }, children: [new TextRun(edu.details)] }));
+    }
+    blocks.push(spacer());
+    return blocks;
+  });
+}
+
+function renderSkills(style: DocxStyle, skills: GeneratedCVContent['skills']): Block[] {
+  return [skills.technical, skills.soft]
+    .filter(list => list?.length)
+    .map(
+      list =>
+        new Paragraph({
+          spacing: { after: 80 },
+          children: list.flatMap((skill, i) => [
+            ...(i > 0 ? [new TextRun({ text: '  ·  ', color: style.muted })] : []),
+            new TextRun(skill),
+          ]),
+        }),
+    );
+}
+
+function renderLanguages(style: DocxStyle, items: GeneratedCVContent['languages']): Block[] {
+  const leftWidth = Math.round(style.contentWidth * 0.4);
+  const rightWidth = style.contentWidth - leftWidth;
+  return [
+    new Table({
+      width: { size: style.contentWidth, type: WidthType.DXA },
+      columnWidths: [leftWidth, rightWidth],
+      borders: NO_BORDERS,
+      rows: items.map(
+        l =>
+          new TableRow({
+            children: [
+              new TableCell({
+                width: { size: leftWidth, type: WidthType.DXA },
+                borders: NO_BORDERS,
+                children: [new Paragraph({ children: [new TextRun({ text: l.language, bold: true })] })],
+              }),
+              new TableCell({
+                width: { size: rightWidth, type: WidthType.DXA },
+                borders: NO_BORDERS,
+                children: [new Paragraph({ children: [new TextRun({ text: l.level ?? '', color: style.muted })] })],
+              }),
+            ],
+          }),
+      ),
+    }),
+  ];
+}
+
+function renderProjects(style: DocxStyle, items: NonNullable<GeneratedCVContent['projects']>): Block[] {
+  return items.flatMap(p => {
+    const blocks: Block[] = [roleTable(style, p.title, p.url ?? '', p.period)];
+    if (p.description) {
+      blocks.push(new Paragraph({ spacing: { before: 60, after: 60 }, children: [new TextRun(p.description)] }));
+    }
+    if (p.technologies?.length) {
+      blocks.push(
+        new Paragraph({
+          spacing: { after: 60 },
+          children: [new TextRun({ text: p.technologies.join(' · '), color: style.muted, italics: true })],
+        }),
+      );
+    }
+    blocks.push(...(p.highlights ?? []).map(bullet), spacer());
+    return blocks;
+  });
+}
+
+function renderEntry(style: DocxStyle, title: string, meta: string, period: string, description: string | null): Block[] {
+  const blocks: Block[] = [roleTable(style, title, meta, period)];
+  if (description) {
+    blocks.push(new Paragraph({ spacing: { before: 60 }, children: [new TextRun(description)] }));
+  }
+  blocks.push(spacer());
+  return blocks;
+}
+
+function renderReferences(style: DocxStyle, content: GeneratedCVContent, locale: Locale): Block[] {
+  if (content.references?.length) {
+    return content.references.flatMap(r => renderEntry(style, r.name, r.relationship ?? '', '', r.contact));
+  }
+  if (!content.referencesOnRequest) return [];
+  return [new Paragraph({ spacing: { after: 120 }, children: [new TextRun(REFERENCES_ON_REQUEST[locale] ?? REFERENCES_ON_REQUEST.nl)] })];
+}
+
+function renderInterests(items: string[]): Block[] {
+  return items.map(item => {
+    const { name, framing } = splitInterest(item);
+    return new Paragraph({
+      bullet: { level: 0 },
+      spacing: { after: 40 },
+      children: [
+        new TextRun({ text: name, bold: !!framing }),
+        ...(framing ? [new TextRun(` — ${framing}`)] : []),
+      ],
+    });
+  });
+}
+
+function renderSection(
+  section: string,
+  content: GeneratedCVContent,
+  style: DocxStyle,
+  locale: Locale,
+): Block[] {
+  const withHeading = (blocks: Block[]) =>
+    blocks.length ? [sectionHeading(labelFor(locale, section)), ...blocks] : [];
+
+  switch (section) {
+    case 'summary':
+      if (!content.summary) return [];
+      return withHeading(
+        content.summary
+          .split('\n')
+          .filter(p => p.trim())
+          .map(p => new Paragraph({ spacing: { after: 120 }, children: [new TextRun(p.trim())] })),
+      );
+    case 'experience':
+      return content.experience?.length ? withHeading(renderExperience(style, content.experience)) : [];
+    case 'education':
+      return content.education?.length ? withHeading(renderEducation(style, content.education)) : [];
+    case 'skills':
+      return content.skills ? withHeading(renderSkills(style, content.skills)) : [];
+    case 'languages':
+      return content.languages?.length ? withHeading(renderLanguages(style, content.languages)) : [];
+    case 'certifications':
+      return content.certifications?.length ? withHeading(content.certifications.map(bullet)) : [];
+    case 'projects':
+      return content.projects?.length ? withHeading(renderProjects(style, content.projects)) : [];
+    case 'interests':
+      return content.interests?.length ? withHeading(renderInterests(content.interests)) : [];
+    case 'publications':
+      return withHeading((content.publications ?? []).flatMap(p =>
+        renderEntry(style, p.title, p.publisher ?? '', p.date ?? '', p.url),
+      ));
+    case 'volunteering':
+      return withHeading((content.volunteering ?? []).flatMap(v =>
+        renderEntry(style, v.role, v.organization, v.period, v.description),
+      ));
+    case 'awards':
+      return withHeading((content.awards ?? []).flatMap(a =>
+        renderEntry(style, a.title, a.issuer ?? '', a.date ?? '', a.description),
+      ));
+    case 'references':
+      return withHeading(renderReferences(style, content, locale));
+    default:
+      return [];
+  }
+}
+
+function contactLine(contact?: CVContactInfo | null): string {
+  if (!contact) return '';
+  return [contact.email, contact.phone, contact.location, contact.linkedinUrl, contact.github, contact.website]
+    .filter(Boolean)
+    .join('  ·  ');
+}
+
+// ============ Public API ============
+
+/**
+ * Generate a DOCX buffer for a CV. Accepts either token shape (v1 or v2) —
+ * the same dispatch rule as `renderCV` applies.
+ */
+export async function generateCVDOCX(
+  content: GeneratedCVContent,
+  tokens: AnyCVTokens,
+  opts: CVDocxOptions,
+): Promise<Buffer> {
+  const page = resolvePageSize(tokens, opts.paperSize);
+  const style = resolveDocxStyle(tokens, page, opts);
+  const locale: Locale = opts.locale ?? 'nl';
+
+  const children: Block[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(opts.fullName)] }),
+  ];
+
+  if (opts.headline) {
+    children.push(
+      new Paragraph({
+        spacing: { after: 60 },
+        children: [new TextRun({ text: opts.headline, size: 24, color: style.accent })],
+      }),
+    );
+  }
+
+  const contact = contactLine(opts.contactInfo);
+  if (contact) {
+    children.push(
+      new Paragraph({ spacing: { after: 200 }, children: [new TextRun({ text: contact, size: 18, color: style.muted })] }),
+    );
+  }
+
+  // Sections absent from sectionOrder but present in content are slotted in
+  // at their default position so nothing the user generated silently disappears.
+  for (const section of completeSectionOrder(style.sectionOrder)) {
+    if (style.hiddenSections.has(section)) continue;
+    children.push(...renderSection(section, content, style, locale));
+  }
+
+  const doc = new Document({
+    creator: opts.fullName,
+    title: `${opts.fullName} — CV`,
+    styles: {
+      default: {
+        document: {
+          run: { font: style.bodyFont, size: 21, color: style.ink }, // 10.5pt, matches the HTML reset
+          paragraph: { spacing: { line: 276 } },
+        },
+      },
+      paragraphStyles: [
+        {
+          id: 'Title',
+          name: 'Title',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { font: style.headingFont, size: 44, bold: true, color: style.ink },
+          paragraph: { spacing: { after: 60 } },
+        },
+        {
+          id: 'Heading1',
+          name: 'Heading 1',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { font: style.headingFont, size: 26, bold: true, color: style.accent },
+          paragraph: {
+            spacing: { before: 240, after: 120 },
+            keepNext: true,
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: style.accent, space: 2 } },
+          },
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: page.width, height: page.height },
+            margin: {
+              top: PAGE_MARGIN_TWIPS,
+              right: PAGE_MARGIN_TWIPS,
+              bottom: PAGE_MARGIN_TWIPS,
+              left: PAGE_MARGIN_TWIPS,
+            },
+          },
+        },
+        children,
+      },
+    ],
+  });
+
+  const buffer = await Packer.toBuffer(doc);
+  return Buffer.from(buffer);
+}
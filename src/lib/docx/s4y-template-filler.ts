@@ -15,6 +15,7 @@ import { z } from 'zod';
 import { createAIProvider, type LLMProvider } from '@/lib/ai/providers';
 import { resolveTemperature } from '@/lib/ai/temperature';
 import { withRetry } from '@/lib/ai/retry';
+import { getOutputLanguageNote, usesEnglishPrompts } from '@/lib/ai/output-language';
 import type { ParsedLinkedIn, JobVacancy, OutputLanguage, FitAnalysis } from '@/types';
 import type { ExperienceDescriptionFormat } from '@/types/design-tokens';
 import { buildProfileSummary, buildJobSummary, buildFitAnalysisSummary } from '@/lib/ai/docx-content-replacer';
@@ -1101,7 +1102,7 @@ interface IndexedFillResult {
 }
 
 function getSectionRulesText(language: OutputLanguage): string {
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
 
   if (isEn) {
     return `
@@ -1173,7 +1174,7 @@ function buildSectionGroupedDocument(
   sections: SectionInfo[],
   language: OutputLanguage
 ): string {
-  const isEn = language === 'en';
+  const isEn = usesEnglishPrompts(language);
 
   if (sections.length === 0 || sections.every(s => s.type === 'unknown')) {
     return segments.map(seg => {
@@ -1209,7 +1210,7 @@ function buildSectionGroupedDocument(
 }
 
 function getPrompts(language: OutputLanguage) {
-  if (language === 'en') {
+  if (usesEnglishPrompts(language)) {
     return {
       system: `You are a CV filling specialist. You receive a numbered CV template and must fill in the values.
 
@@ -1437,15 +1438,15 @@ async function fillDocumentWithAI(
   const systemPrompt = prompts.system + sectionRules;
 
   const formatInstruction = descriptionFormat === 'paragraph'
-    ? (language === 'en'
+    ? (usesEnglishPrompts(language)
         ? '\n--- EXPERIENCE FORMAT: PARAGRAPH ---\nWrite work experience as flowing paragraphs (2-3 sentences). Do not use bullet points.'
         : '\n--- WERKERVARING FORMAAT: PARAGRAAF ---\nSchrijf werkervaring als doorlopende paragrafen (2-3 zinnen). Gebruik geen opsommingstekens.')
-    : (language === 'en'
+    : (usesEnglishPrompts(language)
         ? '\n--- EXPERIENCE FORMAT: BULLETS ---\nUse bullet points (starting with "- ") for work experience descriptions.'
         : '\n--- WERKERVARING FORMAAT: BULLETS ---\nGebruik opsommingstekens (beginnend met "- ") voor werkervaring beschrijvingen.');
 
   const customInstructionsSection = customInstructions
-    ? `\n--- ${language === 'en' ? 'USER INSTRUCTIONS (IMPORTANT - follow these adjustments)' : 'GEBRUIKER INSTRUCTIES (BELANGRIJK - volg deze aanpassingen)'} ---\n${customInstructions}\n`
+    ? `\n--- ${usesEnglishPrompts(language) ? 'USER INSTRUCTIONS (IMPORTANT - follow these adjustments)' : 'GEBRUIKER INSTRUCTIES (BELANGRIJK - volg deze aanpassingen)'} ---\n${customInstructions}\n`
     : '';
 
   const userPrompt = `${prompts.templateHeader}:
@@ -1453,7 +1454,7 @@ ${numberedDoc}
 
 ${prompts.profileHeader}:
 ${profileSummary}
-${jobSummary ? `\n${prompts.jobHeader}:\n${jobSummary}` : ''}${fitSummary}${formatInstruction}${customInstructionsSection}
+${jobSummary ? `\n${prompts.jobHeader}:\n${jobSummary}` : ''}${fitSummary}${formatInstruction}${getOutputLanguageNote(language)}${customInstructionsSection}
 
 ${prompts.instructions}`;
 
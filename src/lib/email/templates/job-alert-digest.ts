@@ -0,0 +1,95 @@
+import { wrapInLayout, ctaButton } from './base-layout';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://cveetje.nl';
+
+export interface JobAlertDigestJob {
+  slug: string;
+  title: string;
+  company: string | null;
+  location: string | null;
+  /** Match with the user's default profile, 0–100; null without a profile. */
+  score: number | null;
+  matchedSkills: string[];
+}
+
+export interface JobAlertDigestSection {
+  alertName: string;
+  /** New matches shown in the mail (already capped by the caller). */
+  jobs: JobAlertDigestJob[];
+  /** All new matches, including the ones not shown. */
+  totalNew: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function scoreBadge(score: number | null): string {
+  if (score === null) return '';
+  const color = score >= 60 ? '#15803d' : score >= 30 ? '#ca8a04' : '#6b7280';
+  return `<span style="display:inline-block;margin-left:8px;padding:2px 8px;border-radius:999px;border:1px solid ${color};font-size:12px;font-weight:600;color:${color};">${score}% match</span>`;
+}
+
+function renderJob(job: JobAlertDigestJob): string {
+  const meta = [job.company, job.location].filter(Boolean).map((v) => escapeHtml(v as string)).join(' &middot; ');
+  const skills = job.matchedSkills.length > 0
+    ? `<p style="margin:4px 0 0 0;font-size:13px;color:#6b7280;">Past bij: ${job.matchedSkills.map(escapeHtml).join(', ')}</p>`
+    : '';
+  return `
+    <tr>
+      <td style="padding:14px 0;border-bottom:1px solid #e5e7eb;">
+        <a href="${APP_URL}/nl/jobs/${encodeURIComponent(job.slug)}" target="_blank" style="font-size:15px;font-weight:600;color:#4f46e5;text-decoration:none;">${escapeHtml(job.title)}</a>${scoreBadge(job.score)}
+        ${meta ? `<p style="margin:4px 0 0 0;font-size:13px;color:#374151;">${meta}</p>` : ''}
+        ${skills}
+      </td>
+    </tr>`;
+}
+
+function renderSection(section: JobAlertDigestSection): string {
+  const more = section.totalNew - section.jobs.length;
+  return `
+    <h2 style="margin:24px 0 4px 0;font-size:17px;color:#111827;">${escapeHtml(section.alertName)}</h2>
+    <p style="margin:0 0 4px 0;font-size:13px;color:#6b7280;">
+      ${section.totalNew} ${section.totalNew === 1 ? 'nieuwe vacature' : 'nieuwe vacatures'}${more > 0 ? ` &mdash; de ${section.jobs.length} best passende hieronder` : ''}
+    </p>
+    <table role="presentation" cellpadding="0" cellspacing="0" width="100%">
+      ${section.jobs.map(renderJob).join('')}
+    </table>`;
+}
+
+export function renderJobAlertDigestEmail(data: {
+  displayName: string;
+  sections: JobAlertDigestSection[];
+  /** Name of the profile the matches were scored against, if any. */
+  profileName: string | null;
+}): { subject: string; html: string } {
+  const total = data.sections.reduce((sum, s) => sum + s.totalNew, 0);
+  const vacancyWord = total === 1 ? 'nieuwe vacature' : 'nieuwe vacatures';
+
+  const body = `
+    <h1 style="margin:0 0 16px 0;font-size:22px;color:#111827;">${total} ${vacancyWord} voor je</h1>
+    <p style="margin:0 0 16px 0;font-size:15px;line-height:1.6;color:#374151;">
+      Hoi ${escapeHtml(data.displayName)},
+    </p>
+    <p style="margin:0;font-size:15px;line-height:1.6;color:#374151;">
+      Sinds je vorige update zijn er nieuwe vacatures gevonden voor je vacature-alerts.
+      ${data.profileName
+        ? `De match is berekend met je profiel <strong>${escapeHtml(data.profileName)}</strong>.`
+        : 'Stel een standaardprofiel in om te zien hoe goed elke vacature bij je past.'}
+    </p>
+    ${data.sections.map(renderSection).join('')}
+    ${ctaButton('Alle vacatures bekijken', `${APP_URL}/nl/jobs`)}
+    <p style="margin:24px 0 0 0;font-size:13px;line-height:1.6;color:#6b7280;text-align:center;">
+      Geen mails meer ontvangen? <a href="${APP_URL}/nl/applications" style="color:#6366f1;text-decoration:none;">Beheer je vacature-alerts</a>.
+    </p>
+  `;
+
+  return {
+    subject: `${total} ${vacancyWord} voor je vacature-alerts`,
+    html: wrapInLayout('Vacature-alert', body),
+  };
+}
@@ -0,0 +1,68 @@
+import { wrapInLayout, ctaButton } from './base-layout';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://cveetje.nl';
+
+export type SpendAlertKind = 'user-cap' | 'global-cap' | 'anomaly';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function usd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+const HEADINGS: Record<SpendAlertKind, string> = {
+  'user-cap': 'Gebruiker heeft daglimiet bereikt',
+  'global-cap': 'Platform-AI daglimiet bereikt',
+  anomaly: 'Ongebruikelijk AI-verbruik',
+};
+
+export function renderSpendAlertEmail(data: {
+  type: SpendAlertKind;
+  date: string;
+  costUsd: number;
+  thresholdUsd: number;
+  baselineUsd: number | null;
+  userEmail: string | null;
+  userId: string | null;
+}): { subject: string; html: string } {
+  const who = data.userId
+    ? `${escapeHtml(data.userEmail ?? 'onbekend e-mailadres')} <span style="color:#9ca3af;">(${escapeHtml(data.userId)})</span>`
+    : 'alle platform-gebruikers samen';
+
+  const explanation =
+    data.type === 'anomaly'
+      ? data.baselineUsd !== null
+        ? `Het verbruik vandaag is meer dan de ingestelde drempel van <strong>${usd(data.thresholdUsd)}</strong>, terwijl een normale actieve dag voor deze gebruiker rond <strong>${usd(data.baselineUsd)}</strong> ligt.`
+        : `Het verbruik vandaag is meer dan de ingestelde drempel van <strong>${usd(data.thresholdUsd)}</strong>. Er is nog te weinig historie voor een persoonlijke baseline.`
+      : `De limiet van <strong>${usd(data.thresholdUsd)}</strong> per dag is bereikt. Nieuwe platform-AI aanvragen worden tot middernacht (UTC) geweigerd.`;
+
+  const body = `
+    <h1 style="margin:0 0 16px 0;font-size:22px;color:#111827;">${HEADINGS[data.type]}</h1>
+    <p style="margin:0 0 16px 0;font-size:15px;line-height:1.6;color:#374151;">
+      ${who} &mdash; ${escapeHtml(data.date)}
+    </p>
+    <table role="presentation" cellpadding="0" cellspacing="0" width="100%" style="background-color:#fef2f2;border-radius:8px;margin:0 0 24px 0;">
+      <tr>
+        <td style="padding:20px 24px;text-align:center;">
+          <p style="margin:0 0 4px 0;font-size:14px;color:#6b7280;">Verbruik vandaag</p>
+          <p style="margin:0;font-size:32px;font-weight:700;color:#dc2626;">${usd(data.costUsd)}</p>
+        </td>
+      </tr>
+    </table>
+    <p style="margin:0;font-size:14px;line-height:1.6;color:#374151;">
+      ${explanation}
+    </p>
+    ${ctaButton('Bekijk in admin', `${APP_URL}/nl/admin/platform`)}
+  `;
+
+  return {
+    subject: `[CVeetje] ${HEADINGS[data.type]}: ${usd(data.costUsd)}`,
+    html: wrapInLayout(HEADINGS[data.type], body),
+  };
+}
@@ -13,6 +13,8 @@ export interface AdminUser {
   disabledReason?: string;
   disabledAt?: Date;
   role: UserRole;
+  /** Organisation whose stored design recipes the user may pick */
+  organizationId: string | null;
   credits: {
     free: number;
     purchased: number;
@@ -91,6 +93,20 @@ export async function setUserRole(userId: string, role: UserRole): Promise<void>
   console.log(`[Admin] Set role ${role} for user ${userId}`);
 }
 
+/**
+ * Link a user to an organisation (or unlink with null)
+ */
+export async function setUserOrganization(userId: string, organizationId: string | null): Promise<void> {
+  const db = getAdminDb();
+
+  await db.collection('users').doc(userId).update({
+    organizationId: organizationId ?? FieldValue.delete(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  console.log(`[Admin] Set organization ${organizationId ?? '—'} for user ${userId}`);
+}
+
 /**
  * Disable a user account
  */
@@ -193,6 +209,7 @@ export async function getAllUsers(
         ? (firestoreData.disabledAt as Timestamp).toDate()
         : undefined,
       role: (firestoreData.role as UserRole) || 'user',
+      organizationId: (firestoreData.organizationId as string | undefined) || null,
       credits: {
         free: credits.free || 0,
         purchased: credits.purchased || 0,
@@ -239,6 +256,7 @@ export async function getUserById(userId: string): Promise<AdminUser | null> {
         ? (firestoreData.disabledAt as Timestamp).toDate()
         : undefined,
       role: (firestoreData.role as UserRole) || 'user',
+      organizationId: (firestoreData.organizationId as string | undefined) || null,
       credits: {
         free: credits.free || 0,
         purchased: credits.purchased || 0,
@@ -347,5 +347,9 @@ export async function updateCV(
 
 export async function deleteCV(userId: string, cvId: string): Promise<void> {
   const cvRef = doc(db, 'users', userId, 'cvs', cvId);
+  // Firestore doesn't cascade — clear the version history first so no
+  // orphaned snapshots of the CV content are left behind.
+  const versions = await getDocs(collection(db, 'users', userId, 'cvs', cvId, 'versions'));
+  await Promise.all(versions.docs.map((v) => deleteDoc(v.ref)));
   await deleteDoc(cvRef);
 }
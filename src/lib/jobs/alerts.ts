@@ -0,0 +1,268 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { queueEmail } from '@/lib/email/send';
+import {
+  renderJobAlertDigestEmail,
+  type JobAlertDigestJob,
+  type JobAlertDigestSection,
+} from '@/lib/email/templates/job-alert-digest';
+import type { ParsedLinkedIn } from '@/types';
+import type { JobAlertFrequency, JobAlertParams, JobAlertRecord } from '@/types/job-alert';
+import type { NormalizedJob } from './providers/types';
+import { searchJobs } from './search';
+import { upsertCachedJob } from './cache';
+import { scoreJobForProfile } from './profile-match';
+
+/**
+ * Job alerts — saved searches that are re-run on a schedule and mailed as a
+ * digest. Stored at /users/{userId}/jobAlerts/{alertId}; `seenSlugs` holds
+ * the slugs already reported so a vacancy is only ever mailed once.
+ *
+ * The scheduled runner lives at POST /api/jobs/alerts/run.
+ */
+
+export const JOB_ALERT_COLLECTION = 'jobAlerts';
+export const MAX_JOB_ALERTS_PER_USER = 10;
+export const JOB_ALERT_FREQUENCIES: JobAlertFrequency[] = ['daily', 'weekly'];
+
+/** Oldest slugs are dropped beyond this; Adzuna rarely re-surfaces them. */
+const MAX_SEEN_SLUGS = 1000;
+/** Jobs listed per alert in the digest; the rest are counted. */
+const MAX_JOBS_PER_SECTION = 10;
+/** Cloud Scheduler fires roughly on time; leave slack so a run is never skipped. */
+const FREQUENCY_INTERVAL_MS: Record<JobAlertFrequency, number> = {
+  daily: 20 * 60 * 60 * 1000,
+  weekly: 6.5 * 24 * 60 * 60 * 1000,
+};
+
+function serializeDate(value: unknown): string | null {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return null;
+}
+
+export function toJobAlertRecord(id: string, data: Record<string, unknown>): JobAlertRecord {
+  return {
+    id,
+    userId: String(data.userId ?? ''),
+    name: String(data.name ?? ''),
+    params: (data.params as JobAlertParams | undefined) ?? {},
+    frequency: (data.frequency as JobAlertFrequency) ?? 'daily',
+    active: Boolean(data.active ?? true),
+    lastRunAt: serializeDate(data.lastRunAt),
+    lastSentAt: serializeDate(data.lastSentAt),
+    createdAt: serializeDate(data.createdAt) ?? new Date().toISOString(),
+    updatedAt: serializeDate(data.updatedAt) ?? new Date().toISOString(),
+  };
+}
+
+function trimmed(value: unknown, max: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const out = value.trim().slice(0, max);
+  return out || undefined;
+}
+
+/**
+ * Whitelist the search fields an alert may store. Returns null when the
+ * search has no criteria at all — that alert would mail every new vacancy.
+ */
+export function sanitizeJobAlertParams(input: unknown): JobAlertParams | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+  const salaryMin = typeof raw.salaryMin === 'number' && raw.salaryMin > 0
+    ? Math.round(raw.salaryMin)
+    : undefined;
+
+  const params: JobAlertParams = {
+    q: trimmed(raw.q, 100),
+    location: trimmed(raw.location, 100),
+    employmentType: trimmed(raw.employmentType, 30),
+    remote: raw.remote === true || undefined,
+    inAppOnly: raw.inAppOnly === true || undefined,
+    salaryMin,
+  };
+  // Firestore rejects undefined values.
+  const clean = Object.fromEntries(
+    Object.entries(params).filter(([, v]) => v !== undefined),
+  ) as JobAlertParams;
+
+  return clean.q || clean.location ? clean : null;
+}
+
+/** "Frontend developer in Utrecht" — default alert name from its search. */
+export function describeJobAlertParams(params: JobAlertParams): string {
+  if (params.q && params.location) return `${params.q} in ${params.location}`;
+  return params.q ?? params.location ?? 'Vacatures';
+}
+
+/** Newest matches of an alert's search, first page only. */
+export async function findJobAlertMatches(params: JobAlertParams): Promise<NormalizedJob[]> {
+  const result = await searchJobs({ ...params, sort: 'recent', page: 1, resultsPerPage: 50 });
+  return result.results;
+}
+
+function isDue(alert: JobAlertRecord, now: Date): boolean {
+  if (!alert.lastRunAt) return true;
+  return now.getTime() - Date.parse(alert.lastRunAt) >= FREQUENCY_INTERVAL_MS[alert.frequency];
+}
+
+function searchKey(params: JobAlertParams): string {
+  return JSON.stringify(Object.entries(params).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+async function loadDefaultProfile(
+  userId: string,
+): Promise<{ name: string; parsedData: ParsedLinkedIn } | null> {
+  const snap = await getAdminDb()
+    .collection('users')
+    .doc(userId)
+    .collection('profiles')
+    .where('isDefault', '==', true)
+    .limit(1)
+    .get();
+  if (snap.empty) return null;
+  const data = snap.docs[0].data();
+  if (!data.parsedData) return null;
+  return { name: String(data.name ?? ''), parsedData: data.parsedData as ParsedLinkedIn };
+}
+
+export interface JobAlertRunSummary {
+  alertsChecked: number;
+  alertsRun: number;
+  digestsQueued: number;
+  newJobs: number;
+  errors: number;
+}
+
+/**
+ * Run every active alert that is due, and queue one digest mail per user
+ * with a section per alert that found new vacancies. Identical searches
+ * across users share a single `searchJobs` call.
+ */
+export async function runDueJobAlerts(now = new Date()): Promise<JobAlertRunSummary> {
+  const db = getAdminDb();
+  const snap = await db.collectionGroup(JOB_ALERT_COLLECTION).where('active', '==', true).get();
+
+  const byUser = new Map<string, Array<{ alert: JobAlertRecord; ref: FirebaseFirestore.DocumentReference; seen: string[] }>>();
+  for (const doc of snap.docs) {
+    const data = doc.data() as Record<string, unknown>;
+    const alert = toJobAlertRecord(doc.id, data);
+    if (!alert.userId || !isDue(alert, now)) continue;
+    const seen = Array.isArray(data.seenSlugs) ? (data.seenSlugs as string[]) : [];
+    const list = byUser.get(alert.userId) ?? [];
+    list.push({ alert, ref: doc.ref, seen });
+    byUser.set(alert.userId, list);
+  }
+
+  const summary: JobAlertRunSummary = {
+    alertsChecked: snap.size,
+    alertsRun: 0,
+    digestsQueued: 0,
+    newJobs: 0,
+    errors: 0,
+  };
+  const searches = new Map<string, Promise<NormalizedJob[]>>();
+  const search = (params: JobAlertParams) => {
+    const key = searchKey(params);
+    let pending = searches.get(key);
+    if (!pending) {
+      pending = findJobAlertMatches(params);
+      searches.set(key, pending);
+    }
+    return pending;
+  };
+
+  for (const [userId, alerts] of byUser) {
+    try {
+      const userDoc = await db.collection('users').doc(userId).get();
+      const userData = userDoc.data();
+      if (!userData || userData.disabled) continue;
+
+      const profile = await loadDefaultProfile(userId);
+      const sections: JobAlertDigestSection[] = [];
+
+      for (const { alert, ref, seen } of alerts) {
+        const seenSet = new Set(seen);
+        const fresh = (await search(alert.params)).filter((job) => !seenSet.has(job.slug));
+
+        const ranked: Array<{ job: NormalizedJob; digest: JobAlertDigestJob }> = fresh.map((job) => {
+          const match = profile ? scoreJobForProfile(job, profile.parsedData) : null;
+          return {
+            job,
+            digest: {
+              slug: job.slug,
+              title: job.title,
+              company: job.company,
+              location: job.location,
+              score: match?.score ?? null,
+              matchedSkills: match?.matchedSkills ?? [],
+            },
+          };
+        });
+        ranked.sort((a, b) => (b.digest.score ?? 0) - (a.digest.score ?? 0));
+        const shown = ranked.slice(0, MAX_JOBS_PER_SECTION);
+
+        // Links in the mail point at /jobs/[slug]; cache what we link to so
+        // the detail page resolves without re-querying the provider.
+        await Promise.all(
+          shown.map(({ job }) =>
+            upsertCachedJob(job).catch((err) => {
+              console.warn('[jobs/alerts] cache write failed', job.slug, err instanceof Error ? err.message : err);
+            }),
+          ),
+        );
+
+        if (shown.length > 0) {
+          sections.push({ alertName: alert.name, jobs: shown.map((r) => r.digest), totalNew: fresh.length });
+          summary.newJobs += fresh.length;
+        }
+
+        await ref.update({
+          seenSlugs: [...fresh.map((job) => job.slug), ...seen].slice(0, MAX_SEEN_SLUGS),
+          lastRunAt: Timestamp.fromDate(now),
+          ...(shown.length > 0 ? { lastSentAt: Timestamp.fromDate(now) } : {}),
+        });
+        summary.alertsRun += 1;
+      }
+
+      if (sections.length > 0 && userData.email) {
+        const { subject, html } = renderJobAlertDigestEmail({
+          displayName: userData.displayName || 'daar',
+          sections,
+          profileName: profile?.name ?? null,
+        });
+        queueEmail(userData.email, subject, html);
+        summary.digestsQueued += 1;
+      }
+    } catch (err) {
+      summary.errors += 1;
+      console.error(`[jobs/alerts] run failed for user ${userId}:`, err);
+    }
+  }
+
+  return summary;
+}
+
+/** Firestore payload for a new alert. Seeds `seenSlugs` with the current results. */
+export async function buildJobAlertDoc(input: {
+  userId: string;
+  name: string;
+  params: JobAlertParams;
+  frequency: JobAlertFrequency;
+}): Promise<Record<string, unknown>> {
+  // The user just looked at these results — only mail what appears after now.
+  const current = await findJobAlertMatches(input.params).catch(() => [] as NormalizedJob[]);
+  return {
+    userId: input.userId,
+    name: input.name,
+    params: input.params,
+    frequency: input.frequency,
+    active: true,
+    seenSlugs: current.map((job) => job.slug),
+    lastRunAt: FieldValue.serverTimestamp(),
+    lastSentAt: null,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+}
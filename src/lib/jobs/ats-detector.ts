@@ -2,7 +2,7 @@ import type { JobSourceProvider } from './providers/types';
 
 export interface DetectedAts {
   provider: Exclude<JobSourceProvider, 'adzuna'>;
-  providerCode: 'gh' | 'rt' | 'lv';
+  providerCode: 'gh' | 'rt' | 'lv' | 'wk' | 'ab' | 'sr' | 'pe' | 'tt';
   companyId: string; // raw (token/subdomain/site)
   companyKey: string; // normalized alphanumeric
   jobId: string;
@@ -13,8 +13,9 @@ function normalizeKey(raw: string): string {
 }
 
 /**
- * Detect whether a job's redirect URL points at a known ATS that we support
- * 1-click applying to. Returns null if the URL doesn't match any supported ATS.
+ * Detect whether a job's redirect URL points at a known ATS we can fetch the
+ * full vacancy from (and, for Greenhouse/Lever/Recruitee, 1-click apply to).
+ * Returns null if the URL doesn't match any supported ATS.
  *
  * Supported patterns:
  *   Greenhouse:
@@ -27,6 +28,19 @@ function normalizeKey(raw: string): string {
  *     https://<subdomain>.recruitee.com/o/<slug>
  *     https://<subdomain>.recruitee.com/vacatures/<slug>  (NL)
  *     https://careers.recruitee.com/o/<slug>
+ *   Workable:
+ *     https://apply.workable.com/<account>/j/<shortcode>[/...]
+ *     https://<account>.workable.com/j/<shortcode>
+ *   Ashby:
+ *     https://jobs.ashbyhq.com/<board>/<uuid>[/application]
+ *   SmartRecruiters:
+ *     https://jobs.smartrecruiters.com/<Company>/<postingId>[-title]
+ *     https://careers.smartrecruiters.com/<Company>/<postingId>[-title]
+ *   Personio:
+ *     https://<subdomain>.jobs.personio.de/job/<id>
+ *     https://<subdomain>.jobs.personio.com/job/<id>
+ *   Teamtailor:
+ *     https://<subdomain>.teamtailor.com/[<locale>/]jobs/<id>[-title]
  */
 export function detectAtsFromUrl(rawUrl: string | null | undefined): DetectedAts | null {
   if (!rawUrl) return null;
@@ -98,5 +112,91 @@ export function detectAtsFromUrl(rawUrl: string | null | undefined): DetectedAts
     }
   }
 
+  // Workable
+  if (host === 'apply.workable.com') {
+    const m = path.match(/^\/([^/]+)\/j\/([A-Za-z0-9]+)/);
+    if (m && m[1] !== 'api') {
+      return {
+        provider: 'workable',
+        providerCode: 'wk',
+        companyId: m[1],
+        companyKey: normalizeKey(m[1]),
+        jobId: m[2],
+      };
+    }
+  }
+  if (host.endsWith('.workable.com') && host !== 'apply.workable.com') {
+    const account = host.replace(/\.workable\.com$/, '');
+    const m = path.match(/^\/j\/([A-Za-z0-9]+)/);
+    if (m && account && !account.includes('.') && account !== 'www') {
+      return {
+        provider: 'workable',
+        providerCode: 'wk',
+        companyId: account,
+        companyKey: normalizeKey(account),
+        jobId: m[1],
+      };
+    }
+  }
+
+  // Ashby
+  if (host === 'jobs.ashbyhq.com') {
+    const m = path.match(/^\/([^/]+)\/([a-f0-9-]{32,36})/i);
+    if (m) {
+      const board = decodeURIComponent(m[1]);
+      return {
+        provider: 'ashby',
+        providerCode: 'ab',
+        companyId: board,
+        companyKey: normalizeKey(board),
+        jobId: m[2],
+      };
+    }
+  }
+
+  // SmartRecruiters
+  if (host === 'jobs.smartrecruiters.com' || host === 'careers.smartrecruiters.com') {
+    const m = path.match(/^\/([^/]+)\/(\d+)/);
+    if (m) {
+      return {
+        provider: 'smartrecruiters',
+        providerCode: 'sr',
+        companyId: m[1],
+        companyKey: normalizeKey(m[1]),
+        jobId: m[2],
+      };
+    }
+  }
+
+  // Personio
+  const personio = host.match(/^([a-z0-9-]+)\.jobs\.personio\.(?:de|com)$/);
+  if (personio) {
+    const m = path.match(/^\/job\/(\d+)/);
+    if (m) {
+      return {
+        provider: 'personio',
+        providerCode: 'pe',
+        companyId: personio[1],
+        companyKey: normalizeKey(personio[1]),
+        jobId: m[1],
+      };
+    }
+  }
+
+  // Teamtailor
+  const teamtailor = host.match(/^([a-z0-9-]+)\.teamtailor\.com$/);
+  if (teamtailor && teamtailor[1] !== 'app' && teamtailor[1] !== 'www') {
+    const m = path.match(/^\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?jobs\/(\d+)/i);
+    if (m) {
+      return {
+        provider: 'teamtailor',
+        providerCode: 'tt',
+        companyId: teamtailor[1],
+        companyKey: normalizeKey(teamtailor[1]),
+        jobId: m[1],
+      };
+    }
+  }
+
   return null;
 }
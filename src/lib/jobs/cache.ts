@@ -8,7 +8,8 @@ export interface CachedJob extends NormalizedJob {
 }
 
 const COLLECTION = 'jobs';
-const TTL_MS = 14 * 24 * 60 * 60 * 1000;
+/** Also the index's expiry window: a synced posting not seen again within it is marked expired. */
+export const JOB_CACHE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
 
 function serializeDate(value: Timestamp | Date | string | undefined): string {
   if (!value) return new Date().toISOString();
@@ -18,7 +19,7 @@ function serializeDate(value: Timestamp | Date | string | undefined): string {
   return new Date().toISOString();
 }
 
-function fromFirestore(docId: string, data: Record<string, unknown>): CachedJob {
+export function cachedJobFromFirestore(docId: string, data: Record<string, unknown>): CachedJob {
   return {
     sourceProvider: (data.sourceProvider as CachedJob['sourceProvider']) ?? 'recruitee',
     sourceId: String(data.sourceId ?? docId),
@@ -47,7 +48,7 @@ export async function getCachedJob(slug: string): Promise<CachedJob | null> {
   const db = getAdminDb();
   const snap = await db.collection(COLLECTION).doc(slug).get();
   if (!snap.exists) return null;
-  return fromFirestore(snap.id, snap.data() as Record<string, unknown>);
+  return cachedJobFromFirestore(snap.id, snap.data() as Record<string, unknown>);
 }
 
 /**
@@ -56,7 +57,7 @@ export async function getCachedJob(slug: string): Promise<CachedJob | null> {
  * setting is fragile across cold starts. Strip preemptively so a single rogue
  * undefined never breaks the entire cache write.
  */
-function stripUndefined<T>(value: T): T {
+export function stripUndefined<T>(value: T): T {
   if (Array.isArray(value)) {
     return value.map((v) => stripUndefined(v)) as unknown as T;
   }
@@ -74,7 +75,7 @@ function stripUndefined<T>(value: T): T {
 export async function upsertCachedJob(job: NormalizedJob): Promise<CachedJob> {
   const db = getAdminDb();
   const now = Date.now();
-  const expiresAt = new Date(now + TTL_MS);
+  const expiresAt = new Date(now + JOB_CACHE_TTL_MS);
 
   const payload = stripUndefined({
     ...job,
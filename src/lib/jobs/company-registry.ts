@@ -0,0 +1,265 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import type { JobSourceProvider } from './providers/types';
+import {
+  COMPANY_REGISTRY_COLLECTION,
+  getFallbackCompanies,
+  getProvider,
+  invalidateCompanyCache,
+  normalizeCompanyKey,
+  type CompanyConfig,
+} from './providers/registry';
+import { closeIndexedJobs, JOB_INDEX_SYNC_COLLECTION } from './index-sync';
+import { indexSourceFor } from './job-index';
+
+/**
+ * Admin side of the company registry — the Firestore list of employer boards
+ * the job index syncs (`jobCompanies/{companyKey}`). Reads for search and
+ * sync go through getCompanies() in ./providers/registry.ts.
+ *
+ * While the collection is empty the built-in seed is live; the first admin
+ * write copies that seed in, so adding one employer never silently drops
+ * the others.
+ */
+
+/** Boards that can be registered — Adzuna is a search API, not a company board. */
+export const REGISTRY_PROVIDERS: JobSourceProvider[] = [
+  'greenhouse',
+  'lever',
+  'recruitee',
+  'workable',
+  'ashby',
+  'smartrecruiters',
+  'personio',
+  'teamtailor',
+];
+
+const VALIDATE_TIMEOUT_MS = 15_000;
+
+export interface CompanyHealth {
+  lastSyncedAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  openJobs: number | null;
+  /** Failed share of the last syncs (0–1); null before the first sync. */
+  errorRate: number | null;
+  recentRuns: number;
+}
+
+export interface AdminJobCompany extends CompanyConfig {
+  enabled: boolean;
+  health: CompanyHealth;
+}
+
+export interface CompanyRegistryListing {
+  companies: AdminJobCompany[];
+  /** `seed` while the Firestore registry is still empty. */
+  source: 'firestore' | 'seed';
+}
+
+export interface BoardValidation {
+  ok: boolean;
+  jobCount: number;
+  sampleTitles: string[];
+  error: string | null;
+}
+
+export class CompanyRegistryError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'CompanyRegistryError';
+  }
+}
+
+function toIso(value: unknown): string | null {
+  return value instanceof Timestamp ? value.toDate().toISOString() : null;
+}
+
+function toHealth(data: Record<string, unknown> | undefined): CompanyHealth {
+  const runs = Array.isArray(data?.recentRuns) ? (data.recentRuns as boolean[]) : [];
+  return {
+    lastSyncedAt: toIso(data?.lastSyncedAt),
+    lastSuccessAt: toIso(data?.lastSuccessAt),
+    lastError: typeof data?.lastError === 'string' ? data.lastError : null,
+    openJobs: typeof data?.openJobs === 'number' ? data.openJobs : null,
+    errorRate: runs.length > 0 ? runs.filter((ok) => !ok).length / runs.length : null,
+    recentRuns: runs.length,
+  };
+}
+
+export async function listRegistryCompanies(): Promise<CompanyRegistryListing> {
+  const db = getAdminDb();
+  const [registrySnap, healthSnap] = await Promise.all([
+    db.collection(COMPANY_REGISTRY_COLLECTION).get(),
+    db.collection(JOB_INDEX_SYNC_COLLECTION).get(),
+  ]);
+  const health = new Map(healthSnap.docs.map((doc) => [doc.id, doc.data()]));
+
+  const entries: Array<CompanyConfig & { enabled: boolean }> = registrySnap.empty
+    ? getFallbackCompanies().map((c) => ({ ...c, enabled: true }))
+    : registrySnap.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          provider: data.provider as JobSourceProvider,
+          companyId: String(data.companyId),
+          companyKey: doc.id,
+          name: String(data.name || data.companyId),
+          enabled: data.enabled !== false,
+        };
+      });
+
+  return {
+    source: registrySnap.empty ? 'seed' : 'firestore',
+    companies: entries
+      .map((c) => ({ ...c, health: toHealth(health.get(indexSourceFor(c.provider, c.companyId))) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/** Test-fetch a board through its provider, so typos are caught before they're saved. */
+export async function validateCompanyBoard(
+  provider: JobSourceProvider,
+  companyId: string,
+): Promise<BoardValidation> {
+  const impl = REGISTRY_PROVIDERS.includes(provider) ? getProvider(provider) : null;
+  if (!impl) {
+    return { ok: false, jobCount: 0, sampleTitles: [], error: `Unknown provider: ${provider}` };
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const jobs = await Promise.race([
+      impl.listForCompany(companyId),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Timed out fetching the board')), VALIDATE_TIMEOUT_MS);
+      }),
+    ]);
+    return {
+      ok: true,
+      jobCount: jobs.length,
+      sampleTitles: jobs.slice(0, 3).map((job) => job.title),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      ok: false,
+      jobCount: 0,
+      sampleTitles: [],
+      error: err instanceof Error ? err.message : 'Failed to fetch the board',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Copy the seed into Firestore the first time the registry is edited. */
+async function ensureRegistrySeeded(updatedBy: string): Promise<void> {
+  const db = getAdminDb();
+  const collection = db.collection(COMPANY_REGISTRY_COLLECTION);
+  const existing = await collection.limit(1).get();
+  if (!existing.empty) return;
+
+  const batch = db.batch();
+  for (const company of getFallbackCompanies()) {
+    batch.set(collection.doc(company.companyKey), {
+      ...company,
+      enabled: true,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy,
+    });
+  }
+  await batch.commit();
+}
+
+export interface AddCompanyInput {
+  provider: JobSourceProvider;
+  companyId: string;
+  name: string;
+  /** Defaults to the normalized companyId. */
+  companyKey?: string;
+}
+
+export async function addRegistryCompany(input: AddCompanyInput, updatedBy: string): Promise<CompanyConfig> {
+  const companyId = input.companyId.trim();
+  const name = input.name.trim();
+  const companyKey = normalizeCompanyKey(input.companyKey?.trim() || companyId);
+  if (!REGISTRY_PROVIDERS.includes(input.provider)) {
+    throw new CompanyRegistryError(`Unknown provider: ${input.provider}`, 400);
+  }
+  if (!companyId || !name || !companyKey) {
+    throw new CompanyRegistryError('provider, companyId and name are required', 400);
+  }
+
+  await ensureRegistrySeeded(updatedBy);
+  const db = getAdminDb();
+  const collection = db.collection(COMPANY_REGISTRY_COLLECTION);
+  const duplicate = await collection
+    .where('provider', '==', input.provider)
+    .where('companyId', '==', companyId)
+    .limit(1)
+    .get();
+  if (!duplicate.empty) {
+    throw new CompanyRegistryError('This board is already registered', 409);
+  }
+
+  const company: CompanyConfig = { provider: input.provider, companyId, companyKey, name };
+  try {
+    // create() fails if the key is taken — slugs must stay unambiguous
+    await collection.doc(companyKey).create({
+      ...company,
+      enabled: true,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+      updatedBy,
+    });
+  } catch {
+    throw new CompanyRegistryError(`Company key "${companyKey}" is already in use`, 409);
+  }
+  invalidateCompanyCache();
+  return company;
+}
+
+export interface UpdateCompanyInput {
+  name?: string;
+  enabled?: boolean;
+}
+
+export async function updateRegistryCompany(
+  companyKey: string,
+  input: UpdateCompanyInput,
+  updatedBy: string,
+): Promise<void> {
+  await ensureRegistrySeeded(updatedBy);
+  const ref = getAdminDb().collection(COMPANY_REGISTRY_COLLECTION).doc(normalizeCompanyKey(companyKey));
+  const snap = await ref.get();
+  if (!snap.exists) throw new CompanyRegistryError('Company not found', 404);
+
+  const update: Record<string, unknown> = { updatedAt: FieldValue.serverTimestamp(), updatedBy };
+  if (typeof input.name === 'string' && input.name.trim()) update.name = input.name.trim();
+  if (typeof input.enabled === 'boolean') update.enabled = input.enabled;
+  await ref.update(update);
+  invalidateCompanyCache();
+
+  // A disabled board drops out of search now; re-enabling reopens its
+  // postings on the next sync
+  if (input.enabled === false) {
+    const data = snap.data() as CompanyConfig;
+    await closeIndexedJobs(indexSourceFor(data.provider, data.companyId));
+  }
+}
+
+/** Removes the board and closes its indexed postings. Returns how many were closed. */
+export async function removeRegistryCompany(companyKey: string, updatedBy: string): Promise<number> {
+  await ensureRegistrySeeded(updatedBy);
+  const ref = getAdminDb().collection(COMPANY_REGISTRY_COLLECTION).doc(normalizeCompanyKey(companyKey));
+  const snap = await ref.get();
+  if (!snap.exists) throw new CompanyRegistryError('Company not found', 404);
+
+  const data = snap.data() as CompanyConfig;
+  const source = indexSourceFor(data.provider, data.companyId);
+  await ref.delete();
+  invalidateCompanyCache();
+  const closed = await closeIndexedJobs(source);
+  await getAdminDb().collection(JOB_INDEX_SYNC_COLLECTION).doc(source).delete();
+  return closed;
+}
@@ -10,6 +10,8 @@
 import { createHash } from 'node:crypto';
 import { Timestamp } from 'firebase-admin/firestore';
 import { getAdminDb } from '@/lib/firebase/admin';
+import { stripUndefined } from '../cache';
+import type { StructuredJobData } from './structured';
 
 const COLLECTION = 'crawlCache';
 const TTL_MS = 7 * 24 * 60 * 60 * 1000;
@@ -23,6 +25,8 @@ export interface CrawlCacheEntry {
   title: string | null;
   method: CrawlMethod;
   bytes: number;
+  /** schema.org JobPosting data found in the page markup, if any. */
+  structured: StructuredJobData | null;
   crawledAt: string;
   expiresAt: string;
 }
@@ -31,6 +35,16 @@ function hashUrl(url: string): string {
   return createHash('sha256').update(url).digest('hex');
 }
 
+/**
+ * Structured data cached before OpenGraph stopped counting as a source (no
+ * `openGraph` key) can carry a job board's name as the company and salaries
+ * misread from '3.500'. Those entries keep their text but lose the markup.
+ */
+function currentStructured(value: unknown): StructuredJobData | null {
+  if (!value || typeof value !== 'object' || !('openGraph' in value)) return null;
+  return value as StructuredJobData;
+}
+
 function fromFirestore(data: Record<string, unknown>): CrawlCacheEntry {
   const crawledAt = data.crawledAt instanceof Timestamp
     ? data.crawledAt.toDate().toISOString()
@@ -45,6 +59,7 @@ function fromFirestore(data: Record<string, unknown>): CrawlCacheEntry {
     title: (data.title as string | null) ?? null,
     method: (data.method as CrawlMethod) ?? 'http',
     bytes: Number(data.bytes ?? 0),
+    structured: currentStructured(data.structured),
     crawledAt,
     expiresAt,
   };
@@ -72,6 +87,7 @@ export async function setCrawlCache(entry: Omit<CrawlCacheEntry, 'crawledAt' | '
     title: entry.title ?? null,
     method: entry.method,
     bytes: entry.bytes,
+    structured: entry.structured ? stripUndefined(entry.structured) : null,
     crawledAt: Timestamp.fromDate(now),
     expiresAt: Timestamp.fromDate(expires),
   });
@@ -7,8 +7,10 @@
  *      - If the final URL is a known ATS we already support, fetch via JSON API.
  *      - Otherwise, extract text from the HTML.
  *   3. If extracted text is too short (<1500 chars → likely JS-rendered),
- *      fall back to puppeteer and re-extract.
- *   4. Cache the result.
+ *      use the schema.org JobPosting description when the page embeds one,
+ *      else fall back to puppeteer and re-extract.
+ *   4. Cache the result, including any structured JobPosting fields
+ *      (see ./structured.ts) so the job parser can skip rediscovering them.
  *
  * All failures are soft: callers receive `{ ok: false, fullText: '' }` and
  * can fall back to whatever short snippet they already have. The crawler
@@ -18,11 +20,14 @@
 import { httpCrawl } from './http-crawler';
 import { puppeteerCrawl } from './puppeteer-crawler';
 import { extractText } from './extractor';
+import { extractStructuredJob, structuredJobText, type StructuredJobData } from './structured';
 import { getCrawlCache, setCrawlCache, type CrawlMethod } from './cache';
 import { getProvider } from '../providers/registry';
 import type { DetectedAts } from '../ats-detector';
 
 const MIN_TEXT_THRESHOLD = 1500;
+/** A JSON-LD description this long is a usable posting on its own. */
+const MIN_STRUCTURED_TEXT = 600;
 
 export interface CrawlVacancyResult {
   ok: boolean;
@@ -34,6 +39,7 @@ export interface CrawlVacancyResult {
   bytes: number;
   cached: boolean;
   error: string | null;
+  structured: StructuredJobData | null;
 }
 
 async function fetchViaAts(ats: DetectedAts): Promise<{ description: string; title: string | null } | null> {
@@ -59,6 +65,7 @@ function emptyResult(sourceUrl: string, finalUrl: string, error: string): CrawlV
     bytes: 0,
     cached: false,
     error,
+    structured: null,
   };
 }
 
@@ -89,6 +96,7 @@ export async function crawlVacancy(sourceUrl: string, opts: CrawlOpts = {}): Pro
           bytes: cached.bytes,
           cached: true,
           error: null,
+          structured: cached.structured,
         };
       }
     } catch (e) {
@@ -115,13 +123,16 @@ export async function crawlVacancy(sourceUrl: string, opts: CrawlOpts = {}): Pro
         bytes: ats.description.length,
         cached: false,
         error: null,
+        structured: null,
       };
       await safeCacheWrite(result);
       return result;
     }
   }
 
-  // 2b. Extract text from the HTTP HTML.
+  // 2b. Extract text from the HTTP HTML. Structured data has to come from the
+  //     raw HTML — the text extractor drops <script> blocks.
+  const httpStructured = http.html ? extractStructuredJob(http.html) : null;
   if (http.html) {
     const extracted = extractText(http.html, { minTextThreshold: MIN_TEXT_THRESHOLD });
     if (!extracted.likelyJsRendered && !extracted.looksBlocked) {
@@ -135,6 +146,31 @@ export async function crawlVacancy(sourceUrl: string, opts: CrawlOpts = {}): Pro
         bytes: extracted.length,
         cached: false,
         error: null,
+        structured: httpStructured,
+      };
+      await safeCacheWrite(result);
+      return result;
+    }
+
+    // SPA shells usually still ship the JSON-LD for search engines, which
+    // saves the puppeteer round-trip.
+    if (
+      httpStructured &&
+      !extracted.looksBlocked &&
+      (httpStructured.descriptionText?.length ?? 0) >= MIN_STRUCTURED_TEXT
+    ) {
+      const fullText = structuredJobText(httpStructured);
+      const result: CrawlVacancyResult = {
+        ok: true,
+        sourceUrl,
+        finalUrl: http.finalUrl,
+        fullText,
+        title: httpStructured.vacancy.title ?? extracted.title,
+        method: 'http',
+        bytes: fullText.length,
+        cached: false,
+        error: null,
+        structured: httpStructured,
       };
       await safeCacheWrite(result);
       return result;
@@ -159,6 +195,7 @@ export async function crawlVacancy(sourceUrl: string, opts: CrawlOpts = {}): Pro
           bytes: extracted.length,
           cached: false,
           error: null,
+          structured: extractStructuredJob(pup.html) ?? httpStructured,
         };
         await safeCacheWrite(result);
         return result;
@@ -182,6 +219,7 @@ export async function crawlVacancy(sourceUrl: string, opts: CrawlOpts = {}): Pro
       bytes: extracted.length,
       cached: false,
       error: http.error || 'thin-content',
+      structured: httpStructured,
     };
   }
 
@@ -198,6 +236,7 @@ async function safeCacheWrite(result: CrawlVacancyResult): Promise<void> {
       title: result.title,
       method: result.method,
       bytes: result.bytes,
+      structured: result.structured,
     });
   } catch (e) {
     console.warn('[crawl] cache write failed:', e instanceof Error ? e.message : e);
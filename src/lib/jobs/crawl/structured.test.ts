@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { JobVacancy } from '@/types';
+import { applyStructuredJobData, extractStructuredJob } from './structured';
+
+const aiParsed: JobVacancy = {
+  title: 'Senior Developer',
+  company: 'Acme BV',
+  description: 'Bouw mee aan ons platform.',
+  requirements: [],
+  keywords: [],
+};
+
+function jsonLdPage(baseSalary: unknown): string {
+  const posting = { '@context': 'https://schema.org', '@type': 'JobPosting', title: 'Senior Developer', baseSalary };
+  return `<html><head><script type="application/ld+json">${JSON.stringify(posting)}</script></head></html>`;
+}
+
+test('OpenGraph tags never override the parsed title and company', () => {
+  const html = `<html><head>
+    <meta property="og:site_name" content="Indeed">
+    <meta property="og:title" content="Senior Developer | Werken bij Indeed">
+  </head><body><div itemscope itemtype="https://schema.org/JobPosting">
+    <span itemprop="employmentType">FULL_TIME</span>
+  </div></body></html>`;
+  const data = extractStructuredJob(html);
+  assert.ok(data);
+  assert.deepEqual(data.fieldSources, { employmentType: 'microdata' });
+
+  const { vacancy, fields } = applyStructuredJobData(aiParsed, data);
+  assert.equal(vacancy.company, 'Acme BV');
+  assert.equal(vacancy.title, 'Senior Developer');
+  assert.deepEqual(fields, ['employmentType']);
+});
+
+test('OpenGraph only fills a company the model left empty', () => {
+  const html = `<meta property="og:site_name" content="Acme">${jsonLdPage(undefined)}`;
+  const data = extractStructuredJob(html);
+  assert.ok(data);
+  const { vacancy, fields } = applyStructuredJobData({ ...aiParsed, company: null }, data);
+  assert.equal(vacancy.company, 'Acme');
+  assert.deepEqual(fields, ['title']);
+});
+
+test('OpenGraph alone is not structured job data', () => {
+  assert.equal(extractStructuredJob('<meta property="og:title" content="Vacature">'), null);
+});
+
+test('reads Dutch thousands separators in salary strings', () => {
+  const data = extractStructuredJob(jsonLdPage({
+    '@type': 'MonetaryAmount',
+    currency: 'EUR',
+    value: { '@type': 'QuantitativeValue', minValue: '3.500', maxValue: '4.500,50', unitText: 'MONTH' },
+  }));
+  assert.equal(data?.vacancy.compensation?.salaryMin, 3500);
+  assert.equal(data?.vacancy.compensation?.salaryMax, 4500.5);
+  assert.equal(data?.vacancy.compensation?.salaryPeriod, 'monthly');
+});
+
+test('skips salary strings that do not parse cleanly', () => {
+  const data = extractStructuredJob(jsonLdPage({
+    value: { minValue: '3.5k', maxValue: 'marktconform', unitText: 'MONTH' },
+  }));
+  assert.equal(data?.vacancy.compensation, undefined);
+});
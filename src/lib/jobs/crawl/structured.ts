@@ -0,0 +1,341 @@
+/**
+ * schema.org JobPosting extraction for crawled vacancy pages.
+ *
+ * Most career sites embed the posting as `application/ld+json` for Google
+ * for Jobs; older ones use microdata, and nearly all have OpenGraph tags.
+ * Whatever is found here is authoritative for the plain facts — title,
+ * company, location, employment type, salary — so the AI parser doesn't
+ * have to rediscover them from flattened text (see applyStructuredJobData
+ * and lib/ai/job-parser.ts).
+ *
+ * Sources are tried in order of trust: JSON-LD, then microdata; each field
+ * keeps the first source that had it, and `fieldSources` records which one
+ * that was. OpenGraph is not a source: `og:site_name` is often the job board
+ * and `og:title` carries its suffix, so those only fill a title or company
+ * the AI parser left empty. Pure regex + JSON.parse, no DOM library — same as
+ * ./extractor.ts.
+ */
+
+import type { JobCompensation, JobVacancy } from '@/types';
+import { extractText } from './extractor';
+
+export type StructuredSource = 'json-ld' | 'microdata';
+
+export type StructuredField =
+  | 'title'
+  | 'company'
+  | 'location'
+  | 'employmentType'
+  | 'industry'
+  | 'compensation';
+
+export type StructuredVacancy = Partial<Pick<JobVacancy, StructuredField>>;
+
+export interface StructuredJobData {
+  vacancy: StructuredVacancy;
+  fieldSources: Partial<Record<StructuredField, StructuredSource>>;
+  /** Full posting text from the markup (JSON-LD `description`), tags stripped. */
+  descriptionText: string | null;
+  datePosted: string | null;
+  validThrough: string | null;
+  /** Page-level hints, never authoritative — see applyStructuredJobData. */
+  openGraph: { title: string | null; siteName: string | null };
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Plain text from a value that may be HTML, entity-encoded HTML or `{ name }`. */
+function text(value: unknown): string | null {
+  if (isObject(value)) return text(value.name ?? value['@value']);
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  let out = extractText(String(value), { minTextThreshold: 0 }).text;
+  // Descriptions are often HTML that was entity-encoded once more
+  if (/<[a-z][^>]*>/i.test(out)) out = extractText(out, { minTextThreshold: 0 }).text;
+  return out.trim() || null;
+}
+
+/**
+ * Amount from a number or a locale-formatted string: '3.500' and '3,500' are
+ * thousands, '3.500,50' and '3500,50' have a decimal comma. Anything that
+ * doesn't parse cleanly is skipped rather than guessed at.
+ */
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : parseAmount(String(value ?? ''));
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function parseAmount(raw: string): number {
+  const s = raw.replace(/\s|\u00a0|[€$£]|\b(?:EUR|USD|GBP)\b/gi, '');
+  if (/^\d{1,3}(?:\.\d{3})+(?:,\d+)?$/.test(s)) return Number(s.replace(/\./g, '').replace(',', '.'));
+  if (/^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(s)) return Number(s.replace(/,/g, ''));
+  if (/^\d+,\d{1,2}$/.test(s)) return Number(s.replace(',', '.'));
+  if (/^\d+(?:\.\d+)?$/.test(s)) return Number(s);
+  return NaN;
+}
+
+// ============ Field mapping ============
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: 'fulltime',
+  PART_TIME: 'parttime',
+  CONTRACTOR: 'freelance',
+  TEMPORARY: 'tijdelijk',
+  INTERN: 'stage',
+};
+
+function employmentType(value: unknown): string | undefined {
+  const types = asArray(value)
+    .flatMap((v) => String(v ?? '').split(/[,\s]+/))
+    .map((v) => EMPLOYMENT_TYPES[v.toUpperCase().replace(/[-\s]/g, '_')])
+    .filter((v): v is string => Boolean(v));
+  return types.length > 0 ? [...new Set(types)].join(', ') : undefined;
+}
+
+const SALARY_PERIODS: Record<string, JobCompensation['salaryPeriod']> = {
+  YEAR: 'yearly',
+  MONTH: 'monthly',
+  HOUR: 'hourly',
+};
+
+function compensation(baseSalary: unknown, benefits: unknown): JobCompensation | undefined {
+  const benefitList = asArray(benefits)
+    // Split before flattening — text() collapses the line breaks and list items
+    .flatMap((b) => (typeof b === 'string' ? b.split(/\n|•|;|<\/li>|&lt;\/li&gt;|<br\s*\/?>/i) : [b]))
+    .map((b) => text(b) ?? '')
+    .filter((b) => b.length > 0 && b.length <= 120)
+    .slice(0, 12);
+
+  const salary = asArray(baseSalary).find(isObject);
+  const value = salary && isObject(salary.value) ? salary.value : null;
+  const unit = String(value?.unitText ?? salary?.unitText ?? 'YEAR').toUpperCase();
+  const period = SALARY_PERIODS[unit];
+  const min = toNumber(value ? value.minValue ?? value.value : salary?.value);
+  const max = toNumber(value?.maxValue) ?? min;
+
+  if (!period || (!min && !max)) {
+    return benefitList.length > 0 ? { benefits: benefitList } : undefined;
+  }
+  return {
+    salaryMin: min,
+    salaryMax: max,
+    salaryCurrency: typeof salary?.currency === 'string' ? salary.currency.toUpperCase() : 'EUR',
+    salaryPeriod: period,
+    benefits: benefitList,
+  };
+}
+
+function formatPlace(place: unknown): string | null {
+  if (!isObject(place)) return text(place);
+  const address = isObject(place.address) ? place.address : typeof place.address === 'string' ? null : place;
+  if (!address) return text(place.address);
+  const parts = [address.addressLocality, address.addressRegion, address.addressCountry]
+    .map((p) => text(p))
+    .filter((p): p is string => Boolean(p));
+  return parts.length > 0 ? [...new Set(parts)].join(', ') : text(place.name);
+}
+
+function location(posting: JsonObject): string | undefined {
+  const places = asArray(posting.jobLocation)
+    .map(formatPlace)
+    .filter((p): p is string => Boolean(p));
+  const remote = String(posting.jobLocationType ?? '').toUpperCase() === 'TELECOMMUTE';
+  const unique = [...new Set(places)].slice(0, 3);
+  if (remote) unique.push('Remote');
+  return unique.length > 0 ? unique.join(' / ') : undefined;
+}
+
+// ============ JSON-LD ============
+
+const LD_JSON_RE = /<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+function isJobPosting(node: JsonObject): boolean {
+  return asArray(node['@type']).some((t) => String(t).toLowerCase() === 'jobposting');
+}
+
+function findJobPosting(node: unknown, depth = 0): JsonObject | null {
+  if (depth > 6) return null;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJobPosting(item, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!isObject(node)) return null;
+  if (isJobPosting(node)) return node;
+  return findJobPosting(node['@graph'] ?? node.mainEntity, depth + 1);
+}
+
+function parseJsonLd(html: string): JsonObject | null {
+  for (const match of html.matchAll(LD_JSON_RE)) {
+    const body = match[1]
+      .replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, '')
+      .replace(/^\s*<!--|-->\s*$/g, '')
+      // Raw newlines inside strings are common and invalid JSON
+      .replace(/[\u0000-\u001f]+/g, ' ');
+    try {
+      const found = findJobPosting(JSON.parse(body));
+      if (found) return found;
+    } catch {
+      // One broken block shouldn't hide a valid one further down
+    }
+  }
+  return null;
+}
+
+function fromJsonLd(posting: JsonObject): StructuredVacancy & { descriptionText: string | null; datePosted: string | null; validThrough: string | null } {
+  return {
+    title: text(posting.title) ?? undefined,
+    company: text(posting.hiringOrganization) ?? undefined,
+    location: location(posting),
+    employmentType: employmentType(posting.employmentType),
+    industry: text(posting.industry) ?? undefined,
+    compensation: compensation(posting.baseSalary ?? posting.estimatedSalary, posting.jobBenefits),
+    descriptionText: text(posting.description),
+    datePosted: typeof posting.datePosted === 'string' ? posting.datePosted : null,
+    validThrough: typeof posting.validThrough === 'string' ? posting.validThrough : null,
+  };
+}
+
+// ============ Microdata ============
+
+/** First `itemprop` value after `from`: a `content` attribute, else the element text. */
+function itemprop(html: string, prop: string, from = 0): string | null {
+  const re = new RegExp(
+    `<([a-z0-9]+)\\b[^>]*itemprop=["'][^"']*\\b${prop}\\b[^"']*["'][^>]*>`,
+    'gi',
+  );
+  re.lastIndex = from;
+  const match = re.exec(html);
+  if (!match) return null;
+  const content = match[0].match(/\bcontent=["']([^"']*)["']/i);
+  if (content) return text(content[1]);
+  const close = html.indexOf(`</${match[1]}`, re.lastIndex);
+  return close > 0 ? text(html.slice(re.lastIndex, close)) : null;
+}
+
+function fromMicrodata(html: string): StructuredVacancy | null {
+  const start = html.search(/itemtype=["']https?:\/\/schema\.org\/JobPosting["']/i);
+  if (start < 0) return null;
+  const scope = html.slice(start);
+  const org = scope.search(/itemprop=["'][^"']*\bhiringOrganization\b/i);
+  const place = [itemprop(scope, 'addressLocality'), itemprop(scope, 'addressRegion'), itemprop(scope, 'addressCountry')]
+    .filter((p): p is string => Boolean(p));
+  const min = itemprop(scope, 'minValue');
+  const unit = itemprop(scope, 'unitText');
+  return {
+    title: itemprop(scope, 'title') ?? undefined,
+    company: org >= 0 ? itemprop(scope, 'name', org) ?? undefined : undefined,
+    location: place.length > 0 ? [...new Set(place)].join(', ') : undefined,
+    employmentType: employmentType(itemprop(scope, 'employmentType')),
+    industry: itemprop(scope, 'industry') ?? undefined,
+    compensation: min
+      ? compensation(
+          {
+            currency: itemprop(scope, 'currency') ?? undefined,
+            value: { minValue: min, maxValue: itemprop(scope, 'maxValue'), unitText: unit ?? 'YEAR' },
+          },
+          null,
+        )
+      : undefined,
+  };
+}
+
+// ============ OpenGraph ============
+
+function meta(html: string, property: string): string | null {
+  const re = new RegExp(
+    `<meta\\b[^>]*(?:property|name)=["']${property}["'][^>]*>`,
+    'i',
+  );
+  const tag = html.match(re)?.[0];
+  const content = tag?.match(/\bcontent=["']([^"']*)["']/i);
+  return content ? text(content[1]) : null;
+}
+
+
+// ============ Public API ============
+
+const FIELDS: StructuredField[] = ['title', 'company', 'location', 'employmentType', 'industry', 'compensation'];
+
+export function extractStructuredJob(html: string): StructuredJobData | null {
+  const jsonLd = parseJsonLd(html);
+  const ld = jsonLd ? fromJsonLd(jsonLd) : null;
+  const sources: Array<[StructuredSource, StructuredVacancy | null]> = [
+    ['json-ld', ld],
+    ['microdata', fromMicrodata(html)],
+  ];
+
+  const vacancy: StructuredVacancy = {};
+  const fieldSources: StructuredJobData['fieldSources'] = {};
+  for (const [source, data] of sources) {
+    if (!data) continue;
+    for (const field of FIELDS) {
+      const value = data[field];
+      if (value === undefined || value === null || vacancy[field] !== undefined) continue;
+      (vacancy as Record<StructuredField, unknown>)[field] = value;
+      fieldSources[field] = source;
+    }
+  }
+
+  const descriptionText = ld?.descriptionText ?? null;
+  if (Object.keys(fieldSources).length === 0 && !descriptionText) return null;
+
+  return {
+    vacancy,
+    fieldSources,
+    descriptionText,
+    datePosted: ld?.datePosted ?? null,
+    validThrough: ld?.validThrough ?? null,
+    openGraph: { title: meta(html, 'og:title'), siteName: meta(html, 'og:site_name') },
+  };
+}
+
+/** Posting text for the AI parser when the page itself rendered too little. */
+export function structuredJobText(data: StructuredJobData): string {
+  const { title, company, location: place, employmentType: type } = data.vacancy;
+  return [title, [company, place, type].filter(Boolean).join(' · '), data.descriptionText]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Overlay structured facts on an AI-parsed vacancy. The markup wins for the
+ * fields it has; AI-only extras (benefits, notes) are kept. OpenGraph only
+ * fills a title or company the model left empty. Returns the fields that
+ * were taken from the markup (OpenGraph fills aren't counted).
+ */
+export function applyStructuredJobData(
+  vacancy: JobVacancy,
+  data: StructuredJobData,
+): { vacancy: JobVacancy; fields: StructuredField[] } {
+  const merged: JobVacancy = { ...vacancy };
+  const fields: StructuredField[] = [];
+  const s = data.vacancy;
+
+  if (s.title) { merged.title = s.title; fields.push('title'); }
+  if (s.company) { merged.company = s.company; fields.push('company'); }
+  if (s.location) { merged.location = s.location; fields.push('location'); }
+  if (s.employmentType) { merged.employmentType = s.employmentType; fields.push('employmentType'); }
+  if (s.industry) { merged.industry = s.industry; fields.push('industry'); }
+  if (s.compensation) {
+    merged.compensation = {
+      ...vacancy.compensation,
+      ...s.compensation,
+      benefits: s.compensation.benefits?.length ? s.compensation.benefits : vacancy.compensation?.benefits ?? [],
+    };
+    fields.push('compensation');
+  }
+  if (!merged.title?.trim() && data.openGraph.title) merged.title = data.openGraph.title;
+  if (!merged.company?.trim() && data.openGraph.siteName) merged.company = data.openGraph.siteName;
+  return { vacancy: merged, fields };
+}
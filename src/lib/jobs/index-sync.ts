@@ -0,0 +1,340 @@
+import { FieldValue, Timestamp, type WriteBatch } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import type { NormalizedJob } from './providers/types';
+import { getCompanies, getCompanyByKey, getProvider, type CompanyConfig } from './providers/registry';
+import { JOB_CACHE_TTL_MS, stripUndefined } from './cache';
+import {
+  JOBS_COLLECTION,
+  buildSearchTerms,
+  indexSourceFor,
+  jobContentHash,
+  postedAtMs,
+  type JobIndexStatus,
+} from './job-index';
+
+/**
+ * Background sync of the seeded ATS boards into the job index
+ * (./job-index.ts). Each run lists every board once and diffs it against
+ * what is stored:
+ *
+ * - new posting → written in full (`firstSeenAt`)
+ * - listing fields changed (content hash) or a closed posting came back →
+ *   rewritten and (re)opened
+ * - unchanged → only `lastSeenAt`/`expiresAt` are bumped
+ * - stored but no longer listed → `closed`
+ *
+ * Open postings whose `expiresAt` passed — their board kept failing, or it
+ * went empty (see below) — are swept to `expired`. Per-board state lives in
+ * /jobIndexSync/{provider:companyId}; boards synced longest ago go first so a
+ * run that hits its deadline still rotates through all of them.
+ *
+ * The scheduled runner lives at POST /api/jobs/index/sync.
+ */
+
+export const JOB_INDEX_SYNC_COLLECTION = 'jobIndexSync';
+
+/** Stop starting new boards after this; the route's maxDuration is 300s. */
+const DEFAULT_DEADLINE_MS = 240_000;
+const CONCURRENCY = 4;
+/** Safety cap for huge boards; the newest postings are kept. */
+const MAX_JOBS_PER_COMPANY = 1000;
+/** Firestore allows 500 writes per batch. */
+const BATCH_SIZE = 400;
+const EXPIRE_PAGE = 400;
+const MAX_EXPIRE_PAGES = 10;
+/** Sync outcomes kept per board for the admin error rate. */
+const HEALTH_WINDOW = 20;
+
+export interface CompanySyncResult {
+  source: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  closed: number;
+  /**
+   * The board returned no postings while we still had open ones. Treated as
+   * a provider hiccup: nothing is closed, expiry catches it if it persists.
+   */
+  skippedEmpty: boolean;
+  error: string | null;
+}
+
+export interface JobIndexSyncSummary {
+  companiesSynced: number;
+  companiesFailed: number;
+  companiesDeferred: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  closed: number;
+  expired: number;
+}
+
+type BatchOp = (batch: WriteBatch) => void;
+
+async function commitInChunks(ops: BatchOp[]): Promise<void> {
+  const db = getAdminDb();
+  for (let i = 0; i < ops.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const op of ops.slice(i, i + BATCH_SIZE)) op(batch);
+    await batch.commit();
+  }
+}
+
+/**
+ * Listings often leave out the description and apply questions (fetched on
+ * demand for the detail page). Don't let an empty listing value overwrite
+ * what the detail page already stored.
+ */
+function listingFields(job: NormalizedJob): Partial<NormalizedJob> {
+  const { description, applyQuestions, ...rest } = job;
+  return {
+    ...rest,
+    ...(description ? { description } : {}),
+    ...(applyQuestions.length > 0 ? { applyQuestions } : {}),
+  };
+}
+
+function newestFirst(jobs: NormalizedJob[]): NormalizedJob[] {
+  return [...jobs].sort((a, b) => {
+    const ta = a.postedAt ? Date.parse(a.postedAt) : 0;
+    const tb = b.postedAt ? Date.parse(b.postedAt) : 0;
+    return tb - ta;
+  });
+}
+
+export async function syncCompany(company: CompanyConfig, now = new Date()): Promise<CompanySyncResult> {
+  const db = getAdminDb();
+  const source = indexSourceFor(company.provider, company.companyId);
+  const result: CompanySyncResult = {
+    source,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    closed: 0,
+    skippedEmpty: false,
+    error: null,
+  };
+  const stateRef = db.collection(JOB_INDEX_SYNC_COLLECTION).doc(source);
+  const seenAt = Timestamp.fromDate(now);
+  const previousRuns = ((await stateRef.get()).data()?.recentRuns as boolean[] | undefined) ?? [];
+  const recentRuns = (ok: boolean) => [...previousRuns, ok].slice(-HEALTH_WINDOW);
+
+  const provider = getProvider(company.provider);
+  let listing: NormalizedJob[];
+  try {
+    if (!provider) throw new Error(`Unknown provider ${company.provider}`);
+    listing = newestFirst(await provider.listForCompany(company.companyId)).slice(0, MAX_JOBS_PER_COMPANY);
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+    await stateRef.set(
+      {
+        provider: company.provider,
+        companyId: company.companyId,
+        lastSyncedAt: seenAt,
+        lastError: result.error,
+        recentRuns: recentRuns(false),
+      },
+      { merge: true },
+    );
+    return result;
+  }
+
+  const storedSnap = await db
+    .collection(JOBS_COLLECTION)
+    .where('indexSource', '==', source)
+    .select('indexStatus', 'contentHash', 'firstSeenAt')
+    .get();
+  const stored = new Map(storedSnap.docs.map((doc) => [doc.id, doc.data()]));
+
+  const ops: BatchOp[] = [];
+  const expiresAt = Timestamp.fromMillis(now.getTime() + JOB_CACHE_TTL_MS);
+  const listed = new Set<string>();
+
+  for (const job of listing) {
+    if (listed.has(job.slug)) continue;
+    listed.add(job.slug);
+    const ref = db.collection(JOBS_COLLECTION).doc(job.slug);
+    const existing = stored.get(job.slug);
+    const contentHash = jobContentHash(job);
+
+    if (existing && existing.contentHash === contentHash && existing.indexStatus === 'open') {
+      result.unchanged++;
+      ops.push((batch) => batch.update(ref, { lastSeenAt: seenAt, expiresAt }));
+      continue;
+    }
+
+    const firstSeenAt = (existing?.firstSeenAt as Timestamp | undefined) ?? seenAt;
+    if (existing) result.updated++;
+    else result.added++;
+    const payload = stripUndefined({
+      ...listingFields(job),
+      fetchedAt: FieldValue.serverTimestamp(),
+      expiresAt,
+      indexSource: source,
+      indexStatus: 'open' satisfies JobIndexStatus,
+      contentHash,
+      postedAtMs: postedAtMs(job, firstSeenAt.toMillis()),
+      searchTerms: buildSearchTerms(job),
+      firstSeenAt,
+      lastSeenAt: seenAt,
+      closedAt: null,
+    });
+    ops.push((batch) => batch.set(ref, payload, { merge: true }));
+  }
+
+  const stillOpen = [...stored.entries()].filter(
+    ([slug, data]) => data.indexStatus === 'open' && !listed.has(slug),
+  );
+  if (listing.length === 0 && stillOpen.length > 0) {
+    result.skippedEmpty = true;
+  } else {
+    for (const [slug] of stillOpen) {
+      result.closed++;
+      const ref = db.collection(JOBS_COLLECTION).doc(slug);
+      ops.push((batch) => batch.update(ref, { indexStatus: 'closed' satisfies JobIndexStatus, closedAt: seenAt }));
+    }
+  }
+
+  await commitInChunks(ops);
+  await stateRef.set(
+    {
+      provider: company.provider,
+      companyId: company.companyId,
+      companyKey: company.companyKey,
+      name: company.name,
+      lastSyncedAt: seenAt,
+      lastSuccessAt: seenAt,
+      lastError: result.skippedEmpty ? 'Board returned no postings' : null,
+      openJobs: listed.size || stillOpen.length,
+      recentRuns: recentRuns(!result.skippedEmpty),
+      lastRun: {
+        added: result.added,
+        updated: result.updated,
+        unchanged: result.unchanged,
+        closed: result.closed,
+      },
+    },
+    { merge: true },
+  );
+  return result;
+}
+
+/** A board was removed or disabled in the registry: close its postings right away instead of waiting for expiry. */
+export async function closeIndexedJobs(source: string, now = new Date()): Promise<number> {
+  const db = getAdminDb();
+  const snap = await db
+    .collection(JOBS_COLLECTION)
+    .where('indexSource', '==', source)
+    .where('indexStatus', '==', 'open')
+    .get();
+  const closedAt = Timestamp.fromDate(now);
+  await commitInChunks(
+    snap.docs.map((doc) => (batch: WriteBatch) =>
+      batch.update(doc.ref, { indexStatus: 'closed' satisfies JobIndexStatus, closedAt }),
+    ),
+  );
+  return snap.size;
+}
+
+/** Open postings that weren't seen within the TTL → `expired`. */
+export async function expireStalePostings(now = new Date()): Promise<number> {
+  const db = getAdminDb();
+  const closedAt = Timestamp.fromDate(now);
+  let expired = 0;
+  for (let page = 0; page < MAX_EXPIRE_PAGES; page++) {
+    const snap = await db
+      .collection(JOBS_COLLECTION)
+      .where('indexStatus', '==', 'open')
+      .where('expiresAt', '<', closedAt)
+      .limit(EXPIRE_PAGE)
+      .get();
+    if (snap.empty) break;
+    await commitInChunks(
+      snap.docs.map((doc) => (batch: WriteBatch) =>
+        batch.update(doc.ref, { indexStatus: 'expired' satisfies JobIndexStatus, closedAt }),
+      ),
+    );
+    expired += snap.size;
+    if (snap.size < EXPIRE_PAGE) break;
+  }
+  return expired;
+}
+
+/** Boards never synced first, then the ones synced longest ago. */
+async function companiesBySyncAge(): Promise<CompanyConfig[]> {
+  const snap = await getAdminDb().collection(JOB_INDEX_SYNC_COLLECTION).get();
+  const lastSynced = new Map(
+    snap.docs.map((doc) => [doc.id, (doc.data().lastSyncedAt as Timestamp | undefined)?.toMillis() ?? 0]),
+  );
+  return [...(await getCompanies())].sort(
+    (a, b) =>
+      (lastSynced.get(indexSourceFor(a.provider, a.companyId)) ?? 0) -
+      (lastSynced.get(indexSourceFor(b.provider, b.companyId)) ?? 0),
+  );
+}
+
+export interface RunJobIndexSyncOptions {
+  /** Sync only this board (`CompanyConfig.companyKey`). */
+  companyKey?: string;
+  deadlineMs?: number;
+}
+
+export async function runJobIndexSync(options: RunJobIndexSyncOptions = {}): Promise<JobIndexSyncSummary> {
+  const started = Date.now();
+  const deadline = started + (options.deadlineMs ?? DEFAULT_DEADLINE_MS);
+  const summary: JobIndexSyncSummary = {
+    companiesSynced: 0,
+    companiesFailed: 0,
+    companiesDeferred: 0,
+    added: 0,
+    updated: 0,
+    unchanged: 0,
+    closed: 0,
+    expired: 0,
+  };
+
+  let queue: CompanyConfig[];
+  if (options.companyKey) {
+    const company = await getCompanyByKey(options.companyKey);
+    if (!company) throw new Error(`Unknown company ${options.companyKey}`);
+    queue = [company];
+  } else {
+    queue = await companiesBySyncAge();
+  }
+
+  const worker = async () => {
+    for (let company = queue.shift(); company; company = queue.shift()) {
+      if (Date.now() > deadline) {
+        summary.companiesDeferred++;
+        continue;
+      }
+      const result = await syncCompany(company).catch((err): CompanySyncResult => ({
+        source: indexSourceFor(company.provider, company.companyId),
+        added: 0,
+        updated: 0,
+        unchanged: 0,
+        closed: 0,
+        skippedEmpty: false,
+        error: err instanceof Error ? err.message : String(err),
+      }));
+      if (result.error) {
+        summary.companiesFailed++;
+        console.warn(`[jobs/index-sync] ${result.source} failed: ${result.error}`);
+        continue;
+      }
+      summary.companiesSynced++;
+      summary.added += result.added;
+      summary.updated += result.updated;
+      summary.unchanged += result.unchanged;
+      summary.closed += result.closed;
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+  // A single-board run is a manual refresh; leave the sweep to the schedule
+  if (!options.companyKey) {
+    summary.expired = await expireStalePostings();
+  }
+  return summary;
+}
@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import { FieldPath, Timestamp, type Query } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import { cachedJobFromFirestore } from './cache';
+import type { JobSourceProvider, NormalizedJob } from './providers/types';
+
+/**
+ * Persistent job index — the seeded ATS boards, ingested into the `jobs`
+ * collection by the background sync (./index-sync.ts) so a search is one
+ * Firestore query instead of a live call to every company's board.
+ *
+ * Indexed docs are ordinary job-cache docs (./cache.ts) plus the fields
+ * below; Adzuna/detail-page cache entries have no `indexStatus` and never
+ * show up in index queries.
+ *
+ * Free text is pre-filtered with a single `array-contains` on
+ * `searchTerms` (whole, accent-folded words) and the rest of the filtering
+ * happens in memory, so the only composite indexes needed are
+ * (indexStatus, postedAtMs) and (indexStatus, searchTerms, postedAtMs).
+ */
+
+export const JOBS_COLLECTION = 'jobs';
+
+export type JobIndexStatus = 'open' | 'closed' | 'expired';
+
+export interface JobIndexFields {
+  /** `<provider>:<companyId>` — the board this posting was synced from. */
+  indexSource: string;
+  indexStatus: JobIndexStatus;
+  /** Hash of the listing fields; a change means the posting was edited. */
+  contentHash: string;
+  /** `postedAt` as epoch ms, else first sighting — the sort/cursor key. */
+  postedAtMs: number;
+  searchTerms: string[];
+  firstSeenAt: Timestamp;
+  lastSeenAt: Timestamp;
+  closedAt: Timestamp | null;
+}
+
+/** Unique words stored per posting; keeps long descriptions well under the index-entry limit. */
+const MAX_SEARCH_TERMS = 1500;
+/** Docs read per round trip while scanning for matches. */
+const SCAN_BATCH = 100;
+/** Upper bound on docs read by a single query, however selective the filter. */
+const DEFAULT_MAX_SCAN = 1000;
+
+export function indexSourceFor(provider: JobSourceProvider, companyId: string): string {
+  return `${provider}:${companyId}`;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9+#]+/)
+    .filter((w) => w.length >= 2);
+}
+
+export function buildSearchTerms(job: NormalizedJob): string[] {
+  const text = [job.title, job.company, job.industry, job.location, job.employmentType, job.description]
+    .filter(Boolean)
+    .join(' ');
+  return [...new Set(tokenize(text))].slice(0, MAX_SEARCH_TERMS);
+}
+
+/** Listing fields only — details fetched later for the detail page don't count as an edit. */
+export function jobContentHash(job: NormalizedJob): string {
+  return createHash('sha1')
+    .update(JSON.stringify([
+      job.title,
+      job.company,
+      job.location,
+      job.description,
+      job.industry,
+      job.employmentType,
+      job.salaryMin,
+      job.salaryMax,
+      job.salaryCurrency,
+      job.url,
+      job.postedAt,
+    ]))
+    .digest('hex');
+}
+
+export function postedAtMs(job: NormalizedJob, firstSeen: number): number {
+  const parsed = job.postedAt ? Date.parse(job.postedAt) : NaN;
+  return Number.isFinite(parsed) ? parsed : firstSeen;
+}
+
+// ============ Cursors ============
+
+function encodeCursor(postedAt: number, slug: string): string {
+  return Buffer.from(JSON.stringify([postedAt, slug])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [number, string] | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'string') {
+      return [value[0], value[1]];
+    }
+  } catch { /* malformed cursor */ }
+  return null;
+}
+
+// ============ Query ============
+
+export interface JobIndexQuery {
+  /** Free text; its longest word becomes the Firestore pre-filter. */
+  q?: string;
+  location?: string;
+  /** Opaque cursor from a previous `nextCursor`. */
+  cursor?: string;
+  /** Matches to return. */
+  limit: number;
+  /** Stop after reading this many docs even if `limit` isn't reached. */
+  maxScan?: number;
+  /** In-memory filter for everything Firestore can't express. */
+  filter?: (job: NormalizedJob) => boolean;
+}
+
+export interface JobIndexPage {
+  jobs: NormalizedJob[];
+  /** Null once the index is exhausted for this query. */
+  nextCursor: string | null;
+}
+
+/**
+ * Open postings, newest first. Scans in batches until `limit` jobs pass
+ * `filter`, so the cursor always points at the last doc *read* — a follow-up
+ * page never re-reads or skips a posting.
+ */
+export async function queryJobIndex(query: JobIndexQuery): Promise<JobIndexPage> {
+  const maxScan = query.maxScan ?? DEFAULT_MAX_SCAN;
+  const prefilter = tokenize(query.q || query.location || '')
+    .sort((a, b) => b.length - a.length)[0];
+
+  let base: Query = getAdminDb()
+    .collection(JOBS_COLLECTION)
+    .where('indexStatus', '==', 'open');
+  if (prefilter) base = base.where('searchTerms', 'array-contains', prefilter);
+  base = base.orderBy('postedAtMs', 'desc').orderBy(FieldPath.documentId(), 'desc');
+
+  let position = query.cursor ? decodeCursor(query.cursor) : null;
+  const jobs: NormalizedJob[] = [];
+  let scanned = 0;
+
+  while (jobs.length < query.limit && scanned < maxScan) {
+    const batchSize = Math.min(SCAN_BATCH, maxScan - scanned);
+    const snap = await (position ? base.startAfter(...position) : base).limit(batchSize).get();
+    for (const doc of snap.docs) {
+      const data = doc.data() as Record<string, unknown>;
+      scanned++;
+      position = [Number(data.postedAtMs ?? 0), doc.id];
+      const job = cachedJobFromFirestore(doc.id, data);
+      if (!query.filter || query.filter(job)) jobs.push(job);
+      if (jobs.length >= query.limit) break;
+    }
+    if (snap.size < batchSize) {
+      // Exhausted — unless we stopped mid-batch because the page filled up
+      const stoppedEarly = jobs.length >= query.limit && position?.[1] !== snap.docs[snap.size - 1]?.id;
+      return { jobs, nextCursor: stoppedEarly && position ? encodeCursor(...position) : null };
+    }
+  }
+
+  return { jobs, nextCursor: position ? encodeCursor(...position) : null };
+}
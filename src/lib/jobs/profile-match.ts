@@ -0,0 +1,292 @@
+import type { ExperienceLevel, ParsedLinkedIn } from '@/types';
+import type { NormalizedJob } from './providers/types';
+
+/**
+ * Deterministic matching between vacancies and a saved profile. No AI call —
+ * it runs for every new match of every job alert and for every result of a
+ * profile-ranked search; the optional AI re-rank (lib/ai/job-reranker) only
+ * reorders the top of the list this produces.
+ *
+ * `scoreJobForProfile` is the cheap two-signal score used by alert digests:
+ * - role: best word overlap between the vacancy title and the profile's
+ *   headline or one of its three most recent job titles (40%)
+ * - skills: how many profile skills the vacancy mentions, saturating at
+ *   five (60%)
+ *
+ * `matchJobToProfile` adds seniority, location/remote and salary for the
+ * "best matches" ranking. Signals that cannot be judged (no salary
+ * expectation, no location anywhere) drop out of the weighted average
+ * instead of counting as a neutral guess.
+ */
+
+export interface ProfileMatch {
+  /** 0–100 */
+  score: number;
+  /** Profile skills found in the vacancy, in profile order (max 5). */
+  matchedSkills: string[];
+}
+
+export type MatchSignal = 'skills' | 'role' | 'seniority' | 'location' | 'salary';
+
+export interface JobProfileMatch extends ProfileMatch {
+  /** Per-signal score 0–1; absent when the signal could not be judged. */
+  signals: Partial<Record<MatchSignal, number>>;
+  candidateLevel: ExperienceLevel;
+  jobLevel: ExperienceLevel | null;
+  remote: boolean;
+  /** Set by the optional AI re-rank (lib/ai/job-reranker). */
+  aiScore?: number;
+  aiReason?: string;
+}
+
+/** What the search itself says about the candidate's wishes. */
+export interface MatchPreferences {
+  location?: string;
+  remote?: boolean;
+  /** Expected minimum annual salary. */
+  salaryMin?: number;
+}
+
+const ROLE_WEIGHT = 40;
+const SKILL_WEIGHT = 60;
+const SKILLS_FOR_FULL_SCORE = 5;
+
+const SIGNAL_WEIGHTS: Record<MatchSignal, number> = {
+  skills: 40,
+  role: 25,
+  seniority: 15,
+  location: 10,
+  salary: 10,
+};
+
+const LEVELS: ExperienceLevel[] = ['junior', 'medior', 'senior', 'lead', 'executive'];
+
+const STOPWORDS = new Set([
+  'and', 'the', 'for', 'with', 'van', 'voor', 'met', 'een', 'het', 'der', 'den',
+  'senior', 'junior', 'medior', 'lead', 'principal', 'staff', 'head',
+]);
+
+const REMOTE_PATTERN = /\b(remote|thuiswerk\w*|hybride|hybrid|work from home|wfh)\b/;
+
+function fold(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function words(text: string): string[] {
+  return fold(text)
+    .split(/[^a-z0-9+#]+/)
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function mentions(haystack: string, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (needle.length < 2) return false;
+  // Boundaries on letters/digits only, so "C++" and ".NET" still match.
+  return new RegExp(`(^|[^a-z0-9])${escapeRegExp(needle)}($|[^a-z0-9])`).test(haystack);
+}
+
+function roleOverlap(job: NormalizedJob, profile: ParsedLinkedIn): number {
+  const titleWords = new Set(words(job.title));
+  const roles = [profile.headline, ...profile.experience.slice(0, 3).map((e) => e.title)]
+    .filter((r): r is string => Boolean(r && r.trim()));
+
+  let best = 0;
+  for (const role of roles) {
+    const roleWords = words(role);
+    if (roleWords.length === 0) continue;
+    const overlap = roleWords.filter((w) => titleWords.has(w)).length / roleWords.length;
+    best = Math.max(best, overlap);
+  }
+  return best;
+}
+
+function skillsMentioned(job: NormalizedJob, profile: ParsedLinkedIn): string[] {
+  const haystack = [job.title, job.description, job.industry]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return profile.skills
+    .map((s) => s.name)
+    .filter((name) => mentions(haystack, name));
+}
+
+export function scoreJobForProfile(job: NormalizedJob, profile: ParsedLinkedIn): ProfileMatch {
+  const matchedSkills = skillsMentioned(job, profile);
+  const skillScore = Math.min(1, matchedSkills.length / SKILLS_FOR_FULL_SCORE);
+
+  return {
+    score: Math.round(roleOverlap(job, profile) * ROLE_WEIGHT + skillScore * SKILL_WEIGHT),
+    matchedSkills: matchedSkills.slice(0, 5),
+  };
+}
+
+// ============ Seniority ============
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, mrt: 2, apr: 3, may: 4, mei: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, okt: 9, nov: 10, dec: 11,
+};
+
+/** Free-form profile date ("mrt 2019", "2019-03", "2019") → fractional year. */
+function toYear(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const year = value.match(/\b(19|20)\d{2}\b/);
+  if (!year) return fallback;
+  const numeric = value.match(/\b(?:19|20)\d{2}[-/](\d{1,2})\b/)
+    ?? value.match(/\b(\d{1,2})[-/](?:19|20)\d{2}\b/);
+  let month = 0;
+  if (numeric) {
+    month = Number(numeric[1]) - 1;
+  } else {
+    const name = fold(value).match(/[a-z]{3}/);
+    if (name && name[0] in MONTHS) month = MONTHS[name[0]];
+  }
+  return Number(year[0]) + Math.min(11, Math.max(0, month)) / 12;
+}
+
+/** Years of work experience, counting overlapping roles once. */
+export function yearsOfExperience(profile: ParsedLinkedIn, now = new Date()): number {
+  const current = now.getFullYear() + now.getMonth() / 12;
+  const spans = profile.experience
+    .map((exp) => {
+      const start = toYear(exp.startDate, NaN);
+      const end = exp.isCurrentRole || !exp.endDate ? current : toYear(exp.endDate, current);
+      return [start, Math.max(start, end)] as const;
+    })
+    .filter(([start]) => Number.isFinite(start))
+    .sort((a, b) => a[0] - b[0]);
+
+  let total = 0;
+  let coveredUntil = -Infinity;
+  for (const [start, end] of spans) {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) total += end - from;
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+  return Math.round(total * 10) / 10;
+}
+
+const EXECUTIVE_TITLE = /\b(director|directeur|head of|hoofd|vp|vice president|chief|cto|cio|ceo|cfo|coo)\b/;
+const LEAD_TITLE = /\b(lead|principal|staff|architect|manager|teamleider|teamlead)\b/;
+const SENIOR_TITLE = /\b(senior|sr\.?)\b/;
+const MEDIOR_TITLE = /\b(medior|mid[- ]level)\b/;
+const JUNIOR_TITLE = /\b(junior|jr\.?|starter|trainee|graduate|stagiair|intern|werkstudent)\b/;
+
+function levelFromTitle(title: string): ExperienceLevel | null {
+  const t = fold(title);
+  if (EXECUTIVE_TITLE.test(t)) return 'executive';
+  if (LEAD_TITLE.test(t)) return 'lead';
+  if (SENIOR_TITLE.test(t)) return 'senior';
+  if (MEDIOR_TITLE.test(t)) return 'medior';
+  if (JUNIOR_TITLE.test(t)) return 'junior';
+  return null;
+}
+
+function levelFromYears(years: number): ExperienceLevel {
+  if (years < 2) return 'junior';
+  if (years < 5) return 'medior';
+  if (years < 10) return 'senior';
+  return 'lead';
+}
+
+export function candidateLevel(profile: ParsedLinkedIn, now = new Date()): ExperienceLevel {
+  const byYears = levelFromYears(yearsOfExperience(profile, now));
+  const recentTitle = profile.experience[0]?.title ?? profile.headline ?? '';
+  const byTitle = levelFromTitle(recentTitle);
+  // A "Lead" title after three years still means lead-level work; years
+  // alone never promote past lead.
+  if (byTitle && LEVELS.indexOf(byTitle) > LEVELS.indexOf(byYears)) return byTitle;
+  return byYears;
+}
+
+/** Level the vacancy asks for: the title first, else "5+ years" in the text. */
+export function jobLevel(job: NormalizedJob): ExperienceLevel | null {
+  const byTitle = levelFromTitle(job.title);
+  if (byTitle) return byTitle;
+  const years = fold(job.description).match(/(\d{1,2})\s*\+?\s*(?:years|year|jaar|jaren)/);
+  if (years) {
+    const n = Number(years[1]);
+    if (n > 0 && n < 30) return levelFromYears(n);
+  }
+  return null;
+}
+
+// ============ Location & salary ============
+
+export function isRemoteJob(job: NormalizedJob): boolean {
+  return REMOTE_PATTERN.test(fold([job.title, job.location, job.employmentType].filter(Boolean).join(' ')));
+}
+
+function locationScore(
+  job: NormalizedJob,
+  remote: boolean,
+  wanted: string | null,
+  wantsRemote: boolean,
+): number | undefined {
+  if (wantsRemote) return remote ? 1 : 0;
+  if (remote) return 1;
+  if (!wanted || !job.location) return undefined;
+  const jobPlace = new Set(words(job.location));
+  const parts = wanted.split(',').map((p) => words(p)).filter((p) => p.length > 0);
+  if (parts.length === 0) return undefined;
+  // "Utrecht, Netherlands": the city is the first part, the country the last
+  if (parts[0].some((w) => jobPlace.has(w))) return 1;
+  if (parts.length > 1 && parts[parts.length - 1].some((w) => jobPlace.has(w))) return 0.5;
+  return 0;
+}
+
+function salaryScore(job: NormalizedJob, expected: number | undefined): number | undefined {
+  if (!expected || expected <= 0) return undefined;
+  const offered = job.salaryMax ?? job.salaryMin;
+  if (offered === null) return undefined;
+  if (offered >= expected) return 1;
+  return Math.max(0, 1 - (expected - offered) / expected * 2);
+}
+
+export function matchJobToProfile(
+  job: NormalizedJob,
+  profile: ParsedLinkedIn,
+  preferences: MatchPreferences = {},
+  now = new Date(),
+): JobProfileMatch {
+  const matchedSkills = skillsMentioned(job, profile);
+  const candidate = candidateLevel(profile, now);
+  const wanted = jobLevel(job);
+  const remote = isRemoteJob(job);
+
+  const signals: Partial<Record<MatchSignal, number>> = {
+    skills: Math.min(1, matchedSkills.length / SKILLS_FOR_FULL_SCORE),
+    role: roleOverlap(job, profile),
+  };
+  if (wanted) {
+    const distance = Math.abs(LEVELS.indexOf(wanted) - LEVELS.indexOf(candidate));
+    signals.seniority = distance === 0 ? 1 : distance === 1 ? 0.5 : 0;
+  }
+  const location = locationScore(job, remote, preferences.location || profile.location, Boolean(preferences.remote));
+  if (location !== undefined) signals.location = location;
+  const salary = salaryScore(job, preferences.salaryMin);
+  if (salary !== undefined) signals.salary = salary;
+
+  let weighted = 0;
+  let weights = 0;
+  for (const [signal, value] of Object.entries(signals) as Array<[MatchSignal, number]>) {
+    weighted += value * SIGNAL_WEIGHTS[signal];
+    weights += SIGNAL_WEIGHTS[signal];
+  }
+
+  return {
+    score: weights > 0 ? Math.round((weighted / weights) * 100) : 0,
+    matchedSkills: matchedSkills.slice(0, 5),
+    signals,
+    candidateLevel: candidate,
+    jobLevel: wanted,
+    remote,
+  };
+}
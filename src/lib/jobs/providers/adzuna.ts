@@ -1,5 +1,5 @@
 import type { ApplyResult, JobProvider, NormalizedJob } from './types';
-import { slugifyForUrl } from './types';
+import { externalApplyOnly, slugifyForUrl } from './types';
 
 const ADZUNA_BASE = 'https://api.adzuna.com/v1/api/jobs';
 
@@ -106,6 +106,7 @@ export async function adzunaSearch(
 export class AdzunaProvider implements JobProvider {
   readonly id = 'adzuna' as const;
   readonly code = 'az';
+  readonly supportsApply = false;
 
   async listForCompany(): Promise<NormalizedJob[]> {
     // Adzuna is not per-company; listing is done via adzunaSearch() in search.ts.
@@ -124,15 +125,7 @@ export class AdzunaProvider implements JobProvider {
   }
 
   async apply(): Promise<ApplyResult> {
-    return {
-      ok: false,
-      errors: [
-        {
-          message:
-            'Adzuna-vacatures ondersteunen geen 1-klik solliciteren. Gebruik de externe link.',
-        },
-      ],
-    };
+    return externalApplyOnly('Adzuna');
   }
 }
 
@@ -0,0 +1,135 @@
+import type { ApplyResult, JobProvider, NormalizedJob } from './types';
+import { buildSlug, externalApplyOnly } from './types';
+
+interface AshbyCompensationComponent {
+  compensationType?: string; // 'Salary' | 'EquityPercentage' | 'Bonus' | ...
+  interval?: string; // '1 YEAR' | '1 MONTH' | '1 HOUR'
+  currencyCode?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+interface AshbyJob {
+  id: string; // uuid
+  title: string;
+  department?: string;
+  team?: string;
+  employmentType?: string; // 'FullTime' | 'PartTime' | 'Intern' | 'Contract' | 'Temporary'
+  location?: string;
+  isRemote?: boolean;
+  isListed?: boolean;
+  publishedAt?: string;
+  descriptionPlain?: string;
+  descriptionHtml?: string;
+  jobUrl?: string;
+  applyUrl?: string;
+  compensation?: {
+    summaryComponents?: AshbyCompensationComponent[];
+  };
+}
+
+interface AshbyJobBoardResponse {
+  jobs?: AshbyJob[];
+}
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FullTime: 'Full-time',
+  PartTime: 'Part-time',
+  Intern: 'Internship',
+  Contract: 'Contract',
+  Temporary: 'Temporary',
+};
+
+function stripTags(input: string | undefined): string {
+  if (!input) return '';
+  return input.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function yearlySalary(job: AshbyJob): Pick<NormalizedJob, 'salaryMin' | 'salaryMax' | 'salaryCurrency'> {
+  const salary = job.compensation?.summaryComponents?.find(
+    (c) => c.compensationType === 'Salary' && c.interval === '1 YEAR',
+  );
+  return {
+    salaryMin: salary?.minValue ?? null,
+    salaryMax: salary?.maxValue ?? null,
+    salaryCurrency: salary?.currencyCode ?? null,
+  };
+}
+
+function mapJob(
+  companyKey: string,
+  board: string,
+  companyName: string,
+  raw: AshbyJob,
+): NormalizedJob {
+  const location = raw.isRemote && raw.location && !/remote/i.test(raw.location)
+    ? `${raw.location}, Remote`
+    : raw.location ?? null;
+  return {
+    sourceProvider: 'ashby',
+    sourceId: raw.id,
+    providerCompanyKey: companyKey,
+    providerCompanyId: board,
+    slug: buildSlug('ab', companyKey, raw.id, raw.title),
+    title: raw.title,
+    company: companyName,
+    location,
+    description: raw.descriptionPlain?.trim() || stripTags(raw.descriptionHtml),
+    industry: raw.department ?? raw.team ?? null,
+    employmentType: raw.employmentType
+      ? EMPLOYMENT_TYPES[raw.employmentType] ?? raw.employmentType
+      : null,
+    ...yearlySalary(raw),
+    url: raw.jobUrl ?? `https://jobs.ashbyhq.com/${board}/${raw.id}`,
+    postedAt: raw.publishedAt ?? null,
+    supportsInAppApply: false,
+    applyQuestions: [],
+  };
+}
+
+/** Slugs carry the uuid without dashes (see buildSlug). */
+function sameId(a: string, b: string): boolean {
+  return a.replace(/-/g, '').toLowerCase() === b.replace(/-/g, '').toLowerCase();
+}
+
+/**
+ * Ashby public job boards (posting API). There is no single-job endpoint, so
+ * fetchJob scans the board. Submitting applications needs the company's API
+ * key — Ashby jobs link out.
+ */
+export class AshbyProvider implements JobProvider {
+  readonly id = 'ashby' as const;
+  readonly code = 'ab';
+  readonly supportsApply = false;
+
+  constructor(private companyNames: Record<string, string> = {}) {}
+
+  setCompanyName(companyKey: string, companyName: string) {
+    this.companyNames[companyKey] = companyName;
+  }
+
+  async listForCompany(board: string): Promise<NormalizedJob[]> {
+    const url = `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(board)}?includeCompensation=true`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (!res.ok) {
+      throw new Error(`Ashby list failed for ${board}: ${res.status}`);
+    }
+    const data = (await res.json()) as AshbyJobBoardResponse;
+    const companyKey = board.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const companyName = this.companyNames[companyKey] || board;
+    return (data.jobs ?? [])
+      .filter((job) => job.isListed !== false)
+      .map((job) => mapJob(companyKey, board, companyName, job));
+  }
+
+  async fetchJob(board: string, jobId: string): Promise<NormalizedJob | null> {
+    const jobs = await this.listForCompany(board);
+    return jobs.find((job) => sameId(job.sourceId, jobId)) ?? null;
+  }
+
+  async apply(): Promise<ApplyResult> {
+    return externalApplyOnly('Ashby');
+  }
+}
+
+export const ashbyProvider = new AshbyProvider();
@@ -134,6 +134,7 @@ function mapJob(
 export class GreenhouseProvider implements JobProvider {
   readonly id = 'greenhouse' as const;
   readonly code = 'gh';
+  readonly supportsApply = true;
 
   constructor(private companyNames: Record<string, string> = {}) {}
 
@@ -120,6 +120,7 @@ function mapPosting(
 export class LeverProvider implements JobProvider {
   readonly id = 'lever' as const;
   readonly code = 'lv';
+  readonly supportsApply = true;
 
   constructor(private companyNames: Record<string, string> = {}) {}
 
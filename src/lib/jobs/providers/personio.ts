@@ -0,0 +1,113 @@
+import type { ApplyResult, JobProvider, NormalizedJob } from './types';
+import { buildSlug, externalApplyOnly } from './types';
+import { decodeXmlEntities, xmlBlocks, xmlText } from './xml';
+
+/**
+ * Personio career sites publish every open position as one XML feed at
+ * `https://<company>.jobs.personio.de/xml`:
+ *
+ *   <workzag-jobs>
+ *     <position>
+ *       <id>123456</id> <name>…</name> <office>Berlin</office>
+ *       <department>…</department> <employmentType>permanent</employmentType>
+ *       <schedule>full-time</schedule> <createdAt>2025-01-01T…</createdAt>
+ *       <jobDescriptions>
+ *         <jobDescription><name>Your tasks</name><value><![CDATA[<p>…]]></value></jobDescription>
+ *       </jobDescriptions>
+ *     </position>
+ *   </workzag-jobs>
+ *
+ * There is no single-position endpoint, so fetchJob scans the feed. The
+ * application API needs a company token — Personio jobs link out.
+ */
+
+function stripTags(input: string | undefined): string {
+  if (!input) return '';
+  return input.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function buildDescription(position: string): string {
+  return xmlBlocks(position, 'jobDescription')
+    .map((block) => {
+      const heading = xmlText(block, 'name');
+      const body = stripTags(decodeXmlEntities(xmlText(block, 'value') ?? ''));
+      return heading ? `${heading}\n${body}` : body;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function employmentTypeOf(position: string): string | null {
+  // `schedule` (full-time / part-time) is what users filter on; the contract
+  // kind (permanent / intern / freelance) is secondary.
+  const parts = [xmlText(position, 'schedule'), xmlText(position, 'employmentType')].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function mapPosition(
+  companyKey: string,
+  company: string,
+  companyName: string,
+  position: string,
+): NormalizedJob | null {
+  const id = xmlText(position, 'id');
+  const title = xmlText(position, 'name');
+  if (!id || !title) return null;
+  return {
+    sourceProvider: 'personio',
+    sourceId: id,
+    providerCompanyKey: companyKey,
+    providerCompanyId: company,
+    slug: buildSlug('pe', companyKey, id, title),
+    title,
+    company: xmlText(position, 'subcompany') ?? companyName,
+    location: xmlText(position, 'office'),
+    description: buildDescription(position),
+    industry: xmlText(position, 'department') ?? xmlText(position, 'occupationCategory'),
+    employmentType: employmentTypeOf(position),
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    url: `https://${company}.jobs.personio.de/job/${id}`,
+    postedAt: xmlText(position, 'createdAt'),
+    supportsInAppApply: false,
+    applyQuestions: [],
+  };
+}
+
+export class PersonioProvider implements JobProvider {
+  readonly id = 'personio' as const;
+  readonly code = 'pe';
+  readonly supportsApply = false;
+
+  constructor(private companyNames: Record<string, string> = {}) {}
+
+  setCompanyName(companyKey: string, companyName: string) {
+    this.companyNames[companyKey] = companyName;
+  }
+
+  async listForCompany(company: string): Promise<NormalizedJob[]> {
+    const url = `https://${company}.jobs.personio.de/xml`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (!res.ok) {
+      throw new Error(`Personio list failed for ${company}: ${res.status}`);
+    }
+    const xml = await res.text();
+    const companyKey = company.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const companyName = this.companyNames[companyKey] || company;
+    return xmlBlocks(xml, 'position')
+      .map((position) => mapPosition(companyKey, company, companyName, position))
+      .filter((job): job is NormalizedJob => job !== null);
+  }
+
+  async fetchJob(company: string, positionId: string): Promise<NormalizedJob | null> {
+    const jobs = await this.listForCompany(company);
+    return jobs.find((job) => job.sourceId === positionId) ?? null;
+  }
+
+  async apply(): Promise<ApplyResult> {
+    return externalApplyOnly('Personio');
+  }
+}
+
+export const personioProvider = new PersonioProvider();
@@ -101,6 +101,7 @@ function mapOffer(
 export class RecruiteeProvider implements JobProvider {
   readonly id = 'recruitee' as const;
   readonly code = 'rt';
+  readonly supportsApply = true;
 
   constructor(private companyNames: Record<string, string> = {}) {}
 
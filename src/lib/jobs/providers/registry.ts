@@ -1,12 +1,22 @@
+import { getAdminDb } from '@/lib/firebase/admin';
 import type { JobSourceProvider, JobProvider } from './types';
 import { recruiteeProvider } from './recruitee';
 import { greenhouseProvider } from './greenhouse';
 import { leverProvider } from './lever';
+import { workableProvider } from './workable';
+import { ashbyProvider } from './ashby';
+import { smartRecruitersProvider } from './smartrecruiters';
+import { personioProvider } from './personio';
+import { teamtailorProvider } from './teamtailor';
 import { adzunaProvider } from './adzuna';
 
 export interface CompanyConfig {
   provider: JobSourceProvider;
-  /** Provider-specific identifier (Recruitee subdomain, Greenhouse board_token, Lever site name). */
+  /**
+   * Provider-specific identifier (Recruitee subdomain, Greenhouse board_token,
+   * Lever site name, Workable account, Ashby job board name, SmartRecruiters
+   * company identifier, Personio/Teamtailor subdomain).
+   */
   companyId: string;
   /** Lowercase alphanumeric short key used in URL slugs (`/jobs/<title>-gh-<companyKey>-<jobId>`). */
   companyKey: string;
@@ -17,8 +27,10 @@ export interface CompanyConfig {
 /**
  * Default seed list of companies whose vacancies we aggregate.
  *
- * Override in production by setting CVEETJE_COMPANIES_JSON to a JSON array of
- * CompanyConfig objects, e.g.:
+ * The live list is the Firestore registry (`jobCompanies/{companyKey}`),
+ * managed from /admin/vacaturebronnen (see ../company-registry.ts). Until the
+ * first company is saved there, this seed is used — or CVEETJE_COMPANIES_JSON,
+ * a JSON array of CompanyConfig objects, e.g.:
  *   CVEETJE_COMPANIES_JSON='[{"provider":"greenhouse","companyId":"adyen","companyKey":"adyen","name":"Adyen"}]'
  *
  * How to find the right `companyId`:
@@ -31,9 +43,23 @@ export interface CompanyConfig {
  *   Test with `curl https://<subdomain>.recruitee.com/api/offers/`.
  * - **Lever**: visit `https://jobs.lever.co/<site>` — `<site>` is the companyId.
  *   Test with `curl https://api.lever.co/v0/postings/<site>?mode=json`.
+ * - **Workable**: `https://apply.workable.com/<account>` — test with
+ *   `curl https://apply.workable.com/api/v1/widget/accounts/<account>`.
+ * - **Ashby**: `https://jobs.ashbyhq.com/<board>` — test with
+ *   `curl https://api.ashbyhq.com/posting-api/job-board/<board>`.
+ * - **SmartRecruiters**: `https://jobs.smartrecruiters.com/<Company>` — test with
+ *   `curl https://api.smartrecruiters.com/v1/companies/<Company>/postings`.
+ * - **Personio**: `https://<subdomain>.jobs.personio.de` — test with
+ *   `curl https://<subdomain>.jobs.personio.de/xml`.
+ * - **Teamtailor**: `https://<subdomain>.teamtailor.com` — test with
+ *   `curl https://<subdomain>.teamtailor.com/jobs.rss`.
  *
- * Failed companies are skipped at search time (logged as warnings), so a stale
- * entry won't break the page — it just contributes zero results.
+ * Workable, Ashby, SmartRecruiters, Personio and Teamtailor are read-only
+ * (no public apply API): their jobs show the full description and link out.
+ *
+ * Failed companies are skipped by the index sync (logged, and visible as
+ * health on the admin page), so a stale entry won't break search — it just
+ * contributes zero results.
  */
 const DEFAULT_SEED: CompanyConfig[] = [
   // Greenhouse — large public boards (international, plus NL-active)
@@ -57,50 +83,102 @@ const DEFAULT_SEED: CompanyConfig[] = [
   { provider: 'recruitee', companyId: 'bynder', companyKey: 'bynder', name: 'Bynder' },
 ];
 
-function normalizeKey(key: string): string {
+export const COMPANY_REGISTRY_COLLECTION = 'jobCompanies';
+const REGISTRY_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export function normalizeCompanyKey(key: string): string {
   return key.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
 
-let cachedCompanies: CompanyConfig[] | null = null;
+let fallbackCompanies: CompanyConfig[] | null = null;
 
-export function getCompanies(): CompanyConfig[] {
-  if (cachedCompanies) return cachedCompanies;
+/** Env override or the built-in seed — used while the Firestore registry is empty. */
+export function getFallbackCompanies(): CompanyConfig[] {
+  if (fallbackCompanies) return fallbackCompanies;
 
   const raw = process.env.CVEETJE_COMPANIES_JSON;
   if (raw) {
     try {
       const parsed = JSON.parse(raw) as Array<Partial<CompanyConfig>>;
-      cachedCompanies = parsed
+      fallbackCompanies = parsed
         .filter(
           (c): c is CompanyConfig =>
             !!c.provider && !!c.companyId && !!c.name,
         )
         .map((c) => ({
           ...c,
-          companyKey: normalizeKey(c.companyKey || c.companyId),
+          companyKey: normalizeCompanyKey(c.companyKey || c.companyId),
         }));
-      if (cachedCompanies.length > 0) return cachedCompanies;
+      if (fallbackCompanies.length > 0) return fallbackCompanies;
     } catch (err) {
       console.warn('[jobs/registry] Failed to parse CVEETJE_COMPANIES_JSON:', err);
     }
   }
 
-  cachedCompanies = DEFAULT_SEED.map((c) => ({
+  fallbackCompanies = DEFAULT_SEED.map((c) => ({
     ...c,
-    companyKey: normalizeKey(c.companyKey),
+    companyKey: normalizeCompanyKey(c.companyKey),
   }));
-  return cachedCompanies;
+  return fallbackCompanies;
+}
+
+let cachedCompanies: { data: CompanyConfig[]; expiresAt: number } | null = null;
+
+/**
+ * Enabled companies from the Firestore registry, cached in-process for five
+ * minutes; admin writes invalidate the cache. Falls back to
+ * getFallbackCompanies() while the registry is empty or unreadable.
+ */
+export async function getCompanies(): Promise<CompanyConfig[]> {
+  const now = Date.now();
+  if (cachedCompanies && cachedCompanies.expiresAt > now) return cachedCompanies.data;
+
+  let data: CompanyConfig[];
+  try {
+    const snap = await getAdminDb().collection(COMPANY_REGISTRY_COLLECTION).get();
+    data = snap.empty
+      ? getFallbackCompanies()
+      : snap.docs
+          .map((doc) => doc.data())
+          .filter((c) => c.enabled !== false && c.provider && c.companyId)
+          .map((c) => ({
+            provider: c.provider as JobSourceProvider,
+            companyId: String(c.companyId),
+            companyKey: normalizeCompanyKey(String(c.companyKey || c.companyId)),
+            name: String(c.name || c.companyId),
+          }));
+  } catch (err) {
+    console.warn('[jobs/registry] Failed to read company registry:', err);
+    // Don't cache the fallback for long — retry on the next minute
+    data = getFallbackCompanies();
+    cachedCompanies = { data, expiresAt: now + 60 * 1000 };
+    hydrateProviderCompanyNames(data);
+    return data;
+  }
+
+  cachedCompanies = { data, expiresAt: now + REGISTRY_CACHE_TTL_MS };
+  hydrateProviderCompanyNames(data);
+  return data;
+}
+
+export function invalidateCompanyCache() {
+  cachedCompanies = null;
 }
 
-export function getCompanyByKey(companyKey: string): CompanyConfig | null {
-  const normalized = normalizeKey(companyKey);
-  return getCompanies().find((c) => c.companyKey === normalized) ?? null;
+export async function getCompanyByKey(companyKey: string): Promise<CompanyConfig | null> {
+  const normalized = normalizeCompanyKey(companyKey);
+  return (await getCompanies()).find((c) => c.companyKey === normalized) ?? null;
 }
 
 export function getProvider(id: JobSourceProvider): JobProvider | null {
   if (id === 'recruitee') return recruiteeProvider;
   if (id === 'greenhouse') return greenhouseProvider;
   if (id === 'lever') return leverProvider;
+  if (id === 'workable') return workableProvider;
+  if (id === 'ashby') return ashbyProvider;
+  if (id === 'smartrecruiters') return smartRecruitersProvider;
+  if (id === 'personio') return personioProvider;
+  if (id === 'teamtailor') return teamtailorProvider;
   if (id === 'adzuna') return adzunaProvider;
   return null;
 }
@@ -109,12 +187,17 @@ export function getProviderByCode(code: string): JobProvider | null {
   if (code === 'rt') return recruiteeProvider;
   if (code === 'gh') return greenhouseProvider;
   if (code === 'lv') return leverProvider;
+  if (code === 'wk') return workableProvider;
+  if (code === 'ab') return ashbyProvider;
+  if (code === 'sr') return smartRecruitersProvider;
+  if (code === 'pe') return personioProvider;
+  if (code === 'tt') return teamtailorProvider;
   if (code === 'az') return adzunaProvider;
   return null;
 }
 
-export function hydrateProviderCompanyNames(): void {
-  for (const company of getCompanies()) {
+export function hydrateProviderCompanyNames(companies: CompanyConfig[] = getFallbackCompanies()): void {
+  for (const company of companies) {
     const provider = getProvider(company.provider);
     if (!provider) continue;
     if ('setCompanyName' in provider && typeof provider.setCompanyName === 'function') {
@@ -0,0 +1,162 @@
+import type { ApplyResult, JobProvider, NormalizedJob } from './types';
+import { buildSlug, externalApplyOnly } from './types';
+
+interface SmartRecruitersLabel {
+  id?: string;
+  label?: string;
+}
+
+interface SmartRecruitersPosting {
+  id: string; // numeric string
+  name: string;
+  releasedDate?: string;
+  company?: { identifier?: string; name?: string };
+  location?: {
+    city?: string;
+    region?: string;
+    country?: string;
+    remote?: boolean;
+  };
+  industry?: SmartRecruitersLabel;
+  department?: SmartRecruitersLabel;
+  function?: SmartRecruitersLabel;
+  typeOfEmployment?: SmartRecruitersLabel;
+  // Only on the single-posting endpoint:
+  postingUrl?: string;
+  applyUrl?: string;
+  jobAd?: {
+    sections?: Record<string, { title?: string; text?: string } | undefined>;
+  };
+}
+
+interface SmartRecruitersListResponse {
+  content?: SmartRecruitersPosting[];
+  totalFound?: number;
+}
+
+/** Page size of the posting API (its maximum). One page is plenty per company. */
+const PAGE_SIZE = 100;
+
+const JOB_AD_SECTIONS = ['jobDescription', 'qualifications', 'additionalInformation', 'companyDescription'];
+
+function stripTags(input: string | undefined): string {
+  if (!input) return '';
+  return input.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function decodeHtml(input: string): string {
+  return input
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ');
+}
+
+function buildDescription(posting: SmartRecruitersPosting): string {
+  const sections = posting.jobAd?.sections ?? {};
+  const parts: string[] = [];
+  for (const key of JOB_AD_SECTIONS) {
+    const section = sections[key];
+    if (!section?.text) continue;
+    const text = stripTags(decodeHtml(section.text));
+    parts.push(section.title ? `${section.title}\n${text}` : text);
+  }
+  return parts.join('\n\n');
+}
+
+function mapPosting(
+  companyKey: string,
+  company: string,
+  companyName: string,
+  posting: SmartRecruitersPosting,
+): NormalizedJob {
+  const location = [posting.location?.city, posting.location?.region, posting.location?.country]
+    .filter(Boolean)
+    .join(', ');
+  return {
+    sourceProvider: 'smartrecruiters',
+    sourceId: posting.id,
+    providerCompanyKey: companyKey,
+    providerCompanyId: company,
+    slug: buildSlug('sr', companyKey, posting.id, posting.name),
+    title: posting.name,
+    company: companyName,
+    location: posting.location?.remote
+      ? [location, 'Remote'].filter(Boolean).join(', ')
+      : location || null,
+    description: buildDescription(posting),
+    industry: posting.department?.label ?? posting.function?.label ?? posting.industry?.label ?? null,
+    employmentType: posting.typeOfEmployment?.label ?? null,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    url: posting.postingUrl ?? `https://jobs.smartrecruiters.com/${company}/${posting.id}`,
+    postedAt: posting.releasedDate ?? null,
+    supportsInAppApply: false,
+    applyQuestions: [],
+  };
+}
+
+/**
+ * SmartRecruiters public Posting API. The listing omits the job ad, which is
+ * fetched per posting for the detail page. The Application API is
+ * partner-only, so SmartRecruiters jobs link out.
+ */
+export class SmartRecruitersProvider implements JobProvider {
+  readonly id = 'smartrecruiters' as const;
+  readonly code = 'sr';
+  readonly supportsApply = false;
+
+  constructor(private companyNames: Record<string, string> = {}) {}
+
+  setCompanyName(companyKey: string, companyName: string) {
+    this.companyNames[companyKey] = companyName;
+  }
+
+  private keyFor(company: string): string {
+    return company.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  async listForCompany(company: string): Promise<NormalizedJob[]> {
+    const url = `https://api.smartrecruiters.com/v1/companies/${company}/postings?limit=${PAGE_SIZE}`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (!res.ok) {
+      throw new Error(`SmartRecruiters list failed for ${company}: ${res.status}`);
+    }
+    const data = (await res.json()) as SmartRecruitersListResponse;
+    const companyKey = this.keyFor(company);
+    return (data.content ?? []).map((posting) =>
+      mapPosting(
+        companyKey,
+        company,
+        this.companyNames[companyKey] || posting.company?.name || company,
+        posting,
+      ),
+    );
+  }
+
+  async fetchJob(company: string, postingId: string): Promise<NormalizedJob | null> {
+    const url = `https://api.smartrecruiters.com/v1/companies/${company}/postings/${postingId}`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`SmartRecruiters fetch failed: ${res.status}`);
+    }
+    const posting = (await res.json()) as SmartRecruitersPosting;
+    const companyKey = this.keyFor(company);
+    return mapPosting(
+      companyKey,
+      company,
+      this.companyNames[companyKey] || posting.company?.name || company,
+      posting,
+    );
+  }
+
+  async apply(): Promise<ApplyResult> {
+    return externalApplyOnly('SmartRecruiters');
+  }
+}
+
+export const smartRecruitersProvider = new SmartRecruitersProvider();
@@ -0,0 +1,107 @@
+import type { ApplyResult, JobProvider, NormalizedJob } from './types';
+import { buildSlug, externalApplyOnly } from './types';
+import { decodeXmlEntities, xmlBlocks, xmlText } from './xml';
+
+/**
+ * Teamtailor career sites. The JSON API needs a company key, but every
+ * career site serves a public RSS feed at `https://<company>.teamtailor.com/jobs.rss`
+ * with the full description per item, plus Teamtailor extensions for
+ * locations and department:
+ *
+ *   <item>
+ *     <title>…</title> <link>https://acme.teamtailor.com/jobs/123456-backend-dev</link>
+ *     <description><![CDATA[<p>…]]></description> <pubDate>…</pubDate>
+ *     <tt:department>Engineering</tt:department>
+ *     <tt:locations><tt:location><tt:city>Amsterdam</tt:city>…</tt:location></tt:locations>
+ *     <remoteStatus>hybrid</remoteStatus>
+ *   </item>
+ *
+ * fetchJob scans the feed. Applications need the company key — Teamtailor
+ * jobs link out.
+ */
+
+function stripTags(input: string | undefined): string {
+  if (!input) return '';
+  return input.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function locationOf(item: string): string | null {
+  const cities = xmlBlocks(item, 'tt:location')
+    .map((loc) => xmlText(loc, 'tt:city') ?? xmlText(loc, 'tt:name'))
+    .filter((city): city is string => Boolean(city));
+  const remote = xmlText(item, 'remoteStatus');
+  const parts = [...new Set(cities)];
+  if (remote && remote !== 'none') parts.push(remote === 'fully' ? 'Remote' : 'Hybrid');
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function mapItem(
+  companyKey: string,
+  company: string,
+  companyName: string,
+  item: string,
+): NormalizedJob | null {
+  const title = xmlText(item, 'title');
+  const link = xmlText(item, 'link');
+  const id = link?.match(/\/jobs\/(\d+)/)?.[1];
+  if (!title || !link || !id) return null;
+  const pubDate = xmlText(item, 'pubDate');
+  const posted = pubDate ? new Date(pubDate) : null;
+  return {
+    sourceProvider: 'teamtailor',
+    sourceId: id,
+    providerCompanyKey: companyKey,
+    providerCompanyId: company,
+    slug: buildSlug('tt', companyKey, id, title),
+    title,
+    company: companyName,
+    location: locationOf(item),
+    description: stripTags(decodeXmlEntities(xmlText(item, 'description') ?? '')),
+    industry: xmlText(item, 'tt:department'),
+    employmentType: null,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    url: link,
+    postedAt: posted && !Number.isNaN(posted.getTime()) ? posted.toISOString() : null,
+    supportsInAppApply: false,
+    applyQuestions: [],
+  };
+}
+
+export class TeamtailorProvider implements JobProvider {
+  readonly id = 'teamtailor' as const;
+  readonly code = 'tt';
+  readonly supportsApply = false;
+
+  constructor(private companyNames: Record<string, string> = {}) {}
+
+  setCompanyName(companyKey: string, companyName: string) {
+    this.companyNames[companyKey] = companyName;
+  }
+
+  async listForCompany(company: string): Promise<NormalizedJob[]> {
+    const url = `https://${company}.teamtailor.com/jobs.rss`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (!res.ok) {
+      throw new Error(`Teamtailor list failed for ${company}: ${res.status}`);
+    }
+    const xml = await res.text();
+    const companyKey = company.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const companyName = this.companyNames[companyKey] || company;
+    return xmlBlocks(xml, 'item')
+      .map((item) => mapItem(companyKey, company, companyName, item))
+      .filter((job): job is NormalizedJob => job !== null);
+  }
+
+  async fetchJob(company: string, jobId: string): Promise<NormalizedJob | null> {
+    const jobs = await this.listForCompany(company);
+    return jobs.find((job) => job.sourceId === jobId) ?? null;
+  }
+
+  async apply(): Promise<ApplyResult> {
+    return externalApplyOnly('Teamtailor');
+  }
+}
+
+export const teamtailorProvider = new TeamtailorProvider();
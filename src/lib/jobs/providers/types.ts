@@ -1,6 +1,16 @@
-import type { JobVacancy } from '@/types';
+import type { JobVacancy, ParsedLinkedIn } from '@/types';
+import type { JobProfileMatch } from '../profile-match';
 
-export type JobSourceProvider = 'recruitee' | 'greenhouse' | 'lever' | 'adzuna';
+export type JobSourceProvider =
+  | 'recruitee'
+  | 'greenhouse'
+  | 'lever'
+  | 'workable'
+  | 'ashby'
+  | 'smartrecruiters'
+  | 'personio'
+  | 'teamtailor'
+  | 'adzuna';
 
 export type ApplyQuestionType =
   | 'short_text'
@@ -40,7 +50,8 @@ export interface NormalizedJob {
   applyQuestions: ApplyQuestion[];
 }
 
-export type JobSortOption = 'recent' | 'salary' | 'relevance';
+/** `match` ranks against `JobSearchParams.profile` (see profile-match.ts). */
+export type JobSortOption = 'recent' | 'salary' | 'relevance' | 'match';
 
 export interface JobSearchParams {
   q?: string;
@@ -52,6 +63,14 @@ export interface JobSearchParams {
   salaryMin?: number;
   inAppOnly?: boolean;
   sort?: JobSortOption;
+  /** Saved profile to score results against; required for `sort: 'match'`. */
+  profile?: ParsedLinkedIn;
+  /**
+   * Keyset paging over the job index only (newest first): `''` for the first
+   * page, then the previous result's `nextCursor`. `page` and `sort` are
+   * ignored in this mode.
+   */
+  cursor?: string;
 }
 
 export interface JobSearchResult {
@@ -59,6 +78,10 @@ export interface JobSearchResult {
   totalResults: number;
   totalPages: number;
   currentPage: number;
+  /** Per-slug profile match, present when the search had a profile. */
+  matches?: Record<string, JobProfileMatch>;
+  /** Cursor mode only: next page, or null when the index is exhausted. */
+  nextCursor?: string | null;
 }
 
 export interface ApplyCandidate {
@@ -85,6 +108,12 @@ export interface JobProvider {
   readonly id: JobSourceProvider;
   /** 2-letter URL code used inside slugs: `rt`, `gh`, `az` */
   readonly code: string;
+  /**
+   * Whether `apply` can submit without company credentials. Boards whose
+   * application API needs a per-company key are read-only: we show the full
+   * vacancy and link out to the external apply page.
+   */
+  readonly supportsApply: boolean;
   listForCompany(companyId: string): Promise<NormalizedJob[]>;
   fetchJob(companyId: string, jobId: string): Promise<NormalizedJob | null>;
   apply(
@@ -94,6 +123,18 @@ export interface JobProvider {
   ): Promise<ApplyResult>;
 }
 
+/** `apply` result for read-only providers (see JobProvider.supportsApply). */
+export function externalApplyOnly(providerLabel: string): ApplyResult {
+  return {
+    ok: false,
+    errors: [
+      {
+        message: `${providerLabel}-vacatures ondersteunen geen 1-klik solliciteren. Gebruik de externe link.`,
+      },
+    ],
+  };
+}
+
 export function normalizedJobToJobVacancy(job: NormalizedJob): JobVacancy {
   return {
     title: job.title,
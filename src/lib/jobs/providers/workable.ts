@@ -0,0 +1,172 @@
+import type { ApplyResult, JobProvider, NormalizedJob } from './types';
+import { buildSlug, externalApplyOnly } from './types';
+
+/** Job as returned by the public careers widget (`/api/v1/widget/accounts/<account>`). */
+interface WorkableWidgetJob {
+  title: string;
+  shortcode: string;
+  employment_type?: string;
+  telecommuting?: boolean;
+  department?: string;
+  url?: string;
+  application_url?: string;
+  published_on?: string;
+  created_at?: string;
+  country?: string;
+  city?: string;
+  state?: string;
+  industry?: string;
+  function?: string;
+  description?: string; // HTML, only with ?details=true
+}
+
+interface WorkableWidgetResponse {
+  name?: string;
+  jobs?: WorkableWidgetJob[];
+}
+
+/** Job as returned by the careers page API (`/api/v2/accounts/<account>/jobs/<shortcode>`). */
+interface WorkableJobDetail {
+  shortcode: string;
+  title: string;
+  description?: string;
+  requirements?: string;
+  benefits?: string;
+  type?: string; // 'full' | 'part' | 'contract' | ...
+  department?: string[];
+  location?: { city?: string; region?: string; country?: string };
+  remote?: boolean;
+  published?: string;
+}
+
+function stripTags(input: string | undefined): string {
+  if (!input) return '';
+  return input.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function decodeHtml(input: string): string {
+  return input
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ');
+}
+
+function joinLocation(...parts: Array<string | undefined>): string | null {
+  const out = parts.filter(Boolean).join(', ');
+  return out || null;
+}
+
+type WorkableJobFields = Pick<
+  NormalizedJob,
+  'title' | 'location' | 'description' | 'industry' | 'employmentType' | 'url' | 'postedAt'
+>;
+
+function mapJob(
+  companyKey: string,
+  account: string,
+  companyName: string,
+  shortcode: string,
+  fields: WorkableJobFields,
+): NormalizedJob {
+  return {
+    sourceProvider: 'workable',
+    sourceId: shortcode,
+    providerCompanyKey: companyKey,
+    providerCompanyId: account,
+    slug: buildSlug('wk', companyKey, shortcode, fields.title),
+    company: companyName,
+    salaryMin: null,
+    salaryMax: null,
+    salaryCurrency: null,
+    supportsInAppApply: false,
+    applyQuestions: [],
+    ...fields,
+  };
+}
+
+function widgetJobFields(account: string, raw: WorkableWidgetJob): WorkableJobFields {
+  const location = joinLocation(raw.city, raw.state, raw.country);
+  return {
+    title: raw.title,
+    location: raw.telecommuting ? joinLocation(location ?? undefined, 'Remote') : location,
+    description: raw.description ? stripTags(decodeHtml(raw.description)) : '',
+    industry: raw.department || raw.function || raw.industry || null,
+    employmentType: raw.employment_type ?? null,
+    url: raw.url ?? `https://apply.workable.com/${account}/j/${raw.shortcode}/`,
+    postedAt: raw.published_on ?? raw.created_at ?? null,
+  };
+}
+
+function detailJobFields(account: string, raw: WorkableJobDetail): WorkableJobFields {
+  const description = [raw.description, raw.requirements, raw.benefits]
+    .filter((html): html is string => Boolean(html))
+    .map((html) => stripTags(decodeHtml(html)))
+    .join('\n\n');
+  const location = joinLocation(raw.location?.city, raw.location?.region, raw.location?.country);
+  return {
+    title: raw.title,
+    location: raw.remote ? joinLocation(location ?? undefined, 'Remote') : location,
+    description,
+    industry: raw.department?.[0] ?? null,
+    employmentType: raw.type ?? null,
+    url: `https://apply.workable.com/${account}/j/${raw.shortcode}/`,
+    postedAt: raw.published ?? null,
+  };
+}
+
+/**
+ * Workable careers pages. Listing uses the public widget API, single jobs the
+ * careers page API (adds requirements + benefits). Applying needs the
+ * account's API token, so Workable jobs link out.
+ */
+export class WorkableProvider implements JobProvider {
+  readonly id = 'workable' as const;
+  readonly code = 'wk';
+  readonly supportsApply = false;
+
+  constructor(private companyNames: Record<string, string> = {}) {}
+
+  setCompanyName(companyKey: string, companyName: string) {
+    this.companyNames[companyKey] = companyName;
+  }
+
+  private keyFor(account: string): string {
+    return account.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  async listForCompany(account: string): Promise<NormalizedJob[]> {
+    const url = `https://apply.workable.com/api/v1/widget/accounts/${account}?details=true`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (!res.ok) {
+      throw new Error(`Workable list failed for ${account}: ${res.status}`);
+    }
+    const data = (await res.json()) as WorkableWidgetResponse;
+    const companyKey = this.keyFor(account);
+    const companyName = this.companyNames[companyKey] || data.name || account;
+    return (data.jobs ?? []).map((job) =>
+      mapJob(companyKey, account, companyName, job.shortcode, widgetJobFields(account, job)),
+    );
+  }
+
+  async fetchJob(account: string, shortcode: string): Promise<NormalizedJob | null> {
+    const url = `https://apply.workable.com/api/v2/accounts/${account}/jobs/${shortcode}`;
+    const res = await fetch(url, { next: { revalidate: 600 } });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`Workable fetch failed: ${res.status}`);
+    }
+    const raw = (await res.json()) as WorkableJobDetail;
+    const companyKey = this.keyFor(account);
+    const companyName = this.companyNames[companyKey] || account;
+    return mapJob(companyKey, account, companyName, raw.shortcode, detailJobFields(account, raw));
+  }
+
+  async apply(): Promise<ApplyResult> {
+    return externalApplyOnly('Workable');
+  }
+}
+
+export const workableProvider = new WorkableProvider();
@@ -0,0 +1,39 @@
+/**
+ * Minimal XML reading for the feed-based providers (Personio XML, Teamtailor
+ * RSS). Both feeds are flat and machine-generated, so a couple of regexes are
+ * enough — no XML library dependency, same approach as crawl/extractor.ts.
+ */
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function decodeXmlEntities(input: string): string {
+  return input
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Inner XML of every `<tag>…</tag>` element, in document order. */
+export function xmlBlocks(xml: string, tag: string): string[] {
+  const t = escapeTag(tag);
+  const re = new RegExp(`<${t}(?:\\s[^>]*)?>([\\s\\S]*?)</${t}>`, 'g');
+  return Array.from(xml.matchAll(re), (m) => m[1]);
+}
+
+/**
+ * Text content of the first `<tag>` element: CDATA unwrapped, entities
+ * decoded, trimmed. Null when the element is missing or empty.
+ */
+export function xmlText(xml: string, tag: string): string | null {
+  const block = xmlBlocks(xml, tag)[0];
+  if (block === undefined) return null;
+  const cdata = block.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  const text = (cdata ? cdata[1] : decodeXmlEntities(block)).trim();
+  return text || null;
+}
@@ -1,6 +1,7 @@
 import { parseSlug } from './providers/types';
 import {
   getCompanyByKey,
+  getProvider,
   getProviderByCode,
 } from './providers/registry';
 import { getCachedJob, upsertCachedJob, type CachedJob } from './cache';
@@ -20,7 +21,7 @@ async function enrichFromAts(cached: CachedJob): Promise<CachedJob> {
   ) {
     return cached;
   }
-  const provider = getProviderByCode(providerCodeFor(cached.sourceProvider));
+  const provider = getProvider(cached.sourceProvider);
   if (!provider) return cached;
   try {
     const fresh = await provider.fetchJob(cached.providerCompanyId, cached.sourceId);
@@ -53,13 +54,6 @@ async function fetchAdzunaByIdWithTitleHint(jobId: string, titleHint: string) {
   return hit ? mapAdzunaJob(hit) : null;
 }
 
-function providerCodeFor(provider: CachedJob['sourceProvider']): string {
-  if (provider === 'greenhouse') return 'gh';
-  if (provider === 'recruitee') return 'rt';
-  if (provider === 'lever') return 'lv';
-  return 'az';
-}
-
 export async function resolveJobBySlug(slug: string): Promise<CachedJob | null> {
   const cached = await getCachedJob(slug);
   if (cached) {
@@ -77,7 +71,7 @@ export async function resolveJobBySlug(slug: string): Promise<CachedJob | null>
   // ATS slug → fetch from provider and cache
   if (parsed.providerCode !== 'az') {
     const provider = getProviderByCode(parsed.providerCode);
-    const company = getCompanyByKey(parsed.companyKey);
+    const company = await getCompanyByKey(parsed.companyKey);
     if (!provider) return null;
 
     // For ATS companies not in our seed registry (detected via Adzuna URL),
@@ -115,7 +109,7 @@ export async function resolveJobBySlug(slug: string): Promise<CachedJob | null>
       providerCompanyKey: detected.companyKey,
       providerCompanyId: detected.companyId,
       slug: promotedSlug,
-      supportsInAppApply: true,
+      supportsInAppApply: getProvider(detected.provider)?.supportsApply ?? false,
     });
     // Also store under the original Adzuna slug so the URL keeps working
     await upsertCachedJob({ ...promoted, slug });
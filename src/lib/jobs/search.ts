@@ -3,11 +3,23 @@ import type {
   JobSearchResult,
   NormalizedJob,
 } from './providers/types';
-import { getCompanies, getProvider } from './providers/registry';
+import { getProvider } from './providers/registry';
 import { adzunaSearch, isAdzunaConfigured, mapAdzunaJob } from './providers/adzuna';
 import { detectAtsFromUrl } from './ats-detector';
 import { buildSlug } from './providers/types';
+import { matchJobToProfile, type JobProfileMatch } from './profile-match';
+import { queryJobIndex, type JobIndexPage } from './job-index';
 
+function foldText(value: string): string {
+  return value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/** Lowercased, accent-folded words of a free-text query. */
+function queryTerms(q: string): string[] {
+  return foldText(q).split(/\s+/).filter(Boolean);
+}
+
+/** Every query word has to appear somewhere — "react amsterdam" is not one phrase. */
 function matchesQuery(
   job: NormalizedJob,
   q: string | undefined,
@@ -15,11 +27,10 @@ function matchesQuery(
 ) {
   if (!q && !location) return true;
   if (q) {
-    const haystack = [job.title, job.company, job.description, job.industry]
-      .filter(Boolean)
-      .join(' ')
-      .toLowerCase();
-    if (!haystack.includes(q.toLowerCase())) return false;
+    const haystack = foldText(
+      [job.title, job.company, job.description, job.industry].filter(Boolean).join(' '),
+    );
+    if (!queryTerms(q).every((term) => haystack.includes(term))) return false;
   }
   if (location) {
     const loc = (job.location ?? '').toLowerCase();
@@ -69,7 +80,17 @@ function matchesFilters(job: NormalizedJob, params: JobSearchParams): boolean {
   return true;
 }
 
-function sortJobs(jobs: NormalizedJob[], params: JobSearchParams): NormalizedJob[] {
+function byRecent(a: NormalizedJob, b: NormalizedJob): number {
+  const ta = a.postedAt ? Date.parse(a.postedAt) : 0;
+  const tb = b.postedAt ? Date.parse(b.postedAt) : 0;
+  return tb - ta;
+}
+
+function sortJobs(
+  jobs: NormalizedJob[],
+  params: JobSearchParams,
+  matches: Record<string, JobProfileMatch> | undefined,
+): NormalizedJob[] {
   const sort = params.sort ?? 'recent';
   if (sort === 'salary') {
     return [...jobs].sort((a, b) => {
@@ -78,29 +99,38 @@ function sortJobs(jobs: NormalizedJob[], params: JobSearchParams): NormalizedJob
       return bSal - aSal;
     });
   }
+  if (sort === 'match' && matches) {
+    return [...jobs].sort(
+      (a, b) => (matches[b.slug]?.score ?? 0) - (matches[a.slug]?.score ?? 0) || byRecent(a, b),
+    );
+  }
   if (sort === 'relevance' && params.q) {
-    const q = params.q.toLowerCase();
+    const terms = queryTerms(params.q);
+    // Per term, so a title hit on one word outranks a description hit on all
     const score = (job: NormalizedJob) => {
+      const title = foldText(job.title ?? '');
+      const industry = foldText(job.industry ?? '');
+      const company = foldText(job.company ?? '');
+      const description = foldText(job.description ?? '');
       let s = 0;
-      if (job.title?.toLowerCase().includes(q)) s += 5;
-      if (job.industry?.toLowerCase().includes(q)) s += 2;
-      if (job.company?.toLowerCase().includes(q)) s += 1;
-      if (job.description?.toLowerCase().includes(q)) s += 1;
+      for (const term of terms) {
+        if (title.includes(term)) s += 5;
+        if (industry.includes(term)) s += 2;
+        if (company.includes(term)) s += 1;
+        if (description.includes(term)) s += 1;
+      }
       return s;
     };
     return [...jobs].sort((a, b) => score(b) - score(a));
   }
   // default: recent
-  return [...jobs].sort((a, b) => {
-    const ta = a.postedAt ? Date.parse(a.postedAt) : 0;
-    const tb = b.postedAt ? Date.parse(b.postedAt) : 0;
-    return tb - ta;
-  });
+  return [...jobs].sort(byRecent);
 }
 
 /**
- * Take an Adzuna-sourced job and, if its redirect URL points at a known ATS
- * (Greenhouse/Lever/Recruitee), promote it to that ATS so 1-click apply works.
+ * Take an Adzuna-sourced job and, if its redirect URL points at a known ATS,
+ * promote it to that ATS so the detail page gets the full description — and
+ * 1-click apply where the provider supports it (Greenhouse/Lever/Recruitee).
  * Returns the original Adzuna job unchanged if no ATS match is found.
  */
 function enrichWithAtsDetection(job: NormalizedJob): NormalizedJob {
@@ -115,44 +145,38 @@ function enrichWithAtsDetection(job: NormalizedJob): NormalizedJob {
     providerCompanyKey: detected.companyKey,
     providerCompanyId: detected.companyId,
     slug: buildSlug(detected.providerCode, detected.companyKey, detected.jobId, job.title),
-    supportsInAppApply: true,
+    supportsInAppApply: getProvider(detected.provider)?.supportsApply ?? false,
     // applyQuestions stay empty — we lazy-fetch them when the user opens apply.
   };
 }
 
 /**
- * Cap how many jobs per seeded company we keep, sorted by most recent. Stripe,
- * Booking, GitLab etc. can have 300-500 open positions; processing all of them
- * on every search is wasteful since we only show 20 per page.
+ * Index candidates read for an in-memory sort (salary, relevance, match).
+ * `recent` only needs the rows up to the requested page.
  */
-const MAX_JOBS_PER_SEEDED_COMPANY = 100;
-
-async function searchSeededAts(params: JobSearchParams): Promise<NormalizedJob[]> {
-  const companies = getCompanies();
-  const lists = await Promise.all(
-    companies.map(async (company) => {
-      const provider = getProvider(company.provider);
-      if (!provider) return [];
-      try {
-        const all = await provider.listForCompany(company.companyId);
-        if (all.length <= MAX_JOBS_PER_SEEDED_COMPANY) return all;
-        // Most-recent first, then cap.
-        const sorted = [...all].sort((a, b) => {
-          const ta = a.postedAt ? Date.parse(a.postedAt) : 0;
-          const tb = b.postedAt ? Date.parse(b.postedAt) : 0;
-          return tb - ta;
-        });
-        return sorted.slice(0, MAX_JOBS_PER_SEEDED_COMPANY);
-      } catch (err) {
-        console.warn(
-          `[jobs/search] ${company.provider}/${company.companyId} failed`,
-          err instanceof Error ? err.message : err,
-        );
-        return [];
-      }
-    }),
-  );
-  return lists.flat().filter((j) => matchesQuery(j, params.q, params.location));
+const INDEX_CANDIDATE_LIMIT = 300;
+
+function searchJobIndex(params: JobSearchParams, limit: number): Promise<JobIndexPage> {
+  return queryJobIndex({
+    q: params.q,
+    location: params.location,
+    cursor: params.cursor || undefined,
+    limit,
+    filter: (job) => matchesQuery(job, params.q, params.location) && matchesFilters(job, params),
+  }).catch((err) => {
+    console.warn('[jobs/search] job index failed', err instanceof Error ? err.message : err);
+    return { jobs: [], nextCursor: null };
+  });
+}
+
+function profileMatches(
+  jobs: NormalizedJob[],
+  params: JobSearchParams,
+): Record<string, JobProfileMatch> | undefined {
+  const profile = params.profile;
+  if (!profile) return undefined;
+  const preferences = { location: params.location, remote: params.remote, salaryMin: params.salaryMin };
+  return Object.fromEntries(jobs.map((job) => [job.slug, matchJobToProfile(job, profile, preferences)]));
 }
 
 async function searchAdzuna(params: JobSearchParams): Promise<NormalizedJob[]> {
@@ -168,40 +192,65 @@ async function searchAdzuna(params: JobSearchParams): Promise<NormalizedJob[]> {
 export async function searchJobs(params: JobSearchParams): Promise<JobSearchResult> {
   const page = Math.max(1, params.page ?? 1);
   const perPage = Math.min(50, Math.max(1, params.resultsPerPage ?? 20));
+  const sort = params.sort ?? 'recent';
+
+  // Cursor mode: keyset pages straight from the job index, newest first.
+  // No totals — the caller follows `nextCursor` until it is null.
+  if (params.cursor !== undefined) {
+    const { jobs, nextCursor } = await searchJobIndex(params, perPage);
+    const matches = profileMatches(jobs, params);
+    return {
+      results: jobs,
+      totalResults: jobs.length,
+      totalPages: 1,
+      currentPage: 1,
+      nextCursor,
+      ...(matches ? { matches } : {}),
+    };
+  }
+
+  // Two sources, queried in parallel:
+  // - the job index (./job-index.ts): every seeded ATS board, kept current
+  //   by the background sync, so this is one Firestore query no matter how
+  //   many companies are seeded
+  // - Adzuna, live: the broad discovery surface. ATS detection
+  //   (enrichWithAtsDetection) promotes results pointing at a supported ATS
+  //   to provider slugs, and resolveJobBySlug's enrichFromAts fetches full
+  //   descriptions + apply questions lazily on the detail page.
+  const indexLimit = sort === 'recent' ? page * perPage : INDEX_CANDIDATE_LIMIT;
+  const [indexed, adzunaJobs] = await Promise.all([
+    searchJobIndex(params, indexLimit),
+    isAdzunaConfigured()
+      ? searchAdzuna(params).catch((err) => {
+          console.warn(
+            '[jobs/search] Adzuna failed',
+            err instanceof Error ? err.message : err,
+          );
+          return [] as NormalizedJob[];
+        })
+      : Promise.resolve([] as NormalizedJob[]),
+  ]);
 
-  // Adzuna is the primary discovery surface — it indexes the major NL/EU
-  // employers' ATS boards already. ATS detection (enrichWithAtsDetection)
-  // promotes Adzuna results pointing at Greenhouse/Lever/Recruitee to
-  // 1-click-apply slugs, and resolveJobBySlug's enrichFromAts fetches full
-  // descriptions + apply questions lazily on the detail page.
-  //
-  // The seeded ATS fan-out (~14 parallel HTTP calls) was duplicating Adzuna
-  // coverage and was the dominant page-render cost. It now only fires as a
-  // fallback when Adzuna is not configured (e.g. local dev without keys).
-  const jobs = isAdzunaConfigured()
-    ? await searchAdzuna(params).catch((err) => {
-        console.warn(
-          '[jobs/search] Adzuna failed',
-          err instanceof Error ? err.message : err,
-        );
-        return [] as NormalizedJob[];
-      })
-    : await searchSeededAts(params).catch(() => [] as NormalizedJob[]);
-
-  // Dedupe by slug (Adzuna can return the same job under multiple ids)
+  // Dedupe by slug (Adzuna can return the same job under multiple ids, and a
+  // detected ATS job may already be indexed — the indexed copy wins)
   const seen = new Set<string>();
   const merged: NormalizedJob[] = [];
-  for (const job of jobs) {
+  for (const job of [...indexed.jobs, ...adzunaJobs]) {
     if (seen.has(job.slug)) continue;
     seen.add(job.slug);
     merged.push(job);
   }
 
   const filtered = merged.filter((job) => matchesFilters(job, params));
-  const sorted = sortJobs(filtered, params);
+  const matches = profileMatches(filtered, params);
+  const sorted = sortJobs(filtered, params, matches);
 
   const totalResults = sorted.length;
-  const totalPages = Math.max(1, Math.ceil(totalResults / perPage));
+  // The index stopped reading at the requested page; there may be more
+  const totalPages = Math.max(
+    Math.ceil(totalResults / perPage),
+    indexed.nextCursor ? page + 1 : 1,
+  );
   const start = (page - 1) * perPage;
   const results = sorted.slice(start, start + perPage);
 
@@ -210,5 +259,8 @@ export async function searchJobs(params: JobSearchParams): Promise<JobSearchResu
     totalResults,
     totalPages,
     currentPage: page,
+    ...(matches
+      ? { matches: Object.fromEntries(results.map((job) => [job.slug, matches[job.slug]])) }
+      : {}),
   };
 }
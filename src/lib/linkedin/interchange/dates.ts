@@ -0,0 +1,96 @@
+/**
+ * Date helpers shared by the JSON Resume and Europass converters.
+ *
+ * `ParsedLinkedIn` stores dates as free text ("Jan 2020", "maart 2019",
+ * "2018"), while both interchange formats want ISO-8601 partials
+ * ("2020-01", "2018"). Conversion is deterministic and lossy only in the
+ * direction free text → ISO when the text can't be read; in that case the
+ * field is dropped rather than guessed.
+ */
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, januari: 1,
+  feb: 2, february: 2, februari: 2,
+  mar: 3, march: 3, mrt: 3, maart: 3,
+  apr: 4, april: 4,
+  may: 5, mei: 5,
+  jun: 6, june: 6, juni: 6,
+  jul: 7, july: 7, juli: 7,
+  aug: 8, august: 8, augustus: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10, okt: 10, oktober: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12,
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const PRESENT_MARKERS = /^(present|current|now|heden|nu|huidig|today)$/i;
+
+export interface PartialDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+/** Read a free-text or ISO date into its numeric parts. Returns null for
+ *  empty values, "present"-style markers and anything unreadable. */
+export function parseLooseDate(value: string | null | undefined): PartialDate | null {
+  const text = value?.trim();
+  if (!text || PRESENT_MARKERS.test(text)) return null;
+
+  // ISO: 2020, 2020-01, 2020-01-15
+  const iso = text.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?/);
+  if (iso) {
+    return {
+      year: Number(iso[1]),
+      month: iso[2] ? Number(iso[2]) : undefined,
+      day: iso[3] ? Number(iso[3]) : undefined,
+    };
+  }
+
+  // Day-month-year, as used for Dutch birth dates: 12-05-1990, 12/5/1990
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dmy) {
+    return { year: Number(dmy[3]), month: Number(dmy[2]), day: Number(dmy[1]) };
+  }
+
+  // Numeric month/year: 01/2020, 1-2020
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{4})$/);
+  if (numeric) {
+    return { year: Number(numeric[2]), month: Number(numeric[1]) };
+  }
+
+  // Month name + year: "Jan 2020", "januari 2020", "Sept. 2019"
+  const named = text.toLowerCase().match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (named && MONTHS[named[1]]) {
+    return { year: Number(named[2]), month: MONTHS[named[1]] };
+  }
+
+  // Last resort: a lone four-digit year anywhere in the string.
+  const year = text.match(/\b(19|20)\d{2}\b/);
+  return year ? { year: Number(year[0]) } : null;
+}
+
+/** Free text → ISO-8601 partial ("2020-01" / "2020"), or undefined. */
+export function toIsoDate(value: string | null | undefined): string | undefined {
+  const d = parseLooseDate(value);
+  if (!d) return undefined;
+  const parts = [String(d.year)];
+  if (d.month) parts.push(String(d.month).padStart(2, '0'));
+  if (d.month && d.day) parts.push(String(d.day).padStart(2, '0'));
+  return parts.join('-');
+}
+
+/** ISO (or numeric parts) → the "Jan 2020" style used across ParsedLinkedIn. */
+export function formatProfileDate(d: PartialDate | null): string | null {
+  if (!d) return null;
+  if (d.month && d.month >= 1 && d.month <= 12) return `${MONTH_LABELS[d.month - 1]} ${d.year}`;
+  return String(d.year);
+}
+
+/** Year-only view used for education start/end years. */
+export function toYear(value: string | null | undefined): string | null {
+  const d = parseLooseDate(value);
+  return d ? String(d.year) : null;
+}
@@ -0,0 +1,524 @@
+/**
+ * Europass CV (SkillsPassport v3.x, XML and JSON) ⇄ ParsedLinkedIn.
+ *
+ * Both serialisations share one tree shape: the JSON form is the canonical
+ * in-memory model and the XML form is derived from it by two structural
+ * rules from the Europass XSD —
+ *   - arrays become `<XList><X/>…</XList>` wrappers;
+ *   - `From` / `To` / `Birthdate` objects become `year`/`month`/`day`
+ *     attributes (`month="--03"`, `day="---12"`).
+ *
+ * Free-text fields in Europass (`Activities`, `Description`) are HTML.
+ * Export writes `<p>` + `<ul><li>`; import flattens back to the "• " bullet
+ * lines ParsedLinkedIn descriptions use. Nothing is inferred — fields that
+ * don't map are dropped.
+ */
+
+import type {
+  ParsedLinkedIn,
+  LinkedInCertification,
+  LinkedInLanguage,
+  LinkedInProject,
+  SavedProfile,
+} from '@/types';
+import { formatProfileDate, parseLooseDate, type PartialDate } from './dates';
+import { joinDescription, splitDescription } from './json-resume';
+import { decodeXmlEntities, escapeXml, parseXml, serializeXml, type XmlElement } from './xml';
+
+// ============ Schema (subset we read/write) ============
+
+export interface EuropassDate {
+  Year?: number;
+  Month?: number;
+  Day?: number;
+}
+
+export interface EuropassPeriod {
+  From?: EuropassDate;
+  To?: EuropassDate;
+  Current?: boolean;
+}
+
+interface CodeLabel {
+  Code?: string;
+  Label?: string;
+}
+
+export interface EuropassLearnerInfo {
+  Identification?: {
+    PersonName?: { FirstName?: string; Surname?: string };
+    ContactInfo?: {
+      Address?: { Contact?: { AddressLine?: string; PostalCode?: string; Municipality?: string; Country?: CodeLabel } };
+      Email?: { Contact?: string };
+      Telephone?: Array<{ Contact?: string; Use?: CodeLabel }>;
+      Website?: Array<{ Contact?: string; Use?: CodeLabel }>;
+    };
+    Demographics?: { Birthdate?: EuropassDate };
+  };
+  Headline?: { Type?: CodeLabel; Description?: { Label?: string } };
+  WorkExperience?: Array<{
+    Period?: EuropassPeriod;
+    Position?: CodeLabel;
+    Activities?: string;
+    Employer?: {
+      Name?: string;
+      ContactInfo?: { Address?: { Contact?: { Municipality?: string; Country?: CodeLabel } } };
+    };
+  }>;
+  Education?: Array<{
+    Period?: EuropassPeriod;
+    Title?: string;
+    Activities?: string;
+    Organisation?: { Name?: string };
+    Field?: CodeLabel;
+  }>;
+  Skills?: {
+    Linguistic?: {
+      MotherTongue?: Array<{ Description?: CodeLabel }>;
+      ForeignLanguage?: Array<{
+        Description?: CodeLabel;
+        ProficiencyLevel?: Partial<Record<'Listening' | 'Reading' | 'SpokenInteraction' | 'SpokenProduction' | 'Writing', string>>;
+      }>;
+    };
+    Communication?: { Description?: string };
+    Organisational?: { Description?: string };
+    JobRelated?: { Description?: string };
+    Computer?: { Description?: string };
+    Other?: { Description?: string };
+  };
+  Achievement?: Array<{ Title?: CodeLabel; Description?: string }>;
+}
+
+export interface EuropassDocument {
+  SkillsPassport: {
+    Locale?: string;
+    DocumentInfo?: {
+      DocumentType?: string;
+      CreationDate?: string;
+      LastUpdateDate?: string;
+      XSDVersion?: string;
+      Generator?: string;
+    };
+    LearnerInfo?: EuropassLearnerInfo;
+  };
+}
+
+const EUROPASS_NAMESPACE = 'http://europass.cedefop.europa.eu/Europass';
+const XSD_VERSION = 'V3.4';
+const GENERATOR = 'CVeetje';
+
+// ============ Helpers ============
+
+const SURNAME_PREFIXES = new Set(['van', 'de', 'der', 'den', 'ter', 'ten', 'te', 'von', 'vom', 'zu', 'le', 'la', 'du', 'di', 'da', 'del', "'t"]);
+
+/** Split a full name Europass-style. Dutch/German surname prefixes
+ *  ("van der", "von") stay with the surname. */
+export function splitPersonName(fullName: string): { FirstName: string; Surname: string } {
+  const tokens = fullName.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length <= 1) return { FirstName: tokens[0] ?? '', Surname: '' };
+  let idx = tokens.findIndex((t, i) => i > 0 && SURNAME_PREFIXES.has(t.toLowerCase()));
+  if (idx < 0) idx = tokens.length - 1;
+  return { FirstName: tokens.slice(0, idx).join(' '), Surname: tokens.slice(idx).join(' ') };
+}
+
+const LANGUAGE_CODES: Record<string, string> = {
+  dutch: 'nl', nederlands: 'nl', flemish: 'nl', vlaams: 'nl',
+  english: 'en', engels: 'en',
+  german: 'de', duits: 'de', deutsch: 'de',
+  french: 'fr', frans: 'fr', français: 'fr',
+  spanish: 'es', spaans: 'es', español: 'es',
+  italian: 'it', italiaans: 'it',
+  portuguese: 'pt', portugees: 'pt',
+  polish: 'pl', pools: 'pl',
+  turkish: 'tr', turks: 'tr',
+  arabic: 'ar', arabisch: 'ar',
+  chinese: 'zh', chinees: 'zh',
+  russian: 'ru', russisch: 'ru',
+};
+
+const NATIVE_RE = /native|moedertaal|mother ?tongue|muttersprache|bilingual|tweetalig/i;
+const CEFR_RE = /\b([ABC][12])\b/i;
+
+function toEuropassDate(d: PartialDate | null): EuropassDate | undefined {
+  if (!d) return undefined;
+  return { Year: d.year, Month: d.month, Day: d.day };
+}
+
+function fromEuropassDate(d: EuropassDate | undefined): PartialDate | null {
+  return d?.Year ? { year: Number(d.Year), month: d.Month ? Number(d.Month) : undefined, day: d.Day ? Number(d.Day) : undefined } : null;
+}
+
+/** ParsedLinkedIn description ("prose\n• bullet") → Europass HTML. */
+function descriptionToHtml(description: string | null | undefined): string | undefined {
+  const { summary, highlights } = splitDescription(description);
+  const parts: string[] = [];
+  if (summary) parts.push(...summary.split('\n').map(p => `<p>${escapeXml(p)}</p>`));
+  if (highlights.length) parts.push(`<ul>${highlights.map(h => `<li>${escapeXml(h)}</li>`).join('')}</ul>`);
+  return parts.length ? parts.join('') : undefined;
+}
+
+function listToHtml(items: string[]): string | undefined {
+  return items.length ? `<ul>${items.map(i => `<li>${escapeXml(i)}</li>`).join('')}</ul>` : undefined;
+}
+
+/** Europass HTML → plain text with "• " bullet lines. */
+export function htmlToText(html: string | undefined): string {
+  if (!html) return '';
+  const text = html
+    .replace(/<li[^>]*>/gi, '\n• ')
+    .replace(/<\/(p|div|li|ul|ol|h\d)>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+  return decodeXmlEntities(text)
+    .split('\n')
+    .map(l => l.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** Europass HTML list (or short comma/line-separated text) → items. Long
+ *  prose fragments are not list items and are skipped. */
+function htmlToItems(html: string | undefined): string[] {
+  const text = htmlToText(html);
+  if (!text) return [];
+  const pieces = text.includes('• ')
+    ? text.split('\n').filter(l => l.startsWith('• ')).map(l => l.slice(2))
+    : text.split(/[\n;,]/);
+  return pieces.map(p => p.trim()).filter(p => p && p.length <= 100);
+}
+
+function achievementKind(a: NonNullable<EuropassLearnerInfo['Achievement']>[number]): string {
+  const code = a.Title?.Code?.toLowerCase() ?? '';
+  const label = a.Title?.Label?.toLowerCase() ?? '';
+  if (code === 'certifications' || /certif|licen/.test(label)) return 'certifications';
+  if (code === 'projects' || /project/.test(label)) return 'projects';
+  if (/interest|hobb/.test(label)) return 'interests';
+  if (/summary|statement|profile/.test(label)) return 'summary';
+  return code || label;
+}
+
+// ============ Export ============
+
+export function toEuropassJson(
+  profile: Pick<SavedProfile, 'parsedData' | 'updatedAt'>,
+  locale = 'en',
+): EuropassDocument {
+  const p = profile.parsedData;
+  const now = new Date().toISOString();
+
+  const websites: Array<{ Contact: string; Use: CodeLabel }> = [];
+  if (p.website) websites.push({ Contact: p.website, Use: { Code: 'personal' } });
+  if (p.linkedinUrl) websites.push({ Contact: p.linkedinUrl, Use: { Code: 'business', Label: 'LinkedIn' } });
+  if (p.github) websites.push({ Contact: p.github, Use: { Code: 'portfolio', Label: 'GitHub' } });
+
+  const motherTongues = p.languages.filter(l => l.proficiency && NATIVE_RE.test(l.proficiency));
+  const foreign = p.languages.filter(l => !motherTongues.includes(l));
+  const languageDescription = (l: LinkedInLanguage): CodeLabel => ({
+    Code: LANGUAGE_CODES[l.language.trim().toLowerCase()],
+    Label: l.language,
+  });
+
+  const achievements: NonNullable<EuropassLearnerInfo['Achievement']> = [];
+  // v3 has no free-text summary field; carry `about` as a labelled
+  // Achievement so it survives a round-trip.
+  if (p.about?.trim()) {
+    achievements.push({ Title: { Label: 'Personal statement' }, Description: descriptionToHtml(p.about) });
+  }
+  if (p.certifications.length) {
+    achievements.push({
+      Title: { Code: 'certifications', Label: 'Certifications' },
+      Description: listToHtml(
+        p.certifications.map(c => [c.name, [c.issuer, c.issueDate].filter(Boolean).join(', ')].filter(Boolean).join(' — ')),
+      ),
+    });
+  }
+  for (const proj of p.projects ?? []) {
+    const period = [proj.startDate, proj.endDate].filter(Boolean).join(' – ');
+    const meta = [
+      proj.role ? `<p>${escapeXml(proj.role)}</p>` : '',
+      proj.technologies.length ? `<p>${escapeXml(proj.technologies.join(', '))}</p>` : '',
+      proj.url ? `<p>${escapeXml(proj.url)}</p>` : '',
+    ].join('');
+    achievements.push({
+      Title: { Code: 'projects', Label: 'Projects' },
+      Description: `<p><strong>${escapeXml(proj.title)}</strong>${period ? ` (${escapeXml(period)})` : ''}</p>${descriptionToHtml(proj.description) ?? ''}${meta}`,
+    });
+  }
+  if (p.interests?.length) {
+    achievements.push({ Title: { Label: 'Interests' }, Description: listToHtml(p.interests) });
+  }
+
+  return {
+    SkillsPassport: {
+      Locale: locale,
+      DocumentInfo: {
+        DocumentType: 'ECV',
+        CreationDate: now,
+        LastUpdateDate: now,
+        XSDVersion: XSD_VERSION,
+        Generator: GENERATOR,
+      },
+      LearnerInfo: {
+        Identification: {
+          PersonName: splitPersonName(p.fullName),
+          ContactInfo: {
+            Address: p.location ? { Contact: { Municipality: p.location } } : undefined,
+            Email: p.email ? { Contact: p.email } : undefined,
+            Telephone: p.phone ? [{ Contact: p.phone, Use: { Code: 'mobile' } }] : undefined,
+            Website: websites.length ? websites : undefined,
+          },
+          Demographics: p.birthDate ? { Birthdate: toEuropassDate(parseLooseDate(p.birthDate)) } : undefined,
+        },
+        Headline: p.headline
+          ? { Type: { Code: 'preferred_job', Label: 'Preferred job' }, Description: { Label: p.headline } }
+          : undefined,
+        WorkExperience: p.experience.map(exp => ({
+          Period: {
+            From: toEuropassDate(parseLooseDate(exp.startDate)),
+            To: exp.isCurrentRole ? undefined : toEuropassDate(parseLooseDate(exp.endDate)),
+            Current: exp.isCurrentRole || undefined,
+          },
+          Position: { Label: exp.title },
+          Activities: descriptionToHtml(exp.description),
+          Employer: {
+            Name: exp.company,
+            ContactInfo: exp.location ? { Address: { Contact: { Municipality: exp.location } } } : undefined,
+          },
+        })),
+        Education: p.education.map(edu => ({
+          Period: {
+            From: toEuropassDate(parseLooseDate(edu.startYear)),
+            To: toEuropassDate(parseLooseDate(edu.endYear)),
+          },
+          Title: edu.degree ?? undefined,
+          Organisation: { Name: edu.school },
+          Field: edu.fieldOfStudy ? { Label: edu.fieldOfStudy } : undefined,
+        })),
+        Skills: {
+          Linguistic: p.languages.length
+            ? {
+                MotherTongue: motherTongues.length
+                  ? motherTongues.map(l => ({ Description: languageDescription(l) }))
+                  : undefined,
+                ForeignLanguage: foreign.length
+                  ? foreign.map(l => {
+                      const level = l.proficiency?.match(CEFR_RE)?.[1]?.toUpperCase();
+                      return {
+                        Description: languageDescription(l),
+                        ProficiencyLevel: level
+                          ? { Listening: level, Reading: level, SpokenInteraction: level, SpokenProduction: level, Writing: level }
+                          : undefined,
+                      };
+                    })
+                  : undefined,
+              }
+            : undefined,
+          JobRelated: p.skills.length ? { Description: listToHtml(p.skills.map(s => s.name)) } : undefined,
+        },
+        Achievement: achievements.length ? achievements : undefined,
+      },
+    },
+  };
+}
+
+// ---- JSON tree → XML ----
+
+const DATE_ELEMENTS = new Set(['From', 'To', 'Birthdate']);
+
+function toXmlElement(name: string, value: unknown): XmlElement | null {
+  if (value === undefined || value === null) return null;
+
+  if (DATE_ELEMENTS.has(name) && typeof value === 'object') {
+    const d = value as EuropassDate;
+    const attrs: Record<string, string> = {};
+    if (d.Year) attrs.year = String(d.Year);
+    if (d.Month) attrs.month = `--${String(d.Month).padStart(2, '0')}`;
+    if (d.Day) attrs.day = `---${String(d.Day).padStart(2, '0')}`;
+    return { name, attrs, children: [], text: '' };
+  }
+
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    const children = Object.entries(value as Record<string, unknown>).flatMap(([k, v]) => {
+      if (Array.isArray(v)) {
+        const items = v.map(item => toXmlElement(k, item)).filter((e): e is XmlElement => !!e);
+        return items.length ? [{ name: `${k}List`, attrs: {}, children: items, text: '' }] : [];
+      }
+      const child = toXmlElement(k, v);
+      return child ? [child] : [];
+    });
+    return { name, attrs: {}, children, text: '' };
+  }
+
+  return { name, attrs: {}, children: [], text: String(value) };
+}
+
+export function toEuropassXml(doc: EuropassDocument): string {
+  const { Locale, ...rest } = doc.SkillsPassport;
+  const root = toXmlElement('SkillsPassport', rest)!;
+  root.attrs = { xmlns: EUROPASS_NAMESPACE, ...(Locale ? { locale: Locale } : {}) };
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeXml(root)}\n`;
+}
+
+// ---- XML → JSON tree ----
+
+function fromXmlElement(el: XmlElement): unknown {
+  if (DATE_ELEMENTS.has(el.name)) {
+    const num = (v: string | undefined) => (v ? Number(v.replace(/-/g, '')) || undefined : undefined);
+    return { Year: num(el.attrs.year), Month: num(el.attrs.month), Day: num(el.attrs.day) };
+  }
+  if (!el.children.length) {
+    const text = el.text.trim();
+    if (el.name === 'Current') return text === 'true';
+    return text;
+  }
+  const out: Record<string, unknown> = {};
+  for (const child of el.children) {
+    if (child.name.endsWith('List') && child.name !== 'List') {
+      out[child.name.slice(0, -4)] = child.children.map(fromXmlElement);
+    } else {
+      out[child.name] = fromXmlElement(child);
+    }
+  }
+  return out;
+}
+
+export function parseEuropassXml(xml: string): EuropassDocument {
+  const root = parseXml(xml);
+  if (root.name !== 'SkillsPassport') {
+    throw new Error(`Expected a Europass <SkillsPassport> document, found <${root.name}>`);
+  }
+  const body = fromXmlElement(root) as EuropassDocument['SkillsPassport'];
+  return { SkillsPassport: { ...body, Locale: root.attrs.locale } };
+}
+
+// ============ Import ============
+
+export function isEuropassJson(data: unknown): data is EuropassDocument {
+  return !!data && typeof data === 'object' && typeof (data as Record<string, unknown>).SkillsPassport === 'object';
+}
+
+export function fromEuropass(doc: EuropassDocument): ParsedLinkedIn {
+  const info = doc.SkillsPassport.LearnerInfo ?? {};
+  const id = info.Identification ?? {};
+  const contact = id.ContactInfo ?? {};
+  const websites = contact.Website ?? [];
+  const findSite = (re: RegExp) =>
+    websites.find(w => re.test(w.Contact ?? '') || re.test(w.Use?.Label ?? ''))?.Contact;
+  const linkedinUrl = findSite(/linkedin/i);
+  const github = findSite(/github/i);
+  const website = websites.find(w => w.Contact && w.Contact !== linkedinUrl && w.Contact !== github)?.Contact;
+
+  const address = contact.Address?.Contact;
+  const location = [address?.Municipality, address?.Country?.Label].filter(Boolean).join(', ') || null;
+
+  const birth = fromEuropassDate(id.Demographics?.Birthdate);
+  const birthDate = birth?.day && birth.month
+    ? `${String(birth.day).padStart(2, '0')}-${String(birth.month).padStart(2, '0')}-${birth.year}`
+    : formatProfileDate(birth) ?? undefined;
+
+  const languages: LinkedInLanguage[] = [
+    ...(info.Skills?.Linguistic?.MotherTongue ?? []).map(m => ({
+      language: m.Description?.Label ?? m.Description?.Code ?? '',
+      proficiency: 'Native',
+    })),
+    ...(info.Skills?.Linguistic?.ForeignLanguage ?? []).map(f => {
+      const levels = Object.values(f.ProficiencyLevel ?? {}).filter(Boolean).map(l => String(l).toUpperCase()).sort();
+      return {
+        language: f.Description?.Label ?? f.Description?.Code ?? '',
+        // Highest sub-skill level; Europass scores five CEFR dimensions.
+        proficiency: levels.length ? levels[levels.length - 1] : null,
+      };
+    }),
+  ].filter(l => l.language);
+
+  const skillSources = ['JobRelated', 'Computer', 'Communication', 'Organisational', 'Other'] as const;
+  const seen = new Set<string>();
+  const skills = skillSources
+    .flatMap(k => htmlToItems(info.Skills?.[k]?.Description))
+    .filter(n => !seen.has(n.toLowerCase()) && seen.add(n.toLowerCase()))
+    .map(name => ({ name }));
+
+  const achievements = info.Achievement ?? [];
+  const certifications: LinkedInCertification[] = achievements
+    .filter(a => achievementKind(a) === 'certifications')
+    .flatMap(a => htmlToItems(a.Description))
+    .map(item => {
+      // Inverse of the export format: "Name — Issuer, Jan 2020".
+      const [name, rest] = item.split(' — ');
+      const meta = (rest ?? '').split(',').map(s => s.trim()).filter(Boolean);
+      const date = meta.length && parseLooseDate(meta[meta.length - 1]) ? meta.pop() : undefined;
+      return {
+        name: name.trim(),
+        issuer: meta.length ? meta.join(', ') : null,
+        issueDate: formatProfileDate(parseLooseDate(date)),
+      };
+    });
+
+  const projects: LinkedInProject[] = achievements
+    .filter(a => achievementKind(a) === 'projects')
+    .map(a => {
+      const titleMatch = a.Description?.match(/<strong>([\s\S]*?)<\/strong>/i);
+      const lines = htmlToText(a.Description).split('\n');
+      const title = titleMatch ? htmlToText(titleMatch[1]) : lines[0] ?? '';
+      return {
+        title,
+        description: lines.slice(1).join('\n') || null,
+        technologies: [],
+        url: null,
+        startDate: null,
+        endDate: null,
+        role: null,
+      };
+    })
+    .filter(p => p.title);
+
+  const interests = achievements
+    .filter(a => achievementKind(a) === 'interests')
+    .flatMap(a => htmlToItems(a.Description));
+
+  const about = achievements
+    .filter(a => achievementKind(a) === 'summary')
+    .map(a => htmlToText(a.Description))
+    .filter(Boolean)
+    .join('\n\n');
+
+  const name = id.PersonName;
+  return {
+    fullName: [name?.FirstName, name?.Surname].filter(Boolean).join(' ').trim(),
+    headline: info.Headline?.Description?.Label?.trim() || null,
+    location,
+    about: about || null,
+    experience: (info.WorkExperience ?? []).map(w => {
+      const current = w.Period?.Current === true || !w.Period?.To;
+      return {
+        title: w.Position?.Label ?? '',
+        company: w.Employer?.Name ?? '',
+        location: w.Employer?.ContactInfo?.Address?.Contact?.Municipality ?? null,
+        startDate: formatProfileDate(fromEuropassDate(w.Period?.From)) ?? '',
+        endDate: current ? null : formatProfileDate(fromEuropassDate(w.Period?.To)),
+        description: joinDescription(htmlToText(w.Activities), undefined),
+        isCurrentRole: current,
+      };
+    }),
+    education: (info.Education ?? [])
+      .filter(e => e.Organisation?.Name || e.Title)
+      .map(e => ({
+        school: e.Organisation?.Name ?? '',
+        degree: e.Title ?? null,
+        fieldOfStudy: e.Field?.Label ?? null,
+        startYear: e.Period?.From?.Year ? String(e.Period.From.Year) : null,
+        endYear: e.Period?.To?.Year ? String(e.Period.To.Year) : null,
+      })),
+    skills,
+    languages,
+    certifications,
+    projects,
+    email: contact.Email?.Contact,
+    phone: contact.Telephone?.[0]?.Contact,
+    website,
+    linkedinUrl,
+    github,
+    birthDate,
+    interests: interests.length ? interests : undefined,
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Profile interchange — deterministic, no-AI conversion between our
+ * canonical `ParsedLinkedIn` profile and external CV formats.
+ *
+ * Supported:
+ *   - JSON Resume v1.0.0 (`json-resume`)
+ *   - Europass SkillsPassport v3.x as XML (`europass-xml`) or JSON (`europass-json`)
+ *
+ * Browser- and Node-safe: the profiles page imports files client-side and
+ * `/api/profiles/[id]?format=` exports server-side with the same code.
+ */
+
+import type { ParsedLinkedIn, SavedProfile } from '@/types';
+import { parsedLinkedInSchema } from '@/lib/validation/schemas';
+import { fromJsonResume, isJsonResume, toJsonResume } from './json-resume';
+import { fromEuropass, isEuropassJson, parseEuropassXml, toEuropassJson, toEuropassXml } from './europass';
+
+export type ProfileInterchangeFormat = 'json-resume' | 'europass-xml' | 'europass-json';
+
+export const PROFILE_INTERCHANGE_FORMATS: ProfileInterchangeFormat[] = ['json-resume', 'europass-xml', 'europass-json'];
+
+export class ProfileImportError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: Array<{ path: string; message: string }> = [],
+  ) {
+    super(message);
+    this.name = 'ProfileImportError';
+  }
+}
+
+export interface ProfileImportResult {
+  format: ProfileInterchangeFormat;
+  parsedData: ParsedLinkedIn;
+}
+
+export interface ProfileExportResult {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+// ============ Import ============
+
+/** Detect which supported format a file's text is in. */
+export function detectProfileFormat(source: string): ProfileInterchangeFormat | null {
+  const text = source.trim();
+  if (text.startsWith('<')) {
+    return /<(\w+:)?SkillsPassport[\s>]/.test(text) ? 'europass-xml' : null;
+  }
+  try {
+    const data: unknown = JSON.parse(text);
+    if (isEuropassJson(data)) return 'europass-json';
+    if (isJsonResume(data)) return 'json-resume';
+  } catch {
+    // Not JSON
+  }
+  return null;
+}
+
+const URL_FIELDS = ['linkedinUrl', 'website', 'github'] as const;
+
+/**
+ * Bring converter output in line with `parsedLinkedInSchema` so the saved
+ * profile passes the same validation as hand-edited ones: schemeless URLs
+ * get `https://`, malformed emails/URLs are dropped rather than failing the
+ * whole import.
+ */
+function normalizeImported(data: ParsedLinkedIn): ParsedLinkedIn {
+  const out: ParsedLinkedIn = { ...data };
+  for (const key of URL_FIELDS) {
+    const raw = out[key]?.trim();
+    if (!raw) {
+      delete out[key];
+      continue;
+    }
+    const withScheme = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    try {
+      new URL(withScheme);
+      out[key] = withScheme;
+    } catch {
+      delete out[key];
+    }
+  }
+  if (out.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(out.email)) delete out.email;
+  if (!out.phone) delete out.phone;
+  if (!out.birthDate) delete out.birthDate;
+  if (!out.interests?.length) delete out.interests;
+  return out;
+}
+
+/**
+ * Convert an exported JSON Resume / Europass file into a ParsedLinkedIn.
+ * Throws ProfileImportError with per-field issues when the result doesn't
+ * validate (e.g. no name in the source document).
+ */
+export function importProfileDocument(source: string): ProfileImportResult {
+  const format = detectProfileFormat(source);
+  if (!format) {
+    throw new ProfileImportError('Unrecognised file: expected a JSON Resume or Europass (XML/JSON) document');
+  }
+
+  let parsedData: ParsedLinkedIn;
+  try {
+    switch (format) {
+      case 'json-resume':
+        parsedData = fromJsonResume(JSON.parse(source));
+        break;
+      case 'europass-json':
+        parsedData = fromEuropass(JSON.parse(source));
+        break;
+      case 'europass-xml':
+        parsedData = fromEuropass(parseEuropassXml(source));
+        break;
+    }
+  } catch (err) {
+    throw new ProfileImportError(`Could not read ${format} document: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const normalized = normalizeImported(parsedData);
+  const result = parsedLinkedInSchema.safeParse(normalized);
+  if (!result.success) {
+    throw new ProfileImportError(
+      'Imported profile is incomplete or invalid',
+      result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+    );
+  }
+
+  return { format, parsedData: normalized };
+}
+
+// ============ Export ============
+
+export function exportProfileDocument(
+  profile: Pick<SavedProfile, 'parsedData' | 'avatarUrl' | 'updatedAt'>,
+  format: ProfileInterchangeFormat,
+  locale = 'en',
+): ProfileExportResult {
+  switch (format) {
+    case 'json-resume':
+      return {
+        body: JSON.stringify(toJsonResume(profile), null, 2),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+    case 'europass-json':
+      return {
+        body: JSON.stringify(toEuropassJson(profile, locale), null, 2),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+    case 'europass-xml':
+      return {
+        body: toEuropassXml(toEuropassJson(profile, locale)),
+        contentType: 'application/xml; charset=utf-8',
+        extension: 'xml',
+      };
+  }
+}
+
+export function isProfileInterchangeFormat(value: unknown): value is ProfileInterchangeFormat {
+  return PROFILE_INTERCHANGE_FORMATS.includes(value as ProfileInterchangeFormat);
+}
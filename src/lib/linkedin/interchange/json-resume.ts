@@ -0,0 +1,361 @@
+/**
+ * JSON Resume (https://jsonresume.org/schema, v1.0.0) ⇄ ParsedLinkedIn.
+ *
+ * Pure field mapping — no AI, no inference. Fields without a counterpart
+ * on the other side are dropped (export) or ignored (import); nothing is
+ * invented. Work `summary` + `highlights` fold into a single description
+ * with "• " bullet lines, and split back out on export.
+ */
+
+import type {
+  ParsedLinkedIn,
+  LinkedInExperience,
+  LinkedInEducation,
+  LinkedInProject,
+  LinkedInPublication,
+  LinkedInVolunteering,
+  LinkedInAward,
+  SavedProfile,
+} from '@/types';
+import { formatProfileDate, parseLooseDate, toIsoDate, toYear } from './dates';
+
+// ============ Schema (subset we read/write) ============
+
+export interface JsonResumeLocation {
+  address?: string;
+  postalCode?: string;
+  city?: string;
+  countryCode?: string;
+  region?: string;
+}
+
+export interface JsonResume {
+  $schema?: string;
+  basics?: {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JsonResumeLocation;
+    profiles?: Array<{ network?: string; username?: string; url?: string }>;
+  };
+  work?: Array<{
+    name?: string;
+    /** Pre-1.0 spelling, still common in the wild. */
+    company?: string;
+    position?: string;
+    location?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }>;
+  education?: Array<{
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+  }>;
+  certificates?: Array<{ name?: string; date?: string; issuer?: string; url?: string }>;
+  skills?: Array<{ name?: string; level?: string; keywords?: string[] }>;
+  languages?: Array<{ language?: string; fluency?: string }>;
+  interests?: Array<{ name?: string; keywords?: string[] }>;
+  projects?: Array<{
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+  }>;
+  publications?: Array<{ name?: string; publisher?: string; releaseDate?: string; url?: string; summary?: string }>;
+  volunteer?: Array<{
+    organization?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+  }>;
+  awards?: Array<{ title?: string; date?: string; awarder?: string; summary?: string }>;
+  /** `reference` is the referee's quote, which the profile doesn't keep. */
+  references?: Array<{ name?: string; reference?: string }>;
+  meta?: { canonical?: string; version?: string; lastModified?: string };
+}
+
+export const JSON_RESUME_SCHEMA_URL =
+  'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// ============ Shared helpers ============
+
+const BULLET_RE = /^\s*(?:[-•*·]|\d+[.)])\s+/;
+
+/** Split a free-text description into leading prose and bullet lines. */
+export function splitDescription(description: string | null | undefined): { summary: string; highlights: string[] } {
+  const lines = (description ?? '').split('\n').map(l => l.trim()).filter(Boolean);
+  const summary = lines.filter(l => !BULLET_RE.test(l)).join('\n');
+  const highlights = lines.filter(l => BULLET_RE.test(l)).map(l => l.replace(BULLET_RE, '').trim());
+  return { summary, highlights };
+}
+
+/** Inverse of splitDescription — prose first, then "• " bullets. */
+export function joinDescription(summary: string | null | undefined, highlights: string[] | undefined): string | null {
+  const parts = [summary?.trim() ?? '', ...(highlights ?? []).filter(Boolean).map(h => `• ${h.trim()}`)]
+    .filter(Boolean);
+  return parts.length ? parts.join('\n') : null;
+}
+
+function nonEmpty(value: string | null | undefined): string | undefined {
+  const v = value?.trim();
+  return v ? v : undefined;
+}
+
+function findProfileUrl(
+  profiles: NonNullable<JsonResume['basics']>['profiles'],
+  network: RegExp,
+): string | undefined {
+  return profiles?.find(p => network.test(p.network ?? '') || network.test(p.url ?? ''))?.url;
+}
+
+// ============ Export ============
+
+export function toJsonResume(profile: Pick<SavedProfile, 'parsedData' | 'avatarUrl' | 'updatedAt'>): JsonResume {
+  const p = profile.parsedData;
+
+  const profiles: NonNullable<JsonResume['basics']>['profiles'] = [];
+  if (p.linkedinUrl) profiles.push({ network: 'LinkedIn', url: p.linkedinUrl });
+  if (p.github) profiles.push({ network: 'GitHub', url: p.github });
+
+  const work = p.experience.map(exp => {
+    const { summary, highlights } = splitDescription(exp.description);
+    return {
+      name: exp.company,
+      position: exp.title,
+      location: nonEmpty(exp.location),
+      startDate: toIsoDate(exp.startDate),
+      endDate: exp.isCurrentRole ? undefined : toIsoDate(exp.endDate),
+      summary: nonEmpty(summary),
+      highlights: highlights.length ? highlights : undefined,
+    };
+  });
+
+  const education = p.education.map(edu => ({
+    institution: edu.school,
+    studyType: nonEmpty(edu.degree),
+    area: nonEmpty(edu.fieldOfStudy),
+    startDate: toIsoDate(edu.startYear),
+    endDate: toIsoDate(edu.endYear),
+  }));
+
+  const projects = (p.projects ?? []).map(proj => {
+    const { summary, highlights } = splitDescription(proj.description);
+    return {
+      name: proj.title,
+      description: nonEmpty(summary),
+      highlights: highlights.length ? highlights : undefined,
+      keywords: proj.technologies.length ? proj.technologies : undefined,
+      startDate: toIsoDate(proj.startDate),
+      endDate: toIsoDate(proj.endDate),
+      url: nonEmpty(proj.url),
+      roles: proj.role ? [proj.role] : undefined,
+    };
+  });
+
+  const volunteer = (p.volunteering ?? []).map(vol => {
+    const { summary, highlights } = splitDescription(vol.description);
+    return {
+      organization: vol.organization,
+      position: vol.role,
+      startDate: toIsoDate(vol.startDate),
+      endDate: toIsoDate(vol.endDate),
+      summary: nonEmpty(summary),
+      highlights: highlights.length ? highlights : undefined,
+    };
+  });
+
+  const lastModified = profile.updatedAt instanceof Date ? profile.updatedAt : new Date(profile.updatedAt);
+
+  return {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: p.fullName,
+      label: nonEmpty(p.headline),
+      image: nonEmpty(profile.avatarUrl),
+      email: nonEmpty(p.email),
+      phone: nonEmpty(p.phone),
+      url: nonEmpty(p.website),
+      summary: nonEmpty(p.about),
+      location: p.location ? { city: p.location } : undefined,
+      profiles: profiles.length ? profiles : undefined,
+    },
+    work,
+    education,
+    certificates: p.certifications.map(c => ({
+      name: c.name,
+      issuer: nonEmpty(c.issuer),
+      date: toIsoDate(c.issueDate),
+    })),
+    skills: p.skills.map(s => ({ name: s.name })),
+    languages: p.languages.map(l => ({ language: l.language, fluency: nonEmpty(l.proficiency) })),
+    interests: (p.interests ?? []).map(name => ({ name })),
+    projects,
+    publications: (p.publications ?? []).map(pub => ({
+      name: pub.title,
+      publisher: nonEmpty(pub.publisher),
+      releaseDate: toIsoDate(pub.date),
+      url: nonEmpty(pub.url),
+      summary: nonEmpty(pub.description),
+    })),
+    volunteer,
+    awards: (p.awards ?? []).map(a => ({
+      title: a.title,
+      awarder: nonEmpty(a.issuer),
+      date: toIsoDate(a.date),
+      summary: nonEmpty(a.description),
+    })),
+    references: (p.references ?? []).map(r => ({ name: r.name })),
+    meta: {
+      version: 'v1.0.0',
+      lastModified: isNaN(lastModified.getTime()) ? undefined : lastModified.toISOString(),
+    },
+  };
+}
+
+// ============ Import ============
+
+export function isJsonResume(data: unknown): data is JsonResume {
+  if (!data || typeof data !== 'object') return false;
+  const d = data as Record<string, unknown>;
+  return typeof d.basics === 'object' || Array.isArray(d.work);
+}
+
+export function fromJsonResume(resume: JsonResume): ParsedLinkedIn {
+  const basics = resume.basics ?? {};
+  const loc = basics.location;
+  const location = loc
+    ? [loc.city, loc.region, loc.countryCode].map(nonEmpty).filter(Boolean).join(', ') || null
+    : null;
+
+  const experience: LinkedInExperience[] = (resume.work ?? [])
+    .filter(w => w.position || w.name || w.company)
+    .map(w => ({
+      title: w.position?.trim() ?? '',
+      company: (w.name ?? w.company ?? '').trim(),
+      location: nonEmpty(w.location) ?? null,
+      startDate: formatProfileDate(parseLooseDate(w.startDate)) ?? '',
+      endDate: formatProfileDate(parseLooseDate(w.endDate)),
+      description: joinDescription(w.summary, w.highlights),
+      isCurrentRole: !nonEmpty(w.endDate),
+    }));
+
+  const education: LinkedInEducation[] = (resume.education ?? [])
+    .filter(e => e.institution)
+    .map(e => ({
+      school: e.institution!.trim(),
+      degree: nonEmpty(e.studyType) ?? null,
+      fieldOfStudy: nonEmpty(e.area) ?? null,
+      startYear: toYear(e.startDate),
+      endYear: toYear(e.endDate),
+    }));
+
+  // JSON Resume groups skills as { name, keywords[] }. A group with keywords
+  // is a category ("Frontend": [React, Vue]) — import the keywords; a bare
+  // name is itself the skill.
+  const skillNames = (resume.skills ?? []).flatMap(s =>
+    s.keywords?.length ? s.keywords : s.name ? [s.name] : [],
+  );
+  const seen = new Set<string>();
+  const skills = skillNames
+    .map(n => n.trim())
+    .filter(n => n && !seen.has(n.toLowerCase()) && seen.add(n.toLowerCase()))
+    .map(name => ({ name }));
+
+  const projects: LinkedInProject[] = (resume.projects ?? [])
+    .filter(p => p.name)
+    .map(p => ({
+      title: p.name!.trim(),
+      description: joinDescription(p.description, p.highlights),
+      technologies: p.keywords ?? [],
+      url: nonEmpty(p.url) ?? null,
+      startDate: formatProfileDate(parseLooseDate(p.startDate)),
+      endDate: formatProfileDate(parseLooseDate(p.endDate)),
+      role: p.roles?.length ? p.roles.join(', ') : null,
+    }));
+
+  const publications: LinkedInPublication[] = (resume.publications ?? [])
+    .filter(p => p.name)
+    .map(p => ({
+      title: p.name!.trim(),
+      publisher: nonEmpty(p.publisher) ?? null,
+      date: formatProfileDate(parseLooseDate(p.releaseDate)),
+      url: nonEmpty(p.url) ?? null,
+      description: nonEmpty(p.summary) ?? null,
+    }));
+
+  const volunteering: LinkedInVolunteering[] = (resume.volunteer ?? [])
+    .filter(v => v.organization)
+    .map(v => ({
+      role: v.position?.trim() ?? '',
+      organization: v.organization!.trim(),
+      cause: null,
+      startDate: formatProfileDate(parseLooseDate(v.startDate)),
+      endDate: formatProfileDate(parseLooseDate(v.endDate)),
+      description: joinDescription(v.summary, v.highlights),
+    }));
+
+  const awards: LinkedInAward[] = (resume.awards ?? [])
+    .filter(a => a.title)
+    .map(a => ({
+      title: a.title!.trim(),
+      issuer: nonEmpty(a.awarder) ?? null,
+      date: formatProfileDate(parseLooseDate(a.date)),
+      description: nonEmpty(a.summary) ?? null,
+    }));
+
+  const references = (resume.references ?? [])
+    .map(r => r.name?.trim())
+    .filter((name): name is string => !!name)
+    .map(name => ({ name, relationship: null, contact: null }));
+
+  return {
+    fullName: basics.name?.trim() ?? '',
+    headline: nonEmpty(basics.label) ?? null,
+    location,
+    about: nonEmpty(basics.summary) ?? null,
+    experience,
+    education,
+    skills,
+    languages: (resume.languages ?? [])
+      .filter(l => l.language)
+      .map(l => ({ language: l.language!.trim(), proficiency: nonEmpty(l.fluency) ?? null })),
+    certifications: (resume.certificates ?? [])
+      .filter(c => c.name)
+      .map(c => ({
+        name: c.name!.trim(),
+        issuer: nonEmpty(c.issuer) ?? null,
+        issueDate: formatProfileDate(parseLooseDate(c.date)),
+      })),
+    projects,
+    publications: publications.length ? publications : undefined,
+    volunteering: volunteering.length ? volunteering : undefined,
+    awards: awards.length ? awards : undefined,
+    references: references.length ? references : undefined,
+    email: nonEmpty(basics.email),
+    phone: nonEmpty(basics.phone),
+    website: nonEmpty(basics.url),
+    linkedinUrl: findProfileUrl(basics.profiles, /linkedin/i),
+    github: findProfileUrl(basics.profiles, /github/i),
+    interests: (resume.interests ?? []).map(i => i.name?.trim()).filter((n): n is string => !!n),
+  };
+}
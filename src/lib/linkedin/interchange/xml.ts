@@ -0,0 +1,135 @@
+/**
+ * Minimal XML reader/writer for the Europass converter.
+ *
+ * Browser- and Node-safe (no DOMParser, no deps) so the same converter runs
+ * in the profiles page and in API routes. Supports elements, attributes,
+ * text, CDATA, comments, processing instructions and the five predefined
+ * entities plus numeric character references — everything Europass v3
+ * SkillsPassport documents use. Namespace prefixes are stripped.
+ */
+
+export interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at offset ${position})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+export function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, ref: string) => {
+    switch (ref) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          ref[1] === 'x' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10),
+        );
+    }
+  });
+}
+
+export function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function localName(name: string): string {
+  const idx = name.indexOf(':');
+  return idx >= 0 ? name.slice(idx + 1) : name;
+}
+
+/** Parse an XML document and return its root element. */
+export function parseXml(source: string): XmlElement {
+  let pos = 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const skip = (terminator: string) => {
+    const end = source.indexOf(terminator, pos);
+    if (end < 0) throw new XmlParseError(`Unterminated construct, expected "${terminator}"`, pos);
+    pos = end + terminator.length;
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    const textEnd = lt < 0 ? source.length : lt;
+    if (textEnd > pos && stack.length) {
+      stack[stack.length - 1].text += decodeXmlEntities(source.slice(pos, textEnd));
+    }
+    if (lt < 0) break;
+    pos = lt;
+
+    if (source.startsWith('<?', pos)) {
+      skip('?>');
+    } else if (source.startsWith('<!--', pos)) {
+      skip('-->');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const start = pos + 9;
+      skip(']]>');
+      if (stack.length) stack[stack.length - 1].text += source.slice(start, pos - 3);
+    } else if (source.startsWith('<!', pos)) {
+      skip('>');
+    } else if (source.startsWith('</', pos)) {
+      const end = source.indexOf('>', pos);
+      if (end < 0) throw new XmlParseError('Unterminated closing tag', pos);
+      const name = localName(source.slice(pos + 2, end).trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw new XmlParseError(`Mismatched closing tag </${name}>`, pos);
+      }
+      pos = end + 1;
+    } else {
+      const end = source.indexOf('>', pos);
+      if (end < 0) throw new XmlParseError('Unterminated opening tag', pos);
+      let raw = source.slice(pos + 1, end);
+      const selfClosing = raw.endsWith('/');
+      if (selfClosing) raw = raw.slice(0, -1);
+
+      const nameMatch = raw.match(/^\s*([^\s/>]+)/);
+      if (!nameMatch) throw new XmlParseError('Missing tag name', pos);
+      const el: XmlElement = { name: localName(nameMatch[1]), attrs: {}, children: [], text: '' };
+
+      const attrRe = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let m: RegExpExecArray | null;
+      const attrSource = raw.slice(nameMatch[0].length);
+      while ((m = attrRe.exec(attrSource))) {
+        el.attrs[localName(m[1])] = decodeXmlEntities(m[3] ?? m[4] ?? '');
+      }
+
+      if (stack.length) stack[stack.length - 1].children.push(el);
+      else if (!root) root = el;
+      else throw new XmlParseError('Multiple root elements', pos);
+
+      if (!selfClosing) stack.push(el);
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length) throw new XmlParseError(`Unclosed element <${stack[stack.length - 1].name}>`, pos);
+  if (!root) throw new XmlParseError('No root element', 0);
+  return root;
+}
+
+/** Serialize an element tree. Empty text + no children → self-closing tag. */
+export function serializeXml(el: XmlElement, indent = ''): string {
+  const attrs = Object.entries(el.attrs)
+    .map(([k, v]) => ` ${k}="${escapeXml(v)}"`)
+    .join('');
+  if (!el.children.length && !el.text) return `${indent}<${el.name}${attrs}/>`;
+  if (!el.children.length) return `${indent}<${el.name}${attrs}>${escapeXml(el.text)}</${el.name}>`;
+  const inner = el.children.map(c => serializeXml(c, `${indent}  `)).join('\n');
+  return `${indent}<${el.name}${attrs}>\n${inner}\n${indent}</${el.name}>`;
+}
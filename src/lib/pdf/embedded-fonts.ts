@@ -0,0 +1,221 @@
+/**
+ * Self-hosted web fonts for PDF export.
+ *
+ * Both renderers emit Google Fonts `<link>` tags, which is right for the live
+ * preview but makes PDFs depend on fonts.googleapis.com: in a locked-down
+ * container or on a slow fetch Chromium silently falls back to system fonts
+ * or `networkidle0` times out. `embedFonts` swaps those links for inline
+ * base64 `@font-face` rules built from the copies in public/fonts.
+ *
+ * Google splits every family into unicode-range subsets (latin, latin-ext,
+ * cyrillic, …); only the subsets that cover characters actually in the
+ * document are inlined, so a Dutch CV carries latin + latin-ext and nothing
+ * else. Families missing from the bundle keep their `<link>` tag.
+ *
+ * Server-only (node:fs). The bundle is written by scripts/fetch-fonts.mts.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export const FONTS_DIR = join(process.cwd(), 'public', 'fonts');
+export const FONT_MANIFEST_PATH = join(FONTS_DIR, 'manifest.json');
+
+export interface EmbeddedFontFace {
+  family: string;
+  style: 'normal' | 'italic';
+  weight: number;
+  /** Google's subset name, e.g. `latin-ext` */
+  subset: string;
+  /** CSS `unicode-range` value as served by Google */
+  unicodeRange: string;
+  /** woff2 path relative to public/fonts */
+  file: string;
+}
+
+export interface FontManifest {
+  faces: EmbeddedFontFace[];
+}
+
+export interface GoogleFontRequest {
+  family: string;
+  weights: number[];
+}
+
+// ============ Google Fonts URLs ============
+
+/**
+ * 'https://fonts.googleapis.com/css2?family=Source+Sans+3:wght@400;600&display=swap'
+ *   → [{ family: 'Source Sans 3', weights: [400, 600] }]
+ */
+export function parseGoogleFontsUrl(url: string): GoogleFontRequest[] {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.replace(/&amp;/g, '&'));
+  } catch {
+    return [];
+  }
+  return parsed.searchParams.getAll('family').map((param) => {
+    const [family, axes = ''] = param.split(':');
+    const match = axes.match(/^wght@([\d;]+)$/);
+    const weights = match
+      ? [...new Set(match[1].split(';').map(Number).filter(Boolean))].sort((a, b) => a - b)
+      : [400];
+    return { family, weights };
+  });
+}
+
+// ============ Unicode ranges ============
+
+/** 'U+0000-00FF, U+0131, U+1E??' → [[0x0, 0xff], [0x131, 0x131], [0x1e00, 0x1eff]] */
+export function parseUnicodeRange(range: string): Array<[number, number]> {
+  const out: Array<[number, number]> = [];
+  for (const raw of range.split(',')) {
+    const part = raw.trim().replace(/^U\+/i, '');
+    if (!part) continue;
+    if (part.includes('-')) {
+      const [from, to] = part.split('-');
+      out.push([parseInt(from, 16), parseInt(to, 16)]);
+    } else if (part.includes('?')) {
+      out.push([parseInt(part.replace(/\?/g, '0'), 16), parseInt(part.replace(/\?/g, 'F'), 16)]);
+    } else {
+      const cp = parseInt(part, 16);
+      out.push([cp, cp]);
+    }
+  }
+  return out.filter(([from, to]) => !Number.isNaN(from) && !Number.isNaN(to));
+}
+
+function coversAny(ranges: Array<[number, number]>, codePoints: number[]): boolean {
+  return codePoints.some((cp) => ranges.some(([from, to]) => cp >= from && cp <= to));
+}
+
+/**
+ * Every character the document can render: text nodes, attribute values
+ * and stylesheet `content:` strings alike, so erring towards one subset too
+ * many rather than a glyph rendered in a fallback font.
+ */
+function documentCodePoints(html: string): number[] {
+  const text = html
+    .replace(/<script\b[\s\S]*?<\/script>/gi, ' ')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)));
+  const codePoints = new Set<number>();
+  for (const char of text) codePoints.add(char.codePointAt(0)!);
+  return [...codePoints];
+}
+
+// ============ Bundle ============
+
+let manifestPromise: Promise<FontManifest | null> | null = null;
+const fileCache = new Map<string, Promise<string | null>>();
+const warned = new Set<string>();
+
+function warnOnce(key: string, message: string): void {
+  if (warned.has(key)) return;
+  warned.add(key);
+  console.warn(message);
+}
+
+function loadManifest(): Promise<FontManifest | null> {
+  manifestPromise ??= readFile(FONT_MANIFEST_PATH, 'utf-8')
+    .then((raw) => JSON.parse(raw) as FontManifest)
+    .catch(() => {
+      warnOnce(
+        'manifest',
+        `[pdf-fonts] no font bundle at ${FONT_MANIFEST_PATH}; PDFs load fonts from Google. Run npm run fetch:fonts.`,
+      );
+      return null;
+    });
+  return manifestPromise;
+}
+
+function loadFontFile(file: string): Promise<string | null> {
+  let pending = fileCache.get(file);
+  if (!pending) {
+    pending = readFile(join(FONTS_DIR, file))
+      .then((buffer) => buffer.toString('base64'))
+      .catch(() => null);
+    fileCache.set(file, pending);
+  }
+  return pending;
+}
+
+/**
+ * Inline `@font-face` CSS for one stylesheet URL, or null when any of its
+ * family/weight combinations is missing from the bundle.
+ */
+async function buildFontFaceCSS(
+  url: string,
+  manifest: FontManifest,
+  codePoints: number[],
+): Promise<string | null> {
+  const requests = parseGoogleFontsUrl(url);
+  if (requests.length === 0) return null;
+
+  const faces: EmbeddedFontFace[] = [];
+  for (const { family, weights } of requests) {
+    for (const weight of weights) {
+      const available = manifest.faces.filter(
+        (f) => f.family === family && f.weight === weight && f.style === 'normal',
+      );
+      if (available.length === 0) {
+        warnOnce(`${family}:${weight}`, `[pdf-fonts] ${family} ${weight} is not bundled; falling back to Google Fonts.`);
+        return null;
+      }
+      faces.push(...available.filter((f) => coversAny(parseUnicodeRange(f.unicodeRange), codePoints)));
+    }
+  }
+
+  // Variable fonts serve one file for every weight — embed it once with a
+  // weight range instead of once per weight.
+  const groups = new Map<string, { face: EmbeddedFontFace; weights: number[] }>();
+  for (const face of faces) {
+    const key = `${face.family}|${face.style}|${face.file}`;
+    const group = groups.get(key);
+    if (group) group.weights.push(face.weight);
+    else groups.set(key, { face, weights: [face.weight] });
+  }
+
+  const rules: string[] = [];
+  for (const { face, weights } of groups.values()) {
+    const data = await loadFontFile(face.file);
+    if (!data) {
+      warnOnce(face.file, `[pdf-fonts] ${face.file} is listed in the manifest but missing; falling back to Google Fonts.`);
+      return null;
+    }
+    const min = Math.min(...weights);
+    const max = Math.max(...weights);
+    rules.push(
+      `@font-face{font-family:'${face.family}';font-style:${face.style};` +
+        `font-weight:${min === max ? min : `${min} ${max}`};font-display:block;` +
+        `src:url(data:font/woff2;base64,${data}) format('woff2');unicode-range:${face.unicodeRange};}`,
+    );
+  }
+  return rules.join('\n');
+}
+
+const GOOGLE_FONTS_LINK = /<link\b[^>]*\bhref="(https:\/\/fonts\.googleapis\.com\/css2\?[^"]+)"[^>]*>/g;
+
+/**
+ * Replace Google Fonts `<link>` tags in a rendered document with inline
+ * `@font-face` rules from the local bundle. Links whose fonts aren't bundled
+ * are left in place.
+ */
+export async function embedFonts(html: string): Promise<string> {
+  const links = [...html.matchAll(GOOGLE_FONTS_LINK)];
+  if (links.length === 0) return html;
+
+  const manifest = await loadManifest();
+  if (!manifest) return html;
+
+  const codePoints = documentCodePoints(html);
+  const replacements = new Map<string, string>();
+  for (const [tag, url] of links) {
+    if (replacements.has(tag)) continue;
+    const css = await buildFontFaceCSS(url, manifest, codePoints);
+    replacements.set(tag, css === null ? tag : `<style data-embedded-fonts>\n${css}\n</style>`);
+  }
+
+  return html.replace(GOOGLE_FONTS_LINK, (tag) => replacements.get(tag) ?? tag);
+}
@@ -1,9 +1,14 @@
 import puppeteer from 'puppeteer';
 import chromium from '@sparticuz/chromium';
 import type { GeneratedCVContent, CVElementOverrides, CVContactInfo } from '@/types';
-import type { CVDesignTokens } from '@/types/design-tokens';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
 import { generateCVHTML, getDefaultTokens } from '@/lib/cv/html-generator';
 import { renderCV, isV2Tokens } from '@/lib/cv-engine/dispatch';
+import { paginateCVDocument } from '@/lib/cv-engine/render/paginate';
+import type { Locale } from '@/lib/cv-engine/render/labels';
+import type { DesignSpec } from '@/lib/cv-engine/spec';
+import { getPaperDimensions } from '@/lib/cv/paper-size';
+import { embedFonts } from './embedded-fonts';
 
 // Check if we're in a serverless environment
 const isServerless = process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME;
@@ -44,16 +49,25 @@ export async function generatePDF(
   headline?: string | null,
   overrides?: CVElementOverrides | null,
   contactInfo?: CVContactInfo | null,
-  pageMode: PDFPageMode = 'multi-page'
+  pageMode: PDFPageMode = 'multi-page',
+  paperSize?: PaperSize | null,
+  locale?: Locale | null,
+  customRecipes?: readonly DesignSpec[]
 ): Promise<Buffer> {
   // Use provided tokens or default (legacy default — v2 tokens always come
   // through the caller; v1 docs fall back to legacy defaults).
   const effectiveTokens = tokens || getDefaultTokens();
 
+  // Explicit request beats the size stored on the tokens; A4 otherwise.
+  const effectivePaperSize: PaperSize = paperSize ?? effectiveTokens.paperSize ?? 'a4';
+  const paper = getPaperDimensions(effectivePaperSize);
+
   // Generate HTML via dispatcher — branches on engineVersion. Legacy path gets
   // `forPdf: true` so click-to-edit bridge isn't injected. v2 uses `pageMode`
-  // to map our internal single-page / multi-page output.
-  const html = renderCV(
+  // to map our internal single-page / multi-page output. Google Fonts links
+  // are swapped for the self-hosted bundle so export doesn't hang on, or
+  // silently miss, a network fetch.
+  const html = await embedFonts(renderCV(
     content,
     effectiveTokens,
     {
@@ -64,14 +78,19 @@ export async function generatePDF(
       contactInfo,
       legacyOptions: { forPdf: true },
       pageMode: pageMode === 'single-page' ? 'single-long' : 'a4-paged',
+      paperSize: effectivePaperSize,
+      locale: locale ?? undefined,
+      customRecipes,
     },
-  );
+  ));
 
   const browser = await getBrowser();
   const page = await browser.newPage();
 
-  // Set content
+  // Set content. Inlined fonts still decode asynchronously — wait for them
+  // before anything measures the layout.
   await page.setContent(html, { waitUntil: 'networkidle0' });
+  await page.evaluate(() => document.fonts.ready.then(() => undefined));
 
   const isFullBleed = effectiveTokens.headerFullBleed === true;
 
@@ -135,7 +154,7 @@ export async function generatePDF(
 
     const contentWidthMm = Math.ceil(pxToMm(contentSize.width));
     const contentHeightMm = Math.ceil(pxToMm(contentSize.height));
-    const widthMm = Math.max(160, Math.min(210, contentWidthMm));
+    const widthMm = Math.max(160, Math.min(Math.ceil(paper.widthMm), contentWidthMm));
     const heightMm = Math.max(80, contentHeightMm + 4);
 
     pdf = await page.pdf({
@@ -148,9 +167,17 @@ export async function generatePDF(
   } else {
     await page.emulateMediaType('print');
 
-    // Multi-page mode: standard A4 pages
+    // v2 shapes render one tall `.cv-page`; cut it into real sheets in the
+    // browser so items break at experience boundaries, the sidebar/background
+    // repeats and every sheet gets a running footer. Fonts are loaded by now
+    // (see setContent above) — fallback metrics would move every break.
+    if (isV2Tokens(effectiveTokens)) {
+      await page.evaluate(paginateCVDocument, { footerName: fullName });
+    }
+
+    // Multi-page mode: standard sheets of the chosen paper size
     pdf = await page.pdf({
-      format: 'A4',
+      format: paper.format,
       printBackground: true,
       ...(isFullBleed ? { preferCSSPageSize: true } : {}),
       margin: zeroMargin,
@@ -0,0 +1,280 @@
+import puppeteer from 'puppeteer';
+import chromium from '@sparticuz/chromium';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
+import type { InterviewPrepPack, InterviewQuestionCategory } from '@/types/interview-prep';
+import { fontPairings, typeScales } from '@/lib/cv/templates/themes';
+import { getPaperDimensions } from '@/lib/cv/paper-size';
+import { LANGUAGE_LOCALES, type OutputLanguage } from '@/types/language';
+
+// Check if we're in a serverless environment
+const isServerless = process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+async function getBrowser() {
+  if (isServerless) {
+    return puppeteer.launch({
+      args: chromium.args,
+      defaultViewport: { width: 1200, height: 1600 },
+      executablePath: await chromium.executablePath(),
+      headless: true,
+    });
+  }
+
+  return puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+  });
+}
+
+interface PrepLabels {
+  title: string;
+  round: (round: number) => string;
+  categories: Record<InterviewQuestionCategory, string>;
+  why: string;
+  star: { situation: string; task: string; action: string; result: string };
+  evidence: string;
+  skills: string;
+  tip: string;
+  gap: string;
+  questionsToAsk: string;
+}
+
+const LABELS: Record<OutputLanguage, PrepLabels> = {
+  nl: {
+    title: 'Gespreksvoorbereiding',
+    round: (n) => `Ronde ${n}`,
+    categories: { behavioural: 'Gedragsvragen', technical: 'Vakinhoudelijke vragen', gap: 'Aandachtspunten', motivation: 'Motivatie' },
+    why: 'Waarom ze dit vragen',
+    star: { situation: 'Situatie', task: 'Taak', action: 'Actie', result: 'Resultaat' },
+    evidence: 'Gebaseerd op',
+    skills: 'Noem',
+    tip: 'Aanpak',
+    gap: 'Raakt aan',
+    questionsToAsk: 'Vragen om zelf te stellen',
+  },
+  en: {
+    title: 'Interview preparation',
+    round: (n) => `Round ${n}`,
+    categories: { behavioural: 'Behavioural questions', technical: 'Role & technical questions', gap: 'Points of attention', motivation: 'Motivation' },
+    why: 'Why they ask',
+    star: { situation: 'Situation', task: 'Task', action: 'Action', result: 'Result' },
+    evidence: 'Based on',
+    skills: 'Mention',
+    tip: 'Approach',
+    gap: 'Relates to',
+    questionsToAsk: 'Questions to ask',
+  },
+  de: {
+    title: 'Vorbereitung auf das Vorstellungsgespräch',
+    round: (n) => `Runde ${n}`,
+    categories: { behavioural: 'Verhaltensfragen', technical: 'Fachfragen', gap: 'Kritische Punkte', motivation: 'Motivation' },
+    why: 'Warum gefragt wird',
+    star: { situation: 'Situation', task: 'Aufgabe', action: 'Handlung', result: 'Ergebnis' },
+    evidence: 'Grundlage',
+    skills: 'Erwähnen',
+    tip: 'Vorgehen',
+    gap: 'Bezieht sich auf',
+    questionsToAsk: 'Eigene Fragen',
+  },
+  fr: {
+    title: "Préparation à l'entretien",
+    round: (n) => `Tour ${n}`,
+    categories: { behavioural: 'Questions comportementales', technical: 'Questions techniques', gap: 'Points de vigilance', motivation: 'Motivation' },
+    why: 'Pourquoi cette question',
+    star: { situation: 'Situation', task: 'Tâche', action: 'Action', result: 'Résultat' },
+    evidence: 'Basé sur',
+    skills: 'À citer',
+    tip: 'Approche',
+    gap: 'Concerne',
+    questionsToAsk: 'Questions à poser',
+  },
+  es: {
+    title: 'Preparación de la entrevista',
+    round: (n) => `Ronda ${n}`,
+    categories: { behavioural: 'Preguntas de comportamiento', technical: 'Preguntas técnicas', gap: 'Puntos de atención', motivation: 'Motivación' },
+    why: 'Por qué lo preguntan',
+    star: { situation: 'Situación', task: 'Tarea', action: 'Acción', result: 'Resultado' },
+    evidence: 'Basado en',
+    skills: 'Menciona',
+    tip: 'Enfoque',
+    gap: 'Relacionado con',
+    questionsToAsk: 'Preguntas para hacer',
+  },
+};
+
+const CATEGORY_ORDER: InterviewQuestionCategory[] = ['behavioural', 'technical', 'gap', 'motivation'];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface InterviewPrepDocumentData {
+  pack: InterviewPrepPack;
+  candidateName: string;
+}
+
+/**
+ * Printable prep sheet: questions grouped by category, each with its STAR
+ * outline or approach tip, then the questions to ask. Uses the CV's fonts
+ * and colours so it reads as part of the same application.
+ */
+function generateInterviewPrepHTML(data: InterviewPrepDocumentData, tokens: CVDesignTokens): string {
+  const { pack } = data;
+  const labels = LABELS[pack.language];
+  const fontConfig = fontPairings[tokens.fontPairing];
+  const typeScale = typeScales[tokens.scale];
+  const date = new Date(pack.generatedAt).toLocaleDateString(LANGUAGE_LOCALES[pack.language], {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  const fontLinks = [fontConfig.heading.googleUrl, fontConfig.body.googleUrl]
+    .filter(url => url && url.length > 0)
+    .map(url => `<link href="${url}" rel="stylesheet">`)
+    .join('\n  ');
+
+  let number = 0;
+  const sections = CATEGORY_ORDER.map(category => {
+    const questions = pack.questions.filter(q => q.category === category);
+    if (questions.length === 0) return '';
+    const items = questions.map(q => {
+      number += 1;
+      const star = q.answer
+        ? `<dl class="star">
+            <dt>${labels.star.situation}</dt><dd>${escapeHtml(q.answer.situation)}</dd>
+            ${q.answer.task ? `<dt>${labels.star.task}</dt><dd>${escapeHtml(q.answer.task)}</dd>` : ''}
+            <dt>${labels.star.action}</dt><dd>${escapeHtml(q.answer.action)}</dd>
+            ${q.answer.result ? `<dt>${labels.star.result}</dt><dd>${escapeHtml(q.answer.result)}</dd>` : ''}
+          </dl>
+          <p class="meta">${labels.evidence}: ${q.answer.evidence.map(e => escapeHtml(e.label)).join(' · ')}${
+            q.answer.skills.length > 0 ? ` &nbsp;|&nbsp; ${labels.skills}: ${q.answer.skills.map(escapeHtml).join(', ')}` : ''
+          }</p>`
+        : '';
+      return `<div class="question">
+        <h3><span class="num">${number}.</span> ${escapeHtml(q.question)}</h3>
+        ${q.relatedWarning ? `<p class="meta">${labels.gap}: ${escapeHtml(q.relatedWarning)}</p>` : ''}
+        ${q.why ? `<p class="why"><strong>${labels.why}:</strong> ${escapeHtml(q.why)}</p>` : ''}
+        ${star}
+        ${q.tip ? `<p class="tip"><strong>${labels.tip}:</strong> ${escapeHtml(q.tip)}</p>` : ''}
+      </div>`;
+    }).join('\n');
+    return `<section><h2>${labels.categories[category]}</h2>${items}</section>`;
+  }).join('\n');
+
+  const askItems = pack.questionsToAsk
+    .map(q => `<li><strong>${escapeHtml(q.question)}</strong>${q.why ? `<br><span class="why">${escapeHtml(q.why)}</span>` : ''}</li>`)
+    .join('\n');
+
+  const subtitle = [
+    pack.jobTitle,
+    pack.company,
+    pack.round ? labels.round(pack.round) : null,
+  ].filter(Boolean).map(v => escapeHtml(String(v))).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="${pack.language}">
+<head>
+  <meta charset="UTF-8">
+  <title>${labels.title} - ${escapeHtml(data.candidateName)}</title>
+  ${fontLinks}
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+
+    body {
+      font-family: ${fontConfig.body.family};
+      font-size: ${typeScale.body}pt;
+      line-height: 1.5;
+      color: ${tokens.colors.text};
+      background: white;
+    }
+
+    header {
+      border-bottom: 2px solid ${tokens.colors.accent};
+      padding-bottom: 10px;
+      margin-bottom: 18px;
+    }
+
+    h1 {
+      font-family: ${fontConfig.heading.family}, sans-serif;
+      font-size: ${typeScale.heading + 4}pt;
+      color: ${tokens.colors.primary};
+    }
+
+    .subtitle { color: ${tokens.colors.muted}; margin-top: 2px; }
+
+    h2 {
+      font-family: ${fontConfig.heading.family}, sans-serif;
+      font-size: ${typeScale.heading}pt;
+      color: ${tokens.colors.primary};
+      margin: 18px 0 8px;
+    }
+
+    .question {
+      break-inside: avoid;
+      margin-bottom: 12px;
+      padding-left: 10px;
+      border-left: 3px solid ${tokens.colors.accent};
+    }
+
+    h3 { font-size: ${typeScale.body}pt; font-weight: 600; margin-bottom: 3px; }
+    .num { color: ${tokens.colors.primary}; }
+    .why, .meta { color: ${tokens.colors.muted}; }
+    .meta { font-size: ${typeScale.small}pt; margin-top: 3px; }
+    .tip { margin-top: 4px; }
+
+    .star {
+      display: grid;
+      grid-template-columns: max-content 1fr;
+      gap: 2px 10px;
+      margin-top: 5px;
+    }
+    .star dt { font-weight: 600; color: ${tokens.colors.primary}; }
+
+    ul.ask { padding-left: 18px; }
+    ul.ask li { margin-bottom: 6px; break-inside: avoid; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${labels.title}</h1>
+    <div class="subtitle">${subtitle}</div>
+    <div class="subtitle">${escapeHtml(data.candidateName)} · ${date}</div>
+  </header>
+  ${sections}
+  <section>
+    <h2>${labels.questionsToAsk}</h2>
+    <ul class="ask">${askItems}</ul>
+  </section>
+</body>
+</html>`;
+}
+
+/**
+ * Generate PDF from an interview prep pack
+ */
+export async function generateInterviewPrepPDF(
+  data: InterviewPrepDocumentData,
+  tokens: CVDesignTokens,
+  paperSize?: PaperSize | null
+): Promise<Buffer> {
+  const paper = getPaperDimensions(paperSize ?? tokens.paperSize);
+  const html = generateInterviewPrepHTML(data, tokens);
+
+  const browser = await getBrowser();
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: 'networkidle0' });
+    const pdf = await page.pdf({
+      format: paper.format,
+      printBackground: true,
+      margin: { top: '18mm', right: '18mm', bottom: '18mm', left: '18mm' },
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
@@ -1,8 +1,12 @@
 import puppeteer from 'puppeteer';
 import chromium from '@sparticuz/chromium';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
-import type { CVDesignTokens } from '@/types/design-tokens';
+import type { CVDesignTokens, PaperSize } from '@/types/design-tokens';
 import { fontPairings, typeScales, spacingScales } from '@/lib/cv/templates/themes';
+import { getPaperDimensions, type PaperDimensions } from '@/lib/cv/paper-size';
+import { LETTER_CONVENTIONS, getSignOffPhrases } from '@/lib/ai/letter-conventions';
+import { LANGUAGE_LOCALES, type OutputLanguage } from '@/types/language';
+import { embedFonts } from './embedded-fonts';
 
 // Check if we're in a serverless environment
 const isServerless = process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME;
@@ -17,26 +21,18 @@ const isServerless = process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME;
  * from the content, the output has a double ending.
  *
  * This helper detects and removes the trailing sign-off paragraphs by
- * scanning from the end for common greeting phrases and standalone
- * name-like paragraphs (short, no period at the end).
+ * scanning from the end for common greeting phrases (in every output
+ * language) and standalone name-like paragraphs (short, no period at
+ * the end).
  */
-function stripSignOffParagraphs(paragraphs: string[], senderName: string): string[] {
+function stripSignOffParagraphs(
+  paragraphs: string[],
+  senderName: string,
+  language: OutputLanguage
+): string[] {
   if (paragraphs.length === 0) return paragraphs;
 
-  const signOffPhrases = [
-    'met vriendelijke groet',
-    'met hartelijke groet',
-    'vriendelijke groet',
-    'hartelijke groet',
-    'hoogachtend',
-    'kind regards',
-    'best regards',
-    'warm regards',
-    'yours sincerely',
-    'yours faithfully',
-    'sincerely',
-    'regards',
-  ];
+  const signOffPhrases = getSignOffPhrases(language);
 
   // Walk backwards from the end and strip sign-off paragraphs.
   // A paragraph is a sign-off paragraph if:
@@ -94,6 +90,8 @@ interface MotivationLetterData {
   senderPhone?: string;
   senderLocation?: string;
   date?: string;
+  /** Letter language — drives date format, heading and sign-off. Defaults to 'nl'. */
+  language?: OutputLanguage;
 }
 
 /**
@@ -111,13 +109,16 @@ function extractFontName(fontFamily: string): string {
  */
 function generateMotivationLetterHTML(
   data: MotivationLetterData,
-  tokens: CVDesignTokens
+  tokens: CVDesignTokens,
+  paper: PaperDimensions
 ): string {
   const fontConfig = fontPairings[tokens.fontPairing];
   const typeScale = typeScales[tokens.scale];
   const spacingScale = spacingScales[tokens.spacing];
 
-  const today = data.date || new Date().toLocaleDateString('nl-NL', {
+  const language = data.language ?? 'nl';
+  const conventions = LETTER_CONVENTIONS[language];
+  const today = data.date || new Date().toLocaleDateString(LANGUAGE_LOCALES[language], {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -132,7 +133,7 @@ function generateMotivationLetterHTML(
     .split('\n\n')
     .filter(p => p.trim())
     .map(p => p.trim());
-  const paragraphs = stripSignOffParagraphs(rawParagraphs, data.senderName);
+  const paragraphs = stripSignOffParagraphs(rawParagraphs, data.senderName, language);
 
   // Build Google Fonts links
   const fontLinks = [fontConfig.heading.googleUrl, fontConfig.body.googleUrl]
@@ -141,11 +142,11 @@ function generateMotivationLetterHTML(
     .join('\n  ');
 
   return `<!DOCTYPE html>
-<html lang="nl">
+<html lang="${language}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Motivatiebrief - ${data.senderName}</title>
+  <title>${conventions.documentTitle} - ${data.senderName}</title>
   ${fontLinks}
   <style>
     * {
@@ -160,8 +161,9 @@ function generateMotivationLetterHTML(
       line-height: 1.6;
       color: ${tokens.colors.text};
       background: white;
-      padding: 40mm 25mm;
-      max-width: 210mm;
+      /* Letter is 18mm shorter than A4 — give back some of the top margin. */
+      padding: ${paper.heightMm < 297 ? '32mm' : '40mm'} 25mm;
+      max-width: ${paper.widthMm}mm;
       margin: 0 auto;
     }
 
@@ -260,14 +262,14 @@ function generateMotivationLetterHTML(
   </div>
   ` : ''}
 
-  <div class="subject">Motivatiebrief</div>
+  <div class="subject">${conventions.documentTitle}</div>
 
   <div class="content">
     ${paragraphs.map(p => `<p class="paragraph">${p}</p>`).join('\n    ')}
   </div>
 
   <div class="closing">
-    <p>Met vriendelijke groet,</p>
+    <p>${conventions.signOff}</p>
     <div class="signature">
       <div class="signature-name">${data.senderName}</div>
     </div>
@@ -281,9 +283,11 @@ function generateMotivationLetterHTML(
  */
 export async function generateMotivationLetterPDF(
   data: MotivationLetterData,
-  tokens: CVDesignTokens
+  tokens: CVDesignTokens,
+  paperSize?: PaperSize | null
 ): Promise<Buffer> {
-  const html = generateMotivationLetterHTML(data, tokens);
+  const paper = getPaperDimensions(paperSize ?? tokens.paperSize);
+  const html = await embedFonts(generateMotivationLetterHTML(data, tokens, paper));
 
   const browser = await getBrowser();
   const page = await browser.newPage();
@@ -291,7 +295,7 @@ export async function generateMotivationLetterPDF(
   await page.setContent(html, { waitUntil: 'networkidle0' });
 
   const pdf = await page.pdf({
-    format: 'A4',
+    format: paper.format,
     printBackground: true,
     margin: {
       top: '20mm',
@@ -315,7 +319,9 @@ export async function generateMotivationLetterDOCX(
 ): Promise<Buffer> {
   const fontConfig = fontPairings[tokens.fontPairing];
 
-  const today = data.date || new Date().toLocaleDateString('nl-NL', {
+  const language = data.language ?? 'nl';
+  const conventions = LETTER_CONVENTIONS[language];
+  const today = data.date || new Date().toLocaleDateString(LANGUAGE_LOCALES[language], {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -327,7 +333,7 @@ export async function generateMotivationLetterDOCX(
     .split('\n\n')
     .filter(p => p.trim())
     .map(p => p.trim());
-  const paragraphs = stripSignOffParagraphs(rawParagraphs, data.senderName);
+  const paragraphs = stripSignOffParagraphs(rawParagraphs, data.senderName, language);
 
   // Build document sections
   const children: Paragraph[] = [];
@@ -414,7 +420,7 @@ export async function generateMotivationLetterDOCX(
       spacing: { before: 200, after: 400 },
       children: [
         new TextRun({
-          text: 'Motivatiebrief',
+          text: conventions.documentTitle,
           bold: true,
           size: 28,
           font: extractFontName(fontConfig.heading.family),
@@ -444,7 +450,7 @@ export async function generateMotivationLetterDOCX(
       spacing: { before: 400 },
       children: [
         new TextRun({
-          text: 'Met vriendelijke groet,',
+          text: conventions.signOff,
           font: extractFontName(fontConfig.body.family),
         }),
       ],
@@ -21,7 +21,7 @@ import { createCanvas, type Canvas, type SKRSContext2D } from '@napi-rs/canvas';
 // trailing slash. With file:// the read silently fails and pdfjs renders
 // glyph-less PDFs (only lines/shapes, no text).
 let cachedAssets: { standardFontDataUrl: string; cMapUrl: string } | null = null;
-function getPdfjsAssetUrls(): { standardFontDataUrl: string; cMapUrl: string } {
+export function getPdfjsAssetUrls(): { standardFontDataUrl: string; cMapUrl: string } {
   if (cachedAssets) return cachedAssets;
   const nodeRequire = createRequire(import.meta.url);
   const root = path.dirname(nodeRequire.resolve('pdfjs-dist/package.json'));
@@ -33,10 +33,11 @@ function getPdfjsAssetUrls(): { standardFontDataUrl: string; cMapUrl: string } {
 }
 
 // Lazy-load pdfjs to avoid loading the ~2MB module unless a PDF is actually rendered.
+// Also used by pdf-text.ts for text extraction.
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let pdfjsModule: any | null = null;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function loadPdfjs(): Promise<any> {
+export async function loadPdfjs(): Promise<any> {
   if (!pdfjsModule) {
     // pdfjs-dist v3 ships only .js in legacy/. v4's .mjs has a Node loopback
     // issue with structuredClone on @napi-rs/canvas → we deliberately stay on v3.
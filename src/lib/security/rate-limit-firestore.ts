@@ -0,0 +1,48 @@
+/**
+ * Firestore-backed sliding-window store. One document per limiter key in
+ * `rateLimits`, holding the hit timestamps inside the current window; each
+ * check is a single transaction so concurrent instances can't both take the
+ * last slot.
+ *
+ * Set a Firestore TTL policy on the `expiresAt` field to purge idle keys
+ * (Firestore console → Time-to-live → collection `rateLimits`, field
+ * `expiresAt`).
+ */
+
+import { createHash } from 'node:crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getAdminDb } from '@/lib/firebase/admin';
+import type { RateLimitConfig } from './rate-limiter';
+import type { RateLimitStore, SlidingWindowHit } from './rate-limit-store';
+
+const COLLECTION = 'rateLimits';
+
+export class FirestoreRateLimitStore implements RateLimitStore {
+  readonly name = 'firestore';
+
+  async hit(key: string, config: RateLimitConfig, now: number): Promise<SlidingWindowHit> {
+    const db = getAdminDb();
+    // Keys contain user ids and IPs — hash them into a safe document id
+    const ref = db.collection(COLLECTION).doc(createHash('sha256').update(key).digest('hex'));
+
+    return db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const stored = snap.exists ? (snap.data()?.hits as unknown) : null;
+      const hits = (Array.isArray(stored) ? stored : [])
+        .filter((t): t is number => typeof t === 'number' && t > now - config.windowMs)
+        .sort((a, b) => a - b);
+
+      // Denied requests don't count against the window, so there's nothing to write
+      if (hits.length >= config.maxRequests) {
+        return { allowed: false, count: hits.length, oldest: hits[0] };
+      }
+
+      hits.push(now);
+      tx.set(ref, {
+        hits,
+        expiresAt: Timestamp.fromMillis(now + config.windowMs),
+      });
+      return { allowed: true, count: hits.length, oldest: hits[0] };
+    });
+  }
+}
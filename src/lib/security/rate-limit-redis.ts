@@ -0,0 +1,235 @@
+/**
+ * Redis-protocol sliding-window store. Works against anything that speaks
+ * RESP and runs Lua — Redis, Memorystore, Valkey, KeyDB, Upstash.
+ *
+ * Each key is a sorted set of hit timestamps; trimming, counting and adding
+ * happen in one EVAL so concurrent instances see a consistent window.
+ *
+ * The client is deliberately minimal (one pipelined connection, RESP2, the
+ * handful of commands used here) to avoid a driver dependency for a single
+ * script call. URL format: `redis[s]://[user:password@]host[:port][/db]`.
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomBytes } from 'node:crypto';
+import type { RateLimitConfig } from './rate-limiter';
+import type { RateLimitStore, SlidingWindowHit } from './rate-limit-store';
+
+const KEY_PREFIX = 'ratelimit:';
+const COMMAND_TIMEOUT_MS = 2000;
+// An unreachable host would otherwise hang until the OS TCP timeout
+const CONNECT_TIMEOUT_MS = 2000;
+
+// Returns { allowed (0/1), count, oldest score }
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local max = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+if count >= max then
+  local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  return {0, count, oldest[2]}
+end
+redis.call('ZADD', key, now, ARGV[4])
+redis.call('PEXPIRE', key, window)
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {1, count + 1, oldest[2]}
+`;
+
+type RespValue = string | number | null | RespValue[];
+
+class RespError extends Error {}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+/** Parse one reply at `offset`; null when the buffer doesn't hold all of it yet. */
+function parseReply(buf: Buffer, offset: number): { value: RespValue | RespError; next: number } | null {
+  const lineEnd = buf.indexOf('\r\n', offset);
+  if (lineEnd < 0) return null;
+  const type = String.fromCharCode(buf[offset]);
+  const line = buf.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new RespError(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const len = Number(line);
+      if (len < 0) return { value: null, next };
+      if (buf.length < next + len + 2) return null;
+      return { value: buf.toString('utf8', next, next + len), next: next + len + 2 };
+    }
+    case '*': {
+      const len = Number(line);
+      if (len < 0) return { value: null, next };
+      const items: RespValue[] = [];
+      let error: RespError | null = null;
+      let cursor = next;
+      // Consume every element even after an error one, so the rest of the
+      // array isn't read as the reply to the next command
+      for (let i = 0; i < len; i++) {
+        const item = parseReply(buf, cursor);
+        if (!item) return null;
+        if (item.value instanceof RespError) error ??= item.value;
+        else items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: error ?? items, next: cursor };
+    }
+    default:
+      return { value: new RespError(`Unexpected reply type "${type}"`), next: buf.length };
+  }
+}
+
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  async command(args: Array<string | number>): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+
+  private connect(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const secure = this.url.protocol === 'rediss:';
+    const host = this.url.hostname || '127.0.0.1';
+    const port = Number(this.url.port) || 6379;
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setNoDelay(true);
+    this.socket = socket;
+
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    // Events from a socket that has already been replaced are ignored
+    const resetIfCurrent = (error: Error) => {
+      if (this.socket === socket) this.reset(error);
+    };
+    socket.on('error', resetIfCurrent);
+    socket.on('close', () => resetIfCurrent(new Error('Redis connection closed')));
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new Error(`Redis connect to ${host}:${port} timed out`));
+        socket.destroy();
+      }, CONNECT_TIMEOUT_MS);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      socket.once('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    }).then(async () => {
+      const user = decodeURIComponent(this.url.username);
+      const password = decodeURIComponent(this.url.password);
+      if (password) await this.send(user ? ['AUTH', user, password] : ['AUTH', password]);
+      const db = Number(this.url.pathname.slice(1));
+      if (db > 0) await this.send(['SELECT', db]);
+    });
+    this.ready.catch(() => resetIfCurrent(new Error('Redis connection failed')));
+    return this.ready;
+  }
+
+  private send(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error('Redis not connected'));
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are matched by order — after a timeout the stream can't be trusted
+        this.reset(new Error(`Redis ${args[0]} timed out`));
+      }, COMMAND_TIMEOUT_MS);
+      this.pending.push({ resolve, reject, timer });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const reply = parseReply(this.buffer, offset);
+      if (!reply) break;
+      offset = reply.next;
+      const waiter = this.pending.shift();
+      if (!waiter) continue;
+      clearTimeout(waiter.timer);
+      if (reply.value instanceof RespError) waiter.reject(reply.value);
+      else waiter.resolve(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private reset(error: Error) {
+    const socket = this.socket;
+    this.socket = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    for (const waiter of this.pending.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+    socket?.destroy();
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+  private connection: RedisConnection;
+
+  constructor(url: string) {
+    this.connection = new RedisConnection(new URL(url));
+  }
+
+  async hit(key: string, config: RateLimitConfig, now: number): Promise<SlidingWindowHit> {
+    // Unique member so two hits in the same millisecond both count
+    const member = `${now}-${randomBytes(4).toString('hex')}`;
+    const reply = await this.connection.command([
+      'EVAL',
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      KEY_PREFIX + key,
+      now,
+      config.windowMs,
+      config.maxRequests,
+      member,
+    ]);
+
+    if (!Array.isArray(reply) || reply.length < 3) {
+      throw new Error('Unexpected rate-limit script reply');
+    }
+    const count = Number(reply[1]);
+    return {
+      allowed: Number(reply[0]) === 1,
+      count,
+      oldest: Number(reply[2] ?? now) || now,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Storage backends for the rate limiter.
+ *
+ * Every store implements the same sliding-window log: a hit is recorded only
+ * if fewer than `maxRequests` hits fall within the last `windowMs`, so a
+ * burst at the end of one minute can't be followed by a full budget at the
+ * start of the next (the old fixed-window behaviour).
+ *
+ * Selected with `RATE_LIMIT_STORE`:
+ * - `memory` (default) — process-local; fine for a single instance and dev
+ * - `firestore` — one TTL document per key in `rateLimits`
+ * - `redis` — any Redis-protocol server (Memorystore, Valkey, Upstash, ...)
+ *   at `RATE_LIMIT_REDIS_URL`
+ *
+ * Firestore and Redis are loaded lazily so the default path pulls in neither.
+ */
+
+import type { RateLimitConfig } from './rate-limiter';
+
+export interface SlidingWindowHit {
+  allowed: boolean;
+  /** Hits inside the window, including this one when allowed. */
+  count: number;
+  /** Timestamp (ms) of the oldest hit still inside the window. */
+  oldest: number;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, config: RateLimitConfig, now: number): Promise<SlidingWindowHit>;
+}
+
+// ============ In-memory ============
+
+interface MemoryEntry {
+  hits: number[];
+  windowMs: number;
+}
+
+// Cleanup old entries periodically (every 5 minutes)
+const CLEANUP_INTERVAL = 5 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+  private lastCleanup = Date.now();
+
+  async hit(key: string, config: RateLimitConfig, now: number): Promise<SlidingWindowHit> {
+    this.cleanup(now);
+
+    const entry = this.entries.get(key) ?? { hits: [], windowMs: config.windowMs };
+    entry.windowMs = config.windowMs;
+    entry.hits = entry.hits.filter((t) => t > now - config.windowMs);
+
+    if (entry.hits.length >= config.maxRequests) {
+      this.entries.set(key, entry);
+      return { allowed: false, count: entry.hits.length, oldest: entry.hits[0] };
+    }
+
+    entry.hits.push(now);
+    this.entries.set(key, entry);
+    return { allowed: true, count: entry.hits.length, oldest: entry.hits[0] };
+  }
+
+  private cleanup(now: number) {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) return;
+    this.lastCleanup = now;
+    for (const [key, entry] of this.entries) {
+      const last = entry.hits[entry.hits.length - 1] ?? 0;
+      if (last <= now - entry.windowMs) this.entries.delete(key);
+    }
+  }
+}
+
+// ============ Selection ============
+
+export type RateLimitStoreKind = 'memory' | 'firestore' | 'redis';
+
+/** Used directly in memory mode, and as the fallback when a shared store fails. */
+export const memoryRateLimitStore = new MemoryRateLimitStore();
+
+let storePromise: Promise<RateLimitStore> | null = null;
+
+async function createStore(): Promise<RateLimitStore> {
+  const kind = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase() as RateLimitStoreKind;
+
+  if (kind === 'firestore') {
+    const { FirestoreRateLimitStore } = await import('./rate-limit-firestore');
+    return new FirestoreRateLimitStore();
+  }
+
+  if (kind === 'redis') {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    if (!url) {
+      console.warn('[rate-limit] RATE_LIMIT_STORE=redis but RATE_LIMIT_REDIS_URL is not set — using memory');
+      return memoryRateLimitStore;
+    }
+    const { RedisRateLimitStore } = await import('./rate-limit-redis');
+    return new RedisRateLimitStore(url);
+  }
+
+  if (kind !== 'memory') {
+    console.warn(`[rate-limit] Unknown RATE_LIMIT_STORE "${kind}" — using memory`);
+  }
+  return memoryRateLimitStore;
+}
+
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  if (!storePromise) {
+    storePromise = createStore().catch((error) => {
+      console.error('[rate-limit] Failed to initialise store — using memory:', error);
+      return memoryRateLimitStore;
+    });
+  }
+  return storePromise;
+}
@@ -1,38 +1,17 @@
 /**
- * In-memory rate limiter for API endpoints
+ * Sliding-window rate limiter for API endpoints.
  *
- * For multi-instance Cloud Run deployments, consider using:
- * - Cloud Memorystore (Redis)
- * - Firestore (with TTL documents)
+ * Counters live in a pluggable store (see ./rate-limit-store.ts). The default
+ * in-memory store is per process, so on multi-instance Cloud Run every
+ * instance gets its own budget — set `RATE_LIMIT_STORE=firestore` or
+ * `RATE_LIMIT_STORE=redis` there to share one budget across instances.
  *
- * Current implementation works well for:
- * - Single instance deployments
- * - Development environments
+ * If the shared store is unreachable the check falls back to the in-memory
+ * store for that request: limits degrade to per-instance rather than
+ * blocking traffic or letting it through unchecked.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
-
-// In-memory store for rate limiting
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Cleanup old entries periodically (every 5 minutes)
-const CLEANUP_INTERVAL = 5 * 60 * 1000;
-let lastCleanup = Date.now();
-
-function cleanupOldEntries() {
-  const now = Date.now();
-  if (now - lastCleanup < CLEANUP_INTERVAL) return;
-
-  lastCleanup = now;
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  }
-}
+import { getRateLimitStore, memoryRateLimitStore } from './rate-limit-store';
 
 export interface RateLimitConfig {
   /** Maximum number of requests allowed within the window */
@@ -44,54 +23,52 @@ export interface RateLimitConfig {
 export interface RateLimitResult {
   allowed: boolean;
   remaining: number;
+  /** When the oldest hit in the window expires and a slot frees up (ms) */
   resetTime: number;
   retryAfter?: number;
 }
 
 /**
- * Check if a request should be rate limited
+ * Check if a request should be rate limited. Denied requests are not
+ * recorded, so hammering a limited endpoint doesn't extend the lockout.
  * @param identifier - Unique identifier (e.g., userId, IP, or combination)
  * @param endpoint - Endpoint identifier for separate limits per route
  * @param config - Rate limit configuration
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
   endpoint: string,
   config: RateLimitConfig
-): RateLimitResult {
-  cleanupOldEntries();
-
+): Promise<RateLimitResult> {
   const key = `${endpoint}:${identifier}`;
   const now = Date.now();
-  const entry = rateLimitStore.get(key);
-
-  // No existing entry or window has passed
-  if (!entry || entry.resetTime < now) {
-    const resetTime = now + config.windowMs;
-    rateLimitStore.set(key, { count: 1, resetTime });
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetTime,
-    };
+  const store = await getRateLimitStore();
+
+  let hit;
+  try {
+    hit = await store.hit(key, config, now);
+  } catch (error) {
+    console.warn(
+      `[rate-limit] ${store.name} store failed, using memory:`,
+      error instanceof Error ? error.message : error
+    );
+    hit = await memoryRateLimitStore.hit(key, config, now);
   }
 
-  // Within window, check count
-  if (entry.count >= config.maxRequests) {
+  const resetTime = hit.oldest + config.windowMs;
+  if (!hit.allowed) {
     return {
       allowed: false,
       remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter: Math.ceil((entry.resetTime - now) / 1000),
+      resetTime,
+      retryAfter: Math.max(1, Math.ceil((resetTime - now) / 1000)),
     };
   }
 
-  // Within window, increment count
-  entry.count++;
   return {
     allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
+    remaining: Math.max(0, config.maxRequests - hit.count),
+    resetTime,
   };
 }
 
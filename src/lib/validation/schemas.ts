@@ -80,6 +80,36 @@ export const linkedInProjectSchema = z.object({
   role: z.string().max(MAX_LENGTHS.shortText).nullable(),
 });
 
+export const linkedInPublicationSchema = z.object({
+  title: z.string().max(MAX_LENGTHS.shortText),
+  publisher: z.string().max(MAX_LENGTHS.shortText).nullable(),
+  date: z.string().max(50).nullable(),
+  url: z.string().max(MAX_LENGTHS.url).nullable(),
+  description: z.string().max(MAX_LENGTHS.longText).nullable(),
+});
+
+export const linkedInVolunteeringSchema = z.object({
+  role: z.string().max(MAX_LENGTHS.shortText),
+  organization: z.string().max(MAX_LENGTHS.name),
+  cause: z.string().max(MAX_LENGTHS.shortText).nullable(),
+  startDate: z.string().max(50).nullable(),
+  endDate: z.string().max(50).nullable(),
+  description: z.string().max(MAX_LENGTHS.longText).nullable(),
+});
+
+export const linkedInAwardSchema = z.object({
+  title: z.string().max(MAX_LENGTHS.shortText),
+  issuer: z.string().max(MAX_LENGTHS.name).nullable(),
+  date: z.string().max(50).nullable(),
+  description: z.string().max(MAX_LENGTHS.longText).nullable(),
+});
+
+export const linkedInReferenceSchema = z.object({
+  name: z.string().max(MAX_LENGTHS.name),
+  relationship: z.string().max(MAX_LENGTHS.shortText).nullable(),
+  contact: z.string().max(MAX_LENGTHS.shortText).nullable(),
+});
+
 export const parsedLinkedInSchema = z.object({
   fullName: z.string().min(1).max(MAX_LENGTHS.name),
   headline: z.string().max(MAX_LENGTHS.headline).nullable(),
@@ -91,6 +121,11 @@ export const parsedLinkedInSchema = z.object({
   languages: z.array(linkedInLanguageSchema).max(20),
   certifications: z.array(linkedInCertificationSchema).max(50),
   projects: z.array(linkedInProjectSchema).max(30).optional(),
+  publications: z.array(linkedInPublicationSchema).max(100).optional(),
+  volunteering: z.array(linkedInVolunteeringSchema).max(30).optional(),
+  awards: z.array(linkedInAwardSchema).max(30).optional(),
+  references: z.array(linkedInReferenceSchema).max(10).optional(),
+  referencesOnRequest: z.boolean().optional(),
   email: emailSchema,
   phone: phoneSchema,
   linkedinUrl: urlSchema,
@@ -185,7 +220,7 @@ export const generateCVRequestSchema = z.object({
   jobVacancy: jobVacancySchema.nullable(),
   styleConfig: cvStyleConfigSchema,
   avatarUrl: z.string().max(MAX_LENGTHS.url).nullable().optional(),
-  language: z.enum(['nl', 'en']).default('nl'),
+  language: z.enum(['nl', 'en', 'de', 'fr', 'es']).default('nl'),
 });
 
 /** Style Generation request */
@@ -230,12 +265,13 @@ export const mollieCheckoutRequestSchema = z.object({
 /** Motivation letter request */
 export const motivationLetterRequestSchema = z.object({
   personalMotivation: z.string().max(MAX_LENGTHS.mediumText).optional(),
-  language: z.enum(['nl', 'en']).default('nl'),
+  language: z.enum(['nl', 'en', 'de', 'fr', 'es']).default('nl'),
 });
 
 /** PDF generation request */
 export const pdfGenerateRequestSchema = z.object({
   pageMode: z.enum(['multi-page', 'single-page']).default('multi-page'),
+  paperSize: z.enum(['a4', 'letter', 'legal']).optional(),
 });
 
 /** Profile save request */
@@ -1,4 +1,6 @@
 import type { JobSourceProvider } from '@/lib/jobs/providers/types';
+import type { InterviewQuestionCategory } from './interview-prep';
+import type { OutputLanguage } from './language';
 
 export type ApplicationStatus =
   | 'applied'
@@ -8,6 +10,99 @@ export type ApplicationStatus =
   | 'accepted'
   | 'withdrawn';
 
+// ============ Timeline ============
+// Everything that happened after applying, newest last. The application
+// itself (appliedAt) is the implicit first entry and is not stored.
+
+export type ApplicationEventType =
+  | 'status_change' // written by the server when `status` changes
+  | 'email'         // mail sent to / received from the employer, incl. follow-ups
+  | 'interview'     // a scheduled interview round
+  | 'offer'         // an offer, optionally with salary
+  | 'note';
+
+export type InterviewType = 'phone' | 'video' | 'onsite' | 'assessment';
+
+export interface ApplicationInterview {
+  round: number;
+  type: InterviewType;
+  /** Minutes; used for the calendar export. */
+  durationMinutes: number;
+  interviewer?: string;
+  /** Address or meeting link. */
+  location?: string;
+}
+
+export interface ApplicationOffer {
+  salary?: number;
+  currency: string;
+  period: 'yearly' | 'monthly' | 'hourly';
+  /** ISO date the offer has to be answered by. */
+  respondBy?: string;
+}
+
+export interface ApplicationEvent {
+  id: string;
+  type: ApplicationEventType;
+  /** When it happened — or, for interviews, when it is scheduled. ISO. */
+  at: string;
+  fromStatus?: ApplicationStatus;
+  toStatus?: ApplicationStatus;
+  /** email: subject line and which way it went. */
+  subject?: string;
+  direction?: 'sent' | 'received';
+  interview?: ApplicationInterview;
+  offer?: ApplicationOffer;
+  note?: string;
+}
+
+// ============ Mock interviews ============
+// Practice conversations with an AI interviewer (see
+// /api/applications/[id]/mock-interview). The transcript is rebuilt from the
+// chat on every turn, so it always matches what the user saw.
+
+export interface MockInterviewTurn {
+  role: 'interviewer' | 'candidate';
+  text: string;
+}
+
+export type StarElement = 'situation' | 'task' | 'action' | 'result';
+
+export interface MockInterviewEvaluation {
+  question: string;
+  category: InterviewQuestionCategory;
+  /** 1 (weak) – 5 (excellent). */
+  score: number;
+  starCovered: StarElement[];
+  feedback: string;
+  /** Things the candidate claimed that the profile does not back up. */
+  unsupportedClaims: string[];
+}
+
+export interface MockInterviewDebrief {
+  /** 0–100. */
+  overallScore: number;
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+}
+
+export interface MockInterviewTranscript {
+  id: string;
+  cvId: string;
+  language: OutputLanguage;
+  /** Interview round from the timeline this practice was for, if any. */
+  round: number | null;
+  turns: MockInterviewTurn[];
+  evaluations: MockInterviewEvaluation[];
+  /** Set once the interviewer wraps up; the session is closed after that. */
+  debrief: MockInterviewDebrief | null;
+  /** Credits charged so far — character-based, like the CV chat. */
+  chargedCredits: number;
+  startedAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
 export interface ApplicationRecord {
   id: string;
   userId: string;
@@ -22,6 +117,11 @@ export interface ApplicationRecord {
   cvId: string | null;
   status: ApplicationStatus;
   notes?: string;
+  events: ApplicationEvent[];
+  /** Remind after this many quiet days; null = no follow-up reminders. */
+  followUpAfterDays: number | null;
+  /** Most recent mock interviews, newest first. */
+  mockInterviews: MockInterviewTranscript[];
   appliedAt: string; // ISO
   updatedAt: string; // ISO
 }
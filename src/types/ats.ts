@@ -0,0 +1,44 @@
+// ============ ATS parseability report ============
+// Result of re-parsing a rendered CV PDF the way an applicant-tracking
+// system does. Produced by src/lib/cv/ats-check.ts, stored on the CV
+// document as `atsReport`.
+
+export type ATSCheckId =
+  | 'text-layer'      // Is the text selectable at all?
+  | 'name'            // Candidate name recognised as the name
+  | 'contact'         // Email, phone, LinkedIn readable
+  | 'headings'        // Section headings recognised as headings
+  | 'dates'           // Experience periods readable and on their own line
+  | 'reading-order';  // Paragraphs survive without column interleaving
+
+export type ATSCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface ATSCheck {
+  id: ATSCheckId;
+  status: ATSCheckStatus;
+  /** Human-readable finding (Dutch), shown under the check. */
+  detail: string;
+}
+
+/** What a parser extracted — a small ParsedLinkedIn-shaped summary. */
+export interface ATSParsedResume {
+  fullName: string | null;
+  email: string | null;
+  phone: string | null;
+  linkedinUrl: string | null;
+  /** Section headings in the order they were found. */
+  headings: string[];
+  /** Experience date ranges with the full line they were found on. */
+  experience: Array<{ period: string; line: string }>;
+}
+
+export interface ATSReport {
+  /** 0–100, weighted over the applicable checks. */
+  score: number;
+  checks: ATSCheck[];
+  parsed: ATSParsedResume;
+  pageCount: number;
+  /** cv-engine recipe the PDF was rendered with; null for legacy styles. */
+  recipeId: string | null;
+  checkedAt: string; // ISO
+}
@@ -7,6 +7,7 @@ import type {
   GeneratedCVSkills,
 } from './index';
 import type { CVDesignTokens } from './design-tokens';
+import type { OutputLanguage } from './language';
 
 // ============ CV Chat Context ============
 
@@ -19,7 +20,7 @@ export interface CVChatContext {
   fitAnalysis: FitAnalysis | null;
   currentContent: GeneratedCVContent;
   currentTokens?: CVDesignTokens;
-  language: 'nl' | 'en';
+  language: OutputLanguage;
 }
 
 // ============ Tool Names ============
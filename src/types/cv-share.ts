@@ -0,0 +1,36 @@
+import type { Timestamp } from 'firebase/firestore';
+
+// ============ CV Share Links ============
+// /cvShares/{shareId} — top-level so the public /s/[token] route can find
+// the CV without knowing the owner. Written by the Admin SDK only.
+// The public token is `{shareId}.{signature}`; it is derived from the id on
+// demand and never stored.
+
+export interface CVShareLink {
+  id?: string;
+  userId: string;
+  cvId: string;
+  /** null = never expires */
+  expiresAt: Timestamp | null;
+  /** scrypt hash (`salt:hash`, hex). null = no password. */
+  passwordHash: string | null;
+  allowPdfDownload: boolean;
+  viewCount: number;
+  lastViewedAt: Timestamp | null;
+  revokedAt: Timestamp | null;
+  createdAt: Timestamp;
+}
+
+/** Owner-facing view of a share link — never includes the password hash. */
+export interface CVShareLinkSummary {
+  id: string;
+  token: string;
+  url: string;
+  expiresAt: string | null;
+  hasPassword: boolean;
+  allowPdfDownload: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  revoked: boolean;
+  createdAt: string | null;
+}
@@ -0,0 +1,64 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { GeneratedCVContent } from './cv';
+import type { CVDesignTokens } from './design-tokens';
+
+// ============ CV Version History ============
+// /users/{uid}/cvs/{cvId}/versions/{versionId} — one snapshot of
+// `generatedContent` + `designTokens` after every write that changes them.
+// Written by the Admin SDK only; clients read through /api/cv/[id]/versions.
+
+export type CVVersionOperation =
+  | 'baseline'              // State found on the CV before history existed
+  | 'generate'              // Initial AI generation
+  | 'manual-edit'           // Click-to-edit on the preview
+  | 'chat'                  // CV chat tool calls
+  | 'design-tweak'          // Live design-tweaks panel
+  | 'dispute-regenerate'    // Dispute approved by the AI gatekeeper
+  | 'dispute-admin'         // Dispute approved by an admin
+  | 'restore'               // Rollback to an earlier version
+  | 'translate';            // Created as a translation of another CV
+
+/**
+ * Restorable units. Content sections map 1:1 onto GeneratedCVContent keys;
+ * `designTokens` covers the whole visual style.
+ */
+export type CVVersionField =
+  | 'headline'
+  | 'summary'
+  | 'experience'
+  | 'education'
+  | 'skills'
+  | 'languages'
+  | 'certifications'
+  | 'projects'
+  | 'interests'
+  | 'publications'
+  | 'volunteering'
+  | 'awards'
+  | 'references'
+  | 'designTokens';
+
+export interface CVVersion {
+  id?: string;
+  operation: CVVersionOperation;
+  generatedContent: GeneratedCVContent | null;
+  designTokens: CVDesignTokens | null;
+  /** Fields that differ from the previous version. Empty for the first one. */
+  changedFields: CVVersionField[];
+  /** Set when operation is 'restore'. */
+  restoredFrom?: string;
+  /** Admin uid for dispute-admin writes and impersonated edits. */
+  actorUid?: string;
+  createdAt: Timestamp;
+  /** Consecutive edits of the same kind are folded into one version. */
+  updatedAt?: Timestamp;
+}
+
+/** List view — the snapshot payload is fetched per version on demand. */
+export type CVVersionSummary = Omit<CVVersion, 'generatedContent' | 'designTokens'>;
+
+export interface CVVersionFieldDiff {
+  field: CVVersionField;
+  before: unknown;
+  after: unknown;
+}
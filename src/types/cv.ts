@@ -4,6 +4,8 @@ import type { ParsedLinkedIn } from './linkedin';
 import type { JobVacancy, FitAnalysis, GeneratedMotivationLetter } from './job';
 import type { CVStyleConfig, StyleCreativityLevel } from './cv-style';
 import type { CVDesignTokens } from './design-tokens';
+import type { ATSReport } from './ats';
+import type { InterviewPrepPack } from './interview-prep';
 
 export type CVTemplate = 'modern' | 'classic' | 'minimal';
 export type CVStatus = 'draft' | 'generating' | 'generated' | 'pdf_ready' | 'failed';
@@ -52,6 +54,33 @@ export interface GeneratedCVProject {
   highlights: string[];
 }
 
+export interface GeneratedCVPublication {
+  title: string;
+  publisher: string | null; // journal, publisher, conference or event
+  date: string | null;
+  url: string | null;
+}
+
+export interface GeneratedCVVolunteering {
+  role: string;
+  organization: string;
+  period: string;
+  description: string | null;
+}
+
+export interface GeneratedCVAward {
+  title: string;
+  issuer: string | null;
+  date: string | null;
+  description: string | null;
+}
+
+export interface GeneratedCVReference {
+  name: string;
+  relationship: string | null;
+  contact: string | null;
+}
+
 export interface GeneratedCVContent {
   headline: string; // Professional headline adapted for the target job
   summary: string;
@@ -62,6 +91,11 @@ export interface GeneratedCVContent {
   certifications: string[];
   projects?: GeneratedCVProject[];
   interests?: string[]; // Personal interests/hobbies. Each item is either a bare hobby name ("Schaken") or a hobby with a short vacancy-relevant framing the AI added ("Schaken — strategisch denken"). Names always come from the source profile; the framing (after " — ") is the AI's contribution. See src/lib/cv/interest-format.ts.
+  publications?: GeneratedCVPublication[]; // Publications and talks
+  volunteering?: GeneratedCVVolunteering[];
+  awards?: GeneratedCVAward[];
+  references?: GeneratedCVReference[]; // Copied from the profile, never AI-written
+  referencesOnRequest?: boolean; // Renders "References available on request" when there are no named references
 }
 
 // ============ Element Override Types (Interactive Preview Editing) ============
@@ -131,8 +165,16 @@ export interface CV {
   llmProvider: string | null;
   llmModel: string | null;
   fitAnalysis?: FitAnalysis | null;
+  /** Last ATS parseability check of the rendered PDF (see /api/cv/[id]/ats). */
+  atsReport?: ATSReport | null;
   motivationLetter?: GeneratedMotivationLetter | null;
+  /** Interview questions + STAR outlines (see /api/cv/[id]/interview-prep). */
+  interviewPrep?: InterviewPrepPack | null;
   language?: OutputLanguage;
+  // Translations (see /api/cv/[id]/translate) are sibling CVs. The copy
+  // points back at its source; the source keeps one copy per language.
+  translatedFrom?: { cvId: string; language: OutputLanguage } | null;
+  translations?: Partial<Record<OutputLanguage, string>>;
   // Dispute system state — a user can request up to 3 reviews when they
   // believe the AI got something wrong. Attempts 1 and 2 go through an AI
   // gatekeeper; attempt 3 escalates to human admin review.
@@ -140,6 +182,11 @@ export interface CV {
   creativityLevel?: StyleCreativityLevel;
   creativityLevelHistory?: StyleCreativityLevel[];
 
+  // Public share links (see cv-share.ts) — views across all links, bumped
+  // by the /s/[token] page so the owner can see when a recruiter opened it.
+  shareViewCount?: number;
+  shareLastViewedAt?: Timestamp | null;
+
   // Per-CV AI usage telemetry — populated by recordOperationUsage()
   // so the admin/owner can see exactly which operations were billed and
   // their token cost, and so pricing can be recalibrated from real data.
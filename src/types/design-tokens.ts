@@ -66,6 +66,10 @@ export type HeaderGradient = 'none' | 'subtle' | 'radial';
 
 export type DecorationIntensity = 'none' | 'minimal' | 'moderate' | 'abundant';
 
+// ============ Paper Size ============
+
+export type PaperSize = 'a4' | 'letter' | 'legal';
+
 // ============ Experience Description Format ============
 
 export type ExperienceDescriptionFormat = 'bullets' | 'paragraph';
@@ -659,6 +663,7 @@ export interface CVDesignTokens {
   pageBackground?: string;          // Page background color (hex), must be very light
   nameStyle?: NameStyle;            // Name styling: normal, uppercase, extra-bold
   skillTagStyle?: SkillTagStyle;    // Skill tag variant: filled, outlined, pill
+  paperSize?: PaperSize;            // Output sheet: a4 (default), letter, legal
 
   // === Editorial Mode (creative creativity level only) ===
   // Presence of `editorial` switches the renderer to the editorial/magazine
@@ -10,6 +10,10 @@ export * from './job';
 export * from './cv-style';
 export * from './cv';
 export * from './dispute';
+export * from './cv-version';
+export * from './cv-share';
+export * from './ats';
+export * from './interview-prep';
 export * from './api';
 export * from './template';
 export * from './kanban';
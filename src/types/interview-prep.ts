@@ -0,0 +1,59 @@
+import type { OutputLanguage } from './language';
+
+// ============ Interview preparation pack ============
+// Generated per CV (optionally for one application's interview round) by
+// src/lib/ai/interview-prep-generator.ts, stored on the CV document as
+// `interviewPrep`.
+
+export type InterviewQuestionCategory =
+  | 'behavioural' // "Vertel over een keer dat…"
+  | 'technical'   // role- and stack-specific
+  | 'gap'         // probes a FitAnalysis warning
+  | 'motivation'; // why this company / this role
+
+/** A profile item an answer leans on (experience, project, education, certification). */
+export interface InterviewEvidence {
+  id: string;     // e.g. "exp-0", "proj-2" — index into the source profile
+  label: string;  // "Backend developer — Acme (2020 – 2023)"
+}
+
+export interface StarOutline {
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  /** Always at least one item — outlines without profile evidence are dropped. */
+  evidence: InterviewEvidence[];
+  /** Skills to mention, filtered against the profile by the claim validator. */
+  skills: string[];
+}
+
+export interface InterviewQuestion {
+  category: InterviewQuestionCategory;
+  question: string;
+  /** What the interviewer is trying to find out. */
+  why: string;
+  /** Null when the profile holds no evidence for a STAR answer. */
+  answer: StarOutline | null;
+  /** How to approach the question — the main guidance when `answer` is null. */
+  tip: string | null;
+  /** gap questions: the FitWarning message they probe. */
+  relatedWarning: string | null;
+}
+
+export interface EmployerQuestion {
+  question: string;
+  why: string;
+}
+
+export interface InterviewPrepPack {
+  language: OutputLanguage;
+  jobTitle: string;
+  company: string | null;
+  /** Set when generated from an application; round info then shaped the questions. */
+  applicationId: string | null;
+  round: number | null;
+  questions: InterviewQuestion[];
+  questionsToAsk: EmployerQuestion[];
+  generatedAt: string; // ISO
+}
@@ -0,0 +1,19 @@
+import type { JobSearchParams } from '@/lib/jobs/providers/types';
+
+export type JobAlertFrequency = 'daily' | 'weekly';
+
+/** The search a job alert re-runs. Paging and sort are decided by the runner. */
+export type JobAlertParams = Omit<JobSearchParams, 'page' | 'resultsPerPage' | 'sort'>;
+
+export interface JobAlertRecord {
+  id: string;
+  userId: string;
+  name: string;
+  params: JobAlertParams;
+  frequency: JobAlertFrequency;
+  active: boolean;
+  lastRunAt: string | null; // ISO
+  lastSentAt: string | null; // ISO
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
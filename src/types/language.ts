@@ -1,6 +1,25 @@
-export type OutputLanguage = 'nl' | 'en';
+export type OutputLanguage = 'nl' | 'en' | 'de' | 'fr' | 'es';
+
+/** Every supported output language, in the order the wizard shows them. */
+export const OUTPUT_LANGUAGES: OutputLanguage[] = ['nl', 'en', 'de', 'fr', 'es'];
 
 export const LANGUAGE_LABELS: Record<OutputLanguage, string> = {
   nl: 'Nederlands',
   en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+};
+
+/** BCP 47 locale used for dates and numbers in generated documents. */
+export const LANGUAGE_LOCALES: Record<OutputLanguage, string> = {
+  nl: 'nl-NL',
+  en: 'en-US',
+  de: 'de-DE',
+  fr: 'fr-FR',
+  es: 'es-ES',
 };
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === 'string' && (OUTPUT_LANGUAGES as string[]).includes(value);
+}
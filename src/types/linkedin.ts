@@ -41,6 +41,37 @@ export interface LinkedInProject {
   role: string | null;
 }
 
+export interface LinkedInPublication {
+  title: string;
+  /** Journal, publisher, conference or event — talks are listed here too */
+  publisher: string | null;
+  date: string | null;
+  url: string | null;
+  description: string | null;
+}
+
+export interface LinkedInVolunteering {
+  role: string;
+  organization: string;
+  cause: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  description: string | null;
+}
+
+export interface LinkedInAward {
+  title: string;
+  issuer: string | null;
+  date: string | null;
+  description: string | null;
+}
+
+export interface LinkedInReference {
+  name: string;
+  relationship: string | null;   // e.g. "Former manager at Acme"
+  contact: string | null;        // email or phone, as the candidate wrote it
+}
+
 export interface ParsedLinkedIn {
   fullName: string;
   headline: string | null;
@@ -52,6 +83,13 @@ export interface ParsedLinkedIn {
   languages: LinkedInLanguage[];
   certifications: LinkedInCertification[];
   projects?: LinkedInProject[];
+  publications?: LinkedInPublication[];
+  volunteering?: LinkedInVolunteering[];
+  awards?: LinkedInAward[];
+  references?: LinkedInReference[];
+  // "References available on request" — set when the source says so, with
+  // or without named referees.
+  referencesOnRequest?: boolean;
   // Contact info - manually entered by user (not from LinkedIn)
   email?: string;
   phone?: string;